@@ -21,6 +21,7 @@ import {
   ForgotPasswordRoute,
   ResetPasswordRoute,
   VerifyEmailRoute,
+  OidcCallbackRoute,
   
   // Main App Routes
   DashboardRoute,
@@ -41,6 +42,7 @@ import {
   
   // Settings Routes
   SettingsRoute,
+  SecuritySettingsRoute,
   
   // Error Routes
   NotFoundRoute,
@@ -108,6 +110,13 @@ const AppRouter: React.FC = () => {
             <VerifyEmailRoute />
           }
         />
+        {/* Signing in or linking an account, so open to guests and signed-in users */}
+        <Route
+          path={ROUTES.OIDC_CALLBACK}
+          element={
+            <OidcCallbackRoute />
+          }
+        />
 
         {/* Protected Main Routes */}
         <Route
@@ -223,6 +232,16 @@ const AppRouter: React.FC = () => {
             </ProtectedRoute>
           }
         />
+        <Route
+          path={ROUTES.SETTINGS_SECURITY}
+          element={
+            <ProtectedRoute>
+              <ProtectedLayout>
+                <SecuritySettingsRoute />
+              </ProtectedLayout>
+            </ProtectedRoute>
+          }
+        />
         {/* TODO: Add nested settings routes */}
 
         {/* Error Routes */}
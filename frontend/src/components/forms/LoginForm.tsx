@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Link } from 'react-router-dom';
@@ -7,13 +7,20 @@ import { useGetSecurityMetricsQuery } from '../../store/api/apiSlice';
 import { ROUTES } from '../../constants';
 import { loginSchema, type LoginFormData } from '../../utils/validation';
 import { validateEmail } from '../../utils/validation';
+import TwoFactorLoginForm from './TwoFactorLoginForm';
+import OidcProviderButtons from './OidcProviderButtons';
+import { isPasskeySupported } from '../../utils/webauthn';
+import type { TwoFactorChallengeResponse } from '../../types/api';
 
 const LoginForm: React.FC = () => {
   // Redirect authenticated users
   const { isAllowed } = useRequireGuest();
   
   // Authentication actions
-  const { login, isLoginLoading } = useAuthActions();
+  const { login, loginWithPasskey, isLoginLoading, isPasskeyLoading } = useAuthActions();
+
+  // Set once the password is accepted for an account with two-factor authentication
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallengeResponse | null>(null);
 
   // Form management with Zod validation
   const {
@@ -78,6 +85,11 @@ const LoginForm: React.FC = () => {
         password: data.password,
       });
 
+      if (result.twoFactorRequired && result.challenge) {
+        setTwoFactorChallenge(result.challenge);
+        return;
+      }
+
       if (!result.success && result.error) {
         // Handle different types of API errors
         const error = result.error;
@@ -156,6 +168,16 @@ const LoginForm: React.FC = () => {
           </p>
         </div>
 
+        {twoFactorChallenge ? (
+          <TwoFactorLoginForm
+            challenge={twoFactorChallenge}
+            onCancel={() => {
+              setTwoFactorChallenge(null);
+              setValue('password', '');
+            }}
+          />
+        ) : (
+        <>
         {/* Form */}
         {/* Security Status Alerts */}
         {securityStatus?.isLocked && (
@@ -352,6 +374,23 @@ const LoginForm: React.FC = () => {
             )}
           </div>
 
+          {/* Passkey sign-in */}
+          {isPasskeySupported() && (
+            <div>
+              <button
+                type="button"
+                onClick={() => loginWithPasskey()}
+                disabled={isPasskeyLoading || isLoginLoading || isSubmitting}
+                className="w-full flex justify-center py-3 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+              >
+                {isPasskeyLoading ? 'Waiting for passkey...' : 'Sign in with a passkey'}
+              </button>
+            </div>
+          )}
+
+          {/* Sign-in providers */}
+          <OidcProviderButtons disabled={isPasskeyLoading || isLoginLoading || isSubmitting} />
+
           {/* Sign up link */}
           <div className="text-center">
             <p className="text-sm text-gray-600">
@@ -365,6 +404,8 @@ const LoginForm: React.FC = () => {
             </p>
           </div>
         </form>
+        </>
+        )}
 
         {/* Development Mode Indicators */}
         {process.env.NODE_ENV === 'development' && (
@@ -0,0 +1,44 @@
+import React from 'react';
+import { useAuthActions } from '../../hooks/auth';
+import { useGetOidcProvidersQuery } from '../../store/api/apiSlice';
+
+interface OidcProviderButtonsProps {
+  disabled?: boolean;
+}
+
+// "Continue with ..." for each sign-in provider the API offers; none when it offers none
+const OidcProviderButtons: React.FC<OidcProviderButtonsProps> = ({ disabled = false }) => {
+  const { data: providers = [] } = useGetOidcProvidersQuery();
+  const { startOidcLogin, isOidcLoading } = useAuthActions();
+
+  if (providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <div className="absolute inset-0 flex items-center" aria-hidden="true">
+          <div className="w-full border-t border-gray-300" />
+        </div>
+        <div className="relative flex justify-center text-sm">
+          <span className="px-2 bg-white text-gray-500">Or continue with</span>
+        </div>
+      </div>
+
+      {providers.map((provider) => (
+        <button
+          key={provider.id}
+          type="button"
+          onClick={() => startOidcLogin(provider.id)}
+          disabled={disabled || isOidcLoading}
+          className="w-full flex justify-center py-3 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+        >
+          {provider.name}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default OidcProviderButtons;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { useAuthActions } from '../../hooks/auth';
+import { useGetPasskeyLoginOptionsMutation } from '../../store/api/apiSlice';
+import { getPasskey, isPasskeyCancelled, isPasskeySupported } from '../../utils/webauthn';
+import type { TwoFactorChallengeResponse, TwoFactorLoginRequest } from '../../types/api';
+
+interface TwoFactorLoginFormProps {
+  challenge: TwoFactorChallengeResponse;
+  // Go back to the password step, e.g. once the challenge has expired
+  onCancel: () => void;
+}
+
+// Second step of signing in for accounts with two-factor authentication
+const TwoFactorLoginForm: React.FC<TwoFactorLoginFormProps> = ({ challenge, onCancel }) => {
+  const { completeTwoFactorLogin, isTwoFactorLoading } = useAuthActions();
+  const [getPasskeyLoginOptions, { isLoading: isPasskeyLoading }] = useGetPasskeyLoginOptionsMutation();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [value, setValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const trimmed = value.trim();
+  const isValid = useRecoveryCode ? trimmed.length >= 10 : /^\d{6}$/.test(trimmed);
+
+  const verify = async (factor: Omit<TwoFactorLoginRequest, 'challengeToken'>) => {
+    setError(null);
+
+    const result = await completeTwoFactorLogin({ challengeToken: challenge.challengeToken, ...factor });
+
+    if (!result.success) {
+      // Expired or used-up challenges need the password again
+      if (new Date(challenge.expiresAt).getTime() <= Date.now()) {
+        onCancel();
+        return;
+      }
+      setError(result.error?.data?.message || 'Invalid verification code');
+      setValue('');
+    }
+  };
+
+  const onSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    verify(useRecoveryCode ? { recoveryCode: trimmed } : { code: trimmed });
+  };
+
+  const verifyWithPasskey = async () => {
+    try {
+      const options = await getPasskeyLoginOptions({ challengeToken: challenge.challengeToken }).unwrap();
+      await verify({ passkey: await getPasskey(options) });
+    } catch (error: any) {
+      if (!isPasskeyCancelled(error)) {
+        setError(error?.data?.message || 'Could not use a passkey. Enter a code instead.');
+      }
+    }
+  };
+
+  const toggleMode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setValue('');
+    setError(null);
+  };
+
+  return (
+    <form className="mt-8 space-y-6" onSubmit={onSubmit} noValidate aria-label="Two-factor verification form">
+      <div>
+        <label htmlFor="two-factor-code" className="block text-sm font-medium text-gray-700">
+          {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+        </label>
+        <p className="mt-1 text-sm text-gray-500">
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved when setting up two-factor authentication.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+        <input
+          id="two-factor-code"
+          type="text"
+          value={value}
+          onChange={(event) => setValue(event.target.value)}
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          autoComplete="one-time-code"
+          autoFocus
+          aria-invalid={error ? 'true' : 'false'}
+          aria-describedby={error ? 'two-factor-error' : undefined}
+          placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+          className={`mt-2 block w-full px-3 py-2 border rounded-md placeholder-gray-400 text-gray-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+            error ? 'border-red-300' : 'border-gray-300'
+          }`}
+        />
+        {error && (
+          <p id="two-factor-error" className="mt-2 text-sm text-red-600" role="alert">
+            {error}
+          </p>
+        )}
+      </div>
+
+      <button
+        type="submit"
+        disabled={!isValid || isTwoFactorLoading}
+        className={`w-full flex justify-center py-3 px-4 border border-transparent text-sm font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${
+          !isValid || isTwoFactorLoading
+            ? 'bg-gray-400 text-white cursor-not-allowed'
+            : 'bg-blue-600 text-white hover:bg-blue-700'
+        }`}
+      >
+        {isTwoFactorLoading ? 'Verifying...' : 'Verify'}
+      </button>
+
+      {isPasskeySupported() && (
+        <button
+          type="button"
+          onClick={verifyWithPasskey}
+          disabled={isPasskeyLoading || isTwoFactorLoading}
+          className="w-full flex justify-center py-3 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isPasskeyLoading ? 'Waiting for passkey...' : 'Use a passkey'}
+        </button>
+      )}
+
+      <div className="flex justify-between text-sm">
+        <button type="button" onClick={toggleMode} className="font-medium text-blue-600 hover:text-blue-500">
+          {useRecoveryCode ? 'Use your authenticator app' : 'Use a recovery code'}
+        </button>
+        <button type="button" onClick={onCancel} className="font-medium text-gray-600 hover:text-gray-500">
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default TwoFactorLoginForm;
@@ -1,5 +1,7 @@
 // Export all form components
 export { default as LoginForm } from './LoginForm';
+export { default as TwoFactorLoginForm } from './TwoFactorLoginForm';
+export { default as OidcProviderButtons } from './OidcProviderButtons';
 export { default as RegisterForm } from './RegisterForm';
 export { default as ForgotPasswordForm } from './ForgotPasswordForm';
 export { default as ResetPasswordForm } from './ResetPasswordForm';
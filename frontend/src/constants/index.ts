@@ -16,6 +16,8 @@ export const ROUTES = {
   FORGOT_PASSWORD: '/forgot-password',
   RESET_PASSWORD: '/reset-password',
   VERIFY_EMAIL: '/verify-email',
+  // Where sign-in providers redirect back to (OIDC_REDIRECT_URI on the API)
+  OIDC_CALLBACK: '/auth/callback',
   
   // Protected Main Routes
   DASHBOARD: '/dashboard',
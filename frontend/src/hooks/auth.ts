@@ -4,6 +4,11 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { useAppDispatch, useAppSelector } from './redux';
 import { 
   useLoginMutation, 
+  useLoginTwoFactorMutation,
+  useGetPasskeyLoginOptionsMutation,
+  useLoginWithPasskeyMutation,
+  useStartOidcLoginMutation,
+  useLoginWithOidcMutation,
   useRegisterMutation, 
   useLogoutMutation,
   useRefreshTokenMutation,
@@ -22,8 +27,10 @@ import {
   selectSessionExpiry,
 } from '../store/slices/authSlice';
 import { ROUTES } from '../constants';
+import { getPasskey, isPasskeyCancelled } from '../utils/webauthn';
+import { redirectToProvider } from '../utils/oidc';
 import { useNotifications } from './redux';
-import type { LoginRequest, RegisterRequest, AuthResponse } from '../types/api';
+import type { LoginRequest, RegisterRequest, AuthResponse, TwoFactorLoginRequest, OidcLoginRequest } from '../types/api';
 
 // Enhanced useAuth hook with comprehensive authentication management
 export const useAuth = () => {
@@ -118,28 +125,45 @@ export const useAuthActions = () => {
 
   // API mutations
   const [loginMutation, { isLoading: isLoginLoading }] = useLoginMutation();
+  const [loginTwoFactorMutation, { isLoading: isTwoFactorLoading }] = useLoginTwoFactorMutation();
+  const [getPasskeyLoginOptions, { isLoading: isPasskeyOptionsLoading }] = useGetPasskeyLoginOptionsMutation();
+  const [loginWithPasskeyMutation, { isLoading: isPasskeySignInLoading }] = useLoginWithPasskeyMutation();
+  const isPasskeyLoading = isPasskeyOptionsLoading || isPasskeySignInLoading;
+  const [startOidcLoginMutation, { isLoading: isOidcStarting }] = useStartOidcLoginMutation();
+  const [loginWithOidcMutation, { isLoading: isOidcSignInLoading }] = useLoginWithOidcMutation();
+  const isOidcLoading = isOidcStarting || isOidcSignInLoading;
   const [registerMutation, { isLoading: isRegisterLoading }] = useRegisterMutation();
   const [logoutMutation, { isLoading: isLogoutLoading }] = useLogoutMutation();
   const [refreshTokenMutation] = useRefreshTokenMutation();
 
+  // Store credentials and continue to where the user was going
+  const completeLogin = useCallback((result: AuthResponse) => {
+    // Store credentials in Redux
+    dispatch(setCredentials({
+      user: result.user,
+      token: result.token,
+      refreshToken: result.refreshToken,
+      expiresIn: result.expiresIn,
+    }));
+
+    showSuccess('Welcome back!', `Hello ${result.user.name}`);
+    
+    // Navigate to intended route or dashboard
+    const from = location.state?.from?.pathname || ROUTES.DASHBOARD;
+    navigate(from, { replace: true });
+  }, [dispatch, showSuccess, navigate, location]);
+
   // Login action
   const login = useCallback(async (credentials: LoginRequest) => {
     try {
       const result = await loginMutation(credentials).unwrap();
-      
-      // Store credentials in Redux
-      dispatch(setCredentials({
-        user: result.user,
-        token: result.token,
-        refreshToken: result.refreshToken,
-        expiresIn: result.expiresIn,
-      }));
 
-      showSuccess('Welcome back!', `Hello ${result.user.name}`);
-      
-      // Navigate to intended route or dashboard
-      const from = location.state?.from?.pathname || ROUTES.DASHBOARD;
-      navigate(from, { replace: true });
+      // Password accepted, but the account needs a second factor first
+      if ('twoFactorRequired' in result) {
+        return { success: false, twoFactorRequired: true, challenge: result };
+      }
+
+      completeLogin(result);
       
       return { success: true, data: result };
     } catch (error: any) {
@@ -147,7 +171,75 @@ export const useAuthActions = () => {
       showError('Login Failed', errorMessage);
       return { success: false, error };
     }
-  }, [loginMutation, dispatch, showSuccess, showError, navigate, location]);
+  }, [loginMutation, completeLogin, showError]);
+
+  // Finish a login challenged for a two-factor code
+  const completeTwoFactorLogin = useCallback(async (data: TwoFactorLoginRequest) => {
+    try {
+      const result = await loginTwoFactorMutation(data).unwrap();
+
+      completeLogin(result);
+
+      return { success: true, data: result };
+    } catch (error: any) {
+      const errorMessage = error?.data?.message || 'Verification failed. Please try again.';
+      showError('Verification Failed', errorMessage);
+      return { success: false, error };
+    }
+  }, [loginTwoFactorMutation, completeLogin, showError]);
+
+  // Passwordless login with a passkey
+  const loginWithPasskey = useCallback(async () => {
+    try {
+      const options = await getPasskeyLoginOptions({}).unwrap();
+      const credential = await getPasskey(options);
+      const result = await loginWithPasskeyMutation({ credential }).unwrap();
+
+      completeLogin(result);
+
+      return { success: true, data: result };
+    } catch (error: any) {
+      // Closing the browser's passkey prompt isn't an error worth reporting
+      if (!isPasskeyCancelled(error)) {
+        const errorMessage = error?.data?.message || 'Could not sign in with a passkey.';
+        showError('Login Failed', errorMessage);
+      }
+      return { success: false, error };
+    }
+  }, [getPasskeyLoginOptions, loginWithPasskeyMutation, completeLogin, showError]);
+
+  // Leave for the provider's sign-in page; it redirects back to ROUTES.OIDC_CALLBACK
+  const startOidcLogin = useCallback(async (provider: string) => {
+    try {
+      const authorization = await startOidcLoginMutation(provider).unwrap();
+      redirectToProvider(authorization, 'login');
+      return { success: true };
+    } catch (error: any) {
+      const errorMessage = error?.data?.message || 'Could not reach the sign-in provider.';
+      showError('Login Failed', errorMessage);
+      return { success: false, error };
+    }
+  }, [startOidcLoginMutation, showError]);
+
+  // Finish signing in with what the provider redirected back with
+  const loginWithOidc = useCallback(async (data: OidcLoginRequest) => {
+    try {
+      const result = await loginWithOidcMutation(data).unwrap();
+
+      // The account needs a second factor first, as with the password
+      if ('twoFactorRequired' in result) {
+        return { success: false, twoFactorRequired: true, challenge: result };
+      }
+
+      completeLogin(result);
+
+      return { success: true, data: result };
+    } catch (error: any) {
+      const errorMessage = error?.data?.message || 'Could not sign in with this provider.';
+      showError('Login Failed', errorMessage);
+      return { success: false, error };
+    }
+  }, [loginWithOidcMutation, completeLogin, showError]);
 
   // Register action
   const register = useCallback(async (userData: RegisterRequest) => {
@@ -224,15 +316,22 @@ export const useAuthActions = () => {
   return {
     // Actions
     login,
+    completeTwoFactorLogin,
+    loginWithPasskey,
+    startOidcLogin,
+    loginWithOidc,
     register,
     logout,
     refreshToken,
     
     // Loading states
     isLoginLoading,
+    isTwoFactorLoading,
+    isPasskeyLoading,
+    isOidcLoading,
     isRegisterLoading,
     isLogoutLoading,
-    isAnyLoading: isLoginLoading || isRegisterLoading || isLogoutLoading,
+    isAnyLoading: isLoginLoading || isTwoFactorLoading || isPasskeyLoading || isOidcLoading || isRegisterLoading || isLogoutLoading,
   };
 };
 
@@ -0,0 +1,133 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Button, Card } from '@/design-system';
+import { ROUTES } from '@/constants';
+import { useAuthActions } from '@/hooks/auth';
+import { useNotifications } from '@/hooks/redux';
+import { useLinkIdentityMutation } from '@/store/api/apiSlice';
+import { TwoFactorLoginForm } from '@/components/forms';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import { takeOidcIntent, type OidcIntent } from '@/utils/oidc';
+import type { TwoFactorChallengeResponse } from '@/types/api';
+
+// Sign-in providers redirect back here with a code, to sign in or to link the account
+const OidcCallback: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { loginWithOidc } = useAuthActions();
+  const { showSuccess } = useNotifications();
+  const [linkIdentity] = useLinkIdentityMutation();
+  const [intent, setIntent] = useState<OidcIntent | null>(null);
+  const [challenge, setChallenge] = useState<TwoFactorChallengeResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Codes only work once, so never send one twice (effects can run twice in development)
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (handled.current) return;
+    handled.current = true;
+
+    const started = takeOidcIntent();
+    const code = searchParams.get('code');
+    const state = searchParams.get('state');
+    setIntent(started);
+
+    // e.g. access_denied when the user cancelled at the provider
+    if (searchParams.get('error')) {
+      setError(searchParams.get('error_description') || 'Sign-in was cancelled at the provider.');
+      return;
+    }
+    if (!started || !code || !state) {
+      setError('This sign-in link is incomplete or has already been used.');
+      return;
+    }
+
+    if (started === 'link') {
+      linkIdentity({ state, code })
+        .unwrap()
+        .then((identity) => {
+          showSuccess('Account linked', `You can now sign in with ${identity.providerName}.`);
+          navigate(ROUTES.SETTINGS_SECURITY, { replace: true });
+        })
+        .catch((err: any) => {
+          setError(err?.data?.message || 'Could not link the account. Please try again.');
+        });
+      return;
+    }
+
+    loginWithOidc({ state, code }).then((result) => {
+      if (result.twoFactorRequired && result.challenge) {
+        setChallenge(result.challenge);
+      } else if (!result.success) {
+        setError(result.error?.data?.message || 'Could not sign in with this provider.');
+      }
+    });
+  }, [searchParams, linkIdentity, loginWithOidc, navigate, showSuccess]);
+
+  if (challenge) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <h2 className="text-center text-3xl font-extrabold text-gray-900">
+            Two-factor verification
+          </h2>
+          <TwoFactorLoginForm challenge={challenge} onCancel={() => navigate(ROUTES.LOGIN, { replace: true })} />
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    const backTo = intent === 'link' ? ROUTES.SETTINGS_SECURITY : ROUTES.LOGIN;
+
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+        <div className="sm:mx-auto sm:w-full sm:max-w-md">
+          <div className="text-center">
+            <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-red-100">
+              <svg className="h-6 w-6 text-red-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </div>
+            <h2 className="mt-6 text-3xl font-bold text-gray-900">
+              {intent === 'link' ? 'Account not linked' : 'Sign-in failed'}
+            </h2>
+            <p className="mt-2 text-sm text-gray-600" role="alert">
+              {error}
+            </p>
+          </div>
+        </div>
+
+        <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+          <Card className="py-8 px-4 sm:px-10">
+            <div className="text-center">
+              <Link to={backTo}>
+                <Button variant="primary" className="w-full">
+                  {intent === 'link' ? 'Back to security settings' : 'Back to sign in'}
+                </Button>
+              </Link>
+            </div>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="text-center">
+          <LoadingSpinner size="lg" />
+          <h2 className="mt-6 text-3xl font-bold text-gray-900">
+            {intent === 'link' ? 'Linking your account' : 'Signing you in'}
+          </h2>
+          <p className="mt-2 text-sm text-gray-600">
+            Please wait while we confirm your sign-in...
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OidcCallback;
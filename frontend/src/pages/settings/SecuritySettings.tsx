@@ -0,0 +1,511 @@
+import React, { useState } from 'react';
+import { Button, Card, Badge } from '@/design-system';
+import { ROUTES } from '@/constants';
+import { useAuth } from '@/hooks/auth';
+import { useNotifications } from '@/hooks/redux';
+import {
+  useGetSessionsQuery,
+  useRevokeSessionMutation,
+  useGetTwoFactorStatusQuery,
+  useSetupTwoFactorMutation,
+  useEnableTwoFactorMutation,
+  useVerifyTwoFactorMutation,
+  useRegenerateRecoveryCodesMutation,
+  useDisableTwoFactorMutation,
+  useGetPasskeysQuery,
+  useGetPasskeyRegistrationOptionsMutation,
+  useAddPasskeyMutation,
+  useRenamePasskeyMutation,
+  useRemovePasskeyMutation,
+  useGetPasskeyVerifyOptionsMutation,
+  useGetOidcProvidersQuery,
+  useGetIdentitiesQuery,
+  useStartIdentityLinkMutation,
+  useUnlinkIdentityMutation,
+} from '@/store/api/apiSlice';
+import { createPasskey, getPasskey, isPasskeyCancelled, isPasskeySupported } from '@/utils/webauthn';
+import { redirectToProvider } from '@/utils/oidc';
+import type { LinkedIdentity, OidcProvider, Passkey, Session, TwoFactorSetup } from '@/types/api';
+
+const formatDateTime = (value: string): string =>
+  new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const SessionRow: React.FC<{
+  session: Session;
+  isRevoking: boolean;
+  onRevoke: (session: Session) => void;
+}> = ({ session, isRevoking, onRevoke }) => (
+  <li className="flex flex-col gap-3 py-4 sm:flex-row sm:items-center sm:justify-between">
+    <div className="min-w-0">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium text-gray-900">{session.deviceName}</span>
+        {session.current && <Badge variant="success" size="sm">This device</Badge>}
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        {session.ipAddress && <>{session.ipAddress} · </>}
+        Last active {formatDateTime(session.lastSeenAt)} · Signed in {formatDateTime(session.createdAt)}
+      </p>
+    </div>
+    <Button
+      type="button"
+      variant="outline"
+      size="sm"
+      disabled={isRevoking}
+      onClick={() => onRevoke(session)}
+    >
+      {session.current ? 'Sign out' : 'Revoke'}
+    </Button>
+  </li>
+);
+
+const CodeInput: React.FC<{
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}> = ({ id, label, value, onChange }) => (
+  <div>
+    <label htmlFor={id} className="block text-sm font-medium text-gray-700">{label}</label>
+    <input
+      id={id}
+      type="text"
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+      autoComplete="one-time-code"
+      className="mt-1 block w-full max-w-xs rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-blue-500"
+    />
+  </div>
+);
+
+const RecoveryCodes: React.FC<{ codes: string[]; onDone: () => void }> = ({ codes, onDone }) => (
+  <div className="mt-4 rounded-md border border-yellow-200 bg-yellow-50 p-4">
+    <p className="text-sm font-medium text-yellow-800">Save your recovery codes</p>
+    <p className="mt-1 text-sm text-yellow-700">
+      Each code signs you in once if you lose your authenticator app. They won&apos;t be shown again.
+    </p>
+    <ul className="mt-3 grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+      {codes.map((code) => <li key={code}>{code}</li>)}
+    </ul>
+    <Button type="button" size="sm" className="mt-4" onClick={onDone}>I&apos;ve saved them</Button>
+  </div>
+);
+
+const TwoFactorCard: React.FC = () => {
+  const { showSuccess, showError } = useNotifications();
+  const { data: status, isLoading, isError } = useGetTwoFactorStatusQuery();
+  const [setupTwoFactor, { isLoading: isStarting }] = useSetupTwoFactorMutation();
+  const [enableTwoFactor, { isLoading: isEnabling }] = useEnableTwoFactorMutation();
+  const [verifyTwoFactor, { isLoading: isVerifying }] = useVerifyTwoFactorMutation();
+  const [regenerateRecoveryCodes, { isLoading: isRegenerating }] = useRegenerateRecoveryCodesMutation();
+  const [disableTwoFactor, { isLoading: isDisabling }] = useDisableTwoFactorMutation();
+
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+
+  const isBusy = isStarting || isEnabling || isVerifying || isRegenerating || isDisabling;
+
+  const handleSetup = async () => {
+    try {
+      setSetup(await setupTwoFactor().unwrap());
+      setCode('');
+    } catch (error: any) {
+      showError('Could not start setup', error?.data?.message || 'Please try again.');
+    }
+  };
+
+  const handleEnable = async () => {
+    try {
+      setRecoveryCodes(await enableTwoFactor(code.trim()).unwrap());
+      setSetup(null);
+      setCode('');
+      showSuccess('Two-factor authentication on', 'Sign-ins will now ask for a code from your app.');
+    } catch (error: any) {
+      showError('Could not turn on two-factor authentication', error?.data?.message || 'Please try again.');
+    }
+  };
+
+  // Sensitive changes need a fresh code, so check it before running the action
+  const withCode = (action: () => Promise<void>, failure: string) => async () => {
+    const value = code.trim();
+    try {
+      await verifyTwoFactor(/^\d{6}$/.test(value) ? { code: value } : { recoveryCode: value }).unwrap();
+      await action();
+      setCode('');
+    } catch (error: any) {
+      showError(failure, error?.data?.message || 'Please try again.');
+    }
+  };
+
+  const handleRegenerate = withCode(async () => {
+    setRecoveryCodes(await regenerateRecoveryCodes().unwrap());
+  }, 'Could not create new recovery codes');
+
+  const handleDisable = withCode(async () => {
+    await disableTwoFactor().unwrap();
+    showSuccess('Two-factor authentication off', 'Sign-ins will only ask for your password.');
+  }, 'Could not turn off two-factor authentication');
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2">
+        <h3 className="text-lg font-medium text-gray-900">Two-factor authentication</h3>
+        {status?.enabled && <Badge variant="success" size="sm">On</Badge>}
+      </div>
+      <p className="mt-1 text-sm text-gray-500">
+        Ask for a code from an authenticator app when signing in and before sensitive changes.
+      </p>
+
+      {isLoading && <p className="mt-4 text-sm text-gray-500">Loading...</p>}
+      {isError && <p className="mt-4 text-sm text-red-600">Could not load two-factor settings.</p>}
+
+      {recoveryCodes && <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />}
+
+      {status && !status.enabled && !setup && (
+        <Button type="button" className="mt-4" disabled={isBusy} onClick={handleSetup}>
+          Set up
+        </Button>
+      )}
+
+      {status && !status.enabled && setup && (
+        <div className="mt-4 space-y-4">
+          <div className="text-sm text-gray-700">
+            <p>Add this key to your authenticator app, or open the link on the device with the app:</p>
+            <p className="mt-2 break-all font-mono text-gray-900">{setup.secret}</p>
+            <a href={setup.otpauthUrl} className="mt-1 block break-all text-xs text-blue-600 hover:text-blue-500">
+              {setup.otpauthUrl}
+            </a>
+          </div>
+          <CodeInput id="two-factor-enable-code" label="Code from the app" value={code} onChange={setCode} />
+          <div className="flex gap-2">
+            <Button type="button" disabled={isBusy || !/^\d{6}$/.test(code.trim())} onClick={handleEnable}>
+              Turn on
+            </Button>
+            <Button type="button" variant="outline" disabled={isBusy} onClick={() => setSetup(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {status?.enabled && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-gray-700">
+            {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining !== 1 ? 's' : ''} left.
+          </p>
+          <CodeInput
+            id="two-factor-confirm-code"
+            label="Confirm with a code from the app or a recovery code"
+            value={code}
+            onChange={setCode}
+          />
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" disabled={isBusy || !code.trim()} onClick={handleRegenerate}>
+              New recovery codes
+            </Button>
+            <Button type="button" variant="outline" disabled={isBusy || !code.trim()} onClick={handleDisable}>
+              Turn off
+            </Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+const PasskeyRow: React.FC<{
+  passkey: Passkey;
+  isBusy: boolean;
+  onRename: (passkey: Passkey, name: string) => Promise<boolean>;
+  onRemove: (passkey: Passkey) => void;
+}> = ({ passkey, isBusy, onRename, onRemove }) => {
+  const [name, setName] = useState<string | null>(null);
+
+  const save = async () => {
+    if (name && name.trim() && (await onRename(passkey, name.trim()))) {
+      setName(null);
+    }
+  };
+
+  return (
+    <li className="flex flex-col gap-3 py-4 sm:flex-row sm:items-center sm:justify-between">
+      <div className="min-w-0">
+        {name === null ? (
+          <span className="text-sm font-medium text-gray-900">{passkey.name}</span>
+        ) : (
+          <input
+            type="text"
+            value={name}
+            maxLength={100}
+            aria-label="Passkey name"
+            onChange={(event) => setName(event.target.value)}
+            className="block w-full max-w-xs rounded-md border border-gray-300 px-3 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-blue-500"
+          />
+        )}
+        <p className="mt-1 text-xs text-gray-500">
+          Added {formatDateTime(passkey.createdAt)}
+          {passkey.lastUsedAt && <> · Last used {formatDateTime(passkey.lastUsedAt)}</>}
+        </p>
+      </div>
+      <div className="flex gap-2">
+        {name === null ? (
+          <>
+            <Button type="button" variant="outline" size="sm" disabled={isBusy} onClick={() => setName(passkey.name)}>
+              Rename
+            </Button>
+            <Button type="button" variant="outline" size="sm" disabled={isBusy} onClick={() => onRemove(passkey)}>
+              Remove
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button type="button" size="sm" disabled={isBusy || !name.trim()} onClick={save}>Save</Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => setName(null)}>Cancel</Button>
+          </>
+        )}
+      </div>
+    </li>
+  );
+};
+
+const PasskeysCard: React.FC = () => {
+  const { showSuccess, showError } = useNotifications();
+  const { data: passkeys = [], isLoading, isError } = useGetPasskeysQuery();
+  const [getRegistrationOptions, { isLoading: isPreparing }] = useGetPasskeyRegistrationOptionsMutation();
+  const [addPasskey, { isLoading: isAdding }] = useAddPasskeyMutation();
+  const [renamePasskey, { isLoading: isRenaming }] = useRenamePasskeyMutation();
+  const [removePasskey, { isLoading: isRemoving }] = useRemovePasskeyMutation();
+  const [getVerifyOptions] = useGetPasskeyVerifyOptionsMutation();
+  const [verifyTwoFactor] = useVerifyTwoFactorMutation();
+
+  const isBusy = isPreparing || isAdding || isRenaming || isRemoving;
+
+  // With two-factor authentication on, adding or removing passkeys needs a
+  // recent second factor; confirm with an existing passkey and try once more
+  const withStepUp = async <T,>(action: () => Promise<T>): Promise<T> => {
+    try {
+      return await action();
+    } catch (error: any) {
+      if (error?.status !== 403 || passkeys.length === 0) throw error;
+
+      const options = await getVerifyOptions().unwrap();
+      await verifyTwoFactor({ passkey: await getPasskey(options) }).unwrap();
+      return action();
+    }
+  };
+
+  const handleAdd = async () => {
+    try {
+      await withStepUp(async () => {
+        const options = await getRegistrationOptions().unwrap();
+        const credential = await createPasskey(options);
+        await addPasskey({ credential }).unwrap();
+      });
+      showSuccess('Passkey added', 'You can now sign in with it instead of your password.');
+    } catch (error: any) {
+      if (isPasskeyCancelled(error)) return;
+      const message = error?.status === 403
+        ? 'Confirm with a code from your authenticator app above first.'
+        : error?.data?.message || 'Please try again.';
+      showError('Could not add passkey', message);
+    }
+  };
+
+  const handleRename = async (passkey: Passkey, name: string) => {
+    try {
+      await renamePasskey({ id: passkey.id, name }).unwrap();
+      return true;
+    } catch (error: any) {
+      showError('Could not rename passkey', error?.data?.message || 'Please try again.');
+      return false;
+    }
+  };
+
+  const handleRemove = async (passkey: Passkey) => {
+    try {
+      await withStepUp(() => removePasskey(passkey.id).unwrap());
+      showSuccess('Passkey removed', `${passkey.name} can no longer sign in.`);
+    } catch (error: any) {
+      if (isPasskeyCancelled(error)) return;
+      showError('Could not remove passkey', error?.data?.message || 'Please try again.');
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-medium text-gray-900">Passkeys</h3>
+      <p className="mt-1 text-sm text-gray-500">
+        Sign in with your fingerprint, face or device PIN instead of your password. A passkey also works as your second factor.
+      </p>
+
+      {isLoading && <p className="mt-4 text-sm text-gray-500">Loading passkeys...</p>}
+      {isError && <p className="mt-4 text-sm text-red-600">Could not load your passkeys.</p>}
+
+      {!isLoading && !isError && passkeys.length > 0 && (
+        <ul className="mt-2 divide-y divide-gray-200">
+          {passkeys.map((passkey) => (
+            <PasskeyRow
+              key={passkey.id}
+              passkey={passkey}
+              isBusy={isBusy}
+              onRename={handleRename}
+              onRemove={handleRemove}
+            />
+          ))}
+        </ul>
+      )}
+
+      {isPasskeySupported() ? (
+        <Button type="button" className="mt-4" disabled={isBusy} onClick={handleAdd}>
+          Add a passkey
+        </Button>
+      ) : (
+        <p className="mt-4 text-sm text-gray-500">This browser doesn&apos;t support passkeys.</p>
+      )}
+    </Card>
+  );
+};
+
+const LinkedAccountsCard: React.FC = () => {
+  const { showSuccess, showError } = useNotifications();
+  const { data: providers = [] } = useGetOidcProvidersQuery();
+  const { data: identities = [], isLoading, isError } = useGetIdentitiesQuery();
+  const [startIdentityLink, { isLoading: isStarting }] = useStartIdentityLinkMutation();
+  const [unlinkIdentity, { isLoading: isUnlinking }] = useUnlinkIdentityMutation();
+
+  const isBusy = isStarting || isUnlinking;
+
+  // With two-factor authentication on, both need a recent second factor
+  const errorMessage = (error: any) => error?.status === 403
+    ? 'Confirm with a code from your authenticator app above first.'
+    : error?.data?.message || 'Please try again.';
+
+  const handleLink = async (provider: OidcProvider) => {
+    try {
+      redirectToProvider(await startIdentityLink(provider.id).unwrap(), 'link');
+    } catch (error: any) {
+      showError(`Could not link ${provider.name}`, errorMessage(error));
+    }
+  };
+
+  const handleUnlink = async (identity: LinkedIdentity) => {
+    try {
+      await unlinkIdentity(identity.provider).unwrap();
+      showSuccess('Account unlinked', `${identity.providerName} can no longer sign you in.`);
+    } catch (error: any) {
+      showError(`Could not unlink ${identity.providerName}`, errorMessage(error));
+    }
+  };
+
+  if (providers.length === 0 && identities.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-medium text-gray-900">Linked accounts</h3>
+      <p className="mt-1 text-sm text-gray-500">
+        Sign in with an account you already have elsewhere instead of your password.
+      </p>
+
+      {isLoading && <p className="mt-4 text-sm text-gray-500">Loading linked accounts...</p>}
+      {isError && <p className="mt-4 text-sm text-red-600">Could not load your linked accounts.</p>}
+
+      {!isLoading && !isError && (
+        <ul className="mt-2 divide-y divide-gray-200">
+          {providers.map((provider) => {
+            const identity = identities.find((linked) => linked.provider === provider.id);
+
+            return (
+              <li key={provider.id} className="flex flex-col gap-3 py-4 sm:flex-row sm:items-center sm:justify-between">
+                <div className="min-w-0">
+                  <span className="text-sm font-medium text-gray-900">{provider.name}</span>
+                  {identity && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      {identity.email && <>{identity.email} · </>}
+                      Linked {formatDateTime(identity.createdAt)}
+                    </p>
+                  )}
+                </div>
+                {identity ? (
+                  <Button type="button" variant="outline" size="sm" disabled={isBusy} onClick={() => handleUnlink(identity)}>
+                    Unlink
+                  </Button>
+                ) : (
+                  <Button type="button" size="sm" disabled={isBusy} onClick={() => handleLink(provider)}>
+                    Link
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Card>
+  );
+};
+
+const SecuritySettings: React.FC = () => {
+  const { logout } = useAuth();
+  const { showSuccess, showError } = useNotifications();
+  const { data: sessions = [], isLoading, isError } = useGetSessionsQuery();
+  const [revokeSession, { isLoading: isRevoking }] = useRevokeSessionMutation();
+
+  const handleRevoke = async (session: Session) => {
+    try {
+      await revokeSession(session.id).unwrap();
+
+      if (session.current) {
+        logout(ROUTES.LOGIN);
+      } else {
+        showSuccess('Device signed out', `${session.deviceName} has been signed out.`);
+      }
+    } catch (error: any) {
+      showError('Could not sign out device', error?.data?.message || 'Please try again.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:truncate sm:text-3xl sm:tracking-tight">
+          Security
+        </h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Review the devices signed in to your account
+        </p>
+      </div>
+
+      <TwoFactorCard />
+
+      <PasskeysCard />
+
+      <LinkedAccountsCard />
+
+      <Card className="p-6">
+        <h3 className="text-lg font-medium text-gray-900">Active devices</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Sign out any device you don&apos;t recognise. It will need your password to sign in again.
+        </p>
+
+        {isLoading && <p className="mt-4 text-sm text-gray-500">Loading devices...</p>}
+        {isError && <p className="mt-4 text-sm text-red-600">Could not load your devices.</p>}
+
+        {!isLoading && !isError && (
+          <ul className="mt-2 divide-y divide-gray-200">
+            {sessions.map((session) => (
+              <SessionRow
+                key={session.id}
+                session={session}
+                isRevoking={isRevoking}
+                onRevoke={handleRevoke}
+              />
+            ))}
+          </ul>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default SecuritySettings;
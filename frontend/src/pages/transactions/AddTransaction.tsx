@@ -1,11 +1,47 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Button, Input, Card } from '@/design-system';
+import { skipToken } from '@reduxjs/toolkit/query/react';
+import { Button, Input, Card, Badge } from '@/design-system';
 import { ROUTES } from '@/constants';
+import {
+  useCreateReceiptDraftMutation,
+  useCreateTransactionMutation,
+  useGetCategoriesQuery,
+  useSuggestCategoriesQuery,
+} from '@/store/api/apiSlice';
+import type { ReceiptDraft, ReceiptField, SuggestCategoriesRequest } from '@/types/api';
+import type { TransactionType } from '@/types/common';
+
+// Fields read with less confidence than this are flagged for checking
+const LOW_CONFIDENCE = 0.6;
+
+// The top suggested category is selected for the user from this confidence
+const PRESELECT_CONFIDENCE = 0.5;
+
+// Typing pause after which categories are suggested
+const SUGGEST_DELAY_MS = 400;
+
+const ConfidenceBadge: React.FC<{ label: string; field: ReceiptField<unknown> }> = ({ label, field }) => {
+  if (field.value === null) {
+    return <Badge variant="default" size="sm">{label}: not found</Badge>;
+  }
+
+  const percent = Math.round(field.confidence * 100);
+  return (
+    <Badge variant={field.confidence >= LOW_CONFIDENCE ? 'success' : 'warning'} size="sm">
+      {label}: {percent}%{field.confidence < LOW_CONFIDENCE && ' – please check'}
+    </Badge>
+  );
+};
 
 const AddTransaction: React.FC = () => {
   const navigate = useNavigate();
   const [isLoading, setIsLoading] = useState(false);
+  const [createTransaction] = useCreateTransactionMutation();
+  const [createReceiptDraft, { isLoading: isReading }] = useCreateReceiptDraftMutation();
+  const receiptInput = useRef<HTMLInputElement>(null);
+  const [receiptDraft, setReceiptDraft] = useState<ReceiptDraft | null>(null);
+  const [receiptError, setReceiptError] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     description: '',
     amount: '',
@@ -14,22 +50,88 @@ const AddTransaction: React.FC = () => {
     date: new Date().toISOString().split('T')[0],
     notes: '',
   });
+  const { data: categories = [] } = useGetCategoriesQuery();
+  const [suggestFor, setSuggestFor] = useState<SuggestCategoriesRequest | null>(null);
+  // Once the user picks a category, suggestions no longer change it
+  const [categoryChosen, setCategoryChosen] = useState(false);
+  const { data: suggestions = [] } = useSuggestCategoriesQuery(suggestFor ?? skipToken);
+
+  const merchantName = receiptDraft?.transaction.merchantName;
+
+  useEffect(() => {
+    const description = formData.description.trim();
+    const timer = setTimeout(() => {
+      setSuggestFor(description.length < 3 ? null : {
+        description,
+        type: formData.type as 'income' | 'expense',
+        ...(Number(formData.amount) > 0 && { amount: Number(formData.amount) }),
+        ...(merchantName && { merchantName }),
+      });
+    }, SUGGEST_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [formData.description, formData.amount, formData.type, merchantName]);
+
+  useEffect(() => {
+    const [top] = suggestions;
+    if (categoryChosen || !top || top.confidence < PRESELECT_CONFIDENCE) return;
+
+    setFormData(prev => ({ ...prev, category: top.categoryId }));
+  }, [suggestions, categoryChosen]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
+    if (name === 'category') setCategoryChosen(true);
     setFormData(prev => ({
       ...prev,
       [name]: value
     }));
   };
 
+  const handleReceiptChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setReceiptError(null);
+
+    try {
+      const draft = await createReceiptDraft(file).unwrap();
+      const { transaction, extraction } = draft;
+      const tax = extraction.fields.tax.value;
+
+      setReceiptDraft(draft);
+      setFormData(prev => ({
+        ...prev,
+        type: transaction.type,
+        description: transaction.description ?? prev.description,
+        amount: transaction.amount !== null ? transaction.amount.toFixed(2) : prev.amount,
+        date: transaction.date ?? prev.date,
+        notes: tax !== null && prev.notes === '' ? `Includes ${tax.toFixed(2)} tax` : prev.notes,
+      }));
+    } catch (error) {
+      console.error('Failed to read receipt:', error);
+      setReceiptError('The receipt could not be read. Try a sharper photo or fill in the form yourself.');
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
     try {
-      // TODO: Implement create transaction API call
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate API call
+      await createTransaction({
+        type: formData.type as TransactionType,
+        amount: Number(formData.amount),
+        description: formData.description,
+        categoryId: formData.category,
+        date: formData.date,
+        ...(formData.notes && { notes: formData.notes }),
+        ...(receiptDraft && {
+          receiptId: receiptDraft.receiptId,
+          ...(receiptDraft.transaction.merchantName && { merchantName: receiptDraft.transaction.merchantName }),
+        }),
+      }).unwrap();
       navigate(ROUTES.TRANSACTIONS);
     } catch (error) {
       console.error('Failed to create transaction:', error);
@@ -47,6 +149,50 @@ const AddTransaction: React.FC = () => {
         </p>
       </div>
 
+      <Card className="p-6">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h2 className="text-sm font-medium text-gray-900">Create from receipt</h2>
+            <p className="text-sm text-gray-600">
+              Upload a photo of a receipt to fill in the merchant, date and total.
+            </p>
+          </div>
+          <input
+            ref={receiptInput}
+            type="file"
+            accept="image/jpeg,image/png,image/gif"
+            className="hidden"
+            onChange={handleReceiptChange}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            disabled={isReading}
+            onClick={() => receiptInput.current?.click()}
+          >
+            {isReading ? 'Reading receipt...' : 'Upload receipt'}
+          </Button>
+        </div>
+
+        {receiptError && (
+          <p className="mt-3 text-sm text-red-600">{receiptError}</p>
+        )}
+
+        {receiptDraft && (
+          <div className="mt-4 space-y-2">
+            <p className="text-sm text-gray-600">
+              Read from the receipt – check the details below before adding the transaction.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <ConfidenceBadge label="Merchant" field={receiptDraft.extraction.fields.merchant} />
+              <ConfidenceBadge label="Date" field={receiptDraft.extraction.fields.date} />
+              <ConfidenceBadge label="Total" field={receiptDraft.extraction.fields.total} />
+              <ConfidenceBadge label="Tax" field={receiptDraft.extraction.fields.tax} />
+            </div>
+          </div>
+        )}
+      </Card>
+
       <Card className="p-6">
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
@@ -103,26 +249,29 @@ const AddTransaction: React.FC = () => {
                 className="mt-1 block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
               >
                 <option value="">Select a category</option>
-                {formData.type === 'expense' ? (
-                  <>
-                    <option value="food">Food & Dining</option>
-                    <option value="transportation">Transportation</option>
-                    <option value="shopping">Shopping</option>
-                    <option value="entertainment">Entertainment</option>
-                    <option value="bills">Bills & Utilities</option>
-                    <option value="healthcare">Healthcare</option>
-                    <option value="education">Education</option>
-                    <option value="other">Other</option>
-                  </>
-                ) : (
-                  <>
-                    <option value="salary">Salary</option>
-                    <option value="freelance">Freelance</option>
-                    <option value="investment">Investment</option>
-                    <option value="other-income">Other Income</option>
-                  </>
-                )}
+                {categories.map(category => (
+                  <option key={category.id} value={category.id}>{category.name}</option>
+                ))}
               </select>
+              {suggestions.length > 0 && (
+                <div className="mt-2 flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-gray-500">Suggested:</span>
+                  {suggestions.map(suggestion => (
+                    <Button
+                      key={suggestion.categoryId}
+                      type="button"
+                      size="xs"
+                      variant={suggestion.categoryId === formData.category ? 'primary' : 'outline'}
+                      onClick={() => {
+                        setCategoryChosen(true);
+                        setFormData(prev => ({ ...prev, category: suggestion.categoryId }));
+                      }}
+                    >
+                      {suggestion.categoryName} {Math.round(suggestion.confidence * 100)}%
+                    </Button>
+                  ))}
+                </div>
+              )}
             </div>
 
             <div>
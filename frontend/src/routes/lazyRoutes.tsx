@@ -17,6 +17,7 @@ export const LazyRegister = lazy(() => import('../pages/auth/Register'));
 export const LazyForgotPassword = lazy(() => import('../pages/auth/ForgotPassword'));
 export const LazyResetPassword = lazy(() => import('../pages/auth/ResetPassword'));
 export const LazyVerifyEmail = lazy(() => import('../pages/auth/VerifyEmail'));
+export const LazyOidcCallback = lazy(() => import('../pages/auth/OidcCallback'));
 
 // Main Application Pages
 export const LazyDashboard = lazy(() => import('../pages/dashboard/Dashboard'));
@@ -39,6 +40,7 @@ export const LazyReports = lazy(() => import('../pages/reports/Reports'));
 
 // Settings & Profile
 export const LazySettings = lazy(() => import('../pages/settings/Settings'));
+export const LazySecuritySettings = lazy(() => import('../pages/settings/SecuritySettings'));
 
 // Error Pages
 export const LazyNotFound = lazy(() => import('../pages/common/NotFound'));
@@ -63,6 +65,7 @@ export const RegisterRoute = createLazyRoute(LazyRegister, { fallback: authLoadi
 export const ForgotPasswordRoute = createLazyRoute(LazyForgotPassword, { fallback: authLoadingFallback });
 export const ResetPasswordRoute = createLazyRoute(LazyResetPassword, { fallback: authLoadingFallback });
 export const VerifyEmailRoute = createLazyRoute(LazyVerifyEmail, { fallback: authLoadingFallback });
+export const OidcCallbackRoute = createLazyRoute(LazyOidcCallback, { fallback: authLoadingFallback });
 
 // Main app routes with standard loading
 export const DashboardRoute = createLazyRoute(LazyDashboard);
@@ -81,6 +84,7 @@ export const CategoriesRoute = createLazyRoute(LazyCategories);
 export const ReportsRoute = createLazyRoute(LazyReports);
 
 export const SettingsRoute = createLazyRoute(LazySettings);
+export const SecuritySettingsRoute = createLazyRoute(LazySecuritySettings);
 
 export const NotFoundRoute = createLazyRoute(LazyNotFound);
 export const ForbiddenRoute = createLazyRoute(LazyForbidden);
\ No newline at end of file
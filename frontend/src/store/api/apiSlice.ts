@@ -13,6 +13,22 @@ import type {
   ResetPasswordRequest,
   ResetPasswordResponse,
   SecurityMetricsResponse,
+  Session,
+  TwoFactorChallengeResponse,
+  TwoFactorLoginRequest,
+  SecondFactorRequest,
+  TwoFactorStatus,
+  TwoFactorSetup,
+  Passkey,
+  PasskeyRegistrationOptions,
+  PasskeyAuthenticationOptions,
+  PasskeyLoginRequest,
+  AddPasskeyRequest,
+  OidcProvider,
+  OidcAuthorization,
+  OidcCallbackRequest,
+  OidcLoginRequest,
+  LinkedIdentity,
   
   // User types
   UpdateProfileRequest,
@@ -23,6 +39,9 @@ import type {
   UpdateTransactionRequest,
   GetTransactionsRequest,
   TransactionsResponse,
+  ReceiptDraft,
+  SuggestCategoriesRequest,
+  CategorySuggestion,
   
   // Category types
   CreateCategoryRequest,
@@ -42,6 +61,7 @@ import type {
   ReportsResponse,
   
   // Generic types
+  ApiResponse,
   ApiTags,
 } from '../../types/api';
 import type {
@@ -51,15 +71,20 @@ import type {
   Budget,
 } from '../../types/common';
 
+// Endpoints that send FormData instead of JSON
+const UPLOAD_ENDPOINTS = ['createReceiptDraft'];
+
 // Base query with authentication
 const baseQuery = fetchBaseQuery({
   baseUrl: import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api/v1',
-  prepareHeaders: (headers, { getState }) => {
+  prepareHeaders: (headers, { getState, endpoint }) => {
     // Get token from auth state
     const token = (getState() as RootState).auth.token;
     
-    // Set common headers
-    headers.set('Content-Type', 'application/json');
+    // Set common headers (uploads let the browser set the multipart boundary)
+    if (!UPLOAD_ENDPOINTS.includes(endpoint)) {
+      headers.set('Content-Type', 'application/json');
+    }
     
     // Add authorization header if token exists
     if (token) {
@@ -122,15 +147,42 @@ const baseQueryWithReauth = async (args: any, api: any, extraOptions: any) => {
 export const api = createApi({
   reducerPath: 'api',
   baseQuery: baseQueryWithReauth,
-  tagTypes: ['User', 'Transaction', 'Category', 'Budget', 'Account', 'Reports'] as ApiTags[],
+  tagTypes: ['User', 'Transaction', 'Category', 'Budget', 'Account', 'Reports', 'Session', 'TwoFactor', 'Passkey', 'Identity'] as ApiTags[],
   endpoints: (builder) => ({
     // Authentication endpoints
-    login: builder.mutation<AuthResponse, LoginRequest>({
+    login: builder.mutation<AuthResponse | TwoFactorChallengeResponse, LoginRequest>({
       query: (credentials) => ({
         url: '/auth/login',
         method: 'POST',
         body: credentials,
       }),
+      transformResponse: (
+        response: BackendAuthResponse | ApiResponse<TwoFactorChallengeResponse>
+      ): AuthResponse | TwoFactorChallengeResponse => {
+        // Accounts with two-factor authentication continue with loginTwoFactor
+        if ('twoFactorRequired' in response.data) {
+          return response.data;
+        }
+
+        const expiresAt = new Date(response.data.tokens.expiresAt);
+        const expiresIn = Math.floor((expiresAt.getTime() - Date.now()) / 1000);
+        
+        return {
+          user: response.data.user,
+          token: response.data.tokens.accessToken,
+          refreshToken: '', // Not provided by current backend
+          expiresIn,
+        };
+      },
+      invalidatesTags: ['User'],
+    }),
+
+    loginTwoFactor: builder.mutation<AuthResponse, TwoFactorLoginRequest>({
+      query: (data) => ({
+        url: '/auth/login/2fa',
+        method: 'POST',
+        body: data,
+      }),
       transformResponse: (response: BackendAuthResponse): AuthResponse => {
         const expiresAt = new Date(response.data.tokens.expiresAt);
         const expiresIn = Math.floor((expiresAt.getTime() - Date.now()) / 1000);
@@ -145,6 +197,80 @@ export const api = createApi({
       invalidatesTags: ['User'],
     }),
 
+    // Without a challenge token this is a passwordless sign-in; with one, the second step of a challenged login
+    getPasskeyLoginOptions: builder.mutation<PasskeyAuthenticationOptions, { challengeToken?: string }>({
+      query: (data) => ({
+        url: '/auth/passkeys/login-options',
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: ApiResponse<PasskeyAuthenticationOptions>) => response.data,
+    }),
+
+    loginWithPasskey: builder.mutation<AuthResponse, PasskeyLoginRequest>({
+      query: (data) => ({
+        url: '/auth/login/passkey',
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: BackendAuthResponse): AuthResponse => {
+        const expiresAt = new Date(response.data.tokens.expiresAt);
+        const expiresIn = Math.floor((expiresAt.getTime() - Date.now()) / 1000);
+        
+        return {
+          user: response.data.user,
+          token: response.data.tokens.accessToken,
+          refreshToken: '', // Not provided by current backend
+          expiresIn,
+        };
+      },
+      invalidatesTags: ['User'],
+    }),
+
+    getOidcProviders: builder.query<OidcProvider[], void>({
+      query: () => '/auth/oidc/providers',
+      transformResponse: (response: ApiResponse<{ providers: OidcProvider[] }>) => response.data.providers,
+    }),
+
+    // Where to send the browser to sign in at the provider
+    startOidcLogin: builder.mutation<OidcAuthorization, string>({
+      query: (provider) => ({
+        url: `/auth/oidc/${provider}/authorize`,
+        method: 'POST',
+        // The API ties the sign-in to this browser with a cookie, sent back with the callback
+        credentials: 'include',
+      }),
+      transformResponse: (response: ApiResponse<OidcAuthorization>) => response.data,
+    }),
+
+    // Like login, accounts with two-factor authentication continue with loginTwoFactor
+    loginWithOidc: builder.mutation<AuthResponse | TwoFactorChallengeResponse, OidcLoginRequest>({
+      query: (data) => ({
+        url: '/auth/login/oidc',
+        method: 'POST',
+        body: data,
+        credentials: 'include',
+      }),
+      transformResponse: (
+        response: BackendAuthResponse | ApiResponse<TwoFactorChallengeResponse>
+      ): AuthResponse | TwoFactorChallengeResponse => {
+        if ('twoFactorRequired' in response.data) {
+          return response.data;
+        }
+
+        const expiresAt = new Date(response.data.tokens.expiresAt);
+        const expiresIn = Math.floor((expiresAt.getTime() - Date.now()) / 1000);
+        
+        return {
+          user: response.data.user,
+          token: response.data.tokens.accessToken,
+          refreshToken: '', // Not provided by current backend
+          expiresIn,
+        };
+      },
+      invalidatesTags: ['User'],
+    }),
+
     register: builder.mutation<AuthResponse, RegisterRequest>({
       query: (userData) => ({
         url: '/auth/register',
@@ -200,6 +326,154 @@ export const api = createApi({
       query: (email) => `/auth/security?email=${encodeURIComponent(email)}`,
     }),
 
+    getSessions: builder.query<Session[], void>({
+      query: () => '/auth/sessions',
+      transformResponse: (response: ApiResponse<{ sessions: Session[] }>) => response.data.sessions,
+      providesTags: ['Session'],
+    }),
+
+    revokeSession: builder.mutation<void, string>({
+      query: (id) => ({
+        url: `/auth/sessions/${id}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: ['Session'],
+    }),
+
+    getTwoFactorStatus: builder.query<TwoFactorStatus, void>({
+      query: () => '/auth/2fa',
+      transformResponse: (response: ApiResponse<TwoFactorStatus>) => response.data,
+      providesTags: ['TwoFactor'],
+    }),
+
+    setupTwoFactor: builder.mutation<TwoFactorSetup, void>({
+      query: () => ({
+        url: '/auth/2fa/setup',
+        method: 'POST',
+      }),
+      transformResponse: (response: ApiResponse<TwoFactorSetup>) => response.data,
+    }),
+
+    enableTwoFactor: builder.mutation<string[], string>({
+      query: (code) => ({
+        url: '/auth/2fa/enable',
+        method: 'POST',
+        body: { code },
+      }),
+      transformResponse: (response: ApiResponse<{ recoveryCodes: string[] }>) => response.data.recoveryCodes,
+      invalidatesTags: ['TwoFactor'],
+    }),
+
+    verifyTwoFactor: builder.mutation<void, SecondFactorRequest>({
+      query: (data) => ({
+        url: '/auth/2fa/verify',
+        method: 'POST',
+        body: data,
+      }),
+      invalidatesTags: ['TwoFactor'],
+    }),
+
+    regenerateRecoveryCodes: builder.mutation<string[], void>({
+      query: () => ({
+        url: '/auth/2fa/recovery-codes',
+        method: 'POST',
+      }),
+      transformResponse: (response: ApiResponse<{ recoveryCodes: string[] }>) => response.data.recoveryCodes,
+      invalidatesTags: ['TwoFactor'],
+    }),
+
+    disableTwoFactor: builder.mutation<void, void>({
+      query: () => ({
+        url: '/auth/2fa',
+        method: 'DELETE',
+      }),
+      invalidatesTags: ['TwoFactor'],
+    }),
+
+    getPasskeys: builder.query<Passkey[], void>({
+      query: () => '/auth/passkeys',
+      transformResponse: (response: ApiResponse<{ passkeys: Passkey[] }>) => response.data.passkeys,
+      providesTags: ['Passkey'],
+    }),
+
+    getPasskeyRegistrationOptions: builder.mutation<PasskeyRegistrationOptions, void>({
+      query: () => ({
+        url: '/auth/passkeys/registration-options',
+        method: 'POST',
+      }),
+      transformResponse: (response: ApiResponse<PasskeyRegistrationOptions>) => response.data,
+    }),
+
+    addPasskey: builder.mutation<Passkey, AddPasskeyRequest>({
+      query: (data) => ({
+        url: '/auth/passkeys',
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: ApiResponse<{ passkey: Passkey }>) => response.data.passkey,
+      invalidatesTags: ['Passkey'],
+    }),
+
+    renamePasskey: builder.mutation<Passkey, { id: string; name: string }>({
+      query: ({ id, name }) => ({
+        url: `/auth/passkeys/${id}`,
+        method: 'PATCH',
+        body: { name },
+      }),
+      transformResponse: (response: ApiResponse<{ passkey: Passkey }>) => response.data.passkey,
+      invalidatesTags: ['Passkey'],
+    }),
+
+    removePasskey: builder.mutation<void, string>({
+      query: (id) => ({
+        url: `/auth/passkeys/${id}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: ['Passkey'],
+    }),
+
+    getIdentities: builder.query<LinkedIdentity[], void>({
+      query: () => '/auth/identities',
+      transformResponse: (response: ApiResponse<{ identities: LinkedIdentity[] }>) => response.data.identities,
+      providesTags: ['Identity'],
+    }),
+
+    startIdentityLink: builder.mutation<OidcAuthorization, string>({
+      query: (provider) => ({
+        url: `/auth/identities/${provider}/authorize`,
+        method: 'POST',
+        credentials: 'include',
+      }),
+      transformResponse: (response: ApiResponse<OidcAuthorization>) => response.data,
+    }),
+
+    linkIdentity: builder.mutation<LinkedIdentity, OidcCallbackRequest>({
+      query: (data) => ({
+        url: '/auth/identities',
+        method: 'POST',
+        body: data,
+        credentials: 'include',
+      }),
+      transformResponse: (response: ApiResponse<{ identity: LinkedIdentity }>) => response.data.identity,
+      invalidatesTags: ['Identity'],
+    }),
+
+    unlinkIdentity: builder.mutation<void, string>({
+      query: (provider) => ({
+        url: `/auth/identities/${provider}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: ['Identity'],
+    }),
+
+    getPasskeyVerifyOptions: builder.mutation<PasskeyAuthenticationOptions, void>({
+      query: () => ({
+        url: '/auth/passkeys/verify-options',
+        method: 'POST',
+      }),
+      transformResponse: (response: ApiResponse<PasskeyAuthenticationOptions>) => response.data,
+    }),
+
     // User endpoints
     getProfile: builder.query<User, void>({
       query: () => '/users/profile',
@@ -259,6 +533,22 @@ export const api = createApi({
       providesTags: (_result, _error, id) => [{ type: 'Transaction', id }],
     }),
 
+    suggestCategories: builder.query<CategorySuggestion[], SuggestCategoriesRequest>({
+      query: (params) => {
+        const queryParams = new URLSearchParams({ description: params.description });
+
+        if (params.merchantName) queryParams.append('merchantName', params.merchantName);
+        if (params.amount) queryParams.append('amount', params.amount.toString());
+        if (params.type) queryParams.append('type', params.type);
+        if (params.limit) queryParams.append('limit', params.limit.toString());
+
+        return `/transactions/suggest-category?${queryParams.toString()}`;
+      },
+      transformResponse: (response: ApiResponse<CategorySuggestion[]>) => response.data,
+      // Suggestions learn from the transactions, so they go stale with them
+      providesTags: [{ type: 'Transaction', id: 'LIST' }],
+    }),
+
     createTransaction: builder.mutation<Transaction, CreateTransactionRequest>({
       query: (transactionData) => ({
         url: '/transactions',
@@ -273,6 +563,20 @@ export const api = createApi({
       ],
     }),
 
+    createReceiptDraft: builder.mutation<ReceiptDraft, File>({
+      query: (file) => {
+        const body = new FormData();
+        body.append('receipt', file);
+
+        return {
+          url: '/transactions/receipt-drafts',
+          method: 'POST',
+          body,
+        };
+      },
+      transformResponse: (response: ApiResponse<ReceiptDraft>) => response.data,
+    }),
+
     updateTransaction: builder.mutation<Transaction, UpdateTransactionRequest>({
       query: ({ id, ...transactionData }) => ({
         url: `/transactions/${id}`,
@@ -471,12 +775,36 @@ export const api = createApi({
 export const {
   // Authentication hooks
   useLoginMutation,
+  useLoginTwoFactorMutation,
+  useGetPasskeyLoginOptionsMutation,
+  useLoginWithPasskeyMutation,
+  useGetOidcProvidersQuery,
+  useStartOidcLoginMutation,
+  useLoginWithOidcMutation,
   useRegisterMutation,
   useRefreshTokenMutation,
   useLogoutMutation,
   useForgotPasswordMutation,
   useResetPasswordMutation,
   useGetSecurityMetricsQuery,
+  useGetSessionsQuery,
+  useRevokeSessionMutation,
+  useGetTwoFactorStatusQuery,
+  useSetupTwoFactorMutation,
+  useEnableTwoFactorMutation,
+  useVerifyTwoFactorMutation,
+  useRegenerateRecoveryCodesMutation,
+  useDisableTwoFactorMutation,
+  useGetPasskeysQuery,
+  useGetPasskeyRegistrationOptionsMutation,
+  useAddPasskeyMutation,
+  useRenamePasskeyMutation,
+  useRemovePasskeyMutation,
+  useGetPasskeyVerifyOptionsMutation,
+  useGetIdentitiesQuery,
+  useStartIdentityLinkMutation,
+  useLinkIdentityMutation,
+  useUnlinkIdentityMutation,
   
   // User hooks
   useGetProfileQuery,
@@ -486,7 +814,9 @@ export const {
   // Transaction hooks
   useGetTransactionsQuery,
   useGetTransactionQuery,
+  useSuggestCategoriesQuery,
   useCreateTransactionMutation,
+  useCreateReceiptDraftMutation,
   useUpdateTransactionMutation,
   useDeleteTransactionMutation,
   
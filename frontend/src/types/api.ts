@@ -49,6 +49,24 @@ export interface AuthResponse {
   expiresIn: number;
 }
 
+// Returned by login instead of tokens when the account has two-factor authentication
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresAt: string;
+}
+
+// A code from the authenticator app, one of the recovery codes or a passkey signature
+export interface SecondFactorRequest {
+  code?: string;
+  recoveryCode?: string;
+  passkey?: PasskeyAuthenticationCredential;
+}
+
+export interface TwoFactorLoginRequest extends SecondFactorRequest {
+  challengeToken: string;
+}
+
 export interface RefreshTokenRequest {
   refreshToken: string;
 }
@@ -82,6 +100,130 @@ export interface SecurityMetricsResponse {
   lastFailedLoginAt?: string;
 }
 
+// A device the user is signed in on
+export interface Session {
+  id: string;
+  deviceName: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+// Passkeys (WebAuthn). Binary fields are base64url encoded, as in PublicKeyCredential.toJSON()
+export interface Passkey {
+  id: string;
+  name: string;
+  transports: string[];
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+interface PasskeyCredentialDescriptor {
+  id: string;
+  type: 'public-key';
+  transports?: string[];
+}
+
+export interface PasskeyRegistrationOptions {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: Array<{ type: 'public-key'; alg: number }>;
+  timeout: number;
+  attestation: 'none';
+  excludeCredentials: PasskeyCredentialDescriptor[];
+  authenticatorSelection: {
+    residentKey: 'required';
+    requireResidentKey: true;
+    userVerification: 'required';
+  };
+}
+
+export interface PasskeyAuthenticationOptions {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  allowCredentials: PasskeyCredentialDescriptor[];
+  userVerification: 'required' | 'preferred';
+}
+
+export interface PasskeyRegistrationCredential {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface PasskeyAuthenticationCredential {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle: string | null;
+  };
+}
+
+export interface PasskeyLoginRequest {
+  credential: PasskeyAuthenticationCredential;
+  deviceName?: string;
+}
+
+export interface AddPasskeyRequest {
+  credential: PasskeyRegistrationCredential;
+  name?: string;
+}
+
+// Sign-in with OpenID Connect providers (e.g. Google), and accounts linked to the user
+export interface OidcProvider {
+  id: string;
+  name: string;
+}
+
+export interface OidcAuthorization {
+  authorizationUrl: string;
+  expiresAt: string;
+}
+
+// What the provider redirected back with
+export interface OidcCallbackRequest {
+  state: string;
+  code: string;
+}
+
+export interface OidcLoginRequest extends OidcCallbackRequest {
+  deviceName?: string;
+}
+
+export interface LinkedIdentity {
+  id: string;
+  provider: string;
+  providerName: string;
+  email: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
 // User API Types
 export interface UpdateProfileRequest {
   name?: string;
@@ -101,6 +243,10 @@ export interface CreateTransactionRequest {
   categoryId: string;
   date: string;
   accountId?: string;
+  notes?: string;
+  merchantName?: string;
+  // Receipt draft the transaction is created from
+  receiptId?: string;
 }
 
 export interface UpdateTransactionRequest {
@@ -113,6 +259,52 @@ export interface UpdateTransactionRequest {
   accountId?: string;
 }
 
+// A value read from a receipt, with the confidence (0-1) that it is right
+export interface ReceiptField<T> {
+  value: T | null;
+  confidence: number;
+}
+
+export interface ReceiptExtraction {
+  engine: string;
+  extractedAt: string;
+  fields: {
+    merchant: ReceiptField<string>;
+    date: ReceiptField<string>;
+    total: ReceiptField<number>;
+    tax: ReceiptField<number>;
+  };
+}
+
+// A receipt read by OCR, with a transaction pre-filled from it
+export interface ReceiptDraft {
+  receiptId: string;
+  transaction: {
+    type: 'expense';
+    amount: number | null;
+    date: string | null;
+    description: string | null;
+    merchantName: string | null;
+  };
+  extraction: ReceiptExtraction;
+}
+
+// Details of a transaction being entered, to suggest its category from
+export interface SuggestCategoriesRequest {
+  description: string;
+  merchantName?: string;
+  amount?: number;
+  type?: 'income' | 'expense';
+  limit?: number;
+}
+
+// A category learned from the user's earlier transactions, with its confidence (0-1)
+export interface CategorySuggestion {
+  categoryId: string;
+  categoryName: string;
+  confidence: number;
+}
+
 export interface GetTransactionsRequest extends Partial<FilterState> {
   page?: number;
   limit?: number;
@@ -201,6 +393,7 @@ export interface DateRange {
 export interface ReportsRequest extends DateRange {
   categoryIds?: string[];
   accountIds?: string[];
+  tags?: string[];
 }
 
 export interface CategorySummary {
@@ -211,6 +404,13 @@ export interface CategorySummary {
   percentage: number;
 }
 
+export interface TagSummary {
+  tag: string;
+  totalAmount: number;
+  transactionCount: number;
+  percentage: number;
+}
+
 export interface MonthlyTrend {
   month: string;
   income: number;
@@ -242,6 +442,10 @@ export interface ReportsResponse {
     income: CategorySummary[];
     expense: CategorySummary[];
   };
+  tagBreakdown: {
+    income: TagSummary[];
+    expense: TagSummary[];
+  };
   monthlyTrends: MonthlyTrend[];
   budgetProgress: BudgetProgress[];
 }
@@ -273,7 +477,11 @@ export type ApiTags =
   | 'Category' 
   | 'Budget' 
   | 'Account' 
-  | 'Reports';
+  | 'Reports'
+  | 'Session'
+  | 'TwoFactor'
+  | 'Passkey'
+  | 'Identity';
 
 // Cache invalidation strategies
 export interface InvalidationStrategy {
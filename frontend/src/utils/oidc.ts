@@ -0,0 +1,25 @@
+// Browser side of signing in with OpenID Connect providers: the provider
+// redirects back to ROUTES.OIDC_CALLBACK, which needs to know whether the
+// user was signing in or linking an account
+import type { OidcAuthorization } from '../types/api';
+
+export type OidcIntent = 'login' | 'link';
+
+const INTENT_KEY = 'oidcIntent';
+
+/**
+ * Send the browser to the provider's sign-in page
+ */
+export const redirectToProvider = (authorization: OidcAuthorization, intent: OidcIntent): void => {
+  sessionStorage.setItem(INTENT_KEY, intent);
+  window.location.assign(authorization.authorizationUrl);
+};
+
+/**
+ * Why the provider sent the user back, once; null when it wasn't started here
+ */
+export const takeOidcIntent = (): OidcIntent | null => {
+  const intent = sessionStorage.getItem(INTENT_KEY);
+  sessionStorage.removeItem(INTENT_KEY);
+  return intent === 'login' || intent === 'link' ? intent : null;
+};
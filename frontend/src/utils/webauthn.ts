@@ -0,0 +1,108 @@
+// Browser side of passkeys: run the WebAuthn ceremonies with options from the
+// API and turn the results into JSON it accepts (binary fields as base64url)
+import type {
+  PasskeyAuthenticationCredential,
+  PasskeyAuthenticationOptions,
+  PasskeyRegistrationCredential,
+  PasskeyRegistrationOptions,
+} from '../types/api';
+
+const toBuffer = (base64url: string): ArrayBuffer => {
+  const base64 = base64url.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+};
+
+const toBase64url = (buffer: ArrayBuffer): string => {
+  let binary = '';
+  new Uint8Array(buffer).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const toDescriptor = (descriptor: { id: string; type: 'public-key'; transports?: string[] }): PublicKeyCredentialDescriptor => ({
+  id: toBuffer(descriptor.id),
+  type: descriptor.type,
+  transports: descriptor.transports as AuthenticatorTransport[] | undefined,
+});
+
+/**
+ * Whether this browser can use passkeys
+ */
+export const isPasskeySupported = (): boolean =>
+  typeof window !== 'undefined' && typeof window.PublicKeyCredential === 'function';
+
+/**
+ * Whether the user cancelled or timed out the browser's passkey prompt,
+ * which needs no error message
+ */
+export const isPasskeyCancelled = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'NotAllowedError' || error.name === 'AbortError');
+
+/**
+ * Create a new passkey (navigator.credentials.create)
+ */
+export const createPasskey = async (options: PasskeyRegistrationOptions): Promise<PasskeyRegistrationCredential> => {
+  const credential = await navigator.credentials.create({
+    publicKey: {
+      ...options,
+      challenge: toBuffer(options.challenge),
+      user: { ...options.user, id: toBuffer(options.user.id) },
+      excludeCredentials: options.excludeCredentials.map(toDescriptor),
+    },
+  }) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error('No passkey was created');
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+
+  return {
+    id: credential.id,
+    rawId: toBase64url(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: toBase64url(response.clientDataJSON),
+      attestationObject: toBase64url(response.attestationObject),
+      transports: response.getTransports?.() ?? [],
+    },
+  };
+};
+
+/**
+ * Sign the challenge with a passkey (navigator.credentials.get)
+ */
+export const getPasskey = async (options: PasskeyAuthenticationOptions): Promise<PasskeyAuthenticationCredential> => {
+  const credential = await navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: toBuffer(options.challenge),
+      allowCredentials: options.allowCredentials.map(toDescriptor),
+    },
+  }) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error('No passkey was used');
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+
+  return {
+    id: credential.id,
+    rawId: toBase64url(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: toBase64url(response.clientDataJSON),
+      authenticatorData: toBase64url(response.authenticatorData),
+      signature: toBase64url(response.signature),
+      userHandle: response.userHandle ? toBase64url(response.userHandle) : null,
+    },
+  };
+};
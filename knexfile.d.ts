@@ -0,0 +1,5 @@
+import { Knex } from 'knex';
+
+declare const config: { [environment: string]: Knex.Config };
+
+export = config;
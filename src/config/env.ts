@@ -4,6 +4,27 @@ import path from 'path';
 // Load environment variables from .env file
 dotenv.config({ path: path.join(__dirname, '../../.env') });
 
+/**
+ * OpenID Connect sign-in providers, listed in OIDC_PROVIDERS (e.g. "google,okta")
+ * and each configured with OIDC_<ID>_ISSUER, OIDC_<ID>_CLIENT_ID and
+ * OIDC_<ID>_CLIENT_SECRET, plus optional OIDC_<ID>_NAME and OIDC_<ID>_SCOPES
+ */
+const oidcProviders = () => (process.env.OIDC_PROVIDERS || '')
+  .split(',')
+  .map(id => id.trim().toLowerCase())
+  .filter(Boolean)
+  .map(id => {
+    const setting = (name: string) => process.env[`OIDC_${id.toUpperCase()}_${name}`];
+    return {
+      id,
+      name: setting('NAME') || id,
+      issuer: (setting('ISSUER') || '').replace(/\/+$/, ''),
+      clientId: setting('CLIENT_ID') || '',
+      clientSecret: setting('CLIENT_SECRET') || '',
+      scopes: setting('SCOPES') || 'openid email profile'
+    };
+  });
+
 export const config = {
   // Server Configuration
   PORT: parseInt(process.env.PORT || '3000', 10),
@@ -20,6 +41,23 @@ export const config = {
   JWT_REFRESH_EXPIRES_IN: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
   BCRYPT_ROUNDS: parseInt(process.env.BCRYPT_ROUNDS || '12', 10),
   
+  // Two-Factor Authentication
+  TWO_FACTOR_ISSUER: process.env.TWO_FACTOR_ISSUER || 'Finance Tracker',
+  TWO_FACTOR_ENCRYPTION_KEY: process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || 'your-super-secret-two-factor-key-change-in-production',
+  TWO_FACTOR_STEP_UP_TTL: parseInt(process.env.TWO_FACTOR_STEP_UP_TTL || '600', 10), // seconds
+  
+  // Passkeys (WebAuthn)
+  WEBAUTHN_RP_ID: process.env.WEBAUTHN_RP_ID || 'localhost',
+  WEBAUTHN_RP_NAME: process.env.WEBAUTHN_RP_NAME || 'Finance Tracker',
+  WEBAUTHN_ORIGINS: (process.env.WEBAUTHN_ORIGINS || 'http://localhost:5173').split(',').map(origin => origin.trim()),
+  WEBAUTHN_CHALLENGE_TTL: parseInt(process.env.WEBAUTHN_CHALLENGE_TTL || '300', 10), // seconds
+  
+  // OpenID Connect sign-in
+  OIDC_PROVIDERS: oidcProviders(),
+  // Frontend page providers send the user back to
+  OIDC_REDIRECT_URI: process.env.OIDC_REDIRECT_URI || 'http://localhost:5173/auth/callback',
+  OIDC_STATE_TTL: parseInt(process.env.OIDC_STATE_TTL || '600', 10), // seconds
+  
   // CORS Configuration
   CORS_ORIGIN: process.env.CORS_ORIGIN || '*',
   
@@ -31,6 +69,23 @@ export const config = {
   LOG_LEVEL: process.env.LOG_LEVEL || 'info',
   LOG_FILE: process.env.LOG_FILE || 'logs/app.log',
   
+  // Background Jobs
+  BUDGET_ROLLOVER_INTERVAL_MS: parseInt(process.env.BUDGET_ROLLOVER_INTERVAL_MS || '3600000', 10), // 1 hour
+  RECURRING_TRANSACTIONS_INTERVAL_MS: parseInt(process.env.RECURRING_TRANSACTIONS_INTERVAL_MS || '900000', 10), // 15 minutes
+  DATA_EXPORTS_INTERVAL_MS: parseInt(process.env.DATA_EXPORTS_INTERVAL_MS || '60000', 10), // 1 minute
+  RECEIPT_DRAFTS_INTERVAL_MS: parseInt(process.env.RECEIPT_DRAFTS_INTERVAL_MS || '3600000', 10), // 1 hour
+  
+  // Data Exports
+  DATA_EXPORT_SIGNING_SECRET: process.env.DATA_EXPORT_SIGNING_SECRET || process.env.JWT_SECRET || 'your-super-secret-export-signing-key-change-in-production',
+  DATA_EXPORT_LINK_TTL: parseInt(process.env.DATA_EXPORT_LINK_TTL || '300', 10), // seconds
+  DATA_EXPORT_RETENTION_HOURS: parseInt(process.env.DATA_EXPORT_RETENTION_HOURS || '24', 10),
+  
+  // Receipts
+  RECEIPT_DRAFT_RETENTION_HOURS: parseInt(process.env.RECEIPT_DRAFT_RETENTION_HOURS || '24', 10),
+  
+  // Category Suggestions
+  CATEGORY_SUGGESTION_MAX_MODELS: parseInt(process.env.CATEGORY_SUGGESTION_MAX_MODELS || '500', 10),
+  
   // Database Configuration (for future use)
   DATABASE_URL: process.env.DATABASE_URL,
   DB_HOST: process.env.DB_HOST || 'localhost',
@@ -44,6 +99,7 @@ export const config = {
   REDIS_HOST: process.env.REDIS_HOST || 'localhost',
   REDIS_PORT: parseInt(process.env.REDIS_PORT || '6379', 10),
   REDIS_PASSWORD: process.env.REDIS_PASSWORD,
+  CACHE_DEFAULT_TTL: parseInt(process.env.CACHE_DEFAULT_TTL || '300', 10), // seconds
   
   // External APIs (for future use)
   EXTERNAL_API_KEY: process.env.EXTERNAL_API_KEY,
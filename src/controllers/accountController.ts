@@ -0,0 +1,131 @@
+import { Response, NextFunction } from 'express';
+import { AccountService } from '../services/accountService';
+import { ResponseFormatter } from '../middleware/responseFormatter';
+import { logger } from '../middleware/logging';
+import { AuthenticatedRequest } from './authController';
+import { AccountFilters } from '../models/Account';
+
+export class AccountController {
+  /**
+   * List accounts for the authenticated user
+   */
+  static async getAccounts(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = req.query as unknown as AccountFilters;
+      const { accounts, total } = await AccountService.getAccounts(req.user!.userId, filters);
+
+      res.status(200).json(ResponseFormatter.paginated(
+        accounts,
+        { page: filters.page, limit: filters.limit, total },
+        req,
+        'Accounts retrieved successfully'
+      ));
+    } catch (error) {
+      logger.error('Failed to list accounts', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Net worth across accounts included in net worth
+   */
+  static async getNetWorth(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const netWorth = await AccountService.getNetWorth(req.user!.userId);
+
+      res.status(200).json(ResponseFormatter.single(netWorth, 'Net worth retrieved successfully'));
+    } catch (error) {
+      logger.error('Failed to calculate net worth', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Get a single account
+   */
+  static async getAccount(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const account = await AccountService.getAccountById(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.single(account, 'Account retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a new account
+   */
+  static async createAccount(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const account = await AccountService.createAccount(req.user!.userId, req.body);
+
+      res.status(201).json(ResponseFormatter.created(account, 'Account created successfully'));
+    } catch (error) {
+      logger.error('Failed to create account', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Update an existing account
+   */
+  static async updateAccount(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const account = await AccountService.updateAccount(req.user!.userId, req.params.id, req.body);
+
+      res.status(200).json(ResponseFormatter.updated(account, 'Account updated successfully'));
+    } catch (error) {
+      logger.error('Failed to update account', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId,
+        accountId: req.params.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Reorder accounts
+   */
+  static async reorderAccounts(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const accounts = await AccountService.reorderAccounts(req.user!.userId, req.body.accountIds);
+
+      res.status(200).json(ResponseFormatter.updated(accounts, 'Accounts reordered successfully'));
+    } catch (error) {
+      logger.error('Failed to reorder accounts', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Deactivate an account (soft delete)
+   */
+  static async deleteAccount(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await AccountService.deactivateAccount(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.deleted('Account deactivated successfully'));
+    } catch (error) {
+      logger.error('Failed to deactivate account', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId,
+        accountId: req.params.id
+      });
+      next(error);
+    }
+  }
+}
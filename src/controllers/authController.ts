@@ -1,17 +1,35 @@
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction, CookieOptions } from 'express';
 import { UserService, CreateUserData, UserLoginData } from '../services/userService';
 import { JwtService } from '../services/jwtService';
+import { SessionService } from '../services/sessionService';
+import { TwoFactorService } from '../services/twoFactorService';
+import { PasskeyService } from '../services/passkeyService';
+import { OidcService } from '../services/oidcService';
 import { EmailService } from '../services/emailService';
+import { config } from '../config/env';
 import { logger } from '../middleware/logging';
 import { formatResponse } from '../utils/response';
+import { describeUserAgent } from '../utils/userAgent';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     userId: string;
     email: string;
+    sessionId: string;
   };
 }
 
+// Ties a provider sign-in to the browser that started it, so its callback
+// cannot be completed from another browser. Lax, as the user comes back from
+// the provider by a top-level navigation.
+const OIDC_BROWSER_COOKIE = 'oidcBrowser';
+const oidcBrowserCookieOptions = (): CookieOptions => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax',
+  path: `${config.API_PREFIX}/${config.API_VERSION}/auth`
+});
+
 export class AuthController {
   /**
    * Register a new user
@@ -61,11 +79,24 @@ export class AuthController {
     try {
       const loginData: UserLoginData = {
         email: req.body.email,
-        password: req.body.password
+        password: req.body.password,
+        deviceName: req.body.deviceName
       };
 
       // Authenticate user with security tracking
-      const { user, tokens } = await UserService.authenticateUser(loginData, req);
+      const result = await UserService.authenticateUser(loginData, req);
+
+      // Users with two-factor authentication finish signing in with POST /auth/login/2fa
+      if ('twoFactorChallenge' in result) {
+        res.status(200).json(formatResponse({
+          twoFactorRequired: true,
+          challengeToken: result.twoFactorChallenge.challengeToken,
+          expiresAt: result.twoFactorChallenge.expiresAt
+        }, 'Two-factor authentication required'));
+        return;
+      }
+
+      const { user, tokens } = result;
 
       // Set refresh token as HTTP-only cookie
       res.cookie('refreshToken', tokens.refreshToken, {
@@ -131,26 +162,142 @@ export class AuthController {
     }
   }
 
+  /**
+   * Finish signing in with a code from the authenticator app or a recovery code
+   */
+  static async loginTwoFactor(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { user, tokens } = await UserService.completeTwoFactorLogin(
+        req.body.challengeToken,
+        { code: req.body.code, recoveryCode: req.body.recoveryCode, passkey: req.body.passkey },
+        req
+      );
+
+      // Set refresh token as HTTP-only cookie
+      res.cookie('refreshToken', tokens.refreshToken, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'strict',
+        maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
+      });
+
+      logger.info('User logged in successfully', {
+        userId: user.id,
+        email: user.email,
+        ipAddress: req.ip
+      });
+
+      res.status(200).json(formatResponse({
+        user: {
+          id: user.id,
+          email: user.email,
+          first_name: user.first_name,
+          last_name: user.last_name,
+          email_verified: user.email_verified,
+          last_login: user.last_login
+        },
+        tokens: {
+          accessToken: tokens.accessToken,
+          expiresAt: tokens.accessTokenExpiry
+        }
+      }, 'Login successful'));
+    } catch (error) {
+      logger.error('Two-factor login failed', {
+        error: error instanceof Error ? error.message : String(error),
+        ipAddress: req.ip
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Options for signing in with a passkey: passwordless, or as the second
+   * factor of a challenged login when a challenge token is given
+   */
+  static async getPasskeyLoginOptions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.body.challengeToken
+        ? JwtService.verifyTwoFactorChallengeToken(req.body.challengeToken).userId
+        : null;
+
+      const options = await PasskeyService.authenticationOptions(userId);
+
+      res.status(200).json(formatResponse(options));
+    } catch (error) {
+      logger.error('Failed to create passkey login options', { error: error instanceof Error ? error.message : String(error), ipAddress: req.ip });
+      next(error);
+    }
+  }
+
+  /**
+   * Sign in with a passkey instead of the password
+   */
+  static async loginWithPasskey(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { user, tokens } = await UserService.signInWithPasskey(req.body.credential, req.body.deviceName ?? null, req);
+
+      // Set refresh token as HTTP-only cookie
+      res.cookie('refreshToken', tokens.refreshToken, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'strict',
+        maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
+      });
+
+      logger.info('User logged in successfully', {
+        userId: user.id,
+        email: user.email,
+        ipAddress: req.ip
+      });
+
+      res.status(200).json(formatResponse({
+        user: {
+          id: user.id,
+          email: user.email,
+          first_name: user.first_name,
+          last_name: user.last_name,
+          email_verified: user.email_verified,
+          last_login: user.last_login
+        },
+        tokens: {
+          accessToken: tokens.accessToken,
+          expiresAt: tokens.accessTokenExpiry
+        }
+      }, 'Login successful'));
+    } catch (error) {
+      logger.error('Passkey login failed', {
+        error: error instanceof Error ? error.message : String(error),
+        ipAddress: req.ip
+      });
+      next(error);
+    }
+  }
+
   /**
    * Refresh access token
    */
   static async refresh(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const refreshToken = req.cookies.refreshToken || req.body.refreshToken;
-      
-      if (!refreshToken) {
+      // The refresh token was rotated by refreshTokenMiddleware
+      const { newAccessToken, accessTokenExpiry, newRefreshToken, refreshTokenExpiry } = req.body;
+
+      if (!newAccessToken || !newRefreshToken) {
         return next(new Error('Refresh token not provided'));
       }
 
-      // Generate new access token
-      const { accessToken, accessTokenExpiry } = await JwtService.refreshAccessToken(refreshToken);
+      res.cookie('refreshToken', newRefreshToken, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'strict',
+        expires: refreshTokenExpiry
+      });
 
       res.status(200).json(formatResponse({
-        accessToken,
+        accessToken: newAccessToken,
         expiresAt: accessTokenExpiry
       }, 'Token refreshed successfully'));
     } catch (error) {
-      logger.error('Token refresh failed', { error: error.message });
+      logger.error('Token refresh failed', { error: error instanceof Error ? error.message : String(error) });
       
       // Clear refresh token cookie on error
       res.clearCookie('refreshToken');
@@ -178,6 +325,11 @@ export class AuthController {
 
       await Promise.all(promises);
 
+      // End this device's session
+      if (req.user) {
+        await SessionService.revokeSession(req.user.userId, req.user.sessionId);
+      }
+
       // Clear refresh token cookie
       res.clearCookie('refreshToken');
 
@@ -200,7 +352,7 @@ export class AuthController {
       }
 
       // Revoke all user sessions
-      await JwtService.revokeAllUserSessions(req.user.userId);
+      await SessionService.revokeAllSessions(req.user.userId);
 
       // Clear refresh token cookie
       res.clearCookie('refreshToken');
@@ -520,15 +672,17 @@ export class AuthController {
         return next(new Error('User not authenticated'));
       }
 
-      const sessionsCount = await JwtService.getUserSessionsCount(req.user.userId);
+      const sessions = await SessionService.listSessions(req.user.userId, req.user.sessionId);
+      const currentSession = sessions.find(session => session.current);
 
       res.status(200).json(formatResponse({
         userId: req.user.userId,
         email: req.user.email,
-        activeSessions: sessionsCount,
+        activeSessions: sessions.length,
         currentSession: {
+          id: req.user.sessionId,
           authenticated: true,
-          loginTime: new Date()
+          loginTime: currentSession?.createdAt ?? new Date()
         }
       }));
     } catch (error) {
@@ -537,6 +691,456 @@ export class AuthController {
     }
   }
 
+  /**
+   * List the devices the user is signed in on
+   */
+  static async listSessions(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        return next(new Error('User not authenticated'));
+      }
+
+      const sessions = await SessionService.listSessions(req.user.userId, req.user.sessionId);
+
+      res.status(200).json(formatResponse({ sessions }));
+    } catch (error) {
+      logger.error('Failed to list sessions', { error: error instanceof Error ? error.message : String(error), userId: req.user?.userId });
+      next(error);
+    }
+  }
+
+  /**
+   * Sign out one device
+   */
+  static async revokeSession(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        return next(new Error('User not authenticated'));
+      }
+
+      const sessionId = req.params.id!;
+      await SessionService.revokeSession(req.user.userId, sessionId);
+
+      // Revoking the current session is a logout
+      if (sessionId === req.user.sessionId) {
+        res.clearCookie('refreshToken');
+      }
+
+      logger.info('Session revoked by user', { userId: req.user.userId, sessionId });
+
+      res.status(200).json(formatResponse(null, 'Session revoked successfully'));
+    } catch (error) {
+      logger.error('Failed to revoke session', { error: error instanceof Error ? error.message : String(error), userId: req.user?.userId });
+      next(error);
+    }
+  }
+
+  /**
+   * Get two-factor authentication status
+   */
+  static async getTwoFactorStatus(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        return next(new Error('User not authenticated'));
+      }
+
+      const status = await TwoFactorService.getStatus(req.user.userId);
+
+      res.status(200).json(formatResponse(status));
+    } catch (error) {
+      logger.error('Failed to get two-factor status', { error: error instanceof Error ? error.message : String(error), userId: req.user?.userId });
+      next(error);
+    }
+  }
+
+  /**
+   * Start setting up an authenticator app
+   */
+  static async setupTwoFactor(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        return next(new Error('User not authenticated'));
+      }
+
+      const setup = await TwoFactorService.beginSetup(req.user.userId);
+
+      res.status(200).json(formatResponse(setup, 'Scan the QR code with your authenticator app, then confirm a code'));
+    } catch (error) {
+      logger.error('Failed to start two-factor setup', { error: error instanceof Error ? error.message : String(error), userId: req.user?.userId });
+      next(error);
+    }
+  }
+
+  /**
+   * Confirm a code from the authenticator app and turn two-factor authentication on
+   */
+  static async enableTwoFactor(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        return next(new Error('User not authenticated'));
+      }
+
+      const recoveryCodes = await TwoFactorService.enable(req.user.userId, req.user.sessionId, req.body.code);
+
+      res.status(200).json(formatResponse({ recoveryCodes }, 'Two-factor authentication enabled. Store your recovery codes somewhere safe.'));
+    } catch (error) {
+      logger.error('Failed to enable two-factor authentication', { error: error instanceof Error ? error.message : String(error), userId: req.user?.userId });
+      next(error);
+    }
+  }
+
+  /**
+   * Enter a second factor to unlock sensitive actions on this session
+   */
+  static async verifyTwoFactor(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        return next(new Error('User not authenticated'));
+      }
+
+      const verifiedUntil = await TwoFactorService.verifySession(req.user.userId, req.user.sessionId, {
+        code: req.body.code,
+        recoveryCode: req.body.recoveryCode,
+        passkey: req.body.passkey
+      });
+
+      res.status(200).json(formatResponse({ verifiedUntil }, 'Two-factor verification successful'));
+    } catch (error) {
+      logger.error('Two-factor verification failed', { error: error instanceof Error ? error.message : String(error), userId: req.user?.userId });
+      next(error);
+    }
+  }
+
+  /**
+   * Replace the recovery codes with a new set
+   */
+  static async regenerateRecoveryCodes(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        return next(new Error('User not authenticated'));
+      }
+
+      const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(req.user.userId);
+
+      res.status(200).json(formatResponse({ recoveryCodes }, 'Recovery codes regenerated. Your old codes no longer work.'));
+    } catch (error) {
+      logger.error('Failed to regenerate recovery codes', { error: error instanceof Error ? error.message : String(error), userId: req.user?.userId });
+      next(error);
+    }
+  }
+
+  /**
+   * Turn two-factor authentication off
+   */
+  static async disableTwoFactor(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        return next(new Error('User not authenticated'));
+      }
+
+      await TwoFactorService.disable(req.user.userId);
+
+      res.status(200).json(formatResponse(null, 'Two-factor authentication disabled'));
+    } catch (error) {
+      logger.error('Failed to disable two-factor authentication', { error: error instanceof Error ? error.message : String(error), userId: req.user?.userId });
+      next(error);
+    }
+  }
+
+  /**
+   * Options for confirming this session with a passkey before a sensitive action
+   */
+  static async getPasskeyVerifyOptions(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        return next(new Error('User not authenticated'));
+      }
+
+      const options = await PasskeyService.authenticationOptions(req.user.userId);
+
+      res.status(200).json(formatResponse(options));
+    } catch (error) {
+      logger.error('Failed to create passkey verification options', { error: error instanceof Error ? error.message : String(error), userId: req.user?.userId });
+      next(error);
+    }
+  }
+
+  /**
+   * List the user's passkeys
+   */
+  static async listPasskeys(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        return next(new Error('User not authenticated'));
+      }
+
+      const passkeys = await PasskeyService.list(req.user.userId);
+
+      res.status(200).json(formatResponse({ passkeys }));
+    } catch (error) {
+      logger.error('Failed to list passkeys', { error: error instanceof Error ? error.message : String(error), userId: req.user?.userId });
+      next(error);
+    }
+  }
+
+  /**
+   * Options for creating a new passkey in the browser
+   */
+  static async getPasskeyRegistrationOptions(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        return next(new Error('User not authenticated'));
+      }
+
+      const options = await PasskeyService.registrationOptions(req.user.userId);
+
+      res.status(200).json(formatResponse(options));
+    } catch (error) {
+      logger.error('Failed to create passkey registration options', { error: error instanceof Error ? error.message : String(error), userId: req.user?.userId });
+      next(error);
+    }
+  }
+
+  /**
+   * Save a passkey created in the browser
+   */
+  static async registerPasskey(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        return next(new Error('User not authenticated'));
+      }
+
+      // Name it after the device it was created on unless the user chose a name
+      const name = req.body.name || describeUserAgent(req.get('User-Agent'));
+      const passkey = await PasskeyService.register(req.user.userId, req.body.credential, name);
+
+      res.status(201).json(formatResponse({ passkey }, 'Passkey added'));
+    } catch (error) {
+      logger.error('Failed to register passkey', { error: error instanceof Error ? error.message : String(error), userId: req.user?.userId });
+      next(error);
+    }
+  }
+
+  /**
+   * Rename a passkey
+   */
+  static async renamePasskey(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        return next(new Error('User not authenticated'));
+      }
+
+      const passkey = await PasskeyService.rename(req.user.userId, req.params.id!, req.body.name);
+
+      res.status(200).json(formatResponse({ passkey }, 'Passkey renamed'));
+    } catch (error) {
+      logger.error('Failed to rename passkey', { error: error instanceof Error ? error.message : String(error), userId: req.user?.userId });
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a passkey
+   */
+  static async removePasskey(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        return next(new Error('User not authenticated'));
+      }
+
+      await PasskeyService.remove(req.user.userId, req.params.id!);
+
+      res.status(200).json(formatResponse(null, 'Passkey removed'));
+    } catch (error) {
+      logger.error('Failed to remove passkey', { error: error instanceof Error ? error.message : String(error), userId: req.user?.userId });
+      next(error);
+    }
+  }
+
+  /**
+   * List the OpenID Connect providers users can sign in with
+   */
+  static async getOidcProviders(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json(formatResponse({ providers: OidcService.listProviders() }));
+    } catch (error) {
+      logger.error('Failed to list sign-in providers', { error: error instanceof Error ? error.message : String(error) });
+      next(error);
+    }
+  }
+
+  /**
+   * Start signing in (or signing up) at a provider
+   */
+  static async startOidcLogin(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { authorization, browserSecret } = await OidcService.createAuthorization(req.params.provider!, 'login', null);
+
+      res.cookie(OIDC_BROWSER_COOKIE, browserSecret, {
+        ...oidcBrowserCookieOptions(),
+        maxAge: config.OIDC_STATE_TTL * 1000
+      });
+
+      res.status(200).json(formatResponse(authorization));
+    } catch (error) {
+      logger.error('Failed to start provider sign-in', { error: error instanceof Error ? error.message : String(error), provider: req.params.provider });
+      next(error);
+    }
+  }
+
+  /**
+   * Finish signing in with the code the provider sent back
+   */
+  static async loginWithOidc(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const browserSecret: string | undefined = req.cookies?.[OIDC_BROWSER_COOKIE];
+      // A sign-in can only be completed once, whatever the outcome
+      res.clearCookie(OIDC_BROWSER_COOKIE, oidcBrowserCookieOptions());
+
+      const result = await UserService.signInWithOidc(
+        req.body.state,
+        req.body.code,
+        browserSecret,
+        req.body.deviceName ?? null,
+        req
+      );
+
+      // Users with two-factor authentication finish signing in with POST /auth/login/2fa
+      if ('twoFactorChallenge' in result) {
+        res.status(200).json(formatResponse({
+          twoFactorRequired: true,
+          challengeToken: result.twoFactorChallenge.challengeToken,
+          expiresAt: result.twoFactorChallenge.expiresAt
+        }, 'Two-factor authentication required'));
+        return;
+      }
+
+      const { user, tokens } = result;
+
+      // Set refresh token as HTTP-only cookie
+      res.cookie('refreshToken', tokens.refreshToken, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'strict',
+        maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
+      });
+
+      logger.info('User logged in successfully', {
+        userId: user.id,
+        email: user.email,
+        ipAddress: req.ip
+      });
+
+      res.status(200).json(formatResponse({
+        user: {
+          id: user.id,
+          email: user.email,
+          first_name: user.first_name,
+          last_name: user.last_name,
+          email_verified: user.email_verified,
+          last_login: user.last_login
+        },
+        tokens: {
+          accessToken: tokens.accessToken,
+          expiresAt: tokens.accessTokenExpiry
+        }
+      }, 'Login successful'));
+    } catch (error) {
+      logger.error('Provider login failed', {
+        error: error instanceof Error ? error.message : String(error),
+        ipAddress: req.ip
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * List the provider accounts linked to the user
+   */
+  static async listIdentities(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        return next(new Error('User not authenticated'));
+      }
+
+      const identities = await OidcService.list(req.user.userId);
+
+      res.status(200).json(formatResponse({ identities }));
+    } catch (error) {
+      logger.error('Failed to list linked accounts', { error: error instanceof Error ? error.message : String(error), userId: req.user?.userId });
+      next(error);
+    }
+  }
+
+  /**
+   * Start linking an account at a provider to the user
+   */
+  static async startIdentityLink(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        return next(new Error('User not authenticated'));
+      }
+
+      const { authorization, browserSecret } = await OidcService.createAuthorization(req.params.provider!, 'link', req.user.userId);
+
+      res.cookie(OIDC_BROWSER_COOKIE, browserSecret, {
+        ...oidcBrowserCookieOptions(),
+        maxAge: config.OIDC_STATE_TTL * 1000
+      });
+
+      res.status(200).json(formatResponse(authorization));
+    } catch (error) {
+      logger.error('Failed to start account linking', { error: error instanceof Error ? error.message : String(error), userId: req.user?.userId });
+      next(error);
+    }
+  }
+
+  /**
+   * Link the provider account from the code the provider sent back
+   */
+  static async linkIdentity(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        return next(new Error('User not authenticated'));
+      }
+
+      const browserSecret: string | undefined = req.cookies?.[OIDC_BROWSER_COOKIE];
+      res.clearCookie(OIDC_BROWSER_COOKIE, oidcBrowserCookieOptions());
+
+      const verified = await OidcService.completeAuthorization(
+        req.body.state,
+        req.body.code,
+        'link',
+        req.user.userId,
+        browserSecret
+      );
+      const identity = await OidcService.link(req.user.userId, verified);
+
+      res.status(201).json(formatResponse({ identity }, 'Account linked'));
+    } catch (error) {
+      logger.error('Failed to link account', { error: error instanceof Error ? error.message : String(error), userId: req.user?.userId });
+      next(error);
+    }
+  }
+
+  /**
+   * Unlink the user's account at a provider
+   */
+  static async unlinkIdentity(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        return next(new Error('User not authenticated'));
+      }
+
+      await OidcService.unlink(req.user.userId, req.params.provider!);
+
+      res.status(200).json(formatResponse(null, 'Account unlinked'));
+    } catch (error) {
+      logger.error('Failed to unlink account', { error: error instanceof Error ? error.message : String(error), userId: req.user?.userId });
+      next(error);
+    }
+  }
+
   /**
    * Get user security information (authenticated users only)
    */
@@ -0,0 +1,110 @@
+import { Response, NextFunction } from 'express';
+import { BudgetService } from '../services/budgetService';
+import { ResponseFormatter } from '../middleware/responseFormatter';
+import { logger } from '../middleware/logging';
+import { AuthenticatedRequest } from './authController';
+import { BudgetFilters } from '../models/Budget';
+
+export class BudgetController {
+  /**
+   * List budgets with their progress
+   */
+  static async getBudgets(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = req.query as unknown as BudgetFilters;
+      const { budgets, total } = await BudgetService.getBudgets(req.user!.userId, filters);
+
+      res.status(200).json(ResponseFormatter.paginated(
+        budgets,
+        { page: filters.page, limit: filters.limit, total },
+        req,
+        'Budgets retrieved successfully'
+      ));
+    } catch (error) {
+      logger.error('Failed to list budgets', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Get a single budget with its progress
+   */
+  static async getBudget(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const budget = await BudgetService.getBudgetById(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.single(budget, 'Budget retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List every period in a budget's rollover chain
+   */
+  static async getBudgetHistory(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const history = await BudgetService.getBudgetHistory(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.list(history, 'Budget history retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a new budget
+   */
+  static async createBudget(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const budget = await BudgetService.createBudget(req.user!.userId, req.body);
+
+      res.status(201).json(ResponseFormatter.created(budget, 'Budget created successfully'));
+    } catch (error) {
+      logger.error('Failed to create budget', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Update an existing budget
+   */
+  static async updateBudget(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const budget = await BudgetService.updateBudget(req.user!.userId, req.params.id, req.body);
+
+      res.status(200).json(ResponseFormatter.updated(budget, 'Budget updated successfully'));
+    } catch (error) {
+      logger.error('Failed to update budget', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId,
+        budgetId: req.params.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Deactivate a budget
+   */
+  static async deleteBudget(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await BudgetService.deleteBudget(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.deleted('Budget deleted successfully'));
+    } catch (error) {
+      logger.error('Failed to delete budget', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId,
+        budgetId: req.params.id
+      });
+      next(error);
+    }
+  }
+}
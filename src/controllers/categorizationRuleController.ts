@@ -0,0 +1,112 @@
+import { Response, NextFunction } from 'express';
+import { CategorizationRuleService } from '../services/categorizationRuleService';
+import { ResponseFormatter } from '../middleware/responseFormatter';
+import { logger } from '../middleware/logging';
+import { AuthenticatedRequest } from './authController';
+
+export class CategorizationRuleController {
+  /**
+   * List categorization rules in the order they are tried
+   */
+  static async getRules(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rules = await CategorizationRuleService.getRules(req.user!.userId);
+
+      res.status(200).json(ResponseFormatter.list(rules, 'Categorization rules retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a single categorization rule
+   */
+  static async getRule(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rule = await CategorizationRuleService.getRuleById(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.single(rule, 'Categorization rule retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a categorization rule
+   */
+  static async createRule(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rule = await CategorizationRuleService.createRule(req.user!.userId, req.body);
+
+      res.status(201).json(ResponseFormatter.created(rule, 'Categorization rule created successfully'));
+    } catch (error) {
+      logger.error('Failed to create categorization rule', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Update a categorization rule
+   */
+  static async updateRule(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rule = await CategorizationRuleService.updateRule(req.user!.userId, req.params.id, req.body);
+
+      res.status(200).json(ResponseFormatter.updated(rule, 'Categorization rule updated successfully'));
+    } catch (error) {
+      logger.error('Failed to update categorization rule', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId,
+        ruleId: req.params.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a categorization rule
+   */
+  static async deleteRule(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await CategorizationRuleService.deleteRule(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.deleted('Categorization rule deleted successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Set the order categorization rules are tried in
+   */
+  static async reorderRules(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rules = await CategorizationRuleService.reorderRules(req.user!.userId, req.body.ruleIds);
+
+      res.status(200).json(ResponseFormatter.list(rules, 'Categorization rules reordered successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Recategorize existing transactions that match a rule
+   */
+  static async applyRule(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await CategorizationRuleService.applyRule(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.success(result, 'Categorization rule applied successfully'));
+    } catch (error) {
+      logger.error('Failed to apply categorization rule', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId,
+        ruleId: req.params.id
+      });
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { Response, NextFunction } from 'express';
+import { CategoryService } from '../services/categoryService';
+import { ResponseFormatter } from '../middleware/responseFormatter';
+import { logger } from '../middleware/logging';
+import { AuthenticatedRequest } from './authController';
+import { CategoryFilters } from '../models/Category';
+
+export class CategoryController {
+  /**
+   * List categories as a tree (or a flat list with ?flat=true or ?search=)
+   */
+  static async getCategories(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const filters = req.query as unknown as CategoryFilters;
+
+      const categories = filters.flat || filters.search
+        ? await CategoryService.getCategories(userId, filters)
+        : await CategoryService.getCategoryTree(userId, filters);
+
+      res.status(200).json(ResponseFormatter.list(categories, 'Categories retrieved successfully'));
+    } catch (error) {
+      logger.error('Failed to list categories', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Get a category with its subtree
+   */
+  static async getCategory(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const category = await CategoryService.getCategoryById(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.single(category, 'Category retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a new category
+   */
+  static async createCategory(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const category = await CategoryService.createCategory(req.user!.userId, req.body);
+
+      res.status(201).json(ResponseFormatter.created(category, 'Category created successfully'));
+    } catch (error) {
+      logger.error('Failed to create category', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Update an existing category
+   */
+  static async updateCategory(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const category = await CategoryService.updateCategory(req.user!.userId, req.params.id, req.body);
+
+      res.status(200).json(ResponseFormatter.updated(category, 'Category updated successfully'));
+    } catch (error) {
+      logger.error('Failed to update category', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId,
+        categoryId: req.params.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Move a category and its subtree under another parent
+   */
+  static async moveCategory(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const category = await CategoryService.moveCategory(
+        req.user!.userId,
+        req.params.id,
+        req.body.parentId,
+        req.body.displayOrder
+      );
+
+      res.status(200).json(ResponseFormatter.updated(category, 'Category moved successfully'));
+    } catch (error) {
+      logger.error('Failed to move category', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId,
+        categoryId: req.params.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Merge a category into another
+   */
+  static async mergeCategory(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await CategoryService.mergeCategory(
+        req.user!.userId,
+        req.params.id,
+        req.body.targetCategoryId
+      );
+
+      res.status(200).json(ResponseFormatter.single(result, 'Categories merged successfully'));
+    } catch (error) {
+      logger.error('Failed to merge categories', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId,
+        categoryId: req.params.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Deactivate a category
+   */
+  static async deleteCategory(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await CategoryService.deleteCategory(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.deleted('Category deleted successfully'));
+    } catch (error) {
+      logger.error('Failed to delete category', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId,
+        categoryId: req.params.id
+      });
+      next(error);
+    }
+  }
+}
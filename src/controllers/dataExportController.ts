@@ -0,0 +1,86 @@
+import { Request, Response, NextFunction } from 'express';
+import { DataExportService } from '../services/dataExportService';
+import { ResponseFormatter } from '../middleware/responseFormatter';
+import { logger } from '../middleware/logging';
+import { DataExportDownloadQuery } from '../models/DataExport';
+import { AuthenticatedRequest } from './authController';
+
+export class DataExportController {
+  /**
+   * Queue a full export of the user's data
+   */
+  static async requestExport(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const dataExport = await DataExportService.requestExport(req.user!.userId);
+
+      res.status(202).json(ResponseFormatter.single(dataExport, 'Data export queued successfully'));
+    } catch (error) {
+      logger.error('Failed to request data export', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * List the user's data exports
+   */
+  static async getExports(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const dataExports = await DataExportService.getExports(req.user!.userId);
+
+      res.status(200).json(ResponseFormatter.list(dataExports, 'Data exports retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the status of a data export
+   */
+  static async getExport(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const dataExport = await DataExportService.getExportById(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.single(dataExport, 'Data export retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a signed download link for a ready export
+   */
+  static async createLink(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const link = await DataExportService.createDownloadLink(req.user!.userId, req.params.id);
+
+      res.status(201).json(ResponseFormatter.created(link, 'Download link created successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Stream an export archive through a signed link
+   */
+  static async download(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const query = req.query as unknown as DataExportDownloadQuery;
+      const file = await DataExportService.getDownload(req.params.id!, query, req.ip);
+
+      res.setHeader('Cache-Control', 'no-store');
+      res.download(file.filePath, file.fileName, (error) => {
+        if (error && !res.headersSent) next(error);
+      });
+    } catch (error) {
+      logger.warn('Rejected data export download', {
+        error: error instanceof Error ? error.message : String(error),
+        exportId: req.params.id,
+        ip: req.ip
+      });
+      next(error);
+    }
+  }
+}
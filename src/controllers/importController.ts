@@ -0,0 +1,153 @@
+import { Response, NextFunction } from 'express';
+import { ImportService } from '../services/importService';
+import { ResponseFormatter } from '../middleware/responseFormatter';
+import { logger } from '../middleware/logging';
+import { AppError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from './authController';
+
+export class ImportController {
+  /**
+   * List saved CSV column mappings
+   */
+  static async getMappings(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const mappings = await ImportService.getMappings(req.user!.userId);
+
+      res.status(200).json(ResponseFormatter.list(mappings, 'Import mappings retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Save a CSV column mapping
+   */
+  static async createMapping(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const mapping = await ImportService.createMapping(req.user!.userId, req.body);
+
+      res.status(201).json(ResponseFormatter.created(mapping, 'Import mapping created successfully'));
+    } catch (error) {
+      logger.error('Failed to create import mapping', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Update a CSV column mapping
+   */
+  static async updateMapping(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const mapping = await ImportService.updateMapping(req.user!.userId, req.params.id, req.body);
+
+      res.status(200).json(ResponseFormatter.updated(mapping, 'Import mapping updated successfully'));
+    } catch (error) {
+      logger.error('Failed to update import mapping', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId,
+        mappingId: req.params.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a CSV column mapping
+   */
+  static async deleteMapping(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await ImportService.deleteMapping(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.deleted('Import mapping deleted successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List statement imports
+   */
+  static async getImports(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = req.query as unknown as { page: number; limit: number };
+      const { imports, total } = await ImportService.getImports(req.user!.userId, filters);
+
+      res.status(200).json(ResponseFormatter.paginated(
+        imports,
+        { page: filters.page, limit: filters.limit, total },
+        req,
+        'Imports retrieved successfully'
+      ));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get an import preview with its rows
+   */
+  static async getImport(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const transactionImport = await ImportService.getImportById(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.single(transactionImport, 'Import retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Upload a statement and parse it into a preview
+   */
+  static async createImport(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.file) {
+        throw new AppError('A statement file is required', 400);
+      }
+
+      const transactionImport = await ImportService.previewImport(req.user!.userId, req.file, req.body);
+
+      res.status(201).json(ResponseFormatter.created(transactionImport, 'Statement parsed successfully'));
+    } catch (error) {
+      logger.error('Failed to parse statement', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Import the accepted rows of a preview
+   */
+  static async commitImport(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const transactionImport = await ImportService.commitImport(req.user!.userId, req.params.id, req.body);
+
+      res.status(200).json(ResponseFormatter.updated(transactionImport, 'Transactions imported successfully'));
+    } catch (error) {
+      logger.error('Failed to commit import', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId,
+        importId: req.params.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Discard an import preview
+   */
+  static async discardImport(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await ImportService.discardImport(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.deleted('Import discarded successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { Response, NextFunction } from 'express';
+import { NotificationService } from '../services/notificationService';
+import { ResponseFormatter } from '../middleware/responseFormatter';
+import { logger } from '../middleware/logging';
+import { AuthenticatedRequest } from './authController';
+import { NotificationFilters } from '../models/Notification';
+
+export class NotificationController {
+  /**
+   * List in-app notifications, newest first
+   */
+  static async getNotifications(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = req.query as unknown as NotificationFilters;
+      const { notifications, total } = await NotificationService.getNotifications(req.user!.userId, filters);
+
+      res.status(200).json(ResponseFormatter.paginated(
+        notifications,
+        { page: filters.page, limit: filters.limit, total },
+        req,
+        'Notifications retrieved successfully'
+      ));
+    } catch (error) {
+      logger.error('Failed to list notifications', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Count unread notifications
+   */
+  static async getUnreadCount(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const unread = await NotificationService.getUnreadCount(req.user!.userId);
+
+      res.status(200).json(ResponseFormatter.single({ unread }, 'Unread count retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Mark a notification as read
+   */
+  static async markAsRead(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const notification = await NotificationService.markAsRead(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.updated(notification, 'Notification marked as read'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Mark every notification as read
+   */
+  static async markAllAsRead(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const updated = await NotificationService.markAllAsRead(req.user!.userId);
+
+      res.status(200).json(ResponseFormatter.updated({ updated }, 'Notifications marked as read'));
+    } catch (error) {
+      logger.error('Failed to mark notifications as read', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a notification
+   */
+  static async deleteNotification(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await NotificationService.deleteNotification(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.deleted('Notification deleted successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { Response, NextFunction } from 'express';
+import { ReceiptService } from '../services/receiptService';
+import { ResponseFormatter } from '../middleware/responseFormatter';
+import { logger } from '../middleware/logging';
+import { ReceiptFile } from '../models/Receipt';
+import { AuthenticatedRequest } from './authController';
+
+export class ReceiptController {
+  /**
+   * List the receipts attached to a transaction
+   */
+  static async getReceipts(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const receipts = await ReceiptService.getReceipts(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.list(receipts, 'Receipts retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Attach uploaded receipt files to a transaction
+   */
+  static async addReceipts(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const files = Array.isArray(req.files) ? req.files : [];
+      const receipts = await ReceiptService.addReceipts(req.user!.userId, req.params.id, files);
+
+      res.status(201).json(ResponseFormatter.created(receipts, 'Receipts uploaded successfully'));
+    } catch (error) {
+      logger.error('Failed to attach receipts', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId,
+        transactionId: req.params.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Read an uploaded receipt image into a draft transaction
+   */
+  static async createDraft(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const draft = await ReceiptService.createDraft(req.user!.userId, req.file);
+
+      res.status(201).json(ResponseFormatter.created(draft, 'Receipt read successfully'));
+    } catch (error) {
+      logger.error('Failed to read receipt', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Download a receipt file
+   */
+  static async getReceiptFile(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const file = await ReceiptService.getReceiptFile(req.user!.userId, req.params.id, req.params.receiptId!);
+
+      ReceiptController.sendReceipt(res, file, next);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Download the thumbnail of an image receipt
+   */
+  static async getThumbnail(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const file = await ReceiptService.getReceiptFile(req.user!.userId, req.params.id, req.params.receiptId!, true);
+
+      ReceiptController.sendReceipt(res, file, next);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Detach a receipt and delete its file
+   */
+  static async deleteReceipt(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await ReceiptService.deleteReceipt(req.user!.userId, req.params.id, req.params.receiptId!);
+
+      res.status(200).json(ResponseFormatter.deleted('Receipt deleted successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Receipts never change once uploaded, but they are private to the user
+  private static sendReceipt(res: Response, file: ReceiptFile, next: NextFunction): void {
+    res.setHeader('Content-Type', file.mimeType);
+    res.setHeader('Cache-Control', 'private, max-age=86400');
+    res.download(file.filePath, file.fileName, (error) => {
+      if (error && !res.headersSent) next(error);
+    });
+  }
+}
@@ -0,0 +1,155 @@
+import { Response, NextFunction } from 'express';
+import { RecurringRuleService } from '../services/recurringRuleService';
+import { ResponseFormatter } from '../middleware/responseFormatter';
+import { logger } from '../middleware/logging';
+import { AuthenticatedRequest } from './authController';
+import { RecurringRuleFilters } from '../models/RecurringRule';
+
+export class RecurringRuleController {
+  /**
+   * List recurring rules
+   */
+  static async getRules(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = req.query as unknown as RecurringRuleFilters;
+      const { rules, total } = await RecurringRuleService.getRules(req.user!.userId, filters);
+
+      res.status(200).json(ResponseFormatter.paginated(
+        rules,
+        { page: filters.page, limit: filters.limit, total },
+        req,
+        'Recurring rules retrieved successfully'
+      ));
+    } catch (error) {
+      logger.error('Failed to list recurring rules', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Get a single recurring rule
+   */
+  static async getRule(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rule = await RecurringRuleService.getRuleById(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.single(rule, 'Recurring rule retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a recurring rule
+   */
+  static async createRule(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rule = await RecurringRuleService.createRule(req.user!.userId, req.body);
+
+      res.status(201).json(ResponseFormatter.created(rule, 'Recurring rule created successfully'));
+    } catch (error) {
+      logger.error('Failed to create recurring rule', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Update the whole series
+   */
+  static async updateRule(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rule = await RecurringRuleService.updateRule(req.user!.userId, req.params.id, req.body);
+
+      res.status(200).json(ResponseFormatter.updated(rule, 'Recurring rule updated successfully'));
+    } catch (error) {
+      logger.error('Failed to update recurring rule', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId,
+        ruleId: req.params.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Stop a series
+   */
+  static async deleteRule(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await RecurringRuleService.deleteRule(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.deleted('Recurring rule deleted successfully'));
+    } catch (error) {
+      logger.error('Failed to delete recurring rule', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId,
+        ruleId: req.params.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * List upcoming occurrences of a series
+   */
+  static async getOccurrences(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const count = Number(req.query.count);
+      const occurrences = await RecurringRuleService.getUpcomingOccurrences(req.user!.userId, req.params.id, count);
+
+      res.status(200).json(ResponseFormatter.list(occurrences, 'Upcoming occurrences retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Skip a single occurrence
+   */
+  static async skipOccurrence(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const occurrence = await RecurringRuleService.skipOccurrence(req.user!.userId, req.params.id, req.params.date);
+
+      res.status(200).json(ResponseFormatter.updated(occurrence, 'Occurrence skipped successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Change a single occurrence
+   */
+  static async updateOccurrence(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const occurrence = await RecurringRuleService.updateOccurrence(
+        req.user!.userId,
+        req.params.id,
+        req.params.date,
+        req.body
+      );
+
+      res.status(200).json(ResponseFormatter.updated(occurrence, 'Occurrence updated successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Undo a skip or change to a single occurrence
+   */
+  static async restoreOccurrence(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const occurrence = await RecurringRuleService.restoreOccurrence(req.user!.userId, req.params.id, req.params.date);
+
+      res.status(200).json(ResponseFormatter.updated(occurrence, 'Occurrence restored successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
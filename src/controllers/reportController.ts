@@ -0,0 +1,26 @@
+import { Response, NextFunction } from 'express';
+import { ReportService } from '../services/reportService';
+import { ResponseFormatter } from '../middleware/responseFormatter';
+import { logger } from '../middleware/logging';
+import { AuthenticatedRequest } from './authController';
+import { ReportFilters } from '../models/Report';
+
+export class ReportController {
+  /**
+   * Get the income, category, trend and budget report for a date range
+   */
+  static async getReports(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = req.query as unknown as ReportFilters;
+      const report = await ReportService.getReports(req.user!.userId, filters);
+
+      res.status(200).json(ResponseFormatter.single(report, 'Reports retrieved successfully'));
+    } catch (error) {
+      logger.error('Failed to get reports', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+}
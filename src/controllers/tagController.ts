@@ -0,0 +1,73 @@
+import { Response, NextFunction } from 'express';
+import { TagService } from '../services/tagService';
+import { ResponseFormatter } from '../middleware/responseFormatter';
+import { logger } from '../middleware/logging';
+import { TagFilters } from '../models/Tag';
+import { AuthenticatedRequest } from './authController';
+
+export class TagController {
+  /**
+   * List the user's tags with usage counts
+   */
+  static async getTags(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = req.query as unknown as TagFilters;
+      const tags = await TagService.getTags(req.user!.userId, filters);
+
+      res.status(200).json(ResponseFormatter.list(tags, 'Tags retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Rename a tag on every transaction and recurring rule
+   */
+  static async renameTag(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await TagService.renameTag(req.user!.userId, req.params.name, req.body.name);
+
+      res.status(200).json(ResponseFormatter.updated(result, 'Tag renamed successfully'));
+    } catch (error) {
+      logger.error('Failed to rename tag', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Merge tags into one
+   */
+  static async mergeTags(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await TagService.mergeTags(req.user!.userId, req.body.sources, req.body.target);
+
+      res.status(200).json(ResponseFormatter.updated(result, 'Tags merged successfully'));
+    } catch (error) {
+      logger.error('Failed to merge tags', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a tag from every transaction and recurring rule
+   */
+  static async deleteTag(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await TagService.deleteTag(req.user!.userId, req.params.name);
+
+      res.status(200).json(ResponseFormatter.single(result, 'Tag deleted successfully'));
+    } catch (error) {
+      logger.error('Failed to delete tag', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import { Response, NextFunction } from 'express';
+import { TransactionService } from '../services/transactionService';
+import { TransactionExportService, TRANSACTION_EXPORT_CONTENT_TYPES } from '../services/transactionExportService';
+import { TransferService } from '../services/transferService';
+import { CategorySuggestionService } from '../services/categorySuggestionService';
+import { TransactionSearchService } from '../services/transactionSearchService';
+import { ResponseFormatter } from '../middleware/responseFormatter';
+import { logger } from '../middleware/logging';
+import { AuthenticatedRequest } from './authController';
+import {
+  TransactionFilters,
+  TransactionSummaryFilters,
+  TransactionExportFilters,
+  CategorySuggestionQuery,
+  TransactionSearchParams
+} from '../models/Transaction';
+
+export class TransactionController {
+  /**
+   * List transactions for the authenticated user
+   */
+  static async getTransactions(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const filters = req.query as unknown as TransactionFilters;
+
+      const { transactions, total } = await TransactionService.getTransactions(userId, filters);
+
+      res.status(200).json(ResponseFormatter.paginated(
+        transactions,
+        { page: filters.page, limit: filters.limit, total },
+        req,
+        'Transactions retrieved successfully'
+      ));
+    } catch (error) {
+      logger.error('Failed to list transactions', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Search transactions by text and filters, with the matches highlighted
+   */
+  static async searchTransactions(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const params = req.query as unknown as TransactionSearchParams;
+      const { transactions, total } = await TransactionSearchService.searchTransactions(req.user!.userId, params);
+
+      res.status(200).json(ResponseFormatter.paginated(
+        transactions,
+        { page: params.page, limit: params.limit, total },
+        req,
+        'Transactions retrieved successfully'
+      ));
+    } catch (error) {
+      logger.error('Failed to search transactions', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Income/expense totals for a period (transfers excluded)
+   */
+  static async getSummary(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = req.query as unknown as TransactionSummaryFilters;
+      const summary = await TransactionService.getSummary(req.user!.userId, filters);
+
+      res.status(200).json(ResponseFormatter.single(summary, 'Transaction summary retrieved successfully'));
+    } catch (error) {
+      logger.error('Failed to get transaction summary', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Categories the user's history suggests for a transaction being entered
+   */
+  static async suggestCategories(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const query = req.query as unknown as CategorySuggestionQuery;
+      const suggestions = await CategorySuggestionService.suggestCategories(req.user!.userId, query);
+
+      res.status(200).json(ResponseFormatter.list(suggestions, 'Category suggestions retrieved successfully'));
+    } catch (error) {
+      logger.error('Failed to suggest categories', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Download the transactions matching the list filters as CSV or XLSX.
+   * The file is streamed while it is generated, so once the first bytes are
+   * out an error can only abort the download.
+   */
+  static async exportTransactions(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    const filters = req.query as unknown as TransactionExportFilters;
+    const fileName = `transactions-${new Date().toISOString().slice(0, 10)}.${filters.format}`;
+
+    res.status(200);
+    res.setHeader('Content-Type', TRANSACTION_EXPORT_CONTENT_TYPES[filters.format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.setHeader('Cache-Control', 'no-store');
+
+    try {
+      await TransactionExportService.exportTransactions(req.user!.userId, filters, res);
+      res.end();
+    } catch (error) {
+      logger.error('Failed to export transactions', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId,
+        format: filters.format
+      });
+
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+
+      res.removeHeader('Content-Type');
+      res.removeHeader('Content-Disposition');
+      next(error);
+    }
+  }
+
+  /**
+   * Get a single transaction
+   */
+  static async getTransaction(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const transaction = await TransactionService.getTransactionById(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.single(transaction, 'Transaction retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a transaction
+   */
+  static async createTransaction(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const transaction = await TransactionService.createTransaction(req.user!.userId, req.body);
+
+      res.status(201).json(ResponseFormatter.created(transaction, 'Transaction created successfully'));
+    } catch (error) {
+      logger.error('Failed to create transaction', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Update a transaction
+   */
+  static async updateTransaction(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const transaction = await TransactionService.updateTransaction(req.user!.userId, req.params.id, req.body);
+
+      res.status(200).json(ResponseFormatter.updated(transaction, 'Transaction updated successfully'));
+    } catch (error) {
+      logger.error('Failed to update transaction', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId,
+        transactionId: req.params.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a transaction
+   */
+  static async deleteTransaction(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await TransactionService.deleteTransaction(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.deleted('Transaction deleted successfully'));
+    } catch (error) {
+      logger.error('Failed to delete transaction', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId,
+        transactionId: req.params.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Create a transfer between two accounts
+   */
+  static async createTransfer(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const transfer = await TransferService.createTransfer(req.user!.userId, req.body);
+
+      res.status(201).json(ResponseFormatter.created(transfer, 'Transfer created successfully'));
+    } catch (error) {
+      logger.error('Failed to create transfer', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Get both legs of a transfer
+   */
+  static async getTransfer(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const transfer = await TransferService.getTransfer(req.user!.userId, req.params.id);
+
+      res.status(200).json(ResponseFormatter.single(transfer, 'Transfer retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a transfer (both legs)
+   */
+  static async updateTransfer(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const transfer = await TransferService.updateTransfer(req.user!.userId, req.params.id, req.body);
+
+      res.status(200).json(ResponseFormatter.updated(transfer, 'Transfer updated successfully'));
+    } catch (error) {
+      logger.error('Failed to update transfer', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: req.user?.userId,
+        transactionId: req.params.id
+      });
+      next(error);
+    }
+  }
+}
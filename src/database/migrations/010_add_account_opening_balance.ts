@@ -0,0 +1,41 @@
+import { Knex } from 'knex';
+import {
+  addColumnIfNotExists,
+  dropColumnIfExists,
+  withTransaction,
+  validateMigration,
+} from '../utils/migrationHelpers';
+
+/**
+ * Track the balance an account was opened with so the current balance can be
+ * reconciled against opening_balance + transaction history.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Adding opening_balance to accounts table...');
+
+    await validateMigration.requireTables(trx, ['accounts']);
+
+    await addColumnIfNotExists(trx, 'accounts', 'opening_balance', (table) => {
+      table.decimal('opening_balance', 15, 2).notNullable().defaultTo('0.00');
+    });
+
+    // Balances have never been adjusted by transactions up to this point,
+    // so the stored balance is the balance the account was opened with.
+    // Accounts with history then report it as drift until reconciled
+    // (npm run accounts:reconcile -- --fix).
+    await trx.raw('UPDATE accounts SET opening_balance = balance');
+
+    console.log('✅ opening_balance added to accounts table successfully');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Removing opening_balance from accounts table...');
+
+    await dropColumnIfExists(trx, 'accounts', 'opening_balance');
+
+    console.log('✅ opening_balance removal completed');
+  });
+}
@@ -0,0 +1,225 @@
+import { Knex } from 'knex';
+import {
+  createEnumIfNotExists,
+  addConstraints,
+  withTransaction,
+  validateMigration,
+} from '../utils/migrationHelpers';
+
+/**
+ * Model transfers as two linked legs (double entry).
+ *
+ * Each leg lives on its own account: the outgoing leg debits account_id and the
+ * incoming leg credits it. transfer_account_id points at the counterpart account
+ * and transfer_transaction_id at the counterpart leg.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Adding transfer legs to transactions table...');
+
+    await validateMigration.requireTables(trx, ['transactions', 'accounts']);
+
+    const directions = ['outgoing', 'incoming'];
+    validateMigration.validateEnumValues(directions);
+    await createEnumIfNotExists(trx, 'transfer_direction', directions);
+
+    await trx.schema.alterTable('transactions', (table) => {
+      table.specificType('transfer_direction', 'transfer_direction').nullable();
+    });
+
+    // Existing single-row transfers become the outgoing leg...
+    await trx.raw(`UPDATE transactions SET transfer_direction = 'outgoing' WHERE type = 'transfer'`);
+
+    // ...and get a matching incoming leg on the destination account
+    await trx.raw(`
+      WITH legs AS (
+        INSERT INTO transactions (
+          user_id, account_id, type, amount, currency, description, transaction_date,
+          transfer_account_id, transfer_transaction_id, transfer_direction,
+          tags, notes, reference_number, created_at, updated_at
+        )
+        SELECT
+          t.user_id, t.transfer_account_id, 'transfer', t.amount, a.currency, t.description, t.transaction_date,
+          t.account_id, t.id, 'incoming',
+          t.tags, t.notes, t.reference_number, t.created_at, t.updated_at
+        FROM transactions t
+        JOIN accounts a ON a.id = t.transfer_account_id
+        WHERE t.type = 'transfer' AND t.transfer_transaction_id IS NULL
+        RETURNING id, transfer_transaction_id
+      )
+      UPDATE transactions t
+      SET transfer_transaction_id = legs.id
+      FROM legs
+      WHERE t.id = legs.transfer_transaction_id
+    `);
+
+    await addConstraints(trx, 'transactions', [
+      {
+        name: 'transactions_transfer_direction',
+        check: `(type = 'transfer') = (transfer_direction IS NOT NULL)`
+      }
+    ]);
+
+    // Balance history now follows the leg on each account
+    await trx.raw(`
+      CREATE OR REPLACE FUNCTION get_account_balance_at_date(
+          p_account_id UUID,
+          p_date DATE DEFAULT CURRENT_DATE
+      )
+      RETURNS DECIMAL(15,2) AS $$
+      DECLARE
+          opening DECIMAL(15,2);
+          movement DECIMAL(15,2);
+      BEGIN
+          SELECT opening_balance INTO opening FROM accounts WHERE id = p_account_id;
+
+          IF NOT FOUND THEN
+              RAISE EXCEPTION 'Account with ID % not found', p_account_id;
+          END IF;
+
+          SELECT COALESCE(SUM(
+              CASE
+                  WHEN type = 'income' THEN amount
+                  WHEN type = 'expense' THEN -amount
+                  WHEN type = 'transfer' AND transfer_direction = 'incoming' THEN amount
+                  WHEN type = 'transfer' AND transfer_direction = 'outgoing' THEN -amount
+                  ELSE 0
+              END
+          ), 0)
+          INTO movement
+          FROM transactions
+          WHERE account_id = p_account_id
+          AND transaction_date <= p_date;
+
+          RETURN opening + movement;
+      END;
+      $$ LANGUAGE plpgsql;
+    `);
+
+    // Expose the leg linkage so summary queries can tell transfers apart
+    await trx.raw(`
+      CREATE OR REPLACE VIEW transaction_summary AS
+      SELECT
+          t.id,
+          t.user_id,
+          u.first_name || ' ' || u.last_name AS user_name,
+          t.account_id,
+          a.name AS account_name,
+          a.type AS account_type,
+          t.category_id,
+          c.name AS category_name,
+          c.color AS category_color,
+          c.icon AS category_icon,
+          t.type,
+          t.amount,
+          t.currency,
+          t.description,
+          t.transaction_date,
+          t.transfer_account_id,
+          ta.name AS transfer_account_name,
+          t.merchant_name,
+          t.tags,
+          t.notes,
+          t.is_recurring,
+          t.created_at,
+          t.updated_at,
+          t.transfer_transaction_id,
+          t.transfer_direction
+      FROM transactions t
+      LEFT JOIN users u ON t.user_id = u.id
+      LEFT JOIN accounts a ON t.account_id = a.id
+      LEFT JOIN categories c ON t.category_id = c.id
+      LEFT JOIN accounts ta ON t.transfer_account_id = ta.id;
+    `);
+
+    console.log('✅ Transfer legs added successfully');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Rolling back transfer legs...');
+
+    // Restore the original view and balance function
+    await trx.raw('DROP VIEW IF EXISTS transaction_summary');
+    await trx.raw(`
+      CREATE VIEW transaction_summary AS
+      SELECT
+          t.id,
+          t.user_id,
+          u.first_name || ' ' || u.last_name AS user_name,
+          t.account_id,
+          a.name AS account_name,
+          a.type AS account_type,
+          t.category_id,
+          c.name AS category_name,
+          c.color AS category_color,
+          c.icon AS category_icon,
+          t.type,
+          t.amount,
+          t.currency,
+          t.description,
+          t.transaction_date,
+          t.transfer_account_id,
+          ta.name AS transfer_account_name,
+          t.merchant_name,
+          t.tags,
+          t.notes,
+          t.is_recurring,
+          t.created_at,
+          t.updated_at
+      FROM transactions t
+      LEFT JOIN users u ON t.user_id = u.id
+      LEFT JOIN accounts a ON t.account_id = a.id
+      LEFT JOIN categories c ON t.category_id = c.id
+      LEFT JOIN accounts ta ON t.transfer_account_id = ta.id;
+    `);
+
+    await trx.raw(`
+      CREATE OR REPLACE FUNCTION get_account_balance_at_date(
+          p_account_id UUID,
+          p_date DATE DEFAULT CURRENT_DATE
+      )
+      RETURNS DECIMAL(15,2) AS $$
+      DECLARE
+          balance_at_date DECIMAL(15,2);
+          account_exists BOOLEAN;
+      BEGIN
+          SELECT EXISTS(SELECT 1 FROM accounts WHERE id = p_account_id) INTO account_exists;
+
+          IF NOT account_exists THEN
+              RAISE EXCEPTION 'Account with ID % not found', p_account_id;
+          END IF;
+
+          SELECT COALESCE(SUM(
+              CASE
+                  WHEN type = 'income' THEN amount
+                  WHEN type = 'expense' THEN -amount
+                  WHEN type = 'transfer' AND account_id = p_account_id THEN -amount
+                  WHEN type = 'transfer' AND transfer_account_id = p_account_id THEN amount
+                  ELSE 0
+              END
+          ), 0)
+          INTO balance_at_date
+          FROM transactions
+          WHERE (account_id = p_account_id OR transfer_account_id = p_account_id)
+          AND transaction_date <= p_date;
+
+          RETURN balance_at_date;
+      END;
+      $$ LANGUAGE plpgsql;
+    `);
+
+    // Collapse transfers back into a single outgoing row
+    await trx.raw(`DELETE FROM transactions WHERE type = 'transfer' AND transfer_direction = 'incoming'`);
+    await trx.raw('ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_transfer_direction');
+
+    await trx.schema.alterTable('transactions', (table) => {
+      table.dropColumn('transfer_direction');
+    });
+
+    await trx.raw('DROP TYPE IF EXISTS transfer_direction');
+
+    console.log('✅ Transfer legs rollback completed');
+  });
+}
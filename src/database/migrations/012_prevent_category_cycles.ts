@@ -0,0 +1,63 @@
+import { Knex } from 'knex';
+import {
+  withTransaction,
+  validateMigration,
+} from '../utils/migrationHelpers';
+
+/**
+ * categories_no_self_parent only rejects direct self-references. This trigger
+ * walks the ancestors of the new parent and rejects any multi-level cycle.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Adding category cycle prevention...');
+
+    await validateMigration.requireTables(trx, ['categories']);
+
+    await trx.raw(`
+      CREATE OR REPLACE FUNCTION prevent_category_cycle()
+      RETURNS TRIGGER AS $$
+      BEGIN
+          IF NEW.parent_id IS NULL THEN
+              RETURN NEW;
+          END IF;
+
+          IF EXISTS (
+              WITH RECURSIVE ancestors(id, parent_id) AS (
+                  SELECT id, parent_id FROM categories WHERE id = NEW.parent_id
+                  UNION
+                  SELECT c.id, c.parent_id
+                  FROM categories c
+                  JOIN ancestors a ON c.id = a.parent_id
+              )
+              SELECT 1 FROM ancestors WHERE id = NEW.id
+          ) THEN
+              RAISE EXCEPTION 'Category % cannot be moved under its own subcategory', NEW.id
+                  USING ERRCODE = 'check_violation', CONSTRAINT = 'categories_no_cycle';
+          END IF;
+
+          RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql;
+    `);
+
+    await trx.raw(`
+      CREATE TRIGGER categories_prevent_cycle
+      BEFORE INSERT OR UPDATE OF parent_id ON categories
+      FOR EACH ROW EXECUTE FUNCTION prevent_category_cycle();
+    `);
+
+    console.log('✅ Category cycle prevention added successfully');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Removing category cycle prevention...');
+
+    await trx.raw('DROP TRIGGER IF EXISTS categories_prevent_cycle ON categories');
+    await trx.raw('DROP FUNCTION IF EXISTS prevent_category_cycle()');
+
+    console.log('✅ Category cycle prevention removal completed');
+  });
+}
@@ -0,0 +1,60 @@
+import { Knex } from 'knex';
+import {
+  createEnumIfNotExists,
+  createIndexes,
+  withTransaction,
+  validateMigration,
+} from '../utils/migrationHelpers';
+
+/**
+ * Record the recurrence period of each budget. Existing budgets are
+ * classified from the length of their period_start..period_end window.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Adding period to budgets table...');
+
+    await validateMigration.requireTables(trx, ['budgets']);
+
+    const periods = ['weekly', 'monthly', 'quarterly', 'yearly'];
+    validateMigration.validateEnumValues(periods);
+    await createEnumIfNotExists(trx, 'budget_period', periods);
+
+    await trx.schema.alterTable('budgets', (table) => {
+      table.specificType('period', 'budget_period').notNullable().defaultTo('monthly');
+    });
+
+    await trx.raw(`
+      UPDATE budgets SET period = (
+        CASE
+          WHEN period_end - period_start < 8 THEN 'weekly'
+          WHEN period_end - period_start < 32 THEN 'monthly'
+          WHEN period_end - period_start < 93 THEN 'quarterly'
+          ELSE 'yearly'
+        END
+      )::budget_period
+    `);
+
+    await createIndexes(trx, 'budgets', [
+      { name: 'user_period', columns: ['user_id', 'period'] }
+    ]);
+
+    console.log('✅ Budget period added successfully');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Removing period from budgets table...');
+
+    await trx.raw('DROP INDEX IF EXISTS idx_budgets_user_period');
+
+    await trx.schema.alterTable('budgets', (table) => {
+      table.dropColumn('period');
+    });
+
+    await trx.raw('DROP TYPE IF EXISTS budget_period');
+
+    console.log('✅ Budget period removal completed');
+  });
+}
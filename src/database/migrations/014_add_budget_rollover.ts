@@ -0,0 +1,75 @@
+import { Knex } from 'knex';
+import {
+  addColumnIfNotExists,
+  dropColumnIfExists,
+  addConstraints,
+  createIndexes,
+  withTransaction,
+  validateMigration,
+} from '../utils/migrationHelpers';
+
+/**
+ * Chain recurring budget periods together. When a period ends the rollover
+ * job closes it (closed_at) and creates the next period pointing back at it
+ * through previous_budget_id, carrying the unused (or overspent) amount
+ * forward in rollover_amount.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Adding rollover columns to budgets table...');
+
+    await validateMigration.requireTables(trx, ['budgets']);
+
+    await addColumnIfNotExists(trx, 'budgets', 'previous_budget_id', (table) => {
+      table.uuid('previous_budget_id').nullable()
+        .references('id').inTable('budgets').onDelete('SET NULL');
+    });
+
+    await addColumnIfNotExists(trx, 'budgets', 'rollover_amount', (table) => {
+      table.decimal('rollover_amount', 15, 2).notNullable().defaultTo('0.00');
+    });
+
+    // Carry overspending into the next period as well as unused amounts
+    await addColumnIfNotExists(trx, 'budgets', 'rollover_overspent', (table) => {
+      table.boolean('rollover_overspent').notNullable().defaultTo(false);
+    });
+
+    await addColumnIfNotExists(trx, 'budgets', 'closed_at', (table) => {
+      table.timestamp('closed_at', { useTz: true }).nullable();
+    });
+
+    // A negative carry may use up the period's amount but never exceed it
+    await addConstraints(trx, 'budgets', [
+      {
+        name: 'budgets_rollover_within_amount',
+        check: 'amount + rollover_amount >= 0'
+      }
+    ]);
+
+    await createIndexes(trx, 'budgets', [
+      // Each period has at most one successor
+      { name: 'previous_budget_unique', columns: ['previous_budget_id'], unique: true, partial: 'previous_budget_id IS NOT NULL' },
+      // Open periods scanned by the rollover job
+      { name: 'open_period_end', columns: ['period_end'], partial: 'is_active = true AND closed_at IS NULL' }
+    ]);
+
+    console.log('✅ Budget rollover columns added successfully');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Removing rollover columns from budgets table...');
+
+    await trx.raw('DROP INDEX IF EXISTS idx_budgets_open_period_end');
+    await trx.raw('DROP INDEX IF EXISTS idx_budgets_previous_budget_unique');
+    await trx.raw('ALTER TABLE budgets DROP CONSTRAINT IF EXISTS budgets_rollover_within_amount');
+
+    await dropColumnIfExists(trx, 'budgets', 'closed_at');
+    await dropColumnIfExists(trx, 'budgets', 'rollover_overspent');
+    await dropColumnIfExists(trx, 'budgets', 'rollover_amount');
+    await dropColumnIfExists(trx, 'budgets', 'previous_budget_id');
+
+    console.log('✅ Budget rollover removal completed');
+  });
+}
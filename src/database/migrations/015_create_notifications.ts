@@ -0,0 +1,94 @@
+import { Knex } from 'knex';
+import {
+  commonColumns,
+  createEnumIfNotExists,
+  createIndexes,
+  createUpdatedAtTrigger,
+  withTransaction,
+  validateMigration,
+} from '../utils/migrationHelpers';
+
+/**
+ * In-app notifications, plus the budget alerts that have already fired.
+ * budget_alerts holds one row per budget period and alert level so each
+ * alert is delivered once even when spending keeps changing around it.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Creating notifications and budget_alerts tables...');
+
+    await validateMigration.requireTables(trx, ['users', 'budgets']);
+    validateMigration.validateTableName('notifications');
+    validateMigration.validateTableName('budget_alerts');
+
+    // Matches the frontend notification types
+    const notificationTypes = ['success', 'error', 'warning', 'info'];
+    validateMigration.validateEnumValues(notificationTypes);
+    await createEnumIfNotExists(trx, 'notification_type', notificationTypes);
+
+    const alertLevels = ['threshold', 'exceeded'];
+    validateMigration.validateEnumValues(alertLevels);
+    await createEnumIfNotExists(trx, 'budget_alert_level', alertLevels);
+
+    await trx.schema.createTable('notifications', (table) => {
+      commonColumns.id(table, trx);
+      commonColumns.userReference(table);
+
+      table.specificType('type', 'notification_type').notNullable().defaultTo('info');
+      // Event that produced the notification, e.g. budget.alert_triggered
+      table.string('event_type', 100).notNullable();
+      table.string('title', 255).notNullable();
+      table.text('message').notNullable();
+      table.jsonb('data').nullable();
+      table.timestamp('read_at', { useTz: true }).nullable();
+
+      table.timestamp('created_at', { useTz: true }).defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+      table.timestamp('updated_at', { useTz: true }).defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+    });
+
+    await createIndexes(trx, 'notifications', [
+      { name: 'user_created', columns: ['user_id', 'created_at'] },
+      { name: 'user_unread', columns: ['user_id'], partial: 'read_at IS NULL' }
+    ]);
+
+    await createUpdatedAtTrigger(trx, 'notifications');
+
+    await trx.schema.createTable('budget_alerts', (table) => {
+      commonColumns.id(table, trx);
+      commonColumns.userReference(table);
+
+      table.uuid('budget_id').notNullable()
+        .references('id').inTable('budgets').onDelete('CASCADE');
+      table.specificType('level', 'budget_alert_level').notNullable();
+      table.decimal('percentage', 7, 2).notNullable();
+      table.decimal('spent_amount', 15, 2).notNullable();
+      table.uuid('notification_id').nullable()
+        .references('id').inTable('notifications').onDelete('SET NULL');
+
+      table.timestamp('created_at', { useTz: true }).defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+    });
+
+    await createIndexes(trx, 'budget_alerts', [
+      { name: 'budget_level', columns: ['budget_id', 'level'], unique: true },
+      { name: 'user_id', columns: 'user_id' }
+    ]);
+
+    console.log('✅ Notifications and budget_alerts tables created successfully');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Rolling back notifications and budget_alerts tables...');
+
+    await trx.schema.dropTableIfExists('budget_alerts');
+
+    await trx.raw('DROP TRIGGER IF EXISTS update_notifications_updated_at ON notifications');
+    await trx.schema.dropTableIfExists('notifications');
+
+    await trx.raw('DROP TYPE IF EXISTS budget_alert_level');
+    await trx.raw('DROP TYPE IF EXISTS notification_type');
+
+    console.log('✅ Notifications and budget_alerts rollback completed');
+  });
+}
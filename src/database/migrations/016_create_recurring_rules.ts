@@ -0,0 +1,158 @@
+import { Knex } from 'knex';
+import {
+  createEnumIfNotExists,
+  commonColumns,
+  createIndexes,
+  createUpdatedAtTrigger,
+  addConstraints,
+  withTransaction,
+  validateMigration,
+  financialTypes,
+} from '../utils/migrationHelpers';
+
+/**
+ * Recurring transaction schedules. A worker materializes due occurrences as
+ * regular transactions with is_recurring set and recurring_group_id pointing
+ * at the rule. recurring_rule_exceptions holds occurrences the user skipped
+ * or changed ahead of time.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Creating recurring_rules tables...');
+
+    await validateMigration.requireTables(trx, ['users', 'accounts', 'categories', 'transactions']);
+    validateMigration.validateTableName('recurring_rules');
+    validateMigration.validateTableName('recurring_rule_exceptions');
+
+    const frequencies = ['daily', 'weekly', 'monthly', 'yearly'];
+    validateMigration.validateEnumValues(frequencies);
+    await createEnumIfNotExists(trx, 'recurrence_frequency', frequencies);
+
+    await trx.schema.createTable('recurring_rules', (table) => {
+      commonColumns.id(table, trx);
+      commonColumns.userReference(table);
+
+      table.uuid('account_id').notNullable()
+        .references('id').inTable('accounts').onDelete('CASCADE');
+      table.uuid('category_id').notNullable()
+        .references('id').inTable('categories').onDelete('CASCADE');
+
+      // Template for the generated transactions
+      table.specificType('type', 'transaction_type').notNullable();
+      financialTypes.money(table, 'amount');
+      table.text('description').notNullable();
+      table.string('merchant_name', 255).nullable();
+      table.text('notes').nullable();
+      table.specificType('tags', 'text[]').nullable();
+
+      // Schedule
+      table.specificType('frequency', 'recurrence_frequency').notNullable();
+      table.integer('interval_count').notNullable().defaultTo(1);
+      // nth weekday for monthly/yearly schedules (0 = Sunday, week -1 = last)
+      table.smallint('weekday').nullable();
+      table.smallint('week_of_month').nullable();
+      table.date('start_date').notNullable();
+      table.date('end_date').nullable();
+      table.integer('max_occurrences').nullable();
+
+      // Materialization progress
+      table.integer('occurrences_created').notNullable().defaultTo(0);
+      table.integer('next_occurrence_index').nullable();
+      table.date('next_occurrence_date').nullable();
+      table.date('last_occurrence_date').nullable();
+
+      table.boolean('is_active').notNullable().defaultTo(true);
+
+      table.timestamp('created_at', { useTz: true }).defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+      table.timestamp('updated_at', { useTz: true }).defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+    });
+
+    await addConstraints(trx, 'recurring_rules', [
+      {
+        name: 'recurring_rules_positive_amount',
+        check: 'amount > 0'
+      },
+      {
+        name: 'recurring_rules_income_or_expense',
+        check: `type IN ('income', 'expense')`
+      },
+      {
+        name: 'recurring_rules_valid_interval',
+        check: 'interval_count >= 1'
+      },
+      {
+        name: 'recurring_rules_valid_nth_weekday',
+        check: `(weekday IS NULL AND week_of_month IS NULL) OR (
+          frequency IN ('monthly', 'yearly')
+          AND weekday BETWEEN 0 AND 6
+          AND week_of_month IN (1, 2, 3, 4, -1)
+        )`
+      },
+      {
+        name: 'recurring_rules_valid_end_date',
+        check: 'end_date IS NULL OR end_date >= start_date'
+      },
+      {
+        name: 'recurring_rules_valid_max_occurrences',
+        check: 'max_occurrences IS NULL OR max_occurrences >= 1'
+      }
+    ]);
+
+    await createIndexes(trx, 'recurring_rules', [
+      { name: 'user_active', columns: ['user_id', 'is_active'] },
+      { name: 'account_id', columns: 'account_id' },
+      // Rules scanned by the materialization worker
+      { name: 'due', columns: 'next_occurrence_date', partial: 'is_active = true AND next_occurrence_date IS NOT NULL' }
+    ]);
+
+    await createUpdatedAtTrigger(trx, 'recurring_rules');
+
+    await trx.schema.createTable('recurring_rule_exceptions', (table) => {
+      commonColumns.id(table, trx);
+
+      table.uuid('rule_id').notNullable()
+        .references('id').inTable('recurring_rules').onDelete('CASCADE');
+      table.date('occurrence_date').notNullable();
+      table.boolean('is_skipped').notNullable().defaultTo(false);
+      table.jsonb('overrides').nullable();
+
+      table.timestamp('created_at', { useTz: true }).defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+      table.timestamp('updated_at', { useTz: true }).defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+    });
+
+    await createIndexes(trx, 'recurring_rule_exceptions', [
+      { name: 'rule_date', columns: ['rule_id', 'occurrence_date'], unique: true }
+    ]);
+
+    await createUpdatedAtTrigger(trx, 'recurring_rule_exceptions');
+
+    // Generated transactions point at their rule. NOT VALID leaves any
+    // free-form group ids already stored in existing rows unchecked.
+    await trx.raw(`
+      ALTER TABLE transactions
+      ADD CONSTRAINT fk_transactions_recurring_group_id
+      FOREIGN KEY (recurring_group_id) REFERENCES recurring_rules(id) ON DELETE SET NULL
+      NOT VALID
+    `);
+
+    console.log('✅ recurring_rules tables created successfully');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Rolling back recurring_rules tables...');
+
+    await trx.raw('ALTER TABLE transactions DROP CONSTRAINT IF EXISTS fk_transactions_recurring_group_id');
+
+    await trx.raw('DROP TRIGGER IF EXISTS update_recurring_rule_exceptions_updated_at ON recurring_rule_exceptions');
+    await trx.schema.dropTableIfExists('recurring_rule_exceptions');
+
+    await trx.raw('DROP TRIGGER IF EXISTS update_recurring_rules_updated_at ON recurring_rules');
+    await trx.schema.dropTableIfExists('recurring_rules');
+
+    await trx.raw('DROP TYPE IF EXISTS recurrence_frequency');
+
+    console.log('✅ recurring_rules rollback completed');
+  });
+}
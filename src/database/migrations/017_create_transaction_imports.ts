@@ -0,0 +1,142 @@
+import { Knex } from 'knex';
+import {
+  commonColumns,
+  createEnumIfNotExists,
+  createIndexes,
+  createUpdatedAtTrigger,
+  addConstraints,
+  withTransaction,
+  validateMigration,
+} from '../utils/migrationHelpers';
+
+/**
+ * Bank statement imports. import_mappings holds a user's saved CSV column
+ * layout per institution; transaction_imports holds a parsed statement as a
+ * preview until its accepted rows are committed into an account.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Creating transaction import tables...');
+
+    await validateMigration.requireTables(trx, ['users', 'accounts', 'transactions']);
+    validateMigration.validateTableName('import_mappings');
+    validateMigration.validateTableName('transaction_imports');
+
+    const formats = ['csv', 'ofx', 'qfx'];
+    validateMigration.validateEnumValues(formats);
+    await createEnumIfNotExists(trx, 'import_format', formats);
+
+    const statuses = ['preview', 'committed', 'discarded'];
+    validateMigration.validateEnumValues(statuses);
+    await createEnumIfNotExists(trx, 'import_status', statuses);
+
+    await trx.schema.createTable('import_mappings', (table) => {
+      commonColumns.id(table, trx);
+      commonColumns.userReference(table);
+
+      // Institution the layout belongs to, e.g. "First National checking"
+      table.string('name', 100).notNullable();
+      table.string('delimiter', 1).notNullable().defaultTo(',');
+      table.boolean('has_header').notNullable().defaultTo(true);
+      table.integer('skip_rows').notNullable().defaultTo(0);
+      table.string('date_format', 20).notNullable().defaultTo('YYYY-MM-DD');
+      table.string('decimal_separator', 1).notNullable().defaultTo('.');
+
+      // Columns are referenced by header name, or by 1-based position
+      table.string('date_column', 100).notNullable();
+      table.string('description_column', 100).notNullable();
+      table.string('amount_column', 100).nullable();
+      table.string('debit_column', 100).nullable();
+      table.string('credit_column', 100).nullable();
+      table.string('merchant_column', 100).nullable();
+      table.string('reference_column', 100).nullable();
+      // Card exports often list purchases as positive amounts
+      table.boolean('negate_amounts').notNullable().defaultTo(false);
+
+      table.timestamp('created_at', { useTz: true }).defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+      table.timestamp('updated_at', { useTz: true }).defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+    });
+
+    await addConstraints(trx, 'import_mappings', [
+      {
+        name: 'import_mappings_amount_columns',
+        check: 'amount_column IS NOT NULL OR (debit_column IS NOT NULL AND credit_column IS NOT NULL)'
+      },
+      {
+        name: 'import_mappings_valid_skip_rows',
+        check: 'skip_rows >= 0'
+      }
+    ]);
+
+    await createIndexes(trx, 'import_mappings', [
+      { name: 'user_name', columns: 'user_id, LOWER(name)', unique: true }
+    ]);
+
+    await createUpdatedAtTrigger(trx, 'import_mappings');
+
+    await trx.schema.createTable('transaction_imports', (table) => {
+      commonColumns.id(table, trx);
+      commonColumns.userReference(table);
+
+      table.uuid('account_id').notNullable()
+        .references('id').inTable('accounts').onDelete('CASCADE');
+      table.uuid('mapping_id').nullable()
+        .references('id').inTable('import_mappings').onDelete('SET NULL');
+      table.specificType('format', 'import_format').notNullable();
+      table.specificType('status', 'import_status').notNullable().defaultTo('preview');
+      table.string('file_name', 255).notNullable();
+
+      // Parsed statement rows with their duplicate flags
+      table.jsonb('rows').notNullable();
+      table.integer('row_count').notNullable().defaultTo(0);
+      table.integer('duplicate_count').notNullable().defaultTo(0);
+      table.integer('error_count').notNullable().defaultTo(0);
+      table.integer('imported_count').nullable();
+      table.timestamp('committed_at', { useTz: true }).nullable();
+
+      table.timestamp('created_at', { useTz: true }).defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+      table.timestamp('updated_at', { useTz: true }).defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+    });
+
+    await createIndexes(trx, 'transaction_imports', [
+      { name: 'user_created', columns: ['user_id', 'created_at'] },
+      { name: 'account_id', columns: 'account_id' }
+    ]);
+
+    await createUpdatedAtTrigger(trx, 'transaction_imports');
+
+    // Imported transactions keep a link to the statement they came from
+    await trx.schema.alterTable('transactions', (table) => {
+      table.uuid('import_id').nullable()
+        .references('id').inTable('transaction_imports').onDelete('SET NULL');
+    });
+
+    await createIndexes(trx, 'transactions', [
+      { name: 'import_id', columns: 'import_id', partial: 'import_id IS NOT NULL' }
+    ]);
+
+    console.log('✅ Transaction import tables created successfully');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Rolling back transaction import tables...');
+
+    await trx.raw('DROP INDEX IF EXISTS idx_transactions_import_id');
+    await trx.schema.alterTable('transactions', (table) => {
+      table.dropColumn('import_id');
+    });
+
+    await trx.raw('DROP TRIGGER IF EXISTS update_transaction_imports_updated_at ON transaction_imports');
+    await trx.schema.dropTableIfExists('transaction_imports');
+
+    await trx.raw('DROP TRIGGER IF EXISTS update_import_mappings_updated_at ON import_mappings');
+    await trx.schema.dropTableIfExists('import_mappings');
+
+    await trx.raw('DROP TYPE IF EXISTS import_status');
+    await trx.raw('DROP TYPE IF EXISTS import_format');
+
+    console.log('✅ Transaction import rollback completed');
+  });
+}
@@ -0,0 +1,66 @@
+import { Knex } from 'knex';
+import {
+  commonColumns,
+  createEnumIfNotExists,
+  createIndexes,
+  createUpdatedAtTrigger,
+  withTransaction,
+  validateMigration,
+} from '../utils/migrationHelpers';
+
+/**
+ * Full user data exports. A request is queued as pending and built into a
+ * zip archive by a background job; the archive is kept until expires_at.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Creating data_exports table...');
+
+    await validateMigration.requireTables(trx, ['users']);
+    validateMigration.validateTableName('data_exports');
+
+    const statuses = ['pending', 'processing', 'ready', 'failed', 'expired'];
+    validateMigration.validateEnumValues(statuses);
+    await createEnumIfNotExists(trx, 'data_export_status', statuses);
+
+    await trx.schema.createTable('data_exports', (table) => {
+      commonColumns.id(table, trx);
+      commonColumns.userReference(table);
+
+      table.specificType('status', 'data_export_status').notNullable().defaultTo('pending');
+      // Archive location relative to the exports directory
+      table.string('file_name', 255).nullable();
+      table.bigInteger('file_size').nullable();
+      table.text('error').nullable();
+      table.timestamp('started_at', { useTz: true }).nullable();
+      table.timestamp('completed_at', { useTz: true }).nullable();
+      table.timestamp('expires_at', { useTz: true }).nullable();
+
+      table.timestamp('created_at', { useTz: true }).defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+      table.timestamp('updated_at', { useTz: true }).defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+    });
+
+    await createIndexes(trx, 'data_exports', [
+      { name: 'user_created', columns: ['user_id', 'created_at'] },
+      { name: 'pending', columns: 'created_at', partial: "status = 'pending'" },
+      { name: 'ready_expires', columns: 'expires_at', partial: "status = 'ready'" }
+    ]);
+
+    await createUpdatedAtTrigger(trx, 'data_exports');
+
+    console.log('✅ data_exports table created successfully');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Rolling back data_exports table...');
+
+    await trx.raw('DROP TRIGGER IF EXISTS update_data_exports_updated_at ON data_exports');
+    await trx.schema.dropTableIfExists('data_exports');
+
+    await trx.raw('DROP TYPE IF EXISTS data_export_status');
+
+    console.log('✅ data_exports rollback completed');
+  });
+}
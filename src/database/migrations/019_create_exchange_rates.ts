@@ -0,0 +1,252 @@
+import { Knex } from 'knex';
+import {
+  commonColumns,
+  createIndexes,
+  createUpdatedAtTrigger,
+  addConstraints,
+  withTransaction,
+  validateMigration,
+} from '../utils/migrationHelpers';
+
+/**
+ * Daily exchange rates, and conversion in the aggregate functions.
+ * Amounts stay in their own currency on every row; totals are converted
+ * when they are read. get_category_spending used to add up amounts of
+ * every currency as if they were one.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Creating exchange_rates table and conversion functions...');
+
+    await validateMigration.requireTables(trx, ['users', 'accounts', 'transactions']);
+    validateMigration.validateTableName('exchange_rates');
+
+    await trx.schema.createTable('exchange_rates', (table) => {
+      commonColumns.id(table, trx);
+
+      // One unit of base_currency is worth `rate` units of quote_currency
+      table.string('base_currency', 3).notNullable();
+      table.string('quote_currency', 3).notNullable();
+      table.decimal('rate', 20, 10).notNullable();
+      table.date('rate_date').notNullable();
+      // Where the rate came from, e.g. the name of the loaded file
+      table.string('source', 100).nullable();
+
+      table.timestamp('created_at', { useTz: true }).defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+      table.timestamp('updated_at', { useTz: true }).defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+    });
+
+    await addConstraints(trx, 'exchange_rates', [
+      {
+        name: 'exchange_rates_positive_rate',
+        check: 'rate > 0'
+      },
+      {
+        name: 'exchange_rates_distinct_currencies',
+        check: 'base_currency <> quote_currency'
+      },
+      {
+        name: 'exchange_rates_currency_format',
+        check: "base_currency ~ '^[A-Z]{3}$' AND quote_currency ~ '^[A-Z]{3}$'"
+      }
+    ]);
+
+    await createIndexes(trx, 'exchange_rates', [
+      { name: 'pair_date', columns: ['base_currency', 'quote_currency', 'rate_date'], unique: true },
+      { name: 'quote_date', columns: ['quote_currency', 'rate_date'] }
+    ]);
+
+    await createUpdatedAtTrigger(trx, 'exchange_rates');
+
+    // Rate from one currency to another on a date. Uses the pair as stored,
+    // its inverse, or a cross rate through a shared base (e.g. EUR-based
+    // central bank files). The latest rate on or before the date wins;
+    // dates before the first known rate use the earliest one. NULL when
+    // the currencies cannot be related at all.
+    await trx.raw(`
+      CREATE OR REPLACE FUNCTION get_exchange_rate(
+          p_from VARCHAR,
+          p_to VARCHAR,
+          p_date DATE
+      )
+      RETURNS DECIMAL(20,10) AS $$
+          SELECT CASE WHEN p_from = p_to THEN 1::DECIMAL(20,10) ELSE (
+              SELECT r.rate
+              FROM (
+                  SELECT er.rate, er.rate_date, 0 AS hops
+                  FROM exchange_rates er
+                  WHERE er.base_currency = p_from AND er.quote_currency = p_to
+                  UNION ALL
+                  SELECT 1 / er.rate, er.rate_date, 0
+                  FROM exchange_rates er
+                  WHERE er.base_currency = p_to AND er.quote_currency = p_from
+                  UNION ALL
+                  SELECT q.rate / f.rate, f.rate_date, 1
+                  FROM exchange_rates f
+                  JOIN exchange_rates q
+                    ON q.base_currency = f.base_currency
+                   AND q.rate_date = f.rate_date
+                  WHERE f.quote_currency = p_from AND q.quote_currency = p_to
+              ) r
+              ORDER BY r.rate_date > p_date, ABS(r.rate_date - p_date), r.hops
+              LIMIT 1
+          ) END;
+      $$ LANGUAGE sql STABLE;
+    `);
+
+    await trx.raw(`
+      CREATE OR REPLACE FUNCTION convert_amount(
+          p_amount DECIMAL,
+          p_from VARCHAR,
+          p_to VARCHAR,
+          p_date DATE
+      )
+      RETURNS DECIMAL(15,2) AS $$
+          SELECT ROUND(p_amount * get_exchange_rate(p_from, p_to, p_date), 2);
+      $$ LANGUAGE sql STABLE;
+    `);
+
+    // The user's base currency, from their preferences
+    await trx.raw(`
+      CREATE OR REPLACE FUNCTION get_user_base_currency(p_user_id UUID)
+      RETURNS VARCHAR AS $$
+          SELECT COALESCE(
+              (SELECT preferences->>'currency' FROM users WHERE id = p_user_id),
+              'USD'
+          );
+      $$ LANGUAGE sql STABLE;
+    `);
+
+    // Spending in a given currency; transactions without a usable rate are left out
+    await trx.raw(`
+      CREATE OR REPLACE FUNCTION get_category_spending(
+          p_user_id UUID,
+          p_category_id UUID,
+          p_start_date DATE,
+          p_end_date DATE,
+          p_currency VARCHAR
+      )
+      RETURNS DECIMAL(15,2) AS $$
+      DECLARE
+          total_spending DECIMAL(15,2);
+      BEGIN
+          IF p_start_date > p_end_date THEN
+              RAISE EXCEPTION 'Start date cannot be after end date';
+          END IF;
+
+          SELECT COALESCE(SUM(convert_amount(amount, currency, p_currency, transaction_date)), 0)
+          INTO total_spending
+          FROM transactions
+          WHERE user_id = p_user_id
+          AND category_id = p_category_id
+          AND type = 'expense'
+          AND transaction_date BETWEEN p_start_date AND p_end_date;
+
+          RETURN total_spending;
+      END;
+      $$ LANGUAGE plpgsql STABLE;
+    `);
+
+    // The original signature now reports in the user's base currency
+    await trx.raw(`
+      CREATE OR REPLACE FUNCTION get_category_spending(
+          p_user_id UUID,
+          p_category_id UUID,
+          p_start_date DATE,
+          p_end_date DATE
+      )
+      RETURNS DECIMAL(15,2) AS $$
+          SELECT get_category_spending(
+              p_user_id, p_category_id, p_start_date, p_end_date,
+              get_user_base_currency(p_user_id)
+          );
+      $$ LANGUAGE sql STABLE;
+    `);
+
+    // New columns go last so the view can be replaced in place
+    await trx.raw(`
+      CREATE OR REPLACE VIEW account_balances AS
+      SELECT
+          a.id,
+          a.user_id,
+          a.name,
+          a.type,
+          a.currency,
+          a.balance AS stored_balance,
+          get_account_balance_at_date(a.id, CURRENT_DATE) AS calculated_balance,
+          a.include_in_net_worth,
+          a.is_active,
+          a.created_at,
+          a.updated_at,
+          get_user_base_currency(a.user_id) AS base_currency,
+          convert_amount(a.balance, a.currency, get_user_base_currency(a.user_id), CURRENT_DATE) AS base_balance
+      FROM accounts a
+      WHERE a.is_active = true;
+    `);
+
+    console.log('✅ exchange_rates table and conversion functions created successfully');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Rolling back exchange_rates table and conversion functions...');
+
+    await trx.raw('DROP VIEW IF EXISTS account_balances');
+    await trx.raw(`
+      CREATE VIEW account_balances AS
+      SELECT
+          a.id,
+          a.user_id,
+          a.name,
+          a.type,
+          a.currency,
+          a.balance AS stored_balance,
+          get_account_balance_at_date(a.id, CURRENT_DATE) AS calculated_balance,
+          a.include_in_net_worth,
+          a.is_active,
+          a.created_at,
+          a.updated_at
+      FROM accounts a
+      WHERE a.is_active = true;
+    `);
+
+    await trx.raw(`
+      CREATE OR REPLACE FUNCTION get_category_spending(
+          p_user_id UUID,
+          p_category_id UUID,
+          p_start_date DATE,
+          p_end_date DATE
+      )
+      RETURNS DECIMAL(15,2) AS $$
+      DECLARE
+          total_spending DECIMAL(15,2);
+      BEGIN
+          IF p_start_date > p_end_date THEN
+              RAISE EXCEPTION 'Start date cannot be after end date';
+          END IF;
+
+          SELECT COALESCE(SUM(amount), 0)
+          INTO total_spending
+          FROM transactions
+          WHERE user_id = p_user_id
+          AND category_id = p_category_id
+          AND type = 'expense'
+          AND transaction_date BETWEEN p_start_date AND p_end_date;
+
+          RETURN total_spending;
+      END;
+      $$ LANGUAGE plpgsql;
+    `);
+
+    await trx.raw('DROP FUNCTION IF EXISTS get_category_spending(UUID, UUID, DATE, DATE, VARCHAR)');
+    await trx.raw('DROP FUNCTION IF EXISTS get_user_base_currency(UUID)');
+    await trx.raw('DROP FUNCTION IF EXISTS convert_amount(DECIMAL, VARCHAR, VARCHAR, DATE)');
+    await trx.raw('DROP FUNCTION IF EXISTS get_exchange_rate(VARCHAR, VARCHAR, DATE)');
+
+    await trx.raw('DROP TRIGGER IF EXISTS update_exchange_rates_updated_at ON exchange_rates');
+    await trx.schema.dropTableIfExists('exchange_rates');
+
+    console.log('✅ exchange_rates rollback completed');
+  });
+}
@@ -0,0 +1,63 @@
+import { Knex } from 'knex';
+import {
+  commonColumns,
+  createIndexes,
+  addConstraints,
+  withTransaction,
+  validateMigration,
+} from '../utils/migrationHelpers';
+
+/**
+ * Receipt files attached to transactions. Files live under the receipts
+ * upload directory and are only served after checking the owner; rows go
+ * with their transaction.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Creating transaction_receipts table...');
+
+    await validateMigration.requireTables(trx, ['users', 'transactions']);
+    validateMigration.validateTableName('transaction_receipts');
+
+    await trx.schema.createTable('transaction_receipts', (table) => {
+      commonColumns.id(table, trx);
+      commonColumns.userReference(table);
+
+      table.uuid('transaction_id').notNullable()
+        .references('id').inTable('transactions').onDelete('CASCADE');
+
+      // File locations relative to the receipts upload directory
+      table.string('file_name', 255).notNullable();
+      table.string('thumbnail_name', 255).nullable();
+      table.string('original_name', 255).notNullable();
+      table.string('mime_type', 100).notNullable();
+      table.integer('file_size').notNullable();
+
+      table.timestamp('created_at', { useTz: true }).defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+    });
+
+    await addConstraints(trx, 'transaction_receipts', [
+      {
+        name: 'transaction_receipts_positive_size',
+        check: 'file_size > 0'
+      }
+    ]);
+
+    await createIndexes(trx, 'transaction_receipts', [
+      { name: 'transaction_created', columns: ['transaction_id', 'created_at'] },
+      { name: 'user', columns: 'user_id' }
+    ]);
+
+    console.log('✅ transaction_receipts table created successfully');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Rolling back transaction_receipts table...');
+
+    await trx.schema.dropTableIfExists('transaction_receipts');
+
+    console.log('✅ transaction_receipts rollback completed');
+  });
+}
@@ -0,0 +1,49 @@
+import { Knex } from 'knex';
+import {
+  createIndexes,
+  withTransaction,
+  validateMigration,
+} from '../utils/migrationHelpers';
+
+/**
+ * Receipts read by OCR before their transaction exists. Such a draft is a
+ * receipt row without a transaction, holding the extracted fields until
+ * the user confirms the transaction or the draft expires.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Adding receipt drafts to transaction_receipts...');
+
+    await validateMigration.requireTables(trx, ['transaction_receipts']);
+
+    await trx.raw('ALTER TABLE transaction_receipts ALTER COLUMN transaction_id DROP NOT NULL');
+
+    await trx.schema.alterTable('transaction_receipts', (table) => {
+      // Fields read from the receipt, with confidence scores
+      table.jsonb('extraction').nullable();
+    });
+
+    await createIndexes(trx, 'transaction_receipts', [
+      { name: 'drafts', columns: 'created_at', partial: 'transaction_id IS NULL' }
+    ]);
+
+    console.log('✅ Receipt drafts added successfully');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Rolling back receipt drafts...');
+
+    await trx('transaction_receipts').whereNull('transaction_id').del();
+    await trx.raw('DROP INDEX IF EXISTS idx_transaction_receipts_drafts');
+
+    await trx.schema.alterTable('transaction_receipts', (table) => {
+      table.dropColumn('extraction');
+    });
+
+    await trx.raw('ALTER TABLE transaction_receipts ALTER COLUMN transaction_id SET NOT NULL');
+
+    console.log('✅ Receipt drafts rollback completed');
+  });
+}
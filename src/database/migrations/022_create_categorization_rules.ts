@@ -0,0 +1,136 @@
+import { Knex } from 'knex';
+import {
+  commonColumns,
+  createIndexes,
+  createUpdatedAtTrigger,
+  addConstraints,
+  withTransaction,
+  validateMigration,
+  financialTypes,
+} from '../utils/migrationHelpers';
+
+/**
+ * Rules that pick the category of income and expense transactions from
+ * their merchant, description, amount and account. The first active rule
+ * by priority (lowest first) whose conditions all hold wins.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Creating categorization_rules table...');
+
+    await validateMigration.requireTables(trx, ['users', 'accounts', 'categories', 'transactions']);
+    validateMigration.validateTableName('categorization_rules');
+
+    await trx.schema.createTable('categorization_rules', (table) => {
+      commonColumns.id(table, trx);
+      commonColumns.userReference(table);
+
+      table.uuid('category_id').notNullable()
+        .references('id').inTable('categories').onDelete('CASCADE');
+
+      // Conditions; a null condition matches anything
+      table.string('merchant_name', 255).nullable();
+      // Case-insensitive POSIX regular expression on the description
+      table.string('description_pattern', 255).nullable();
+      financialTypes.money(table, 'min_amount', true);
+      financialTypes.money(table, 'max_amount', true);
+      table.uuid('account_id').nullable()
+        .references('id').inTable('accounts').onDelete('CASCADE');
+
+      table.integer('priority').notNullable().defaultTo(0);
+      table.boolean('is_active').notNullable().defaultTo(true);
+
+      table.timestamp('created_at', { useTz: true }).defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+      table.timestamp('updated_at', { useTz: true }).defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+    });
+
+    await addConstraints(trx, 'categorization_rules', [
+      {
+        name: 'categorization_rules_has_condition',
+        check: `merchant_name IS NOT NULL OR description_pattern IS NOT NULL
+          OR min_amount IS NOT NULL OR max_amount IS NOT NULL OR account_id IS NOT NULL`
+      },
+      {
+        name: 'categorization_rules_valid_amounts',
+        check: `(min_amount IS NULL OR min_amount >= 0)
+          AND (max_amount IS NULL OR max_amount >= 0)
+          AND (min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount)`
+      },
+      {
+        name: 'categorization_rules_valid_priority',
+        check: 'priority >= 0'
+      }
+    ]);
+
+    await createIndexes(trx, 'categorization_rules', [
+      { name: 'user_priority', columns: ['user_id', 'priority'], partial: 'is_active = true' },
+      { name: 'user_merchant', columns: ['user_id', 'lower(merchant_name)'], partial: 'merchant_name IS NOT NULL' }
+    ]);
+
+    await createUpdatedAtTrigger(trx, 'categorization_rules');
+
+    // Transactions are looked up by merchant for rule suggestions
+    await createIndexes(trx, 'transactions', [
+      { name: 'user_merchant', columns: ['user_id', 'lower(merchant_name)'], partial: 'merchant_name IS NOT NULL' }
+    ]);
+
+    // Whether all of a rule's conditions hold for a transaction
+    await trx.raw(`
+      CREATE OR REPLACE FUNCTION categorization_rule_matches(
+          r categorization_rules,
+          p_account_id UUID,
+          p_merchant_name TEXT,
+          p_description TEXT,
+          p_amount DECIMAL
+      )
+      RETURNS BOOLEAN AS $$
+          SELECT COALESCE(
+              (r.merchant_name IS NULL OR LOWER(r.merchant_name) = LOWER(p_merchant_name))
+              AND (r.description_pattern IS NULL OR p_description ~* r.description_pattern)
+              AND (r.min_amount IS NULL OR p_amount >= r.min_amount)
+              AND (r.max_amount IS NULL OR p_amount <= r.max_amount)
+              AND (r.account_id IS NULL OR r.account_id = p_account_id),
+              false
+          );
+      $$ LANGUAGE sql STABLE;
+    `);
+
+    // The user's first active rule, by priority, that matches a transaction
+    await trx.raw(`
+      CREATE OR REPLACE FUNCTION match_categorization_rule(
+          p_user_id UUID,
+          p_account_id UUID,
+          p_merchant_name TEXT,
+          p_description TEXT,
+          p_amount DECIMAL
+      )
+      RETURNS UUID AS $$
+          SELECT r.id
+          FROM categorization_rules r
+          WHERE r.user_id = p_user_id
+            AND r.is_active = true
+            AND categorization_rule_matches(r, p_account_id, p_merchant_name, p_description, p_amount)
+          ORDER BY r.priority, r.created_at
+          LIMIT 1;
+      $$ LANGUAGE sql STABLE;
+    `);
+
+    console.log('✅ categorization_rules table created successfully');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Rolling back categorization_rules table...');
+
+    await trx.raw('DROP FUNCTION IF EXISTS match_categorization_rule(UUID, UUID, TEXT, TEXT, DECIMAL)');
+    await trx.raw('DROP FUNCTION IF EXISTS categorization_rule_matches(categorization_rules, UUID, TEXT, TEXT, DECIMAL)');
+
+    await trx.raw('DROP INDEX IF EXISTS idx_transactions_user_merchant');
+
+    await trx.raw('DROP TRIGGER IF EXISTS update_categorization_rules_updated_at ON categorization_rules');
+    await trx.schema.dropTableIfExists('categorization_rules');
+
+    console.log('✅ categorization_rules rollback completed');
+  });
+}
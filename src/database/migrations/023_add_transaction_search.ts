@@ -0,0 +1,55 @@
+import { Knex } from 'knex';
+import {
+  withTransaction,
+  validateMigration,
+} from '../utils/migrationHelpers';
+
+/**
+ * Full-text search over transactions. The searchable text is built by a
+ * function so that queries and the GIN index use the same expression;
+ * merchant and description weigh most, then tags, then notes. The 'simple'
+ * configuration neither stems nor drops stop words, so it works the same
+ * for every language users write in.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Adding transaction full-text search...');
+
+    await validateMigration.requireTables(trx, ['transactions']);
+
+    // array_to_string is only STABLE in general but immutable for text[],
+    // which an index expression needs
+    await trx.raw(`
+      CREATE OR REPLACE FUNCTION transaction_search_document(
+          p_description TEXT,
+          p_notes TEXT,
+          p_merchant_name TEXT,
+          p_tags TEXT[]
+      )
+      RETURNS tsvector AS $$
+          SELECT setweight(to_tsvector('simple'::regconfig, COALESCE(p_merchant_name, '')), 'A')
+              || setweight(to_tsvector('simple'::regconfig, COALESCE(p_description, '')), 'A')
+              || setweight(to_tsvector('simple'::regconfig, COALESCE(array_to_string(p_tags, ' '), '')), 'B')
+              || setweight(to_tsvector('simple'::regconfig, COALESCE(p_notes, '')), 'C');
+      $$ LANGUAGE sql IMMUTABLE;
+    `);
+
+    await trx.raw(`
+      CREATE INDEX IF NOT EXISTS idx_transactions_search ON transactions
+      USING GIN (transaction_search_document(description, notes, merchant_name, tags))
+    `);
+
+    console.log('✅ Transaction full-text search added successfully');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Rolling back transaction full-text search...');
+
+    await trx.raw('DROP INDEX IF EXISTS idx_transactions_search');
+    await trx.raw('DROP FUNCTION IF EXISTS transaction_search_document(TEXT, TEXT, TEXT, TEXT[])');
+
+    console.log('✅ Transaction full-text search rollback completed');
+  });
+}
@@ -0,0 +1,52 @@
+import { Knex } from 'knex';
+import {
+  commonColumns,
+  createIndexes,
+  withTransaction,
+  validateMigration,
+} from '../utils/migrationHelpers';
+
+/**
+ * One row per signed-in device. Access and refresh tokens carry the
+ * session id (sid), so a session can be listed and revoked on its own
+ * without signing the user out everywhere.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Creating user_sessions table...');
+
+    await validateMigration.requireTables(trx, ['users']);
+    validateMigration.validateTableName('user_sessions');
+
+    await trx.schema.createTable('user_sessions', (table) => {
+      commonColumns.id(table, trx);
+      commonColumns.userReference(table);
+
+      table.string('device_name', 100).notNullable();
+      table.string('user_agent', 500).nullable();
+      table.string('ip_address', 45).nullable(); // Support both IPv4 and IPv6
+
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+      table.timestamp('last_seen_at', { useTz: true }).notNullable().defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+      // When the session's refresh token runs out
+      table.timestamp('expires_at', { useTz: true }).notNullable();
+      table.timestamp('revoked_at', { useTz: true }).nullable();
+    });
+
+    await createIndexes(trx, 'user_sessions', [
+      { name: 'user_active', columns: ['user_id', 'last_seen_at'], partial: 'revoked_at IS NULL' }
+    ]);
+
+    console.log('✅ user_sessions table created successfully');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Rolling back user_sessions table...');
+
+    await trx.schema.dropTableIfExists('user_sessions');
+
+    console.log('✅ user_sessions rollback completed');
+  });
+}
@@ -0,0 +1,70 @@
+import { Knex } from 'knex';
+import {
+  commonColumns,
+  createIndexes,
+  withTransaction,
+  validateMigration,
+} from '../utils/migrationHelpers';
+
+/**
+ * Opt-in TOTP two-factor authentication. The secret is stored encrypted and
+ * only counts once totp_enabled_at is set; recovery codes are stored as
+ * SHA-256 hashes and can each be used once. A session remembers when its
+ * second factor was last checked, which unlocks sensitive actions for a while.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Adding two-factor authentication...');
+
+    await validateMigration.requireTables(trx, ['users', 'user_sessions']);
+    validateMigration.validateTableName('user_recovery_codes');
+
+    await trx.schema.alterTable('users', (table) => {
+      table.text('totp_secret').nullable();
+      table.timestamp('totp_enabled_at', { useTz: true }).nullable();
+      // Time step of the last accepted code, so a code cannot be replayed
+      table.bigInteger('totp_last_used_step').nullable();
+    });
+
+    await trx.schema.alterTable('user_sessions', (table) => {
+      table.timestamp('two_factor_verified_at', { useTz: true }).nullable();
+    });
+
+    await trx.schema.createTable('user_recovery_codes', (table) => {
+      commonColumns.id(table, trx);
+      commonColumns.userReference(table);
+
+      table.string('code_hash', 64).notNullable();
+      table.timestamp('used_at', { useTz: true }).nullable();
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+
+      table.unique(['user_id', 'code_hash']);
+    });
+
+    await createIndexes(trx, 'user_recovery_codes', [
+      { name: 'user_unused', columns: 'user_id', partial: 'used_at IS NULL' }
+    ]);
+
+    console.log('✅ Two-factor authentication added successfully');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Rolling back two-factor authentication...');
+
+    await trx.schema.dropTableIfExists('user_recovery_codes');
+
+    await trx.schema.alterTable('user_sessions', (table) => {
+      table.dropColumn('two_factor_verified_at');
+    });
+
+    await trx.schema.alterTable('users', (table) => {
+      table.dropColumn('totp_secret');
+      table.dropColumn('totp_enabled_at');
+      table.dropColumn('totp_last_used_step');
+    });
+
+    console.log('✅ Two-factor authentication rollback completed');
+  });
+}
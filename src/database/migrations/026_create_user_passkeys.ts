@@ -0,0 +1,55 @@
+import { Knex } from 'knex';
+import {
+  commonColumns,
+  createIndexes,
+  withTransaction,
+  validateMigration,
+} from '../utils/migrationHelpers';
+
+/**
+ * Passkeys (WebAuthn credentials). A user can register several, each with a
+ * name, and sign in with one instead of a password or use one as a second
+ * factor. Only the public key is stored; the signature counter helps spot
+ * cloned authenticators.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Creating user_passkeys table...');
+
+    await validateMigration.requireTables(trx, ['users']);
+    validateMigration.validateTableName('user_passkeys');
+
+    await trx.schema.createTable('user_passkeys', (table) => {
+      commonColumns.id(table, trx);
+      commonColumns.userReference(table);
+
+      table.string('name', 100).notNullable();
+      // Credential ID chosen by the authenticator, base64url encoded
+      table.text('credential_id').notNullable().unique();
+      // SubjectPublicKeyInfo (DER), base64url encoded, and its COSE algorithm
+      table.text('public_key').notNullable();
+      table.integer('algorithm').notNullable();
+      table.bigInteger('sign_count').notNullable().defaultTo(0);
+      table.specificType('transports', 'text[]').nullable();
+
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+      table.timestamp('last_used_at', { useTz: true }).nullable();
+    });
+
+    await createIndexes(trx, 'user_passkeys', [
+      { name: 'user', columns: 'user_id' }
+    ]);
+
+    console.log('✅ user_passkeys table created successfully');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Rolling back user_passkeys table...');
+
+    await trx.schema.dropTableIfExists('user_passkeys');
+
+    console.log('✅ user_passkeys rollback completed');
+  });
+}
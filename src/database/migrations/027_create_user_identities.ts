@@ -0,0 +1,68 @@
+import { Knex } from 'knex';
+import {
+  commonColumns,
+  createIndexes,
+  withTransaction,
+  validateMigration,
+} from '../utils/migrationHelpers';
+
+// Stands in for the password of accounts created through a provider when rolling back
+const NO_PASSWORD_HASH = '$2b$12$externalIdentityNoPassword';
+
+/**
+ * Accounts at OpenID Connect providers linked to users. A user can link one
+ * account per provider and sign in with it; an account at a provider (its
+ * subject) belongs to at most one user. Users who signed up through a
+ * provider have no password until they set one.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Creating user_identities table...');
+
+    await validateMigration.requireTables(trx, ['users']);
+    validateMigration.validateTableName('user_identities');
+
+    await trx.schema.alterTable('users', (table) => {
+      table.string('password_hash', 255).nullable().alter();
+    });
+
+    await trx.schema.createTable('user_identities', (table) => {
+      commonColumns.id(table, trx);
+      commonColumns.userReference(table);
+
+      // Provider ID from OIDC_PROVIDERS and the account's subject (sub) there
+      table.string('provider', 50).notNullable();
+      table.string('subject', 255).notNullable();
+      // Email the provider reported when the account was linked
+      table.string('email', 255).nullable();
+
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(trx.raw('CURRENT_TIMESTAMP'));
+      table.timestamp('last_used_at', { useTz: true }).nullable();
+
+      table.unique(['provider', 'subject']);
+      table.unique(['user_id', 'provider']);
+    });
+
+    await createIndexes(trx, 'user_identities', [
+      { name: 'user', columns: 'user_id' }
+    ]);
+
+    console.log('✅ user_identities table created successfully');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return withTransaction(knex, async (trx) => {
+    console.log('📊 Rolling back user_identities table...');
+
+    await trx.schema.dropTableIfExists('user_identities');
+
+    // Users without a password can no longer sign in at all
+    await trx('users').whereNull('password_hash').update({ password_hash: NO_PASSWORD_HASH });
+    await trx.schema.alterTable('users', (table) => {
+      table.string('password_hash', 255).notNullable().alter();
+    });
+
+    console.log('✅ user_identities rollback completed');
+  });
+}
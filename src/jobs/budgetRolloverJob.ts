@@ -0,0 +1,10 @@
+import { IntervalJob } from './intervalJob';
+import { BudgetRolloverService } from '../services/budgetRolloverService';
+
+/**
+ * Closes expired budgets and opens their next period
+ */
+export const budgetRolloverJob = new IntervalJob(
+  'budget-rollover',
+  () => BudgetRolloverService.rollOverExpiredBudgets()
+);
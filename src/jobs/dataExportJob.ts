@@ -0,0 +1,10 @@
+import { IntervalJob } from './intervalJob';
+import { DataExportService } from '../services/dataExportService';
+
+/**
+ * Builds queued data exports and removes expired archives
+ */
+export const dataExportJob = new IntervalJob(
+  'data-exports',
+  () => DataExportService.processPendingExports()
+);
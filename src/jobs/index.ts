@@ -0,0 +1,25 @@
+import { config } from '../config/env';
+import { budgetRolloverJob } from './budgetRolloverJob';
+import { recurringTransactionJob } from './recurringTransactionJob';
+import { dataExportJob } from './dataExportJob';
+import { receiptDraftJob } from './receiptDraftJob';
+
+/**
+ * Start the background jobs on their configured intervals
+ */
+export const startJobs = (): void => {
+  budgetRolloverJob.start(config.BUDGET_ROLLOVER_INTERVAL_MS);
+  recurringTransactionJob.start(config.RECURRING_TRANSACTIONS_INTERVAL_MS);
+  dataExportJob.start(config.DATA_EXPORTS_INTERVAL_MS);
+  receiptDraftJob.start(config.RECEIPT_DRAFTS_INTERVAL_MS);
+};
+
+/**
+ * Stop the background jobs (graceful shutdown)
+ */
+export const stopJobs = (): void => {
+  budgetRolloverJob.stop();
+  recurringTransactionJob.stop();
+  dataExportJob.stop();
+  receiptDraftJob.stop();
+};
@@ -0,0 +1,49 @@
+import { logger } from '../middleware/logging';
+
+/**
+ * Runs a task once on start, then on a fixed interval. A run still in
+ * progress makes the next tick a no-op, so slow runs never overlap.
+ */
+export class IntervalJob {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly task: () => Promise<unknown>
+  ) {}
+
+  start(intervalMs: number): void {
+    if (this.timer) return;
+
+    void this.run();
+    this.timer = setInterval(() => void this.run(), intervalMs);
+
+    logger.info('Background job started', { job: this.name, intervalMs });
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+
+    logger.info('Background job stopped', { job: this.name });
+  }
+
+  async run(): Promise<void> {
+    if (this.running) return;
+
+    this.running = true;
+    try {
+      await this.task();
+    } catch (error) {
+      logger.error('Background job failed', {
+        job: this.name,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+}
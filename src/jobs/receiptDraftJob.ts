@@ -0,0 +1,10 @@
+import { IntervalJob } from './intervalJob';
+import { ReceiptService } from '../services/receiptService';
+
+/**
+ * Removes receipt drafts that were never turned into a transaction
+ */
+export const receiptDraftJob = new IntervalJob(
+  'receipt-drafts',
+  () => ReceiptService.deleteExpiredDrafts()
+);
@@ -0,0 +1,10 @@
+import { IntervalJob } from './intervalJob';
+import { RecurringRuleService } from '../services/recurringRuleService';
+
+/**
+ * Creates the transactions of recurring rules as their occurrences fall due
+ */
+export const recurringTransactionJob = new IntervalJob(
+  'recurring-transactions',
+  () => RecurringRuleService.materializeDueOccurrences()
+);
@@ -13,6 +13,12 @@ export enum AuditEventType {
   LOGIN_FAILED = 'auth.login_failed',
   PASSWORD_CHANGE = 'auth.password_change',
   PASSWORD_RESET = 'auth.password_reset',
+  TWO_FACTOR_ENABLED = 'auth.two_factor_enabled',
+  TWO_FACTOR_DISABLED = 'auth.two_factor_disabled',
+  PASSKEY_ADDED = 'auth.passkey_added',
+  PASSKEY_REMOVED = 'auth.passkey_removed',
+  IDENTITY_LINKED = 'auth.identity_linked',
+  IDENTITY_UNLINKED = 'auth.identity_unlinked',
   
   // User events
   USER_CREATED = 'user.created',
@@ -303,6 +309,7 @@ const getSeverityForEventType = (eventType: AuditEventType): AuditSeverity => {
     AuditEventType.LOGIN_FAILED,
     AuditEventType.PASSWORD_CHANGE,
     AuditEventType.PASSWORD_RESET,
+    AuditEventType.TWO_FACTOR_DISABLED,
     AuditEventType.TRANSACTION_DELETED,
     AuditEventType.ACCOUNT_DELETED,
     AuditEventType.USER_DELETED,
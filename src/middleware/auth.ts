@@ -6,6 +6,8 @@ import { CustomRequest } from '../types/express';
 import { db } from '../config/database';
 import { JwtService } from '../services/jwtService';
 import { UserService } from '../services/userService';
+import { SessionService } from '../services/sessionService';
+import { TwoFactorService } from '../services/twoFactorService';
 import { logger } from './logging';
 
 // JWT payload interface
@@ -28,6 +30,8 @@ export interface AuthenticatedRequest extends CustomRequest {
     updatedAt: Date;
   };
   token: string;
+  // Session (device) the access token was issued to
+  sessionId: string;
 }
 
 // JWT token verification utility
@@ -132,6 +136,9 @@ export const authenticate = async (
       throw new AppError('User account is inactive or suspended', 401);
     }
     
+    // Reject tokens of sessions signed out from another device
+    await SessionService.touchSession(user.id, decoded.sid, req.ip);
+    
     // Attach user and token to request
     const authenticatedReq = req as AuthenticatedRequest;
     authenticatedReq.user = {
@@ -144,12 +151,14 @@ export const authenticate = async (
       updatedAt: user.updated_at,
     };
     authenticatedReq.token = token;
+    authenticatedReq.sessionId = decoded.sid;
     authenticatedReq.userId = user.id; // For backward compatibility
     
     // Add user context for controllers
     (req as any).user = {
       userId: user.id,
-      email: user.email
+      email: user.email,
+      sessionId: decoded.sid
     };
     
     logger.debug('User authenticated successfully', { userId: user.id, email: user.email });
@@ -287,6 +296,30 @@ export const requireVerification = (req: Request, res: Response, next: NextFunct
   next();
 };
 
+// Step-up middleware for sensitive actions: users with two-factor authentication
+// must have entered a second factor on this session recently (POST /auth/2fa/verify)
+export const requireTwoFactorStepUp = async (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, sessionId } = (req as any).user || {};
+    
+    if (!userId || !sessionId) {
+      throw new AppError('Authentication required', 401);
+    }
+    
+    if (await TwoFactorService.requiresStepUp(userId, sessionId)) {
+      throw new AppError('Two-factor verification required', 403);
+    }
+    
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
 // Token refresh middleware
 export const refreshTokenMiddleware = async (
   req: Request,
@@ -300,12 +333,17 @@ export const refreshTokenMiddleware = async (
       throw new AppError('Refresh token is required', 401);
     }
     
-    // Use our JWT service for refresh token verification and new token generation
-    const { accessToken, accessTokenExpiry } = await JwtService.refreshAccessToken(refreshToken);
+    // Rotate the refresh token; a token that was already used revokes its session
+    const tokens = await SessionService.refreshSession(refreshToken, {
+      userAgent: req.get('User-Agent') ?? null,
+      ipAddress: req.ip ?? null
+    });
     
-    // Attach new access token to request for controller to use
-    req.body.newAccessToken = accessToken;
-    req.body.accessTokenExpiry = accessTokenExpiry;
+    // Attach the new token pair to request for controller to use
+    req.body.newAccessToken = tokens.accessToken;
+    req.body.accessTokenExpiry = tokens.accessTokenExpiry;
+    req.body.newRefreshToken = tokens.refreshToken;
+    req.body.refreshTokenExpiry = tokens.refreshTokenExpiry;
     
     logger.info('Token refreshed successfully');
     next();
@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { body, validationResult, query } from 'express-validator';
+import { body, validationResult, query, param } from 'express-validator';
 import { logger } from './logging';
 
 /**
@@ -105,6 +105,12 @@ export const validateLogin = [
     .isLength({ max: 128 })
     .withMessage('Password is too long'),
   
+  body('deviceName')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Device name must be between 1 and 100 characters'),
+  
   handleValidationErrors
 ];
 
@@ -254,6 +260,239 @@ export const validateRefreshToken = [
   }
 ];
 
+/**
+ * Session id validation
+ */
+export const validateSessionId = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid session id'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Authenticator app code validation
+ */
+export const validateTwoFactorCode = [
+  body('code')
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('Code must be 6 digits'),
+  
+  handleValidationErrors
+];
+
+// A WebAuthn credential as sent by PublicKeyCredential.toJSON(), binary fields base64url encoded
+const BASE64URL = /^[A-Za-z0-9_-]+$/;
+
+const credentialRules = (field: string, responseFields: string[], optional = false) => {
+  const exists = (path: string) => optional ? body(path).if(body(field).exists()) : body(path);
+
+  return [
+    ...(optional ? [] : [
+      body(field)
+        .isObject()
+        .withMessage('Passkey credential is required')
+    ]),
+    
+    ...['id', 'rawId', ...responseFields.map(name => `response.${name}`)].map(path =>
+      exists(`${field}.${path}`)
+        .isString()
+        .isLength({ min: 1, max: 16384 })
+        .matches(BASE64URL)
+        .withMessage(`Invalid passkey credential (${path})`)
+    ),
+    
+    exists(`${field}.type`)
+      .equals('public-key')
+      .withMessage('Invalid passkey credential (type)')
+  ];
+};
+
+const ASSERTION_FIELDS = ['clientDataJSON', 'authenticatorData', 'signature'];
+
+// A code from the authenticator app, a recovery code or a passkey: exactly one
+const secondFactorRules = [
+  body('code')
+    .optional()
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('Code must be 6 digits'),
+  
+  body('recoveryCode')
+    .optional()
+    .trim()
+    .isLength({ min: 10, max: 20 })
+    .withMessage('Invalid recovery code format'),
+  
+  ...credentialRules('passkey', ASSERTION_FIELDS, true),
+  
+  body('code')
+    .custom((code: string | undefined, { req }) => {
+      const given = [code, req.body.recoveryCode, req.body.passkey].filter(Boolean);
+      if (given.length !== 1) {
+        throw new Error('Provide one of a code, a recovery code or a passkey');
+      }
+      return true;
+    })
+];
+
+/**
+ * Second factor validation (step-up verification)
+ */
+export const validateSecondFactor = [
+  ...secondFactorRules,
+  
+  handleValidationErrors
+];
+
+/**
+ * Second step of signing in with two-factor authentication
+ */
+export const validateTwoFactorLogin = [
+  body('challengeToken')
+    .isJWT()
+    .withMessage('Invalid challenge token'),
+  
+  ...secondFactorRules,
+  
+  handleValidationErrors
+];
+
+/**
+ * Passkey login options: passwordless, or for the second step of a challenged login
+ */
+export const validatePasskeyLoginOptions = [
+  body('challengeToken')
+    .optional()
+    .isJWT()
+    .withMessage('Invalid challenge token'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Signing in with a passkey
+ */
+export const validatePasskeyLogin = [
+  ...credentialRules('credential', ASSERTION_FIELDS),
+  
+  body('credential.response.userHandle')
+    .optional({ values: 'null' })
+    .isString()
+    .matches(BASE64URL)
+    .withMessage('Invalid passkey credential (response.userHandle)'),
+  
+  body('deviceName')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Device name must be between 1 and 100 characters'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Adding a passkey
+ */
+export const validatePasskeyRegistration = [
+  ...credentialRules('credential', ['clientDataJSON', 'attestationObject']),
+  
+  body('credential.response.transports')
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage('Invalid passkey credential (response.transports)'),
+  
+  body('credential.response.transports.*')
+    .isString()
+    .isLength({ max: 32 })
+    .withMessage('Invalid passkey credential (response.transports)'),
+  
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Passkey name must be between 1 and 100 characters'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Passkey ID parameter
+ */
+export const validatePasskeyId = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid passkey ID'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Renaming a passkey
+ */
+export const validatePasskeyRename = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid passkey ID'),
+  
+  body('name')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Passkey name must be between 1 and 100 characters'),
+  
+  handleValidationErrors
+];
+
+/**
+ * A sign-in provider in the URL
+ */
+export const validateOidcProvider = [
+  param('provider')
+    .matches(/^[a-z0-9_-]{1,50}$/)
+    .withMessage('Invalid sign-in provider'),
+  
+  handleValidationErrors
+];
+
+// The state and authorization code a provider sent back to the frontend
+const oidcCallbackRules = [
+  body('state')
+    .isString()
+    .isLength({ min: 1, max: 128 })
+    .withMessage('Invalid sign-in state'),
+  
+  body('code')
+    .isString()
+    .isLength({ min: 1, max: 2048 })
+    .withMessage('Invalid authorization code')
+];
+
+/**
+ * Signing in with a provider
+ */
+export const validateOidcLogin = [
+  ...oidcCallbackRules,
+  
+  body('deviceName')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Device name must be between 1 and 100 characters'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Linking a provider account
+ */
+export const validateIdentityLink = [
+  ...oidcCallbackRules,
+  
+  handleValidationErrors
+];
+
 /**
  * Sanitize user input to prevent XSS and other attacks
  */
@@ -99,9 +99,25 @@ const parsePostgresError = (error: DatabaseError) => {
     } else if (constraint.includes('username')) {
       userMessage = 'This username is already taken';
       field = 'username';
+    } else if (constraint === 'idx_accounts_user_name_unique') {
+      userMessage = 'An active account with this name already exists';
+      field = 'name';
+    } else if (constraint === 'idx_categories_user_name_unique') {
+      userMessage = 'An active category with this name already exists';
+      field = 'name';
     }
   }
 
+  if (code === PG_ERROR_CODES.CHECK_VIOLATION && constraint === 'accounts_positive_balance') {
+    userMessage = 'Insufficient funds: this change would overdraw the account';
+    field = 'amount';
+  }
+
+  if (code === PG_ERROR_CODES.CHECK_VIOLATION && constraint === 'categories_no_cycle') {
+    userMessage = 'A category cannot be moved under one of its own subcategories';
+    field = 'parentId';
+  }
+
   if (code === PG_ERROR_CODES.NOT_NULL_VIOLATION && column) {
     userMessage = `${column} is required`;
     field = column;
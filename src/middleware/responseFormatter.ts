@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { ApiResponse } from '@/types/express';
+import { toCsv } from '../utils/csv';
 
 // Standard API response interface with pagination
 interface PaginatedApiResponse<T = any> extends ApiResponse<T> {
@@ -403,26 +404,12 @@ const jsonToXml = (obj: any, rootElement: string = 'response'): string => {
   return `<?xml version="1.0" encoding="UTF-8"?>\n<${rootElement}>\n${objectToXml(obj, '  ')}\n</${rootElement}>`;
 };
 
-// Helper function to convert array to CSV
+// Helper function to convert array to CSV. Columns come from the first
+// row; nested values are written as JSON.
 const arrayToCsv = (data: any[]): string => {
   if (!data.length) return '';
 
-  const headers = Object.keys(data[0]);
-  const csvRows = [headers.join(',')];
-
-  for (const row of data) {
-    const values = headers.map(header => {
-      const value = row[header];
-      // Escape quotes and wrap in quotes if contains comma
-      if (typeof value === 'string' && (value.includes(',') || value.includes('"') || value.includes('\n'))) {
-        return `"${value.replace(/"/g, '""')}"`;
-      }
-      return String(value || '');
-    });
-    csvRows.push(values.join(','));
-  }
-
-  return csvRows.join('\n');
+  return toCsv(data);
 };
 
 // Middleware to add HATEOAS links to responses
@@ -160,6 +160,15 @@ export const transactionRateLimit = createRateLimit(
   true
 );
 
+// Rate limit for full data exports (each one builds an archive of everything)
+export const exportRateLimit = createRateLimit(
+  60 * 60 * 1000, // 1 hour
+  5, // 5 export requests per hour
+  'Too many data export requests, please try again later',
+  false,
+  true
+);
+
 // Rate limit for reports and analytics (less restrictive but with slow-down)
 export const analyticsRateLimit = createRateLimit(
   60 * 1000, // 1 minute
@@ -177,6 +186,11 @@ export const createSlowDown = (windowMs: number, delayAfter: number, maxDelayMs:
     delayMs: () => 500, // Start with 500ms delay
     maxDelayMs,
     store: getRateLimitStore(),
+    keyGenerator: (req: Request) => {
+      // Slow down each user separately; fall back to IP before authentication
+      const userId = (req as any).user?.userId;
+      return userId ? `slow:user:${userId}` : `slow:${req.ip || 'unknown'}`;
+    },
     validate: {
       delayMs: false, // Disable the warning
     },
@@ -186,8 +200,12 @@ export const createSlowDown = (windowMs: number, delayAfter: number, maxDelayMs:
 // Slow down for analytics and reporting endpoints - placeholder for now
 export const analyticsSlowDown = (req: any, res: any, next: any) => next();
 
-// Slow down for search endpoints - placeholder for now
-export const searchSlowDown = (req: any, res: any, next: any) => next();
+// Slow down for search endpoints (full-text queries are the most expensive reads)
+export const searchSlowDown = createSlowDown(
+  60 * 1000, // 1 minute
+  30, // 30 searches per minute at full speed
+  5000 // then delayed, by at most 5 seconds
+);
 
 // Dynamic rate limiting based on user tier (for future premium features)
 export const createTieredRateLimit = (
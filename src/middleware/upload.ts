@@ -13,6 +13,8 @@ interface UploadConfig {
   allowedMimeTypes: string[];
   maxFiles: number;
   preserveFileName: boolean;
+  // Overrides the extensions derived from the MIME types
+  allowedExtensions?: string[];
 }
 
 // Default configurations for different upload types
@@ -57,6 +59,23 @@ const UPLOAD_CONFIGS: Record<string, UploadConfig> = {
     maxFiles: 3,
     preserveFileName: true,
   },
+  statements: {
+    destination: path.join(process.cwd(), 'uploads', 'statements'),
+    maxFileSize: 5 * 1024 * 1024, // 5MB
+    // Browsers report CSV and OFX files under several MIME types
+    allowedMimeTypes: [
+      'text/csv',
+      'text/plain',
+      'application/csv',
+      'application/vnd.ms-excel',
+      'application/x-ofx',
+      'application/vnd.intu.qfx',
+      'application/octet-stream',
+    ],
+    maxFiles: 1,
+    preserveFileName: false,
+    allowedExtensions: ['.csv', '.ofx', '.qfx'],
+  },
 };
 
 // Ensure upload directories exist
@@ -129,7 +148,7 @@ const createFileFilter = (uploadType: string) => {
     
     // Check file extension as additional security
     const ext = path.extname(file.originalname).toLowerCase();
-    const allowedExtensions = config.allowedMimeTypes.map(mime => {
+    const allowedExtensions = config.allowedExtensions || config.allowedMimeTypes.map(mime => {
       switch (mime) {
         case 'image/jpeg':
         case 'image/jpg':
@@ -187,6 +206,9 @@ export const uploadProfilePicture = createMulterInstance('profilePictures').sing
 export const uploadDocument = createMulterInstance('documents').single('document');
 export const uploadMultipleDocuments = createMulterInstance('documents').array('documents', 3);
 
+// Bank statement upload middleware
+export const uploadStatement = createMulterInstance('statements').single('statement');
+
 // Generic upload middleware factory
 export const createUploadMiddleware = (
   uploadType: string,
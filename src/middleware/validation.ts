@@ -102,7 +102,7 @@ export const commonSchemas = {
   transactionType: Joi.string().valid('income', 'expense').required(),
   
   // Budget period
-  budgetPeriod: Joi.string().valid('weekly', 'monthly', 'yearly').required(),
+  budgetPeriod: Joi.string().valid('weekly', 'monthly', 'quarterly', 'yearly').required(),
   
   // Common string fields
   name: Joi.string().min(1).max(100).required(),
@@ -182,12 +182,17 @@ export const transactionValidation = {
     body: Joi.object({
       amount: commonSchemas.positiveCurrency,
       description: Joi.string().min(1).max(255).required(),
-      categoryId: commonSchemas.uuid,
+      // Chosen by the categorization rules when omitted
+      categoryId: commonSchemas.optionalUuid,
       accountId: commonSchemas.uuid,
       type: commonSchemas.transactionType,
       date: commonSchemas.date,
       tags: Joi.array().items(Joi.string().max(30)).max(10).optional(),
       receiptUrl: Joi.string().uri().optional(),
+      notes: Joi.string().max(1000).optional(),
+      merchantName: Joi.string().max(255).optional(),
+      referenceNumber: Joi.string().max(100).optional(),
+      receiptId: commonSchemas.optionalUuid,
     }),
   },
   
@@ -199,10 +204,14 @@ export const transactionValidation = {
       amount: commonSchemas.positiveCurrency.optional(),
       description: Joi.string().min(1).max(255).optional(),
       categoryId: commonSchemas.optionalUuid,
+      accountId: commonSchemas.optionalUuid,
       type: Joi.string().valid('income', 'expense').optional(),
       date: commonSchemas.optionalDate,
       tags: Joi.array().items(Joi.string().max(30)).max(10).optional(),
-      receiptUrl: Joi.string().uri().optional(),
+      receiptUrl: Joi.string().uri().allow(null).optional(),
+      notes: Joi.string().max(1000).allow(null).optional(),
+      merchantName: Joi.string().max(255).allow(null).optional(),
+      referenceNumber: Joi.string().max(100).allow(null).optional(),
     }),
   },
   
@@ -216,12 +225,22 @@ export const transactionValidation = {
     query: Joi.object({
       ...commonSchemas.pagination,
       ...commonSchemas.dateRange,
+      sortBy: Joi.string().valid('date', 'amount', 'description', 'createdAt').default('date'),
+      // Aliases used by the frontend GetTransactionsRequest filters
+      dateFrom: Joi.date().iso().optional(),
+      dateTo: Joi.date().iso().when('dateFrom', {
+        is: Joi.exist(),
+        then: Joi.date().iso().min(Joi.ref('dateFrom')),
+      }).optional(),
       categoryId: commonSchemas.optionalUuid,
-      type: Joi.string().valid('income', 'expense').optional(),
+      type: Joi.string().valid('income', 'expense', 'transfer').optional(),
       minAmount: commonSchemas.currency.optional(),
       maxAmount: commonSchemas.currency.optional(),
       search: commonSchemas.search,
       accountId: commonSchemas.optionalUuid,
+      // Occurrences generated by a recurring rule
+      recurringGroupId: commonSchemas.optionalUuid,
+      tags: Joi.array().items(Joi.string().max(30)).single().max(10).optional(),
     }),
   },
   
@@ -230,6 +249,108 @@ export const transactionValidation = {
       id: commonSchemas.uuid,
     }),
   },
+
+  // The list filters without pagination, plus the file format
+  export: {
+    query: Joi.object({
+      ...commonSchemas.dateRange,
+      format: Joi.string().valid('csv', 'xlsx').default('csv'),
+      sortOrder: Joi.string().valid('asc', 'desc').default('asc'),
+      dateFrom: Joi.date().iso().optional(),
+      dateTo: Joi.date().iso().when('dateFrom', {
+        is: Joi.exist(),
+        then: Joi.date().iso().min(Joi.ref('dateFrom')),
+      }).optional(),
+      categoryId: commonSchemas.optionalUuid,
+      type: Joi.string().valid('income', 'expense', 'transfer').optional(),
+      minAmount: commonSchemas.currency.optional(),
+      maxAmount: commonSchemas.currency.optional(),
+      search: commonSchemas.search,
+      accountId: commonSchemas.optionalUuid,
+      recurringGroupId: commonSchemas.optionalUuid,
+      tags: Joi.array().items(Joi.string().max(30)).single().max(10).optional(),
+    }),
+  },
+
+  summary: {
+    query: Joi.object({
+      ...commonSchemas.dateRange,
+      dateFrom: Joi.date().iso().optional(),
+      dateTo: Joi.date().iso().when('dateFrom', {
+        is: Joi.exist(),
+        then: Joi.date().iso().min(Joi.ref('dateFrom')),
+      }).optional(),
+      accountId: commonSchemas.optionalUuid,
+      categoryId: commonSchemas.optionalUuid,
+    }),
+  },
+
+  search: {
+    query: Joi.object({
+      q: Joi.string().trim().min(1).max(500).required(),
+      page: commonSchemas.pagination.page,
+      limit: commonSchemas.pagination.limit,
+      sortBy: Joi.string().valid('relevance', 'date', 'amount').default('relevance'),
+      sortOrder: commonSchemas.pagination.sortOrder,
+    }),
+  },
+
+  suggestCategory: {
+    query: Joi.object({
+      description: Joi.string().trim().min(1).max(255).required(),
+      merchantName: Joi.string().max(255).optional(),
+      amount: commonSchemas.positiveCurrency.optional(),
+      type: Joi.string().valid('income', 'expense').optional(),
+      limit: Joi.number().integer().min(1).max(10).default(3),
+    }),
+  },
+
+  createTransfer: {
+    body: Joi.object({
+      fromAccountId: commonSchemas.uuid,
+      toAccountId: commonSchemas.uuid.invalid(Joi.ref('fromAccountId')).messages({
+        'any.invalid': 'toAccountId must be different from fromAccountId',
+      }),
+      amount: commonSchemas.positiveCurrency.required(),
+      // Amount credited to the destination account, required across currencies
+      receivedAmount: commonSchemas.positiveCurrency.optional(),
+      date: commonSchemas.date,
+      description: Joi.string().min(1).max(255).optional(),
+      notes: Joi.string().max(1000).optional(),
+      tags: Joi.array().items(Joi.string().max(30)).max(10).optional(),
+      referenceNumber: Joi.string().max(100).optional(),
+    }),
+  },
+
+  updateTransfer: {
+    params: Joi.object({
+      id: commonSchemas.uuid,
+    }),
+    body: Joi.object({
+      fromAccountId: commonSchemas.optionalUuid,
+      toAccountId: commonSchemas.optionalUuid,
+      amount: commonSchemas.positiveCurrency.optional(),
+      receivedAmount: commonSchemas.positiveCurrency.optional(),
+      date: commonSchemas.optionalDate,
+      description: Joi.string().min(1).max(255).optional(),
+      notes: Joi.string().max(1000).allow(null).optional(),
+      tags: Joi.array().items(Joi.string().max(30)).max(10).optional(),
+      referenceNumber: Joi.string().max(100).allow(null).optional(),
+    }).min(1),
+  },
+
+  receipts: {
+    params: Joi.object({
+      id: commonSchemas.uuid,
+    }),
+  },
+
+  receipt: {
+    params: Joi.object({
+      id: commonSchemas.uuid,
+      receiptId: commonSchemas.uuid,
+    }),
+  },
 };
 
 // Budget validation schemas
@@ -237,15 +358,17 @@ export const budgetValidation = {
   create: {
     body: Joi.object({
       name: commonSchemas.name,
-      amount: commonSchemas.positiveCurrency,
+      amount: commonSchemas.positiveCurrency.required(),
       categoryId: commonSchemas.uuid,
       period: commonSchemas.budgetPeriod,
       startDate: commonSchemas.date,
-      endDate: commonSchemas.date.when('startDate', {
-        is: Joi.exist(),
-        then: Joi.date().iso().min(Joi.ref('startDate')).required(),
-      }),
-      alertThreshold: Joi.number().min(0).max(100).default(80),
+      // Derived from startDate and period when omitted
+      endDate: Joi.date().iso().greater(Joi.ref('startDate')).optional(),
+      currency: Joi.string().length(3).uppercase().optional(),
+      alertThreshold: Joi.number().greater(0).max(100).default(80),
+      rolloverUnused: Joi.boolean().optional(),
+      // Also carry overspending into the next period (requires rolloverUnused)
+      rolloverOverspent: Joi.boolean().optional(),
       description: commonSchemas.description,
     }),
   },
@@ -258,13 +381,15 @@ export const budgetValidation = {
       name: commonSchemas.optionalName,
       amount: commonSchemas.positiveCurrency.optional(),
       categoryId: commonSchemas.optionalUuid,
-      period: Joi.string().valid('weekly', 'monthly', 'yearly').optional(),
+      period: Joi.string().valid('weekly', 'monthly', 'quarterly', 'yearly').optional(),
       startDate: commonSchemas.optionalDate,
       endDate: commonSchemas.optionalDate,
-      alertThreshold: Joi.number().min(0).max(100).optional(),
-      description: commonSchemas.description,
-      isActive: commonSchemas.isActive.optional(),
-    }),
+      alertThreshold: Joi.number().greater(0).max(100).optional(),
+      rolloverUnused: Joi.boolean().optional(),
+      rolloverOverspent: Joi.boolean().optional(),
+      description: Joi.string().max(500).allow(null).optional(),
+      isActive: Joi.boolean().optional(),
+    }).min(1),
   },
   
   getById: {
@@ -277,11 +402,327 @@ export const budgetValidation = {
     query: Joi.object({
       ...commonSchemas.pagination,
       categoryId: commonSchemas.optionalUuid,
-      period: Joi.string().valid('weekly', 'monthly', 'yearly').optional(),
+      period: Joi.string().valid('weekly', 'monthly', 'quarterly', 'yearly').optional(),
       isActive: Joi.boolean().optional(),
       ...commonSchemas.dateRange,
     }),
   },
+
+  delete: {
+    params: Joi.object({
+      id: commonSchemas.uuid,
+    }),
+  },
+};
+
+// Notification validation schemas
+export const notificationValidation = {
+  getAll: {
+    query: Joi.object({
+      page: commonSchemas.pagination.page,
+      limit: commonSchemas.pagination.limit,
+      unreadOnly: Joi.boolean().default(false),
+    }),
+  },
+
+  getById: {
+    params: Joi.object({
+      id: commonSchemas.uuid,
+    }),
+  },
+};
+
+// Recurring rule validation schemas
+const recurrenceFrequency = Joi.string().valid('daily', 'weekly', 'monthly', 'yearly');
+// nth weekday of the month (-1 = last) for monthly and yearly schedules
+const weekday = Joi.number().integer().min(0).max(6);
+const weekOfMonth = Joi.number().integer().valid(1, 2, 3, 4, -1);
+
+const occurrenceParams = Joi.object({
+  id: commonSchemas.uuid,
+  date: commonSchemas.date,
+});
+
+export const recurringRuleValidation = {
+  create: {
+    body: Joi.object({
+      accountId: commonSchemas.uuid,
+      categoryId: commonSchemas.uuid,
+      type: commonSchemas.transactionType,
+      amount: commonSchemas.positiveCurrency.required(),
+      description: Joi.string().min(1).max(255).required(),
+      merchantName: Joi.string().max(255).optional(),
+      notes: Joi.string().max(1000).optional(),
+      tags: Joi.array().items(Joi.string().max(30)).max(10).optional(),
+      frequency: recurrenceFrequency.required(),
+      interval: Joi.number().integer().min(1).max(365).default(1),
+      weekday: weekday.optional(),
+      weekOfMonth: weekOfMonth.optional(),
+      startDate: commonSchemas.date,
+      endDate: Joi.date().iso().min(Joi.ref('startDate')).optional(),
+      maxOccurrences: Joi.number().integer().min(1).max(10000).optional(),
+    }).and('weekday', 'weekOfMonth').oxor('endDate', 'maxOccurrences'),
+  },
+
+  update: {
+    params: Joi.object({
+      id: commonSchemas.uuid,
+    }),
+    body: Joi.object({
+      accountId: commonSchemas.optionalUuid,
+      categoryId: commonSchemas.optionalUuid,
+      type: Joi.string().valid('income', 'expense').optional(),
+      amount: commonSchemas.positiveCurrency.optional(),
+      description: Joi.string().min(1).max(255).optional(),
+      merchantName: Joi.string().max(255).allow(null).optional(),
+      notes: Joi.string().max(1000).allow(null).optional(),
+      tags: Joi.array().items(Joi.string().max(30)).max(10).optional(),
+      frequency: recurrenceFrequency.optional(),
+      interval: Joi.number().integer().min(1).max(365).optional(),
+      weekday: weekday.allow(null).optional(),
+      weekOfMonth: weekOfMonth.allow(null).optional(),
+      startDate: commonSchemas.optionalDate,
+      endDate: Joi.date().iso().allow(null).optional(),
+      maxOccurrences: Joi.number().integer().min(1).max(10000).allow(null).optional(),
+      isActive: Joi.boolean().optional(),
+    }).min(1),
+  },
+
+  getById: {
+    params: Joi.object({
+      id: commonSchemas.uuid,
+    }),
+  },
+
+  getAll: {
+    query: Joi.object({
+      page: commonSchemas.pagination.page,
+      limit: commonSchemas.pagination.limit,
+      isActive: Joi.boolean().optional(),
+      accountId: commonSchemas.optionalUuid,
+    }),
+  },
+
+  occurrences: {
+    params: Joi.object({
+      id: commonSchemas.uuid,
+    }),
+    query: Joi.object({
+      count: Joi.number().integer().min(1).max(100).default(10),
+    }),
+  },
+
+  occurrence: {
+    params: occurrenceParams,
+  },
+
+  updateOccurrence: {
+    params: occurrenceParams,
+    body: Joi.object({
+      amount: commonSchemas.positiveCurrency.optional(),
+      description: Joi.string().min(1).max(255).optional(),
+      categoryId: commonSchemas.optionalUuid,
+      notes: Joi.string().max(1000).allow(null).optional(),
+      merchantName: Joi.string().max(255).allow(null).optional(),
+    }).min(1),
+  },
+};
+
+// Categorization rule validation schemas
+const ruleConditions = ['merchantName', 'descriptionPattern', 'minAmount', 'maxAmount', 'accountId'];
+
+export const categorizationRuleValidation = {
+  create: {
+    body: Joi.object({
+      categoryId: commonSchemas.uuid,
+      merchantName: Joi.string().trim().min(1).max(255).optional(),
+      descriptionPattern: Joi.string().min(1).max(255).optional(),
+      minAmount: commonSchemas.currency.optional(),
+      maxAmount: commonSchemas.currency.optional().when('minAmount', {
+        is: Joi.exist(),
+        then: commonSchemas.currency.min(Joi.ref('minAmount')),
+      }),
+      accountId: commonSchemas.optionalUuid,
+    }).or(...ruleConditions),
+  },
+
+  update: {
+    params: Joi.object({
+      id: commonSchemas.uuid,
+    }),
+    body: Joi.object({
+      categoryId: commonSchemas.optionalUuid,
+      merchantName: Joi.string().trim().min(1).max(255).allow(null).optional(),
+      descriptionPattern: Joi.string().min(1).max(255).allow(null).optional(),
+      minAmount: commonSchemas.currency.allow(null).optional(),
+      maxAmount: commonSchemas.currency.allow(null).optional(),
+      accountId: Joi.string().uuid().allow(null).optional(),
+      isActive: Joi.boolean().optional(),
+    }).min(1),
+  },
+
+  getById: {
+    params: Joi.object({
+      id: commonSchemas.uuid,
+    }),
+  },
+
+  reorder: {
+    body: Joi.object({
+      ruleIds: Joi.array().items(Joi.string().uuid()).min(1).unique().required(),
+    }),
+  },
+};
+
+// Tag validation schemas
+const tagName = Joi.string().trim().min(1).max(30);
+
+export const tagValidation = {
+  getAll: {
+    query: Joi.object({
+      search: Joi.string().max(30).optional(),
+      sortBy: Joi.string().valid('name', 'count').default('count'),
+    }),
+  },
+
+  rename: {
+    params: Joi.object({
+      name: Joi.string().max(30).required(),
+    }),
+    body: Joi.object({
+      name: tagName.required(),
+    }),
+  },
+
+  merge: {
+    body: Joi.object({
+      sources: Joi.array().items(Joi.string().max(30)).min(1).max(50).required(),
+      target: tagName.required(),
+    }),
+  },
+
+  delete: {
+    params: Joi.object({
+      name: Joi.string().max(30).required(),
+    }),
+  },
+};
+
+// Import validation schemas
+const importDateFormats = ['YYYY-MM-DD', 'YYYY/MM/DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'MM-DD-YYYY', 'DD-MM-YYYY', 'DD.MM.YYYY'];
+// Header name, or 1-based position for files without a header row
+const importColumn = Joi.string().trim().min(1).max(100);
+
+export const importValidation = {
+  createMapping: {
+    body: Joi.object({
+      name: Joi.string().trim().min(1).max(100).required(),
+      delimiter: Joi.string().valid(',', ';', '\t', '|').default(','),
+      hasHeader: Joi.boolean().default(true),
+      skipRows: Joi.number().integer().min(0).max(50).default(0),
+      dateFormat: Joi.string().valid(...importDateFormats).default('YYYY-MM-DD'),
+      decimalSeparator: Joi.string().valid('.', ',').default('.'),
+      dateColumn: importColumn.required(),
+      descriptionColumn: importColumn.required(),
+      amountColumn: importColumn.optional(),
+      debitColumn: importColumn.optional(),
+      creditColumn: importColumn.optional(),
+      merchantColumn: importColumn.optional(),
+      referenceColumn: importColumn.optional(),
+      negateAmounts: Joi.boolean().default(false),
+    }).or('amountColumn', 'debitColumn').and('debitColumn', 'creditColumn'),
+  },
+
+  updateMapping: {
+    params: Joi.object({
+      id: commonSchemas.uuid,
+    }),
+    body: Joi.object({
+      name: Joi.string().trim().min(1).max(100).optional(),
+      delimiter: Joi.string().valid(',', ';', '\t', '|').optional(),
+      hasHeader: Joi.boolean().optional(),
+      skipRows: Joi.number().integer().min(0).max(50).optional(),
+      dateFormat: Joi.string().valid(...importDateFormats).optional(),
+      decimalSeparator: Joi.string().valid('.', ',').optional(),
+      dateColumn: importColumn.optional(),
+      descriptionColumn: importColumn.optional(),
+      amountColumn: importColumn.allow(null).optional(),
+      debitColumn: importColumn.allow(null).optional(),
+      creditColumn: importColumn.allow(null).optional(),
+      merchantColumn: importColumn.allow(null).optional(),
+      referenceColumn: importColumn.allow(null).optional(),
+      negateAmounts: Joi.boolean().optional(),
+    }).min(1),
+  },
+
+  getById: {
+    params: Joi.object({
+      id: commonSchemas.uuid,
+    }),
+  },
+
+  getAll: {
+    query: Joi.object({
+      page: commonSchemas.pagination.page,
+      limit: commonSchemas.pagination.limit,
+    }),
+  },
+
+  // Multipart fields sent alongside the statement file
+  create: {
+    body: Joi.object({
+      accountId: commonSchemas.uuid,
+      format: Joi.string().valid('csv', 'ofx', 'qfx').optional(),
+      mappingId: commonSchemas.optionalUuid,
+    }),
+  },
+
+  commit: {
+    params: Joi.object({
+      id: commonSchemas.uuid,
+    }),
+    body: Joi.object({
+      categoryId: commonSchemas.uuid,
+      rows: Joi.array().items(Joi.object({
+        index: Joi.number().integer().min(0).required(),
+        categoryId: commonSchemas.optionalUuid,
+      })).min(1).max(5000).unique('index').optional(),
+    }),
+  },
+};
+
+// Data export validation schemas
+export const exportValidation = {
+  getById: {
+    params: Joi.object({
+      id: commonSchemas.uuid,
+    }),
+  },
+
+  // Signed link parameters; the signature itself is checked by the service
+  download: {
+    params: Joi.object({
+      id: commonSchemas.uuid,
+    }),
+    query: Joi.object({
+      expires: Joi.number().integer().positive().required(),
+      signature: Joi.string().hex().length(64).required(),
+    }),
+  },
+};
+
+// Report validation schemas
+export const reportValidation = {
+  get: {
+    query: Joi.object({
+      startDate: commonSchemas.date,
+      endDate: Joi.date().iso().min(Joi.ref('startDate')).required(),
+      // The frontend sends repeated categoryIds[]/accountIds[] params
+      categoryIds: Joi.array().items(Joi.string().uuid()).single().max(100).optional(),
+      accountIds: Joi.array().items(Joi.string().uuid()).single().max(100).optional(),
+      tags: Joi.array().items(Joi.string().max(30)).single().max(10).optional(),
+    }),
+  },
 };
 
 // Category validation schemas
@@ -290,10 +731,11 @@ export const categoryValidation = {
     body: Joi.object({
       name: commonSchemas.name,
       description: commonSchemas.description,
-      color: Joi.string().pattern(/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/).optional()
-        .messages({ 'string.pattern.base': 'Color must be a valid hex color code' }),
+      color: Joi.string().pattern(/^#[A-Fa-f0-9]{6}$/).optional()
+        .messages({ 'string.pattern.base': 'Color must be a 6-digit hex color code' }),
       icon: Joi.string().max(50).optional(),
-      parentId: commonSchemas.optionalUuid,
+      parentId: commonSchemas.optionalUuid.allow(null),
+      displayOrder: Joi.number().integer().min(0).optional(),
     }),
   },
   
@@ -303,13 +745,14 @@ export const categoryValidation = {
     }),
     body: Joi.object({
       name: commonSchemas.optionalName,
-      description: commonSchemas.description,
-      color: Joi.string().pattern(/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/).optional()
-        .messages({ 'string.pattern.base': 'Color must be a valid hex color code' }),
-      icon: Joi.string().max(50).optional(),
-      parentId: commonSchemas.optionalUuid,
-      isActive: commonSchemas.isActive.optional(),
-    }),
+      description: Joi.string().max(500).allow(null).optional(),
+      color: Joi.string().pattern(/^#[A-Fa-f0-9]{6}$/).allow(null).optional()
+        .messages({ 'string.pattern.base': 'Color must be a 6-digit hex color code' }),
+      icon: Joi.string().max(50).allow(null).optional(),
+      parentId: commonSchemas.optionalUuid.allow(null),
+      displayOrder: Joi.number().integer().min(0).optional(),
+      isActive: Joi.boolean().optional(),
+    }).min(1),
   },
   
   getById: {
@@ -320,25 +763,56 @@ export const categoryValidation = {
   
   getAll: {
     query: Joi.object({
-      ...commonSchemas.pagination,
-      parentId: commonSchemas.optionalUuid,
       isActive: Joi.boolean().optional(),
       search: commonSchemas.search,
+      // Return a flat list instead of a tree
+      flat: Joi.boolean().default(false),
+    }),
+  },
+
+  move: {
+    params: Joi.object({
+      id: commonSchemas.uuid,
+    }),
+    body: Joi.object({
+      parentId: Joi.string().uuid().allow(null).required(),
+      displayOrder: Joi.number().integer().min(0).optional(),
+    }),
+  },
+
+  merge: {
+    params: Joi.object({
+      id: commonSchemas.uuid,
+    }),
+    body: Joi.object({
+      targetCategoryId: commonSchemas.uuid,
+    }),
+  },
+
+  delete: {
+    params: Joi.object({
+      id: commonSchemas.uuid,
     }),
   },
 };
 
 // Account validation schemas
+const accountTypes = ['checking', 'savings', 'credit', 'investment', 'cash', 'loan'];
+// Credit and loan balances may be negative (money owed)
+const accountBalance = (customJoi as any).currency().precision(2).min(-999999999.99).max(999999999.99);
+
 export const accountValidation = {
   create: {
     body: Joi.object({
       name: commonSchemas.name,
-      type: Joi.string().valid('checking', 'savings', 'credit', 'investment', 'cash').required(),
-      balance: commonSchemas.currency.default(0),
+      type: Joi.string().valid(...accountTypes).required(),
+      balance: accountBalance.default(0),
       currency: Joi.string().length(3).uppercase().default('USD'),
       description: commonSchemas.description,
-      bankName: Joi.string().max(100).optional(),
-      accountNumber: Joi.string().max(50).optional(),
+      creditLimit: commonSchemas.positiveCurrency.optional(),
+      includeInNetWorth: Joi.boolean().default(true),
+      institutionName: Joi.string().max(255).optional(),
+      accountNumber: Joi.string().min(4).max(50).optional(),
     }),
   },
   
@@ -348,14 +822,16 @@ export const accountValidation = {
     }),
     body: Joi.object({
       name: commonSchemas.optionalName,
-      type: Joi.string().valid('checking', 'savings', 'credit', 'investment', 'cash').optional(),
-      balance: commonSchemas.currency.optional(),
+      type: Joi.string().valid(...accountTypes).optional(),
+      balance: accountBalance.optional(),
       currency: Joi.string().length(3).uppercase().optional(),
-      description: commonSchemas.description,
-      bankName: Joi.string().max(100).optional(),
-      accountNumber: Joi.string().max(50).optional(),
-      isActive: commonSchemas.isActive.optional(),
-    }),
+      description: Joi.string().max(500).allow(null).optional(),
+      creditLimit: commonSchemas.positiveCurrency.allow(null).optional(),
+      includeInNetWorth: Joi.boolean().optional(),
+      institutionName: Joi.string().max(255).allow(null).optional(),
+      accountNumber: Joi.string().min(4).max(50).allow(null).optional(),
+      isActive: Joi.boolean().optional(),
+    }).min(1),
   },
   
   getById: {
@@ -367,11 +843,23 @@ export const accountValidation = {
   getAll: {
     query: Joi.object({
       ...commonSchemas.pagination,
-      type: Joi.string().valid('checking', 'savings', 'credit', 'investment', 'cash').optional(),
+      type: Joi.string().valid(...accountTypes).optional(),
       isActive: Joi.boolean().optional(),
       currency: Joi.string().length(3).uppercase().optional(),
     }),
   },
+
+  delete: {
+    params: Joi.object({
+      id: commonSchemas.uuid,
+    }),
+  },
+
+  reorder: {
+    body: Joi.object({
+      accountIds: Joi.array().items(Joi.string().uuid()).min(1).unique().required(),
+    }),
+  },
 };
 
 // Main validation middleware factory
@@ -424,21 +912,68 @@ export const validateTransactionUpdate = validate(transactionValidation.update);
 export const validateTransactionGetById = validate(transactionValidation.getById);
 export const validateTransactionGetAll = validate(transactionValidation.getAll);
 export const validateTransactionDelete = validate(transactionValidation.delete);
+export const validateTransactionSummary = validate(transactionValidation.summary);
+export const validateTransactionExport = validate(transactionValidation.export);
+export const validateTransactionSearch = validate(transactionValidation.search);
+export const validateCategorySuggestion = validate(transactionValidation.suggestCategory);
+export const validateTransferCreate = validate(transactionValidation.createTransfer);
+export const validateTransferUpdate = validate(transactionValidation.updateTransfer);
+export const validateTransactionReceipts = validate(transactionValidation.receipts);
+export const validateTransactionReceipt = validate(transactionValidation.receipt);
 
 export const validateBudgetCreate = validate(budgetValidation.create);
 export const validateBudgetUpdate = validate(budgetValidation.update);
 export const validateBudgetGetById = validate(budgetValidation.getById);
 export const validateBudgetGetAll = validate(budgetValidation.getAll);
+export const validateBudgetDelete = validate(budgetValidation.delete);
+
+export const validateRecurringRuleCreate = validate(recurringRuleValidation.create);
+export const validateRecurringRuleUpdate = validate(recurringRuleValidation.update);
+export const validateRecurringRuleGetById = validate(recurringRuleValidation.getById);
+export const validateRecurringRuleGetAll = validate(recurringRuleValidation.getAll);
+export const validateRecurringRuleOccurrences = validate(recurringRuleValidation.occurrences);
+export const validateRecurringOccurrence = validate(recurringRuleValidation.occurrence);
+export const validateRecurringOccurrenceUpdate = validate(recurringRuleValidation.updateOccurrence);
+
+export const validateCategorizationRuleCreate = validate(categorizationRuleValidation.create);
+export const validateCategorizationRuleUpdate = validate(categorizationRuleValidation.update);
+export const validateCategorizationRuleGetById = validate(categorizationRuleValidation.getById);
+export const validateCategorizationRuleReorder = validate(categorizationRuleValidation.reorder);
+
+export const validateTagGetAll = validate(tagValidation.getAll);
+export const validateTagRename = validate(tagValidation.rename);
+export const validateTagMerge = validate(tagValidation.merge);
+export const validateTagDelete = validate(tagValidation.delete);
+
+export const validateImportMappingCreate = validate(importValidation.createMapping);
+export const validateImportMappingUpdate = validate(importValidation.updateMapping);
+export const validateImportGetById = validate(importValidation.getById);
+export const validateImportGetAll = validate(importValidation.getAll);
+export const validateImportCreate = validate(importValidation.create);
+export const validateImportCommit = validate(importValidation.commit);
+
+export const validateExportGetById = validate(exportValidation.getById);
+export const validateExportDownload = validate(exportValidation.download);
+
+export const validateReportGet = validate(reportValidation.get);
+
+export const validateNotificationGetAll = validate(notificationValidation.getAll);
+export const validateNotificationGetById = validate(notificationValidation.getById);
 
 export const validateCategoryCreate = validate(categoryValidation.create);
 export const validateCategoryUpdate = validate(categoryValidation.update);
 export const validateCategoryGetById = validate(categoryValidation.getById);
 export const validateCategoryGetAll = validate(categoryValidation.getAll);
+export const validateCategoryMove = validate(categoryValidation.move);
+export const validateCategoryMerge = validate(categoryValidation.merge);
+export const validateCategoryDelete = validate(categoryValidation.delete);
 
 export const validateAccountCreate = validate(accountValidation.create);
 export const validateAccountUpdate = validate(accountValidation.update);
 export const validateAccountGetById = validate(accountValidation.getById);
 export const validateAccountGetAll = validate(accountValidation.getAll);
+export const validateAccountDelete = validate(accountValidation.delete);
+export const validateAccountReorder = validate(accountValidation.reorder);
 
 // Custom validation middleware for file uploads
 export const validateFileUpload = (
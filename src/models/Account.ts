@@ -0,0 +1,171 @@
+/**
+ * Account Type Enum - matches the account_type database enum
+ */
+export enum AccountType {
+  CHECKING = 'checking',
+  SAVINGS = 'savings',
+  CREDIT = 'credit',
+  INVESTMENT = 'investment',
+  CASH = 'cash',
+  LOAN = 'loan'
+}
+
+/**
+ * Account types that represent money owed rather than money held.
+ * Their balance goes negative as debt accrues.
+ */
+export const LIABILITY_ACCOUNT_TYPES: readonly AccountType[] = [AccountType.CREDIT, AccountType.LOAN];
+
+/**
+ * Core Account Interface - matches database schema
+ */
+export interface Account {
+  id: string;
+  user_id: string;
+  name: string;
+  type: AccountType;
+  description: string | null;
+  balance: string | number;
+  opening_balance: string | number;
+  currency: string;
+  credit_limit: string | number | null;
+  is_active: boolean;
+  include_in_net_worth: boolean;
+  display_order: number;
+  institution_name: string | null;
+  account_number: string | null;
+  routing_number: string | null;
+  metadata: Record<string, any> | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Account shape returned by the API (camelCase, matches the frontend Account type)
+ */
+export interface AccountResponse {
+  id: string;
+  userId: string;
+  name: string;
+  type: AccountType;
+  description: string | null;
+  balance: number;
+  openingBalance: number;
+  currency: string;
+  creditLimit: number | null;
+  isActive: boolean;
+  isLiability: boolean;
+  includeInNetWorth: boolean;
+  displayOrder: number;
+  institutionName: string | null;
+  accountNumber: string | null;
+  metadata: Record<string, any> | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Account creation data (validated request body)
+ */
+export interface CreateAccountData {
+  name: string;
+  type: AccountType;
+  balance?: number;
+  currency?: string;
+  description?: string;
+  creditLimit?: number;
+  includeInNetWorth?: boolean;
+  institutionName?: string;
+  accountNumber?: string;
+}
+
+/**
+ * Account update data (validated request body)
+ */
+export interface UpdateAccountData {
+  name?: string;
+  type?: AccountType;
+  balance?: number;
+  currency?: string;
+  description?: string | null;
+  creditLimit?: number | null;
+  includeInNetWorth?: boolean;
+  institutionName?: string | null;
+  accountNumber?: string | null;
+  isActive?: boolean;
+}
+
+/**
+ * Account list filters (validated query string)
+ */
+export interface AccountFilters {
+  page: number;
+  limit: number;
+  type?: AccountType;
+  isActive?: boolean;
+  currency?: string;
+}
+
+/**
+ * Net worth totals for a single currency
+ */
+export interface NetWorthTotals {
+  currency: string;
+  assets: number;
+  liabilities: number;
+  netWorth: number;
+}
+
+/**
+ * Net worth breakdown across the accounts included in net worth. Totals are
+ * given per account currency, and converted to the user's base currency at
+ * today's rate; accounts in a currency without a known rate are left out of
+ * the converted total and their currency is listed in missingRates.
+ */
+export interface NetWorthResponse {
+  baseCurrency: string;
+  total: Omit<NetWorthTotals, 'currency'>;
+  missingRates: string[];
+  totals: NetWorthTotals[];
+  accounts: Array<Pick<AccountResponse, 'id' | 'name' | 'type' | 'balance' | 'currency' | 'isLiability'> & {
+    baseBalance: number | null;
+  }>;
+}
+
+/**
+ * Account model utility functions
+ */
+export class AccountModel {
+  /**
+   * Convert a database row to the API response shape
+   */
+  static toResponse(account: Account): AccountResponse {
+    return {
+      id: account.id,
+      userId: account.user_id,
+      name: account.name,
+      type: account.type,
+      description: account.description,
+      balance: Number(account.balance),
+      openingBalance: Number(account.opening_balance),
+      currency: account.currency,
+      creditLimit: account.credit_limit === null ? null : Number(account.credit_limit),
+      isActive: account.is_active,
+      isLiability: this.isLiability(account),
+      includeInNetWorth: account.include_in_net_worth,
+      displayOrder: account.display_order,
+      institutionName: account.institution_name,
+      accountNumber: account.account_number,
+      metadata: account.metadata,
+      createdAt: account.created_at,
+      updatedAt: account.updated_at
+    };
+  }
+
+  /**
+   * Check whether an account tracks a debt (credit card, loan)
+   */
+  static isLiability(account: Pick<Account, 'type'>): boolean {
+    return LIABILITY_ACCOUNT_TYPES.includes(account.type);
+  }
+}
@@ -0,0 +1,263 @@
+import { toDateOnlyString } from '../utils/date';
+
+/**
+ * Budget Period Enum - matches the budget_period database enum
+ */
+export enum BudgetPeriod {
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly',
+  QUARTERLY = 'quarterly',
+  YEARLY = 'yearly'
+}
+
+/**
+ * Budget Alert Level Enum - matches the budget_alert_level database enum
+ */
+export enum BudgetAlertLevel {
+  THRESHOLD = 'threshold',
+  EXCEEDED = 'exceeded'
+}
+
+/**
+ * Core Budget Interface - matches database schema
+ */
+export interface Budget {
+  id: string;
+  user_id: string;
+  category_id: string;
+  name: string;
+  description: string | null;
+  amount: string | number;
+  currency: string;
+  spent_amount: string | number;
+  period: BudgetPeriod;
+  period_start: Date | string;
+  period_end: Date | string;
+  is_active: boolean;
+  rollover_unused: boolean;
+  rollover_overspent: boolean;
+  rollover_amount: string | number;
+  previous_budget_id: string | null;
+  closed_at: Date | null;
+  alert_threshold: string | number;
+  metadata: Record<string, any> | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Budget row joined with its category name
+ */
+export interface BudgetWithCategory extends Budget {
+  category_name?: string | null;
+}
+
+/**
+ * Budget progress (matches the frontend BudgetProgress type)
+ */
+export interface BudgetProgress {
+  budgetId: string;
+  categoryId: string;
+  categoryName: string;
+  budgetAmount: number;
+  spentAmount: number;
+  remainingAmount: number;
+  percentage: number;
+  period: BudgetPeriod;
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Budget shape returned by the API: progress plus the budget settings.
+ * budgetAmount is the period's amount plus whatever rolled over into it.
+ */
+export interface BudgetResponse extends BudgetProgress {
+  id: string;
+  userId: string;
+  name: string;
+  description: string | null;
+  amount: number;
+  rolloverAmount: number;
+  currency: string;
+  alertThreshold: number;
+  rolloverUnused: boolean;
+  rolloverOverspent: boolean;
+  previousBudgetId: string | null;
+  closedAt: Date | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Budget creation data (validated request body)
+ */
+export interface CreateBudgetData {
+  name: string;
+  amount: number;
+  categoryId: string;
+  period: BudgetPeriod;
+  startDate: Date | string;
+  endDate?: Date | string;
+  currency?: string;
+  alertThreshold: number;
+  rolloverUnused?: boolean;
+  rolloverOverspent?: boolean;
+  description?: string;
+}
+
+/**
+ * Budget update data (validated request body)
+ */
+export interface UpdateBudgetData {
+  name?: string;
+  amount?: number;
+  categoryId?: string;
+  period?: BudgetPeriod;
+  startDate?: Date | string;
+  endDate?: Date | string;
+  alertThreshold?: number;
+  rolloverUnused?: boolean;
+  rolloverOverspent?: boolean;
+  description?: string | null;
+  isActive?: boolean;
+}
+
+/**
+ * Budget list filters (validated query string)
+ */
+export interface BudgetFilters {
+  page: number;
+  limit: number;
+  categoryId?: string;
+  period?: BudgetPeriod;
+  isActive?: boolean;
+  startDate?: Date | string;
+  endDate?: Date | string;
+}
+
+/**
+ * Budget model utility functions
+ */
+export class BudgetModel {
+  /**
+   * Convert a database row to the API response shape.
+   * alert_threshold is stored as a fraction and exposed as a percentage.
+   */
+  static toResponse(budget: BudgetWithCategory): BudgetResponse {
+    const amount = Number(budget.amount);
+    const rollover = Number(budget.rollover_amount ?? 0);
+    const budgetAmount = this.effectiveAmount(budget);
+    const spent = Number(budget.spent_amount);
+
+    return {
+      id: budget.id,
+      budgetId: budget.id,
+      userId: budget.user_id,
+      name: budget.name,
+      description: budget.description,
+      categoryId: budget.category_id,
+      categoryName: budget.category_name ?? '',
+      amount,
+      rolloverAmount: rollover,
+      budgetAmount,
+      spentAmount: spent,
+      remainingAmount: Math.round((budgetAmount - spent) * 100) / 100,
+      percentage: this.percentage(spent, budgetAmount),
+      currency: budget.currency,
+      period: budget.period,
+      startDate: toDateOnlyString(budget.period_start)!,
+      endDate: toDateOnlyString(budget.period_end)!,
+      alertThreshold: Math.round(Number(budget.alert_threshold) * 10000) / 100,
+      rolloverUnused: budget.rollover_unused,
+      rolloverOverspent: budget.rollover_overspent ?? false,
+      previousBudgetId: budget.previous_budget_id ?? null,
+      closedAt: budget.closed_at ?? null,
+      isActive: budget.is_active,
+      createdAt: budget.created_at,
+      updatedAt: budget.updated_at
+    };
+  }
+
+  /**
+   * Amount available in the period: the budgeted amount plus the rollover
+   */
+  static effectiveAmount(budget: Pick<Budget, 'amount' | 'rollover_amount'>): number {
+    return Math.round((Number(budget.amount) + Number(budget.rollover_amount ?? 0)) * 100) / 100;
+  }
+
+  /**
+   * Amount a closing period carries into the next one. Unused amounts roll
+   * over when rollover_unused is set; overspending only when rollover_overspent
+   * is set too, and never by more than the next period's amount.
+   */
+  static rolloverAmount(
+    budget: Pick<Budget, 'amount' | 'rollover_amount' | 'spent_amount' | 'rollover_unused' | 'rollover_overspent'>
+  ): number {
+    if (!budget.rollover_unused) return 0;
+
+    const remaining = Math.round((this.effectiveAmount(budget) - Number(budget.spent_amount)) * 100) / 100;
+    if (remaining >= 0) return remaining;
+    if (!budget.rollover_overspent) return 0;
+
+    return Math.max(remaining, -Number(budget.amount));
+  }
+
+  /**
+   * Alert levels the budget's spending has reached: its alert_threshold
+   * share of the amount, and the full amount
+   */
+  static alertLevels(
+    budget: Pick<Budget, 'amount' | 'rollover_amount' | 'spent_amount' | 'alert_threshold'>
+  ): BudgetAlertLevel[] {
+    const spent = Number(budget.spent_amount);
+    if (spent <= 0) return [];
+
+    const amount = this.effectiveAmount(budget);
+    const levels: BudgetAlertLevel[] = [];
+
+    if (spent >= amount * Number(budget.alert_threshold)) levels.push(BudgetAlertLevel.THRESHOLD);
+    if (spent >= amount) levels.push(BudgetAlertLevel.EXCEEDED);
+
+    return levels;
+  }
+
+  /**
+   * Share of the budget spent, as a percentage with two decimals
+   */
+  static percentage(spent: number, amount: number): number {
+    if (amount <= 0) return 0;
+    return Math.round((spent / amount) * 10000) / 100;
+  }
+
+  /**
+   * Last day (inclusive) of a period starting on the given YYYY-MM-DD date.
+   * Month-based periods end the day before the anchor day of month (the start
+   * date's day unless given), clamped to the end of shorter months, so a chain
+   * started on the 31st keeps ending on the 30th or the end of the month.
+   */
+  static periodEnd(startDate: string, period: BudgetPeriod, anchorDay?: number): string {
+    const [year, month, day] = startDate.split('-').map(Number) as [number, number, number];
+
+    let next: Date;
+    if (period === BudgetPeriod.WEEKLY) {
+      next = new Date(Date.UTC(year, month - 1, day + 7));
+    } else {
+      const months = period === BudgetPeriod.MONTHLY ? 1 : period === BudgetPeriod.QUARTERLY ? 3 : 12;
+      const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+      next = new Date(Date.UTC(year, month - 1 + months, Math.min(anchorDay ?? day, lastDay)));
+    }
+
+    next.setUTCDate(next.getUTCDate() - 1);
+    return next.toISOString().slice(0, 10);
+  }
+
+  /**
+   * First day of the period following one that ends on the given YYYY-MM-DD date
+   */
+  static nextPeriodStart(periodEnd: string): string {
+    const [year, month, day] = periodEnd.split('-').map(Number) as [number, number, number];
+    return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+  }
+}
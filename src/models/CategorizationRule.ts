@@ -0,0 +1,108 @@
+/**
+ * Core Categorization Rule Interface - matches database schema.
+ *
+ * A rule sets the category of income and expense transactions whose
+ * merchant, description, amount and account match all of its non-null
+ * conditions. Rules are tried by ascending priority.
+ */
+export interface CategorizationRule {
+  id: string;
+  user_id: string;
+  category_id: string;
+  merchant_name: string | null;
+  description_pattern: string | null;
+  min_amount: string | number | null;
+  max_amount: string | number | null;
+  account_id: string | null;
+  priority: number;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Categorization rule shape returned by the API (camelCase)
+ */
+export interface CategorizationRuleResponse {
+  id: string;
+  categoryId: string;
+  merchantName: string | null;
+  descriptionPattern: string | null;
+  minAmount: number | null;
+  maxAmount: number | null;
+  accountId: string | null;
+  priority: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Categorization rule creation data (validated request body)
+ */
+export interface CreateCategorizationRuleData {
+  categoryId: string;
+  merchantName?: string;
+  descriptionPattern?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  accountId?: string;
+}
+
+/**
+ * Categorization rule update data (validated request body)
+ */
+export interface UpdateCategorizationRuleData {
+  categoryId?: string;
+  merchantName?: string | null;
+  descriptionPattern?: string | null;
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  accountId?: string | null;
+  isActive?: boolean;
+}
+
+/**
+ * Outcome of applying a rule to existing transactions
+ */
+export interface ApplyRuleResult {
+  matched: number;
+  updated: number;
+}
+
+/**
+ * A rule offered after the user moved a transaction to another category
+ * by hand. ruleId is set when a rule for the merchant already exists and
+ * would be changed rather than created.
+ */
+export interface CategorizationRuleSuggestion {
+  ruleId: string | null;
+  merchantName: string;
+  categoryId: string;
+  // Other transactions from the merchant that are in a different category
+  matchingTransactions: number;
+}
+
+/**
+ * Categorization rule model utility functions
+ */
+export class CategorizationRuleModel {
+  /**
+   * Convert a database row to the API response shape
+   */
+  static toResponse(rule: CategorizationRule): CategorizationRuleResponse {
+    return {
+      id: rule.id,
+      categoryId: rule.category_id,
+      merchantName: rule.merchant_name,
+      descriptionPattern: rule.description_pattern,
+      minAmount: rule.min_amount !== null ? Number(rule.min_amount) : null,
+      maxAmount: rule.max_amount !== null ? Number(rule.max_amount) : null,
+      accountId: rule.account_id,
+      priority: rule.priority,
+      isActive: rule.is_active,
+      createdAt: rule.created_at,
+      updatedAt: rule.updated_at
+    };
+  }
+}
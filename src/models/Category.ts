@@ -0,0 +1,138 @@
+/**
+ * Core Category Interface - matches database schema
+ */
+export interface Category {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  color: string | null;
+  icon: string | null;
+  is_active: boolean;
+  is_system: boolean;
+  display_order: number;
+  parent_id: string | null;
+  metadata: Record<string, any> | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Category shape returned by the API (camelCase)
+ */
+export interface CategoryResponse {
+  id: string;
+  userId: string;
+  name: string;
+  description: string | null;
+  color: string | null;
+  icon: string | null;
+  isActive: boolean;
+  isSystem: boolean;
+  displayOrder: number;
+  parentId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Category with its nested subcategories
+ */
+export interface CategoryTreeNode extends CategoryResponse {
+  children: CategoryTreeNode[];
+}
+
+/**
+ * Category creation data (validated request body)
+ */
+export interface CreateCategoryData {
+  name: string;
+  description?: string;
+  color?: string;
+  icon?: string;
+  parentId?: string | null;
+  displayOrder?: number;
+}
+
+/**
+ * Category update data (validated request body)
+ */
+export interface UpdateCategoryData {
+  name?: string;
+  description?: string | null;
+  color?: string | null;
+  icon?: string | null;
+  parentId?: string | null;
+  displayOrder?: number;
+  isActive?: boolean;
+}
+
+/**
+ * Category list filters (validated query string)
+ */
+export interface CategoryFilters {
+  isActive?: boolean;
+  search?: string;
+  flat?: boolean;
+}
+
+/**
+ * Outcome of merging one category into another
+ */
+export interface CategoryMergeResult {
+  target: CategoryResponse;
+  transactionsMoved: number;
+  budgetsMoved: number;
+  budgetsCombined: number;
+  subcategoriesMoved: number;
+}
+
+/**
+ * Category model utility functions
+ */
+export class CategoryModel {
+  /**
+   * Convert a database row to the API response shape
+   */
+  static toResponse(category: Category): CategoryResponse {
+    return {
+      id: category.id,
+      userId: category.user_id,
+      name: category.name,
+      description: category.description,
+      color: category.color,
+      icon: category.icon,
+      isActive: category.is_active,
+      isSystem: category.is_system,
+      displayOrder: category.display_order,
+      parentId: category.parent_id,
+      createdAt: category.created_at,
+      updatedAt: category.updated_at
+    };
+  }
+
+  /**
+   * Nest rows under their parents. Rows whose parent is not in the set
+   * (e.g. an inactive parent) become roots. Input order is preserved.
+   */
+  static buildTree(categories: Category[]): CategoryTreeNode[] {
+    const nodes = new Map<string, CategoryTreeNode>();
+    for (const category of categories) {
+      nodes.set(category.id, { ...this.toResponse(category), children: [] });
+    }
+
+    const roots: CategoryTreeNode[] = [];
+    for (const category of categories) {
+      const node = nodes.get(category.id)!;
+      const parent = category.parent_id ? nodes.get(category.parent_id) : undefined;
+
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    return roots;
+  }
+}
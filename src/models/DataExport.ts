@@ -0,0 +1,76 @@
+/**
+ * Data Export Status Enum - matches the data_export_status database enum
+ */
+export enum DataExportStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  READY = 'ready',
+  FAILED = 'failed',
+  EXPIRED = 'expired'
+}
+
+/**
+ * Core Data Export Interface - matches database schema
+ */
+export interface DataExport {
+  id: string;
+  user_id: string;
+  status: DataExportStatus;
+  file_name: string | null;
+  file_size: string | number | null;
+  error: string | null;
+  started_at: Date | null;
+  completed_at: Date | null;
+  expires_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Data export shape returned by the API (camelCase)
+ */
+export interface DataExportResponse {
+  id: string;
+  status: DataExportStatus;
+  fileSize: number | null;
+  error: string | null;
+  completedAt: Date | null;
+  expiresAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Signed download link for a ready export
+ */
+export interface DataExportLink {
+  url: string;
+  expiresAt: Date;
+}
+
+/**
+ * Download link query parameters (validated query string)
+ */
+export interface DataExportDownloadQuery {
+  expires: number;
+  signature: string;
+}
+
+/**
+ * Data export model utility functions
+ */
+export class DataExportModel {
+  /**
+   * Convert a database row to the API response shape
+   */
+  static toResponse(dataExport: DataExport): DataExportResponse {
+    return {
+      id: dataExport.id,
+      status: dataExport.status,
+      fileSize: dataExport.file_size === null ? null : Number(dataExport.file_size),
+      error: dataExport.error,
+      completedAt: dataExport.completed_at,
+      expiresAt: dataExport.expires_at,
+      createdAt: dataExport.created_at
+    };
+  }
+}
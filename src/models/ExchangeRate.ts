@@ -0,0 +1,34 @@
+/**
+ * Core Exchange Rate Interface - matches database schema.
+ * One unit of base_currency is worth `rate` units of quote_currency.
+ */
+export interface ExchangeRate {
+  id: string;
+  base_currency: string;
+  quote_currency: string;
+  rate: string | number;
+  rate_date: Date | string;
+  source: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * A single rate read from a rates file, before it is stored
+ */
+export interface ExchangeRateInput {
+  date: string;
+  base: string;
+  quote: string;
+  rate: number;
+}
+
+/**
+ * Outcome of loading a rates file
+ */
+export interface ExchangeRateLoadResult {
+  loaded: number;
+  currencies: string[];
+  firstDate: string | null;
+  lastDate: string | null;
+}
@@ -0,0 +1,89 @@
+/**
+ * Core Identity Interface - matches database schema.
+ *
+ * An identity is a user's account at an OpenID Connect provider, linked so
+ * the user can sign in through that provider.
+ */
+export interface Identity {
+  id: string;
+  user_id: string;
+  provider: string;
+  subject: string;
+  email: string | null;
+  created_at: Date;
+  last_used_at: Date | null;
+}
+
+/**
+ * Identity shape returned by the API (camelCase). The subject stays server-side.
+ */
+export interface IdentityResponse {
+  id: string;
+  provider: string;
+  providerName: string;
+  email: string | null;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+/**
+ * A sign-in provider offered to users
+ */
+export interface OidcProviderInfo {
+  id: string;
+  name: string;
+}
+
+/**
+ * Why the user was sent to the provider: to sign in (or sign up), or to
+ * link the provider account to the signed-in user
+ */
+export type OidcIntent = 'login' | 'link';
+
+/**
+ * Where to send the browser to sign in at the provider
+ */
+export interface OidcAuthorization {
+  authorizationUrl: string;
+  expiresAt: Date;
+}
+
+/**
+ * A started sign-in: the authorization URL, and a secret for the browser that
+ * started it (kept in a cookie) so the callback only works from that browser
+ */
+export interface StartedAuthorization {
+  authorization: OidcAuthorization;
+  browserSecret: string;
+}
+
+/**
+ * The provider account a completed sign-in proved, from its verified ID token
+ */
+export interface VerifiedIdentity {
+  provider: string;
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+/**
+ * Identity model utility functions
+ */
+export class IdentityModel {
+  /**
+   * Convert a database row to the API response shape
+   */
+  static toResponse(identity: Identity, providerName: string): IdentityResponse {
+    return {
+      id: identity.id,
+      provider: identity.provider,
+      providerName,
+      email: identity.email,
+      createdAt: identity.created_at,
+      lastUsedAt: identity.last_used_at
+    };
+  }
+}
@@ -0,0 +1,314 @@
+import { TransactionType } from './Transaction';
+
+/**
+ * Statement Format Enum - matches the import_format database enum
+ */
+export enum ImportFormat {
+  CSV = 'csv',
+  OFX = 'ofx',
+  QFX = 'qfx'
+}
+
+/**
+ * Import Status Enum - matches the import_status database enum
+ */
+export enum ImportStatus {
+  PREVIEW = 'preview',
+  COMMITTED = 'committed',
+  DISCARDED = 'discarded'
+}
+
+/**
+ * Date layouts accepted for CSV date columns
+ */
+export const IMPORT_DATE_FORMATS = [
+  'YYYY-MM-DD',
+  'YYYY/MM/DD',
+  'MM/DD/YYYY',
+  'DD/MM/YYYY',
+  'MM-DD-YYYY',
+  'DD-MM-YYYY',
+  'DD.MM.YYYY'
+] as const;
+
+export type ImportDateFormat = typeof IMPORT_DATE_FORMATS[number];
+
+/**
+ * Saved CSV column layout - matches database schema.
+ * Column references are header names, or 1-based positions for files
+ * without a header row.
+ */
+export interface ImportMapping {
+  id: string;
+  user_id: string;
+  name: string;
+  delimiter: string;
+  has_header: boolean;
+  skip_rows: number;
+  date_format: ImportDateFormat;
+  decimal_separator: string;
+  date_column: string;
+  description_column: string;
+  amount_column: string | null;
+  debit_column: string | null;
+  credit_column: string | null;
+  merchant_column: string | null;
+  reference_column: string | null;
+  negate_amounts: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Import mapping shape returned by the API (camelCase)
+ */
+export interface ImportMappingResponse {
+  id: string;
+  name: string;
+  delimiter: string;
+  hasHeader: boolean;
+  skipRows: number;
+  dateFormat: ImportDateFormat;
+  decimalSeparator: string;
+  dateColumn: string;
+  descriptionColumn: string;
+  amountColumn: string | null;
+  debitColumn: string | null;
+  creditColumn: string | null;
+  merchantColumn: string | null;
+  referenceColumn: string | null;
+  negateAmounts: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Import mapping creation data (validated request body)
+ */
+export interface CreateImportMappingData {
+  name: string;
+  delimiter: string;
+  hasHeader: boolean;
+  skipRows: number;
+  dateFormat: ImportDateFormat;
+  decimalSeparator: string;
+  dateColumn: string;
+  descriptionColumn: string;
+  amountColumn?: string;
+  debitColumn?: string;
+  creditColumn?: string;
+  merchantColumn?: string;
+  referenceColumn?: string;
+  negateAmounts: boolean;
+}
+
+/**
+ * Import mapping update data (validated request body)
+ */
+export interface UpdateImportMappingData {
+  name?: string;
+  delimiter?: string;
+  hasHeader?: boolean;
+  skipRows?: number;
+  dateFormat?: ImportDateFormat;
+  decimalSeparator?: string;
+  dateColumn?: string;
+  descriptionColumn?: string;
+  amountColumn?: string | null;
+  debitColumn?: string | null;
+  creditColumn?: string | null;
+  merchantColumn?: string | null;
+  referenceColumn?: string | null;
+  negateAmounts?: boolean;
+}
+
+/**
+ * Why a statement row looks like an existing transaction
+ */
+export type DuplicateReason = 'reference' | 'match';
+
+/**
+ * One parsed statement row. Rows that could not be parsed carry an error
+ * and are never imported.
+ */
+export interface ImportRow {
+  index: number;
+  date: string | null;
+  type: TransactionType.INCOME | TransactionType.EXPENSE | null;
+  amount: number | null;
+  description: string | null;
+  merchantName: string | null;
+  referenceNumber: string | null;
+  duplicateOf: string | null;
+  duplicateReason: DuplicateReason | null;
+  error: string | null;
+}
+
+/**
+ * Parsed statement awaiting review - matches database schema
+ */
+export interface TransactionImport {
+  id: string;
+  user_id: string;
+  account_id: string;
+  mapping_id: string | null;
+  format: ImportFormat;
+  status: ImportStatus;
+  file_name: string;
+  rows: ImportRow[];
+  row_count: number;
+  duplicate_count: number;
+  error_count: number;
+  imported_count: number | null;
+  committed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Import shape returned by the API (camelCase), without its rows
+ */
+export interface TransactionImportSummary {
+  id: string;
+  accountId: string;
+  mappingId: string | null;
+  format: ImportFormat;
+  status: ImportStatus;
+  fileName: string;
+  rowCount: number;
+  duplicateCount: number;
+  errorCount: number;
+  importedCount: number | null;
+  committedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Import with its parsed rows
+ */
+export interface TransactionImportResponse extends TransactionImportSummary {
+  rows: ImportRow[];
+}
+
+/**
+ * Statement upload options (validated multipart fields)
+ */
+export interface CreateImportData {
+  accountId: string;
+  format?: ImportFormat;
+  mappingId?: string;
+}
+
+/**
+ * Rows to commit (validated request body). Without rows, every valid row
+ * that is not flagged as a duplicate is imported.
+ */
+export interface CommitImportData {
+  // For rows without a category of their own that no rule matches
+  categoryId: string;
+  rows?: Array<{ index: number; categoryId?: string }>;
+}
+
+/**
+ * Import model utility functions
+ */
+export class ImportModel {
+  /**
+   * Convert a mapping row to the API response shape
+   */
+  static toMappingResponse(mapping: ImportMapping): ImportMappingResponse {
+    return {
+      id: mapping.id,
+      name: mapping.name,
+      delimiter: mapping.delimiter,
+      hasHeader: mapping.has_header,
+      skipRows: mapping.skip_rows,
+      dateFormat: mapping.date_format,
+      decimalSeparator: mapping.decimal_separator,
+      dateColumn: mapping.date_column,
+      descriptionColumn: mapping.description_column,
+      amountColumn: mapping.amount_column,
+      debitColumn: mapping.debit_column,
+      creditColumn: mapping.credit_column,
+      merchantColumn: mapping.merchant_column,
+      referenceColumn: mapping.reference_column,
+      negateAmounts: mapping.negate_amounts,
+      createdAt: mapping.created_at,
+      updatedAt: mapping.updated_at
+    };
+  }
+
+  /**
+   * Convert an import row to the API response shape
+   */
+  static toResponse(transactionImport: TransactionImport): TransactionImportResponse {
+    return {
+      ...this.toSummary(transactionImport),
+      rows: transactionImport.rows
+    };
+  }
+
+  /**
+   * Convert an import row to the list shape, leaving out the parsed rows
+   */
+  static toSummary(transactionImport: TransactionImport): TransactionImportSummary {
+    return {
+      id: transactionImport.id,
+      accountId: transactionImport.account_id,
+      mappingId: transactionImport.mapping_id,
+      format: transactionImport.format,
+      status: transactionImport.status,
+      fileName: transactionImport.file_name,
+      rowCount: transactionImport.row_count,
+      duplicateCount: transactionImport.duplicate_count,
+      errorCount: transactionImport.error_count,
+      importedCount: transactionImport.imported_count,
+      committedAt: transactionImport.committed_at,
+      createdAt: transactionImport.created_at
+    };
+  }
+
+  /**
+   * Parse a date written in the given layout as YYYY-MM-DD
+   */
+  static parseDate(value: string, format: ImportDateFormat): string | null {
+    const parts = value.trim().split(/[^\d]+/).filter(Boolean);
+    const order = format.split(/[^A-Z]+/);
+    if (parts.length < 3) return null;
+
+    const get = (token: string): number => Number(parts[order.indexOf(token)]);
+    const year = get('YYYY');
+    const month = get('MM');
+    const day = get('DD');
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (
+      year < 1900 ||
+      date.getUTCFullYear() !== year ||
+      date.getUTCMonth() !== month - 1 ||
+      date.getUTCDate() !== day
+    ) {
+      return null;
+    }
+
+    return date.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Parse a statement amount such as "-1,234.56", "(12.00)" or "1.234,56 €"
+   */
+  static parseAmount(value: string, decimalSeparator: string = '.'): number | null {
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+
+    const negative = /^\(.*\)$/.test(trimmed) || trimmed.includes('-');
+    const digits = decimalSeparator === ','
+      ? trimmed.replace(/[^\d,]/g, '').replace(',', '.')
+      : trimmed.replace(/[^\d.]/g, '');
+
+    if (!/^\d+(\.\d+)?$/.test(digits)) return null;
+
+    const amount = Math.round(Number(digits) * 100) / 100;
+    return negative ? -amount : amount;
+  }
+}
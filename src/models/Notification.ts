@@ -0,0 +1,86 @@
+/**
+ * Notification Type Enum - matches the frontend notification types
+ */
+export enum NotificationType {
+  SUCCESS = 'success',
+  ERROR = 'error',
+  WARNING = 'warning',
+  INFO = 'info'
+}
+
+/**
+ * Core Notification Interface - matches database schema
+ */
+export interface Notification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  event_type: string;
+  title: string;
+  message: string;
+  data: Record<string, any> | null;
+  read_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Notification shape returned by the API. timestamp is in epoch
+ * milliseconds, as the frontend NotificationManager expects.
+ */
+export interface NotificationResponse {
+  id: string;
+  type: NotificationType;
+  eventType: string;
+  title: string;
+  message: string;
+  data: Record<string, any> | null;
+  read: boolean;
+  readAt: Date | null;
+  timestamp: number;
+  createdAt: Date;
+}
+
+/**
+ * Notification creation data
+ */
+export interface CreateNotificationData {
+  userId: string;
+  type: NotificationType;
+  eventType: string;
+  title: string;
+  message: string;
+  data?: Record<string, any>;
+}
+
+/**
+ * Notification list filters (validated query string)
+ */
+export interface NotificationFilters {
+  page: number;
+  limit: number;
+  unreadOnly?: boolean;
+}
+
+/**
+ * Notification model utility functions
+ */
+export class NotificationModel {
+  /**
+   * Convert a database row to the API response shape
+   */
+  static toResponse(notification: Notification): NotificationResponse {
+    return {
+      id: notification.id,
+      type: notification.type,
+      eventType: notification.event_type,
+      title: notification.title,
+      message: notification.message,
+      data: notification.data,
+      read: notification.read_at !== null,
+      readAt: notification.read_at,
+      timestamp: new Date(notification.created_at).getTime(),
+      createdAt: notification.created_at
+    };
+  }
+}
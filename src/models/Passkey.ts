@@ -0,0 +1,111 @@
+/**
+ * Core Passkey Interface - matches database schema.
+ *
+ * A passkey is a WebAuthn credential registered by a user. It can sign in
+ * on its own, in place of the password, or serve as the second factor.
+ */
+export interface Passkey {
+  id: string;
+  user_id: string;
+  name: string;
+  credential_id: string;
+  public_key: string;
+  algorithm: number;
+  sign_count: number | string;
+  transports: string[] | null;
+  created_at: Date;
+  last_used_at: Date | null;
+}
+
+/**
+ * Passkey shape returned by the API (camelCase). Key material stays server-side.
+ */
+export interface PasskeyResponse {
+  id: string;
+  name: string;
+  transports: string[];
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+/**
+ * Binary fields of the credentials below are base64url encoded, matching
+ * PublicKeyCredential.toJSON() in the browser
+ */
+export interface RegistrationCredential {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface AuthenticationCredential {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    // Set by discoverable credentials: the user the passkey belongs to
+    userHandle?: string | null;
+  };
+}
+
+interface CredentialDescriptor {
+  id: string;
+  type: 'public-key';
+  transports?: string[];
+}
+
+/**
+ * Options for navigator.credentials.create(), with binary fields base64url encoded
+ */
+export interface PasskeyRegistrationOptions {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: Array<{ type: 'public-key'; alg: number }>;
+  timeout: number;
+  attestation: 'none';
+  excludeCredentials: CredentialDescriptor[];
+  authenticatorSelection: {
+    residentKey: 'required';
+    requireResidentKey: true;
+    userVerification: 'required';
+  };
+}
+
+/**
+ * Options for navigator.credentials.get(), with binary fields base64url encoded
+ */
+export interface PasskeyAuthenticationOptions {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  // Empty when signing in without a username: the browser offers any passkey for the site
+  allowCredentials: CredentialDescriptor[];
+  userVerification: 'required' | 'preferred';
+}
+
+/**
+ * Passkey model utility functions
+ */
+export class PasskeyModel {
+  /**
+   * Convert a database row to the API response shape
+   */
+  static toResponse(passkey: Passkey): PasskeyResponse {
+    return {
+      id: passkey.id,
+      name: passkey.name,
+      transports: passkey.transports ?? [],
+      createdAt: passkey.created_at,
+      lastUsedAt: passkey.last_used_at
+    };
+  }
+}
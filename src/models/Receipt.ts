@@ -0,0 +1,102 @@
+/**
+ * A value read from a receipt, with the confidence (0-1) that it is right
+ */
+export interface ReceiptField<T> {
+  value: T | null;
+  confidence: number;
+}
+
+/**
+ * Fields read from a receipt image by OCR
+ */
+export interface ReceiptExtraction {
+  engine: string;
+  extractedAt: string;
+  fields: {
+    merchant: ReceiptField<string>;
+    date: ReceiptField<string>;
+    total: ReceiptField<number>;
+    tax: ReceiptField<number>;
+  };
+}
+
+/**
+ * Core Transaction Receipt Interface - matches database schema.
+ * A receipt without a transaction is a draft awaiting confirmation.
+ */
+export interface TransactionReceipt {
+  id: string;
+  user_id: string;
+  transaction_id: string | null;
+  file_name: string;
+  thumbnail_name: string | null;
+  original_name: string;
+  mime_type: string;
+  file_size: number;
+  extraction: ReceiptExtraction | null;
+  created_at: Date;
+}
+
+/**
+ * Receipt shape returned by the API (camelCase). The URLs are API paths
+ * that need the bearer token.
+ */
+export interface ReceiptResponse {
+  id: string;
+  transactionId: string;
+  originalName: string;
+  mimeType: string;
+  fileSize: number;
+  url: string;
+  thumbnailUrl: string | null;
+  createdAt: Date;
+}
+
+/**
+ * A receipt read by OCR, with a transaction pre-filled from it. The
+ * transaction is created by sending it back with the receiptId.
+ */
+export interface ReceiptDraftResponse {
+  receiptId: string;
+  transaction: {
+    type: 'expense';
+    amount: number | null;
+    date: string | null;
+    description: string | null;
+    merchantName: string | null;
+  };
+  extraction: ReceiptExtraction;
+}
+
+/**
+ * A receipt file resolved for serving
+ */
+export interface ReceiptFile {
+  filePath: string;
+  fileName: string;
+  mimeType: string;
+}
+
+/**
+ * Receipt model utility functions
+ */
+export class ReceiptModel {
+  /**
+   * Convert a database row to the API response shape
+   */
+  static toResponse(receipt: TransactionReceipt, basePath: string): ReceiptResponse {
+    const url = `${basePath}/transactions/${receipt.transaction_id}/receipts/${receipt.id}`;
+
+    return {
+      id: receipt.id,
+      // Drafts are never listed, so listed receipts always have a transaction
+      transactionId: receipt.transaction_id!,
+      originalName: receipt.original_name,
+      mimeType: receipt.mime_type,
+      fileSize: receipt.file_size,
+      url,
+      thumbnailUrl: receipt.thumbnail_name ? `${url}/thumbnail` : null,
+      createdAt: receipt.created_at
+    };
+  }
+}
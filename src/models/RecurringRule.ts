@@ -0,0 +1,292 @@
+import { toDateOnlyString } from '../utils/date';
+import { TransactionType } from './Transaction';
+
+/**
+ * Recurrence Frequency Enum - matches the recurrence_frequency database enum
+ */
+export enum RecurrenceFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly',
+  YEARLY = 'yearly'
+}
+
+/**
+ * Last week of the month for nth-weekday schedules
+ */
+export const LAST_WEEK_OF_MONTH = -1;
+
+/**
+ * Core Recurring Rule Interface - matches database schema.
+ *
+ * Occurrences are numbered from the start date; next_occurrence_index and
+ * next_occurrence_date point at the next one to materialize, and are null
+ * once the series has ended.
+ */
+export interface RecurringRule {
+  id: string;
+  user_id: string;
+  account_id: string;
+  category_id: string;
+  type: TransactionType;
+  amount: string | number;
+  description: string;
+  merchant_name: string | null;
+  notes: string | null;
+  tags: string[] | null;
+  frequency: RecurrenceFrequency;
+  interval_count: number;
+  weekday: number | null;
+  week_of_month: number | null;
+  start_date: Date | string;
+  end_date: Date | string | null;
+  max_occurrences: number | null;
+  occurrences_created: number;
+  next_occurrence_index: number | null;
+  next_occurrence_date: Date | string | null;
+  last_occurrence_date: Date | string | null;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Fields that define when occurrences fall
+ */
+export type RecurrenceSchedule = Pick<RecurringRule, 'frequency' | 'interval_count' | 'weekday' | 'week_of_month' | 'start_date'>;
+
+/**
+ * Per-occurrence changes to the series defaults
+ */
+export interface OccurrenceOverrides {
+  amount?: number;
+  description?: string;
+  categoryId?: string;
+  notes?: string | null;
+  merchantName?: string | null;
+}
+
+/**
+ * Skipped or modified occurrence - matches database schema
+ */
+export interface RecurringRuleException {
+  id: string;
+  rule_id: string;
+  occurrence_date: Date | string;
+  is_skipped: boolean;
+  overrides: OccurrenceOverrides | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Recurring rule shape returned by the API (camelCase)
+ */
+export interface RecurringRuleResponse {
+  id: string;
+  userId: string;
+  accountId: string;
+  categoryId: string;
+  type: TransactionType;
+  amount: number;
+  description: string;
+  merchantName: string | null;
+  notes: string | null;
+  tags: string[];
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekday: number | null;
+  weekOfMonth: number | null;
+  startDate: string;
+  endDate: string | null;
+  maxOccurrences: number | null;
+  occurrencesCreated: number;
+  nextOccurrence: string | null;
+  lastOccurrence: string | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Upcoming occurrence with its exception applied
+ */
+export interface OccurrencePreview {
+  date: string;
+  amount: number;
+  description: string;
+  categoryId: string;
+  notes: string | null;
+  merchantName: string | null;
+  isSkipped: boolean;
+  isModified: boolean;
+}
+
+/**
+ * Recurring rule creation data (validated request body)
+ */
+export interface CreateRecurringRuleData {
+  accountId: string;
+  categoryId: string;
+  type: TransactionType;
+  amount: number;
+  description: string;
+  merchantName?: string;
+  notes?: string;
+  tags?: string[];
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekday?: number;
+  weekOfMonth?: number;
+  startDate: Date | string;
+  endDate?: Date | string;
+  maxOccurrences?: number;
+}
+
+/**
+ * Recurring rule update data (validated request body). Changes apply to
+ * occurrences that have not been materialized yet.
+ */
+export interface UpdateRecurringRuleData {
+  accountId?: string;
+  categoryId?: string;
+  type?: TransactionType;
+  amount?: number;
+  description?: string;
+  merchantName?: string | null;
+  notes?: string | null;
+  tags?: string[];
+  frequency?: RecurrenceFrequency;
+  interval?: number;
+  weekday?: number | null;
+  weekOfMonth?: number | null;
+  startDate?: Date | string;
+  endDate?: Date | string | null;
+  maxOccurrences?: number | null;
+  isActive?: boolean;
+}
+
+/**
+ * Recurring rule list filters (validated query string)
+ */
+export interface RecurringRuleFilters {
+  page: number;
+  limit: number;
+  isActive?: boolean;
+  accountId?: string;
+}
+
+/**
+ * Recurring rule model utility functions
+ */
+export class RecurringRuleModel {
+  /**
+   * Convert a database row to the API response shape
+   */
+  static toResponse(rule: RecurringRule): RecurringRuleResponse {
+    return {
+      id: rule.id,
+      userId: rule.user_id,
+      accountId: rule.account_id,
+      categoryId: rule.category_id,
+      type: rule.type,
+      amount: Number(rule.amount),
+      description: rule.description,
+      merchantName: rule.merchant_name,
+      notes: rule.notes,
+      tags: rule.tags || [],
+      frequency: rule.frequency,
+      interval: rule.interval_count,
+      weekday: rule.weekday,
+      weekOfMonth: rule.week_of_month,
+      startDate: toDateOnlyString(rule.start_date)!,
+      endDate: toDateOnlyString(rule.end_date),
+      maxOccurrences: rule.max_occurrences,
+      occurrencesCreated: rule.occurrences_created,
+      nextOccurrence: toDateOnlyString(rule.next_occurrence_date),
+      lastOccurrence: toDateOnlyString(rule.last_occurrence_date),
+      isActive: rule.is_active,
+      createdAt: rule.created_at,
+      updatedAt: rule.updated_at
+    };
+  }
+
+  /**
+   * Date (YYYY-MM-DD) of the index-th occurrence counted from the start date.
+   * Month-based schedules either keep the start date's day of month, clamped
+   * to shorter months, or fall on the nth weekday when weekday and
+   * week_of_month are set.
+   */
+  static occurrenceDate(schedule: RecurrenceSchedule, index: number): string {
+    const [year, month, day] = toDateOnlyString(schedule.start_date)!.split('-').map(Number) as [number, number, number];
+    const step = index * schedule.interval_count;
+
+    if (schedule.frequency === RecurrenceFrequency.DAILY || schedule.frequency === RecurrenceFrequency.WEEKLY) {
+      const days = schedule.frequency === RecurrenceFrequency.DAILY ? step : step * 7;
+      return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+    }
+
+    const months = schedule.frequency === RecurrenceFrequency.MONTHLY ? step : step * 12;
+    const target = new Date(Date.UTC(year, month - 1 + months, 1));
+    const targetYear = target.getUTCFullYear();
+    const targetMonth = target.getUTCMonth();
+    const lastDay = new Date(Date.UTC(targetYear, targetMonth + 1, 0)).getUTCDate();
+
+    let targetDay: number;
+    if (schedule.weekday !== null && schedule.week_of_month !== null) {
+      if (schedule.week_of_month === LAST_WEEK_OF_MONTH) {
+        const lastWeekday = new Date(Date.UTC(targetYear, targetMonth, lastDay)).getUTCDay();
+        targetDay = lastDay - ((lastWeekday - schedule.weekday + 7) % 7);
+      } else {
+        const firstWeekday = target.getUTCDay();
+        targetDay = 1 + ((schedule.weekday - firstWeekday + 7) % 7) + (schedule.week_of_month - 1) * 7;
+      }
+    } else {
+      targetDay = Math.min(day, lastDay);
+    }
+
+    return new Date(Date.UTC(targetYear, targetMonth, targetDay)).toISOString().slice(0, 10);
+  }
+
+  /**
+   * Index of the first occurrence on or after the start date. An nth-weekday
+   * schedule can fall before the start date in the starting month.
+   */
+  static firstOccurrenceIndex(schedule: RecurrenceSchedule): number {
+    return this.occurrenceDate(schedule, 0) < toDateOnlyString(schedule.start_date)! ? 1 : 0;
+  }
+
+  /**
+   * Index of the first occurrence after the given date
+   */
+  static indexAfter(schedule: RecurrenceSchedule, date: string | null): number {
+    let index = this.firstOccurrenceIndex(schedule);
+    if (!date) return index;
+
+    while (this.occurrenceDate(schedule, index) <= date) {
+      index++;
+    }
+
+    return index;
+  }
+
+  /**
+   * The occurrence at index, or null when the series has ended by then.
+   * occurrencesBefore counts the occurrences (created or skipped) ahead of it.
+   */
+  static occurrenceWithinLimits(
+    schedule: RecurrenceSchedule,
+    limits: Pick<RecurringRule, 'end_date' | 'max_occurrences'>,
+    index: number,
+    occurrencesBefore: number
+  ): string | null {
+    if (limits.max_occurrences !== null && occurrencesBefore >= limits.max_occurrences) {
+      return null;
+    }
+
+    const date = this.occurrenceDate(schedule, index);
+    const endDate = toDateOnlyString(limits.end_date);
+
+    return endDate && date > endDate ? null : date;
+  }
+}
@@ -0,0 +1,87 @@
+import { BudgetPeriod } from './Budget';
+
+/**
+ * Report filters (validated query string)
+ */
+export interface ReportFilters {
+  startDate: Date | string;
+  endDate: Date | string;
+  categoryIds?: string[];
+  accountIds?: string[];
+  // Transactions carrying any of the tags
+  tags?: string[];
+}
+
+/**
+ * Totals for one category within a transaction type
+ */
+export interface CategorySummary {
+  categoryId: string;
+  categoryName: string;
+  totalAmount: number;
+  transactionCount: number;
+  percentage: number;
+}
+
+/**
+ * Totals for one tag within a transaction type. A transaction with several
+ * tags counts towards each, so percentages are of the type's total and need
+ * not add up to 100.
+ */
+export interface TagSummary {
+  tag: string;
+  totalAmount: number;
+  transactionCount: number;
+  percentage: number;
+}
+
+/**
+ * Income and expense for one calendar month (YYYY-MM)
+ */
+export interface MonthlyTrend {
+  month: string;
+  income: number;
+  expense: number;
+  balance: number;
+}
+
+/**
+ * Spending against a budget whose period overlaps the report range
+ */
+export interface BudgetProgress {
+  budgetId: string;
+  categoryId: string;
+  categoryName: string;
+  currency: string;
+  budgetAmount: number;
+  spentAmount: number;
+  remainingAmount: number;
+  percentage: number;
+  period: BudgetPeriod;
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Report shape returned by the API - matches the frontend ReportsResponse type
+ */
+export interface ReportsResponse {
+  currency: string;
+  missingRates: string[];
+  summary: {
+    totalIncome: number;
+    totalExpense: number;
+    balance: number;
+    transactionCount: number;
+  };
+  categoryBreakdown: {
+    income: CategorySummary[];
+    expense: CategorySummary[];
+  };
+  tagBreakdown: {
+    income: TagSummary[];
+    expense: TagSummary[];
+  };
+  monthlyTrends: MonthlyTrend[];
+  budgetProgress: BudgetProgress[];
+}
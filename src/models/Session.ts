@@ -0,0 +1,63 @@
+/**
+ * Core Session Interface - matches database schema.
+ *
+ * A session is one signed-in device. It is active until it expires or is
+ * revoked; its id is the sid claim of the tokens issued to the device.
+ */
+export interface Session {
+  id: string;
+  user_id: string;
+  device_name: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: Date;
+  last_seen_at: Date;
+  expires_at: Date;
+  revoked_at: Date | null;
+}
+
+/**
+ * Session shape returned by the API (camelCase)
+ */
+export interface SessionResponse {
+  id: string;
+  deviceName: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  // The session the request was made with
+  current: boolean;
+}
+
+/**
+ * Where a new session signs in from
+ */
+export interface SessionDevice {
+  // Name chosen on the device; derived from the user agent when null
+  deviceName: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+/**
+ * Session model utility functions
+ */
+export class SessionModel {
+  /**
+   * Convert a database row to the API response shape
+   */
+  static toResponse(session: Session, currentSessionId?: string): SessionResponse {
+    return {
+      id: session.id,
+      deviceName: session.device_name,
+      userAgent: session.user_agent,
+      ipAddress: session.ip_address,
+      createdAt: session.created_at,
+      lastSeenAt: session.last_seen_at,
+      expiresAt: session.expires_at,
+      current: session.id === currentSessionId
+    };
+  }
+}
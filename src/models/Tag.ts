@@ -0,0 +1,34 @@
+/**
+ * Tags are the free-form labels in the tags array of transactions and
+ * recurring rules. They have no table of their own: a tag exists while
+ * something carries it, and names are case-sensitive.
+ */
+
+/**
+ * A tag with how often it is used (API shape)
+ */
+export interface TagUsage {
+  name: string;
+  transactionCount: number;
+  // Date of the latest transaction carrying the tag (YYYY-MM-DD)
+  lastUsed: string | null;
+}
+
+/**
+ * Tag list filters (validated query string)
+ */
+export interface TagFilters {
+  // Case-insensitive part of the name
+  search?: string;
+  sortBy: 'name' | 'count';
+}
+
+/**
+ * Outcome of renaming, merging or deleting tags
+ */
+export interface TagChangeResult {
+  // The tag the sources were merged into; null after a delete
+  tag: string | null;
+  transactionsUpdated: number;
+  recurringRulesUpdated: number;
+}
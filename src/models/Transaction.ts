@@ -0,0 +1,340 @@
+import { toDateOnlyString } from '../utils/date';
+
+/**
+ * Transaction Type Enum - matches the transaction_type database enum
+ */
+export enum TransactionType {
+  INCOME = 'income',
+  EXPENSE = 'expense',
+  TRANSFER = 'transfer'
+}
+
+/**
+ * Transfer leg direction - matches the transfer_direction database enum
+ */
+export enum TransferDirection {
+  OUTGOING = 'outgoing',
+  INCOMING = 'incoming'
+}
+
+/**
+ * Core Transaction Interface - matches database schema
+ */
+export interface Transaction {
+  id: string;
+  user_id: string;
+  account_id: string;
+  category_id: string | null;
+  type: TransactionType;
+  amount: string | number;
+  currency: string;
+  description: string;
+  transaction_date: Date | string;
+  transfer_account_id: string | null;
+  transfer_transaction_id: string | null;
+  transfer_direction: TransferDirection | null;
+  tags: string[] | null;
+  receipt_url: string | null;
+  notes: string | null;
+  reference_number: string | null;
+  is_recurring: boolean;
+  recurring_group_id: string | null;
+  import_id: string | null;
+  merchant_name: string | null;
+  latitude: string | number | null;
+  longitude: string | number | null;
+  metadata: Record<string, any> | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Transaction row joined with its category and account names
+ */
+export interface TransactionWithRelations extends Transaction {
+  category_name?: string | null;
+  account_name?: string | null;
+}
+
+/**
+ * Transaction shape returned by the API (camelCase, matches the frontend Transaction type)
+ */
+export interface TransactionResponse {
+  id: string;
+  userId: string;
+  accountId: string;
+  accountName: string | null;
+  categoryId: string | null;
+  categoryName: string | null;
+  type: TransactionType;
+  amount: number;
+  currency: string;
+  description: string;
+  date: string | null;
+  tags: string[];
+  receiptUrl: string | null;
+  notes: string | null;
+  referenceNumber: string | null;
+  merchantName: string | null;
+  isRecurring: boolean;
+  recurringGroupId: string | null;
+  importId: string | null;
+  transferAccountId: string | null;
+  transferTransactionId: string | null;
+  transferDirection: TransferDirection | null;
+  metadata: Record<string, any> | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Transaction creation data (validated request body)
+ */
+export interface CreateTransactionData {
+  amount: number;
+  description: string;
+  // Chosen by the categorization rules when omitted
+  categoryId?: string;
+  accountId: string;
+  type: TransactionType;
+  date: Date | string;
+  tags?: string[];
+  receiptUrl?: string;
+  notes?: string;
+  merchantName?: string;
+  referenceNumber?: string;
+  // Receipt draft the transaction was created from
+  receiptId?: string;
+}
+
+/**
+ * Transaction update data (validated request body)
+ */
+export interface UpdateTransactionData {
+  amount?: number;
+  description?: string;
+  categoryId?: string;
+  accountId?: string;
+  type?: TransactionType;
+  date?: Date | string;
+  tags?: string[];
+  receiptUrl?: string | null;
+  notes?: string | null;
+  merchantName?: string | null;
+  referenceNumber?: string | null;
+}
+
+/**
+ * Transfer creation data (validated request body)
+ */
+export interface CreateTransferData {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  receivedAmount?: number;
+  date: Date | string;
+  description?: string;
+  notes?: string;
+  tags?: string[];
+  referenceNumber?: string;
+}
+
+/**
+ * Transfer update data (validated request body)
+ */
+export interface UpdateTransferData {
+  fromAccountId?: string;
+  toAccountId?: string;
+  amount?: number;
+  receivedAmount?: number;
+  date?: Date | string;
+  description?: string;
+  notes?: string | null;
+  tags?: string[];
+  referenceNumber?: string | null;
+}
+
+/**
+ * Both legs of a transfer
+ */
+export interface TransferResponse {
+  outgoing: TransactionResponse;
+  incoming: TransactionResponse;
+}
+
+/**
+ * Income/expense totals for a period (transfers excluded)
+ */
+export interface TransactionSummary {
+  currency: string;
+  totalIncome: number;
+  totalExpense: number;
+  balance: number;
+  transactionCount: number;
+}
+
+/**
+ * Summary filters (validated query string)
+ */
+export interface TransactionSummaryFilters {
+  dateFrom?: Date | string;
+  dateTo?: Date | string;
+  startDate?: Date | string;
+  endDate?: Date | string;
+  accountId?: string;
+  categoryId?: string;
+}
+
+/**
+ * Details of a transaction being entered (validated query string)
+ */
+export interface CategorySuggestionQuery {
+  description: string;
+  merchantName?: string;
+  amount?: number;
+  type?: TransactionType.INCOME | TransactionType.EXPENSE;
+  limit: number;
+}
+
+/**
+ * A category the user's history suggests for a transaction
+ */
+export interface CategorySuggestion {
+  categoryId: string;
+  categoryName: string;
+  // 0-1
+  confidence: number;
+}
+
+/**
+ * Sortable fields exposed by the list endpoint mapped to their columns
+ */
+export const TRANSACTION_SORT_FIELDS = {
+  date: 'transaction_date',
+  amount: 'amount',
+  description: 'description',
+  createdAt: 'created_at'
+} as const;
+
+export type TransactionSortField = keyof typeof TRANSACTION_SORT_FIELDS;
+
+/**
+ * Transaction list filters (validated query string)
+ */
+export interface TransactionFilters {
+  page: number;
+  limit: number;
+  sortBy?: TransactionSortField;
+  sortOrder: 'asc' | 'desc';
+  search?: string;
+  categoryId?: string;
+  accountId?: string;
+  type?: TransactionType;
+  dateFrom?: Date | string;
+  dateTo?: Date | string;
+  startDate?: Date | string;
+  endDate?: Date | string;
+  minAmount?: number;
+  maxAmount?: number;
+  recurringGroupId?: string;
+  // Transactions carrying any of the tags
+  tags?: string[];
+}
+
+/**
+ * File formats of the transaction export
+ */
+export enum TransactionExportFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx'
+}
+
+/**
+ * Transaction export options (validated query string): the list filters
+ * without pagination. Rows are ordered by date.
+ */
+export interface TransactionExportFilters extends Omit<TransactionFilters, 'page' | 'limit' | 'sortBy'> {
+  format: TransactionExportFormat;
+}
+
+/**
+ * Transaction search options (validated query string); q uses the search
+ * syntax described in utils/searchQuery
+ */
+export interface TransactionSearchParams {
+  q: string;
+  page: number;
+  limit: number;
+  sortBy: 'relevance' | 'date' | 'amount';
+  sortOrder: 'asc' | 'desc';
+}
+
+/**
+ * A run of text that did or did not match the search
+ */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * The searched fields of a result that matched, split into segments
+ */
+export interface TransactionHighlights {
+  description?: HighlightSegment[];
+  merchantName?: HighlightSegment[];
+  // An excerpt around the matches
+  notes?: HighlightSegment[];
+}
+
+/**
+ * A transaction found by a search
+ */
+export interface TransactionSearchResult extends TransactionResponse {
+  highlights: TransactionHighlights;
+}
+
+/**
+ * Transaction model utility functions
+ */
+export class TransactionModel {
+  /**
+   * Convert a database row to the API response shape
+   */
+  static toResponse(transaction: TransactionWithRelations): TransactionResponse {
+    return {
+      id: transaction.id,
+      userId: transaction.user_id,
+      accountId: transaction.account_id,
+      accountName: transaction.account_name ?? null,
+      categoryId: transaction.category_id,
+      categoryName: transaction.category_name ?? null,
+      type: transaction.type,
+      amount: Number(transaction.amount),
+      currency: transaction.currency,
+      description: transaction.description,
+      date: toDateOnlyString(transaction.transaction_date),
+      tags: transaction.tags || [],
+      receiptUrl: transaction.receipt_url,
+      notes: transaction.notes,
+      referenceNumber: transaction.reference_number,
+      merchantName: transaction.merchant_name,
+      isRecurring: transaction.is_recurring,
+      recurringGroupId: transaction.recurring_group_id,
+      importId: transaction.import_id,
+      transferAccountId: transaction.transfer_account_id,
+      transferTransactionId: transaction.transfer_transaction_id,
+      transferDirection: transaction.transfer_direction,
+      metadata: transaction.metadata,
+      createdAt: transaction.created_at,
+      updatedAt: transaction.updated_at
+    };
+  }
+
+  /**
+   * Check whether a transaction is one leg of a transfer
+   */
+  static isTransfer(transaction: Pick<Transaction, 'type'>): boolean {
+    return transaction.type === TransactionType.TRANSFER;
+  }
+}
@@ -0,0 +1,52 @@
+import { AuthenticationCredential } from './Passkey';
+
+/**
+ * Two-factor authentication with time-based one-time passwords (TOTP).
+ * It is opt-in: a user starts setup, scans the secret into an authenticator
+ * app and confirms a code, which enables it and issues recovery codes.
+ */
+
+/**
+ * Whether a user has two-factor authentication (API shape)
+ */
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  // Unused recovery codes left
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * What an authenticator app needs to be set up
+ */
+export interface TwoFactorSetup {
+  // Base32, for typing in by hand
+  secret: string;
+  // otpauth:// URI, to show as a QR code
+  otpauthUrl: string;
+}
+
+/**
+ * A second factor presented by the user: a code from the authenticator
+ * app, one of the recovery codes or a passkey signature (validated so
+ * exactly one is set)
+ */
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+  passkey?: AuthenticationCredential;
+}
+
+/**
+ * Issued instead of tokens when the password was right but a second factor
+ * is still needed to finish signing in
+ */
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  expiresAt: Date;
+}
+
+/**
+ * Number of recovery codes issued at a time
+ */
+export const RECOVERY_CODE_COUNT = 10;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { TwoFactorChallenge } from './TwoFactor';
 
 /**
  * User Status Enum
@@ -15,7 +16,8 @@ export enum UserStatus {
 export interface User {
   id: string;
   email: string;
-  password_hash: string;
+  // Null for users who signed up through an OpenID Connect provider
+  password_hash: string | null;
   first_name: string;
   last_name: string;
   status: UserStatus;
@@ -61,6 +63,8 @@ export interface UpdateUserData {
 export interface UserLoginData {
   email: string;
   password: string;
+  // Name for the session started on this device
+  deviceName?: string;
 }
 
 /**
@@ -75,6 +79,15 @@ export interface UserAuthResult {
   };
 }
 
+/**
+ * Result of a password check for a user with two-factor authentication:
+ * signing in continues with the challenge and a second factor
+ */
+export interface UserTwoFactorRequired {
+  user: UserSafe;
+  twoFactorChallenge: TwoFactorChallenge;
+}
+
 /**
  * User session information
  */
@@ -83,6 +96,7 @@ export interface UserSession {
   email: string;
   activeSessions: number;
   currentSession: {
+    id: string;
     authenticated: boolean;
     loginTime: Date;
   };
@@ -0,0 +1,91 @@
+import { Router } from 'express';
+import { AccountController } from '../controllers/accountController';
+import { authenticate } from '../middleware/auth';
+import {
+  validateAccountCreate,
+  validateAccountUpdate,
+  validateAccountGetById,
+  validateAccountGetAll,
+  validateAccountDelete,
+  validateAccountReorder
+} from '../middleware/validation';
+
+const router = Router();
+
+// All account routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/accounts
+ * @desc    List accounts in display order (active only unless isActive is given)
+ * @access  Private
+ * @query   { page?, limit?, type?, isActive?, currency? }
+ */
+router.get('/',
+  validateAccountGetAll,
+  AccountController.getAccounts
+);
+
+/**
+ * @route   GET /api/v1/accounts/net-worth
+ * @desc    Assets, liabilities and net worth per currency
+ * @access  Private
+ */
+router.get('/net-worth',
+  AccountController.getNetWorth
+);
+
+/**
+ * @route   PUT /api/v1/accounts/reorder
+ * @desc    Set the display order of active accounts
+ * @access  Private
+ * @body    { accountIds }
+ */
+router.put('/reorder',
+  validateAccountReorder,
+  AccountController.reorderAccounts
+);
+
+/**
+ * @route   GET /api/v1/accounts/:id
+ * @desc    Get a single account
+ * @access  Private
+ */
+router.get('/:id',
+  validateAccountGetById,
+  AccountController.getAccount
+);
+
+/**
+ * @route   POST /api/v1/accounts
+ * @desc    Create an account
+ * @access  Private
+ * @body    { name, type, balance?, currency?, description?, creditLimit?, includeInNetWorth?, institutionName?, accountNumber? }
+ */
+router.post('/',
+  validateAccountCreate,
+  AccountController.createAccount
+);
+
+/**
+ * @route   PUT /api/v1/accounts/:id
+ * @desc    Update an account (isActive: true reactivates it)
+ * @access  Private
+ * @body    { name?, type?, balance?, currency?, description?, creditLimit?, includeInNetWorth?, institutionName?, accountNumber?, isActive? }
+ */
+router.put('/:id',
+  validateAccountUpdate,
+  AccountController.updateAccount
+);
+
+/**
+ * @route   DELETE /api/v1/accounts/:id
+ * @desc    Deactivate an account, keeping its transaction history
+ * @access  Private
+ */
+router.delete('/:id',
+  validateAccountDelete,
+  AccountController.deleteAccount
+);
+
+export default router;
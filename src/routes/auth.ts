@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import rateLimit from 'express-rate-limit';
 import { AuthController } from '../controllers/authController';
-import { authenticate, refreshTokenMiddleware } from '../middleware/auth';
+import { authenticate, refreshTokenMiddleware, requireTwoFactorStepUp } from '../middleware/auth';
 import {
   validateRegistration,
   validateLogin,
@@ -11,6 +11,18 @@ import {
   validateEmailVerification,
   validateProfileUpdate,
   validateRefreshToken,
+  validateSessionId,
+  validateTwoFactorCode,
+  validateSecondFactor,
+  validateTwoFactorLogin,
+  validatePasskeyLoginOptions,
+  validatePasskeyLogin,
+  validatePasskeyRegistration,
+  validatePasskeyId,
+  validatePasskeyRename,
+  validateOidcProvider,
+  validateOidcLogin,
+  validateIdentityLink,
   sanitizeInput,
   setAuthSecurityHeaders
 } from '../middleware/authValidation';
@@ -98,9 +110,9 @@ router.post('/register',
 
 /**
  * @route   POST /api/v1/auth/login
- * @desc    Login user
+ * @desc    Login user, starting a session for the device
  * @access  Public
- * @body    { email, password }
+ * @body    { email, password, deviceName? }
  */
 router.post('/login', 
   authRateLimit,
@@ -108,9 +120,79 @@ router.post('/login',
   AuthController.login
 );
 
+/**
+ * @route   POST /api/v1/auth/login/2fa
+ * @desc    Finish signing in with a second factor after the password was accepted
+ * @access  Public
+ * @body    { challengeToken, code? | recoveryCode? | passkey? }
+ */
+router.post('/login/2fa',
+  authRateLimit,
+  validateTwoFactorLogin,
+  AuthController.loginTwoFactor
+);
+
+/**
+ * @route   POST /api/v1/auth/passkeys/login-options
+ * @desc    Get options for navigator.credentials.get(): a passwordless sign-in, or the
+ *          second factor of a challenged login when its challenge token is given
+ * @access  Public
+ * @body    { challengeToken? }
+ */
+router.post('/passkeys/login-options',
+  validatePasskeyLoginOptions,
+  AuthController.getPasskeyLoginOptions
+);
+
+/**
+ * @route   POST /api/v1/auth/login/passkey
+ * @desc    Sign in with a passkey instead of the password, starting a session for the device
+ * @access  Public
+ * @body    { credential, deviceName? }
+ */
+router.post('/login/passkey',
+  authRateLimit,
+  validatePasskeyLogin,
+  AuthController.loginWithPasskey
+);
+
+/**
+ * @route   GET /api/v1/auth/oidc/providers
+ * @desc    List the OpenID Connect providers users can sign in with
+ * @access  Public
+ */
+router.get('/oidc/providers',
+  AuthController.getOidcProviders
+);
+
+/**
+ * @route   POST /api/v1/auth/oidc/:provider/authorize
+ * @desc    Start signing in at a provider: returns the authorization URL (code flow with PKCE)
+ *          and sets a cookie tying the sign-in to this browser
+ * @access  Public
+ */
+router.post('/oidc/:provider/authorize',
+  validateOidcProvider,
+  AuthController.startOidcLogin
+);
+
+/**
+ * @route   POST /api/v1/auth/login/oidc
+ * @desc    Finish signing in with the code the provider redirected back with. Creates the user
+ *          or links them by verified email on first use; may require a second factor. Only works
+ *          in the browser that started the sign-in (its cookie)
+ * @access  Public
+ * @body    { state, code, deviceName? }
+ */
+router.post('/login/oidc',
+  authRateLimit,
+  validateOidcLogin,
+  AuthController.loginWithOidc
+);
+
 /**
  * @route   POST /api/v1/auth/refresh
- * @desc    Refresh access token
+ * @desc    Exchange a refresh token for a new access and refresh token; reusing one signs its device out
  * @access  Public
  * @body    { refreshToken? } or Cookie: refreshToken
  */
@@ -198,12 +280,13 @@ router.post('/reset-password',
 
 /**
  * @route   PUT /api/v1/auth/change-password
- * @desc    Change password (authenticated user)
+ * @desc    Change password (authenticated user; needs a recent second factor with two-factor authentication)
  * @access  Private
  * @body    { currentPassword, newPassword }
  */
 router.put('/change-password',
   authenticate,
+  requireTwoFactorStepUp,
   validatePasswordChange,
   AuthController.changePassword
 );
@@ -230,6 +313,210 @@ router.get('/session',
   AuthController.sessionInfo
 );
 
+/**
+ * @route   GET /api/v1/auth/sessions
+ * @desc    List the devices the user is signed in on
+ * @access  Private
+ */
+router.get('/sessions',
+  authenticate,
+  AuthController.listSessions
+);
+
+/**
+ * @route   DELETE /api/v1/auth/sessions/:id
+ * @desc    Sign out one device
+ * @access  Private
+ */
+router.delete('/sessions/:id',
+  authenticate,
+  validateSessionId,
+  AuthController.revokeSession
+);
+
+/**
+ * @route   GET /api/v1/auth/2fa
+ * @desc    Get two-factor authentication status
+ * @access  Private
+ */
+router.get('/2fa',
+  authenticate,
+  AuthController.getTwoFactorStatus
+);
+
+/**
+ * @route   POST /api/v1/auth/2fa/setup
+ * @desc    Start setting up an authenticator app; returns the secret and its otpauth:// URI
+ * @access  Private
+ */
+router.post('/2fa/setup',
+  authenticate,
+  AuthController.setupTwoFactor
+);
+
+/**
+ * @route   POST /api/v1/auth/2fa/enable
+ * @desc    Confirm a code from the authenticator app to turn two-factor authentication on; returns recovery codes
+ * @access  Private
+ * @body    { code }
+ */
+router.post('/2fa/enable',
+  authRateLimit,
+  authenticate,
+  validateTwoFactorCode,
+  AuthController.enableTwoFactor
+);
+
+/**
+ * @route   POST /api/v1/auth/2fa/verify
+ * @desc    Enter a second factor to unlock sensitive actions on this session for a while
+ * @access  Private
+ * @body    { code? | recoveryCode? | passkey? }
+ */
+router.post('/2fa/verify',
+  authRateLimit,
+  authenticate,
+  validateSecondFactor,
+  AuthController.verifyTwoFactor
+);
+
+/**
+ * @route   POST /api/v1/auth/2fa/recovery-codes
+ * @desc    Replace the recovery codes with a new set
+ * @access  Private (recent second factor)
+ */
+router.post('/2fa/recovery-codes',
+  authenticate,
+  requireTwoFactorStepUp,
+  AuthController.regenerateRecoveryCodes
+);
+
+/**
+ * @route   DELETE /api/v1/auth/2fa
+ * @desc    Turn two-factor authentication off
+ * @access  Private (recent second factor)
+ */
+router.delete('/2fa',
+  authenticate,
+  requireTwoFactorStepUp,
+  AuthController.disableTwoFactor
+);
+
+/**
+ * @route   POST /api/v1/auth/passkeys/verify-options
+ * @desc    Get options for navigator.credentials.get() to confirm this session with a passkey
+ * @access  Private
+ */
+router.post('/passkeys/verify-options',
+  authenticate,
+  AuthController.getPasskeyVerifyOptions
+);
+
+/**
+ * @route   GET /api/v1/auth/passkeys
+ * @desc    List the user's passkeys
+ * @access  Private
+ */
+router.get('/passkeys',
+  authenticate,
+  AuthController.listPasskeys
+);
+
+/**
+ * @route   POST /api/v1/auth/passkeys/registration-options
+ * @desc    Get options for navigator.credentials.create() to add a passkey
+ * @access  Private (recent second factor)
+ */
+router.post('/passkeys/registration-options',
+  authenticate,
+  requireTwoFactorStepUp,
+  AuthController.getPasskeyRegistrationOptions
+);
+
+/**
+ * @route   POST /api/v1/auth/passkeys
+ * @desc    Add the passkey created for the registration options
+ * @access  Private (recent second factor)
+ * @body    { credential, name? }
+ */
+router.post('/passkeys',
+  authenticate,
+  requireTwoFactorStepUp,
+  validatePasskeyRegistration,
+  AuthController.registerPasskey
+);
+
+/**
+ * @route   PATCH /api/v1/auth/passkeys/:id
+ * @desc    Rename a passkey
+ * @access  Private
+ * @body    { name }
+ */
+router.patch('/passkeys/:id',
+  authenticate,
+  validatePasskeyRename,
+  AuthController.renamePasskey
+);
+
+/**
+ * @route   DELETE /api/v1/auth/passkeys/:id
+ * @desc    Remove a passkey
+ * @access  Private (recent second factor)
+ */
+router.delete('/passkeys/:id',
+  authenticate,
+  requireTwoFactorStepUp,
+  validatePasskeyId,
+  AuthController.removePasskey
+);
+
+/**
+ * @route   GET /api/v1/auth/identities
+ * @desc    List the provider accounts linked to the user
+ * @access  Private
+ */
+router.get('/identities',
+  authenticate,
+  AuthController.listIdentities
+);
+
+/**
+ * @route   POST /api/v1/auth/identities/:provider/authorize
+ * @desc    Start linking an account at a provider: returns the authorization URL
+ * @access  Private (recent second factor)
+ */
+router.post('/identities/:provider/authorize',
+  authenticate,
+  requireTwoFactorStepUp,
+  validateOidcProvider,
+  AuthController.startIdentityLink
+);
+
+/**
+ * @route   POST /api/v1/auth/identities
+ * @desc    Link the provider account the code the provider redirected back with belongs to
+ * @access  Private (recent second factor)
+ * @body    { state, code }
+ */
+router.post('/identities',
+  authenticate,
+  requireTwoFactorStepUp,
+  validateIdentityLink,
+  AuthController.linkIdentity
+);
+
+/**
+ * @route   DELETE /api/v1/auth/identities/:provider
+ * @desc    Unlink the user's account at a provider, unless it is their only way to sign in
+ * @access  Private (recent second factor)
+ */
+router.delete('/identities/:provider',
+  authenticate,
+  requireTwoFactorStepUp,
+  validateOidcProvider,
+  AuthController.unlinkIdentity
+);
+
 /**
  * @route   GET /api/v1/auth/security
  * @desc    Get user security information and metrics
@@ -285,10 +572,11 @@ router.use((error: any, req: any, res: any, next: any) => {
     });
   }
 
-  // Default error response
-  res.status(error.status || 500).json({
+  // Default error response (AppErrors carry their status as statusCode)
+  const status = error.statusCode || error.status || 500;
+  res.status(status).json({
     success: false,
-    message: error.status === 500 ? 'Internal server error' : error.message
+    message: status === 500 ? 'Internal server error' : error.message
   });
 });
 
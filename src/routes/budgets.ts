@@ -0,0 +1,80 @@
+import { Router } from 'express';
+import { BudgetController } from '../controllers/budgetController';
+import { authenticate } from '../middleware/auth';
+import {
+  validateBudgetCreate,
+  validateBudgetUpdate,
+  validateBudgetGetById,
+  validateBudgetGetAll,
+  validateBudgetDelete
+} from '../middleware/validation';
+
+const router = Router();
+
+// All budget routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/budgets
+ * @desc    List budgets with spent, remaining and percentage used
+ * @access  Private
+ * @query   { page?, limit?, categoryId?, period?, isActive?, startDate?, endDate? }
+ */
+router.get('/',
+  validateBudgetGetAll,
+  BudgetController.getBudgets
+);
+
+/**
+ * @route   GET /api/v1/budgets/:id
+ * @desc    Get a single budget with its progress
+ * @access  Private
+ */
+router.get('/:id',
+  validateBudgetGetById,
+  BudgetController.getBudget
+);
+
+/**
+ * @route   GET /api/v1/budgets/:id/history
+ * @desc    List every period of a recurring budget, oldest first
+ * @access  Private
+ */
+router.get('/:id/history',
+  validateBudgetGetById,
+  BudgetController.getBudgetHistory
+);
+
+/**
+ * @route   POST /api/v1/budgets
+ * @desc    Create a budget for a category and period
+ * @access  Private
+ * @body    { name, amount, categoryId, period, startDate, endDate?, currency?, alertThreshold?, rolloverUnused?, rolloverOverspent?, description? }
+ */
+router.post('/',
+  validateBudgetCreate,
+  BudgetController.createBudget
+);
+
+/**
+ * @route   PUT /api/v1/budgets/:id
+ * @desc    Update a budget
+ * @access  Private
+ * @body    { name?, amount?, categoryId?, period?, startDate?, endDate?, alertThreshold?, rolloverUnused?, rolloverOverspent?, description?, isActive? }
+ */
+router.put('/:id',
+  validateBudgetUpdate,
+  BudgetController.updateBudget
+);
+
+/**
+ * @route   DELETE /api/v1/budgets/:id
+ * @desc    Deactivate a budget
+ * @access  Private
+ */
+router.delete('/:id',
+  validateBudgetDelete,
+  BudgetController.deleteBudget
+);
+
+export default router;
@@ -0,0 +1,94 @@
+import { Router } from 'express';
+import { CategoryController } from '../controllers/categoryController';
+import { authenticate } from '../middleware/auth';
+import {
+  validateCategoryCreate,
+  validateCategoryUpdate,
+  validateCategoryGetById,
+  validateCategoryGetAll,
+  validateCategoryMove,
+  validateCategoryMerge,
+  validateCategoryDelete
+} from '../middleware/validation';
+
+const router = Router();
+
+// All category routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/categories
+ * @desc    List the user's and system categories as a tree
+ * @access  Private
+ * @query   { isActive?, search?, flat? }
+ */
+router.get('/',
+  validateCategoryGetAll,
+  CategoryController.getCategories
+);
+
+/**
+ * @route   GET /api/v1/categories/:id
+ * @desc    Get a category with its subtree
+ * @access  Private
+ */
+router.get('/:id',
+  validateCategoryGetById,
+  CategoryController.getCategory
+);
+
+/**
+ * @route   POST /api/v1/categories
+ * @desc    Create a category
+ * @access  Private
+ * @body    { name, description?, color?, icon?, parentId?, displayOrder? }
+ */
+router.post('/',
+  validateCategoryCreate,
+  CategoryController.createCategory
+);
+
+/**
+ * @route   PUT /api/v1/categories/:id
+ * @desc    Update a category (system categories are read-only)
+ * @access  Private
+ * @body    { name?, description?, color?, icon?, parentId?, displayOrder?, isActive? }
+ */
+router.put('/:id',
+  validateCategoryUpdate,
+  CategoryController.updateCategory
+);
+
+/**
+ * @route   POST /api/v1/categories/:id/move
+ * @desc    Move a category and its subtree under another parent (null for top level)
+ * @access  Private
+ * @body    { parentId, displayOrder? }
+ */
+router.post('/:id/move',
+  validateCategoryMove,
+  CategoryController.moveCategory
+);
+
+/**
+ * @route   POST /api/v1/categories/:id/merge
+ * @desc    Merge a category into another, moving its transactions, budgets and subcategories
+ * @access  Private
+ * @body    { targetCategoryId }
+ */
+router.post('/:id/merge',
+  validateCategoryMerge,
+  CategoryController.mergeCategory
+);
+
+/**
+ * @route   DELETE /api/v1/categories/:id
+ * @desc    Deactivate a category (system categories cannot be deleted)
+ * @access  Private
+ */
+router.delete('/:id',
+  validateCategoryDelete,
+  CategoryController.deleteCategory
+);
+
+export default router;
@@ -0,0 +1,88 @@
+import { Router } from 'express';
+import { CategorizationRuleController } from '../controllers/categorizationRuleController';
+import { authenticate } from '../middleware/auth';
+import {
+  validateCategorizationRuleCreate,
+  validateCategorizationRuleUpdate,
+  validateCategorizationRuleGetById,
+  validateCategorizationRuleReorder
+} from '../middleware/validation';
+
+const router = Router();
+
+// All categorization rule routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/categorization-rules
+ * @desc    List categorization rules in the order they are tried
+ * @access  Private
+ */
+router.get('/',
+  CategorizationRuleController.getRules
+);
+
+/**
+ * @route   PUT /api/v1/categorization-rules/reorder
+ * @desc    Set the order rules are tried in (every rule must be listed)
+ * @access  Private
+ * @body    { ruleIds }
+ */
+router.put('/reorder',
+  validateCategorizationRuleReorder,
+  CategorizationRuleController.reorderRules
+);
+
+/**
+ * @route   GET /api/v1/categorization-rules/:id
+ * @desc    Get a single categorization rule
+ * @access  Private
+ */
+router.get('/:id',
+  validateCategorizationRuleGetById,
+  CategorizationRuleController.getRule
+);
+
+/**
+ * @route   POST /api/v1/categorization-rules
+ * @desc    Create a rule, tried after the existing ones; at least one condition is required
+ * @access  Private
+ * @body    { categoryId, merchantName?, descriptionPattern?, minAmount?, maxAmount?, accountId? }
+ */
+router.post('/',
+  validateCategorizationRuleCreate,
+  CategorizationRuleController.createRule
+);
+
+/**
+ * @route   PUT /api/v1/categorization-rules/:id
+ * @desc    Update a rule's category, conditions or active flag
+ * @access  Private
+ * @body    { categoryId?, merchantName?, descriptionPattern?, minAmount?, maxAmount?, accountId?, isActive? }
+ */
+router.put('/:id',
+  validateCategorizationRuleUpdate,
+  CategorizationRuleController.updateRule
+);
+
+/**
+ * @route   DELETE /api/v1/categorization-rules/:id
+ * @desc    Delete a rule; transactions keep their categories
+ * @access  Private
+ */
+router.delete('/:id',
+  validateCategorizationRuleGetById,
+  CategorizationRuleController.deleteRule
+);
+
+/**
+ * @route   POST /api/v1/categorization-rules/:id/apply
+ * @desc    Move existing income and expense transactions that match the rule into its category
+ * @access  Private
+ */
+router.post('/:id/apply',
+  validateCategorizationRuleGetById,
+  CategorizationRuleController.applyRule
+);
+
+export default router;
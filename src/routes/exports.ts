@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import { DataExportController } from '../controllers/dataExportController';
+import { authenticate, requireTwoFactorStepUp } from '../middleware/auth';
+import { exportRateLimit } from '../middleware/security';
+import { validateExportGetById, validateExportDownload } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * @route   GET /api/v1/exports/:id/download
+ * @desc    Download an export archive through a signed link from POST /exports/:id/link
+ * @access  Public (signed link)
+ * @query   { expires, signature }
+ */
+router.get('/:id/download',
+  validateExportDownload,
+  DataExportController.download
+);
+
+// All other export routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/exports
+ * @desc    List the user's data exports
+ * @access  Private
+ */
+router.get('/',
+  DataExportController.getExports
+);
+
+/**
+ * @route   POST /api/v1/exports
+ * @desc    Queue a zip archive of the user's profile, accounts, categories, transactions and budgets as JSON and CSV
+ * @access  Private (recent second factor with two-factor authentication)
+ */
+router.post('/',
+  requireTwoFactorStepUp,
+  exportRateLimit,
+  DataExportController.requestExport
+);
+
+/**
+ * @route   GET /api/v1/exports/:id
+ * @desc    Get the status of a data export
+ * @access  Private
+ */
+router.get('/:id',
+  validateExportGetById,
+  DataExportController.getExport
+);
+
+/**
+ * @route   POST /api/v1/exports/:id/link
+ * @desc    Create a short-lived signed download link for a ready export
+ * @access  Private (recent second factor with two-factor authentication)
+ */
+router.post('/:id/link',
+  requireTwoFactorStepUp,
+  validateExportGetById,
+  DataExportController.createLink
+);
+
+export default router;
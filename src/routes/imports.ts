@@ -0,0 +1,119 @@
+import { Router } from 'express';
+import { ImportController } from '../controllers/importController';
+import { authenticate } from '../middleware/auth';
+import { uploadRateLimit, transactionRateLimit } from '../middleware/security';
+import { uploadStatement, validateUploadedFile, cleanupFailedUploads } from '../middleware/upload';
+import {
+  validateImportMappingCreate,
+  validateImportMappingUpdate,
+  validateImportGetById,
+  validateImportGetAll,
+  validateImportCreate,
+  validateImportCommit
+} from '../middleware/validation';
+
+const router = Router();
+
+// All import routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/imports/mappings
+ * @desc    List saved CSV column mappings
+ * @access  Private
+ */
+router.get('/mappings',
+  ImportController.getMappings
+);
+
+/**
+ * @route   POST /api/v1/imports/mappings
+ * @desc    Save the CSV column layout of an institution
+ * @access  Private
+ * @body    { name, delimiter?, hasHeader?, skipRows?, dateFormat?, decimalSeparator?, dateColumn, descriptionColumn, amountColumn? | debitColumn + creditColumn, merchantColumn?, referenceColumn?, negateAmounts? }
+ */
+router.post('/mappings',
+  validateImportMappingCreate,
+  ImportController.createMapping
+);
+
+/**
+ * @route   PUT /api/v1/imports/mappings/:id
+ * @desc    Update a saved CSV column mapping
+ * @access  Private
+ */
+router.put('/mappings/:id',
+  validateImportMappingUpdate,
+  ImportController.updateMapping
+);
+
+/**
+ * @route   DELETE /api/v1/imports/mappings/:id
+ * @desc    Delete a saved CSV column mapping
+ * @access  Private
+ */
+router.delete('/mappings/:id',
+  validateImportGetById,
+  ImportController.deleteMapping
+);
+
+/**
+ * @route   GET /api/v1/imports
+ * @desc    List statement imports (without their rows)
+ * @access  Private
+ * @query   { page?, limit? }
+ */
+router.get('/',
+  validateImportGetAll,
+  ImportController.getImports
+);
+
+/**
+ * @route   POST /api/v1/imports
+ * @desc    Upload a CSV, OFX or QFX statement and parse it into a preview with duplicates flagged
+ * @access  Private
+ * @body    multipart: statement (file), accountId, format?, mappingId? (required for CSV)
+ */
+router.post('/',
+  uploadRateLimit,
+  uploadStatement,
+  validateUploadedFile,
+  validateImportCreate,
+  ImportController.createImport,
+  cleanupFailedUploads
+);
+
+/**
+ * @route   GET /api/v1/imports/:id
+ * @desc    Get an import preview with its parsed rows
+ * @access  Private
+ */
+router.get('/:id',
+  validateImportGetById,
+  ImportController.getImport
+);
+
+/**
+ * @route   POST /api/v1/imports/:id/commit
+ * @desc    Import the accepted rows into the account in one transaction; rows without
+ *          a categoryId are categorized by the categorization rules, then the default categoryId
+ * @access  Private
+ * @body    { categoryId, rows?: [{ index, categoryId? }] } - without rows, every valid non-duplicate row is imported
+ */
+router.post('/:id/commit',
+  transactionRateLimit,
+  validateImportCommit,
+  ImportController.commitImport
+);
+
+/**
+ * @route   DELETE /api/v1/imports/:id
+ * @desc    Discard an import preview
+ * @access  Private
+ */
+router.delete('/:id',
+  validateImportGetById,
+  ImportController.discardImport
+);
+
+export default router;
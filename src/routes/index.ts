@@ -2,6 +2,17 @@ import { Router } from 'express';
 import { ApiResponse } from '../types/express';
 import healthRoutes from './health';
 import authRoutes from './auth';
+import transactionRoutes from './transactions';
+import accountRoutes from './accounts';
+import categoryRoutes from './categories';
+import budgetRoutes from './budgets';
+import notificationRoutes from './notifications';
+import recurringRuleRoutes from './recurringRules';
+import categorizationRuleRoutes from './categorizationRules';
+import tagRoutes from './tags';
+import reportRoutes from './reports';
+import importRoutes from './imports';
+import exportRoutes from './exports';
 
 const router = Router();
 
@@ -11,6 +22,39 @@ router.use('/health', healthRoutes);
 // Authentication routes
 router.use('/auth', authRoutes);
 
+// Transaction routes
+router.use('/transactions', transactionRoutes);
+
+// Account routes
+router.use('/accounts', accountRoutes);
+
+// Category routes
+router.use('/categories', categoryRoutes);
+
+// Budget routes
+router.use('/budgets', budgetRoutes);
+
+// Recurring transaction routes
+router.use('/recurring-rules', recurringRuleRoutes);
+
+// Categorization rule routes
+router.use('/categorization-rules', categorizationRuleRoutes);
+
+// Tag routes
+router.use('/tags', tagRoutes);
+
+// Statement import routes
+router.use('/imports', importRoutes);
+
+// Data export routes
+router.use('/exports', exportRoutes);
+
+// Report routes
+router.use('/reports', reportRoutes);
+
+// Notification routes
+router.use('/notifications', notificationRoutes);
+
 // API root endpoint
 router.get('/', (_req, res) => {
   const response: ApiResponse = {
@@ -24,6 +68,12 @@ router.get('/', (_req, res) => {
         auth: {
           register: 'POST /api/v1/auth/register',
           login: 'POST /api/v1/auth/login',
+          'login-2fa': 'POST /api/v1/auth/login/2fa',
+          'login-passkey': 'POST /api/v1/auth/login/passkey',
+          'passkey-login-options': 'POST /api/v1/auth/passkeys/login-options',
+          'oidc-providers': 'GET /api/v1/auth/oidc/providers',
+          'oidc-authorize': 'POST /api/v1/auth/oidc/:provider/authorize',
+          'login-oidc': 'POST /api/v1/auth/login/oidc',
           refresh: 'POST /api/v1/auth/refresh',
           logout: 'POST /api/v1/auth/logout',
           'logout-all': 'POST /api/v1/auth/logout-all',
@@ -34,7 +84,123 @@ router.get('/', (_req, res) => {
           'reset-password': 'POST /api/v1/auth/reset-password',
           'change-password': 'PUT /api/v1/auth/change-password',
           profile: 'PUT /api/v1/auth/profile',
-          session: 'GET /api/v1/auth/session'
+          session: 'GET /api/v1/auth/session',
+          sessions: 'GET /api/v1/auth/sessions',
+          'revoke-session': 'DELETE /api/v1/auth/sessions/:id',
+          '2fa': 'GET /api/v1/auth/2fa',
+          '2fa-setup': 'POST /api/v1/auth/2fa/setup',
+          '2fa-enable': 'POST /api/v1/auth/2fa/enable',
+          '2fa-verify': 'POST /api/v1/auth/2fa/verify',
+          '2fa-recovery-codes': 'POST /api/v1/auth/2fa/recovery-codes',
+          '2fa-disable': 'DELETE /api/v1/auth/2fa',
+          passkeys: 'GET /api/v1/auth/passkeys',
+          'passkey-registration-options': 'POST /api/v1/auth/passkeys/registration-options',
+          'add-passkey': 'POST /api/v1/auth/passkeys',
+          'rename-passkey': 'PATCH /api/v1/auth/passkeys/:id',
+          'remove-passkey': 'DELETE /api/v1/auth/passkeys/:id',
+          'passkey-verify-options': 'POST /api/v1/auth/passkeys/verify-options',
+          identities: 'GET /api/v1/auth/identities',
+          'link-identity-authorize': 'POST /api/v1/auth/identities/:provider/authorize',
+          'link-identity': 'POST /api/v1/auth/identities',
+          'unlink-identity': 'DELETE /api/v1/auth/identities/:provider'
+        },
+        transactions: {
+          list: 'GET /api/v1/transactions',
+          summary: 'GET /api/v1/transactions/summary',
+          search: 'GET /api/v1/transactions/search',
+          export: 'GET /api/v1/transactions/export',
+          'suggest-category': 'GET /api/v1/transactions/suggest-category',
+          get: 'GET /api/v1/transactions/:id',
+          create: 'POST /api/v1/transactions',
+          update: 'PUT /api/v1/transactions/:id',
+          delete: 'DELETE /api/v1/transactions/:id',
+          'create-transfer': 'POST /api/v1/transactions/transfers',
+          'get-transfer': 'GET /api/v1/transactions/transfers/:id',
+          'update-transfer': 'PUT /api/v1/transactions/transfers/:id',
+          receipts: 'GET /api/v1/transactions/:id/receipts',
+          'upload-receipts': 'POST /api/v1/transactions/:id/receipts',
+          'get-receipt': 'GET /api/v1/transactions/:id/receipts/:receiptId',
+          'get-receipt-thumbnail': 'GET /api/v1/transactions/:id/receipts/:receiptId/thumbnail',
+          'delete-receipt': 'DELETE /api/v1/transactions/:id/receipts/:receiptId',
+          'read-receipt': 'POST /api/v1/transactions/receipt-drafts'
+        },
+        accounts: {
+          list: 'GET /api/v1/accounts',
+          'net-worth': 'GET /api/v1/accounts/net-worth',
+          reorder: 'PUT /api/v1/accounts/reorder',
+          get: 'GET /api/v1/accounts/:id',
+          create: 'POST /api/v1/accounts',
+          update: 'PUT /api/v1/accounts/:id',
+          delete: 'DELETE /api/v1/accounts/:id'
+        },
+        categories: {
+          list: 'GET /api/v1/categories',
+          get: 'GET /api/v1/categories/:id',
+          create: 'POST /api/v1/categories',
+          update: 'PUT /api/v1/categories/:id',
+          move: 'POST /api/v1/categories/:id/move',
+          merge: 'POST /api/v1/categories/:id/merge',
+          delete: 'DELETE /api/v1/categories/:id'
+        },
+        budgets: {
+          list: 'GET /api/v1/budgets',
+          get: 'GET /api/v1/budgets/:id',
+          history: 'GET /api/v1/budgets/:id/history',
+          create: 'POST /api/v1/budgets',
+          update: 'PUT /api/v1/budgets/:id',
+          delete: 'DELETE /api/v1/budgets/:id'
+        },
+        'recurring-rules': {
+          list: 'GET /api/v1/recurring-rules',
+          get: 'GET /api/v1/recurring-rules/:id',
+          create: 'POST /api/v1/recurring-rules',
+          update: 'PUT /api/v1/recurring-rules/:id',
+          delete: 'DELETE /api/v1/recurring-rules/:id',
+          occurrences: 'GET /api/v1/recurring-rules/:id/occurrences',
+          'skip-occurrence': 'POST /api/v1/recurring-rules/:id/occurrences/:date/skip',
+          'update-occurrence': 'PUT /api/v1/recurring-rules/:id/occurrences/:date',
+          'restore-occurrence': 'DELETE /api/v1/recurring-rules/:id/occurrences/:date'
+        },
+        'categorization-rules': {
+          list: 'GET /api/v1/categorization-rules',
+          get: 'GET /api/v1/categorization-rules/:id',
+          create: 'POST /api/v1/categorization-rules',
+          update: 'PUT /api/v1/categorization-rules/:id',
+          delete: 'DELETE /api/v1/categorization-rules/:id',
+          reorder: 'PUT /api/v1/categorization-rules/reorder',
+          apply: 'POST /api/v1/categorization-rules/:id/apply'
+        },
+        tags: {
+          list: 'GET /api/v1/tags',
+          rename: 'PUT /api/v1/tags/:name',
+          merge: 'POST /api/v1/tags/merge',
+          delete: 'DELETE /api/v1/tags/:name'
+        },
+        imports: {
+          list: 'GET /api/v1/imports',
+          upload: 'POST /api/v1/imports',
+          get: 'GET /api/v1/imports/:id',
+          commit: 'POST /api/v1/imports/:id/commit',
+          discard: 'DELETE /api/v1/imports/:id',
+          mappings: 'GET /api/v1/imports/mappings',
+          'create-mapping': 'POST /api/v1/imports/mappings',
+          'update-mapping': 'PUT /api/v1/imports/mappings/:id',
+          'delete-mapping': 'DELETE /api/v1/imports/mappings/:id'
+        },
+        exports: {
+          list: 'GET /api/v1/exports',
+          request: 'POST /api/v1/exports',
+          get: 'GET /api/v1/exports/:id',
+          link: 'POST /api/v1/exports/:id/link',
+          download: 'GET /api/v1/exports/:id/download'
+        },
+        reports: 'GET /api/v1/reports',
+        notifications: {
+          list: 'GET /api/v1/notifications',
+          'unread-count': 'GET /api/v1/notifications/unread-count',
+          'read-all': 'PUT /api/v1/notifications/read-all',
+          read: 'PUT /api/v1/notifications/:id/read',
+          delete: 'DELETE /api/v1/notifications/:id'
         },
         docs: '/api/v1/docs', // Future API documentation
       },
@@ -47,9 +213,6 @@ router.get('/', (_req, res) => {
 
 // Future route modules will be added here
 // router.use('/users', userRoutes);
-// router.use('/transactions', transactionRoutes);
-// router.use('/budgets', budgetRoutes);
 // router.use('/goals', goalRoutes);
-// router.use('/reports', reportRoutes);
 
 export default router;
\ No newline at end of file
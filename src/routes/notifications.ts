@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { NotificationController } from '../controllers/notificationController';
+import { authenticate } from '../middleware/auth';
+import {
+  validateNotificationGetAll,
+  validateNotificationGetById
+} from '../middleware/validation';
+
+const router = Router();
+
+// All notification routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/notifications
+ * @desc    List in-app notifications, newest first
+ * @access  Private
+ * @query   { page?, limit?, unreadOnly? }
+ */
+router.get('/',
+  validateNotificationGetAll,
+  NotificationController.getNotifications
+);
+
+/**
+ * @route   GET /api/v1/notifications/unread-count
+ * @desc    Count unread notifications
+ * @access  Private
+ */
+router.get('/unread-count', NotificationController.getUnreadCount);
+
+/**
+ * @route   PUT /api/v1/notifications/read-all
+ * @desc    Mark every notification as read
+ * @access  Private
+ */
+router.put('/read-all', NotificationController.markAllAsRead);
+
+/**
+ * @route   PUT /api/v1/notifications/:id/read
+ * @desc    Mark a notification as read
+ * @access  Private
+ */
+router.put('/:id/read',
+  validateNotificationGetById,
+  NotificationController.markAsRead
+);
+
+/**
+ * @route   DELETE /api/v1/notifications/:id
+ * @desc    Delete a notification
+ * @access  Private
+ */
+router.delete('/:id',
+  validateNotificationGetById,
+  NotificationController.deleteNotification
+);
+
+export default router;
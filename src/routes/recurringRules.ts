@@ -0,0 +1,114 @@
+import { Router } from 'express';
+import { RecurringRuleController } from '../controllers/recurringRuleController';
+import { authenticate } from '../middleware/auth';
+import {
+  validateRecurringRuleCreate,
+  validateRecurringRuleUpdate,
+  validateRecurringRuleGetById,
+  validateRecurringRuleGetAll,
+  validateRecurringRuleOccurrences,
+  validateRecurringOccurrence,
+  validateRecurringOccurrenceUpdate
+} from '../middleware/validation';
+
+const router = Router();
+
+// All recurring rule routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/recurring-rules
+ * @desc    List recurring transaction rules
+ * @access  Private
+ * @query   { page?, limit?, isActive?, accountId? }
+ */
+router.get('/',
+  validateRecurringRuleGetAll,
+  RecurringRuleController.getRules
+);
+
+/**
+ * @route   GET /api/v1/recurring-rules/:id
+ * @desc    Get a single recurring rule
+ * @access  Private
+ */
+router.get('/:id',
+  validateRecurringRuleGetById,
+  RecurringRuleController.getRule
+);
+
+/**
+ * @route   POST /api/v1/recurring-rules
+ * @desc    Create a recurring rule; occurrences already due are created immediately
+ * @access  Private
+ * @body    { accountId, categoryId, type, amount, description, merchantName?, notes?, tags?, frequency, interval?, weekday?, weekOfMonth?, startDate, endDate?, maxOccurrences? }
+ */
+router.post('/',
+  validateRecurringRuleCreate,
+  RecurringRuleController.createRule
+);
+
+/**
+ * @route   PUT /api/v1/recurring-rules/:id
+ * @desc    Update the whole series (occurrences not created yet)
+ * @access  Private
+ * @body    { accountId?, categoryId?, type?, amount?, description?, merchantName?, notes?, tags?, frequency?, interval?, weekday?, weekOfMonth?, startDate?, endDate?, maxOccurrences?, isActive? }
+ */
+router.put('/:id',
+  validateRecurringRuleUpdate,
+  RecurringRuleController.updateRule
+);
+
+/**
+ * @route   DELETE /api/v1/recurring-rules/:id
+ * @desc    Stop a series, keeping the transactions it created
+ * @access  Private
+ */
+router.delete('/:id',
+  validateRecurringRuleGetById,
+  RecurringRuleController.deleteRule
+);
+
+/**
+ * @route   GET /api/v1/recurring-rules/:id/occurrences
+ * @desc    List upcoming occurrences with skips and edits applied
+ * @access  Private
+ * @query   { count? }
+ */
+router.get('/:id/occurrences',
+  validateRecurringRuleOccurrences,
+  RecurringRuleController.getOccurrences
+);
+
+/**
+ * @route   POST /api/v1/recurring-rules/:id/occurrences/:date/skip
+ * @desc    Skip a single upcoming occurrence
+ * @access  Private
+ */
+router.post('/:id/occurrences/:date/skip',
+  validateRecurringOccurrence,
+  RecurringRuleController.skipOccurrence
+);
+
+/**
+ * @route   PUT /api/v1/recurring-rules/:id/occurrences/:date
+ * @desc    Change a single upcoming occurrence
+ * @access  Private
+ * @body    { amount?, description?, categoryId?, notes?, merchantName? }
+ */
+router.put('/:id/occurrences/:date',
+  validateRecurringOccurrenceUpdate,
+  RecurringRuleController.updateOccurrence
+);
+
+/**
+ * @route   DELETE /api/v1/recurring-rules/:id/occurrences/:date
+ * @desc    Undo a skip or change so the occurrence follows the series again
+ * @access  Private
+ */
+router.delete('/:id/occurrences/:date',
+  validateRecurringOccurrence,
+  RecurringRuleController.restoreOccurrence
+);
+
+export default router;
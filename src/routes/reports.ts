@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { ReportController } from '../controllers/reportController';
+import { authenticate } from '../middleware/auth';
+import { analyticsRateLimit } from '../middleware/security';
+import { validateReportGet } from '../middleware/validation';
+
+const router = Router();
+
+// All report routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/reports
+ * @desc    Summary, category and tag breakdowns, monthly trends and budget progress for a date range (transfers excluded)
+ * @access  Private
+ * @query   { startDate, endDate, categoryIds[]?, accountIds[]?, tags[]? }
+ */
+router.get('/',
+  analyticsRateLimit,
+  validateReportGet,
+  ReportController.getReports
+);
+
+export default router;
@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import { TagController } from '../controllers/tagController';
+import { authenticate } from '../middleware/auth';
+import { transactionRateLimit } from '../middleware/security';
+import {
+  validateTagGetAll,
+  validateTagRename,
+  validateTagMerge,
+  validateTagDelete
+} from '../middleware/validation';
+
+const router = Router();
+
+// All tag routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/tags
+ * @desc    List the tags on the user's transactions with usage counts
+ * @access  Private
+ * @query   { search?, sortBy?: name|count }
+ */
+router.get('/',
+  validateTagGetAll,
+  TagController.getTags
+);
+
+/**
+ * @route   POST /api/v1/tags/merge
+ * @desc    Replace the source tags with the target on every transaction and recurring rule
+ * @access  Private
+ * @body    { sources, target }
+ */
+router.post('/merge',
+  transactionRateLimit,
+  validateTagMerge,
+  TagController.mergeTags
+);
+
+/**
+ * @route   PUT /api/v1/tags/:name
+ * @desc    Rename a tag everywhere (renaming to a tag in use merges them)
+ * @access  Private
+ * @body    { name }
+ */
+router.put('/:name',
+  transactionRateLimit,
+  validateTagRename,
+  TagController.renameTag
+);
+
+/**
+ * @route   DELETE /api/v1/tags/:name
+ * @desc    Remove a tag from every transaction and recurring rule
+ * @access  Private
+ */
+router.delete('/:name',
+  transactionRateLimit,
+  validateTagDelete,
+  TagController.deleteTag
+);
+
+export default router;
@@ -0,0 +1,240 @@
+import { Router } from 'express';
+import { TransactionController } from '../controllers/transactionController';
+import { ReceiptController } from '../controllers/receiptController';
+import { authenticate, requireTwoFactorStepUp } from '../middleware/auth';
+import { transactionRateLimit, analyticsRateLimit, uploadRateLimit, searchSlowDown } from '../middleware/security';
+import { uploadReceipt, uploadMultipleReceipts, validateUploadedFile, cleanupFailedUploads } from '../middleware/upload';
+import {
+  validateTransactionCreate,
+  validateTransactionUpdate,
+  validateTransactionGetById,
+  validateTransactionGetAll,
+  validateTransactionDelete,
+  validateTransactionSummary,
+  validateTransactionExport,
+  validateTransactionSearch,
+  validateCategorySuggestion,
+  validateTransferCreate,
+  validateTransferUpdate,
+  validateTransactionReceipts,
+  validateTransactionReceipt
+} from '../middleware/validation';
+
+const router = Router();
+
+// All transaction routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/transactions
+ * @desc    List transactions with filtering, sorting and pagination
+ * @access  Private
+ * @query   { page?, limit?, sortBy?, sortOrder?, search?, categoryId?, accountId?, type?, dateFrom?, dateTo?, minAmount?, maxAmount?, recurringGroupId?, tags[]? }
+ */
+router.get('/',
+  validateTransactionGetAll,
+  TransactionController.getTransactions
+);
+
+/**
+ * @route   GET /api/v1/transactions/search
+ * @desc    Full-text search over description, merchant, tags and notes with filters
+ *          (amount>50 tag:travel category:Food before:2026-01-01 ...); matches are highlighted
+ * @access  Private
+ * @query   { q, page?, limit?, sortBy?: relevance|date|amount, sortOrder? }
+ */
+router.get('/search',
+  searchSlowDown,
+  validateTransactionSearch,
+  TransactionController.searchTransactions
+);
+
+/**
+ * @route   GET /api/v1/transactions/summary
+ * @desc    Income and expense totals for a period (transfers excluded)
+ * @access  Private
+ * @query   { dateFrom?, dateTo?, accountId?, categoryId? }
+ */
+router.get('/summary',
+  validateTransactionSummary,
+  TransactionController.getSummary
+);
+
+/**
+ * @route   GET /api/v1/transactions/export
+ * @desc    Stream the transactions matching the list filters as a CSV or XLSX download, oldest first by default
+ * @access  Private (recent second factor with two-factor authentication)
+ * @query   { format?: csv|xlsx, sortOrder?, search?, categoryId?, accountId?, type?, dateFrom?, dateTo?, minAmount?, maxAmount?, recurringGroupId?, tags[]? }
+ */
+router.get('/export',
+  requireTwoFactorStepUp,
+  analyticsRateLimit,
+  validateTransactionExport,
+  TransactionController.exportTransactions
+);
+
+/**
+ * @route   GET /api/v1/transactions/suggest-category
+ * @desc    Categories ranked by confidence for a transaction being entered, learned
+ *          from the categories of the user's earlier transactions
+ * @access  Private
+ * @query   { description, merchantName?, amount?, type?, limit? }
+ */
+router.get('/suggest-category',
+  validateCategorySuggestion,
+  TransactionController.suggestCategories
+);
+
+/**
+ * @route   POST /api/v1/transactions/transfers
+ * @desc    Transfer money between two accounts (creates both linked legs)
+ * @access  Private
+ * @body    { fromAccountId, toAccountId, amount, receivedAmount?, date, description?, notes?, tags?, referenceNumber? }
+ */
+router.post('/transfers',
+  transactionRateLimit,
+  validateTransferCreate,
+  TransactionController.createTransfer
+);
+
+/**
+ * @route   GET /api/v1/transactions/transfers/:id
+ * @desc    Get both legs of a transfer by the id of either leg
+ * @access  Private
+ */
+router.get('/transfers/:id',
+  validateTransactionGetById,
+  TransactionController.getTransfer
+);
+
+/**
+ * @route   PUT /api/v1/transactions/transfers/:id
+ * @desc    Update a transfer, keeping both legs in sync
+ * @access  Private
+ * @body    { fromAccountId?, toAccountId?, amount?, receivedAmount?, date?, description?, notes?, tags?, referenceNumber? }
+ */
+router.put('/transfers/:id',
+  transactionRateLimit,
+  validateTransferUpdate,
+  TransactionController.updateTransfer
+);
+
+/**
+ * @route   POST /api/v1/transactions/receipt-drafts
+ * @desc    Read a receipt image (merchant, date, total, tax) into a draft transaction;
+ *          create the transaction with the returned receiptId to confirm it
+ * @access  Private
+ * @body    multipart: receipt (one image)
+ */
+router.post('/receipt-drafts',
+  uploadRateLimit,
+  uploadReceipt,
+  validateUploadedFile,
+  ReceiptController.createDraft,
+  cleanupFailedUploads
+);
+
+/**
+ * @route   GET /api/v1/transactions/:id
+ * @desc    Get a single transaction
+ * @access  Private
+ */
+router.get('/:id',
+  validateTransactionGetById,
+  TransactionController.getTransaction
+);
+
+/**
+ * @route   POST /api/v1/transactions
+ * @desc    Create an income or expense transaction; without a categoryId the first
+ *          matching categorization rule picks the category
+ * @access  Private
+ * @body    { amount, description, categoryId?, accountId, type, date, tags?, receiptUrl?, notes?, merchantName?, referenceNumber?, receiptId? }
+ */
+router.post('/',
+  transactionRateLimit,
+  validateTransactionCreate,
+  TransactionController.createTransaction
+);
+
+/**
+ * @route   PUT /api/v1/transactions/:id
+ * @desc    Update a transaction; a changed category may come back with a ruleSuggestion
+ *          for the transaction's merchant
+ * @access  Private
+ * @body    { amount?, description?, categoryId?, accountId?, type?, date?, tags?, receiptUrl?, notes?, merchantName?, referenceNumber? }
+ */
+router.put('/:id',
+  transactionRateLimit,
+  validateTransactionUpdate,
+  TransactionController.updateTransaction
+);
+
+/**
+ * @route   DELETE /api/v1/transactions/:id
+ * @desc    Delete a transaction (both legs for transfers)
+ * @access  Private
+ */
+router.delete('/:id',
+  transactionRateLimit,
+  validateTransactionDelete,
+  TransactionController.deleteTransaction
+);
+
+/**
+ * @route   GET /api/v1/transactions/:id/receipts
+ * @desc    List the receipts attached to a transaction
+ * @access  Private
+ */
+router.get('/:id/receipts',
+  validateTransactionReceipts,
+  ReceiptController.getReceipts
+);
+
+/**
+ * @route   POST /api/v1/transactions/:id/receipts
+ * @desc    Attach receipt images or PDFs to a transaction (thumbnails are made for images)
+ * @access  Private
+ * @body    multipart: receipts (up to 5 files per request, 10 per transaction)
+ */
+router.post('/:id/receipts',
+  uploadRateLimit,
+  validateTransactionReceipts,
+  uploadMultipleReceipts,
+  validateUploadedFile,
+  ReceiptController.addReceipts,
+  cleanupFailedUploads
+);
+
+/**
+ * @route   GET /api/v1/transactions/:id/receipts/:receiptId
+ * @desc    Download a receipt file
+ * @access  Private
+ */
+router.get('/:id/receipts/:receiptId',
+  validateTransactionReceipt,
+  ReceiptController.getReceiptFile
+);
+
+/**
+ * @route   GET /api/v1/transactions/:id/receipts/:receiptId/thumbnail
+ * @desc    Download the JPEG thumbnail of an image receipt
+ * @access  Private
+ */
+router.get('/:id/receipts/:receiptId/thumbnail',
+  validateTransactionReceipt,
+  ReceiptController.getThumbnail
+);
+
+/**
+ * @route   DELETE /api/v1/transactions/:id/receipts/:receiptId
+ * @desc    Detach a receipt and delete its file
+ * @access  Private
+ */
+router.delete('/:id/receipts/:receiptId',
+  transactionRateLimit,
+  validateTransactionReceipt,
+  ReceiptController.deleteReceipt
+);
+
+export default router;
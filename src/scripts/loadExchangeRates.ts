@@ -0,0 +1,76 @@
+/**
+ * Exchange rate loader
+ *
+ * Stores daily exchange rates from a file, so conversion works without
+ * access to a rates provider. Rates already stored for the same pair and
+ * date are replaced.
+ *
+ * CSV files need date, base, quote and rate columns (one unit of base is
+ * worth `rate` units of quote). JSON files hold an array of objects with
+ * the same fields, or of { date, base, rates: { <quote>: <rate> } } objects.
+ *
+ * Usage:
+ *   npm run rates:load -- <file>                    # source is the file name
+ *   npm run rates:load -- <file> --source <name>    # label the loaded rates
+ */
+import fs from 'fs';
+import path from 'path';
+import { db, closePool } from '../config/database';
+import { ExchangeRateService } from '../services/exchangeRateService';
+
+interface LoadOptions {
+  file?: string;
+  source?: string;
+}
+
+const parseArgs = (argv: string[]): LoadOptions => {
+  const options: LoadOptions = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--source' && argv[i + 1]) {
+      options.source = argv[++i]!;
+    } else if (arg && !arg.startsWith('--')) {
+      options.file = arg;
+    }
+  }
+
+  return options;
+};
+
+const run = async (): Promise<number> => {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (!options.file) {
+    console.error('Usage: npm run rates:load -- <file> [--source <name>]');
+    return 2;
+  }
+
+  console.log(`💱 Loading exchange rates from ${options.file}...`);
+
+  const content = await fs.promises.readFile(options.file, 'utf8');
+  const rates = ExchangeRateService.parseRates(content, options.file);
+
+  if (rates.length === 0) {
+    console.log('⚠️  No exchange rates found in the file');
+    return 1;
+  }
+
+  const result = await ExchangeRateService.loadRates(rates, options.source || path.basename(options.file));
+
+  console.log(`✅ Loaded ${result.loaded} rate(s) for ${result.currencies.join(', ')} from ${result.firstDate} to ${result.lastDate}`);
+  return 0;
+};
+
+run()
+  .then(async (exitCode) => {
+    await db.destroy();
+    await closePool();
+    process.exit(exitCode);
+  })
+  .catch(async (error) => {
+    console.error('❌ Loading exchange rates failed:', error instanceof Error ? error.message : error);
+    await db.destroy();
+    await closePool();
+    process.exit(2);
+  });
@@ -0,0 +1,71 @@
+/**
+ * Account balance reconciliation
+ *
+ * Recomputes every account balance from opening_balance + transaction history
+ * and reports accounts whose stored balance has drifted.
+ *
+ * Usage:
+ *   npm run accounts:reconcile                  # report only
+ *   npm run accounts:reconcile -- --fix         # correct drifted balances
+ *   npm run accounts:reconcile -- --user <id>   # limit to one user
+ */
+import { db, closePool } from '../config/database';
+import { AccountBalanceService, ReconcileOptions } from '../services/accountBalanceService';
+
+const parseArgs = (argv: string[]): ReconcileOptions => {
+  const options: ReconcileOptions = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--fix') {
+      options.fix = true;
+    } else if (arg === '--user' && argv[i + 1]) {
+      options.userId = argv[++i]!;
+    }
+  }
+
+  return options;
+};
+
+const run = async (): Promise<number> => {
+  const options = parseArgs(process.argv.slice(2));
+
+  console.log(`🔍 Reconciling account balances${options.userId ? ` for user ${options.userId}` : ''}...`);
+
+  const drifts = await AccountBalanceService.reconcile(options);
+
+  if (drifts.length === 0) {
+    console.log('✅ All account balances match their transaction history');
+    return 0;
+  }
+
+  console.table(drifts.map(drift => ({
+    account: drift.accountId,
+    name: drift.name,
+    currency: drift.currency,
+    stored: drift.storedBalance.toFixed(2),
+    expected: drift.expectedBalance.toFixed(2),
+    drift: drift.drift.toFixed(2)
+  })));
+
+  if (options.fix) {
+    console.log(`✅ Corrected ${drifts.length} account balance(s)`);
+    return 0;
+  }
+
+  console.log(`⚠️  ${drifts.length} account balance(s) drifted. Re-run with --fix to correct them.`);
+  return 1;
+};
+
+run()
+  .then(async (exitCode) => {
+    await db.destroy();
+    await closePool();
+    process.exit(exitCode);
+  })
+  .catch(async (error) => {
+    console.error('❌ Balance reconciliation failed:', error instanceof Error ? error.message : error);
+    await db.destroy();
+    await closePool();
+    process.exit(2);
+  });
@@ -1,6 +1,7 @@
 import 'module-alias/register';
 import App from './app';
 import { config } from '@/config/env';
+import { startJobs, stopJobs } from '@/jobs';
 
 // Handle uncaught exceptions
 process.on('uncaughtException', (error: Error) => {
@@ -20,6 +21,8 @@ const server = app.getApp().listen(config.PORT, () => {
   console.log(`🌐 API Base URL: http://localhost:${config.PORT}${config.API_PREFIX}/${config.API_VERSION}`);
   console.log(`🏥 Health Check: http://localhost:${config.PORT}${config.API_PREFIX}/${config.API_VERSION}/health`);
   
+  startJobs();
+  
   if (config.NODE_ENV === 'development') {
     console.log('📝 Server ready for development');
     console.log('🔄 Auto-restart enabled via nodemon');
@@ -40,6 +43,7 @@ process.on('unhandledRejection', (reason: unknown, promise: Promise<any>) => {
 // Handle SIGTERM (graceful shutdown)
 process.on('SIGTERM', () => {
   console.log('👋 SIGTERM received, shutting down gracefully');
+  stopJobs();
   server.close(() => {
     console.log('💥 Process terminated');
     process.exit(0);
@@ -49,6 +53,7 @@ process.on('SIGTERM', () => {
 // Handle SIGINT (Ctrl+C)
 process.on('SIGINT', () => {
   console.log('\n👋 SIGINT received, shutting down gracefully');
+  stopJobs();
   server.close(() => {
     console.log('💥 Process terminated');
     process.exit(0);
@@ -0,0 +1,265 @@
+import { Knex } from 'knex';
+import { db } from '../config/database';
+import { logger } from '../middleware/logging';
+import { createAuditLog, AuditEventType } from '../middleware/auditLog';
+import { Transaction, TransactionType, TransferDirection } from '../models/Transaction';
+
+export interface BalanceEffect {
+  accountId: string;
+  amountCents: number;
+}
+
+export interface BalanceChange {
+  accountId: string;
+  previousBalance: number;
+  newBalance: number;
+  delta: number;
+}
+
+export interface BalanceDrift {
+  accountId: string;
+  userId: string;
+  name: string;
+  currency: string;
+  storedBalance: number;
+  expectedBalance: number;
+  drift: number;
+}
+
+export interface ReconcileOptions {
+  userId?: string;
+  fix?: boolean;
+}
+
+interface BalanceRow {
+  id: string;
+  user_id: string;
+  name: string;
+  currency: string;
+  balance: string;
+  expected_balance: string;
+}
+
+type BalanceAffectingFields = Pick<Transaction, 'type' | 'amount' | 'account_id' | 'transfer_direction'>;
+
+/**
+ * Signed per-account effect of every transaction row, mirroring getBalanceEffects()
+ */
+const TRANSACTION_EFFECTS_SQL = `
+  SELECT
+    account_id,
+    CASE
+      WHEN type = 'income' THEN amount
+      WHEN type = 'transfer' AND transfer_direction = 'incoming' THEN amount
+      ELSE -amount
+    END AS delta
+  FROM transactions
+`;
+
+export class AccountBalanceService {
+  /**
+   * Work out how a transaction row moves account balances.
+   * Each transfer leg only touches its own account.
+   */
+  static getBalanceEffects(transaction: BalanceAffectingFields): BalanceEffect[] {
+    const amountCents = this.toCents(transaction.amount);
+
+    const isCredit = transaction.type === TransactionType.INCOME ||
+      (transaction.type === TransactionType.TRANSFER && transaction.transfer_direction === TransferDirection.INCOMING);
+
+    return [{ accountId: transaction.account_id, amountCents: isCredit ? amountCents : -amountCents }];
+  }
+
+  /**
+   * Move account balances from the state described by `before` to `after`.
+   *
+   * Pass `before = null` for a newly created transaction and `after = null` for a
+   * deleted one. Must run inside the same database transaction as the write.
+   */
+  static async applyTransactionChange(
+    trx: Knex.Transaction,
+    before: BalanceAffectingFields | null,
+    after: BalanceAffectingFields | null
+  ): Promise<BalanceChange[]> {
+    const deltas = new Map<string, number>();
+
+    const accumulate = (effects: BalanceEffect[], sign: 1 | -1): void => {
+      effects.forEach(effect => {
+        deltas.set(effect.accountId, (deltas.get(effect.accountId) || 0) + sign * effect.amountCents);
+      });
+    };
+
+    if (before) accumulate(this.getBalanceEffects(before), -1);
+    if (after) accumulate(this.getBalanceEffects(after), 1);
+
+    return this.applyDeltas(trx, deltas);
+  }
+
+  /**
+   * Apply the combined balance effect of a batch of newly inserted
+   * transactions, locking each account once instead of once per row
+   */
+  static async applyNewTransactions(
+    trx: Knex.Transaction,
+    transactions: BalanceAffectingFields[]
+  ): Promise<BalanceChange[]> {
+    const deltas = new Map<string, number>();
+
+    transactions.forEach(transaction => {
+      this.getBalanceEffects(transaction).forEach(effect => {
+        deltas.set(effect.accountId, (deltas.get(effect.accountId) || 0) + effect.amountCents);
+      });
+    });
+
+    return this.applyDeltas(trx, deltas);
+  }
+
+  /**
+   * Emit ACCOUNT_BALANCE_UPDATED audit events once the write has committed
+   */
+  static async recordBalanceChanges(
+    userId: string,
+    changes: BalanceChange[],
+    context: { transactionId?: string; reason: string }
+  ): Promise<void> {
+    await Promise.all(changes.map(change => createAuditLog({
+      eventType: AuditEventType.ACCOUNT_BALANCE_UPDATED,
+      userId,
+      resourceType: 'account',
+      resourceId: change.accountId,
+      oldValues: { balance: change.previousBalance },
+      newValues: { balance: change.newBalance },
+      metadata: {
+        delta: change.delta,
+        reason: context.reason,
+        transactionId: context.transactionId
+      }
+    }).catch(error => {
+      logger.error('Failed to record balance audit event', {
+        error: error instanceof Error ? error.message : String(error),
+        accountId: change.accountId
+      });
+    })));
+  }
+
+  /**
+   * Recompute balances from opening_balance + transaction history and report drift.
+   * With `fix` the stored balances are corrected in a single transaction.
+   */
+  static async reconcile(options: ReconcileOptions = {}): Promise<BalanceDrift[]> {
+    return db.transaction(async (trx) => {
+      const query = trx('accounts as a')
+        .leftJoin(trx.raw(`(${TRANSACTION_EFFECTS_SQL}) AS effects`), 'effects.account_id', 'a.id')
+        .groupBy('a.id')
+        .select(
+          'a.id',
+          'a.user_id',
+          'a.name',
+          'a.currency',
+          'a.balance',
+          trx.raw('a.opening_balance + COALESCE(SUM(effects.delta), 0) AS expected_balance')
+        )
+        .orderBy('a.id');
+
+      if (options.userId) {
+        query.where('a.user_id', options.userId);
+      }
+
+      if (options.fix) {
+        // FOR UPDATE cannot be combined with GROUP BY, so lock the rows up front
+        const lockQuery = trx('accounts').forUpdate().select('id');
+        if (options.userId) {
+          lockQuery.where('user_id', options.userId);
+        }
+        await lockQuery;
+      }
+
+      const rows: BalanceRow[] = await query;
+
+      const drifts: BalanceDrift[] = rows
+        .map(row => {
+          const storedCents = this.toCents(row.balance);
+          const expectedCents = this.toCents(row.expected_balance);
+          return {
+            accountId: row.id,
+            userId: row.user_id,
+            name: row.name,
+            currency: row.currency,
+            storedBalance: storedCents / 100,
+            expectedBalance: expectedCents / 100,
+            drift: (storedCents - expectedCents) / 100
+          };
+        })
+        .filter(drift => drift.drift !== 0);
+
+      if (options.fix) {
+        for (const drift of drifts) {
+          await trx('accounts')
+            .where('id', drift.accountId)
+            .update({ balance: drift.expectedBalance, updated_at: trx.fn.now() });
+
+          await createAuditLog({
+            eventType: AuditEventType.ACCOUNT_BALANCE_UPDATED,
+            userId: drift.userId,
+            resourceType: 'account',
+            resourceId: drift.accountId,
+            oldValues: { balance: drift.storedBalance },
+            newValues: { balance: drift.expectedBalance },
+            metadata: { delta: -drift.drift, reason: 'reconciliation' }
+          });
+        }
+      }
+
+      logger.info('Account balance reconciliation completed', {
+        accountsWithDrift: drifts.length,
+        fixed: !!options.fix,
+        userId: options.userId
+      });
+
+      return drifts;
+    });
+  }
+
+  /**
+   * Apply per-account deltas (in cents) and report the resulting changes
+   */
+  private static async applyDeltas(trx: Knex.Transaction, deltas: Map<string, number>): Promise<BalanceChange[]> {
+    const changes: BalanceChange[] = [];
+
+    // Lock accounts in a stable order to avoid deadlocks between concurrent writes
+    const accountIds = Array.from(deltas.keys()).sort();
+
+    for (const accountId of accountIds) {
+      const deltaCents = deltas.get(accountId)!;
+      if (deltaCents === 0) continue;
+
+      const account = await trx('accounts')
+        .where('id', accountId)
+        .forUpdate()
+        .first('balance');
+
+      await trx.raw('SELECT update_account_balance(?, ?, ?)', [
+        accountId,
+        Math.abs(deltaCents) / 100,
+        deltaCents > 0 ? 'add' : 'subtract'
+      ]);
+
+      const previousCents = this.toCents(account?.balance ?? 0);
+      changes.push({
+        accountId,
+        previousBalance: previousCents / 100,
+        newBalance: (previousCents + deltaCents) / 100,
+        delta: deltaCents / 100
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Convert a decimal amount (number or NUMERIC string) to integer cents
+   */
+  private static toCents(amount: string | number): number {
+    return Math.round(Number(amount) * 100);
+  }
+}
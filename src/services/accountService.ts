@@ -0,0 +1,363 @@
+import { Knex } from 'knex';
+import { db } from '../config/database';
+import { logger } from '../middleware/logging';
+import { AppError } from '../middleware/errorHandler';
+import { AccountBalanceService, BalanceChange } from './accountBalanceService';
+import { ExchangeRateService } from './exchangeRateService';
+import {
+  Account,
+  AccountResponse,
+  AccountFilters,
+  AccountModel,
+  AccountType,
+  CreateAccountData,
+  UpdateAccountData,
+  NetWorthResponse,
+  NetWorthTotals
+} from '../models/Account';
+
+export interface AccountListResult {
+  accounts: AccountResponse[];
+  total: number;
+}
+
+export class AccountService {
+  /**
+   * List a user's accounts in display order. Only active accounts are
+   * returned unless isActive is given explicitly.
+   */
+  static async getAccounts(userId: string, filters: AccountFilters): Promise<AccountListResult> {
+    const query = db('accounts')
+      .where('user_id', userId)
+      .where('is_active', filters.isActive ?? true);
+
+    if (filters.type) query.where('type', filters.type);
+    if (filters.currency) query.where('currency', filters.currency);
+
+    const countResult = await query
+      .clone()
+      .count<{ count: string }[]>('id as count')
+      .first();
+
+    const rows: Account[] = await query
+      .select('*')
+      .orderBy('display_order', 'asc')
+      .orderBy('created_at', 'asc')
+      .limit(filters.limit)
+      .offset((filters.page - 1) * filters.limit);
+
+    return {
+      accounts: rows.map(row => AccountModel.toResponse(row)),
+      total: parseInt(countResult?.count || '0', 10)
+    };
+  }
+
+  /**
+   * Get a single account owned by the user (active or not)
+   */
+  static async getAccountById(userId: string, accountId: string): Promise<AccountResponse> {
+    const account: Account | undefined = await db('accounts')
+      .where({ id: accountId, user_id: userId })
+      .first();
+
+    if (!account) {
+      throw new AppError('Account not found', 404);
+    }
+
+    return AccountModel.toResponse(account);
+  }
+
+  /**
+   * Create an account. The initial balance becomes the opening balance.
+   */
+  static async createAccount(userId: string, data: CreateAccountData): Promise<AccountResponse> {
+    const balance = data.balance ?? 0;
+    this.assertAccountShape(data.type, balance, data.creditLimit ?? null);
+
+    const account = await db.transaction(async (trx) => {
+      await this.assertNameAvailable(trx, userId, data.name);
+
+      const last = await trx('accounts')
+        .where({ user_id: userId })
+        .max<{ max: number | null }>('display_order as max')
+        .first();
+
+      const [created] = await trx('accounts')
+        .insert({
+          user_id: userId,
+          name: data.name,
+          type: data.type,
+          description: data.description || null,
+          balance,
+          opening_balance: balance,
+          currency: data.currency || 'USD',
+          credit_limit: data.creditLimit ?? null,
+          include_in_net_worth: data.includeInNetWorth ?? true,
+          display_order: last?.max === null || last?.max === undefined ? 0 : last.max + 1,
+          institution_name: data.institutionName || null,
+          account_number: this.maskAccountNumber(data.accountNumber)
+        })
+        .returning<Account[]>('*');
+
+      return created!;
+    });
+
+    logger.info('Account created', { userId, accountId: account.id, type: account.type });
+
+    return AccountModel.toResponse(account);
+  }
+
+  /**
+   * Update an account. Setting isActive back to true reactivates a
+   * deactivated account; setting balance records a manual adjustment.
+   */
+  static async updateAccount(userId: string, accountId: string, data: UpdateAccountData): Promise<AccountResponse> {
+    const { account, balanceChanges } = await db.transaction(async (trx) => {
+      const existing = await this.findOwnedAccount(trx, userId, accountId);
+      const updates: Record<string, unknown> = {};
+
+      const name = data.name ?? existing.name;
+      const isActive = data.isActive ?? existing.is_active;
+      if (isActive && (name !== existing.name || !existing.is_active)) {
+        await this.assertNameAvailable(trx, userId, name, accountId);
+      }
+
+      if (data.currency !== undefined && data.currency !== existing.currency) {
+        const used = await trx('transactions').where('account_id', accountId).first('id');
+        if (used) {
+          throw new AppError('Cannot change the currency of an account that has transactions', 409);
+        }
+        updates.currency = data.currency;
+      }
+
+      const type = data.type ?? existing.type;
+      const balance = data.balance ?? Number(existing.balance);
+      const creditLimit = data.creditLimit !== undefined
+        ? data.creditLimit
+        : existing.credit_limit === null ? null : Number(existing.credit_limit);
+      this.assertAccountShape(type, balance, creditLimit);
+
+      if (data.name !== undefined) updates.name = data.name;
+      if (data.type !== undefined) updates.type = data.type;
+      if (data.description !== undefined) updates.description = data.description;
+      if (data.creditLimit !== undefined) updates.credit_limit = data.creditLimit;
+      if (data.includeInNetWorth !== undefined) updates.include_in_net_worth = data.includeInNetWorth;
+      if (data.institutionName !== undefined) updates.institution_name = data.institutionName;
+      if (data.accountNumber !== undefined) updates.account_number = this.maskAccountNumber(data.accountNumber);
+      if (data.isActive !== undefined) updates.is_active = data.isActive;
+
+      // A manual balance correction shifts the opening balance by the same
+      // amount so reconciliation against transaction history still holds
+      const balanceChanges: BalanceChange[] = [];
+      const delta = Math.round(balance * 100) - Math.round(Number(existing.balance) * 100);
+      if (delta !== 0) {
+        updates.balance = balance;
+        updates.opening_balance = trx.raw('opening_balance + ?', [delta / 100]);
+        balanceChanges.push({
+          accountId,
+          previousBalance: Number(existing.balance),
+          newBalance: balance,
+          delta: delta / 100
+        });
+      }
+
+      if (Object.keys(updates).length === 0) {
+        return { account: existing, balanceChanges };
+      }
+
+      const [updated] = await trx('accounts')
+        .where({ id: accountId, user_id: userId })
+        .update(updates)
+        .returning<Account[]>('*');
+
+      return { account: updated!, balanceChanges };
+    });
+
+    logger.info('Account updated', { userId, accountId });
+
+    await AccountBalanceService.recordBalanceChanges(userId, balanceChanges, {
+      reason: 'account.balance_adjusted'
+    });
+
+    return AccountModel.toResponse(account);
+  }
+
+  /**
+   * Deactivate an account. History is kept and the name becomes free for
+   * a new active account.
+   */
+  static async deactivateAccount(userId: string, accountId: string): Promise<void> {
+    await db.transaction(async (trx) => {
+      const existing = await this.findOwnedAccount(trx, userId, accountId);
+
+      if (!existing.is_active) {
+        throw new AppError('Account not found', 404);
+      }
+
+      await trx('accounts')
+        .where({ id: accountId, user_id: userId })
+        .update({ is_active: false });
+    });
+
+    logger.info('Account deactivated', { userId, accountId });
+  }
+
+  /**
+   * Set display_order from the position of each id in the list
+   */
+  static async reorderAccounts(userId: string, accountIds: string[]): Promise<AccountResponse[]> {
+    const accounts = await db.transaction(async (trx) => {
+      const owned: Array<Pick<Account, 'id'>> = await trx('accounts')
+        .whereIn('id', accountIds)
+        .andWhere({ user_id: userId, is_active: true })
+        .forUpdate()
+        .select('id');
+
+      if (owned.length !== accountIds.length) {
+        throw new AppError('Account not found', 404);
+      }
+
+      for (const [index, id] of accountIds.entries()) {
+        await trx('accounts')
+          .where({ id, user_id: userId })
+          .update({ display_order: index });
+      }
+
+      return trx('accounts')
+        .where({ user_id: userId, is_active: true })
+        .orderBy('display_order', 'asc')
+        .orderBy('created_at', 'asc') as Promise<Account[]>;
+    });
+
+    logger.info('Accounts reordered', { userId, count: accountIds.length });
+
+    return accounts.map(account => AccountModel.toResponse(account));
+  }
+
+  /**
+   * Net worth per currency over active accounts included in net worth, and
+   * in total converted to the user's base currency at the latest known rate.
+   * Credit and loan balances go negative as debt accrues, so the amount
+   * owed on them is the negated balance.
+   */
+  static async getNetWorth(userId: string): Promise<NetWorthResponse> {
+    const baseCurrency = await ExchangeRateService.getBaseCurrency(userId);
+
+    const rows: Array<Account & { base_balance: string | null }> = await db('accounts')
+      .where({ user_id: userId, is_active: true, include_in_net_worth: true })
+      .select('*', db.raw('convert_amount(balance, currency, ?, CURRENT_DATE) AS base_balance', [baseCurrency]))
+      .orderBy('display_order', 'asc')
+      .orderBy('created_at', 'asc');
+
+    const totals = new Map<string, { assets: number; liabilities: number }>();
+    const total = { assets: 0, liabilities: 0 };
+    const missingRates = new Set<string>();
+
+    const add = (entry: { assets: number; liabilities: number }, isLiability: boolean, cents: number): void => {
+      if (isLiability) {
+        entry.liabilities -= cents;
+      } else {
+        entry.assets += cents;
+      }
+    };
+
+    for (const row of rows) {
+      const isLiability = AccountModel.isLiability(row);
+      const entry = totals.get(row.currency) || { assets: 0, liabilities: 0 };
+
+      add(entry, isLiability, Math.round(Number(row.balance) * 100));
+      totals.set(row.currency, entry);
+
+      if (row.base_balance === null) {
+        missingRates.add(row.currency);
+      } else {
+        add(total, isLiability, Math.round(Number(row.base_balance) * 100));
+      }
+    }
+
+    return {
+      baseCurrency,
+      total: {
+        assets: total.assets / 100,
+        liabilities: total.liabilities / 100,
+        netWorth: (total.assets - total.liabilities) / 100
+      },
+      missingRates: Array.from(missingRates).sort(),
+      totals: Array.from(totals.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([currency, { assets, liabilities }]): NetWorthTotals => ({
+          currency,
+          assets: assets / 100,
+          liabilities: liabilities / 100,
+          netWorth: (assets - liabilities) / 100
+        })),
+      accounts: rows.map(row => ({
+        id: row.id,
+        name: row.name,
+        type: row.type,
+        balance: Number(row.balance),
+        currency: row.currency,
+        baseBalance: row.base_balance === null ? null : Number(row.base_balance),
+        isLiability: AccountModel.isLiability(row)
+      }))
+    };
+  }
+
+  /**
+   * Load an account owned by the user, locking it for the rest of the transaction
+   */
+  private static async findOwnedAccount(
+    trx: Knex.Transaction,
+    userId: string,
+    accountId: string
+  ): Promise<Account> {
+    const account: Account | undefined = await trx('accounts')
+      .where({ id: accountId, user_id: userId })
+      .forUpdate()
+      .first();
+
+    if (!account) {
+      throw new AppError('Account not found', 404);
+    }
+
+    return account;
+  }
+
+  /**
+   * Active account names are unique per user (idx_accounts_user_name_unique)
+   */
+  private static async assertNameAvailable(
+    trx: Knex.Transaction,
+    userId: string,
+    name: string,
+    excludeAccountId?: string
+  ): Promise<void> {
+    const query = trx('accounts').where({ user_id: userId, name, is_active: true });
+    if (excludeAccountId) query.whereNot('id', excludeAccountId);
+
+    if (await query.first('id')) {
+      throw new AppError(`An active account named "${name}" already exists`, 409);
+    }
+  }
+
+  /**
+   * Mirror the accounts table constraints with friendlier errors
+   */
+  private static assertAccountShape(type: AccountType, balance: number, creditLimit: number | null): void {
+    if (balance < 0 && !AccountModel.isLiability({ type })) {
+      throw new AppError('Only credit and loan accounts can have a negative balance', 400);
+    }
+
+    if (creditLimit !== null && type !== AccountType.CREDIT) {
+      throw new AppError('Only credit accounts can have a credit limit', 400);
+    }
+  }
+
+  /**
+   * Only the last four digits of an account number are stored
+   */
+  private static maskAccountNumber(accountNumber: string | null | undefined): string | null {
+    if (!accountNumber) return null;
+    return accountNumber.replace(/\s+/g, '').slice(-4);
+  }
+}
@@ -0,0 +1,162 @@
+import { Knex } from 'knex';
+import { logger } from '../middleware/logging';
+import { createAuditLog, AuditEventType } from '../middleware/auditLog';
+import { toDateOnlyString } from '../utils/date';
+import { Budget, BudgetAlertLevel, BudgetModel } from '../models/Budget';
+import { NotificationType } from '../models/Notification';
+import { NotificationService } from './notificationService';
+import { EmailService } from './emailService';
+
+/**
+ * A budget alert that fired inside a transaction, with everything needed to
+ * deliver it once the transaction has committed
+ */
+export interface TriggeredBudgetAlert {
+  userId: string;
+  email: string;
+  firstName: string;
+  sendEmail: boolean;
+  budgetId: string;
+  budgetName: string;
+  level: BudgetAlertLevel;
+  percentage: number;
+  spentAmount: number;
+  budgetAmount: number;
+  currency: string;
+  periodEnd: string;
+  notificationId: string;
+}
+
+interface BudgetAlertCandidate extends Budget {
+  email: string;
+  first_name: string;
+  preferences: Record<string, any> | null;
+}
+
+export class BudgetAlertService {
+  /**
+   * Record alerts for budgets whose spending reached their alert threshold or
+   * their full amount. Each level fires once per budget period; the unique
+   * (budget_id, level) index makes concurrent writers agree on who fires it.
+   * Runs inside the caller's transaction and stores the in-app notification
+   * there too. Call deliverAlerts with the result after commit.
+   */
+  static async checkBudgets(trx: Knex.Transaction, budgetIds: string[]): Promise<TriggeredBudgetAlert[]> {
+    if (budgetIds.length === 0) return [];
+
+    const budgets: BudgetAlertCandidate[] = await trx('budgets as b')
+      .join('users as u', 'u.id', 'b.user_id')
+      .whereIn('b.id', budgetIds)
+      .where('b.is_active', true)
+      .whereNull('b.closed_at')
+      .select('b.*', 'u.email', 'u.first_name', 'u.preferences');
+
+    const triggered: TriggeredBudgetAlert[] = [];
+
+    for (const budget of budgets) {
+      const levels = BudgetModel.alertLevels(budget);
+      if (levels.length === 0) continue;
+
+      const budgetAmount = BudgetModel.effectiveAmount(budget);
+      const spentAmount = Number(budget.spent_amount);
+      const percentage = BudgetModel.percentage(spentAmount, budgetAmount);
+
+      const inserted: Array<{ id: string; level: BudgetAlertLevel }> = await trx('budget_alerts')
+        .insert(levels.map(level => ({
+          user_id: budget.user_id,
+          budget_id: budget.id,
+          level,
+          percentage,
+          spent_amount: spentAmount
+        })))
+        .onConflict(['budget_id', 'level'])
+        .ignore()
+        .returning(['id', 'level']);
+
+      if (inserted.length === 0) continue;
+
+      // Crossing both levels at once only reports the more severe one
+      const level = inserted.some(alert => alert.level === BudgetAlertLevel.EXCEEDED)
+        ? BudgetAlertLevel.EXCEEDED
+        : BudgetAlertLevel.THRESHOLD;
+
+      const notificationPreferences = budget.preferences?.notifications ?? {};
+      if (notificationPreferences.budget_alerts === false) continue;
+
+      const notification = await NotificationService.createNotification(trx, {
+        userId: budget.user_id,
+        type: level === BudgetAlertLevel.EXCEEDED ? NotificationType.ERROR : NotificationType.WARNING,
+        eventType: AuditEventType.BUDGET_ALERT_TRIGGERED,
+        title: level === BudgetAlertLevel.EXCEEDED ? 'Budget exceeded' : 'Budget limit approaching',
+        message: `You have spent ${percentage}% of your "${budget.name}" budget `
+          + `(${spentAmount.toFixed(2)} of ${budgetAmount.toFixed(2)} ${budget.currency}).`,
+        data: { budgetId: budget.id, level, percentage, spentAmount, budgetAmount }
+      });
+
+      await trx('budget_alerts')
+        .whereIn('id', inserted.map(alert => alert.id))
+        .update({ notification_id: notification.id });
+
+      triggered.push({
+        userId: budget.user_id,
+        email: budget.email,
+        firstName: budget.first_name,
+        sendEmail: notificationPreferences.email !== false,
+        budgetId: budget.id,
+        budgetName: budget.name,
+        level,
+        percentage,
+        spentAmount,
+        budgetAmount,
+        currency: budget.currency,
+        periodEnd: toDateOnlyString(budget.period_end)!,
+        notificationId: notification.id
+      });
+    }
+
+    return triggered;
+  }
+
+  /**
+   * Email the alerts and emit BUDGET_ALERT_TRIGGERED audit events. Delivery
+   * failures are logged rather than failing the write that triggered them.
+   */
+  static async deliverAlerts(alerts: TriggeredBudgetAlert[]): Promise<void> {
+    await Promise.all(alerts.map(async alert => {
+      try {
+        await createAuditLog({
+          eventType: AuditEventType.BUDGET_ALERT_TRIGGERED,
+          userId: alert.userId,
+          resourceType: 'budget',
+          resourceId: alert.budgetId,
+          metadata: {
+            level: alert.level,
+            percentage: alert.percentage,
+            spentAmount: alert.spentAmount,
+            budgetAmount: alert.budgetAmount,
+            notificationId: alert.notificationId
+          }
+        });
+
+        if (alert.sendEmail) {
+          await EmailService.sendBudgetAlert(alert.email, alert.firstName, {
+            budgetName: alert.budgetName,
+            exceeded: alert.level === BudgetAlertLevel.EXCEEDED,
+            percentage: alert.percentage,
+            spentAmount: alert.spentAmount,
+            budgetAmount: alert.budgetAmount,
+            currency: alert.currency,
+            periodEnd: alert.periodEnd
+          });
+        }
+      } catch (error) {
+        logger.error('Failed to deliver budget alert', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: alert.userId,
+          budgetId: alert.budgetId,
+          level: alert.level
+        });
+      }
+    }));
+  }
+}
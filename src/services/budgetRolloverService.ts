@@ -0,0 +1,172 @@
+import { Knex } from 'knex';
+import { db } from '../config/database';
+import { logger } from '../middleware/logging';
+import { toDateOnlyString } from '../utils/date';
+import { Budget, BudgetModel } from '../models/Budget';
+import { BudgetService } from './budgetService';
+
+export interface BudgetRolloverResult {
+  closed: number;
+  created: number;
+  failed: number;
+}
+
+// Expired budgets locked and rolled over per query
+const BATCH_SIZE = 100;
+
+export class BudgetRolloverService {
+  /**
+   * Close every active budget whose period ended before asOf and open the
+   * next period for it. Periods missed while the job was not running are
+   * caught up one by one, so each one keeps its own history row.
+   */
+  static async rollOverExpiredBudgets(asOf: Date | string = new Date()): Promise<BudgetRolloverResult> {
+    const today = toDateOnlyString(asOf)!;
+    const result: BudgetRolloverResult = { closed: 0, created: 0, failed: 0 };
+    const failedIds: string[] = [];
+
+    for (;;) {
+      const due: Array<Pick<Budget, 'id'>> = await db('budgets')
+        .where('is_active', true)
+        .whereNull('closed_at')
+        .where('period_end', '<', today)
+        .whereNotIn('id', failedIds)
+        .orderBy('period_end', 'asc')
+        .limit(BATCH_SIZE)
+        .select('id');
+
+      if (due.length === 0) break;
+
+      for (const { id } of due) {
+        try {
+          const outcome = await this.rollOverBudget(id, today);
+          if (outcome.closed) result.closed++;
+          if (outcome.nextBudgetId) result.created++;
+        } catch (error) {
+          failedIds.push(id);
+          result.failed++;
+          logger.error('Failed to roll over budget', {
+            error: error instanceof Error ? error.message : String(error),
+            budgetId: id
+          });
+        }
+      }
+    }
+
+    if (result.closed > 0 || result.failed > 0) {
+      logger.info('Budget rollover completed', { asOf: today, ...result });
+    }
+
+    return result;
+  }
+
+  /**
+   * Close one expired budget and create its next period. The next period is
+   * skipped (the chain ends) when the category is gone or another active
+   * budget already covers part of the new period.
+   */
+  static async rollOverBudget(
+    budgetId: string,
+    today: string
+  ): Promise<{ closed: boolean; nextBudgetId: string | null }> {
+    return db.transaction(async (trx) => {
+      const locked: Budget | undefined = await trx('budgets')
+        .where({ id: budgetId, is_active: true })
+        .whereNull('closed_at')
+        .where('period_end', '<', today)
+        .forUpdate()
+        .first();
+
+      // Already rolled over by a concurrent run
+      if (!locked) {
+        return { closed: false, nextBudgetId: null };
+      }
+
+      // Settle the final spent amount before deciding what to carry
+      const budget = await BudgetService.refreshBudgetSpentAmount(trx, locked.id);
+
+      await trx('budgets')
+        .where('id', budget.id)
+        .update({ closed_at: trx.fn.now() });
+
+      const periodStart = BudgetModel.nextPeriodStart(toDateOnlyString(budget.period_end)!);
+      const periodEnd = BudgetModel.periodEnd(periodStart, budget.period, await this.anchorDay(trx, budget));
+
+      const category = await trx('categories')
+        .where({ id: budget.category_id, is_active: true })
+        .first('id');
+
+      const overlapping = await trx('budgets')
+        .where({ user_id: budget.user_id, category_id: budget.category_id, is_active: true })
+        .whereNot('id', budget.id)
+        .where('period_start', '<=', periodEnd)
+        .where('period_end', '>=', periodStart)
+        .first('id');
+
+      if (!category || overlapping) {
+        logger.warn('Budget closed without a next period', {
+          userId: budget.user_id,
+          budgetId: budget.id,
+          reason: !category ? 'category_inactive' : 'overlapping_budget'
+        });
+        return { closed: true, nextBudgetId: null };
+      }
+
+      const [next] = await trx('budgets')
+        .insert({
+          user_id: budget.user_id,
+          category_id: budget.category_id,
+          previous_budget_id: budget.id,
+          name: budget.name,
+          description: budget.description,
+          amount: budget.amount,
+          rollover_amount: BudgetModel.rolloverAmount(budget),
+          currency: budget.currency,
+          period: budget.period,
+          period_start: periodStart,
+          period_end: periodEnd,
+          alert_threshold: budget.alert_threshold,
+          rollover_unused: budget.rollover_unused,
+          rollover_overspent: budget.rollover_overspent,
+          metadata: budget.metadata
+        })
+        .returning<Array<Pick<Budget, 'id'>>>('id');
+
+      await BudgetService.refreshBudgetSpentAmount(trx, next!.id);
+
+      logger.info('Budget rolled over', {
+        userId: budget.user_id,
+        budgetId: budget.id,
+        nextBudgetId: next!.id,
+        periodStart
+      });
+
+      return { closed: true, nextBudgetId: next!.id };
+    });
+  }
+
+  /**
+   * Day of month the budget's chain started on. Periods after a clamped one
+   * (e.g. February after the 31st) go back to this day when the month allows.
+   */
+  private static async anchorDay(trx: Knex.Transaction, budget: Budget): Promise<number> {
+    const first: Pick<Budget, 'period_start'> | undefined = await trx
+      .withRecursive('chain', (query) => {
+        query
+          .select('b.id', 'b.previous_budget_id', 'b.period_start')
+          .from('budgets as b')
+          .where('b.id', budget.id)
+          .unionAll((recursive) => {
+            recursive
+              .select('b.id', 'b.previous_budget_id', 'b.period_start')
+              .from('budgets as b')
+              .join('chain as c', 'b.id', 'c.previous_budget_id');
+          });
+      })
+      .from('chain')
+      .orderBy('period_start', 'asc')
+      .first('period_start');
+
+    return Number(toDateOnlyString((first ?? budget).period_start)!.slice(8, 10));
+  }
+}
@@ -0,0 +1,375 @@
+import { Knex } from 'knex';
+import { db } from '../config/database';
+import { logger } from '../middleware/logging';
+import { AppError } from '../middleware/errorHandler';
+import { toDateOnlyString, toDateParam } from '../utils/date';
+import {
+  Budget,
+  BudgetWithCategory,
+  BudgetResponse,
+  BudgetFilters,
+  BudgetModel,
+  CreateBudgetData,
+  UpdateBudgetData
+} from '../models/Budget';
+import { Transaction, TransactionType } from '../models/Transaction';
+import { BudgetAlertService } from './budgetAlertService';
+import { ExchangeRateService } from './exchangeRateService';
+
+export interface BudgetListResult {
+  budgets: BudgetResponse[];
+  total: number;
+}
+
+/**
+ * Transaction fields that decide which budgets a write touches
+ */
+export type BudgetAffectingFields = Pick<Transaction, 'type' | 'category_id' | 'transaction_date'>;
+
+// Expense total for a budget's category and period in the budget's currency,
+// evaluated per budget row
+const SPENT_AMOUNT_SQL = `COALESCE((
+  SELECT SUM(convert_amount(t.amount, t.currency, budgets.currency, t.transaction_date))
+  FROM transactions t
+  WHERE t.user_id = budgets.user_id
+  AND t.category_id = budgets.category_id
+  AND t.type = 'expense'
+  AND t.transaction_date BETWEEN budgets.period_start AND budgets.period_end
+), 0)`;
+
+export class BudgetService {
+  /**
+   * List a user's budgets with filtering and pagination
+   */
+  static async getBudgets(userId: string, filters: BudgetFilters): Promise<BudgetListResult> {
+    const query = this.baseQuery(db, userId)
+      .where('b.is_active', filters.isActive ?? true);
+
+    if (filters.categoryId) query.where('b.category_id', filters.categoryId);
+    if (filters.period) query.where('b.period', filters.period);
+    // Budgets whose period overlaps the requested range
+    if (filters.startDate) query.where('b.period_end', '>=', toDateParam(filters.startDate));
+    if (filters.endDate) query.where('b.period_start', '<=', toDateParam(filters.endDate));
+
+    const countResult = await query
+      .clone()
+      .clearSelect()
+      .count<{ count: string }[]>('b.id as count')
+      .first();
+
+    const rows: BudgetWithCategory[] = await query
+      .orderBy('b.period_start', 'desc')
+      .orderBy('b.name', 'asc')
+      .limit(filters.limit)
+      .offset((filters.page - 1) * filters.limit);
+
+    return {
+      budgets: rows.map(row => BudgetModel.toResponse(row)),
+      total: parseInt(countResult?.count || '0', 10)
+    };
+  }
+
+  /**
+   * Get a single budget with its progress
+   */
+  static async getBudgetById(userId: string, budgetId: string): Promise<BudgetResponse> {
+    const row: BudgetWithCategory | undefined = await this.baseQuery(db, userId)
+      .where('b.id', budgetId)
+      .first();
+
+    if (!row) {
+      throw new AppError('Budget not found', 404);
+    }
+
+    return BudgetModel.toResponse(row);
+  }
+
+  /**
+   * Every period in a budget's rollover chain, oldest first
+   */
+  static async getBudgetHistory(userId: string, budgetId: string): Promise<BudgetResponse[]> {
+    const result = await db.raw(`
+      WITH RECURSIVE earlier AS (
+        SELECT id, previous_budget_id FROM budgets WHERE id = ? AND user_id = ?
+        UNION ALL
+        SELECT b.id, b.previous_budget_id FROM budgets b JOIN earlier e ON b.id = e.previous_budget_id
+      ), later AS (
+        SELECT id FROM budgets WHERE id = ? AND user_id = ?
+        UNION ALL
+        SELECT b.id FROM budgets b JOIN later l ON b.previous_budget_id = l.id
+      )
+      SELECT id FROM earlier UNION SELECT id FROM later
+    `, [budgetId, userId, budgetId, userId]);
+
+    const ids: string[] = result.rows.map((row: Pick<Budget, 'id'>) => row.id);
+    if (ids.length === 0) {
+      throw new AppError('Budget not found', 404);
+    }
+
+    const rows: BudgetWithCategory[] = await this.baseQuery(db, userId)
+      .whereIn('b.id', ids)
+      .orderBy('b.period_start', 'asc');
+
+    return rows.map(row => BudgetModel.toResponse(row));
+  }
+
+  /**
+   * Create a budget. When endDate is omitted the period determines it.
+   */
+  static async createBudget(userId: string, data: CreateBudgetData): Promise<BudgetResponse> {
+    const periodStart = toDateParam(data.startDate);
+    const periodEnd = data.endDate ? toDateParam(data.endDate) : BudgetModel.periodEnd(periodStart, data.period);
+
+    if (periodEnd <= periodStart) {
+      throw new AppError('Budget end date must be after its start date', 400);
+    }
+
+    const { budgetId, budgetAlerts } = await db.transaction(async (trx) => {
+      await this.assertCategoryAccessible(trx, userId, data.categoryId);
+      await this.assertNoOverlap(trx, userId, data.categoryId, periodStart, periodEnd);
+
+      const [created] = await trx('budgets')
+        .insert({
+          user_id: userId,
+          category_id: data.categoryId,
+          name: data.name,
+          description: data.description || null,
+          amount: data.amount,
+          currency: data.currency || await ExchangeRateService.getBaseCurrency(userId, trx),
+          period: data.period,
+          period_start: periodStart,
+          period_end: periodEnd,
+          alert_threshold: data.alertThreshold / 100,
+          rollover_unused: data.rolloverUnused ?? false,
+          rollover_overspent: data.rolloverOverspent ?? false
+        })
+        .returning<Budget[]>('*');
+
+      await this.recalculate(trx, trx('budgets').where('id', created!.id));
+
+      return {
+        budgetId: created!.id,
+        budgetAlerts: await BudgetAlertService.checkBudgets(trx, [created!.id])
+      };
+    });
+
+    logger.info('Budget created', { userId, budgetId, categoryId: data.categoryId });
+
+    await BudgetAlertService.deliverAlerts(budgetAlerts);
+
+    return this.getBudgetById(userId, budgetId);
+  }
+
+  /**
+   * Update a budget, recomputing spent_amount when its category or period moves
+   */
+  static async updateBudget(userId: string, budgetId: string, data: UpdateBudgetData): Promise<BudgetResponse> {
+    const budgetAlerts = await db.transaction(async (trx) => {
+      const existing: Budget | undefined = await trx('budgets')
+        .where({ id: budgetId, user_id: userId })
+        .forUpdate()
+        .first();
+
+      if (!existing) {
+        throw new AppError('Budget not found', 404);
+      }
+
+      const categoryId = data.categoryId ?? existing.category_id;
+      const period = data.period ?? existing.period;
+      const periodStart = data.startDate ? toDateParam(data.startDate) : toDateOnlyString(existing.period_start)!;
+      let periodEnd = data.endDate ? toDateParam(data.endDate) : toDateOnlyString(existing.period_end)!;
+
+      // A new start or period without an explicit end re-derives the end date
+      if (!data.endDate && (data.startDate || data.period)) {
+        periodEnd = BudgetModel.periodEnd(periodStart, period);
+      }
+
+      if (periodEnd <= periodStart) {
+        throw new AppError('Budget end date must be after its start date', 400);
+      }
+
+      const scopeChanged = categoryId !== existing.category_id
+        || periodStart !== toDateOnlyString(existing.period_start)
+        || periodEnd !== toDateOnlyString(existing.period_end);
+      const isActive = data.isActive ?? existing.is_active;
+
+      if (categoryId !== existing.category_id) {
+        await this.assertCategoryAccessible(trx, userId, categoryId);
+      }
+
+      if (isActive && (scopeChanged || !existing.is_active)) {
+        await this.assertNoOverlap(trx, userId, categoryId, periodStart, periodEnd, budgetId);
+      }
+
+      const updates: Record<string, unknown> = {
+        category_id: categoryId,
+        period,
+        period_start: periodStart,
+        period_end: periodEnd
+      };
+      if (data.name !== undefined) updates.name = data.name;
+      if (data.amount !== undefined) updates.amount = data.amount;
+      if (data.description !== undefined) updates.description = data.description;
+      if (data.alertThreshold !== undefined) updates.alert_threshold = data.alertThreshold / 100;
+      if (data.rolloverUnused !== undefined) updates.rollover_unused = data.rolloverUnused;
+      if (data.rolloverOverspent !== undefined) updates.rollover_overspent = data.rolloverOverspent;
+      if (data.isActive !== undefined) updates.is_active = data.isActive;
+
+      await trx('budgets')
+        .where({ id: budgetId, user_id: userId })
+        .update(updates);
+
+      if (scopeChanged) {
+        await this.recalculate(trx, trx('budgets').where('id', budgetId));
+        // A different category or period starts over with no alerts sent
+        await trx('budget_alerts').where('budget_id', budgetId).del();
+      }
+
+      // A smaller amount or lower threshold can put the budget over a limit
+      return BudgetAlertService.checkBudgets(trx, [budgetId]);
+    });
+
+    logger.info('Budget updated', { userId, budgetId });
+
+    await BudgetAlertService.deliverAlerts(budgetAlerts);
+
+    return this.getBudgetById(userId, budgetId);
+  }
+
+  /**
+   * Deactivate a budget
+   */
+  static async deleteBudget(userId: string, budgetId: string): Promise<void> {
+    const updated = await db('budgets')
+      .where({ id: budgetId, user_id: userId, is_active: true })
+      .update({ is_active: false });
+
+    if (!updated) {
+      throw new AppError('Budget not found', 404);
+    }
+
+    logger.info('Budget deactivated', { userId, budgetId });
+  }
+
+  /**
+   * Recompute spent_amount for every budget covering the category and date
+   * of the given transaction row states (before and/or after a write).
+   * Runs inside the caller's transaction. Returns the ids of the budgets
+   * that were recomputed.
+   */
+  static async syncSpentAmounts(
+    trx: Knex.Transaction,
+    userId: string,
+    transactions: Array<BudgetAffectingFields | null>
+  ): Promise<string[]> {
+    const scopes = new Map<string, { categoryId: string; date: string }>();
+
+    for (const transaction of transactions) {
+      if (!transaction || !transaction.category_id || transaction.type !== TransactionType.EXPENSE) {
+        continue;
+      }
+
+      const date = toDateOnlyString(transaction.transaction_date)!;
+      scopes.set(`${transaction.category_id}:${date}`, { categoryId: transaction.category_id, date });
+    }
+
+    const budgetIds = new Set<string>();
+    for (const { categoryId, date } of scopes.values()) {
+      const ids = await this.recalculate(trx, trx('budgets')
+        .where({ user_id: userId, category_id: categoryId })
+        .where('period_start', '<=', date)
+        .where('period_end', '>=', date));
+
+      ids.forEach(id => budgetIds.add(id));
+    }
+
+    return Array.from(budgetIds);
+  }
+
+  /**
+   * Recompute spent_amount for every budget of a category
+   */
+  static async refreshCategorySpentAmounts(
+    trx: Knex.Transaction,
+    userId: string,
+    categoryId: string
+  ): Promise<string[]> {
+    return this.recalculate(trx, trx('budgets').where({ user_id: userId, category_id: categoryId }));
+  }
+
+  /**
+   * Recompute spent_amount for a single budget and return the updated row
+   */
+  static async refreshBudgetSpentAmount(trx: Knex.Transaction, budgetId: string): Promise<Budget> {
+    const [budget] = await trx('budgets')
+      .where('id', budgetId)
+      .update({ spent_amount: trx.raw(SPENT_AMOUNT_SQL) })
+      .returning<Budget[]>('*');
+
+    return budget!;
+  }
+
+  /**
+   * Set spent_amount from the transaction history for the budgets selected by the query
+   */
+  private static async recalculate(trx: Knex.Transaction, budgets: Knex.QueryBuilder): Promise<string[]> {
+    const rows: Array<Pick<Budget, 'id'>> = await budgets
+      .update({ spent_amount: trx.raw(SPENT_AMOUNT_SQL) })
+      .returning('id');
+
+    return rows.map(row => row.id);
+  }
+
+  /**
+   * Base query joining the category name for a user's budgets
+   */
+  private static baseQuery(executor: Knex | Knex.Transaction, userId: string): Knex.QueryBuilder {
+    return executor('budgets as b')
+      .leftJoin('categories as c', 'c.id', 'b.category_id')
+      .where('b.user_id', userId)
+      .select('b.*', 'c.name as category_name');
+  }
+
+  /**
+   * Ensure the category is one of the user's own or a system category
+   */
+  private static async assertCategoryAccessible(
+    trx: Knex.Transaction,
+    userId: string,
+    categoryId: string
+  ): Promise<void> {
+    const category = await trx('categories')
+      .where({ id: categoryId, is_active: true })
+      .andWhere(builder => {
+        builder.where('user_id', userId).orWhere('is_system', true);
+      })
+      .first('id');
+
+    if (!category) {
+      throw new AppError('Category not found', 404);
+    }
+  }
+
+  /**
+   * Only one active budget per category may cover any given day
+   */
+  private static async assertNoOverlap(
+    trx: Knex.Transaction,
+    userId: string,
+    categoryId: string,
+    periodStart: string,
+    periodEnd: string,
+    excludeBudgetId?: string
+  ): Promise<void> {
+    const query = trx('budgets')
+      .where({ user_id: userId, category_id: categoryId, is_active: true })
+      .where('period_start', '<=', periodEnd)
+      .where('period_end', '>=', periodStart);
+
+    if (excludeBudgetId) query.whereNot('id', excludeBudgetId);
+
+    if (await query.first('id')) {
+      throw new AppError('An active budget for this category already covers part of this period', 409);
+    }
+  }
+}
@@ -0,0 +1,400 @@
+import { Knex } from 'knex';
+import { db } from '../config/database';
+import { logger } from '../middleware/logging';
+import { AppError } from '../middleware/errorHandler';
+import { Transaction, TransactionType } from '../models/Transaction';
+import {
+  CategorizationRule,
+  CategorizationRuleResponse,
+  CategorizationRuleModel,
+  CategorizationRuleSuggestion,
+  CreateCategorizationRuleData,
+  UpdateCategorizationRuleData,
+  ApplyRuleResult
+} from '../models/CategorizationRule';
+import { BudgetService } from './budgetService';
+import { BudgetAlertService } from './budgetAlertService';
+
+/**
+ * Transaction fields the rule conditions look at
+ */
+export interface RuleMatchInput {
+  accountId: string;
+  merchantName: string | null;
+  description: string | null;
+  amount: number;
+}
+
+// Transactions updated per query when a rule is applied to existing ones
+const UPDATE_CHUNK_SIZE = 1000;
+
+const CONDITION_FIELDS = ['merchant_name', 'description_pattern', 'min_amount', 'max_amount', 'account_id'] as const;
+
+export class CategorizationRuleService {
+  /**
+   * List a user's rules in the order they are tried
+   */
+  static async getRules(userId: string): Promise<CategorizationRuleResponse[]> {
+    const rules: CategorizationRule[] = await db('categorization_rules')
+      .where('user_id', userId)
+      .orderBy('priority', 'asc')
+      .orderBy('created_at', 'asc');
+
+    return rules.map(rule => CategorizationRuleModel.toResponse(rule));
+  }
+
+  /**
+   * Get a single rule
+   */
+  static async getRuleById(userId: string, ruleId: string): Promise<CategorizationRuleResponse> {
+    const rule: CategorizationRule | undefined = await db('categorization_rules')
+      .where({ id: ruleId, user_id: userId })
+      .first();
+
+    if (!rule) {
+      throw new AppError('Categorization rule not found', 404);
+    }
+
+    return CategorizationRuleModel.toResponse(rule);
+  }
+
+  /**
+   * Create a rule, tried after the user's existing rules
+   */
+  static async createRule(userId: string, data: CreateCategorizationRuleData): Promise<CategorizationRuleResponse> {
+    if (data.descriptionPattern) {
+      await this.assertValidPattern(data.descriptionPattern);
+    }
+
+    const rule = await db.transaction(async (trx) => {
+      await this.assertCategoryAccessible(trx, userId, data.categoryId);
+      if (data.accountId) {
+        await this.assertAccountOwned(trx, userId, data.accountId);
+      }
+
+      const last = await trx('categorization_rules')
+        .where('user_id', userId)
+        .max<{ max: number | null }>('priority as max')
+        .first();
+
+      const [created] = await trx('categorization_rules')
+        .insert({
+          user_id: userId,
+          category_id: data.categoryId,
+          merchant_name: data.merchantName?.trim() || null,
+          description_pattern: data.descriptionPattern || null,
+          min_amount: data.minAmount ?? null,
+          max_amount: data.maxAmount ?? null,
+          account_id: data.accountId || null,
+          priority: last?.max !== null && last?.max !== undefined ? last.max + 1 : 0
+        })
+        .returning<CategorizationRule[]>('*');
+
+      return created!;
+    });
+
+    logger.info('Categorization rule created', { userId, ruleId: rule.id });
+
+    return CategorizationRuleModel.toResponse(rule);
+  }
+
+  /**
+   * Update a rule's category, conditions or active flag
+   */
+  static async updateRule(
+    userId: string,
+    ruleId: string,
+    data: UpdateCategorizationRuleData
+  ): Promise<CategorizationRuleResponse> {
+    if (data.descriptionPattern) {
+      await this.assertValidPattern(data.descriptionPattern);
+    }
+
+    const rule = await db.transaction(async (trx) => {
+      const existing = await this.findOwnedRule(trx, userId, ruleId);
+
+      const updates: Partial<CategorizationRule> = {};
+
+      if (data.categoryId !== undefined && data.categoryId !== existing.category_id) {
+        await this.assertCategoryAccessible(trx, userId, data.categoryId);
+        updates.category_id = data.categoryId;
+      }
+      if (data.accountId && data.accountId !== existing.account_id) {
+        await this.assertAccountOwned(trx, userId, data.accountId);
+      }
+
+      if (data.merchantName !== undefined) updates.merchant_name = data.merchantName?.trim() || null;
+      if (data.descriptionPattern !== undefined) updates.description_pattern = data.descriptionPattern || null;
+      if (data.minAmount !== undefined) updates.min_amount = data.minAmount;
+      if (data.maxAmount !== undefined) updates.max_amount = data.maxAmount;
+      if (data.accountId !== undefined) updates.account_id = data.accountId;
+      if (data.isActive !== undefined) updates.is_active = data.isActive;
+
+      const merged = { ...existing, ...updates };
+
+      if (CONDITION_FIELDS.every(field => merged[field] === null)) {
+        throw new AppError('A rule needs at least one condition', 400);
+      }
+      if (merged.min_amount !== null && merged.max_amount !== null && Number(merged.min_amount) > Number(merged.max_amount)) {
+        throw new AppError('minAmount cannot be greater than maxAmount', 400);
+      }
+
+      const [updated] = await trx('categorization_rules')
+        .where({ id: ruleId, user_id: userId })
+        .update(updates)
+        .returning<CategorizationRule[]>('*');
+
+      return updated!;
+    });
+
+    logger.info('Categorization rule updated', { userId, ruleId });
+
+    return CategorizationRuleModel.toResponse(rule);
+  }
+
+  /**
+   * Delete a rule. Transactions it categorized keep their category.
+   */
+  static async deleteRule(userId: string, ruleId: string): Promise<void> {
+    const deleted = await db('categorization_rules')
+      .where({ id: ruleId, user_id: userId })
+      .del();
+
+    if (!deleted) {
+      throw new AppError('Categorization rule not found', 404);
+    }
+
+    logger.info('Categorization rule deleted', { userId, ruleId });
+  }
+
+  /**
+   * Set the order rules are tried in. Every rule of the user must be listed.
+   */
+  static async reorderRules(userId: string, ruleIds: string[]): Promise<CategorizationRuleResponse[]> {
+    const rules = await db.transaction(async (trx) => {
+      const owned: Array<Pick<CategorizationRule, 'id'>> = await trx('categorization_rules')
+        .where('user_id', userId)
+        .forUpdate()
+        .select('id');
+
+      const ownedIds = new Set(owned.map(rule => rule.id));
+      if (ruleIds.some(id => !ownedIds.has(id))) {
+        throw new AppError('Categorization rule not found', 404);
+      }
+      if (ruleIds.length !== ownedIds.size) {
+        throw new AppError('Every categorization rule must be listed', 400);
+      }
+
+      for (const [index, id] of ruleIds.entries()) {
+        await trx('categorization_rules')
+          .where({ id, user_id: userId })
+          .update({ priority: index });
+      }
+
+      return trx('categorization_rules')
+        .where('user_id', userId)
+        .orderBy('priority', 'asc')
+        .orderBy('created_at', 'asc') as Promise<CategorizationRule[]>;
+    });
+
+    logger.info('Categorization rules reordered', { userId, count: ruleIds.length });
+
+    return rules.map(rule => CategorizationRuleModel.toResponse(rule));
+  }
+
+  /**
+   * Move the user's existing income and expense transactions that match a
+   * rule into its category, whatever their current category or other rules
+   */
+  static async applyRule(userId: string, ruleId: string): Promise<ApplyRuleResult> {
+    const { result, budgetAlerts } = await db.transaction(async (trx) => {
+      const rule = await this.findOwnedRule(trx, userId, ruleId);
+
+      const matched: Transaction[] = await trx('transactions as t')
+        .join('categorization_rules as r', 'r.id', trx.raw('?', [rule.id]))
+        .where('t.user_id', userId)
+        .whereIn('t.type', [TransactionType.INCOME, TransactionType.EXPENSE])
+        .whereRaw('categorization_rule_matches(r, t.account_id, t.merchant_name, t.description, t.amount)')
+        .forUpdate('t')
+        .select('t.*');
+
+      const changed = matched.filter(transaction => transaction.category_id !== rule.category_id);
+
+      const updated: Transaction[] = [];
+      for (let i = 0; i < changed.length; i += UPDATE_CHUNK_SIZE) {
+        const rows = await trx('transactions')
+          .whereIn('id', changed.slice(i, i + UPDATE_CHUNK_SIZE).map(transaction => transaction.id))
+          .update({ category_id: rule.category_id })
+          .returning<Transaction[]>('*');
+        updated.push(...rows);
+      }
+
+      // Budgets of every category the transactions left or entered
+      const categoryIds = new Set([rule.category_id]);
+      changed.forEach(transaction => transaction.category_id && categoryIds.add(transaction.category_id));
+
+      const budgetIds: string[] = [];
+      if (updated.length > 0) {
+        for (const categoryId of categoryIds) {
+          budgetIds.push(...await BudgetService.refreshCategorySpentAmounts(trx, userId, categoryId));
+        }
+      }
+
+      return {
+        result: { matched: matched.length, updated: updated.length },
+        budgetAlerts: await BudgetAlertService.checkBudgets(trx, budgetIds)
+      };
+    });
+
+    logger.info('Categorization rule applied', { userId, ruleId, ...result });
+
+    await BudgetAlertService.deliverAlerts(budgetAlerts);
+
+    return result;
+  }
+
+  /**
+   * The category of the first matching rule for each transaction, or null
+   * when no rule matches
+   */
+  static async findCategories(
+    executor: Knex | Knex.Transaction,
+    userId: string,
+    transactions: RuleMatchInput[]
+  ): Promise<Array<string | null>> {
+    if (transactions.length === 0) return [];
+
+    const rows: Array<{ i: number; category_id: string | null }> = (await executor.raw(`
+      SELECT v.i, r.category_id
+      FROM jsonb_to_recordset(?::jsonb)
+        AS v(i INTEGER, account_id UUID, merchant_name TEXT, description TEXT, amount DECIMAL)
+      LEFT JOIN categorization_rules r
+        ON r.id = match_categorization_rule(?, v.account_id, v.merchant_name, v.description, v.amount)
+    `, [
+      JSON.stringify(transactions.map((transaction, i) => ({
+        i,
+        account_id: transaction.accountId,
+        merchant_name: transaction.merchantName,
+        description: transaction.description,
+        amount: transaction.amount
+      }))),
+      userId
+    ])).rows;
+
+    const categories: Array<string | null> = transactions.map(() => null);
+    for (const row of rows) {
+      categories[row.i] = row.category_id;
+    }
+
+    return categories;
+  }
+
+  /**
+   * Offer a rule after the user moved a transaction to another category by
+   * hand, when other transactions from the same merchant are elsewhere and
+   * no rule already sends the merchant to that category
+   */
+  static async suggestRule(userId: string, transaction: Transaction): Promise<CategorizationRuleSuggestion | null> {
+    const merchantName = transaction.merchant_name?.trim();
+    if (!merchantName || !transaction.category_id) return null;
+
+    const existing: CategorizationRule | undefined = await db('categorization_rules')
+      .where('user_id', userId)
+      .whereRaw('lower(merchant_name) = lower(?)', [merchantName])
+      .orderBy('priority', 'asc')
+      .first();
+
+    if (existing?.is_active && existing.category_id === transaction.category_id) {
+      return null;
+    }
+
+    const others = await db('transactions')
+      .where('user_id', userId)
+      .whereRaw('lower(merchant_name) = lower(?)', [merchantName])
+      .whereIn('type', [TransactionType.INCOME, TransactionType.EXPENSE])
+      .whereNot('id', transaction.id)
+      .where(builder => {
+        builder.whereNot('category_id', transaction.category_id).orWhereNull('category_id');
+      })
+      .count<{ count: string }[]>('id as count')
+      .first();
+
+    const matchingTransactions = parseInt(others?.count || '0', 10);
+    if (matchingTransactions === 0) return null;
+
+    return {
+      ruleId: existing?.id ?? null,
+      merchantName,
+      categoryId: transaction.category_id,
+      matchingTransactions
+    };
+  }
+
+  /**
+   * Reject patterns PostgreSQL cannot compile, before they reach a rule
+   */
+  private static async assertValidPattern(pattern: string): Promise<void> {
+    try {
+      await db.raw('SELECT \'\' ~* ? AS matches', [pattern]);
+    } catch {
+      throw new AppError('descriptionPattern is not a valid regular expression', 400);
+    }
+  }
+
+  /**
+   * Load a rule owned by the user, locking it for the rest of the transaction
+   */
+  private static async findOwnedRule(
+    trx: Knex.Transaction,
+    userId: string,
+    ruleId: string
+  ): Promise<CategorizationRule> {
+    const rule: CategorizationRule | undefined = await trx('categorization_rules')
+      .where({ id: ruleId, user_id: userId })
+      .forUpdate()
+      .first();
+
+    if (!rule) {
+      throw new AppError('Categorization rule not found', 404);
+    }
+
+    return rule;
+  }
+
+  /**
+   * Ensure the account belongs to the user
+   */
+  private static async assertAccountOwned(
+    trx: Knex.Transaction,
+    userId: string,
+    accountId: string
+  ): Promise<void> {
+    const account = await trx('accounts')
+      .where({ id: accountId, user_id: userId })
+      .first('id');
+
+    if (!account) {
+      throw new AppError('Account not found', 404);
+    }
+  }
+
+  /**
+   * Ensure the category is one of the user's own or a system category
+   */
+  private static async assertCategoryAccessible(
+    trx: Knex.Transaction,
+    userId: string,
+    categoryId: string
+  ): Promise<void> {
+    const category = await trx('categories')
+      .where({ id: categoryId, is_active: true })
+      .andWhere(builder => {
+        builder.where('user_id', userId).orWhere('is_system', true);
+      })
+      .first('id');
+
+    if (!category) {
+      throw new AppError('Category not found', 404);
+    }
+  }
+}
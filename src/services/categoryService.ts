@@ -0,0 +1,455 @@
+import { Knex } from 'knex';
+import { db } from '../config/database';
+import { logger } from '../middleware/logging';
+import { AppError } from '../middleware/errorHandler';
+import { BudgetService } from './budgetService';
+import {
+  Category,
+  CategoryResponse,
+  CategoryTreeNode,
+  CategoryFilters,
+  CategoryMergeResult,
+  CategoryModel,
+  CreateCategoryData,
+  UpdateCategoryData
+} from '../models/Category';
+
+// UNION needs an equality operator for every column, which json lacks, so
+// the recursive subtree query leaves out metadata
+const TREE_COLUMNS = [
+  'id', 'user_id', 'name', 'description', 'color', 'icon', 'is_active',
+  'is_system', 'display_order', 'parent_id', 'created_at', 'updated_at'
+];
+
+interface BudgetRow {
+  id: string;
+  amount: string | number;
+  currency: string;
+  period_start: Date | string;
+  period_end: Date | string;
+  is_active: boolean;
+}
+
+export class CategoryService {
+  /**
+   * The user's categories and the shared system categories, as a tree
+   */
+  static async getCategoryTree(userId: string, filters: CategoryFilters = {}): Promise<CategoryTreeNode[]> {
+    const rows = await this.listQuery(userId, filters);
+    return CategoryModel.buildTree(rows);
+  }
+
+  /**
+   * The user's categories and the shared system categories, as a flat list
+   */
+  static async getCategories(userId: string, filters: CategoryFilters = {}): Promise<CategoryResponse[]> {
+    const rows = await this.listQuery(userId, filters);
+    return rows.map(row => CategoryModel.toResponse(row));
+  }
+
+  /**
+   * Get a category together with its active subtree
+   */
+  static async getCategoryById(userId: string, categoryId: string): Promise<CategoryTreeNode> {
+    const rows: Category[] = await db
+      .withRecursive('subtree', (query) => {
+        query
+          .select(TREE_COLUMNS.map(column => `c.${column}`))
+          .from('categories as c')
+          .where('c.id', categoryId)
+          .andWhere(builder => this.visibleTo(builder, userId, 'c'))
+          .union((recursive) => {
+            recursive
+              .select(TREE_COLUMNS.map(column => `c.${column}`))
+              .from('categories as c')
+              .join('subtree as s', 'c.parent_id', 's.id')
+              .where('c.is_active', true)
+              .andWhere(builder => this.visibleTo(builder, userId, 'c'));
+          });
+      })
+      .select('*')
+      .from('subtree')
+      .orderBy('display_order', 'asc')
+      .orderBy('name', 'asc');
+
+    const node = CategoryModel.buildTree(rows).find(root => root.id === categoryId);
+
+    if (!node) {
+      throw new AppError('Category not found', 404);
+    }
+
+    return node;
+  }
+
+  /**
+   * Create a category, optionally under a parent
+   */
+  static async createCategory(userId: string, data: CreateCategoryData): Promise<CategoryResponse> {
+    const category = await db.transaction(async (trx) => {
+      const parentId = data.parentId ?? null;
+      if (parentId) {
+        await this.findVisibleCategory(trx, userId, parentId);
+      }
+
+      await this.assertNameAvailable(trx, userId, data.name);
+
+      const [created] = await trx('categories')
+        .insert({
+          user_id: userId,
+          name: data.name,
+          description: data.description || null,
+          color: data.color || null,
+          icon: data.icon || null,
+          parent_id: parentId,
+          display_order: data.displayOrder ?? await this.nextDisplayOrder(trx, userId, parentId)
+        })
+        .returning<Category[]>('*');
+
+      return created!;
+    });
+
+    logger.info('Category created', { userId, categoryId: category.id, parentId: category.parent_id });
+
+    return CategoryModel.toResponse(category);
+  }
+
+  /**
+   * Update a category. Changing parentId moves the whole subtree.
+   */
+  static async updateCategory(
+    userId: string,
+    categoryId: string,
+    data: UpdateCategoryData
+  ): Promise<CategoryResponse> {
+    const category = await db.transaction(async (trx) => {
+      const existing = await this.findOwnedCategory(trx, userId, categoryId);
+      const updates: Record<string, unknown> = {};
+
+      const name = data.name ?? existing.name;
+      const isActive = data.isActive ?? existing.is_active;
+      if (isActive && (name !== existing.name || !existing.is_active)) {
+        await this.assertNameAvailable(trx, userId, name, categoryId);
+      }
+
+      if (data.parentId !== undefined && data.parentId !== existing.parent_id) {
+        if (data.parentId) {
+          await this.findVisibleCategory(trx, userId, data.parentId);
+          if (await this.isAncestorOrSelf(trx, categoryId, data.parentId)) {
+            throw new AppError('A category cannot be moved under one of its own subcategories', 400);
+          }
+        }
+        updates.parent_id = data.parentId;
+      }
+
+      if (data.name !== undefined) updates.name = data.name;
+      if (data.description !== undefined) updates.description = data.description;
+      if (data.color !== undefined) updates.color = data.color;
+      if (data.icon !== undefined) updates.icon = data.icon;
+      if (data.displayOrder !== undefined) updates.display_order = data.displayOrder;
+      if (data.isActive !== undefined) updates.is_active = data.isActive;
+
+      if (Object.keys(updates).length === 0) {
+        return existing;
+      }
+
+      const [updated] = await trx('categories')
+        .where({ id: categoryId, user_id: userId })
+        .update(updates)
+        .returning<Category[]>('*');
+
+      return updated!;
+    });
+
+    logger.info('Category updated', { userId, categoryId });
+
+    return CategoryModel.toResponse(category);
+  }
+
+  /**
+   * Move a category and its subtree under a new parent (null for top level)
+   */
+  static async moveCategory(
+    userId: string,
+    categoryId: string,
+    parentId: string | null,
+    displayOrder?: number
+  ): Promise<CategoryTreeNode> {
+    const data: UpdateCategoryData = { parentId };
+    if (displayOrder !== undefined) data.displayOrder = displayOrder;
+
+    await this.updateCategory(userId, categoryId, data);
+    return this.getCategoryById(userId, categoryId);
+  }
+
+  /**
+   * Deactivate a category. Its subcategories move up to its parent,
+   * existing transactions keep their category for history and the
+   * categorization rules filing into it are switched off.
+   */
+  static async deleteCategory(userId: string, categoryId: string): Promise<void> {
+    await db.transaction(async (trx) => {
+      const existing = await this.findOwnedCategory(trx, userId, categoryId);
+
+      if (!existing.is_active) {
+        throw new AppError('Category not found', 404);
+      }
+
+      await trx('categories')
+        .where({ parent_id: categoryId })
+        .update({ parent_id: existing.parent_id });
+
+      await trx('categories')
+        .where({ id: categoryId, user_id: userId })
+        .update({ is_active: false });
+
+      // Rules would otherwise keep filing new transactions under it
+      await trx('categorization_rules')
+        .where({ category_id: categoryId, user_id: userId })
+        .update({ is_active: false });
+    });
+
+    logger.info('Category deactivated', { userId, categoryId });
+  }
+
+  /**
+   * Merge a category into another: its transactions, budgets,
+   * categorization rules and subcategories move to the target and the
+   * source is removed. Budgets that collide with an active target budget
+   * for the same period are combined into it, and the target's spent
+   * amounts are recomputed from the moved transactions.
+   */
+  static async mergeCategory(
+    userId: string,
+    sourceId: string,
+    targetId: string
+  ): Promise<CategoryMergeResult> {
+    if (sourceId === targetId) {
+      throw new AppError('A category cannot be merged into itself', 400);
+    }
+
+    const result = await db.transaction(async (trx) => {
+      const source = await this.findOwnedCategory(trx, userId, sourceId);
+      const target = await this.findVisibleCategory(trx, userId, targetId);
+
+      if (await this.isAncestorOrSelf(trx, sourceId, targetId)) {
+        throw new AppError('A category cannot be merged into one of its own subcategories', 400);
+      }
+
+      const transactionsMoved = await trx('transactions')
+        .where({ category_id: sourceId, user_id: userId })
+        .update({ category_id: targetId });
+
+      const { budgetsMoved, budgetsCombined } = await this.mergeBudgets(trx, userId, sourceId, targetId);
+
+      await trx('categorization_rules')
+        .where({ category_id: sourceId, user_id: userId })
+        .update({ category_id: targetId });
+
+      await BudgetService.refreshCategorySpentAmounts(trx, userId, targetId);
+
+      const subcategoriesMoved = await trx('categories')
+        .where({ parent_id: sourceId })
+        .update({ parent_id: targetId });
+
+      await trx('categories')
+        .where({ id: source.id, user_id: userId })
+        .del();
+
+      return {
+        target: CategoryModel.toResponse(target),
+        transactionsMoved,
+        budgetsMoved,
+        budgetsCombined,
+        subcategoriesMoved
+      };
+    });
+
+    logger.info('Category merged', {
+      userId,
+      sourceId,
+      targetId,
+      transactionsMoved: result.transactionsMoved,
+      budgetsMoved: result.budgetsMoved,
+      budgetsCombined: result.budgetsCombined
+    });
+
+    return result;
+  }
+
+  /**
+   * Repoint the source category's budgets at the target, folding any that
+   * would violate idx_budgets_user_category_period into the target budget
+   */
+  private static async mergeBudgets(
+    trx: Knex.Transaction,
+    userId: string,
+    sourceId: string,
+    targetId: string
+  ): Promise<{ budgetsMoved: number; budgetsCombined: number }> {
+    const budgets: BudgetRow[] = await trx('budgets')
+      .where({ category_id: sourceId, user_id: userId })
+      .forUpdate();
+
+    let budgetsMoved = 0;
+    let budgetsCombined = 0;
+
+    for (const budget of budgets) {
+      const existing: BudgetRow | undefined = budget.is_active
+        ? await trx('budgets')
+          .where({
+            user_id: userId,
+            category_id: targetId,
+            period_start: budget.period_start,
+            period_end: budget.period_end,
+            is_active: true
+          })
+          .forUpdate()
+          .first()
+        : undefined;
+
+      if (!existing) {
+        await trx('budgets').where({ id: budget.id }).update({ category_id: targetId });
+        budgetsMoved++;
+        continue;
+      }
+
+      if (existing.currency !== budget.currency) {
+        throw new AppError('Cannot combine budgets in different currencies for the same period', 409);
+      }
+
+      await trx('budgets')
+        .where({ id: existing.id })
+        .update({ amount: trx.raw('amount + ?', [budget.amount]) });
+      await trx('budgets').where({ id: budget.id }).del();
+      budgetsCombined++;
+    }
+
+    return { budgetsMoved, budgetsCombined };
+  }
+
+  /**
+   * Active categories visible to the user, in display order
+   */
+  private static listQuery(userId: string, filters: CategoryFilters): Knex.QueryBuilder<Category, Category[]> {
+    const query = db<Category>('categories')
+      .where(builder => this.visibleTo(builder, userId))
+      .andWhere('is_active', filters.isActive ?? true);
+
+    if (filters.search) {
+      query.whereILike('name', `%${filters.search}%`);
+    }
+
+    return query
+      .orderBy('display_order', 'asc')
+      .orderBy('name', 'asc');
+  }
+
+  /**
+   * Restrict a query to the user's own categories and system categories
+   */
+  private static visibleTo(builder: Knex.QueryBuilder, userId: string, alias?: string): void {
+    const column = (name: string): string => (alias ? `${alias}.${name}` : name);
+    builder.where(column('user_id'), userId).orWhere(column('is_system'), true);
+  }
+
+  /**
+   * Load an active category the user can see (own or system)
+   */
+  private static async findVisibleCategory(
+    trx: Knex.Transaction,
+    userId: string,
+    categoryId: string
+  ): Promise<Category> {
+    const category: Category | undefined = await trx('categories')
+      .where({ id: categoryId, is_active: true })
+      .andWhere(builder => this.visibleTo(builder, userId))
+      .first();
+
+    if (!category) {
+      throw new AppError('Category not found', 404);
+    }
+
+    return category;
+  }
+
+  /**
+   * Load a category the user may modify, locking it. System categories are
+   * shared by every user and cannot be changed or removed.
+   */
+  private static async findOwnedCategory(
+    trx: Knex.Transaction,
+    userId: string,
+    categoryId: string
+  ): Promise<Category> {
+    const category: Category | undefined = await trx('categories')
+      .where({ id: categoryId })
+      .andWhere(builder => this.visibleTo(builder, userId))
+      .forUpdate()
+      .first();
+
+    if (!category) {
+      throw new AppError('Category not found', 404);
+    }
+
+    if (category.is_system) {
+      throw new AppError('System categories cannot be modified', 403);
+    }
+
+    return category;
+  }
+
+  /**
+   * Whether ancestorId is categoryId itself or one of its ancestors
+   */
+  private static async isAncestorOrSelf(
+    trx: Knex.Transaction,
+    ancestorId: string,
+    categoryId: string
+  ): Promise<boolean> {
+    const result = await trx.raw(`
+      WITH RECURSIVE ancestors(id, parent_id) AS (
+        SELECT id, parent_id FROM categories WHERE id = ?
+        UNION
+        SELECT c.id, c.parent_id
+        FROM categories c
+        JOIN ancestors a ON c.id = a.parent_id
+      )
+      SELECT 1 FROM ancestors WHERE id = ? LIMIT 1
+    `, [categoryId, ancestorId]);
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Active category names are unique per user (idx_categories_user_name_unique)
+   */
+  private static async assertNameAvailable(
+    trx: Knex.Transaction,
+    userId: string,
+    name: string,
+    excludeCategoryId?: string
+  ): Promise<void> {
+    const query = trx('categories').where({ user_id: userId, name, is_active: true });
+    if (excludeCategoryId) query.whereNot('id', excludeCategoryId);
+
+    if (await query.first('id')) {
+      throw new AppError(`An active category named "${name}" already exists`, 409);
+    }
+  }
+
+  /**
+   * Place new categories after their siblings
+   */
+  private static async nextDisplayOrder(
+    trx: Knex.Transaction,
+    userId: string,
+    parentId: string | null
+  ): Promise<number> {
+    const last = await trx('categories')
+      .where({ user_id: userId, parent_id: parentId })
+      .max<{ max: number | null }>('display_order as max')
+      .first();
+
+    return last?.max === null || last?.max === undefined ? 0 : last.max + 1;
+  }
+}
@@ -0,0 +1,207 @@
+import { Knex } from 'knex';
+import { db } from '../config/database';
+import { config } from '../config/env';
+import { logger } from '../middleware/logging';
+import { CategorySuggestion, CategorySuggestionQuery, Transaction, TransactionType } from '../models/Transaction';
+import { NaiveBayesClassifier } from '../utils/naiveBayes';
+
+type TrainingRow = Pick<Transaction, 'id' | 'category_id' | 'type' | 'description' | 'merchant_name' | 'amount' | 'updated_at'>;
+
+interface UserModel {
+  classifier: NaiveBayesClassifier;
+  // updated_at of the latest transaction learned
+  trainedThrough: Date;
+}
+
+const TRAINING_COLUMNS = ['id', 'category_id', 'type', 'description', 'merchant_name', 'amount', 'updated_at'];
+
+const CATEGORIZED_TYPES = [TransactionType.INCOME, TransactionType.EXPENSE];
+
+// Changes are read back from this long before the latest one learned, so that
+// transactions committed after a later one (they keep their start time) are seen
+const CATCH_UP_OVERLAP_MS = 15 * 60 * 1000;
+
+/**
+ * Words of a description or merchant name: lower case, accents dropped,
+ * numbers (dates, amounts, references) left out
+ */
+const words = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 1 && !/^\d+$/.test(word));
+
+/**
+ * Features of what the user typed (the words and merchant), which are the
+ * evidence for a suggestion
+ */
+const textFeatures = (description: string, merchantName: string | null | undefined): string[] => {
+  const features = new Set(words(description).map(word => `w:${word}`));
+
+  if (merchantName?.trim()) {
+    features.add(`m:${merchantName.trim().toLowerCase()}`);
+    words(merchantName).forEach(word => features.add(`w:${word}`));
+  }
+
+  return Array.from(features);
+};
+
+/**
+ * Features that only sharpen a suggestion: the type and the order of
+ * magnitude of the amount
+ */
+const contextFeatures = (type: string | undefined, amount: number | string | undefined): string[] => {
+  const features: string[] = [];
+
+  if (type) features.push(`t:${type}`);
+  if (amount !== undefined) features.push(`a:${Math.floor(Math.log2(Math.max(Number(amount), 1)))}`);
+
+  return features;
+};
+
+/**
+ * Suggests categories for a transaction being entered from the categories
+ * of the user's earlier transactions, with a naive Bayes model per user.
+ *
+ * Models live in this process. One is trained from the user's history on
+ * first use and afterwards catches up on the transactions changed since,
+ * so writes from anywhere (imports, rules, other instances) are picked up
+ * without hooks. The least recently used models are dropped when there
+ * are more than CATEGORY_SUGGESTION_MAX_MODELS.
+ */
+export class CategorySuggestionService {
+  private static models = new Map<string, Promise<UserModel>>();
+
+  /**
+   * Categories ranked by how likely they are for the transaction.
+   * Empty when nothing the user typed has been seen in their history.
+   */
+  static async suggestCategories(userId: string, query: CategorySuggestionQuery): Promise<CategorySuggestion[]> {
+    const evidence = textFeatures(query.description, query.merchantName);
+    const { classifier } = await this.getModel(userId);
+
+    if (!evidence.some(feature => classifier.knows(feature))) {
+      return [];
+    }
+
+    const predictions = classifier.predict([...evidence, ...contextFeatures(query.type, query.amount)]);
+
+    // Deactivated categories keep their history but are no longer offered
+    const categories: Array<{ id: string; name: string }> = await db('categories')
+      .whereIn('id', predictions.map(({ label }) => label))
+      .where('is_active', true)
+      .andWhere(builder => {
+        builder.where('user_id', userId).orWhere('is_system', true);
+      })
+      .select('id', 'name');
+    const names = new Map(categories.map(category => [category.id, category.name]));
+
+    return predictions
+      .filter(({ label }) => names.has(label))
+      .slice(0, query.limit)
+      .map(({ label, probability }) => ({
+        categoryId: label,
+        categoryName: names.get(label)!,
+        confidence: Math.round(probability * 100) / 100
+      }));
+  }
+
+  /**
+   * The user's model, trained or brought up to date. Refreshes of one
+   * user's model run one after the other.
+   */
+  private static getModel(userId: string): Promise<UserModel> {
+    const previous = this.models.get(userId);
+    const model = (previous ? previous.catch(() => null) : Promise.resolve(null))
+      .then(current => current ? this.catchUp(userId, current) : this.train(userId));
+
+    // Most recently used last, so eviction starts from the front
+    this.models.delete(userId);
+    this.models.set(userId, model);
+    for (const key of this.models.keys()) {
+      if (this.models.size <= config.CATEGORY_SUGGESTION_MAX_MODELS) break;
+      this.models.delete(key);
+    }
+
+    // A failed training is retried on the next request
+    model.catch(() => {
+      if (this.models.get(userId) === model) this.models.delete(userId);
+    });
+
+    return model;
+  }
+
+  /**
+   * Train a model from all of the user's categorized transactions
+   */
+  private static async train(userId: string): Promise<UserModel> {
+    const rows: TrainingRow[] = await this.categorized(db('transactions').where('user_id', userId))
+      .select(TRAINING_COLUMNS);
+
+    const model: UserModel = { classifier: new NaiveBayesClassifier(), trainedThrough: new Date(0) };
+    this.learn(model, rows);
+
+    logger.debug('Category suggestion model trained', { userId, transactions: rows.length });
+
+    return model;
+  }
+
+  /**
+   * Relearn the transactions changed since the model was last brought up to
+   * date. Deleted transactions leave no trace to catch up on, so a model
+   * that no longer has as many transactions as the database is retrained.
+   */
+  private static async catchUp(userId: string, model: UserModel): Promise<UserModel> {
+    const since = new Date(model.trainedThrough.getTime() - CATCH_UP_OVERLAP_MS);
+
+    const [changed, counted] = await Promise.all([
+      db('transactions')
+        .where('user_id', userId)
+        .where('updated_at', '>=', since)
+        .select(TRAINING_COLUMNS) as Promise<TrainingRow[]>,
+      this.categorized(db('transactions').where('user_id', userId))
+        .count<{ count: string }>('* as count')
+        .first()
+    ]);
+
+    this.learn(model, changed);
+
+    if (model.classifier.size !== parseInt(counted?.count || '0', 10)) {
+      return this.train(userId);
+    }
+
+    return model;
+  }
+
+  /**
+   * Learn transactions into a model; ones that no longer have a category
+   * (or became transfers) are forgotten
+   */
+  private static learn(model: UserModel, rows: TrainingRow[]): void {
+    for (const row of rows) {
+      if (row.category_id && CATEGORIZED_TYPES.includes(row.type)) {
+        model.classifier.learn(row.id, row.category_id, [
+          ...textFeatures(row.description, row.merchant_name),
+          ...contextFeatures(row.type, row.amount)
+        ]);
+      } else {
+        model.classifier.forget(row.id);
+      }
+
+      if (row.updated_at > model.trainedThrough) {
+        model.trainedThrough = row.updated_at;
+      }
+    }
+  }
+
+  /**
+   * Restrict a transaction query to the ones a model learns from
+   */
+  private static categorized(query: Knex.QueryBuilder): Knex.QueryBuilder {
+    return query
+      .whereIn('type', CATEGORIZED_TYPES)
+      .whereNotNull('category_id');
+  }
+}
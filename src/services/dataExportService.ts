@@ -0,0 +1,384 @@
+import fs from 'fs';
+import path from 'path';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { db } from '../config/database';
+import { config } from '../config/env';
+import { logger } from '../middleware/logging';
+import { AppError } from '../middleware/errorHandler';
+import { createAuditLog, AuditEventType } from '../middleware/auditLog';
+import { toCsv } from '../utils/csv';
+import { createZip, ZipEntry } from '../utils/zip';
+import { AccountModel } from '../models/Account';
+import { CategoryModel } from '../models/Category';
+import { TransactionModel } from '../models/Transaction';
+import { BudgetModel } from '../models/Budget';
+import {
+  DataExport,
+  DataExportStatus,
+  DataExportResponse,
+  DataExportLink,
+  DataExportDownloadQuery,
+  DataExportModel
+} from '../models/DataExport';
+import { UserService } from './userService';
+
+export interface DataExportFile {
+  filePath: string;
+  fileName: string;
+}
+
+export interface DataExportRunResult {
+  completed: number;
+  failed: number;
+  expired: number;
+}
+
+// Archives are written here and served only through signed links
+const EXPORT_DIR = path.join(process.cwd(), 'uploads', 'exports');
+
+// Exports stuck in processing this long were interrupted by a restart
+const STALE_PROCESSING_MS = 60 * 60 * 1000;
+
+const ACTIVE_STATUSES = [DataExportStatus.PENDING, DataExportStatus.PROCESSING];
+
+export class DataExportService {
+  /**
+   * Queue a full export of the user's data. A user has at most one export
+   * queued or in progress; requesting again returns that one.
+   */
+  static async requestExport(userId: string): Promise<DataExportResponse> {
+    const dataExport = await db.transaction(async (trx) => {
+      // Serialize concurrent requests from the same user
+      await trx('users').where('id', userId).forUpdate().first('id');
+
+      const active: DataExport | undefined = await trx('data_exports')
+        .where('user_id', userId)
+        .whereIn('status', ACTIVE_STATUSES)
+        .first();
+
+      if (active) return active;
+
+      const [created] = await trx('data_exports')
+        .insert({ user_id: userId, status: DataExportStatus.PENDING })
+        .returning<DataExport[]>('*');
+
+      return created!;
+    });
+
+    await this.audit(userId, dataExport.id, { action: 'requested' });
+
+    logger.info('Data export requested', { userId, exportId: dataExport.id });
+
+    return DataExportModel.toResponse(dataExport);
+  }
+
+  /**
+   * List a user's exports, newest first
+   */
+  static async getExports(userId: string): Promise<DataExportResponse[]> {
+    const rows: DataExport[] = await db('data_exports')
+      .where('user_id', userId)
+      .orderBy('created_at', 'desc');
+
+    return rows.map(row => DataExportModel.toResponse(row));
+  }
+
+  /**
+   * Get one export
+   */
+  static async getExportById(userId: string, exportId: string): Promise<DataExportResponse> {
+    return DataExportModel.toResponse(await this.findOwnedExport(userId, exportId));
+  }
+
+  /**
+   * Create a short-lived signed link to download a ready export. The link
+   * needs no bearer token, so it can be opened directly by the browser.
+   */
+  static async createDownloadLink(userId: string, exportId: string): Promise<DataExportLink> {
+    const dataExport = await this.findOwnedExport(userId, exportId);
+    this.assertDownloadable(dataExport);
+
+    const expires = Math.floor(Date.now() / 1000) + config.DATA_EXPORT_LINK_TTL;
+    const signature = this.sign(dataExport.id, dataExport.user_id, expires);
+
+    return {
+      url: `${config.API_PREFIX}/${config.API_VERSION}/exports/${dataExport.id}/download?expires=${expires}&signature=${signature}`,
+      expiresAt: new Date(expires * 1000)
+    };
+  }
+
+  /**
+   * Resolve a signed download link to the archive on disk
+   */
+  static async getDownload(
+    exportId: string,
+    query: DataExportDownloadQuery,
+    ipAddress?: string
+  ): Promise<DataExportFile> {
+    if (query.expires * 1000 < Date.now()) {
+      throw new AppError('Download link has expired', 410);
+    }
+
+    const dataExport: DataExport | undefined = await db('data_exports')
+      .where('id', exportId)
+      .first();
+
+    if (!dataExport || !this.verify(dataExport, query)) {
+      throw new AppError('Invalid download link', 403);
+    }
+
+    this.assertDownloadable(dataExport);
+
+    const filePath = path.join(EXPORT_DIR, dataExport.file_name!);
+    if (!fs.existsSync(filePath)) {
+      throw new AppError('Export file not found', 404);
+    }
+
+    await this.audit(dataExport.user_id, dataExport.id, { action: 'downloaded' }, ipAddress);
+
+    const date = (dataExport.completed_at ?? dataExport.created_at).toISOString().slice(0, 10);
+
+    return { filePath, fileName: `finance-data-export-${date}.zip` };
+  }
+
+  /**
+   * Build every pending export, then expire old archives. Run by the
+   * data export job; pending exports are claimed with SKIP LOCKED so
+   * several instances can share the queue.
+   */
+  static async processPendingExports(): Promise<DataExportRunResult> {
+    const result: DataExportRunResult = { completed: 0, failed: 0, expired: 0 };
+
+    await this.failStaleExports();
+
+    for (;;) {
+      const [claimed]: DataExport[] = await db('data_exports')
+        .whereIn('id', db('data_exports')
+          .select('id')
+          .where('status', DataExportStatus.PENDING)
+          .orderBy('created_at', 'asc')
+          .limit(1)
+          .forUpdate()
+          .skipLocked())
+        .update({ status: DataExportStatus.PROCESSING, started_at: db.fn.now() })
+        .returning('*');
+
+      if (!claimed) break;
+
+      if (await this.buildExport(claimed)) {
+        result.completed++;
+      } else {
+        result.failed++;
+      }
+    }
+
+    result.expired = await this.expireExports();
+
+    if (result.completed > 0 || result.failed > 0 || result.expired > 0) {
+      logger.info('Data export run completed', { ...result });
+    }
+
+    return result;
+  }
+
+  /**
+   * Write the archive of one claimed export and mark it ready, or failed
+   */
+  private static async buildExport(dataExport: DataExport): Promise<boolean> {
+    try {
+      const archive = createZip(await this.collectEntries(dataExport.user_id));
+      const fileName = this.archiveName(dataExport);
+
+      await fs.promises.mkdir(path.join(EXPORT_DIR, dataExport.user_id), { recursive: true });
+      await fs.promises.writeFile(path.join(EXPORT_DIR, fileName), archive);
+
+      await db('data_exports')
+        .where('id', dataExport.id)
+        .update({
+          status: DataExportStatus.READY,
+          file_name: fileName,
+          file_size: archive.length,
+          completed_at: db.fn.now(),
+          expires_at: new Date(Date.now() + config.DATA_EXPORT_RETENTION_HOURS * 60 * 60 * 1000)
+        });
+
+      await this.audit(dataExport.user_id, dataExport.id, { action: 'completed', fileSize: archive.length });
+
+      return true;
+    } catch (error) {
+      logger.error('Failed to build data export', {
+        error: error instanceof Error ? error.message : String(error),
+        exportId: dataExport.id,
+        userId: dataExport.user_id
+      });
+
+      await db('data_exports')
+        .where('id', dataExport.id)
+        .update({
+          status: DataExportStatus.FAILED,
+          error: 'The export could not be generated',
+          completed_at: db.fn.now()
+        });
+
+      return false;
+    }
+  }
+
+  /**
+   * Archive contents: each entity as JSON, plus a CSV of each under csv/
+   */
+  private static async collectEntries(userId: string): Promise<ZipEntry[]> {
+    const user = await UserService.findUserById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const [accounts, categories, transactions, budgets] = await Promise.all([
+      db('accounts')
+        .where('user_id', userId)
+        .orderBy('display_order', 'asc')
+        .orderBy('created_at', 'asc'),
+      db('categories')
+        .where('user_id', userId)
+        .orderBy('display_order', 'asc')
+        .orderBy('name', 'asc'),
+      db('transactions as t')
+        .leftJoin('accounts as a', 'a.id', 't.account_id')
+        .leftJoin('categories as c', 'c.id', 't.category_id')
+        .where('t.user_id', userId)
+        .select('t.*', 'a.name as account_name', 'c.name as category_name')
+        .orderBy('t.transaction_date', 'asc')
+        .orderBy('t.created_at', 'asc'),
+      db('budgets as b')
+        .leftJoin('categories as c', 'c.id', 'b.category_id')
+        .where('b.user_id', userId)
+        .select('b.*', 'c.name as category_name')
+        .orderBy('b.period_start', 'asc')
+    ]);
+
+    const sections: Record<string, Array<Record<string, unknown>>> = {
+      profile: [{
+        id: user.id,
+        email: user.email,
+        firstName: user.first_name,
+        lastName: user.last_name,
+        phone: user.phone ?? null,
+        avatarUrl: user.avatar_url ?? null,
+        preferences: user.preferences ?? null,
+        status: user.status,
+        emailVerified: user.email_verified,
+        lastLogin: user.last_login,
+        createdAt: user.created_at,
+        updatedAt: user.updated_at
+      }],
+      accounts: accounts.map(row => ({ ...AccountModel.toResponse(row) })),
+      categories: categories.map(row => ({ ...CategoryModel.toResponse(row) })),
+      transactions: transactions.map(row => ({ ...TransactionModel.toResponse(row) })),
+      budgets: budgets.map(row => ({ ...BudgetModel.toResponse(row) }))
+    };
+
+    const entries: ZipEntry[] = [];
+    for (const [name, records] of Object.entries(sections)) {
+      entries.push({
+        name: `${name}.json`,
+        data: JSON.stringify(name === 'profile' ? records[0] : records, null, 2)
+      });
+      entries.push({ name: `csv/${name}.csv`, data: toCsv(records) });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Delete the archives of ready exports past their expiry
+   */
+  private static async expireExports(): Promise<number> {
+    const expired: DataExport[] = await db('data_exports')
+      .where('status', DataExportStatus.READY)
+      .where('expires_at', '<=', db.fn.now())
+      .update({ status: DataExportStatus.EXPIRED, file_name: null })
+      .returning('*');
+
+    for (const dataExport of expired) {
+      await fs.promises
+        .unlink(path.join(EXPORT_DIR, this.archiveName(dataExport)))
+        .catch(() => undefined);
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Fail exports left in processing by a process that stopped mid-build
+   */
+  private static async failStaleExports(): Promise<void> {
+    await db('data_exports')
+      .where('status', DataExportStatus.PROCESSING)
+      .where('started_at', '<', new Date(Date.now() - STALE_PROCESSING_MS))
+      .update({
+        status: DataExportStatus.FAILED,
+        error: 'The export was interrupted',
+        completed_at: db.fn.now()
+      });
+  }
+
+  // Archives are grouped in a directory per user
+  private static archiveName(dataExport: DataExport): string {
+    return `${dataExport.user_id}/${dataExport.id}.zip`;
+  }
+
+  private static async findOwnedExport(userId: string, exportId: string): Promise<DataExport> {
+    const dataExport: DataExport | undefined = await db('data_exports')
+      .where({ id: exportId, user_id: userId })
+      .first();
+
+    if (!dataExport) {
+      throw new AppError('Export not found', 404);
+    }
+
+    return dataExport;
+  }
+
+  private static assertDownloadable(dataExport: DataExport): void {
+    if (dataExport.status === DataExportStatus.EXPIRED) {
+      throw new AppError('Export has expired', 410);
+    }
+    if (dataExport.status !== DataExportStatus.READY || !dataExport.file_name) {
+      throw new AppError('Export is not ready yet', 409);
+    }
+  }
+
+  private static sign(exportId: string, userId: string, expires: number): string {
+    return createHmac('sha256', config.DATA_EXPORT_SIGNING_SECRET)
+      .update(`${exportId}:${userId}:${expires}`)
+      .digest('hex');
+  }
+
+  private static verify(dataExport: DataExport, query: DataExportDownloadQuery): boolean {
+    const expected = Buffer.from(this.sign(dataExport.id, dataExport.user_id, query.expires), 'hex');
+    const given = Buffer.from(query.signature, 'hex');
+
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  private static async audit(
+    userId: string,
+    exportId: string,
+    metadata: Record<string, unknown>,
+    ipAddress?: string
+  ): Promise<void> {
+    await createAuditLog({
+      eventType: AuditEventType.DATA_EXPORT,
+      userId,
+      ...(ipAddress !== undefined && { ipAddress }),
+      resourceType: 'data_export',
+      resourceId: exportId,
+      metadata
+    }).catch(error => {
+      logger.error('Failed to record data export audit event', {
+        error: error instanceof Error ? error.message : String(error),
+        exportId
+      });
+    });
+  }
+}
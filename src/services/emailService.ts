@@ -15,6 +15,16 @@ export interface EmailOptions {
   text?: string;
 }
 
+export interface BudgetAlertEmailData {
+  budgetName: string;
+  exceeded: boolean;
+  percentage: number;
+  spentAmount: number;
+  budgetAmount: number;
+  currency: string;
+  periodEnd: string;
+}
+
 export class EmailService {
   private static readonly FROM_EMAIL = config.EMAIL_FROM || 'noreply@finance-tracker.com';
   private static readonly BASE_URL = config.NODE_ENV === 'production' 
@@ -179,6 +189,27 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send budget threshold or overspending alert
+   */
+  static async sendBudgetAlert(email: string, firstName: string, alert: BudgetAlertEmailData): Promise<void> {
+    try {
+      const template = this.getBudgetAlertTemplate(firstName, alert);
+      
+      await this.sendEmail({
+        to: email,
+        subject: template.subject,
+        html: template.htmlContent,
+        text: template.textContent
+      });
+
+      logger.info('Budget alert email sent', { email, exceeded: alert.exceeded });
+    } catch (error) {
+      logger.error('Failed to send budget alert email', { error, email });
+      throw error;
+    }
+  }
+
   /**
    * Get welcome email template
    */
@@ -554,4 +585,88 @@ export class EmailService {
 
     return { subject, htmlContent, textContent };
   }
-}
\ No newline at end of file
+
+  /**
+   * Get budget alert template
+   */
+  private static getBudgetAlertTemplate(firstName: string, alert: BudgetAlertEmailData): Required<EmailTemplate> {
+    const budgetName = this.escapeHtml(alert.budgetName);
+    const heading = alert.exceeded ? 'Budget Exceeded' : 'Budget Limit Approaching';
+    const subject = `${heading} - ${alert.budgetName} - Finance Tracker`;
+    const color = alert.exceeded ? '#DC2626' : '#F59E0B';
+    const spent = `${alert.spentAmount.toFixed(2)} ${alert.currency}`;
+    const budgeted = `${alert.budgetAmount.toFixed(2)} ${alert.currency}`;
+    const summary = alert.exceeded
+      ? 'You have spent more than this budget allows for the current period.'
+      : 'You are close to the limit of this budget for the current period.';
+    
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${this.escapeHtml(subject)}</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: ${color}; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f9f9f9; }
+          .button { display: inline-block; padding: 12px 24px; background-color: #4F46E5; color: white; text-decoration: none; border-radius: 4px; margin: 20px 0; }
+          .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+          .alert { background-color: #FEF3C7; padding: 15px; border-radius: 4px; margin: 15px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${heading}</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${firstName},</h2>
+            <p>${summary}</p>
+            <div class="alert">
+              <strong>Budget:</strong> ${budgetName}<br>
+              <strong>Spent:</strong> ${spent} of ${budgeted} (${alert.percentage}%)<br>
+              <strong>Period ends:</strong> ${alert.periodEnd}<br>
+            </div>
+            <a href="${this.BASE_URL}/budgets" class="button">Review Budgets</a>
+          </div>
+          <div class="footer">
+            <p>You can turn off budget alerts in your notification settings.</p>
+            <p>&copy; 2024 Finance Tracker. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+    
+    const textContent = `
+      ${heading}
+      
+      Hello ${firstName},
+      
+      ${summary}
+      
+      Budget: ${alert.budgetName}
+      Spent: ${spent} of ${budgeted} (${alert.percentage}%)
+      Period ends: ${alert.periodEnd}
+      
+      Review your budgets: ${this.BASE_URL}/budgets
+    `;
+
+    return { subject, htmlContent, textContent };
+  }
+
+  /**
+   * Escape user-provided text for inclusion in HTML email bodies
+   */
+  private static escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,141 @@
+import path from 'path';
+import { Knex } from 'knex';
+import { db } from '../config/database';
+import { logger } from '../middleware/logging';
+import { AppError } from '../middleware/errorHandler';
+import { parseCsv } from '../utils/csv';
+import { ExchangeRateInput, ExchangeRateLoadResult } from '../models/ExchangeRate';
+
+// Rows per INSERT when loading a rates file
+const LOAD_BATCH_SIZE = 500;
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const CSV_COLUMNS = ['date', 'base', 'quote', 'rate'] as const;
+
+export class ExchangeRateService {
+  /**
+   * The currency reports and net worth are converted to: the user's
+   * preferred currency, falling back to USD
+   */
+  static async getBaseCurrency(userId: string, executor: Knex | Knex.Transaction = db): Promise<string> {
+    const user = await executor('users').where('id', userId).first('preferences');
+    return user?.preferences?.currency || 'USD';
+  }
+
+  /**
+   * Read rates from the contents of a rates file. JSON files hold an array
+   * of { date, base, quote, rate } objects, or of { date, base, rates }
+   * objects mapping each quote currency to its rate; anything else is read
+   * as CSV with date, base, quote and rate columns.
+   */
+  static parseRates(content: string, fileName: string): ExchangeRateInput[] {
+    return path.extname(fileName).toLowerCase() === '.json'
+      ? this.parseJson(content)
+      : this.parseCsvRates(content);
+  }
+
+  /**
+   * Store rates, replacing any already stored for the same pair and date
+   */
+  static async loadRates(rates: ExchangeRateInput[], source: string): Promise<ExchangeRateLoadResult> {
+    // A pair and date may appear only once per upsert; the last one in the file wins
+    const unique = new Map<string, ExchangeRateInput>();
+    for (const rate of rates) {
+      unique.set(`${rate.base}:${rate.quote}:${rate.date}`, rate);
+    }
+
+    const rows = Array.from(unique.values()).map(rate => ({
+      base_currency: rate.base,
+      quote_currency: rate.quote,
+      rate: rate.rate,
+      rate_date: rate.date,
+      source
+    }));
+
+    await db.transaction(async (trx) => {
+      for (let i = 0; i < rows.length; i += LOAD_BATCH_SIZE) {
+        await trx('exchange_rates')
+          .insert(rows.slice(i, i + LOAD_BATCH_SIZE))
+          .onConflict(['base_currency', 'quote_currency', 'rate_date'])
+          .merge(['rate', 'source']);
+      }
+    });
+
+    const dates = rows.map(row => row.rate_date).sort();
+    const result: ExchangeRateLoadResult = {
+      loaded: rows.length,
+      currencies: [...new Set(rows.flatMap(row => [row.base_currency, row.quote_currency]))].sort(),
+      firstDate: dates[0] ?? null,
+      lastDate: dates[dates.length - 1] ?? null
+    };
+
+    logger.info('Exchange rates loaded', { source, ...result });
+
+    return result;
+  }
+
+  private static parseCsvRates(content: string): ExchangeRateInput[] {
+    const [header, ...rows] = parseCsv(content);
+    const columns = (header || []).map(name => name.trim().toLowerCase());
+    const indexes = CSV_COLUMNS.map(column => columns.indexOf(column));
+
+    if (indexes.some(index => index === -1)) {
+      throw new AppError(`Rates file must have ${CSV_COLUMNS.join(', ')} columns`, 400);
+    }
+
+    return rows.map((row, i) => this.toRateInput(
+      Object.fromEntries(CSV_COLUMNS.map((column, c) => [column, row[indexes[c]!]])),
+      `line ${i + 2}`
+    ));
+  }
+
+  private static parseJson(content: string): ExchangeRateInput[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new AppError('Rates file is not valid JSON', 400);
+    }
+
+    const entries = Array.isArray(parsed) ? parsed : [parsed];
+
+    return entries.flatMap((entry: Record<string, unknown>, i): ExchangeRateInput[] => {
+      if (entry && typeof entry.rates === 'object' && entry.rates !== null) {
+        return Object.entries(entry.rates as Record<string, unknown>).map(([quote, rate]) =>
+          this.toRateInput({ date: entry.date, base: entry.base, quote, rate }, `entry ${i + 1}`)
+        );
+      }
+
+      return [this.toRateInput(entry ?? {}, `entry ${i + 1}`)];
+    });
+  }
+
+  private static toRateInput(raw: Record<string, unknown>, position: string): ExchangeRateInput {
+    const invalid = (reason: string): AppError =>
+      new AppError(`Invalid exchange rate at ${position}: ${reason}`, 400);
+
+    const date = String(raw.date ?? '').trim();
+    if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(`${date}T00:00:00Z`))
+      || new Date(`${date}T00:00:00Z`).toISOString().slice(0, 10) !== date) {
+      throw invalid('date must be YYYY-MM-DD');
+    }
+
+    const base = String(raw.base ?? '').trim().toUpperCase();
+    const quote = String(raw.quote ?? '').trim().toUpperCase();
+    if (!CURRENCY_PATTERN.test(base) || !CURRENCY_PATTERN.test(quote)) {
+      throw invalid('currencies must be 3-letter codes');
+    }
+    if (base === quote) {
+      throw invalid('base and quote currencies must differ');
+    }
+
+    const rate = typeof raw.rate === 'number' ? raw.rate : Number(String(raw.rate ?? '').trim() || NaN);
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw invalid('rate must be a positive number');
+    }
+
+    return { date, base, quote, rate };
+  }
+}
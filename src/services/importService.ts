@@ -0,0 +1,678 @@
+import fs from 'fs';
+import path from 'path';
+import { Knex } from 'knex';
+import { db } from '../config/database';
+import { logger } from '../middleware/logging';
+import { AppError } from '../middleware/errorHandler';
+import { createAuditLog, AuditEventType } from '../middleware/auditLog';
+import { parseCsv } from '../utils/csv';
+import { parseOfx } from '../utils/ofx';
+import { toDateOnlyString } from '../utils/date';
+import { Transaction, TransactionType } from '../models/Transaction';
+import {
+  ImportFormat,
+  ImportStatus,
+  ImportMapping,
+  ImportMappingResponse,
+  ImportRow,
+  ImportModel,
+  TransactionImport,
+  TransactionImportResponse,
+  TransactionImportSummary,
+  CreateImportMappingData,
+  UpdateImportMappingData,
+  CreateImportData,
+  CommitImportData
+} from '../models/Import';
+import { AccountBalanceService } from './accountBalanceService';
+import { BudgetService } from './budgetService';
+import { BudgetAlertService } from './budgetAlertService';
+import { CategorizationRuleService } from './categorizationRuleService';
+
+export interface ImportListResult {
+  imports: TransactionImportSummary[];
+  total: number;
+}
+
+/**
+ * Uploaded statement file as stored by multer
+ */
+export interface StatementFile {
+  path: string;
+  originalname: string;
+}
+
+// Largest statement accepted in one import
+const MAX_IMPORT_ROWS = 5000;
+
+// Rows per INSERT when committing, well under the bind parameter limit
+const INSERT_CHUNK_SIZE = 500;
+
+const FORMAT_EXTENSIONS: Record<string, ImportFormat> = {
+  '.csv': ImportFormat.CSV,
+  '.ofx': ImportFormat.OFX,
+  '.qfx': ImportFormat.QFX
+};
+
+// Columns written by createMapping/updateMapping, keyed by request field
+const MAPPING_FIELDS = {
+  name: 'name',
+  delimiter: 'delimiter',
+  hasHeader: 'has_header',
+  skipRows: 'skip_rows',
+  dateFormat: 'date_format',
+  decimalSeparator: 'decimal_separator',
+  dateColumn: 'date_column',
+  descriptionColumn: 'description_column',
+  amountColumn: 'amount_column',
+  debitColumn: 'debit_column',
+  creditColumn: 'credit_column',
+  merchantColumn: 'merchant_column',
+  referenceColumn: 'reference_column',
+  negateAmounts: 'negate_amounts'
+} as const;
+
+const normalizeDescription = (value: string): string => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+export class ImportService {
+  /**
+   * List a user's saved CSV column mappings
+   */
+  static async getMappings(userId: string): Promise<ImportMappingResponse[]> {
+    const rows: ImportMapping[] = await db('import_mappings')
+      .where('user_id', userId)
+      .orderBy('name', 'asc');
+
+    return rows.map(row => ImportModel.toMappingResponse(row));
+  }
+
+  /**
+   * Save the CSV column layout of an institution
+   */
+  static async createMapping(userId: string, data: CreateImportMappingData): Promise<ImportMappingResponse> {
+    this.assertAmountColumns(data.amountColumn ?? null, data.debitColumn ?? null, data.creditColumn ?? null);
+
+    const mapping = await db.transaction(async (trx) => {
+      await this.assertMappingNameAvailable(trx, userId, data.name);
+
+      const values: Record<string, unknown> = { user_id: userId };
+      for (const [field, column] of Object.entries(MAPPING_FIELDS)) {
+        values[column] = data[field as keyof CreateImportMappingData] ?? null;
+      }
+
+      const [created] = await trx('import_mappings')
+        .insert(values)
+        .returning<ImportMapping[]>('*');
+
+      return created!;
+    });
+
+    logger.info('Import mapping created', { userId, mappingId: mapping.id });
+
+    return ImportModel.toMappingResponse(mapping);
+  }
+
+  /**
+   * Update a saved column mapping
+   */
+  static async updateMapping(
+    userId: string,
+    mappingId: string,
+    data: UpdateImportMappingData
+  ): Promise<ImportMappingResponse> {
+    const mapping = await db.transaction(async (trx) => {
+      const existing = await this.findOwnedMapping(trx, userId, mappingId);
+
+      if (data.name !== undefined && data.name.toLowerCase() !== existing.name.toLowerCase()) {
+        await this.assertMappingNameAvailable(trx, userId, data.name);
+      }
+
+      const updates: Record<string, unknown> = {};
+      for (const [field, column] of Object.entries(MAPPING_FIELDS)) {
+        const value = data[field as keyof UpdateImportMappingData];
+        if (value !== undefined) updates[column] = value;
+      }
+
+      this.assertAmountColumns(
+        data.amountColumn !== undefined ? data.amountColumn : existing.amount_column,
+        data.debitColumn !== undefined ? data.debitColumn : existing.debit_column,
+        data.creditColumn !== undefined ? data.creditColumn : existing.credit_column
+      );
+
+      const [updated] = await trx('import_mappings')
+        .where({ id: mappingId, user_id: userId })
+        .update(updates)
+        .returning<ImportMapping[]>('*');
+
+      return updated!;
+    });
+
+    logger.info('Import mapping updated', { userId, mappingId });
+
+    return ImportModel.toMappingResponse(mapping);
+  }
+
+  /**
+   * Delete a saved column mapping. Past imports keep their parsed rows.
+   */
+  static async deleteMapping(userId: string, mappingId: string): Promise<void> {
+    const deleted = await db('import_mappings')
+      .where({ id: mappingId, user_id: userId })
+      .del();
+
+    if (!deleted) {
+      throw new AppError('Import mapping not found', 404);
+    }
+
+    logger.info('Import mapping deleted', { userId, mappingId });
+  }
+
+  /**
+   * List a user's imports, newest first, without their rows
+   */
+  static async getImports(userId: string, filters: { page: number; limit: number }): Promise<ImportListResult> {
+    const query = db('transaction_imports').where('user_id', userId);
+
+    const countResult = await query
+      .clone()
+      .count<{ count: string }[]>('id as count')
+      .first();
+
+    const rows: TransactionImport[] = await query
+      .orderBy('created_at', 'desc')
+      .limit(filters.limit)
+      .offset((filters.page - 1) * filters.limit);
+
+    return {
+      imports: rows.map(row => ImportModel.toSummary(row)),
+      total: parseInt(countResult?.count || '0', 10)
+    };
+  }
+
+  /**
+   * Get an import with its parsed rows
+   */
+  static async getImportById(userId: string, importId: string): Promise<TransactionImportResponse> {
+    const row: TransactionImport | undefined = await db('transaction_imports')
+      .where({ id: importId, user_id: userId })
+      .first();
+
+    if (!row) {
+      throw new AppError('Import not found', 404);
+    }
+
+    return ImportModel.toResponse(row);
+  }
+
+  /**
+   * Parse an uploaded statement into a preview, flagging rows that look like
+   * transactions already in the account. The uploaded file is removed once
+   * it has been read; the preview keeps the parsed rows.
+   */
+  static async previewImport(
+    userId: string,
+    file: StatementFile,
+    data: CreateImportData
+  ): Promise<TransactionImportResponse> {
+    try {
+      const format = data.format ?? FORMAT_EXTENSIONS[path.extname(file.originalname).toLowerCase()];
+      if (!format) {
+        throw new AppError('Unsupported statement format. Upload a CSV, OFX or QFX file', 400);
+      }
+
+      const account = await db('accounts')
+        .where({ id: data.accountId, user_id: userId, is_active: true })
+        .first('id', 'currency');
+
+      if (!account) {
+        throw new AppError('Account not found', 404);
+      }
+
+      let mapping: ImportMapping | undefined;
+      if (format === ImportFormat.CSV) {
+        if (!data.mappingId) {
+          throw new AppError('A column mapping is required for CSV statements', 400);
+        }
+        mapping = await this.findOwnedMapping(db, userId, data.mappingId);
+      }
+
+      const text = await fs.promises.readFile(file.path, 'utf8');
+      const rows = mapping ? this.parseCsvRows(text, mapping) : this.parseOfxRows(text, account.currency);
+
+      if (rows.length === 0) {
+        throw new AppError('The statement contains no transactions', 400);
+      }
+      if (rows.length > MAX_IMPORT_ROWS) {
+        throw new AppError(`Statements are limited to ${MAX_IMPORT_ROWS} transactions per import`, 400);
+      }
+
+      await this.flagDuplicates(userId, account.id, rows);
+
+      const [created] = await db('transaction_imports')
+        .insert({
+          user_id: userId,
+          account_id: account.id,
+          mapping_id: mapping?.id ?? null,
+          format,
+          file_name: path.basename(file.originalname).slice(0, 255),
+          rows: JSON.stringify(rows),
+          row_count: rows.length,
+          duplicate_count: rows.filter(row => row.duplicateOf).length,
+          error_count: rows.filter(row => row.error).length
+        })
+        .returning<TransactionImport[]>('*');
+
+      logger.info('Statement parsed for import', {
+        userId,
+        importId: created!.id,
+        format,
+        rows: created!.row_count,
+        duplicates: created!.duplicate_count
+      });
+
+      return ImportModel.toResponse(created!);
+    } finally {
+      await fs.promises.unlink(file.path).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Import the accepted rows of a preview into its account in one
+   * transaction. Rows with parse errors can never be imported; duplicates
+   * only when listed explicitly. A row goes into its own category if given,
+   * else the category of the first matching categorization rule, else the
+   * default category.
+   */
+  static async commitImport(
+    userId: string,
+    importId: string,
+    data: CommitImportData
+  ): Promise<TransactionImportResponse> {
+    const { record, transactions, balanceChanges, budgetAlerts } = await db.transaction(async (trx) => {
+      const existing: TransactionImport | undefined = await trx('transaction_imports')
+        .where({ id: importId, user_id: userId })
+        .forUpdate()
+        .first();
+
+      if (!existing) {
+        throw new AppError('Import not found', 404);
+      }
+      if (existing.status !== ImportStatus.PREVIEW) {
+        throw new AppError(`Import has already been ${existing.status}`, 409);
+      }
+
+      const account = await trx('accounts')
+        .where({ id: existing.account_id, user_id: userId, is_active: true })
+        .first('id', 'currency');
+
+      if (!account) {
+        throw new AppError('Account not found', 404);
+      }
+
+      // Rows without a category of their own go where the rules send them
+      const rows = this.selectRows(existing.rows, data);
+      const ruleCategories = await CategorizationRuleService.findCategories(trx, userId, rows.map(({ row }) => ({
+        accountId: account.id,
+        merchantName: row.merchantName,
+        description: row.description,
+        amount: Math.abs(row.amount!)
+      })));
+      const selected = rows.map(({ row, categoryId }, i) => ({
+        row,
+        categoryId: categoryId ?? ruleCategories[i] ?? data.categoryId
+      }));
+      await this.assertCategoriesAccessible(trx, userId, [...new Set(selected.map(item => item.categoryId))]);
+
+      const values = selected.map(({ row, categoryId }) => ({
+        user_id: userId,
+        account_id: account.id,
+        category_id: categoryId,
+        type: row.type,
+        amount: Math.abs(row.amount!),
+        currency: account.currency,
+        description: row.description,
+        transaction_date: row.date,
+        merchant_name: row.merchantName,
+        reference_number: row.referenceNumber,
+        import_id: existing.id
+      }));
+
+      const transactions: Transaction[] = [];
+      for (let i = 0; i < values.length; i += INSERT_CHUNK_SIZE) {
+        const inserted = await trx('transactions')
+          .insert(values.slice(i, i + INSERT_CHUNK_SIZE))
+          .returning<Transaction[]>('*');
+        transactions.push(...inserted);
+      }
+
+      const balanceChanges = await AccountBalanceService.applyNewTransactions(trx, transactions);
+      const budgetIds = await BudgetService.syncSpentAmounts(trx, userId, transactions);
+      const budgetAlerts = await BudgetAlertService.checkBudgets(trx, budgetIds);
+
+      const [record] = await trx('transaction_imports')
+        .where('id', existing.id)
+        .update({
+          status: ImportStatus.COMMITTED,
+          imported_count: transactions.length,
+          committed_at: trx.fn.now()
+        })
+        .returning<TransactionImport[]>('*');
+
+      return { record: record!, transactions, balanceChanges, budgetAlerts };
+    });
+
+    logger.info('Statement imported', { userId, importId, transactions: transactions.length });
+
+    await AccountBalanceService.recordBalanceChanges(userId, balanceChanges, {
+      reason: 'transaction.imported'
+    });
+    await BudgetAlertService.deliverAlerts(budgetAlerts);
+
+    await createAuditLog({
+      eventType: AuditEventType.DATA_IMPORT,
+      userId,
+      resourceType: 'transaction_import',
+      resourceId: importId,
+      metadata: {
+        accountId: record.account_id,
+        format: record.format,
+        fileName: record.file_name,
+        rowCount: record.row_count,
+        importedCount: transactions.length
+      }
+    }).catch(error => {
+      logger.error('Failed to record import audit event', {
+        error: error instanceof Error ? error.message : String(error),
+        importId
+      });
+    });
+
+    return ImportModel.toResponse(record);
+  }
+
+  /**
+   * Throw away a preview without importing anything
+   */
+  static async discardImport(userId: string, importId: string): Promise<void> {
+    const updated = await db('transaction_imports')
+      .where({ id: importId, user_id: userId, status: ImportStatus.PREVIEW })
+      .update({ status: ImportStatus.DISCARDED });
+
+    if (!updated) {
+      throw new AppError('Import not found', 404);
+    }
+
+    logger.info('Import discarded', { userId, importId });
+  }
+
+  /**
+   * Statement rows from a CSV file laid out as the mapping describes
+   */
+  private static parseCsvRows(text: string, mapping: ImportMapping): ImportRow[] {
+    const records = parseCsv(text, mapping.delimiter).slice(mapping.skip_rows);
+    const header = mapping.has_header
+      ? (records.shift() || []).map(name => name.trim().toLowerCase())
+      : null;
+
+    const column = (reference: string | null): number | null => {
+      if (!reference) return null;
+      if (/^\d+$/.test(reference)) return Number(reference) - 1;
+
+      const index = header ? header.indexOf(reference.trim().toLowerCase()) : -1;
+      if (index === -1) {
+        throw new AppError(`Column "${reference}" was not found in the statement`, 400);
+      }
+      return index;
+    };
+
+    const columns = {
+      date: column(mapping.date_column),
+      description: column(mapping.description_column),
+      amount: column(mapping.amount_column),
+      debit: column(mapping.debit_column),
+      credit: column(mapping.credit_column),
+      merchant: column(mapping.merchant_column),
+      reference: column(mapping.reference_column)
+    };
+
+    return records.map((record, index) => {
+      const value = (position: number | null): string => position === null ? '' : (record[position] || '').trim();
+
+      let amount: number | null;
+      if (columns.amount !== null) {
+        amount = ImportModel.parseAmount(value(columns.amount), mapping.decimal_separator);
+        if (amount !== null && mapping.negate_amounts) amount = -amount;
+      } else {
+        const debit = ImportModel.parseAmount(value(columns.debit), mapping.decimal_separator);
+        const credit = ImportModel.parseAmount(value(columns.credit), mapping.decimal_separator);
+        amount = debit === null && credit === null
+          ? null
+          : Math.round((Math.abs(credit ?? 0) - Math.abs(debit ?? 0)) * 100) / 100;
+      }
+
+      return this.toImportRow(index, {
+        date: ImportModel.parseDate(value(columns.date), mapping.date_format),
+        amount,
+        description: value(columns.description) || value(columns.merchant),
+        merchantName: value(columns.merchant),
+        referenceNumber: value(columns.reference)
+      });
+    });
+  }
+
+  /**
+   * Statement rows from an OFX or QFX file
+   */
+  private static parseOfxRows(text: string, accountCurrency: string): ImportRow[] {
+    let statement;
+    try {
+      statement = parseOfx(text);
+    } catch (error) {
+      throw new AppError('The file is not a valid OFX statement', 400);
+    }
+
+    if (statement.currency && statement.currency !== accountCurrency) {
+      throw new AppError(
+        `Statement currency ${statement.currency} does not match the account currency ${accountCurrency}`,
+        400
+      );
+    }
+
+    return statement.transactions.map((transaction, index) => this.toImportRow(index, {
+      date: transaction.date,
+      amount: transaction.amount,
+      description: transaction.name || transaction.memo || '',
+      merchantName: transaction.name || '',
+      referenceNumber: transaction.fitId || transaction.checkNumber || ''
+    }));
+  }
+
+  /**
+   * Preview row for one parsed statement line. Negative amounts are expenses.
+   */
+  private static toImportRow(
+    index: number,
+    parsed: { date: string | null; amount: number | null; description: string; merchantName: string; referenceNumber: string }
+  ): ImportRow {
+    let error: string | null = null;
+    if (!parsed.date) error = 'Invalid or missing date';
+    else if (parsed.amount === null) error = 'Invalid or missing amount';
+    else if (parsed.amount === 0) error = 'Amount is zero';
+    else if (!parsed.description) error = 'Missing description';
+
+    return {
+      index,
+      date: parsed.date,
+      type: parsed.amount ? (parsed.amount > 0 ? TransactionType.INCOME : TransactionType.EXPENSE) : null,
+      amount: parsed.amount,
+      description: parsed.description.slice(0, 255) || null,
+      merchantName: parsed.merchantName.slice(0, 255) || null,
+      referenceNumber: parsed.referenceNumber.slice(0, 100) || null,
+      duplicateOf: null,
+      duplicateReason: null,
+      error
+    };
+  }
+
+  /**
+   * Mark rows matching an existing transaction of the account, either by
+   * reference number or by date, type, amount and description. Each
+   * existing transaction can only be matched by one row, so repeated
+   * identical purchases are not all hidden behind a single match.
+   */
+  private static async flagDuplicates(userId: string, accountId: string, rows: ImportRow[]): Promise<void> {
+    const candidates = rows.filter(row => !row.error);
+    if (candidates.length === 0) return;
+
+    const dates = candidates.map(row => row.date!).sort();
+    const references = candidates.map(row => row.referenceNumber).filter((ref): ref is string => Boolean(ref));
+
+    const existing: Array<Pick<Transaction, 'id' | 'transaction_date' | 'type' | 'amount' | 'description' | 'reference_number'>> =
+      await db('transactions')
+        .where({ user_id: userId, account_id: accountId })
+        .whereIn('type', [TransactionType.INCOME, TransactionType.EXPENSE])
+        .andWhere(builder => {
+          builder.whereBetween('transaction_date', [dates[0]!, dates[dates.length - 1]!]);
+          if (references.length > 0) builder.orWhereIn('reference_number', references);
+        })
+        .orderBy('created_at', 'asc')
+        .select('id', 'transaction_date', 'type', 'amount', 'description', 'reference_number');
+
+    const matchKey = (date: string, type: string, amount: number, description: string): string =>
+      `${date}|${type}|${Math.round(Math.abs(amount) * 100)}|${normalizeDescription(description)}`;
+
+    const byReference = new Map<string, string>();
+    const byDetails = new Map<string, string[]>();
+    for (const transaction of existing) {
+      if (transaction.reference_number) {
+        byReference.set(transaction.reference_number, transaction.id);
+      }
+
+      const key = matchKey(
+        toDateOnlyString(transaction.transaction_date)!,
+        transaction.type,
+        Number(transaction.amount),
+        transaction.description
+      );
+      byDetails.set(key, [...(byDetails.get(key) || []), transaction.id]);
+    }
+
+    const matched = new Set<string>();
+    for (const row of candidates) {
+      const referenceMatch = row.referenceNumber ? byReference.get(row.referenceNumber) : undefined;
+      if (referenceMatch && !matched.has(referenceMatch)) {
+        matched.add(referenceMatch);
+        row.duplicateOf = referenceMatch;
+        row.duplicateReason = 'reference';
+        continue;
+      }
+
+      const detailsMatch = byDetails.get(matchKey(row.date!, row.type!, row.amount!, row.description!))
+        ?.find(id => !matched.has(id));
+      if (detailsMatch) {
+        matched.add(detailsMatch);
+        row.duplicateOf = detailsMatch;
+        row.duplicateReason = 'match';
+      }
+    }
+  }
+
+  /**
+   * Rows to import with the category chosen for each one, if any
+   */
+  private static selectRows(
+    rows: ImportRow[],
+    data: CommitImportData
+  ): Array<{ row: ImportRow; categoryId: string | undefined }> {
+    let selected: Array<{ row: ImportRow; categoryId: string | undefined }>;
+
+    if (data.rows) {
+      const byIndex = new Map(rows.map(row => [row.index, row]));
+
+      selected = data.rows.map(item => {
+        const row = byIndex.get(item.index);
+        if (!row || row.error) {
+          throw new AppError(`Row ${item.index} cannot be imported`, 400);
+        }
+        return { row, categoryId: item.categoryId };
+      });
+    } else {
+      selected = rows
+        .filter(row => !row.error && !row.duplicateOf)
+        .map(row => ({ row, categoryId: undefined }));
+    }
+
+    if (selected.length === 0) {
+      throw new AppError('No rows selected for import', 400);
+    }
+
+    return selected;
+  }
+
+  /**
+   * A mapping needs either a signed amount column or both debit and credit columns
+   */
+  private static assertAmountColumns(amount: string | null, debit: string | null, credit: string | null): void {
+    if (!amount && !(debit && credit)) {
+      throw new AppError('Set amountColumn, or both debitColumn and creditColumn', 400);
+    }
+  }
+
+  /**
+   * Load a column mapping owned by the user
+   */
+  private static async findOwnedMapping(
+    executor: Knex | Knex.Transaction,
+    userId: string,
+    mappingId: string
+  ): Promise<ImportMapping> {
+    const mapping: ImportMapping | undefined = await executor('import_mappings')
+      .where({ id: mappingId, user_id: userId })
+      .first();
+
+    if (!mapping) {
+      throw new AppError('Import mapping not found', 404);
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Ensure the user has no other mapping with this name (case-insensitive)
+   */
+  private static async assertMappingNameAvailable(
+    trx: Knex.Transaction,
+    userId: string,
+    name: string
+  ): Promise<void> {
+    const existing = await trx('import_mappings')
+      .where('user_id', userId)
+      .whereRaw('LOWER(name) = LOWER(?)', [name])
+      .first('id');
+
+    if (existing) {
+      throw new AppError(`An import mapping named "${name}" already exists`, 409);
+    }
+  }
+
+  /**
+   * Ensure every category is one of the user's own or a system category
+   */
+  private static async assertCategoriesAccessible(
+    trx: Knex.Transaction,
+    userId: string,
+    categoryIds: string[]
+  ): Promise<void> {
+    const found = await trx('categories')
+      .whereIn('id', categoryIds)
+      .where('is_active', true)
+      .andWhere(builder => {
+        builder.where('user_id', userId).orWhere('is_system', true);
+      })
+      .select('id');
+
+    if (found.length !== categoryIds.length) {
+      throw new AppError('Category not found', 404);
+    }
+  }
+}
@@ -1,3 +1,4 @@
+import { randomUUID } from 'crypto';
 import jwt from 'jsonwebtoken';
 import { config } from '../config/env';
 import { redisClient } from '../config/redis';
@@ -6,7 +7,11 @@ import { logger } from '../middleware/logging';
 export interface JwtPayload {
   userId: string;
   email: string;
+  // Id of the session (device) the token was issued to
+  sid: string;
   type: 'access' | 'refresh';
+  // Unique per refresh token, so a rotated token never equals its successor
+  jti?: string;
   iat?: number;
   exp?: number;
 }
@@ -18,6 +23,44 @@ export interface TokenPair {
   refreshTokenExpiry: Date;
 }
 
+export interface RotatedTokenPair extends TokenPair {
+  userId: string;
+  sessionId: string;
+}
+
+/**
+ * A refresh token that was already exchanged was presented again. Either the
+ * client or an attacker holds a stolen copy, so the session must be revoked.
+ */
+export class RefreshTokenReuseError extends Error {
+  constructor(public readonly userId: string, public readonly sessionId: string) {
+    super('Refresh token reuse detected');
+    this.name = 'RefreshTokenReuseError';
+  }
+}
+
+/**
+ * Swap a session's refresh token for its successor if it is still the current
+ * one. Returns 1 when rotated, 0 when the session has no refresh token (revoked
+ * or expired) and -1 when a different token is current (the presented one was
+ * already used).
+ *
+ * KEYS: refresh token key, access token key
+ * ARGV: presented refresh token, new refresh token, its ttl, new access token, its ttl
+ */
+const ROTATE_REFRESH_TOKEN_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current then
+  return 0
+end
+if current ~= ARGV[1] then
+  return -1
+end
+redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+redis.call('SET', KEYS[2], ARGV[4], 'EX', ARGV[5])
+return 1
+`;
+
 export class JwtService {
   private static readonly ACCESS_TOKEN_PREFIX = 'access_token:';
   private static readonly REFRESH_TOKEN_PREFIX = 'refresh_token:';
@@ -25,40 +68,22 @@ export class JwtService {
   private static readonly USER_SESSIONS_PREFIX = 'user_sessions:';
 
   /**
-   * Generate access and refresh token pair
+   * Generate access and refresh token pair for a session
    */
-  static async generateTokenPair(userId: string, email: string): Promise<TokenPair> {
+  static async generateTokenPair(userId: string, email: string, sessionId: string): Promise<TokenPair> {
     try {
-      const accessTokenExpiry = new Date(Date.now() + this.parseExpiry(config.JWT_EXPIRES_IN));
-      const refreshTokenExpiry = new Date(Date.now() + this.parseExpiry(config.JWT_REFRESH_EXPIRES_IN));
-
-      const accessPayload: JwtPayload = {
-        userId,
-        email,
-        type: 'access'
-      };
-
-      const refreshPayload: JwtPayload = {
-        userId,
-        email,
-        type: 'refresh'
-      };
-
-      const accessToken = jwt.sign(accessPayload, config.JWT_SECRET, {
-        expiresIn: config.JWT_EXPIRES_IN,
-        issuer: 'finance-tracker-api',
-        audience: 'finance-tracker-app'
-      } as jwt.SignOptions);
-
-      const refreshToken = jwt.sign(refreshPayload, config.JWT_REFRESH_SECRET, {
-        expiresIn: config.JWT_REFRESH_EXPIRES_IN,
-        issuer: 'finance-tracker-api',
-        audience: 'finance-tracker-app'
-      } as jwt.SignOptions);
+      const tokens = this.signTokenPair(userId, email, sessionId);
 
       // Store tokens in Redis for session management
       try {
-        await this.storeTokens(userId, accessToken, refreshToken, accessTokenExpiry, refreshTokenExpiry);
+        await this.storeTokens(
+          userId,
+          sessionId,
+          tokens.accessToken,
+          tokens.refreshToken,
+          tokens.accessTokenExpiry,
+          tokens.refreshTokenExpiry
+        );
       } catch (redisError) {
         logger.warn('Failed to store tokens in Redis, but proceeding with authentication', { 
           error: redisError instanceof Error ? redisError.message : String(redisError),
@@ -67,14 +92,9 @@ export class JwtService {
         // Don't fail authentication if Redis fails
       }
 
-      logger.info('Token pair generated successfully', { userId, email });
+      logger.info('Token pair generated successfully', { userId, email, sessionId });
 
-      return {
-        accessToken,
-        refreshToken,
-        accessTokenExpiry,
-        refreshTokenExpiry
-      };
+      return tokens;
     } catch (error) {
       logger.error('Failed to generate token pair', { 
         error: error instanceof Error ? error.message : String(error),
@@ -86,6 +106,48 @@ export class JwtService {
     }
   }
 
+  /**
+   * Sign a new access and refresh token pair for a session
+   */
+  private static signTokenPair(userId: string, email: string, sessionId: string): TokenPair {
+    const accessTokenExpiry = new Date(Date.now() + this.parseExpiry(config.JWT_EXPIRES_IN));
+    const refreshTokenExpiry = new Date(Date.now() + this.parseExpiry(config.JWT_REFRESH_EXPIRES_IN));
+
+    const accessPayload: JwtPayload = {
+      userId,
+      email,
+      sid: sessionId,
+      type: 'access'
+    };
+
+    const refreshPayload: JwtPayload = {
+      userId,
+      email,
+      sid: sessionId,
+      type: 'refresh',
+      jti: randomUUID()
+    };
+
+    const accessToken = jwt.sign(accessPayload, config.JWT_SECRET, {
+      expiresIn: config.JWT_EXPIRES_IN,
+      issuer: 'finance-tracker-api',
+      audience: 'finance-tracker-app'
+    } as jwt.SignOptions);
+
+    const refreshToken = jwt.sign(refreshPayload, config.JWT_REFRESH_SECRET, {
+      expiresIn: config.JWT_REFRESH_EXPIRES_IN,
+      issuer: 'finance-tracker-api',
+      audience: 'finance-tracker-app'
+    } as jwt.SignOptions);
+
+    return {
+      accessToken,
+      refreshToken,
+      accessTokenExpiry,
+      refreshTokenExpiry
+    };
+  }
+
   /**
    * Verify access token
    */
@@ -102,13 +164,13 @@ export class JwtService {
         audience: 'finance-tracker-app'
       }) as JwtPayload;
 
-      if (decoded.type !== 'access') {
+      if (decoded.type !== 'access' || !decoded.sid) {
         throw new Error('Invalid token type');
       }
 
       return decoded;
     } catch (error) {
-      logger.warn('Access token verification failed', { error: error.message });
+      logger.warn('Access token verification failed', { error: error instanceof Error ? error.message : String(error) });
       throw error;
     }
   }
@@ -118,73 +180,69 @@ export class JwtService {
    */
   static async verifyRefreshToken(token: string): Promise<JwtPayload> {
     try {
-      // Check if token is blacklisted
-      const isBlacklisted = await this.isTokenBlacklisted(token);
-      if (isBlacklisted) {
-        throw new Error('Token is blacklisted');
-      }
-
-      const decoded = jwt.verify(token, config.JWT_REFRESH_SECRET, {
-        issuer: 'finance-tracker-api',
-        audience: 'finance-tracker-app'
-      }) as JwtPayload;
-
-      if (decoded.type !== 'refresh') {
-        throw new Error('Invalid token type');
-      }
+      const decoded = await this.decodeRefreshToken(token);
 
-      // Verify token exists in Redis
-      const storedToken = await redisClient.get(`${this.REFRESH_TOKEN_PREFIX}${decoded.userId}`);
+      // Verify token is the session's current one (the key is removed when the session is revoked)
+      const storedToken = await redisClient.get(`${this.REFRESH_TOKEN_PREFIX}${decoded.sid}`);
       if (storedToken !== token) {
         throw new Error('Invalid refresh token');
       }
 
       return decoded;
     } catch (error) {
-      logger.warn('Refresh token verification failed', { error: error.message });
+      logger.warn('Refresh token verification failed', { error: error instanceof Error ? error.message : String(error) });
       throw error;
     }
   }
 
   /**
-   * Refresh access token using refresh token
+   * Exchange a refresh token for a new token pair of the same session.
+   * Each refresh token can be used once: the session's refresh token is
+   * replaced atomically, and presenting a replaced token again throws
+   * RefreshTokenReuseError. Replaced tokens are deliberately not blacklisted
+   * so that reuse can be told apart from a revoked session.
    */
-  static async refreshAccessToken(refreshToken: string): Promise<Omit<TokenPair, 'refreshToken' | 'refreshTokenExpiry'>> {
+  static async refreshAccessToken(refreshToken: string): Promise<RotatedTokenPair> {
     try {
-      const decoded = await this.verifyRefreshToken(refreshToken);
-      
-      const accessTokenExpiry = new Date(Date.now() + this.parseExpiry(config.JWT_EXPIRES_IN));
+      const decoded = await this.decodeRefreshToken(refreshToken);
+      const tokens = this.signTokenPair(decoded.userId, decoded.email, decoded.sid);
 
-      const accessPayload: JwtPayload = {
-        userId: decoded.userId,
-        email: decoded.email,
-        type: 'access'
-      };
+      const accessTokenTtl = Math.floor((tokens.accessTokenExpiry.getTime() - Date.now()) / 1000);
+      const refreshTokenTtl = Math.floor((tokens.refreshTokenExpiry.getTime() - Date.now()) / 1000);
 
-      const accessToken = jwt.sign(accessPayload, config.JWT_SECRET, {
-        expiresIn: config.JWT_EXPIRES_IN,
-        issuer: 'finance-tracker-api',
-        audience: 'finance-tracker-app'
-      });
-
-      // Update access token in Redis
-      const ttl = Math.floor(this.parseExpiry(config.JWT_EXPIRES_IN) / 1000);
-      await redisClient.set(
-        `${this.ACCESS_TOKEN_PREFIX}${decoded.userId}`,
-        accessToken,
-        'EX',
-        ttl
+      const rotated = await redisClient.eval(
+        ROTATE_REFRESH_TOKEN_SCRIPT,
+        2,
+        `${this.REFRESH_TOKEN_PREFIX}${decoded.sid}`,
+        `${this.ACCESS_TOKEN_PREFIX}${decoded.sid}`,
+        refreshToken,
+        tokens.refreshToken,
+        refreshTokenTtl,
+        tokens.accessToken,
+        accessTokenTtl
       );
 
-      logger.info('Access token refreshed successfully', { userId: decoded.userId });
+      if (rotated === -1) {
+        throw new RefreshTokenReuseError(decoded.userId, decoded.sid);
+      }
+      if (rotated !== 1) {
+        throw new Error('Invalid refresh token');
+      }
+
+      await redisClient.expire(`${this.USER_SESSIONS_PREFIX}${decoded.userId}`, refreshTokenTtl);
+
+      logger.info('Refresh token rotated successfully', { userId: decoded.userId, sessionId: decoded.sid });
 
       return {
-        accessToken,
-        accessTokenExpiry
+        ...tokens,
+        userId: decoded.userId,
+        sessionId: decoded.sid
       };
     } catch (error) {
-      logger.error('Failed to refresh access token', { error });
-      throw new Error('Token refresh failed');
+      logger.warn('Failed to refresh access token', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
     }
   }
 
@@ -223,22 +281,18 @@ export class JwtService {
   }
 
   /**
-   * Revoke all user sessions
+   * Blacklist the current tokens of one session and forget them
    */
-  static async revokeAllUserSessions(userId: string): Promise<void> {
+  static async revokeSessionTokens(userId: string, sessionId: string): Promise<void> {
     try {
-      // Get all user tokens
-      const accessTokenKey = `${this.ACCESS_TOKEN_PREFIX}${userId}`;
-      const refreshTokenKey = `${this.REFRESH_TOKEN_PREFIX}${userId}`;
-      const userSessionsKey = `${this.USER_SESSIONS_PREFIX}${userId}`;
+      const accessTokenKey = `${this.ACCESS_TOKEN_PREFIX}${sessionId}`;
+      const refreshTokenKey = `${this.REFRESH_TOKEN_PREFIX}${sessionId}`;
 
-      const [accessToken, refreshToken, sessions] = await Promise.all([
+      const [accessToken, refreshToken] = await Promise.all([
         redisClient.get(accessTokenKey),
-        redisClient.get(refreshTokenKey),
-        redisClient.smembers(userSessionsKey)
+        redisClient.get(refreshTokenKey)
       ]);
 
-      // Blacklist current tokens
       const promises = [];
       if (accessToken) {
         promises.push(this.blacklistToken(accessToken));
@@ -247,45 +301,65 @@ export class JwtService {
         promises.push(this.blacklistToken(refreshToken));
       }
 
-      // Blacklist all session tokens
-      for (const sessionToken of sessions) {
-        promises.push(this.blacklistToken(sessionToken));
-      }
-
       await Promise.all(promises);
 
-      // Clear user session data
       await Promise.all([
         redisClient.del(accessTokenKey),
         redisClient.del(refreshTokenKey),
-        redisClient.del(userSessionsKey)
+        redisClient.srem(`${this.USER_SESSIONS_PREFIX}${userId}`, sessionId)
       ]);
 
-      logger.info('All user sessions revoked successfully', { userId });
+      logger.info('Session tokens revoked successfully', { userId, sessionId });
     } catch (error) {
-      logger.error('Failed to revoke user sessions', { error, userId });
+      logger.error('Failed to revoke session tokens', { error, userId, sessionId });
       throw new Error('Session revocation failed');
     }
   }
 
   /**
-   * Get user active sessions count
+   * Revoke the tokens of all user sessions
    */
-  static async getUserSessionsCount(userId: string): Promise<number> {
+  static async revokeAllUserSessions(userId: string): Promise<void> {
     try {
-      const userSessionsKey = `${this.USER_SESSIONS_PREFIX}${userId}`;
-      return await redisClient.scard(userSessionsKey);
+      const sessionIds = await redisClient.smembers(`${this.USER_SESSIONS_PREFIX}${userId}`);
+
+      await Promise.all(sessionIds.map(sessionId => this.revokeSessionTokens(userId, sessionId)));
+      await redisClient.del(`${this.USER_SESSIONS_PREFIX}${userId}`);
+
+      logger.info('All user sessions revoked successfully', { userId, sessions: sessionIds.length });
     } catch (error) {
-      logger.error('Failed to get user sessions count', { error, userId });
-      return 0;
+      logger.error('Failed to revoke user sessions', { error, userId });
+      throw new Error('Session revocation failed');
     }
   }
 
   /**
-   * Store tokens in Redis for session management
+   * Check a refresh token's signature, expiry and type, and that it is not blacklisted
+   */
+  private static async decodeRefreshToken(token: string): Promise<JwtPayload> {
+    const isBlacklisted = await this.isTokenBlacklisted(token);
+    if (isBlacklisted) {
+      throw new Error('Token is blacklisted');
+    }
+
+    const decoded = jwt.verify(token, config.JWT_REFRESH_SECRET, {
+      issuer: 'finance-tracker-api',
+      audience: 'finance-tracker-app'
+    }) as JwtPayload;
+
+    if (decoded.type !== 'refresh' || !decoded.sid) {
+      throw new Error('Invalid token type');
+    }
+
+    return decoded;
+  }
+
+  /**
+   * Store a session's tokens in Redis, keyed by session id
    */
   private static async storeTokens(
     userId: string,
+    sessionId: string,
     accessToken: string,
     refreshToken: string,
     accessTokenExpiry: Date,
@@ -297,6 +371,7 @@ export class JwtService {
 
       logger.debug('Storing tokens in Redis', { 
         userId, 
+        sessionId, 
         accessTokenTtl, 
         refreshTokenTtl,
         accessTokenLength: accessToken.length,
@@ -304,13 +379,13 @@ export class JwtService {
       });
 
       // Store tokens one by one to isolate the error
-      await redisClient.set(`${this.ACCESS_TOKEN_PREFIX}${userId}`, accessToken, 'EX', accessTokenTtl);
+      await redisClient.set(`${this.ACCESS_TOKEN_PREFIX}${sessionId}`, accessToken, 'EX', accessTokenTtl);
       logger.debug('Access token stored successfully');
       
-      await redisClient.set(`${this.REFRESH_TOKEN_PREFIX}${userId}`, refreshToken, 'EX', refreshTokenTtl);
+      await redisClient.set(`${this.REFRESH_TOKEN_PREFIX}${sessionId}`, refreshToken, 'EX', refreshTokenTtl);
       logger.debug('Refresh token stored successfully');
       
-      await redisClient.sadd(`${this.USER_SESSIONS_PREFIX}${userId}`, accessToken, refreshToken);
+      await redisClient.sadd(`${this.USER_SESSIONS_PREFIX}${userId}`, sessionId);
       logger.debug('User sessions added successfully');
       
       await redisClient.expire(`${this.USER_SESSIONS_PREFIX}${userId}`, refreshTokenTtl);
@@ -384,6 +459,52 @@ export class JwtService {
     }
   }
 
+  /**
+   * Generate the short-lived token that carries a sign-in from the password
+   * step to the second-factor step
+   */
+  static generateTwoFactorChallengeToken(
+    userId: string,
+    email: string,
+    deviceName: string | null
+  ): { token: string; jti: string; expiresAt: Date } {
+    const jti = randomUUID();
+    const token = jwt.sign(
+      { userId, email, deviceName, type: 'two-factor-challenge' },
+      config.JWT_SECRET,
+      { expiresIn: '5m', jwtid: jti }
+    );
+
+    return { token, jti, expiresAt: new Date(Date.now() + 5 * 60 * 1000) };
+  }
+
+  /**
+   * Verify two-factor challenge token
+   */
+  static verifyTwoFactorChallengeToken(token: string): {
+    userId: string;
+    email: string;
+    deviceName: string | null;
+    jti: string;
+    exp: number;
+  } {
+    try {
+      const decoded = jwt.verify(token, config.JWT_SECRET) as any;
+      if (decoded.type !== 'two-factor-challenge' || !decoded.jti) {
+        throw new Error('Invalid token type');
+      }
+      return {
+        userId: decoded.userId,
+        email: decoded.email,
+        deviceName: decoded.deviceName ?? null,
+        jti: decoded.jti,
+        exp: decoded.exp
+      };
+    } catch (error) {
+      throw new Error('Invalid or expired two-factor challenge token');
+    }
+  }
+
   /**
    * Generate email verification token
    */
@@ -0,0 +1,128 @@
+import { Knex } from 'knex';
+import { db } from '../config/database';
+import { logger } from '../middleware/logging';
+import { AppError } from '../middleware/errorHandler';
+import {
+  Notification,
+  NotificationResponse,
+  NotificationFilters,
+  NotificationModel,
+  CreateNotificationData
+} from '../models/Notification';
+
+export interface NotificationListResult {
+  notifications: NotificationResponse[];
+  total: number;
+}
+
+export class NotificationService {
+  /**
+   * List a user's notifications, newest first
+   */
+  static async getNotifications(userId: string, filters: NotificationFilters): Promise<NotificationListResult> {
+    const query = db('notifications').where('user_id', userId);
+
+    if (filters.unreadOnly) query.whereNull('read_at');
+
+    const countResult = await query
+      .clone()
+      .count<{ count: string }[]>('id as count')
+      .first();
+
+    const rows: Notification[] = await query
+      .orderBy('created_at', 'desc')
+      .limit(filters.limit)
+      .offset((filters.page - 1) * filters.limit);
+
+    return {
+      notifications: rows.map(row => NotificationModel.toResponse(row)),
+      total: parseInt(countResult?.count || '0', 10)
+    };
+  }
+
+  /**
+   * Number of unread notifications, for the notification badge
+   */
+  static async getUnreadCount(userId: string): Promise<number> {
+    const result = await db('notifications')
+      .where('user_id', userId)
+      .whereNull('read_at')
+      .count<{ count: string }[]>('id as count')
+      .first();
+
+    return parseInt(result?.count || '0', 10);
+  }
+
+  /**
+   * Store an in-app notification. Accepts a transaction so notifications can
+   * be written atomically with the change that produced them.
+   */
+  static async createNotification(
+    executor: Knex | Knex.Transaction,
+    data: CreateNotificationData
+  ): Promise<Notification> {
+    const [created] = await executor('notifications')
+      .insert({
+        user_id: data.userId,
+        type: data.type,
+        event_type: data.eventType,
+        title: data.title,
+        message: data.message,
+        data: data.data ?? null
+      })
+      .returning<Notification[]>('*');
+
+    return created!;
+  }
+
+  /**
+   * Mark a single notification as read
+   */
+  static async markAsRead(userId: string, notificationId: string): Promise<NotificationResponse> {
+    const existing: Notification | undefined = await db('notifications')
+      .where({ id: notificationId, user_id: userId })
+      .first();
+
+    if (!existing) {
+      throw new AppError('Notification not found', 404);
+    }
+
+    if (existing.read_at) {
+      return NotificationModel.toResponse(existing);
+    }
+
+    const [updated] = await db('notifications')
+      .where({ id: notificationId, user_id: userId })
+      .update({ read_at: db.fn.now() })
+      .returning<Notification[]>('*');
+
+    return NotificationModel.toResponse(updated!);
+  }
+
+  /**
+   * Mark every unread notification as read
+   */
+  static async markAllAsRead(userId: string): Promise<number> {
+    const updated = await db('notifications')
+      .where('user_id', userId)
+      .whereNull('read_at')
+      .update({ read_at: db.fn.now() });
+
+    logger.info('Notifications marked as read', { userId, count: updated });
+
+    return updated;
+  }
+
+  /**
+   * Delete a notification
+   */
+  static async deleteNotification(userId: string, notificationId: string): Promise<void> {
+    const deleted = await db('notifications')
+      .where({ id: notificationId, user_id: userId })
+      .del();
+
+    if (!deleted) {
+      throw new AppError('Notification not found', 404);
+    }
+  }
+}
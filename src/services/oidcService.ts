@@ -0,0 +1,460 @@
+import { createHash, createPublicKey, randomBytes, JsonWebKey, KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Knex } from 'knex';
+import { db } from '../config/database';
+import { config } from '../config/env';
+import { redisClient } from '../config/redis';
+import { logger } from '../middleware/logging';
+import { AppError } from '../middleware/errorHandler';
+import { createAuditLog, AuditEventType } from '../middleware/auditLog';
+import {
+  Identity,
+  IdentityModel,
+  IdentityResponse,
+  OidcIntent,
+  OidcProviderInfo,
+  StartedAuthorization,
+  VerifiedIdentity
+} from '../models/Identity';
+
+type Provider = typeof config.OIDC_PROVIDERS[number];
+
+/**
+ * The parts of a provider's discovery document used here
+ */
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface CachedProvider {
+  metadata: ProviderMetadata;
+  // Signing keys by key ID, fetched when first needed
+  keys: Map<string, KeyObject> | null;
+  fetchedAt: number;
+}
+
+/**
+ * A sign-in started by createAuthorization, waiting for the user to come
+ * back from the provider
+ */
+interface PendingAuthorization {
+  provider: string;
+  intent: OidcIntent;
+  userId: string | null;
+  nonce: string;
+  codeVerifier: string;
+  // Hash of the secret given to the browser that started the sign-in
+  browserHash: string;
+}
+
+/**
+ * Raised when a provider's response cannot be trusted; the user only sees
+ * that signing in failed
+ */
+class OidcError extends Error {}
+
+const STATE_PREFIX = 'oidc_state:';
+// Discovery documents and keys are fetched again after an hour
+const METADATA_TTL = 60 * 60 * 1000;
+const REQUEST_TIMEOUT = 10 * 1000;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'ES256'];
+
+const providerCache = new Map<string, CachedProvider>();
+
+const base64urlSha256 = (value: string): string => createHash('sha256').update(value).digest('base64url');
+
+export class OidcService {
+  /**
+   * Providers users can sign in with
+   */
+  static listProviders(): OidcProviderInfo[] {
+    return this.configuredProviders().map(({ id, name }) => ({ id, name }));
+  }
+
+  /**
+   * Start signing in at a provider: remember a state, nonce and PKCE verifier
+   * for the callback and return where to send the browser. The returned
+   * browser secret must come back with the callback, so a state and code
+   * cannot be replayed from another browser (login CSRF). Linking also needs
+   * the signed-in user, who must be the one completing it.
+   */
+  static async createAuthorization(providerId: string, intent: OidcIntent, userId: string | null): Promise<StartedAuthorization> {
+    const provider = this.getProvider(providerId);
+    const { metadata } = await this.discover(provider);
+
+    const state = randomBytes(32).toString('base64url');
+    const browserSecret = randomBytes(32).toString('base64url');
+    const pending: PendingAuthorization = {
+      provider: provider.id,
+      intent,
+      userId,
+      nonce: randomBytes(32).toString('base64url'),
+      codeVerifier: randomBytes(48).toString('base64url'),
+      browserHash: base64urlSha256(browserSecret)
+    };
+
+    await redisClient.set(`${STATE_PREFIX}${state}`, JSON.stringify(pending), 'EX', config.OIDC_STATE_TTL);
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider.clientId);
+    url.searchParams.set('redirect_uri', config.OIDC_REDIRECT_URI);
+    url.searchParams.set('scope', provider.scopes);
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', pending.nonce);
+    url.searchParams.set('code_challenge', base64urlSha256(pending.codeVerifier));
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return {
+      authorization: {
+        authorizationUrl: url.toString(),
+        expiresAt: new Date(Date.now() + config.OIDC_STATE_TTL * 1000)
+      },
+      browserSecret
+    };
+  }
+
+  /**
+   * Finish a sign-in started by createAuthorization with the code the provider
+   * sent back, in the browser that started it: redeem the code and return the
+   * account its ID token proves
+   */
+  static async completeAuthorization(
+    state: string,
+    code: string,
+    intent: OidcIntent,
+    userId: string | null,
+    browserSecret: string | undefined
+  ): Promise<VerifiedIdentity> {
+    const stored = await redisClient.getdel(`${STATE_PREFIX}${state}`);
+    const pending: PendingAuthorization | null = stored ? JSON.parse(stored) : null;
+
+    if (
+      !pending ||
+      pending.intent !== intent ||
+      pending.userId !== userId ||
+      !browserSecret ||
+      pending.browserHash !== base64urlSha256(browserSecret)
+    ) {
+      throw new AppError('Sign-in expired or was not started here, please try again', 400);
+    }
+
+    const provider = this.getProvider(pending.provider);
+
+    try {
+      const metadata = (await this.discover(provider)).metadata;
+      const idToken = await this.redeemCode(provider, metadata, code, pending.codeVerifier);
+      const claims = await this.verifyIdToken(provider, idToken, pending.nonce);
+
+      return {
+        provider: provider.id,
+        subject: claims.sub,
+        email: typeof claims.email === 'string' ? claims.email.toLowerCase().trim() : null,
+        // Some providers send the flag as a string
+        emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+        firstName: typeof claims.given_name === 'string' ? claims.given_name : null,
+        lastName: typeof claims.family_name === 'string' ? claims.family_name : null
+      };
+    } catch (error) {
+      if (!(error instanceof OidcError)) throw error;
+
+      logger.warn('OIDC sign-in rejected', { provider: provider.id, reason: error.message });
+      throw new AppError(`Sign-in with ${provider.name} failed`, 401);
+    }
+  }
+
+  /**
+   * The user a provider account is linked to, if any
+   */
+  static async findLinkedUser(identity: VerifiedIdentity): Promise<string | null> {
+    const [linked]: Identity[] = await db('user_identities')
+      .where({ provider: identity.provider, subject: identity.subject })
+      .update({ email: identity.email, last_used_at: db.fn.now() })
+      .returning('*');
+
+    return linked ? linked.user_id : null;
+  }
+
+  /**
+   * Link a provider account to a user. Each account belongs to one user,
+   * and a user links at most one account per provider.
+   */
+  static async link(userId: string, identity: VerifiedIdentity, trx: Knex = db): Promise<IdentityResponse> {
+    const provider = this.getProvider(identity.provider);
+
+    const existing: Identity | undefined = await trx('user_identities')
+      .where({ provider: identity.provider, subject: identity.subject })
+      .first();
+
+    if (existing) {
+      if (existing.user_id !== userId) {
+        throw new AppError(`This ${provider.name} account is linked to another user`, 409);
+      }
+      return IdentityModel.toResponse(existing, provider.name);
+    }
+
+    const other = await trx('user_identities').where({ user_id: userId, provider: identity.provider }).first('id');
+    if (other) {
+      throw new AppError(`Another ${provider.name} account is already linked`, 409);
+    }
+
+    const [linked]: Identity[] = await trx('user_identities')
+      .insert({
+        user_id: userId,
+        provider: identity.provider,
+        subject: identity.subject,
+        email: identity.email,
+        last_used_at: trx.fn.now()
+      })
+      .returning('*');
+
+    await createAuditLog({
+      eventType: AuditEventType.IDENTITY_LINKED,
+      userId,
+      resourceType: 'identity',
+      resourceId: linked!.id,
+      newValues: { provider: identity.provider, email: identity.email }
+    });
+
+    logger.info('OIDC identity linked', { userId, provider: identity.provider });
+
+    return IdentityModel.toResponse(linked!, provider.name);
+  }
+
+  /**
+   * List the provider accounts linked to a user
+   */
+  static async list(userId: string): Promise<IdentityResponse[]> {
+    const identities: Identity[] = await db('user_identities')
+      .where('user_id', userId)
+      .orderBy('created_at', 'asc');
+
+    return identities.map(identity => IdentityModel.toResponse(identity, this.providerName(identity.provider)));
+  }
+
+  /**
+   * Unlink a provider account, unless it is the user's only way to sign in
+   */
+  static async unlink(userId: string, providerId: string): Promise<void> {
+    const identity: Identity | undefined = await db('user_identities')
+      .where({ user_id: userId, provider: providerId })
+      .first();
+
+    if (!identity) {
+      throw new AppError('No account is linked for this provider', 404);
+    }
+
+    const user: { password_hash: string | null } | undefined = await db('users')
+      .where('id', userId)
+      .first('password_hash');
+    const otherIdentities = await db('user_identities')
+      .where('user_id', userId)
+      .whereNot('id', identity.id)
+      .first('id');
+    const passkey = await db('user_passkeys').where('user_id', userId).first('id');
+
+    if (!user?.password_hash && !otherIdentities && !passkey) {
+      throw new AppError('Set a password or add a passkey before unlinking your only way to sign in', 400);
+    }
+
+    await db('user_identities').where('id', identity.id).del();
+
+    await createAuditLog({
+      eventType: AuditEventType.IDENTITY_UNLINKED,
+      userId,
+      resourceType: 'identity',
+      resourceId: identity.id,
+      oldValues: { provider: identity.provider, email: identity.email }
+    });
+
+    logger.info('OIDC identity unlinked', { userId, provider: identity.provider });
+  }
+
+  private static configuredProviders(): Provider[] {
+    return config.OIDC_PROVIDERS.filter(provider => provider.issuer && provider.clientId);
+  }
+
+  private static getProvider(providerId: string): Provider {
+    const provider = this.configuredProviders().find(candidate => candidate.id === providerId);
+
+    if (!provider) {
+      throw new AppError('Unknown sign-in provider', 404);
+    }
+
+    return provider;
+  }
+
+  // Providers removed from the config keep their ID as the name
+  private static providerName(providerId: string): string {
+    return config.OIDC_PROVIDERS.find(provider => provider.id === providerId)?.name ?? providerId;
+  }
+
+  /**
+   * The provider's discovery document, cached per issuer
+   */
+  private static async discover(provider: Provider): Promise<CachedProvider> {
+    const cached = providerCache.get(provider.issuer);
+    if (cached && Date.now() - cached.fetchedAt < METADATA_TTL) {
+      return cached;
+    }
+
+    let metadata: ProviderMetadata;
+    try {
+      metadata = await this.fetchJson(`${provider.issuer}/.well-known/openid-configuration`);
+    } catch (error) {
+      logger.error('OIDC discovery failed', {
+        provider: provider.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new AppError(`${provider.name} sign-in is unavailable`, 502);
+    }
+
+    if (metadata.issuer !== provider.issuer || !metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+      logger.error('OIDC discovery document is invalid', { provider: provider.id, issuer: metadata.issuer });
+      throw new AppError(`${provider.name} sign-in is unavailable`, 502);
+    }
+
+    const entry: CachedProvider = { metadata, keys: null, fetchedAt: Date.now() };
+    providerCache.set(provider.issuer, entry);
+
+    return entry;
+  }
+
+  /**
+   * Exchange the authorization code, proving with the PKCE verifier that
+   * this server started the sign-in, and return the ID token
+   */
+  private static async redeemCode(provider: Provider, metadata: ProviderMetadata, code: string, codeVerifier: string): Promise<string> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: config.OIDC_REDIRECT_URI,
+      client_id: provider.clientId,
+      code_verifier: codeVerifier
+    });
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json'
+    };
+    // client_secret_basic; public clients rely on PKCE alone
+    if (provider.clientSecret) {
+      const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    let tokens: { id_token?: unknown; error?: string };
+    try {
+      tokens = await this.fetchJson(metadata.token_endpoint, { method: 'POST', headers, body: body.toString() }, true);
+    } catch (error) {
+      throw new OidcError(`Token request failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (tokens.error || typeof tokens.id_token !== 'string') {
+      throw new OidcError(`Token request rejected: ${tokens.error ?? 'no ID token'}`);
+    }
+
+    return tokens.id_token;
+  }
+
+  /**
+   * Check the ID token's signature against the provider's keys, and that it
+   * was issued by the provider to this client for this sign-in
+   */
+  private static async verifyIdToken(provider: Provider, idToken: string, nonce: string): Promise<jwt.JwtPayload & { sub: string }> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new OidcError('ID token is malformed');
+    }
+
+    const algorithm = decoded.header.alg as jwt.Algorithm;
+    if (!ID_TOKEN_ALGORITHMS.includes(algorithm)) {
+      throw new OidcError(`ID token algorithm ${decoded.header.alg} is not allowed`);
+    }
+
+    const key = await this.signingKey(provider, decoded.header.kid);
+
+    let claims: jwt.JwtPayload;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: [algorithm],
+        issuer: provider.issuer,
+        audience: provider.clientId
+      }) as jwt.JwtPayload;
+    } catch (error) {
+      throw new OidcError(`ID token is invalid: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (claims.nonce !== nonce) {
+      throw new OidcError('ID token nonce does not match');
+    }
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new OidcError('ID token has no subject');
+    }
+
+    return claims as jwt.JwtPayload & { sub: string };
+  }
+
+  /**
+   * A provider signing key by ID. Keys are fetched again once when the ID is
+   * unknown, as providers rotate them.
+   */
+  private static async signingKey(provider: Provider, keyId: string | undefined): Promise<KeyObject> {
+    const entry = await this.discover(provider);
+
+    const find = (keys: Map<string, KeyObject>) => keyId === undefined && keys.size === 1
+      ? keys.values().next().value
+      : keys.get(keyId ?? '');
+
+    let key = entry.keys ? find(entry.keys) : undefined;
+    if (!key) {
+      entry.keys = await this.fetchKeys(entry.metadata.jwks_uri);
+      key = find(entry.keys);
+    }
+
+    if (!key) {
+      throw new OidcError('ID token is signed with an unknown key');
+    }
+
+    return key;
+  }
+
+  private static async fetchKeys(jwksUri: string): Promise<Map<string, KeyObject>> {
+    let jwks: { keys?: Array<JsonWebKey & { kid?: string; use?: string }> };
+    try {
+      jwks = await this.fetchJson(jwksUri);
+    } catch (error) {
+      throw new OidcError(`Could not fetch signing keys: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const keys = new Map<string, KeyObject>();
+    for (const jwk of jwks.keys ?? []) {
+      if (jwk.use && jwk.use !== 'sig') continue;
+
+      try {
+        keys.set(jwk.kid ?? '', createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch {
+        // Skip key types Node cannot import; tokens signed with them are rejected
+      }
+    }
+
+    return keys;
+  }
+
+  /**
+   * Fetch JSON from a provider. Error responses from the token endpoint carry
+   * an OAuth error body, so it can accept them.
+   */
+  private static async fetchJson<T>(url: string, init: RequestInit = {}, acceptErrors = false): Promise<T> {
+    const response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT) });
+
+    if (!response.ok && !(acceptErrors && response.status === 400)) {
+      throw new Error(`${url} responded with ${response.status}`);
+    }
+
+    return await response.json() as T;
+  }
+}
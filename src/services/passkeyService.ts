@@ -0,0 +1,306 @@
+import { randomBytes } from 'crypto';
+import { db } from '../config/database';
+import { config } from '../config/env';
+import { redisClient } from '../config/redis';
+import { logger } from '../middleware/logging';
+import { AppError } from '../middleware/errorHandler';
+import { createAuditLog, AuditEventType } from '../middleware/auditLog';
+import { readChallenge, verifyAuthentication, verifyRegistration, SUPPORTED_ALGORITHMS, WebAuthnError } from '../utils/webauthn';
+import {
+  Passkey,
+  PasskeyModel,
+  PasskeyResponse,
+  PasskeyRegistrationOptions,
+  PasskeyAuthenticationOptions,
+  RegistrationCredential,
+  AuthenticationCredential
+} from '../models/Passkey';
+
+/**
+ * What a challenge was issued for: adding a passkey, signing in with one
+ * instead of the password, or confirming a known user as a second factor
+ */
+type CeremonyPurpose = 'registration' | 'sign-in' | 'second-factor';
+
+interface Ceremony {
+  purpose: CeremonyPurpose;
+  userId: string | null;
+}
+
+const CHALLENGE_PREFIX = 'webauthn_challenge:';
+
+// The WebAuthn user handle: an opaque ID the passkey returns when signing in
+const userHandle = (userId: string): string => Buffer.from(userId, 'utf8').toString('base64url');
+
+export class PasskeyService {
+  /**
+   * List a user's passkeys
+   */
+  static async list(userId: string): Promise<PasskeyResponse[]> {
+    const passkeys: Passkey[] = await db('user_passkeys')
+      .where('user_id', userId)
+      .orderBy('created_at', 'asc');
+
+    return passkeys.map(PasskeyModel.toResponse);
+  }
+
+  /**
+   * Options for the browser to create a new passkey for the user
+   */
+  static async registrationOptions(userId: string): Promise<PasskeyRegistrationOptions> {
+    const user: { id: string; email: string; first_name: string; last_name: string } | undefined = await db('users')
+      .where('id', userId)
+      .select('id', 'email', 'first_name', 'last_name')
+      .first();
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const existing: Array<Pick<Passkey, 'credential_id' | 'transports'>> = await db('user_passkeys')
+      .where('user_id', userId)
+      .select('credential_id', 'transports');
+
+    return {
+      challenge: await this.issueChallenge({ purpose: 'registration', userId }),
+      rp: { id: config.WEBAUTHN_RP_ID, name: config.WEBAUTHN_RP_NAME },
+      user: {
+        id: userHandle(user.id),
+        name: user.email,
+        displayName: `${user.first_name} ${user.last_name}`.trim() || user.email
+      },
+      pubKeyCredParams: SUPPORTED_ALGORITHMS.map(alg => ({ type: 'public-key' as const, alg })),
+      timeout: config.WEBAUTHN_CHALLENGE_TTL * 1000,
+      attestation: 'none',
+      // Stops the same authenticator being registered twice
+      excludeCredentials: existing.map(passkey => ({
+        id: passkey.credential_id,
+        type: 'public-key' as const,
+        ...(passkey.transports ? { transports: passkey.transports } : {})
+      })),
+      // Discoverable and user-verified, so the passkey can sign in on its own
+      authenticatorSelection: {
+        residentKey: 'required',
+        requireResidentKey: true,
+        userVerification: 'required'
+      }
+    };
+  }
+
+  /**
+   * Store the passkey the browser created for registrationOptions()
+   */
+  static async register(userId: string, credential: RegistrationCredential, name: string): Promise<PasskeyResponse> {
+    let verified;
+    try {
+      const challenge = readChallenge(credential.response.clientDataJSON);
+      await this.consumeChallenge(challenge, 'registration', userId);
+
+      verified = verifyRegistration(credential, this.expectedCeremony(challenge, true));
+    } catch (error) {
+      if (!(error instanceof WebAuthnError)) throw error;
+
+      logger.warn('Passkey registration rejected', { userId, reason: error.message });
+      throw new AppError(`Passkey registration failed: ${error.message}`, 400);
+    }
+
+    const duplicate = await db('user_passkeys').where('credential_id', verified.credentialId).first('id');
+    if (duplicate) {
+      throw new AppError('This passkey is already registered', 409);
+    }
+
+    const [passkey]: Passkey[] = await db('user_passkeys')
+      .insert({
+        user_id: userId,
+        name,
+        credential_id: verified.credentialId,
+        public_key: verified.publicKey,
+        algorithm: verified.algorithm,
+        sign_count: verified.signCount,
+        transports: verified.transports
+      })
+      .returning('*');
+
+    await createAuditLog({
+      eventType: AuditEventType.PASSKEY_ADDED,
+      userId,
+      resourceType: 'passkey',
+      resourceId: passkey!.id,
+      newValues: { name }
+    });
+
+    logger.info('Passkey registered', { userId, passkeyId: passkey!.id });
+
+    return PasskeyModel.toResponse(passkey!);
+  }
+
+  /**
+   * Rename one of the user's passkeys
+   */
+  static async rename(userId: string, passkeyId: string, name: string): Promise<PasskeyResponse> {
+    const [passkey]: Passkey[] = await db('user_passkeys')
+      .where({ id: passkeyId, user_id: userId })
+      .update({ name })
+      .returning('*');
+
+    if (!passkey) {
+      throw new AppError('Passkey not found', 404);
+    }
+
+    return PasskeyModel.toResponse(passkey);
+  }
+
+  /**
+   * Remove one of the user's passkeys; it can no longer sign in
+   */
+  static async remove(userId: string, passkeyId: string): Promise<void> {
+    const deleted = await db('user_passkeys')
+      .where({ id: passkeyId, user_id: userId })
+      .del();
+
+    if (deleted === 0) {
+      throw new AppError('Passkey not found', 404);
+    }
+
+    await createAuditLog({
+      eventType: AuditEventType.PASSKEY_REMOVED,
+      userId,
+      resourceType: 'passkey',
+      resourceId: passkeyId
+    });
+
+    logger.info('Passkey removed', { userId, passkeyId });
+  }
+
+  /**
+   * Options for the browser to sign with a passkey. Without a user this is a
+   * passwordless sign-in and any of the site's passkeys may answer; with one,
+   * it confirms that user as a second factor and only their passkeys are offered.
+   */
+  static async authenticationOptions(userId: string | null): Promise<PasskeyAuthenticationOptions> {
+    let allowCredentials: PasskeyAuthenticationOptions['allowCredentials'] = [];
+
+    if (userId) {
+      const passkeys: Array<Pick<Passkey, 'credential_id' | 'transports'>> = await db('user_passkeys')
+        .where('user_id', userId)
+        .select('credential_id', 'transports');
+
+      if (passkeys.length === 0) {
+        throw new AppError('No passkeys registered', 400);
+      }
+
+      allowCredentials = passkeys.map(passkey => ({
+        id: passkey.credential_id,
+        type: 'public-key' as const,
+        ...(passkey.transports ? { transports: passkey.transports } : {})
+      }));
+    }
+
+    return {
+      challenge: await this.issueChallenge({ purpose: userId ? 'second-factor' : 'sign-in', userId }),
+      rpId: config.WEBAUTHN_RP_ID,
+      timeout: config.WEBAUTHN_CHALLENGE_TTL * 1000,
+      allowCredentials,
+      userVerification: userId ? 'preferred' : 'required'
+    };
+  }
+
+  /**
+   * Passwordless sign-in: check a passkey signature for authenticationOptions(null)
+   * and return whose passkey it was
+   */
+  static async signIn(credential: AuthenticationCredential): Promise<string> {
+    try {
+      return await this.verifyAssertion(credential, 'sign-in', null);
+    } catch (error) {
+      if (!(error instanceof WebAuthnError)) throw error;
+
+      logger.warn('Passkey sign-in rejected', { credentialId: credential.id, reason: error.message });
+      throw new AppError('Passkey sign-in failed', 401);
+    }
+  }
+
+  /**
+   * Second factor: whether a passkey signature for authenticationOptions(userId)
+   * came from one of the user's passkeys
+   */
+  static async verifySecondFactor(userId: string, credential: AuthenticationCredential): Promise<boolean> {
+    try {
+      await this.verifyAssertion(credential, 'second-factor', userId);
+      return true;
+    } catch (error) {
+      if (!(error instanceof WebAuthnError)) throw error;
+
+      logger.warn('Passkey second factor rejected', { userId, reason: error.message });
+      return false;
+    }
+  }
+
+  private static async verifyAssertion(
+    credential: AuthenticationCredential,
+    purpose: CeremonyPurpose,
+    userId: string | null
+  ): Promise<string> {
+    const challenge = readChallenge(credential.response.clientDataJSON);
+    await this.consumeChallenge(challenge, purpose, userId);
+
+    const credentialId = Buffer.from(credential.rawId, 'base64url').toString('base64url');
+    const passkey: Passkey | undefined = await db('user_passkeys').where('credential_id', credentialId).first();
+
+    if (!passkey || (userId && passkey.user_id !== userId)) {
+      throw new WebAuthnError('Unknown passkey');
+    }
+    if (credential.response.userHandle && credential.response.userHandle !== userHandle(passkey.user_id)) {
+      throw new WebAuthnError('User handle does not match');
+    }
+
+    const storedCount = Number(passkey.sign_count);
+    const { signCount } = verifyAuthentication(credential, {
+      ...this.expectedCeremony(challenge, purpose === 'sign-in'),
+      publicKey: passkey.public_key,
+      algorithm: passkey.algorithm,
+      signCount: storedCount
+    });
+
+    // Only move the counter on from the value just checked, so two uses of a
+    // cloned passkey racing each other cannot both succeed
+    const updated = await db('user_passkeys')
+      .where({ id: passkey.id, sign_count: storedCount })
+      .update({ sign_count: signCount, last_used_at: db.fn.now() });
+
+    if (updated === 0) {
+      throw new WebAuthnError('Signature counter did not increase');
+    }
+
+    return passkey.user_id;
+  }
+
+  private static async issueChallenge(ceremony: Ceremony): Promise<string> {
+    const challenge = randomBytes(32).toString('base64url');
+
+    await redisClient.set(`${CHALLENGE_PREFIX}${challenge}`, JSON.stringify(ceremony), 'EX', config.WEBAUTHN_CHALLENGE_TTL);
+
+    return challenge;
+  }
+
+  /**
+   * Use up a challenge, checking it was issued for this purpose and user
+   */
+  private static async consumeChallenge(challenge: string, purpose: CeremonyPurpose, userId: string | null): Promise<void> {
+    const stored = await redisClient.getdel(`${CHALLENGE_PREFIX}${challenge}`);
+    const ceremony: Ceremony | null = stored ? JSON.parse(stored) : null;
+
+    if (!ceremony || ceremony.purpose !== purpose || ceremony.userId !== userId) {
+      throw new WebAuthnError('Challenge expired or not recognised');
+    }
+  }
+
+  private static expectedCeremony(challenge: string, requireUserVerification: boolean) {
+    return {
+      challenge,
+      origins: config.WEBAUTHN_ORIGINS,
+      rpId: config.WEBAUTHN_RP_ID,
+      requireUserVerification
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import path from 'path';
+import sharp from 'sharp';
+import { createWorker, OEM, Worker } from 'tesseract.js';
+import { logger } from '../middleware/logging';
+import { ReceiptExtraction } from '../models/Receipt';
+import { extractReceiptFields, OcrLine } from '../utils/receiptText';
+
+const ENGINE = 'tesseract';
+
+// English model shipped in node_modules, so recognition never downloads anything
+const LANG_PATH = path.join(path.dirname(require.resolve('@tesseract.js-data/eng')), '4.0.0');
+
+// Images are scaled to this width before recognition; receipt text is small
+const OCR_IMAGE_WIDTH = 1800;
+
+// The worker holds the model in memory, so it is stopped when unused for this long
+const WORKER_IDLE_MS = 5 * 60 * 1000;
+
+/**
+ * Reads receipt images with an embedded Tesseract engine (WebAssembly, in a
+ * worker thread). One worker is shared and runs one recognition at a time.
+ */
+export class ReceiptOcrService {
+  private static worker: Promise<Worker> | null = null;
+  private static active = 0;
+  private static idleTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Read the merchant, date, total and tax from a receipt image
+   */
+  static async readReceipt(filePath: string): Promise<ReceiptExtraction> {
+    // Upright, grayscale and contrast-stretched text recognizes best
+    const image = await sharp(filePath)
+      .rotate()
+      .resize({ width: OCR_IMAGE_WIDTH })
+      .grayscale()
+      .normalize()
+      .png()
+      .toBuffer();
+
+    const lines = await this.recognize(image);
+
+    return {
+      engine: ENGINE,
+      extractedAt: new Date().toISOString(),
+      fields: extractReceiptFields(lines)
+    };
+  }
+
+  /**
+   * Stop the worker (graceful shutdown)
+   */
+  static async shutdown(): Promise<void> {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+
+    const worker = this.worker;
+    this.worker = null;
+    if (worker) await (await worker).terminate();
+  }
+
+  private static async recognize(image: Buffer): Promise<OcrLine[]> {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+    this.active++;
+
+    try {
+      const worker = await this.getWorker();
+      const { data } = await worker.recognize(image, {}, { blocks: true });
+
+      return (data.blocks || []).flatMap(block =>
+        block.paragraphs.flatMap(paragraph =>
+          paragraph.lines.map(line => ({ text: line.text, confidence: line.confidence / 100 }))
+        )
+      );
+    } finally {
+      this.active--;
+      if (this.active === 0) {
+        this.idleTimer = setTimeout(() => {
+          this.shutdown().catch(error => {
+            logger.warn('Failed to stop OCR worker', {
+              error: error instanceof Error ? error.message : String(error)
+            });
+          });
+        }, WORKER_IDLE_MS);
+        this.idleTimer.unref();
+      }
+    }
+  }
+
+  private static getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      this.worker = createWorker('eng', OEM.LSTM_ONLY, {
+        langPath: LANG_PATH,
+        gzip: true,
+        cacheMethod: 'none'
+      });
+
+      // A failed start is retried on the next request
+      this.worker.catch(error => {
+        logger.error('Failed to start OCR worker', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+        this.worker = null;
+      });
+    }
+
+    return this.worker;
+  }
+}
@@ -0,0 +1,354 @@
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { Knex } from 'knex';
+import { db } from '../config/database';
+import { config } from '../config/env';
+import { logger } from '../middleware/logging';
+import { AppError } from '../middleware/errorHandler';
+import {
+  TransactionReceipt,
+  ReceiptResponse,
+  ReceiptFile,
+  ReceiptDraftResponse,
+  ReceiptModel
+} from '../models/Receipt';
+import { ReceiptOcrService } from './receiptOcrService';
+
+// Where the receipts upload middleware stores files, in a directory per user
+const RECEIPT_DIR = path.join(process.cwd(), 'uploads', 'receipts');
+
+export const MAX_RECEIPTS_PER_TRANSACTION = 10;
+
+// Thumbnails fit within a square of this many pixels
+const THUMBNAIL_SIZE = 320;
+
+export class ReceiptService {
+  /**
+   * List the receipts attached to a transaction, oldest first
+   */
+  static async getReceipts(userId: string, transactionId: string): Promise<ReceiptResponse[]> {
+    await this.findOwnedTransaction(db, userId, transactionId);
+
+    const receipts: TransactionReceipt[] = await db('transaction_receipts')
+      .where({ transaction_id: transactionId, user_id: userId })
+      .orderBy('created_at', 'asc');
+
+    return receipts.map(receipt => this.toResponse(receipt));
+  }
+
+  /**
+   * Attach uploaded files to a transaction, with a thumbnail for each image.
+   * Thumbnails made for a request that fails are removed again; the
+   * uploaded files themselves are removed by the upload cleanup middleware.
+   */
+  static async addReceipts(
+    userId: string,
+    transactionId: string,
+    files: Express.Multer.File[]
+  ): Promise<ReceiptResponse[]> {
+    if (files.length === 0) {
+      throw new AppError('No receipt files uploaded', 400);
+    }
+
+    const thumbnails: Array<string | null> = [];
+    for (const file of files) {
+      thumbnails.push(await this.createThumbnail(file));
+    }
+
+    try {
+      const receipts = await db.transaction(async (trx) => {
+        // Locked so concurrent uploads cannot pass the limit together
+        await this.findOwnedTransaction(trx, userId, transactionId, true);
+
+        const existing = await trx('transaction_receipts')
+          .where('transaction_id', transactionId)
+          .count<{ count: string }[]>('* as count')
+          .first();
+
+        if (Number(existing?.count || 0) + files.length > MAX_RECEIPTS_PER_TRANSACTION) {
+          throw new AppError(`A transaction can have at most ${MAX_RECEIPTS_PER_TRANSACTION} receipts`, 400);
+        }
+
+        return trx('transaction_receipts')
+          .insert(files.map((file, i) => ({
+            user_id: userId,
+            transaction_id: transactionId,
+            file_name: this.relativeName(file.path),
+            thumbnail_name: thumbnails[i],
+            original_name: file.originalname,
+            mime_type: file.mimetype,
+            file_size: file.size
+          })))
+          .returning<TransactionReceipt[]>('*');
+      });
+
+      logger.info('Receipts attached', { userId, transactionId, count: receipts.length });
+
+      return receipts.map(receipt => this.toResponse(receipt));
+    } catch (error) {
+      await this.unlinkAll(thumbnails.filter((name): name is string => name !== null));
+      throw error;
+    }
+  }
+
+  /**
+   * Read an uploaded receipt image and keep it as a draft, returning a
+   * transaction pre-filled from it. The draft becomes a normal receipt when
+   * the transaction is created with its id, and expires otherwise.
+   */
+  static async createDraft(userId: string, file: Express.Multer.File | undefined): Promise<ReceiptDraftResponse> {
+    if (!file) {
+      throw new AppError('No receipt file uploaded', 400);
+    }
+
+    if (!file.mimetype.startsWith('image/')) {
+      throw new AppError('Text can only be read from image receipts', 400);
+    }
+
+    let extraction;
+    try {
+      extraction = await ReceiptOcrService.readReceipt(file.path);
+    } catch (error) {
+      logger.warn('Failed to read receipt', {
+        error: error instanceof Error ? error.message : String(error),
+        file: file.filename
+      });
+      throw new AppError('The receipt could not be read', 422);
+    }
+
+    const thumbnail = await this.createThumbnail(file);
+
+    try {
+      const [receipt] = await db('transaction_receipts')
+        .insert({
+          user_id: userId,
+          transaction_id: null,
+          file_name: this.relativeName(file.path),
+          thumbnail_name: thumbnail,
+          original_name: file.originalname,
+          mime_type: file.mimetype,
+          file_size: file.size,
+          extraction
+        })
+        .returning<TransactionReceipt[]>('*');
+
+      logger.info('Receipt draft created', { userId, receiptId: receipt!.id });
+
+      const { merchant, date, total } = extraction.fields;
+
+      return {
+        receiptId: receipt!.id,
+        transaction: {
+          type: 'expense',
+          amount: total.value,
+          date: date.value,
+          description: merchant.value,
+          merchantName: merchant.value
+        },
+        extraction
+      };
+    } catch (error) {
+      if (thumbnail) await this.unlinkAll([thumbnail]);
+      throw error;
+    }
+  }
+
+  /**
+   * Lock one of the user's receipt drafts for the transaction being
+   * created from it
+   */
+  static async claimDraft(
+    trx: Knex.Transaction,
+    userId: string,
+    receiptId: string
+  ): Promise<TransactionReceipt> {
+    const draft: TransactionReceipt | undefined = await trx('transaction_receipts')
+      .where({ id: receiptId, user_id: userId })
+      .whereNull('transaction_id')
+      .forUpdate()
+      .first();
+
+    if (!draft) {
+      throw new AppError('Receipt draft not found', 404);
+    }
+
+    return draft;
+  }
+
+  /**
+   * Attach a claimed draft to the transaction created from it
+   */
+  static async attachDraft(trx: Knex.Transaction, receiptId: string, transactionId: string): Promise<void> {
+    await trx('transaction_receipts')
+      .where({ id: receiptId })
+      .update({ transaction_id: transactionId });
+  }
+
+  /**
+   * Delete drafts that were never turned into a transaction, with their files
+   */
+  static async deleteExpiredDrafts(): Promise<number> {
+    const cutoff = new Date(Date.now() - config.RECEIPT_DRAFT_RETENTION_HOURS * 60 * 60 * 1000);
+
+    const deleted: TransactionReceipt[] = await db('transaction_receipts')
+      .whereNull('transaction_id')
+      .where('created_at', '<', cutoff)
+      .del()
+      .returning('*');
+
+    await this.deleteFiles(deleted);
+
+    if (deleted.length > 0) {
+      logger.info('Expired receipt drafts deleted', { count: deleted.length });
+    }
+
+    return deleted.length;
+  }
+
+  /**
+   * Resolve a receipt, or its thumbnail, to the file on disk after checking
+   * that it belongs to the user's transaction
+   */
+  static async getReceiptFile(
+    userId: string,
+    transactionId: string,
+    receiptId: string,
+    thumbnail: boolean = false
+  ): Promise<ReceiptFile> {
+    const receipt: TransactionReceipt | undefined = await db('transaction_receipts')
+      .where({ id: receiptId, transaction_id: transactionId, user_id: userId })
+      .first();
+
+    if (!receipt) {
+      throw new AppError('Receipt not found', 404);
+    }
+
+    if (thumbnail && !receipt.thumbnail_name) {
+      throw new AppError('Receipt has no thumbnail', 404);
+    }
+
+    const name = thumbnail ? receipt.thumbnail_name! : receipt.file_name;
+    const filePath = this.resolvePath(name);
+
+    if (!filePath || !fs.existsSync(filePath)) {
+      throw new AppError('Receipt file not found', 404);
+    }
+
+    const baseName = path.basename(receipt.original_name, path.extname(receipt.original_name));
+
+    return thumbnail
+      ? { filePath, fileName: `${baseName}_thumbnail.jpg`, mimeType: 'image/jpeg' }
+      : { filePath, fileName: receipt.original_name, mimeType: receipt.mime_type };
+  }
+
+  /**
+   * Detach a receipt and delete its files
+   */
+  static async deleteReceipt(userId: string, transactionId: string, receiptId: string): Promise<void> {
+    const deleted: TransactionReceipt[] = await db('transaction_receipts')
+      .where({ id: receiptId, transaction_id: transactionId, user_id: userId })
+      .del()
+      .returning('*');
+
+    if (deleted.length === 0) {
+      throw new AppError('Receipt not found', 404);
+    }
+
+    await this.deleteFiles(deleted);
+
+    logger.info('Receipt deleted', { userId, transactionId, receiptId });
+  }
+
+  /**
+   * Receipts of the given transactions, read before the transactions are
+   * deleted so their files can be removed once the delete commits
+   */
+  static async getForTransactions(
+    executor: Knex | Knex.Transaction,
+    transactionIds: string[]
+  ): Promise<TransactionReceipt[]> {
+    return executor('transaction_receipts').whereIn('transaction_id', transactionIds);
+  }
+
+  /**
+   * Delete the files and thumbnails of receipts whose rows are gone
+   */
+  static async deleteFiles(receipts: TransactionReceipt[]): Promise<void> {
+    await this.unlinkAll(receipts.flatMap(receipt =>
+      receipt.thumbnail_name ? [receipt.file_name, receipt.thumbnail_name] : [receipt.file_name]
+    ));
+  }
+
+  /**
+   * Write a JPEG thumbnail next to an uploaded image. A file sharp cannot
+   * read is still attached, just without a thumbnail.
+   */
+  private static async createThumbnail(file: Express.Multer.File): Promise<string | null> {
+    if (!file.mimetype.startsWith('image/')) return null;
+
+    const thumbnailPath = path.join(
+      path.dirname(file.path),
+      `${path.basename(file.path, path.extname(file.path))}_thumb.jpg`
+    );
+
+    try {
+      await sharp(file.path)
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .flatten({ background: '#ffffff' })
+        .jpeg({ quality: 80 })
+        .toFile(thumbnailPath);
+
+      return this.relativeName(thumbnailPath);
+    } catch (error) {
+      logger.warn('Failed to create receipt thumbnail', {
+        error: error instanceof Error ? error.message : String(error),
+        file: file.filename
+      });
+      return null;
+    }
+  }
+
+  private static async findOwnedTransaction(
+    executor: Knex | Knex.Transaction,
+    userId: string,
+    transactionId: string,
+    lock: boolean = false
+  ): Promise<void> {
+    const query = executor('transactions').where({ id: transactionId, user_id: userId });
+    if (lock) query.forUpdate();
+
+    if (!await query.first('id')) {
+      throw new AppError('Transaction not found', 404);
+    }
+  }
+
+  private static async unlinkAll(names: string[]): Promise<void> {
+    for (const name of names) {
+      const filePath = this.resolvePath(name);
+      if (!filePath) continue;
+
+      await fs.promises.unlink(filePath).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'ENOENT') {
+          logger.warn('Failed to delete receipt file', { error: error.message, file: name });
+        }
+      });
+    }
+  }
+
+  // Stored names are relative to the receipts directory
+  private static relativeName(filePath: string): string {
+    return path.relative(RECEIPT_DIR, filePath).split(path.sep).join('/');
+  }
+
+  // Absolute path of a stored name, or null if it points outside the receipts directory
+  private static resolvePath(name: string): string | null {
+    const filePath = path.resolve(RECEIPT_DIR, name);
+    return filePath.startsWith(RECEIPT_DIR + path.sep) ? filePath : null;
+  }
+
+  private static toResponse(receipt: TransactionReceipt): ReceiptResponse {
+    return ReceiptModel.toResponse(receipt, `${config.API_PREFIX}/${config.API_VERSION}`);
+  }
+}
@@ -0,0 +1,626 @@
+import { Knex } from 'knex';
+import { db } from '../config/database';
+import { logger } from '../middleware/logging';
+import { AppError } from '../middleware/errorHandler';
+import { toDateOnlyString, toDateParam } from '../utils/date';
+import { CreateTransactionData } from '../models/Transaction';
+import {
+  RecurringRule,
+  RecurringRuleException,
+  RecurringRuleResponse,
+  RecurringRuleFilters,
+  RecurringRuleModel,
+  RecurrenceFrequency,
+  RecurrenceSchedule,
+  CreateRecurringRuleData,
+  UpdateRecurringRuleData,
+  OccurrenceOverrides,
+  OccurrencePreview
+} from '../models/RecurringRule';
+import { TransactionService, TransactionWriteResult } from './transactionService';
+import { AccountBalanceService } from './accountBalanceService';
+import { BudgetAlertService } from './budgetAlertService';
+
+export interface RecurringRuleListResult {
+  rules: RecurringRuleResponse[];
+  total: number;
+}
+
+export interface MaterializeResult {
+  rules: number;
+  created: number;
+  skipped: number;
+  failed: number;
+}
+
+// Due rules locked and materialized per query
+const BATCH_SIZE = 100;
+
+// Occurrences materialized per rule in one pass, so a long backlog is spread
+// over several transactions instead of one huge one
+const MAX_OCCURRENCES_PER_PASS = 500;
+
+// Schedule fields that renumber the occurrences when changed
+const SCHEDULE_FIELDS = ['frequency', 'interval', 'weekday', 'weekOfMonth', 'startDate'] as const;
+
+export class RecurringRuleService {
+  /**
+   * List a user's recurring rules
+   */
+  static async getRules(userId: string, filters: RecurringRuleFilters): Promise<RecurringRuleListResult> {
+    const query = db('recurring_rules').where('user_id', userId);
+
+    if (filters.isActive !== undefined) query.where('is_active', filters.isActive);
+    if (filters.accountId) query.where('account_id', filters.accountId);
+
+    const countResult = await query
+      .clone()
+      .count<{ count: string }[]>('id as count')
+      .first();
+
+    const rows: RecurringRule[] = await query
+      .orderByRaw('next_occurrence_date ASC NULLS LAST')
+      .orderBy('created_at', 'asc')
+      .limit(filters.limit)
+      .offset((filters.page - 1) * filters.limit);
+
+    return {
+      rules: rows.map(row => RecurringRuleModel.toResponse(row)),
+      total: parseInt(countResult?.count || '0', 10)
+    };
+  }
+
+  /**
+   * Get a single recurring rule
+   */
+  static async getRuleById(userId: string, ruleId: string): Promise<RecurringRuleResponse> {
+    const rule: RecurringRule | undefined = await db('recurring_rules')
+      .where({ id: ruleId, user_id: userId })
+      .first();
+
+    if (!rule) {
+      throw new AppError('Recurring rule not found', 404);
+    }
+
+    return RecurringRuleModel.toResponse(rule);
+  }
+
+  /**
+   * Create a recurring rule. Occurrences already due (a start date in the
+   * past or today) are materialized straight away.
+   */
+  static async createRule(userId: string, data: CreateRecurringRuleData): Promise<RecurringRuleResponse> {
+    const schedule: RecurrenceSchedule = {
+      frequency: data.frequency,
+      interval_count: data.interval,
+      weekday: data.weekday ?? null,
+      week_of_month: data.weekOfMonth ?? null,
+      start_date: toDateParam(data.startDate)
+    };
+    const limits = {
+      end_date: data.endDate ? toDateParam(data.endDate) : null,
+      max_occurrences: data.maxOccurrences ?? null
+    };
+    this.assertValidSchedule(schedule, limits.end_date);
+
+    const ruleId = await db.transaction(async (trx) => {
+      await this.assertAccountActive(trx, userId, data.accountId);
+      await this.assertCategoryAccessible(trx, userId, data.categoryId);
+
+      const index = RecurringRuleModel.firstOccurrenceIndex(schedule);
+      const nextDate = RecurringRuleModel.occurrenceWithinLimits(schedule, limits, index, 0);
+
+      const [created] = await trx('recurring_rules')
+        .insert({
+          user_id: userId,
+          account_id: data.accountId,
+          category_id: data.categoryId,
+          type: data.type,
+          amount: data.amount,
+          description: data.description,
+          merchant_name: data.merchantName || null,
+          notes: data.notes || null,
+          tags: data.tags || null,
+          ...schedule,
+          ...limits,
+          next_occurrence_index: nextDate ? index : null,
+          next_occurrence_date: nextDate
+        })
+        .returning<Array<Pick<RecurringRule, 'id'>>>('id');
+
+      return created!.id;
+    });
+
+    logger.info('Recurring rule created', { userId, ruleId, frequency: data.frequency });
+
+    await this.materializeRule(ruleId, toDateOnlyString(new Date())!);
+
+    return this.getRuleById(userId, ruleId);
+  }
+
+  /**
+   * Update the whole series. Changes apply to occurrences that have not been
+   * materialized yet; transactions already created are left as they are.
+   * Changing the schedule renumbers the remaining occurrences and drops the
+   * per-occurrence exceptions, which no longer line up with it.
+   */
+  static async updateRule(userId: string, ruleId: string, data: UpdateRecurringRuleData): Promise<RecurringRuleResponse> {
+    await db.transaction(async (trx) => {
+      const rule = await this.findOwnedRule(trx, userId, ruleId);
+
+      const schedule: RecurrenceSchedule = {
+        frequency: data.frequency ?? rule.frequency,
+        interval_count: data.interval ?? rule.interval_count,
+        weekday: data.weekday !== undefined ? data.weekday : rule.weekday,
+        week_of_month: data.weekOfMonth !== undefined ? data.weekOfMonth : rule.week_of_month,
+        start_date: data.startDate ? toDateParam(data.startDate) : toDateOnlyString(rule.start_date)!
+      };
+      const limits = {
+        end_date: data.endDate !== undefined
+          ? (data.endDate ? toDateParam(data.endDate) : null)
+          : toDateOnlyString(rule.end_date),
+        max_occurrences: data.maxOccurrences !== undefined ? data.maxOccurrences : rule.max_occurrences
+      };
+      this.assertValidSchedule(schedule, limits.end_date);
+
+      if (data.accountId !== undefined && data.accountId !== rule.account_id) {
+        await this.assertAccountActive(trx, userId, data.accountId);
+      }
+      if (data.categoryId !== undefined && data.categoryId !== rule.category_id) {
+        await this.assertCategoryAccessible(trx, userId, data.categoryId);
+      }
+
+      const scheduleChanged = SCHEDULE_FIELDS.some(field => data[field] !== undefined);
+      const lastOccurrence = toDateOnlyString(rule.last_occurrence_date);
+      const index = scheduleChanged || rule.next_occurrence_index === null
+        ? RecurringRuleModel.indexAfter(schedule, lastOccurrence)
+        : rule.next_occurrence_index;
+      const nextDate = RecurringRuleModel.occurrenceWithinLimits(schedule, limits, index, rule.occurrences_created);
+
+      const updates: Record<string, unknown> = {
+        ...schedule,
+        ...limits,
+        next_occurrence_index: nextDate ? index : null,
+        next_occurrence_date: nextDate
+      };
+      if (data.accountId !== undefined) updates.account_id = data.accountId;
+      if (data.categoryId !== undefined) updates.category_id = data.categoryId;
+      if (data.type !== undefined) updates.type = data.type;
+      if (data.amount !== undefined) updates.amount = data.amount;
+      if (data.description !== undefined) updates.description = data.description;
+      if (data.merchantName !== undefined) updates.merchant_name = data.merchantName;
+      if (data.notes !== undefined) updates.notes = data.notes;
+      if (data.tags !== undefined) updates.tags = data.tags;
+      if (data.isActive !== undefined) updates.is_active = data.isActive;
+
+      await trx('recurring_rules')
+        .where({ id: ruleId, user_id: userId })
+        .update(updates);
+
+      if (scheduleChanged) {
+        await trx('recurring_rule_exceptions').where('rule_id', ruleId).del();
+      }
+    });
+
+    logger.info('Recurring rule updated', { userId, ruleId });
+
+    await this.materializeRule(ruleId, toDateOnlyString(new Date())!);
+
+    return this.getRuleById(userId, ruleId);
+  }
+
+  /**
+   * Stop a series. Transactions it already created are kept.
+   */
+  static async deleteRule(userId: string, ruleId: string): Promise<void> {
+    const updated = await db('recurring_rules')
+      .where({ id: ruleId, user_id: userId, is_active: true })
+      .update({ is_active: false });
+
+    if (!updated) {
+      throw new AppError('Recurring rule not found', 404);
+    }
+
+    logger.info('Recurring rule deactivated', { userId, ruleId });
+  }
+
+  /**
+   * Upcoming occurrences of a series with skips and edits applied
+   */
+  static async getUpcomingOccurrences(userId: string, ruleId: string, count: number): Promise<OccurrencePreview[]> {
+    const rule: RecurringRule | undefined = await db('recurring_rules')
+      .where({ id: ruleId, user_id: userId })
+      .first();
+
+    if (!rule) {
+      throw new AppError('Recurring rule not found', 404);
+    }
+
+    const dates = this.pendingOccurrences(rule, count);
+    if (dates.length === 0) return [];
+
+    const exceptions: RecurringRuleException[] = await db('recurring_rule_exceptions')
+      .where('rule_id', ruleId)
+      .whereIn('occurrence_date', dates);
+    const exceptionsByDate = new Map(exceptions.map(exception => [
+      toDateOnlyString(exception.occurrence_date)!,
+      exception
+    ]));
+
+    return dates.map(date => this.toPreview(rule, date, exceptionsByDate.get(date)));
+  }
+
+  /**
+   * Skip a single upcoming occurrence
+   */
+  static async skipOccurrence(userId: string, ruleId: string, date: Date | string): Promise<OccurrencePreview> {
+    return this.saveException(userId, ruleId, toDateParam(date), true, null);
+  }
+
+  /**
+   * Change a single upcoming occurrence without touching the rest of the series
+   */
+  static async updateOccurrence(
+    userId: string,
+    ruleId: string,
+    date: Date | string,
+    overrides: OccurrenceOverrides
+  ): Promise<OccurrencePreview> {
+    return this.saveException(userId, ruleId, toDateParam(date), false, overrides);
+  }
+
+  /**
+   * Drop a skip or edit so the occurrence follows the series again
+   */
+  static async restoreOccurrence(userId: string, ruleId: string, date: Date | string): Promise<OccurrencePreview> {
+    const occurrenceDate = toDateParam(date);
+
+    return db.transaction(async (trx) => {
+      const rule = await this.findOwnedRule(trx, userId, ruleId);
+
+      const deleted = await trx('recurring_rule_exceptions')
+        .where({ rule_id: ruleId, occurrence_date: occurrenceDate })
+        .del();
+
+      if (!deleted) {
+        throw new AppError('Occurrence has no changes to restore', 404);
+      }
+
+      return this.toPreview(rule, occurrenceDate, undefined);
+    });
+  }
+
+  /**
+   * Materialize every occurrence that is due by asOf across all active
+   * rules. Rules whose account or category became unusable are paused.
+   */
+  static async materializeDueOccurrences(asOf: Date | string = new Date()): Promise<MaterializeResult> {
+    const today = toDateOnlyString(asOf)!;
+    const result: MaterializeResult = { rules: 0, created: 0, skipped: 0, failed: 0 };
+    const failedIds: string[] = [];
+
+    for (;;) {
+      const due: Array<Pick<RecurringRule, 'id'>> = await db('recurring_rules')
+        .where('is_active', true)
+        .whereNotNull('next_occurrence_date')
+        .where('next_occurrence_date', '<=', today)
+        .whereNotIn('id', failedIds)
+        .orderBy('next_occurrence_date', 'asc')
+        .limit(BATCH_SIZE)
+        .select('id');
+
+      if (due.length === 0) break;
+
+      for (const { id } of due) {
+        try {
+          const outcome = await this.materializeRule(id, today);
+          result.rules++;
+          result.created += outcome.created;
+          result.skipped += outcome.skipped;
+        } catch (error) {
+          failedIds.push(id);
+          result.failed++;
+          logger.error('Failed to materialize recurring rule', {
+            error: error instanceof Error ? error.message : String(error),
+            ruleId: id
+          });
+
+          if (error instanceof AppError) {
+            await db('recurring_rules').where('id', id).update({ is_active: false });
+            logger.warn('Recurring rule paused', { ruleId: id, reason: error.message });
+          }
+        }
+      }
+    }
+
+    if (result.rules > 0 || result.failed > 0) {
+      logger.info('Recurring transactions materialized', { asOf: today, ...result });
+    }
+
+    return result;
+  }
+
+  /**
+   * Create the transactions for a rule's occurrences due by today, linked
+   * through recurring_group_id, and advance the rule past them
+   */
+  static async materializeRule(ruleId: string, today: string): Promise<{ created: number; skipped: number }> {
+    const { userId, writes, skipped } = await db.transaction(async (trx) => {
+      const rule: RecurringRule | undefined = await trx('recurring_rules')
+        .where({ id: ruleId, is_active: true })
+        .where('next_occurrence_date', '<=', today)
+        .forUpdate()
+        .first();
+
+      if (!rule) {
+        return { userId: null, writes: [], skipped: 0 };
+      }
+
+      const exceptions: RecurringRuleException[] = await trx('recurring_rule_exceptions')
+        .where('rule_id', rule.id)
+        .where('occurrence_date', '>=', toDateOnlyString(rule.next_occurrence_date)!)
+        .where('occurrence_date', '<=', today);
+      const exceptionsByDate = new Map(exceptions.map(exception => [
+        toDateOnlyString(exception.occurrence_date)!,
+        exception
+      ]));
+
+      const writes: TransactionWriteResult[] = [];
+      let skipped = 0;
+      let index = rule.next_occurrence_index!;
+      let date: string | null = toDateOnlyString(rule.next_occurrence_date);
+      let occurrences = rule.occurrences_created;
+      let lastDate = toDateOnlyString(rule.last_occurrence_date);
+
+      while (date && date <= today && writes.length + skipped < MAX_OCCURRENCES_PER_PASS) {
+        const exception = exceptionsByDate.get(date);
+
+        if (exception?.is_skipped) {
+          skipped++;
+        } else {
+          writes.push(await TransactionService.insertTransaction(
+            trx,
+            rule.user_id,
+            this.buildOccurrence(rule, date, exception?.overrides ?? null),
+            rule.id
+          ));
+        }
+
+        occurrences++;
+        lastDate = date;
+        index++;
+        date = RecurringRuleModel.occurrenceWithinLimits(rule, rule, index, occurrences);
+      }
+
+      await trx('recurring_rules')
+        .where('id', rule.id)
+        .update({
+          occurrences_created: occurrences,
+          last_occurrence_date: lastDate,
+          next_occurrence_index: date ? index : null,
+          next_occurrence_date: date
+        });
+
+      return { userId: rule.user_id, writes, skipped };
+    });
+
+    if (userId) {
+      for (const write of writes) {
+        await AccountBalanceService.recordBalanceChanges(userId, write.balanceChanges, {
+          transactionId: write.transaction.id,
+          reason: 'transaction.recurring'
+        });
+        await BudgetAlertService.deliverAlerts(write.budgetAlerts);
+      }
+
+      if (writes.length > 0 || skipped > 0) {
+        logger.info('Recurring rule materialized', { userId, ruleId, created: writes.length, skipped });
+      }
+    }
+
+    return { created: writes.length, skipped };
+  }
+
+  /**
+   * Store a skip or edit for one pending occurrence of the series
+   */
+  private static async saveException(
+    userId: string,
+    ruleId: string,
+    occurrenceDate: string,
+    isSkipped: boolean,
+    overrides: OccurrenceOverrides | null
+  ): Promise<OccurrencePreview> {
+    return db.transaction(async (trx) => {
+      const rule = await this.findOwnedRule(trx, userId, ruleId);
+
+      if (!this.isPendingOccurrence(rule, occurrenceDate)) {
+        throw new AppError('Date is not an upcoming occurrence of this series', 400);
+      }
+
+      if (overrides?.categoryId && overrides.categoryId !== rule.category_id) {
+        await this.assertCategoryAccessible(trx, userId, overrides.categoryId);
+      }
+
+      const [exception] = await trx('recurring_rule_exceptions')
+        .insert({ rule_id: ruleId, occurrence_date: occurrenceDate, is_skipped: isSkipped, overrides })
+        .onConflict(['rule_id', 'occurrence_date'])
+        .merge(['is_skipped', 'overrides'])
+        .returning<RecurringRuleException[]>('*');
+
+      logger.info(isSkipped ? 'Recurring occurrence skipped' : 'Recurring occurrence updated', {
+        userId,
+        ruleId,
+        occurrenceDate
+      });
+
+      return this.toPreview(rule, occurrenceDate, exception);
+    });
+  }
+
+  /**
+   * Dates of the next occurrences still to be materialized
+   */
+  private static pendingOccurrences(rule: RecurringRule, count: number): string[] {
+    const dates: string[] = [];
+    if (!rule.is_active || rule.next_occurrence_index === null) return dates;
+
+    let index = rule.next_occurrence_index;
+    let occurrences = rule.occurrences_created;
+    let date = RecurringRuleModel.occurrenceWithinLimits(rule, rule, index, occurrences);
+
+    while (date && dates.length < count) {
+      dates.push(date);
+      index++;
+      occurrences++;
+      date = RecurringRuleModel.occurrenceWithinLimits(rule, rule, index, occurrences);
+    }
+
+    return dates;
+  }
+
+  /**
+   * Whether the date is one of the series' occurrences that has not been materialized yet
+   */
+  private static isPendingOccurrence(rule: RecurringRule, date: string): boolean {
+    if (!rule.is_active || rule.next_occurrence_index === null) return false;
+
+    let index = rule.next_occurrence_index;
+    let occurrences = rule.occurrences_created;
+    let candidate = RecurringRuleModel.occurrenceWithinLimits(rule, rule, index, occurrences);
+
+    while (candidate && candidate < date) {
+      index++;
+      occurrences++;
+      candidate = RecurringRuleModel.occurrenceWithinLimits(rule, rule, index, occurrences);
+    }
+
+    return candidate === date;
+  }
+
+  /**
+   * Transaction data for one occurrence, with its edits applied
+   */
+  private static buildOccurrence(
+    rule: RecurringRule,
+    date: string,
+    overrides: OccurrenceOverrides | null
+  ): CreateTransactionData & { categoryId: string } {
+    const data: CreateTransactionData & { categoryId: string } = {
+      accountId: rule.account_id,
+      categoryId: overrides?.categoryId ?? rule.category_id,
+      type: rule.type,
+      amount: overrides?.amount ?? Number(rule.amount),
+      description: overrides?.description ?? rule.description,
+      date
+    };
+
+    const notes = overrides?.notes !== undefined ? overrides.notes : rule.notes;
+    const merchantName = overrides?.merchantName !== undefined ? overrides.merchantName : rule.merchant_name;
+
+    if (notes) data.notes = notes;
+    if (merchantName) data.merchantName = merchantName;
+    if (rule.tags) data.tags = rule.tags;
+
+    return data;
+  }
+
+  /**
+   * Preview of one occurrence with its exception applied
+   */
+  private static toPreview(
+    rule: RecurringRule,
+    date: string,
+    exception: RecurringRuleException | undefined
+  ): OccurrencePreview {
+    const occurrence = this.buildOccurrence(rule, date, exception?.overrides ?? null);
+
+    return {
+      date,
+      amount: occurrence.amount,
+      description: occurrence.description,
+      categoryId: occurrence.categoryId,
+      notes: occurrence.notes ?? null,
+      merchantName: occurrence.merchantName ?? null,
+      isSkipped: exception?.is_skipped ?? false,
+      isModified: Boolean(exception && !exception.is_skipped)
+    };
+  }
+
+  /**
+   * nth-weekday settings only apply to month-based schedules
+   */
+  private static assertValidSchedule(schedule: RecurrenceSchedule, endDate: string | null): void {
+    const monthBased = schedule.frequency === RecurrenceFrequency.MONTHLY
+      || schedule.frequency === RecurrenceFrequency.YEARLY;
+
+    if ((schedule.weekday !== null) !== (schedule.week_of_month !== null)) {
+      throw new AppError('weekday and weekOfMonth must be set together', 400);
+    }
+
+    if (schedule.weekday !== null && !monthBased) {
+      throw new AppError('weekday and weekOfMonth only apply to monthly and yearly schedules', 400);
+    }
+
+    if (endDate && endDate < toDateOnlyString(schedule.start_date)!) {
+      throw new AppError('End date must not be before the start date', 400);
+    }
+  }
+
+  /**
+   * Load a rule owned by the user, locking it for the rest of the transaction
+   */
+  private static async findOwnedRule(
+    trx: Knex.Transaction,
+    userId: string,
+    ruleId: string
+  ): Promise<RecurringRule> {
+    const rule: RecurringRule | undefined = await trx('recurring_rules')
+      .where({ id: ruleId, user_id: userId })
+      .forUpdate()
+      .first();
+
+    if (!rule) {
+      throw new AppError('Recurring rule not found', 404);
+    }
+
+    return rule;
+  }
+
+  /**
+   * Ensure the account belongs to the user and is active
+   */
+  private static async assertAccountActive(
+    trx: Knex.Transaction,
+    userId: string,
+    accountId: string
+  ): Promise<void> {
+    const account = await trx('accounts')
+      .where({ id: accountId, user_id: userId, is_active: true })
+      .first('id');
+
+    if (!account) {
+      throw new AppError('Account not found', 404);
+    }
+  }
+
+  /**
+   * Ensure the category is one of the user's own or a system category
+   */
+  private static async assertCategoryAccessible(
+    trx: Knex.Transaction,
+    userId: string,
+    categoryId: string
+  ): Promise<void> {
+    const category = await trx('categories')
+      .where({ id: categoryId, is_active: true })
+      .andWhere(builder => {
+        builder.where('user_id', userId).orWhere('is_system', true);
+      })
+      .first('id');
+
+    if (!category) {
+      throw new AppError('Category not found', 404);
+    }
+  }
+}
@@ -0,0 +1,356 @@
+import { createHash } from 'crypto';
+import { Knex } from 'knex';
+import { db } from '../config/database';
+import { cache } from '../config/redis';
+import { config } from '../config/env';
+import { toDateOnlyString, toDateParam } from '../utils/date';
+import { TransactionType } from '../models/Transaction';
+import { BudgetModel, BudgetPeriod } from '../models/Budget';
+import { ExchangeRateService } from './exchangeRateService';
+import { textArray } from './tagService';
+import {
+  ReportFilters,
+  ReportsResponse,
+  CategorySummary,
+  TagSummary,
+  MonthlyTrend,
+  BudgetProgress
+} from '../models/Report';
+
+interface CategoryTotalRow {
+  type: TransactionType;
+  category_id: string | null;
+  category_name: string | null;
+  total_amount: string;
+  transaction_count: string;
+}
+
+interface TagTotalRow {
+  type: TransactionType;
+  tag: string;
+  total_amount: string;
+  transaction_count: string;
+}
+
+interface MonthlyTotalRow {
+  month: string;
+  income: string;
+  expense: string;
+}
+
+interface BudgetSpendingRow {
+  id: string;
+  category_id: string;
+  category_name: string | null;
+  amount: string;
+  currency: string;
+  rollover_amount: string;
+  period: BudgetPeriod;
+  period_start: Date | string;
+  period_end: Date | string;
+  spent: string;
+}
+
+// Transaction amount in the report currency, for queries over transaction_summary.
+// NULL when no rate is known, so SUM leaves the transaction out.
+const CONVERTED_AMOUNT = 'convert_amount(amount, currency, ?, transaction_date)';
+
+// Sum of one transaction type in the report currency
+const SUM_OF_TYPE = `COALESCE(SUM(CASE WHEN type = ? THEN ${CONVERTED_AMOUNT} ELSE 0 END), 0)`;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export class ReportService {
+  /**
+   * Build the report for a date range. Transfers only move money between the
+   * user's own accounts, so they are left out of every total.
+   *
+   * Amounts are converted to the user's base currency at the rate of each
+   * transaction's date, and budgets are measured in their own currency.
+   * Currencies with no known rate are listed in missingRates; their
+   * transactions are counted but left out of the totals.
+   *
+   * Reports are cached per filter set under a key that includes a fingerprint
+   * of the user's transactions, budgets, categories and the stored exchange
+   * rates, so any write to them moves the report to a new key instead of
+   * needing explicit invalidation.
+   */
+  static async getReports(userId: string, filters: ReportFilters): Promise<ReportsResponse> {
+    const range = {
+      start: toDateParam(filters.startDate),
+      end: toDateParam(filters.endDate)
+    };
+    const categoryIds = [...new Set(filters.categoryIds || [])].sort();
+    const accountIds = [...new Set(filters.accountIds || [])].sort();
+    const tags = [...new Set(filters.tags || [])].sort();
+
+    const [fingerprint, currency] = await Promise.all([
+      this.dataFingerprint(userId),
+      ExchangeRateService.getBaseCurrency(userId)
+    ]);
+    const cacheKey = `reports:${userId}:${createHash('sha256')
+      .update(JSON.stringify({ fingerprint, currency, range, categoryIds, accountIds, tags }))
+      .digest('hex')}`;
+
+    const cached = await cache.getJSON<ReportsResponse>(cacheKey);
+    if (cached) return cached;
+
+    const transactions = db('transaction_summary')
+      .where('user_id', userId)
+      .whereIn('type', [TransactionType.INCOME, TransactionType.EXPENSE])
+      .whereBetween('transaction_date', [range.start, range.end]);
+
+    if (categoryIds.length > 0) transactions.whereIn('category_id', categoryIds);
+    if (accountIds.length > 0) transactions.whereIn('account_id', accountIds);
+    if (tags.length > 0) transactions.whereRaw('tags && ?', [textArray(tags)]);
+
+    const [summary, categoryBreakdown, tagTotals, monthlyTrends, missingRates, budgetProgress] = await Promise.all([
+      this.getSummary(transactions.clone(), currency),
+      this.getCategoryBreakdown(transactions.clone(), currency),
+      this.getTagTotals(transactions.clone(), currency),
+      this.getMonthlyTrends(transactions.clone(), currency, range.start, range.end),
+      this.getMissingRates(transactions.clone(), currency),
+      this.getBudgetProgress(userId, range.start, range.end, categoryIds)
+    ]);
+
+    const report: ReportsResponse = {
+      currency,
+      missingRates,
+      summary,
+      categoryBreakdown,
+      tagBreakdown: this.tagBreakdown(tagTotals, summary),
+      monthlyTrends,
+      budgetProgress
+    };
+
+    await cache.setJSON(cacheKey, report, config.CACHE_DEFAULT_TTL);
+
+    return report;
+  }
+
+  /**
+   * Income and expense totals
+   */
+  private static async getSummary(query: Knex.QueryBuilder, currency: string): Promise<ReportsResponse['summary']> {
+    const row = await query
+      .select(
+        db.raw(`${SUM_OF_TYPE} AS total_income`, [TransactionType.INCOME, currency]),
+        db.raw(`${SUM_OF_TYPE} AS total_expense`, [TransactionType.EXPENSE, currency]),
+        db.raw('COUNT(*) AS transaction_count')
+      )
+      .first();
+
+    const totalIncome = Number(row?.total_income || 0);
+    const totalExpense = Number(row?.total_expense || 0);
+
+    return {
+      totalIncome,
+      totalExpense,
+      balance: round(totalIncome - totalExpense),
+      transactionCount: parseInt(row?.transaction_count || '0', 10)
+    };
+  }
+
+  /**
+   * Totals per category, split by type, largest first
+   */
+  private static async getCategoryBreakdown(
+    query: Knex.QueryBuilder,
+    currency: string
+  ): Promise<ReportsResponse['categoryBreakdown']> {
+    const rows: CategoryTotalRow[] = await query
+      .select(
+        'type',
+        'category_id',
+        'category_name',
+        db.raw(`COALESCE(SUM(${CONVERTED_AMOUNT}), 0) AS total_amount`, [currency]),
+        db.raw('COUNT(*) AS transaction_count')
+      )
+      .groupBy('type', 'category_id', 'category_name')
+      .orderBy('total_amount', 'desc');
+
+    const breakdown = (type: TransactionType): CategorySummary[] => {
+      const ofType = rows.filter(row => row.type === type);
+      const total = ofType.reduce((sum, row) => sum + Number(row.total_amount), 0);
+
+      return ofType.map(row => ({
+        categoryId: row.category_id ?? '',
+        categoryName: row.category_name ?? 'Uncategorized',
+        totalAmount: Number(row.total_amount),
+        transactionCount: parseInt(row.transaction_count, 10),
+        percentage: BudgetModel.percentage(Number(row.total_amount), total)
+      }));
+    };
+
+    return {
+      income: breakdown(TransactionType.INCOME),
+      expense: breakdown(TransactionType.EXPENSE)
+    };
+  }
+
+  /**
+   * Totals per tag and type, largest first
+   */
+  private static async getTagTotals(query: Knex.QueryBuilder, currency: string): Promise<TagTotalRow[]> {
+    return query
+      .joinRaw('CROSS JOIN LATERAL unnest(tags) AS u(tag)')
+      .select(
+        'type',
+        'u.tag',
+        db.raw(`COALESCE(SUM(${CONVERTED_AMOUNT}), 0) AS total_amount`, [currency]),
+        db.raw('COUNT(*) AS transaction_count')
+      )
+      .groupBy('type', 'u.tag')
+      .orderBy('total_amount', 'desc')
+      .orderBy('u.tag', 'asc');
+  }
+
+  /**
+   * Tag totals split by type, as shares of the type's total in the summary
+   */
+  private static tagBreakdown(rows: TagTotalRow[], summary: ReportsResponse['summary']): ReportsResponse['tagBreakdown'] {
+    const breakdown = (type: TransactionType, total: number): TagSummary[] => rows
+      .filter(row => row.type === type)
+      .map(row => ({
+        tag: row.tag,
+        totalAmount: Number(row.total_amount),
+        transactionCount: parseInt(row.transaction_count, 10),
+        percentage: BudgetModel.percentage(Number(row.total_amount), total)
+      }));
+
+    return {
+      income: breakdown(TransactionType.INCOME, summary.totalIncome),
+      expense: breakdown(TransactionType.EXPENSE, summary.totalExpense)
+    };
+  }
+
+  /**
+   * Income and expense per calendar month, with empty months filled in so
+   * the series covers the whole range
+   */
+  private static async getMonthlyTrends(
+    query: Knex.QueryBuilder,
+    currency: string,
+    startDate: string,
+    endDate: string
+  ): Promise<MonthlyTrend[]> {
+    const rows: MonthlyTotalRow[] = await query
+      .select(
+        db.raw('TO_CHAR(transaction_date, ?) AS month', ['YYYY-MM']),
+        db.raw(`${SUM_OF_TYPE} AS income`, [TransactionType.INCOME, currency]),
+        db.raw(`${SUM_OF_TYPE} AS expense`, [TransactionType.EXPENSE, currency])
+      )
+      .groupBy('month')
+      .orderBy('month', 'asc');
+
+    const totalsByMonth = new Map(rows.map(row => [row.month, row]));
+    const trends: MonthlyTrend[] = [];
+
+    let [year, month] = startDate.split('-').map(Number) as [number, number];
+    const last = endDate.slice(0, 7);
+
+    for (;;) {
+      const key = `${year}-${String(month).padStart(2, '0')}`;
+      if (key > last) break;
+
+      const totals = totalsByMonth.get(key);
+      const income = Number(totals?.income || 0);
+      const expense = Number(totals?.expense || 0);
+      trends.push({ month: key, income, expense, balance: round(income - expense) });
+
+      month++;
+      if (month > 12) {
+        month = 1;
+        year++;
+      }
+    }
+
+    return trends;
+  }
+
+  /**
+   * Currencies of transactions in the range that cannot be converted to the
+   * report currency for lack of a rate
+   */
+  private static async getMissingRates(query: Knex.QueryBuilder, currency: string): Promise<string[]> {
+    const rows: Array<{ currency: string }> = await query
+      .distinct('currency')
+      .whereRaw('get_exchange_rate(currency, ?, transaction_date) IS NULL', [currency])
+      .orderBy('currency', 'asc');
+
+    return rows.map(row => row.currency);
+  }
+
+  /**
+   * Budgets whose period overlaps the range, with spending over their own
+   * period in the budget's currency from get_category_spending
+   */
+  private static async getBudgetProgress(
+    userId: string,
+    startDate: string,
+    endDate: string,
+    categoryIds: string[]
+  ): Promise<BudgetProgress[]> {
+    const query = db('budgets as b')
+      .leftJoin('categories as c', 'c.id', 'b.category_id')
+      .where('b.user_id', userId)
+      .where('b.is_active', true)
+      .where('b.period_start', '<=', endDate)
+      .where('b.period_end', '>=', startDate)
+      .select(
+        'b.id',
+        'b.category_id',
+        'c.name as category_name',
+        'b.amount',
+        'b.currency',
+        'b.rollover_amount',
+        'b.period',
+        'b.period_start',
+        'b.period_end',
+        db.raw('get_category_spending(b.user_id, b.category_id, b.period_start, b.period_end, b.currency) AS spent')
+      )
+      .orderBy('b.period_start', 'asc')
+      .orderBy('c.name', 'asc');
+
+    if (categoryIds.length > 0) query.whereIn('b.category_id', categoryIds);
+
+    const rows: BudgetSpendingRow[] = await query;
+
+    return rows.map(row => {
+      const budgetAmount = BudgetModel.effectiveAmount(row);
+      const spent = Number(row.spent);
+
+      return {
+        budgetId: row.id,
+        categoryId: row.category_id,
+        categoryName: row.category_name ?? '',
+        currency: row.currency,
+        budgetAmount,
+        spentAmount: spent,
+        remainingAmount: round(budgetAmount - spent),
+        percentage: BudgetModel.percentage(spent, budgetAmount),
+        period: row.period,
+        startDate: toDateOnlyString(row.period_start)!,
+        endDate: toDateOnlyString(row.period_end)!
+      };
+    });
+  }
+
+  /**
+   * Row count and latest change of every table a report reads from. Deletes
+   * lower a count and inserts or updates raise a timestamp, so the value
+   * changes whenever a cached report could be stale.
+   */
+  private static async dataFingerprint(userId: string): Promise<string> {
+    const row = await db
+      .select(
+        db.raw('(SELECT ROW(COUNT(*), MAX(updated_at))::text FROM transactions WHERE user_id = ?) AS transactions', [userId]),
+        db.raw('(SELECT ROW(COUNT(*), MAX(updated_at))::text FROM budgets WHERE user_id = ?) AS budgets', [userId]),
+        db.raw('(SELECT ROW(COUNT(*), MAX(updated_at))::text FROM categories WHERE user_id = ? OR is_system = true) AS categories', [userId]),
+        db.raw('(SELECT ROW(COUNT(*), MAX(updated_at))::text FROM exchange_rates) AS exchange_rates')
+      )
+      .first();
+
+    return `${row?.transactions}|${row?.budgets}|${row?.categories}|${row?.exchange_rates}`;
+  }
+}
@@ -0,0 +1,205 @@
+import { randomUUID } from 'crypto';
+import { db } from '../config/database';
+import { logger } from '../middleware/logging';
+import { AppError } from '../middleware/errorHandler';
+import { createAuditLog, AuditEventType, AuditSeverity } from '../middleware/auditLog';
+import { describeUserAgent } from '../utils/userAgent';
+import { JwtService, TokenPair, RefreshTokenReuseError } from './jwtService';
+import { EmailService } from './emailService';
+import { Session, SessionDevice, SessionModel, SessionResponse } from '../models/Session';
+
+// last_seen_at is only written once a minute per session, not on every request
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+export class SessionService {
+  /**
+   * Sign a user in on a device: record the session and issue its tokens.
+   * A sign-in that passed a second factor counts as a fresh step-up.
+   */
+  static async startSession(
+    userId: string,
+    email: string,
+    device: SessionDevice,
+    options: { twoFactorVerified?: boolean } = {}
+  ): Promise<TokenPair> {
+    const sessionId = randomUUID();
+    const tokens = await JwtService.generateTokenPair(userId, email, sessionId);
+
+    await db('user_sessions').insert({
+      id: sessionId,
+      user_id: userId,
+      device_name: (device.deviceName || describeUserAgent(device.userAgent)).slice(0, 100),
+      user_agent: device.userAgent?.slice(0, 500) ?? null,
+      ip_address: device.ipAddress,
+      expires_at: tokens.refreshTokenExpiry,
+      ...(options.twoFactorVerified && { two_factor_verified_at: db.fn.now() })
+    });
+
+    logger.info('Session started', { userId, sessionId });
+
+    return tokens;
+  }
+
+  /**
+   * The user's active sessions, most recently used first
+   */
+  static async listSessions(userId: string, currentSessionId?: string): Promise<SessionResponse[]> {
+    const sessions: Session[] = await db('user_sessions')
+      .where('user_id', userId)
+      .whereNull('revoked_at')
+      .where('expires_at', '>', db.fn.now())
+      .orderBy('last_seen_at', 'desc');
+
+    return sessions.map(session => SessionModel.toResponse(session, currentSessionId));
+  }
+
+  /**
+   * Check that a session is still active and note that it was seen.
+   * Called for every authenticated request.
+   */
+  static async touchSession(userId: string, sessionId: string, ipAddress?: string): Promise<void> {
+    const session: Pick<Session, 'id' | 'last_seen_at'> | undefined = await db('user_sessions')
+      .select('id', 'last_seen_at')
+      .where({ id: sessionId, user_id: userId })
+      .whereNull('revoked_at')
+      .where('expires_at', '>', db.fn.now())
+      .first();
+
+    if (!session) {
+      throw new AppError('Session has expired or been revoked', 401);
+    }
+
+    if (Date.now() - new Date(session.last_seen_at).getTime() >= LAST_SEEN_INTERVAL_MS) {
+      await db('user_sessions')
+        .where('id', sessionId)
+        .update(ipAddress ? { last_seen_at: db.fn.now(), ip_address: ipAddress } : { last_seen_at: db.fn.now() });
+    }
+  }
+
+  /**
+   * Exchange a session's refresh token for a new token pair and extend the
+   * session. A refresh token that was already used revokes the session it
+   * belongs to, so a stolen token stops working for the thief and the owner.
+   */
+  static async refreshSession(
+    refreshToken: string,
+    client: Pick<SessionDevice, 'userAgent' | 'ipAddress'>
+  ): Promise<TokenPair> {
+    try {
+      const { userId, sessionId, ...tokens } = await JwtService.refreshAccessToken(refreshToken);
+
+      const updated = await db('user_sessions')
+        .where('id', sessionId)
+        .whereNull('revoked_at')
+        .update({
+          expires_at: tokens.refreshTokenExpiry,
+          last_seen_at: db.fn.now(),
+          ...(client.ipAddress && { ip_address: client.ipAddress })
+        });
+
+      if (updated === 0) {
+        await JwtService.revokeSessionTokens(userId, sessionId);
+        throw new AppError('Session has expired or been revoked', 401);
+      }
+
+      return tokens;
+    } catch (error) {
+      if (error instanceof RefreshTokenReuseError) {
+        await this.revokeReusedSession(error.userId, error.sessionId, client);
+        throw new AppError('Refresh token has been revoked', 401);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Sign one device out: mark its session revoked and revoke its tokens
+   */
+  static async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const revoked = await db('user_sessions')
+      .where({ id: sessionId, user_id: userId })
+      .whereNull('revoked_at')
+      .update({ revoked_at: db.fn.now() });
+
+    if (revoked === 0) {
+      throw new AppError('Session not found', 404);
+    }
+
+    await JwtService.revokeSessionTokens(userId, sessionId);
+
+    logger.info('Session revoked', { userId, sessionId });
+  }
+
+  /**
+   * Sign the user out on every device
+   */
+  static async revokeAllSessions(userId: string): Promise<void> {
+    await db('user_sessions')
+      .where('user_id', userId)
+      .whereNull('revoked_at')
+      .update({ revoked_at: db.fn.now() });
+
+    await JwtService.revokeAllUserSessions(userId);
+  }
+
+  /**
+   * Revoke a session whose refresh token was reused, then record a
+   * SUSPICIOUS_ACTIVITY audit event and alert the user by email
+   */
+  private static async revokeReusedSession(
+    userId: string,
+    sessionId: string,
+    client: Pick<SessionDevice, 'userAgent' | 'ipAddress'>
+  ): Promise<void> {
+    await db('user_sessions')
+      .where({ id: sessionId, user_id: userId })
+      .whereNull('revoked_at')
+      .update({ revoked_at: db.fn.now() });
+
+    await JwtService.revokeSessionTokens(userId, sessionId);
+
+    logger.warn('Refresh token reuse detected, session revoked', {
+      userId,
+      sessionId,
+      ipAddress: client.ipAddress
+    });
+
+    const user: { email: string; first_name: string } | undefined = await db('users')
+      .where('id', userId)
+      .select('email', 'first_name')
+      .first();
+
+    await createAuditLog({
+      eventType: AuditEventType.SUSPICIOUS_ACTIVITY,
+      severity: AuditSeverity.HIGH,
+      userId,
+      ...(user && { userEmail: user.email }),
+      ...(client.ipAddress && { ipAddress: client.ipAddress }),
+      ...(client.userAgent && { userAgent: client.userAgent }),
+      method: 'POST',
+      endpoint: '/api/v1/auth/refresh',
+      resourceType: 'session',
+      resourceId: sessionId,
+      sessionId,
+      metadata: { reason: 'refresh_token_reuse' },
+      success: false,
+      errorMessage: 'Refresh token reuse detected'
+    });
+
+    if (!user) {
+      return;
+    }
+
+    try {
+      await EmailService.sendSecurityAlert(user.email, user.first_name, 'Suspicious Session Activity - Device Signed Out', {
+        ip: client.ipAddress,
+        userAgent: client.userAgent
+      });
+    } catch (error) {
+      logger.error('Failed to send refresh token reuse alert', {
+        error: error instanceof Error ? error.message : String(error),
+        userId
+      });
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { Knex } from 'knex';
+import { db } from '../config/database';
+import { logger } from '../middleware/logging';
+import { AppError } from '../middleware/errorHandler';
+import { toDateOnlyString } from '../utils/date';
+import { TagUsage, TagFilters, TagChangeResult } from '../models/Tag';
+
+interface TagUsageRow {
+  name: string;
+  transaction_count: string;
+  last_used: Date | string | null;
+}
+
+// Tags are rewritten in both, so recurring rules keep creating the new names
+const TAGGED_TABLES = ['transactions', 'recurring_rules'] as const;
+
+/**
+ * The row's tags with every source replaced by the target, keeping the
+ * first position of a tag that would now appear twice
+ */
+const MERGED_TAGS = `(
+  SELECT array_agg(merged.tag ORDER BY merged.position)
+  FROM (
+    SELECT CASE WHEN u.tag = ANY(?) THEN ? ELSE u.tag END AS tag, MIN(u.position) AS position
+    FROM unnest(tags) WITH ORDINALITY AS u(tag, position)
+    GROUP BY 1
+  ) merged
+)`;
+
+/**
+ * A text[] literal of bound values; tags && / @> such an array use the GIN index on tags
+ */
+export const textArray = (values: string[]): Knex.Raw =>
+  db.raw(`ARRAY[${values.map(() => '?').join(', ')}]::text[]`, values);
+
+export class TagService {
+  /**
+   * The tags on a user's transactions with how many transactions carry each
+   */
+  static async getTags(userId: string, filters: TagFilters): Promise<TagUsage[]> {
+    const query = db('transactions as t')
+      .joinRaw('CROSS JOIN LATERAL unnest(t.tags) AS u(tag)')
+      .where('t.user_id', userId)
+      .select(
+        'u.tag as name',
+        db.raw('COUNT(DISTINCT t.id) AS transaction_count'),
+        db.raw('MAX(t.transaction_date) AS last_used')
+      )
+      .groupBy('u.tag');
+
+    if (filters.search) {
+      query.whereRaw('strpos(LOWER(u.tag), LOWER(?)) > 0', [filters.search]);
+    }
+    if (filters.sortBy === 'count') {
+      query.orderBy('transaction_count', 'desc');
+    }
+
+    const rows: TagUsageRow[] = await query.orderBy('name', 'asc');
+
+    return rows.map(row => ({
+      name: row.name,
+      transactionCount: parseInt(row.transaction_count, 10),
+      lastUsed: toDateOnlyString(row.last_used)
+    }));
+  }
+
+  /**
+   * Rename a tag everywhere; renaming to a tag that is already in use
+   * merges the two
+   */
+  static async renameTag(userId: string, name: string, newName: string): Promise<TagChangeResult> {
+    if (name === newName) {
+      throw new AppError('The tag already has this name', 400);
+    }
+
+    return this.mergeTags(userId, [name], newName);
+  }
+
+  /**
+   * Replace the source tags with the target on every transaction and
+   * recurring rule, in one transaction
+   */
+  static async mergeTags(userId: string, sources: string[], target: string): Promise<TagChangeResult> {
+    const merged = [...new Set(sources)].filter(source => source !== target);
+
+    if (merged.length === 0) {
+      throw new AppError('A tag cannot be merged into itself', 400);
+    }
+
+    const [transactionsUpdated, recurringRulesUpdated] = await this.rewriteTags(
+      userId,
+      merged,
+      db.raw(MERGED_TAGS, [textArray(merged), target])
+    );
+
+    logger.info('Tags merged', { userId, sources: merged, target, transactionsUpdated, recurringRulesUpdated });
+
+    return { tag: target, transactionsUpdated, recurringRulesUpdated };
+  }
+
+  /**
+   * Remove a tag from every transaction and recurring rule
+   */
+  static async deleteTag(userId: string, name: string): Promise<TagChangeResult> {
+    const [transactionsUpdated, recurringRulesUpdated] = await this.rewriteTags(
+      userId,
+      [name],
+      db.raw('NULLIF(array_remove(tags, ?), ARRAY[]::text[])', [name])
+    );
+
+    logger.info('Tag deleted', { userId, tag: name, transactionsUpdated, recurringRulesUpdated });
+
+    return { tag: null, transactionsUpdated, recurringRulesUpdated };
+  }
+
+  /**
+   * Set the tags of the user's transactions and recurring rules that carry
+   * any of the given tags, atomically. Returns the rows updated per table.
+   */
+  private static async rewriteTags(userId: string, tags: string[], rewritten: Knex.Raw): Promise<[number, number]> {
+    return db.transaction(async (trx) => {
+      const updated: number[] = [];
+      for (const table of TAGGED_TABLES) {
+        updated.push(await trx(table)
+          .where('user_id', userId)
+          .whereRaw('tags && ?', [textArray(tags)])
+          .update({ tags: rewritten }));
+      }
+
+      if (updated.every(count => count === 0)) {
+        throw new AppError('Tag not found', 404);
+      }
+
+      return updated as [number, number];
+    });
+  }
+}
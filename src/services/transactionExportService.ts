@@ -0,0 +1,108 @@
+import { Writable } from 'stream';
+import { logger } from '../middleware/logging';
+import { createAuditLog, AuditEventType } from '../middleware/auditLog';
+import { toCsvRow } from '../utils/csv';
+import { writeChunk } from '../utils/stream';
+import { writeXlsx, XlsxCell } from '../utils/xlsx';
+import {
+  TransactionResponse,
+  TransactionExportFilters,
+  TransactionExportFormat
+} from '../models/Transaction';
+import { TransactionService } from './transactionService';
+
+interface ExportColumn {
+  header: string;
+  // Dates become date cells in XLSX and stay YYYY-MM-DD in CSV
+  date?: boolean;
+  value: (transaction: TransactionResponse) => string | number | null;
+}
+
+export const TRANSACTION_EXPORT_CONTENT_TYPES: Record<TransactionExportFormat, string> = {
+  [TransactionExportFormat.CSV]: 'text/csv; charset=utf-8',
+  [TransactionExportFormat.XLSX]: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'Date', date: true, value: t => t.date },
+  { header: 'Type', value: t => t.type },
+  { header: 'Amount', value: t => t.amount },
+  { header: 'Currency', value: t => t.currency },
+  { header: 'Description', value: t => t.description },
+  { header: 'Category', value: t => t.categoryName },
+  { header: 'Account', value: t => t.accountName },
+  { header: 'Merchant', value: t => t.merchantName },
+  { header: 'Reference', value: t => t.referenceNumber },
+  { header: 'Notes', value: t => t.notes },
+  { header: 'Tags', value: t => t.tags.join('; ') },
+  { header: 'Transfer Direction', value: t => t.transferDirection },
+  { header: 'ID', value: t => t.id }
+];
+
+const HEADERS = EXPORT_COLUMNS.map(column => column.header);
+
+const toXlsxCell = (column: ExportColumn, transaction: TransactionResponse): XlsxCell => {
+  const value = column.value(transaction);
+
+  return column.date && typeof value === 'string'
+    ? new Date(`${value}T00:00:00Z`)
+    : value;
+};
+
+// Excel only detects UTF-8 in CSV files that start with a byte order mark
+const UTF8_BOM = '\uFEFF';
+
+export class TransactionExportService {
+  /**
+   * Stream every transaction matching the filters to `out` as CSV or XLSX.
+   * Rows are written page by page as they are read, so memory use does not
+   * grow with the size of the history. Returns the number of rows written.
+   */
+  static async exportTransactions(
+    userId: string,
+    filters: TransactionExportFilters,
+    out: Writable
+  ): Promise<number> {
+    const { format, ...queryFilters } = filters;
+    let rowCount = 0;
+
+    const batches = async function* (): AsyncGenerator<TransactionResponse[]> {
+      for await (const batch of TransactionService.streamTransactions(userId, queryFilters)) {
+        rowCount += batch.length;
+        yield batch;
+      }
+    };
+
+    if (format === TransactionExportFormat.XLSX) {
+      await writeXlsx(out, 'Transactions', HEADERS, (async function* () {
+        for await (const batch of batches()) {
+          yield batch.map(transaction => EXPORT_COLUMNS.map(column => toXlsxCell(column, transaction)));
+        }
+      })());
+    } else {
+      await writeChunk(out, UTF8_BOM + toCsvRow(HEADERS));
+
+      for await (const batch of batches()) {
+        await writeChunk(out, batch
+          .map(transaction => toCsvRow(EXPORT_COLUMNS.map(column => column.value(transaction))))
+          .join(''));
+      }
+    }
+
+    logger.info('Transactions exported', { userId, format, rowCount });
+
+    await createAuditLog({
+      eventType: AuditEventType.TRANSACTION_EXPORTED,
+      userId,
+      resourceType: 'transaction',
+      metadata: { format, rowCount, filters: queryFilters }
+    }).catch(error => {
+      logger.error('Failed to record transaction export audit event', {
+        error: error instanceof Error ? error.message : String(error),
+        userId
+      });
+    });
+
+    return rowCount;
+  }
+}
@@ -0,0 +1,183 @@
+import { Knex } from 'knex';
+import { db } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { textArray } from './tagService';
+import {
+  TransactionModel,
+  TransactionHighlights,
+  TransactionSearchParams,
+  TransactionSearchResult,
+  TransactionWithRelations
+} from '../models/Transaction';
+import {
+  ParsedSearchQuery,
+  parseSearchQuery,
+  highlightSegments,
+  HIGHLIGHT_START,
+  HIGHLIGHT_STOP
+} from '../utils/searchQuery';
+
+export interface TransactionSearchResults {
+  transactions: TransactionSearchResult[];
+  total: number;
+}
+
+type SearchRow = TransactionWithRelations & {
+  description_headline?: string | null;
+  merchant_headline?: string | null;
+  notes_headline?: string | null;
+};
+
+// Same expression as idx_transactions_search, so the index is used
+const DOCUMENT = 'transaction_search_document(t.description, t.notes, t.merchant_name, t.tags)';
+
+const MARKS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}`;
+const WHOLE_FIELD = `${MARKS}, HighlightAll=true`;
+const EXCERPT = `${MARKS}, MaxFragments=2, MaxWords=20, MinWords=5, FragmentDelimiter=" … "`;
+
+// A column with the search matches marked, binding the tsquery and the headline options
+const headline = (column: string, alias: string): string =>
+  `ts_headline('simple', ${column}, to_tsquery('simple', ?), ?) AS ${alias}`;
+
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+const placeholders = (values: unknown[]): string => values.map(() => '?').join(', ');
+
+export class TransactionSearchService {
+  /**
+   * Search a user's transactions. Results with search words come with the
+   * matched parts of their description, merchant and notes highlighted.
+   */
+  static async searchTransactions(userId: string, params: TransactionSearchParams): Promise<TransactionSearchResults> {
+    const search = this.parse(params.q);
+
+    const query = db('transactions as t')
+      .leftJoin('categories as c', 'c.id', 't.category_id')
+      .leftJoin('accounts as a', 'a.id', 't.account_id')
+      .where('t.user_id', userId);
+    this.applySearch(query, userId, search);
+
+    const countResult = await query
+      .clone()
+      .count<{ count: string }[]>('t.id as count')
+      .first();
+
+    query.select('t.*', 'c.name as category_name', 'a.name as account_name');
+
+    if (search.text) {
+      query.select(
+        db.raw(`ts_rank(${DOCUMENT}, to_tsquery('simple', ?)) AS rank`, [search.text]),
+        db.raw(headline('t.description', 'description_headline'), [search.text, WHOLE_FIELD]),
+        db.raw(headline('t.merchant_name', 'merchant_headline'), [search.text, WHOLE_FIELD]),
+        db.raw(headline('t.notes', 'notes_headline'), [search.text, EXCERPT])
+      );
+    }
+
+    // Relevance is always best first; without search words it falls back to date
+    if (params.sortBy === 'relevance' && search.text) {
+      query.orderBy('rank', 'desc').orderBy('t.transaction_date', 'desc');
+    } else if (params.sortBy === 'amount') {
+      query.orderBy('t.amount', params.sortOrder).orderBy('t.transaction_date', 'desc');
+    } else {
+      query.orderBy('t.transaction_date', params.sortOrder);
+    }
+
+    const rows: SearchRow[] = await query
+      .orderBy('t.id', 'desc')
+      .limit(params.limit)
+      .offset((params.page - 1) * params.limit);
+
+    return {
+      transactions: rows.map(row => ({ ...TransactionModel.toResponse(row), highlights: this.highlights(row) })),
+      total: parseInt(countResult?.count || '0', 10)
+    };
+  }
+
+  /**
+   * Parse a search query, turning syntax mistakes into client errors
+   */
+  private static parse(q: string): ParsedSearchQuery {
+    try {
+      return parseSearchQuery(q);
+    } catch (error) {
+      throw new AppError(error instanceof Error ? error.message : 'Invalid search query', 400);
+    }
+  }
+
+  /**
+   * Restrict a transaction query to the search words and filters. Every
+   * value is bound; operators come from the parser's fixed set.
+   */
+  private static applySearch(query: Knex.QueryBuilder, userId: string, search: ParsedSearchQuery): void {
+    if (search.text) {
+      query.whereRaw(`${DOCUMENT} @@ to_tsquery('simple', ?)`, [search.text]);
+    }
+
+    for (const { operator, value } of search.amounts) {
+      query.where('t.amount', operator, value);
+    }
+    for (const { operator, value } of search.dates) {
+      query.where('t.transaction_date', operator, value);
+    }
+    if (search.types.length > 0) {
+      query.whereIn('t.type', search.types);
+    }
+
+    if (search.tags.length > 0) {
+      query.whereRaw('t.tags @> ?', [textArray(search.tags)]);
+    }
+
+    if (search.categories.length > 0) {
+      query.whereIn('t.category_id', this.categorySubtrees(userId, search.categories));
+    }
+    if (search.accounts.length > 0) {
+      query.whereRaw(`LOWER(a.name) IN (${placeholders(search.accounts)})`, search.accounts.map(name => name.toLowerCase()));
+    }
+    if (search.merchants.length > 0) {
+      query.where(builder => {
+        search.merchants.forEach(merchant => builder.orWhereILike('t.merchant_name', `%${escapeLike(merchant)}%`));
+      });
+    }
+  }
+
+  /**
+   * Ids of the categories with one of the names and all of their subcategories
+   */
+  private static categorySubtrees(userId: string, names: string[]): Knex.QueryBuilder {
+    return db
+      .withRecursive('matched', (query) => {
+        query
+          .select('c.id')
+          .from('categories as c')
+          .whereRaw(`LOWER(c.name) IN (${placeholders(names)})`, names.map(name => name.toLowerCase()))
+          .andWhere(builder => {
+            builder.where('c.user_id', userId).orWhere('c.is_system', true);
+          })
+          .union((recursive) => {
+            recursive
+              .select('c.id')
+              .from('categories as c')
+              .join('matched as m', 'c.parent_id', 'm.id');
+          });
+      })
+      .select('id')
+      .from('matched');
+  }
+
+  /**
+   * The fields of a result that matched the search words
+   */
+  private static highlights(row: SearchRow): TransactionHighlights {
+    const highlights: TransactionHighlights = {};
+
+    const description = highlightSegments(row.description_headline ?? null);
+    const merchantName = highlightSegments(row.merchant_headline ?? null);
+    const notes = highlightSegments(row.notes_headline ?? null);
+
+    if (description) highlights.description = description;
+    if (merchantName) highlights.merchantName = merchantName;
+    if (notes) highlights.notes = notes;
+
+    return highlights;
+  }
+}
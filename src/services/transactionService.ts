@@ -0,0 +1,496 @@
+import { Knex } from 'knex';
+import { db } from '../config/database';
+import { logger } from '../middleware/logging';
+import { AppError } from '../middleware/errorHandler';
+import { toDateOnlyString, toDateParam } from '../utils/date';
+import { AccountBalanceService, BalanceChange } from './accountBalanceService';
+import { BudgetService } from './budgetService';
+import { BudgetAlertService, TriggeredBudgetAlert } from './budgetAlertService';
+import { ExchangeRateService } from './exchangeRateService';
+import { ReceiptService } from './receiptService';
+import { CategorizationRuleService } from './categorizationRuleService';
+import { textArray } from './tagService';
+import { CategorizationRuleSuggestion } from '../models/CategorizationRule';
+import {
+  Transaction,
+  TransactionWithRelations,
+  TransactionResponse,
+  CreateTransactionData,
+  UpdateTransactionData,
+  TransactionFilters,
+  TransactionModel,
+  TransactionType,
+  TransactionSummary,
+  TransactionSummaryFilters,
+  TransactionExportFilters,
+  TRANSACTION_SORT_FIELDS
+} from '../models/Transaction';
+
+/**
+ * Updated transaction, with a categorization rule to offer when its
+ * category was changed by hand
+ */
+export type UpdatedTransactionResponse = TransactionResponse & {
+  ruleSuggestion?: CategorizationRuleSuggestion;
+};
+
+export interface TransactionListResult {
+  transactions: TransactionResponse[];
+  total: number;
+}
+
+/**
+ * Row written by insertTransaction plus the effects to report after commit
+ */
+export interface TransactionWriteResult {
+  transaction: Transaction;
+  balanceChanges: BalanceChange[];
+  budgetAlerts: TriggeredBudgetAlert[];
+}
+
+// Rows read per page by streamTransactions
+const STREAM_BATCH_SIZE = 1000;
+
+export class TransactionService {
+  /**
+   * List a user's transactions with filtering, sorting and pagination
+   */
+  static async getTransactions(userId: string, filters: TransactionFilters): Promise<TransactionListResult> {
+    const query = this.applyFilters(this.baseQuery(db, userId), filters);
+
+    const countResult = await query
+      .clone()
+      .clearSelect()
+      .clearOrder()
+      .count<{ count: string }[]>('t.id as count')
+      .first();
+
+    const sortColumn = TRANSACTION_SORT_FIELDS[filters.sortBy || 'date'];
+    const rows: TransactionWithRelations[] = await query
+      .orderBy(`t.${sortColumn}`, filters.sortOrder)
+      .orderBy('t.created_at', filters.sortOrder)
+      .orderBy('t.id', filters.sortOrder)
+      .limit(filters.limit)
+      .offset((filters.page - 1) * filters.limit);
+
+    return {
+      transactions: rows.map(row => TransactionModel.toResponse(row)),
+      total: parseInt(countResult?.count || '0', 10)
+    };
+  }
+
+  /**
+   * Page through every transaction matching the list filters in date order.
+   * Pages are read with a keyset cursor on (transaction_date, id) instead of
+   * OFFSET, so each page costs the same however deep into the history it is.
+   */
+  static async *streamTransactions(
+    userId: string,
+    filters: Omit<TransactionExportFilters, 'format'>,
+    batchSize: number = STREAM_BATCH_SIZE
+  ): AsyncGenerator<TransactionResponse[]> {
+    const direction = filters.sortOrder === 'desc' ? '<' : '>';
+    let cursor: { date: string; id: string } | null = null;
+
+    for (;;) {
+      const query = this.applyFilters(this.baseQuery(db, userId), filters);
+      if (cursor) {
+        query.whereRaw(`(t.transaction_date, t.id) ${direction} (?, ?)`, [cursor.date, cursor.id]);
+      }
+
+      const rows: TransactionWithRelations[] = await query
+        .orderBy('t.transaction_date', filters.sortOrder)
+        .orderBy('t.id', filters.sortOrder)
+        .limit(batchSize);
+
+      if (rows.length > 0) {
+        yield rows.map(row => TransactionModel.toResponse(row));
+      }
+
+      if (rows.length < batchSize) return;
+
+      const last = rows[rows.length - 1]!;
+      cursor = { date: toDateOnlyString(last.transaction_date)!, id: last.id };
+    }
+  }
+
+  /**
+   * Income and expense totals for a period, in the user's base currency.
+   * Transfers only move money between the user's own accounts, so they are excluded.
+   */
+  static async getSummary(userId: string, filters: TransactionSummaryFilters = {}): Promise<TransactionSummary> {
+    const currency = await ExchangeRateService.getBaseCurrency(userId);
+    const sumOfType = 'COALESCE(SUM(CASE WHEN type = ? THEN convert_amount(amount, currency, ?, transaction_date) ELSE 0 END), 0)';
+
+    const query = db('transaction_summary')
+      .where('user_id', userId)
+      .whereNot('type', TransactionType.TRANSFER)
+      .select(
+        db.raw(`${sumOfType} AS total_income`, [TransactionType.INCOME, currency]),
+        db.raw(`${sumOfType} AS total_expense`, [TransactionType.EXPENSE, currency]),
+        db.raw('COUNT(*) AS transaction_count')
+      );
+
+    const dateFrom = filters.dateFrom || filters.startDate;
+    const dateTo = filters.dateTo || filters.endDate;
+
+    if (dateFrom) query.where('transaction_date', '>=', toDateParam(dateFrom));
+    if (dateTo) query.where('transaction_date', '<=', toDateParam(dateTo));
+    if (filters.accountId) query.where('account_id', filters.accountId);
+    if (filters.categoryId) query.where('category_id', filters.categoryId);
+
+    const row = await query.first();
+
+    const totalIncome = Number(row?.total_income || 0);
+    const totalExpense = Number(row?.total_expense || 0);
+
+    return {
+      currency,
+      totalIncome,
+      totalExpense,
+      balance: Math.round((totalIncome - totalExpense) * 100) / 100,
+      transactionCount: parseInt(row?.transaction_count || '0', 10)
+    };
+  }
+
+  /**
+   * Get a single transaction owned by the user
+   */
+  static async getTransactionById(userId: string, transactionId: string): Promise<TransactionResponse> {
+    const row: TransactionWithRelations | undefined = await this.baseQuery(db, userId)
+      .where('t.id', transactionId)
+      .first();
+
+    if (!row) {
+      throw new AppError('Transaction not found', 404);
+    }
+
+    return TransactionModel.toResponse(row);
+  }
+
+  /**
+   * Create an income or expense transaction
+   */
+  static async createTransaction(userId: string, data: CreateTransactionData): Promise<TransactionResponse> {
+    const { transaction, balanceChanges, budgetAlerts } = await db.transaction(
+      trx => this.insertTransaction(trx, userId, data)
+    );
+
+    logger.info('Transaction created', { userId, transactionId: transaction.id, type: data.type });
+
+    await AccountBalanceService.recordBalanceChanges(userId, balanceChanges, {
+      transactionId: transaction.id,
+      reason: 'transaction.created'
+    });
+    await BudgetAlertService.deliverAlerts(budgetAlerts);
+
+    return this.getTransactionById(userId, transaction.id);
+  }
+
+  /**
+   * Insert an income or expense transaction inside the caller's transaction,
+   * applying its balance and budget effects. The caller records the balance
+   * changes and delivers the budget alerts once the transaction commits.
+   */
+  static async insertTransaction(
+    trx: Knex.Transaction,
+    userId: string,
+    data: CreateTransactionData,
+    recurringGroupId?: string
+  ): Promise<TransactionWriteResult> {
+    const account = await this.findActiveAccount(trx, userId, data.accountId);
+    const categoryId = data.categoryId ?? await this.ruleCategory(trx, userId, data);
+    await this.assertCategoryAccessible(trx, userId, categoryId);
+
+    const draft = data.receiptId ? await ReceiptService.claimDraft(trx, userId, data.receiptId) : null;
+
+    const [created] = await trx('transactions')
+      .insert({
+        user_id: userId,
+        account_id: account.id,
+        category_id: categoryId,
+        type: data.type,
+        amount: data.amount,
+        currency: account.currency,
+        description: data.description,
+        transaction_date: toDateParam(data.date),
+        tags: data.tags || null,
+        receipt_url: data.receiptUrl || null,
+        notes: data.notes || null,
+        merchant_name: data.merchantName || null,
+        reference_number: data.referenceNumber || null,
+        is_recurring: recurringGroupId !== undefined,
+        recurring_group_id: recurringGroupId ?? null,
+        // What was read from the receipt, kept next to what the user confirmed
+        metadata: draft?.extraction ? { receiptExtraction: { receiptId: draft.id, ...draft.extraction } } : null
+      })
+      .returning<Transaction[]>('*');
+
+    if (draft) {
+      await ReceiptService.attachDraft(trx, draft.id, created!.id);
+    }
+
+    const balanceChanges = await AccountBalanceService.applyTransactionChange(trx, null, created!);
+    const budgetIds = await BudgetService.syncSpentAmounts(trx, userId, [created!]);
+    const budgetAlerts = await BudgetAlertService.checkBudgets(trx, budgetIds);
+
+    return { transaction: created!, balanceChanges, budgetAlerts };
+  }
+
+  /**
+   * Update an existing transaction
+   */
+  static async updateTransaction(
+    userId: string,
+    transactionId: string,
+    data: UpdateTransactionData
+  ): Promise<UpdatedTransactionResponse> {
+    const { updated, balanceChanges, budgetAlerts } = await db.transaction(async (trx): Promise<{
+      updated: Transaction | null;
+      balanceChanges: BalanceChange[];
+      budgetAlerts: TriggeredBudgetAlert[];
+    }> => {
+      const existing = await this.findOwnedTransaction(trx, userId, transactionId);
+
+      if (TransactionModel.isTransfer(existing)) {
+        throw new AppError('Transfers must be updated through /transactions/transfers/:id', 400);
+      }
+
+      const updates: Record<string, unknown> = {};
+
+      if (data.accountId !== undefined && data.accountId !== existing.account_id) {
+        const account = await this.findActiveAccount(trx, userId, data.accountId);
+        updates.account_id = account.id;
+        updates.currency = account.currency;
+      }
+
+      if (data.categoryId !== undefined && data.categoryId !== existing.category_id) {
+        await this.assertCategoryAccessible(trx, userId, data.categoryId);
+        updates.category_id = data.categoryId;
+      }
+
+      if (data.amount !== undefined) updates.amount = data.amount;
+      if (data.description !== undefined) updates.description = data.description;
+      if (data.type !== undefined) updates.type = data.type;
+      if (data.date !== undefined) updates.transaction_date = toDateParam(data.date);
+      if (data.tags !== undefined) updates.tags = data.tags;
+      if (data.receiptUrl !== undefined) updates.receipt_url = data.receiptUrl;
+      if (data.notes !== undefined) updates.notes = data.notes;
+      if (data.merchantName !== undefined) updates.merchant_name = data.merchantName;
+      if (data.referenceNumber !== undefined) updates.reference_number = data.referenceNumber;
+
+      if (Object.keys(updates).length === 0) {
+        return { updated: null, balanceChanges: [], budgetAlerts: [] };
+      }
+
+      const [updated] = await trx('transactions')
+        .where({ id: transactionId, user_id: userId })
+        .update(updates)
+        .returning<Transaction[]>('*');
+
+      const changes = await AccountBalanceService.applyTransactionChange(trx, existing, updated!);
+      const budgetIds = await BudgetService.syncSpentAmounts(trx, userId, [existing, updated!]);
+
+      return {
+        updated: updates.category_id !== undefined ? updated! : null,
+        balanceChanges: changes,
+        budgetAlerts: await BudgetAlertService.checkBudgets(trx, budgetIds)
+      };
+    });
+
+    logger.info('Transaction updated', { userId, transactionId });
+
+    await AccountBalanceService.recordBalanceChanges(userId, balanceChanges, {
+      transactionId,
+      reason: 'transaction.updated'
+    });
+    await BudgetAlertService.deliverAlerts(budgetAlerts);
+
+    const transaction = await this.getTransactionById(userId, transactionId);
+
+    // A category changed by hand may be worth a rule for the merchant
+    const ruleSuggestion = updated
+      ? await CategorizationRuleService.suggestRule(userId, updated).catch(error => {
+        logger.warn('Failed to suggest categorization rule', {
+          error: error instanceof Error ? error.message : String(error),
+          transactionId
+        });
+        return null;
+      })
+      : null;
+
+    return ruleSuggestion ? { ...transaction, ruleSuggestion } : transaction;
+  }
+
+  /**
+   * Delete a transaction (both legs when it is part of a transfer)
+   */
+  static async deleteTransaction(userId: string, transactionId: string): Promise<void> {
+    const { balanceChanges, receipts } = await db.transaction(async (trx) => {
+      const existing = await this.findOwnedTransaction(trx, userId, transactionId);
+      const deleted = [existing];
+
+      if (TransactionModel.isTransfer(existing) && existing.transfer_transaction_id) {
+        const counterpart: Transaction | undefined = await trx('transactions')
+          .where({ id: existing.transfer_transaction_id, user_id: userId })
+          .forUpdate()
+          .first();
+
+        if (counterpart) {
+          deleted.push(counterpart);
+        }
+      }
+
+      const deletedIds = deleted.map(transaction => transaction.id);
+      const attached = await ReceiptService.getForTransactions(trx, deletedIds);
+
+      await trx('transactions')
+        .whereIn('id', deletedIds)
+        .andWhere('user_id', userId)
+        .del();
+
+      const changes: BalanceChange[] = [];
+      for (const transaction of deleted) {
+        changes.push(...await AccountBalanceService.applyTransactionChange(trx, transaction, null));
+      }
+      await BudgetService.syncSpentAmounts(trx, userId, deleted);
+
+      return { balanceChanges: changes, receipts: attached };
+    });
+
+    logger.info('Transaction deleted', { userId, transactionId });
+
+    // Receipt rows went with the transaction; their files are removed once that is committed
+    await ReceiptService.deleteFiles(receipts);
+
+    await AccountBalanceService.recordBalanceChanges(userId, balanceChanges, {
+      transactionId,
+      reason: 'transaction.deleted'
+    });
+  }
+
+  /**
+   * Base query joining category and account names for a user's transactions
+   */
+  private static baseQuery(executor: Knex | Knex.Transaction, userId: string): Knex.QueryBuilder {
+    return executor('transactions as t')
+      .leftJoin('categories as c', 'c.id', 't.category_id')
+      .leftJoin('accounts as a', 'a.id', 't.account_id')
+      .where('t.user_id', userId)
+      .select('t.*', 'c.name as category_name', 'a.name as account_name');
+  }
+
+  /**
+   * Apply list filters to a transaction query
+   */
+  private static applyFilters(
+    query: Knex.QueryBuilder,
+    filters: Omit<TransactionFilters, 'page' | 'limit' | 'sortBy' | 'sortOrder'>
+  ): Knex.QueryBuilder {
+    const dateFrom = filters.dateFrom || filters.startDate;
+    const dateTo = filters.dateTo || filters.endDate;
+
+    if (filters.search) {
+      const term = `%${filters.search}%`;
+      query.where(builder => {
+        builder
+          .whereILike('t.description', term)
+          .orWhereILike('t.notes', term)
+          .orWhereILike('t.merchant_name', term);
+      });
+    }
+
+    if (filters.categoryId) query.where('t.category_id', filters.categoryId);
+    if (filters.accountId) query.where('t.account_id', filters.accountId);
+    if (filters.type) query.where('t.type', filters.type);
+    if (filters.recurringGroupId) query.where('t.recurring_group_id', filters.recurringGroupId);
+    if (dateFrom) query.where('t.transaction_date', '>=', toDateParam(dateFrom));
+    if (dateTo) query.where('t.transaction_date', '<=', toDateParam(dateTo));
+    if (filters.minAmount !== undefined) query.where('t.amount', '>=', filters.minAmount);
+    if (filters.maxAmount !== undefined) query.where('t.amount', '<=', filters.maxAmount);
+    if (filters.tags?.length) query.whereRaw('t.tags && ?', [textArray(filters.tags)]);
+
+    return query;
+  }
+
+  /**
+   * Load a transaction owned by the user, locking it for the rest of the transaction
+   */
+  private static async findOwnedTransaction(
+    trx: Knex.Transaction,
+    userId: string,
+    transactionId: string
+  ): Promise<Transaction> {
+    const transaction: Transaction | undefined = await trx('transactions')
+      .where({ id: transactionId, user_id: userId })
+      .forUpdate()
+      .first();
+
+    if (!transaction) {
+      throw new AppError('Transaction not found', 404);
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Ensure the account belongs to the user and is active
+   */
+  private static async findActiveAccount(
+    trx: Knex.Transaction,
+    userId: string,
+    accountId: string
+  ): Promise<{ id: string; currency: string }> {
+    const account = await trx('accounts')
+      .where({ id: accountId, user_id: userId, is_active: true })
+      .first('id', 'currency');
+
+    if (!account) {
+      throw new AppError('Account not found', 404);
+    }
+
+    return account;
+  }
+
+  /**
+   * Category of the first categorization rule matching a new transaction
+   */
+  private static async ruleCategory(
+    trx: Knex.Transaction,
+    userId: string,
+    data: CreateTransactionData
+  ): Promise<string> {
+    const [categoryId] = await CategorizationRuleService.findCategories(trx, userId, [{
+      accountId: data.accountId,
+      merchantName: data.merchantName || null,
+      description: data.description,
+      amount: data.amount
+    }]);
+
+    if (!categoryId) {
+      throw new AppError('categoryId is required when no categorization rule matches', 400);
+    }
+
+    return categoryId;
+  }
+
+  /**
+   * Ensure the category is one of the user's own or a system category
+   */
+  private static async assertCategoryAccessible(
+    trx: Knex.Transaction,
+    userId: string,
+    categoryId: string
+  ): Promise<void> {
+    const category = await trx('categories')
+      .where({ id: categoryId, is_active: true })
+      .andWhere(builder => {
+        builder.where('user_id', userId).orWhere('is_system', true);
+      })
+      .first('id');
+
+    if (!category) {
+      throw new AppError('Category not found', 404);
+    }
+  }
+}
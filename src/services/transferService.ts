@@ -0,0 +1,303 @@
+import { Knex } from 'knex';
+import { db } from '../config/database';
+import { logger } from '../middleware/logging';
+import { AppError } from '../middleware/errorHandler';
+import { toDateParam } from '../utils/date';
+import { AccountBalanceService } from './accountBalanceService';
+import { TransactionService } from './transactionService';
+import {
+  Transaction,
+  TransactionType,
+  TransferDirection,
+  CreateTransferData,
+  UpdateTransferData,
+  TransferResponse
+} from '../models/Transaction';
+
+interface TransferAccount {
+  id: string;
+  currency: string;
+}
+
+interface TransferLegs {
+  outgoing: Transaction;
+  incoming: Transaction;
+}
+
+export class TransferService {
+  /**
+   * Create both legs of a transfer atomically
+   */
+  static async createTransfer(userId: string, data: CreateTransferData): Promise<TransferResponse> {
+    const { legs, balanceChanges } = await db.transaction(async (trx) => {
+      const { from, to } = await this.findTransferAccounts(trx, userId, data.fromAccountId, data.toAccountId);
+      const receivedAmount = this.resolveReceivedAmount(from, to, data.amount, data.receivedAmount);
+
+      const shared = {
+        user_id: userId,
+        type: TransactionType.TRANSFER,
+        description: data.description || 'Transfer',
+        transaction_date: toDateParam(data.date),
+        tags: data.tags || null,
+        notes: data.notes || null,
+        reference_number: data.referenceNumber || null,
+        metadata: this.buildMetadata(null, from, to, data.amount, receivedAmount)
+      };
+
+      const [outgoing] = await trx('transactions')
+        .insert({
+          ...shared,
+          account_id: from.id,
+          amount: data.amount,
+          currency: from.currency,
+          transfer_account_id: to.id,
+          transfer_direction: TransferDirection.OUTGOING
+        })
+        .returning<Transaction[]>('*');
+
+      const [incoming] = await trx('transactions')
+        .insert({
+          ...shared,
+          account_id: to.id,
+          amount: receivedAmount,
+          currency: to.currency,
+          transfer_account_id: from.id,
+          transfer_transaction_id: outgoing!.id,
+          transfer_direction: TransferDirection.INCOMING
+        })
+        .returning<Transaction[]>('*');
+
+      const [linkedOutgoing] = await trx('transactions')
+        .where('id', outgoing!.id)
+        .update({ transfer_transaction_id: incoming!.id })
+        .returning<Transaction[]>('*');
+
+      const balanceChanges = [
+        ...await AccountBalanceService.applyTransactionChange(trx, null, linkedOutgoing!),
+        ...await AccountBalanceService.applyTransactionChange(trx, null, incoming!)
+      ];
+
+      return { legs: { outgoing: linkedOutgoing!, incoming: incoming! }, balanceChanges };
+    });
+
+    logger.info('Transfer created', {
+      userId,
+      outgoingId: legs.outgoing.id,
+      incomingId: legs.incoming.id
+    });
+
+    await AccountBalanceService.recordBalanceChanges(userId, balanceChanges, {
+      transactionId: legs.outgoing.id,
+      reason: 'transfer.created'
+    });
+
+    return this.getTransfer(userId, legs.outgoing.id);
+  }
+
+  /**
+   * Update a transfer through either of its legs, keeping both legs in sync
+   */
+  static async updateTransfer(
+    userId: string,
+    transactionId: string,
+    data: UpdateTransferData
+  ): Promise<TransferResponse> {
+    const { legs, balanceChanges } = await db.transaction(async (trx) => {
+      const existing = await this.findTransferLegs(trx, userId, transactionId);
+
+      const { from, to } = await this.findTransferAccounts(
+        trx,
+        userId,
+        data.fromAccountId ?? existing.outgoing.account_id,
+        data.toAccountId ?? existing.incoming.account_id
+      );
+
+      const amount = data.amount ?? Number(existing.outgoing.amount);
+      const currencyChanged = from.currency !== existing.outgoing.currency || to.currency !== existing.incoming.currency;
+
+      // Keep the previous received amount for cross-currency transfers unless it is restated
+      let requestedReceived = data.receivedAmount;
+      if (requestedReceived === undefined && from.currency !== to.currency && !currencyChanged && data.amount === undefined) {
+        requestedReceived = Number(existing.incoming.amount);
+      }
+      const receivedAmount = this.resolveReceivedAmount(from, to, amount, requestedReceived);
+
+      const shared: Record<string, unknown> = {
+        metadata: this.buildMetadata(existing.outgoing.metadata, from, to, amount, receivedAmount)
+      };
+      if (data.date !== undefined) shared.transaction_date = toDateParam(data.date);
+      if (data.description !== undefined) shared.description = data.description;
+      if (data.notes !== undefined) shared.notes = data.notes;
+      if (data.tags !== undefined) shared.tags = data.tags;
+      if (data.referenceNumber !== undefined) shared.reference_number = data.referenceNumber;
+
+      const [outgoing] = await trx('transactions')
+        .where('id', existing.outgoing.id)
+        .update({
+          ...shared,
+          account_id: from.id,
+          amount,
+          currency: from.currency,
+          transfer_account_id: to.id
+        })
+        .returning<Transaction[]>('*');
+
+      const [incoming] = await trx('transactions')
+        .where('id', existing.incoming.id)
+        .update({
+          ...shared,
+          account_id: to.id,
+          amount: receivedAmount,
+          currency: to.currency,
+          transfer_account_id: from.id
+        })
+        .returning<Transaction[]>('*');
+
+      const balanceChanges = [
+        ...await AccountBalanceService.applyTransactionChange(trx, existing.outgoing, outgoing!),
+        ...await AccountBalanceService.applyTransactionChange(trx, existing.incoming, incoming!)
+      ];
+
+      return { legs: { outgoing: outgoing!, incoming: incoming! }, balanceChanges };
+    });
+
+    logger.info('Transfer updated', { userId, outgoingId: legs.outgoing.id, incomingId: legs.incoming.id });
+
+    await AccountBalanceService.recordBalanceChanges(userId, balanceChanges, {
+      transactionId: legs.outgoing.id,
+      reason: 'transfer.updated'
+    });
+
+    return this.getTransfer(userId, legs.outgoing.id);
+  }
+
+  /**
+   * Get both legs of a transfer by the id of either leg
+   */
+  static async getTransfer(userId: string, transactionId: string): Promise<TransferResponse> {
+    const leg = await TransactionService.getTransactionById(userId, transactionId);
+
+    if (leg.type !== TransactionType.TRANSFER || !leg.transferTransactionId) {
+      throw new AppError('Transfer not found', 404);
+    }
+
+    const counterpart = await TransactionService.getTransactionById(userId, leg.transferTransactionId);
+
+    return leg.transferDirection === TransferDirection.OUTGOING
+      ? { outgoing: leg, incoming: counterpart }
+      : { outgoing: counterpart, incoming: leg };
+  }
+
+  /**
+   * Load and lock both legs of a transfer
+   */
+  private static async findTransferLegs(
+    trx: Knex.Transaction,
+    userId: string,
+    transactionId: string
+  ): Promise<TransferLegs> {
+    const leg: Transaction | undefined = await trx('transactions')
+      .where({ id: transactionId, user_id: userId, type: TransactionType.TRANSFER })
+      .forUpdate()
+      .first();
+
+    if (!leg || !leg.transfer_transaction_id) {
+      throw new AppError('Transfer not found', 404);
+    }
+
+    const counterpart: Transaction | undefined = await trx('transactions')
+      .where({ id: leg.transfer_transaction_id, user_id: userId, type: TransactionType.TRANSFER })
+      .forUpdate()
+      .first();
+
+    if (!counterpart) {
+      throw new AppError('Transfer is missing its linked transaction', 409);
+    }
+
+    return leg.transfer_direction === TransferDirection.OUTGOING
+      ? { outgoing: leg, incoming: counterpart }
+      : { outgoing: counterpart, incoming: leg };
+  }
+
+  /**
+   * Ensure both accounts belong to the user, are active and differ
+   */
+  private static async findTransferAccounts(
+    trx: Knex.Transaction,
+    userId: string,
+    fromAccountId: string,
+    toAccountId: string
+  ): Promise<{ from: TransferAccount; to: TransferAccount }> {
+    if (fromAccountId === toAccountId) {
+      throw new AppError('Cannot transfer to the same account', 400);
+    }
+
+    const accounts: TransferAccount[] = await trx('accounts')
+      .whereIn('id', [fromAccountId, toAccountId])
+      .andWhere({ user_id: userId, is_active: true })
+      .select('id', 'currency');
+
+    const from = accounts.find(account => account.id === fromAccountId);
+    const to = accounts.find(account => account.id === toAccountId);
+
+    if (!from || !to) {
+      throw new AppError('Account not found', 404);
+    }
+
+    return { from, to };
+  }
+
+  /**
+   * Work out the amount credited to the destination account.
+   * Same-currency transfers move the same amount; cross-currency transfers
+   * need the received amount stated explicitly.
+   */
+  private static resolveReceivedAmount(
+    from: TransferAccount,
+    to: TransferAccount,
+    amount: number,
+    receivedAmount?: number
+  ): number {
+    if (from.currency === to.currency) {
+      if (receivedAmount !== undefined && receivedAmount !== amount) {
+        throw new AppError('Received amount must match the amount for same-currency transfers', 400);
+      }
+      return amount;
+    }
+
+    if (receivedAmount === undefined) {
+      throw new AppError(
+        `Received amount is required for transfers from ${from.currency} to ${to.currency}`,
+        400
+      );
+    }
+
+    return receivedAmount;
+  }
+
+  /**
+   * Merge the cross-currency details stored on both legs into existing metadata
+   */
+  private static buildMetadata(
+    existing: Record<string, any> | null,
+    from: TransferAccount,
+    to: TransferAccount,
+    amount: number,
+    receivedAmount: number
+  ): string | null {
+    const metadata: Record<string, any> = { ...(existing || {}) };
+    delete metadata.transfer;
+
+    if (from.currency !== to.currency) {
+      metadata.transfer = {
+        sentAmount: amount,
+        sentCurrency: from.currency,
+        receivedAmount,
+        receivedCurrency: to.currency,
+        exchangeRate: Number((receivedAmount / amount).toFixed(8))
+      };
+    }
+
+    return Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : null;
+  }
+}
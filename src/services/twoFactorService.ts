@@ -0,0 +1,344 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { Knex } from 'knex';
+import { db } from '../config/database';
+import { config } from '../config/env';
+import { redisClient } from '../config/redis';
+import { logger } from '../middleware/logging';
+import { AppError } from '../middleware/errorHandler';
+import { createAuditLog, AuditEventType } from '../middleware/auditLog';
+import { base32Encode, generateTotpSecret, totpProvisioningUri, verifyTotp } from '../utils/totp';
+import { JwtService } from './jwtService';
+import { PasskeyService } from './passkeyService';
+import {
+  TwoFactorStatus,
+  TwoFactorSetup,
+  SecondFactor,
+  TwoFactorChallenge,
+  RECOVERY_CODE_COUNT
+} from '../models/TwoFactor';
+
+interface TwoFactorUserRow {
+  id: string;
+  email: string;
+  totp_secret: string | null;
+  totp_enabled_at: Date | null;
+}
+
+// Wrong codes allowed per sign-in challenge before the password is needed again
+const MAX_CHALLENGE_ATTEMPTS = 5;
+const CHALLENGE_ATTEMPTS_PREFIX = 'two_factor_challenge:';
+
+const encryptionKey = (): Buffer =>
+  createHash('sha256').update(config.TWO_FACTOR_ENCRYPTION_KEY).digest();
+
+/**
+ * Encrypt a TOTP secret for storage (AES-256-GCM, as iv.tag.ciphertext in base64)
+ */
+const encryptSecret = (secret: string): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+};
+
+const decryptSecret = (stored: string): string => {
+  const [iv, authTag, encrypted] = stored.split('.').map(part => Buffer.from(part, 'base64')) as [Buffer, Buffer, Buffer];
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+/**
+ * A recovery code: ten random base32 characters shown as xxxxx-xxxxx
+ */
+const generateRecoveryCode = (): string => {
+  const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+};
+
+/**
+ * Recovery codes are random, so a plain SHA-256 is enough to store them and
+ * lets a presented code be looked up. Case and separators are ignored.
+ */
+const hashRecoveryCode = (code: string): string =>
+  createHash('sha256').update(code.replace(/[^a-z0-9]/gi, '').toUpperCase()).digest('hex');
+
+export class TwoFactorService {
+  /**
+   * Whether the user has two-factor authentication and how many recovery codes are left
+   */
+  static async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const user = await this.findUser(userId);
+
+    const remaining = user.totp_enabled_at
+      ? await db('user_recovery_codes').where('user_id', userId).whereNull('used_at').count('* as count').first()
+      : null;
+
+    return {
+      enabled: user.totp_enabled_at !== null,
+      enabledAt: user.totp_enabled_at,
+      recoveryCodesRemaining: parseInt(String(remaining?.count ?? 0), 10)
+    };
+  }
+
+  /**
+   * Start setting up an authenticator app with a new secret. Nothing changes
+   * for signing in until a code from the app is confirmed with enable().
+   */
+  static async beginSetup(userId: string): Promise<TwoFactorSetup> {
+    const user = await this.findUser(userId);
+
+    if (user.totp_enabled_at) {
+      throw new AppError('Two-factor authentication is already enabled', 409);
+    }
+
+    const secret = generateTotpSecret();
+
+    await db('users')
+      .where('id', userId)
+      .update({ totp_secret: encryptSecret(secret), totp_last_used_step: null });
+
+    return {
+      secret,
+      otpauthUrl: totpProvisioningUri(secret, user.email, config.TWO_FACTOR_ISSUER)
+    };
+  }
+
+  /**
+   * Turn two-factor authentication on with a code from the app being set up.
+   * Returns the recovery codes, which are only ever shown this once.
+   */
+  static async enable(userId: string, sessionId: string, code: string): Promise<string[]> {
+    const user = await this.findUser(userId);
+
+    if (user.totp_enabled_at) {
+      throw new AppError('Two-factor authentication is already enabled', 409);
+    }
+    if (!user.totp_secret) {
+      throw new AppError('Start two-factor setup first', 400);
+    }
+
+    const step = verifyTotp(decryptSecret(user.totp_secret), code);
+    if (step === null) {
+      throw new AppError('Invalid verification code', 400);
+    }
+
+    const recoveryCodes = await db.transaction(async (trx) => {
+      await trx('users')
+        .where('id', userId)
+        .update({ totp_enabled_at: db.fn.now(), totp_last_used_step: step });
+
+      return this.replaceRecoveryCodes(trx, userId);
+    });
+
+    // The code just entered counts as a fresh second factor for this session
+    await this.markSessionVerified(sessionId);
+
+    await createAuditLog({
+      eventType: AuditEventType.TWO_FACTOR_ENABLED,
+      userId,
+      userEmail: user.email,
+      sessionId
+    });
+
+    logger.info('Two-factor authentication enabled', { userId });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn two-factor authentication off and forget the secret and recovery codes
+   */
+  static async disable(userId: string): Promise<void> {
+    const disabled = await db.transaction(async (trx) => {
+      await trx('user_recovery_codes').where('user_id', userId).del();
+
+      const updated: number = await trx('users')
+        .where('id', userId)
+        .whereNotNull('totp_enabled_at')
+        .update({ totp_secret: null, totp_enabled_at: null, totp_last_used_step: null });
+
+      return updated;
+    });
+
+    if (disabled === 0) {
+      throw new AppError('Two-factor authentication is not enabled', 400);
+    }
+
+    await createAuditLog({
+      eventType: AuditEventType.TWO_FACTOR_DISABLED,
+      userId
+    });
+
+    logger.info('Two-factor authentication disabled', { userId });
+  }
+
+  /**
+   * Replace all recovery codes, used or not, with a new set
+   */
+  static async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const user = await this.findUser(userId);
+
+    if (!user.totp_enabled_at) {
+      throw new AppError('Two-factor authentication is not enabled', 400);
+    }
+
+    const recoveryCodes = await db.transaction(trx => this.replaceRecoveryCodes(trx, userId));
+
+    logger.info('Recovery codes regenerated', { userId });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Issue the challenge a sign-in continues with once the password was accepted
+   */
+  static createChallenge(userId: string, email: string, deviceName: string | null): TwoFactorChallenge {
+    const { token, expiresAt } = JwtService.generateTwoFactorChallengeToken(userId, email, deviceName);
+
+    return { challengeToken: token, expiresAt };
+  }
+
+  /**
+   * Check the second factor of a sign-in challenge. A challenge allows a few
+   * wrong codes and can be completed only once.
+   */
+  static async completeChallenge(
+    challengeToken: string,
+    factor: SecondFactor
+  ): Promise<{ userId: string; deviceName: string | null }> {
+    const challenge = JwtService.verifyTwoFactorChallengeToken(challengeToken);
+    const attemptsKey = `${CHALLENGE_ATTEMPTS_PREFIX}${challenge.jti}`;
+    const ttl = Math.max(challenge.exp - Math.floor(Date.now() / 1000), 1);
+
+    const attempts = await redisClient.incr(attemptsKey);
+    if (attempts === 1) {
+      await redisClient.expire(attemptsKey, ttl);
+    }
+    if (attempts > MAX_CHALLENGE_ATTEMPTS) {
+      throw new AppError('Too many verification attempts, please sign in again', 401);
+    }
+
+    if (!(await this.verifySecondFactor(challenge.userId, factor))) {
+      throw new AppError('Invalid verification code', 401);
+    }
+
+    // Use the challenge up so it cannot be completed again
+    await redisClient.set(attemptsKey, String(MAX_CHALLENGE_ATTEMPTS + 1), 'EX', ttl);
+
+    return { userId: challenge.userId, deviceName: challenge.deviceName };
+  }
+
+  /**
+   * Step-up: check a second factor for a signed-in session, unlocking
+   * sensitive actions on it for TWO_FACTOR_STEP_UP_TTL seconds
+   */
+  static async verifySession(userId: string, sessionId: string, factor: SecondFactor): Promise<Date> {
+    const user = await this.findUser(userId);
+
+    if (!user.totp_enabled_at) {
+      throw new AppError('Two-factor authentication is not enabled', 400);
+    }
+    if (!(await this.verifySecondFactor(userId, factor))) {
+      throw new AppError('Invalid verification code', 400);
+    }
+
+    await this.markSessionVerified(sessionId);
+
+    return new Date(Date.now() + config.TWO_FACTOR_STEP_UP_TTL * 1000);
+  }
+
+  /**
+   * Whether a sensitive action on this session needs a second factor first:
+   * the user has two-factor authentication and the session has not checked
+   * it within TWO_FACTOR_STEP_UP_TTL
+   */
+  static async requiresStepUp(userId: string, sessionId: string): Promise<boolean> {
+    const row: { totp_enabled_at: Date | null; two_factor_verified_at: Date | null } | undefined =
+      await db('user_sessions as s')
+        .join('users as u', 'u.id', 's.user_id')
+        .where({ 's.id': sessionId, 's.user_id': userId })
+        .select('u.totp_enabled_at', 's.two_factor_verified_at')
+        .first();
+
+    if (!row?.totp_enabled_at) {
+      return false;
+    }
+
+    return !row.two_factor_verified_at ||
+      Date.now() - new Date(row.two_factor_verified_at).getTime() > config.TWO_FACTOR_STEP_UP_TTL * 1000;
+  }
+
+  /**
+   * Check a code from the authenticator app or a passkey signature, or use
+   * up a recovery code. App codes are accepted once: their time step must be
+   * later than the last one accepted.
+   */
+  private static async verifySecondFactor(userId: string, factor: SecondFactor): Promise<boolean> {
+    if (factor.passkey) {
+      return PasskeyService.verifySecondFactor(userId, factor.passkey);
+    }
+
+    if (factor.recoveryCode) {
+      const used = await db('user_recovery_codes')
+        .where({ user_id: userId, code_hash: hashRecoveryCode(factor.recoveryCode) })
+        .whereNull('used_at')
+        .update({ used_at: db.fn.now() });
+
+      if (used > 0) {
+        logger.info('Recovery code used', { userId });
+      }
+      return used > 0;
+    }
+
+    const user = await this.findUser(userId);
+    if (!user.totp_enabled_at || !user.totp_secret || !factor.code) {
+      return false;
+    }
+
+    const step = verifyTotp(decryptSecret(user.totp_secret), factor.code);
+    if (step === null) {
+      return false;
+    }
+
+    const accepted = await db('users')
+      .where('id', userId)
+      .where(query => query.whereNull('totp_last_used_step').orWhere('totp_last_used_step', '<', step))
+      .update({ totp_last_used_step: step });
+
+    return accepted > 0;
+  }
+
+  private static async replaceRecoveryCodes(trx: Knex.Transaction, userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+    await trx('user_recovery_codes').where('user_id', userId).del();
+    await trx('user_recovery_codes').insert(codes.map(code => ({
+      user_id: userId,
+      code_hash: hashRecoveryCode(code)
+    })));
+
+    return codes;
+  }
+
+  private static async markSessionVerified(sessionId: string): Promise<void> {
+    await db('user_sessions')
+      .where('id', sessionId)
+      .update({ two_factor_verified_at: db.fn.now() });
+  }
+
+  private static async findUser(userId: string): Promise<TwoFactorUserRow> {
+    const user: TwoFactorUserRow | undefined = await db('users')
+      .where('id', userId)
+      .select('id', 'email', 'totp_secret', 'totp_enabled_at')
+      .first();
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    return user;
+  }
+}
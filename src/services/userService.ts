@@ -4,8 +4,15 @@ import { Knex } from 'knex';
 import { db } from '../config/database';
 import { config } from '../config/env';
 import { logger } from '../middleware/logging';
-import { JwtService } from './jwtService';
+import { SessionService } from './sessionService';
 import { SecurityService } from './securityService';
+import { TwoFactorService } from './twoFactorService';
+import { PasskeyService } from './passkeyService';
+import { OidcService } from './oidcService';
+import { AppError } from '../middleware/errorHandler';
+import { SecondFactor } from '../models/TwoFactor';
+import { AuthenticationCredential } from '../models/Passkey';
+import { VerifiedIdentity } from '../models/Identity';
 import { 
   User, 
   UserSafe, 
@@ -13,6 +20,7 @@ import {
   UpdateUserData, 
   UserLoginData, 
   UserAuthResult,
+  UserTwoFactorRequired,
   UserModel,
   UserStatus,
   USER_CONSTANTS,
@@ -88,7 +96,10 @@ export class UserService {
   /**
    * Authenticate user login with enhanced security
    */
-  static async authenticateUser(loginData: UserLoginData, req?: Request): Promise<UserAuthResult> {
+  static async authenticateUser(
+    loginData: UserLoginData,
+    req?: Request
+  ): Promise<UserAuthResult | UserTwoFactorRequired> {
     const email = loginData.email.toLowerCase().trim();
     let securityInfo: any = {};
     
@@ -210,14 +221,27 @@ export class UserService {
       // Reset failed login attempts (implicit - handled by SecurityService time window)
       await SecurityService.resetFailedAttempts(email, 'login');
 
+      // Remove password hash and two-factor secrets from user object
+      const { password_hash, totp_secret, totp_last_used_step, ...user } = userWithPassword;
+
+      // With two-factor authentication the password only earns a challenge for the second step
+      if (userWithPassword.totp_enabled_at) {
+        const twoFactorChallenge = TwoFactorService.createChallenge(user.id, user.email, loginData.deviceName ?? null);
+
+        logger.info('Password accepted, second factor required', { userId: user.id, email: user.email });
+
+        return { user, twoFactorChallenge };
+      }
+
       // Update last login
       await this.updateLastLogin(userWithPassword.id);
 
-      // Generate tokens
-      const tokens = await JwtService.generateTokenPair(userWithPassword.id, userWithPassword.email);
-
-      // Remove password hash from user object
-      const { password_hash, ...user } = userWithPassword;
+      // Start a session for this device and issue its tokens
+      const tokens = await SessionService.startSession(userWithPassword.id, userWithPassword.email, {
+        deviceName: loginData.deviceName ?? null,
+        userAgent: securityInfo.userAgent ?? null,
+        ipAddress: securityInfo.ipAddress ?? null
+      });
 
       logger.info('User authenticated successfully', { 
         userId: user.id, 
@@ -237,6 +261,132 @@ export class UserService {
     }
   }
 
+  /**
+   * Finish signing in with the second factor for a challenge issued by authenticateUser
+   */
+  static async completeTwoFactorLogin(
+    challengeToken: string,
+    factor: SecondFactor,
+    req?: Request
+  ): Promise<UserAuthResult> {
+    const securityInfo: any = req ? SecurityService.extractSecurityInfo(req) : {};
+
+    const { userId, deviceName } = await TwoFactorService.completeChallenge(challengeToken, factor);
+
+    const user = await this.findUserById(userId);
+    if (!user || user.status !== UserStatus.ACTIVE) {
+      throw new AppError('Account is inactive', 403);
+    }
+
+    await this.updateLastLogin(user.id);
+
+    const tokens = await SessionService.startSession(user.id, user.email, {
+      deviceName,
+      userAgent: securityInfo.userAgent ?? null,
+      ipAddress: securityInfo.ipAddress ?? null
+    }, { twoFactorVerified: true });
+
+    logger.info('User authenticated with second factor', {
+      userId: user.id,
+      email: user.email,
+      ipAddress: securityInfo.ipAddress ?? 'unknown',
+      recoveryCode: !!factor.recoveryCode,
+      passkey: !!factor.passkey
+    });
+
+    return { user, tokens };
+  }
+
+  /**
+   * Sign in with a passkey instead of the password. The passkey checked the
+   * user's PIN or biometrics itself, so it also counts as the second factor.
+   */
+  static async signInWithPasskey(
+    credential: AuthenticationCredential,
+    deviceName: string | null,
+    req?: Request
+  ): Promise<UserAuthResult> {
+    const securityInfo: any = req ? SecurityService.extractSecurityInfo(req) : {};
+
+    const userId = await PasskeyService.signIn(credential);
+
+    const user = await this.findUserById(userId);
+    if (!user || user.status !== UserStatus.ACTIVE) {
+      throw new AppError('Account is inactive', 403);
+    }
+
+    await this.updateLastLogin(user.id);
+
+    const tokens = await SessionService.startSession(user.id, user.email, {
+      deviceName,
+      userAgent: securityInfo.userAgent ?? null,
+      ipAddress: securityInfo.ipAddress ?? null
+    }, { twoFactorVerified: true });
+
+    logger.info('User authenticated with passkey', {
+      userId: user.id,
+      email: user.email,
+      ipAddress: securityInfo.ipAddress ?? 'unknown'
+    });
+
+    return { user, tokens };
+  }
+
+  /**
+   * Sign in with an account at an OpenID Connect provider, using the code it
+   * sent back. An account seen for the first time is linked to the user with
+   * the same verified email, or signs a new user up. As with the password,
+   * users with two-factor authentication get a challenge instead of tokens.
+   * The browser secret must be the one given to the browser that started it.
+   */
+  static async signInWithOidc(
+    state: string,
+    code: string,
+    browserSecret: string | undefined,
+    deviceName: string | null,
+    req?: Request
+  ): Promise<UserAuthResult | UserTwoFactorRequired> {
+    const securityInfo: any = req ? SecurityService.extractSecurityInfo(req) : {};
+
+    const identity = await OidcService.completeAuthorization(state, code, 'login', null, browserSecret);
+
+    const userId = await OidcService.findLinkedUser(identity) ?? await this.linkOrCreateOidcUser(identity);
+
+    const user = await this.findUserById(userId);
+    if (!user || user.status !== UserStatus.ACTIVE) {
+      throw new AppError('Account is inactive', 403);
+    }
+
+    const { totp_enabled_at }: { totp_enabled_at: Date | null } = await db('users')
+      .where({ id: userId })
+      .first('totp_enabled_at');
+
+    if (totp_enabled_at) {
+      const twoFactorChallenge = TwoFactorService.createChallenge(user.id, user.email, deviceName);
+
+      logger.info('Provider sign-in accepted, second factor required', { userId: user.id, provider: identity.provider });
+
+      return { user, twoFactorChallenge };
+    }
+
+    await this.updateLastLogin(user.id);
+
+    const tokens = await SessionService.startSession(user.id, user.email, {
+      deviceName,
+      userAgent: securityInfo.userAgent ?? null,
+      ipAddress: securityInfo.ipAddress ?? null
+    });
+
+    logger.info('User authenticated with provider', {
+      userId: user.id,
+      email: user.email,
+      provider: identity.provider,
+      ipAddress: securityInfo.ipAddress ?? 'unknown'
+    });
+
+    return { user, tokens };
+  }
+
   /**
    * Find user by ID
    */
@@ -344,7 +494,7 @@ export class UserService {
       await trx.commit();
 
       // Revoke all existing sessions to force re-authentication
-      await JwtService.revokeAllUserSessions(userId);
+      await SessionService.revokeAllSessions(userId);
 
       logger.info('Password changed successfully', { userId });
     } catch (error) {
@@ -384,7 +534,7 @@ export class UserService {
       await trx.commit();
 
       // Revoke all existing sessions
-      await JwtService.revokeAllUserSessions(userId);
+      await SessionService.revokeAllSessions(userId);
 
       logger.info('Password reset successfully', { userId });
     } catch (error) {
@@ -430,7 +580,7 @@ export class UserService {
       await trx.commit();
 
       // Revoke all user sessions
-      await JwtService.revokeAllUserSessions(userId);
+      await SessionService.revokeAllSessions(userId);
 
       logger.info('User suspended successfully', { userId });
     } catch (error) {
@@ -478,7 +628,7 @@ export class UserService {
       await trx.commit();
 
       // Revoke all user sessions
-      await JwtService.revokeAllUserSessions(userId);
+      await SessionService.revokeAllSessions(userId);
 
       logger.info('User account deleted (deactivated)', { userId });
     } catch (error) {
@@ -488,6 +638,58 @@ export class UserService {
     }
   }
 
+  /**
+   * Link a provider account seen for the first time to the user with its
+   * email, or create a user without a password for it. Only emails the
+   * provider has verified are trusted, as they decide which user it becomes.
+   */
+  private static async linkOrCreateOidcUser(identity: VerifiedIdentity): Promise<string> {
+    if (!identity.email || !identity.emailVerified) {
+      throw new AppError('Your account at this provider has no verified email address', 400);
+    }
+
+    const existingUser = await this.findUserByEmail(identity.email);
+    if (existingUser) {
+      await OidcService.link(existingUser.id, identity);
+
+      logger.info('Provider account linked by verified email', { userId: existingUser.id, provider: identity.provider });
+
+      return existingUser.id;
+    }
+
+    const [localPart] = identity.email.split('@');
+    const trx = await db.transaction();
+
+    try {
+      const [user] = await trx('users')
+        .insert({
+          email: identity.email,
+          password_hash: null,
+          // Names are required; users can correct them in their profile
+          first_name: (identity.firstName || localPart || identity.email).slice(0, 100),
+          last_name: (identity.lastName || '-').slice(0, 100),
+          status: UserStatus.ACTIVE,
+          email_verified: true,
+          preferences: DEFAULT_USER_PREFERENCES
+        })
+        .returning(['id', 'email']);
+
+      await OidcService.link(user.id, identity, trx);
+      await trx.commit();
+
+      logger.info('User created from provider account', { userId: user.id, email: user.email, provider: identity.provider });
+
+      return user.id;
+    } catch (error) {
+      await trx.rollback();
+      logger.error('Failed to create user from provider account', {
+        error: error instanceof Error ? error.message : String(error),
+        provider: identity.provider
+      });
+      throw error;
+    }
+  }
+
   /**
    * Hash password using bcrypt
    */
@@ -503,7 +705,12 @@ export class UserService {
   /**
    * Verify password against hash
    */
-  private static async verifyPassword(password: string, hash: string): Promise<boolean> {
+  private static async verifyPassword(password: string, hash: string | null): Promise<boolean> {
+    // Users who signed up through a provider have no password to check
+    if (!hash) {
+      return false;
+    }
+
     try {
       return await bcrypt.compare(password, hash);
     } catch (error) {
@@ -0,0 +1,156 @@
+/**
+ * A CBOR (RFC 8949) decoder covering what WebAuthn sends: attestation
+ * objects and COSE keys. Maps decode to Map so integer keys, as COSE uses,
+ * keep their type. Indefinite lengths are not used by WebAuthn and rejected.
+ */
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Buffer
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+// Nesting allowed before the input is treated as malicious
+const MAX_DEPTH = 16;
+
+export class CborError extends Error {
+  constructor(message: string) {
+    super(`Invalid CBOR: ${message}`);
+    this.name = 'CborError';
+  }
+}
+
+const readLength = (data: Buffer, offset: number, info: number): { length: number | bigint; offset: number } => {
+  const need = (bytes: number) => {
+    if (offset + bytes > data.length) {
+      throw new CborError('unexpected end of input');
+    }
+  };
+
+  if (info < 24) {
+    return { length: info, offset };
+  }
+  switch (info) {
+    case 24:
+      need(1);
+      return { length: data.readUInt8(offset), offset: offset + 1 };
+    case 25:
+      need(2);
+      return { length: data.readUInt16BE(offset), offset: offset + 2 };
+    case 26:
+      need(4);
+      return { length: data.readUInt32BE(offset), offset: offset + 4 };
+    case 27: {
+      need(8);
+      const value = data.readBigUInt64BE(offset);
+      return { length: value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value, offset: offset + 8 };
+    }
+    default:
+      throw new CborError(`unsupported additional information ${info}`);
+  }
+};
+
+const decodeItem = (data: Buffer, start: number, depth: number): { value: CborValue; offset: number } => {
+  if (depth > MAX_DEPTH) {
+    throw new CborError('nesting too deep');
+  }
+  if (start >= data.length) {
+    throw new CborError('unexpected end of input');
+  }
+
+  const initial = data.readUInt8(start);
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  // Floats and simple values carry their payload in place of a length
+  if (major === 7) {
+    switch (info) {
+      case 20: return { value: false, offset: start + 1 };
+      case 21: return { value: true, offset: start + 1 };
+      case 22: return { value: null, offset: start + 1 };
+      case 23: return { value: undefined, offset: start + 1 };
+      case 26:
+        if (start + 5 > data.length) throw new CborError('unexpected end of input');
+        return { value: data.readFloatBE(start + 1), offset: start + 5 };
+      case 27:
+        if (start + 9 > data.length) throw new CborError('unexpected end of input');
+        return { value: data.readDoubleBE(start + 1), offset: start + 9 };
+      default:
+        throw new CborError(`unsupported simple value ${info}`);
+    }
+  }
+
+  const { length, offset } = readLength(data, start + 1, info);
+
+  switch (major) {
+    case 0:
+      return { value: length, offset };
+    case 1:
+      return { value: typeof length === 'bigint' ? -1n - length : -1 - length, offset };
+    case 2:
+    case 3: {
+      if (typeof length === 'bigint' || offset + length > data.length) {
+        throw new CborError('unexpected end of input');
+      }
+      const bytes = data.subarray(offset, offset + length);
+      return { value: major === 2 ? Buffer.from(bytes) : bytes.toString('utf8'), offset: offset + length };
+    }
+    case 4:
+    case 5: {
+      // Every item takes at least a byte, which bounds lengths from untrusted input
+      if (typeof length === 'bigint' || length > data.length - offset) {
+        throw new CborError('unexpected end of input');
+      }
+      let position = offset;
+
+      if (major === 4) {
+        const items: CborValue[] = [];
+        for (let i = 0; i < length; i++) {
+          const item = decodeItem(data, position, depth + 1);
+          items.push(item.value);
+          position = item.offset;
+        }
+        return { value: items, offset: position };
+      }
+
+      const map = new Map<CborValue, CborValue>();
+      for (let i = 0; i < length; i++) {
+        const key = decodeItem(data, position, depth + 1);
+        const value = decodeItem(data, key.offset, depth + 1);
+        map.set(key.value, value.value);
+        position = value.offset;
+      }
+      return { value: map, offset: position };
+    }
+    case 6:
+      // Tags only annotate the item that follows; WebAuthn doesn't rely on them
+      return decodeItem(data, offset, depth + 1);
+    default:
+      throw new CborError(`unsupported major type ${major}`);
+  }
+};
+
+/**
+ * Decode the first item in `data`, returning it with the offset just after
+ * it, for formats that put more data after a CBOR item
+ */
+export const decodeCborItem = (data: Buffer, offset = 0): { value: CborValue; offset: number } =>
+  decodeItem(data, offset, 0);
+
+/**
+ * Decode data holding exactly one CBOR item
+ */
+export const decodeCbor = (data: Buffer): CborValue => {
+  const { value, offset } = decodeItem(data, 0, 0);
+
+  if (offset !== data.length) {
+    throw new CborError('trailing data');
+  }
+
+  return value;
+};
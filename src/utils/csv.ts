@@ -0,0 +1,111 @@
+/**
+ * CSV helpers (RFC 4180: quoted fields, doubled quotes, CRLF or LF line ends)
+ */
+
+/**
+ * Split CSV text into rows of fields. Blank lines are dropped.
+ */
+export const parseCsv = (text: string, delimiter: string = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = (): void => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xFEFF ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char === '\r') {
+      if (input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+// Leading characters spreadsheets treat as the start of a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Format one value as a CSV field. Dates become ISO strings, objects and
+ * arrays become JSON, and text that a spreadsheet would run as a formula
+ * is prefixed with a single quote.
+ */
+export const toCsvField = (value: unknown, delimiter: string = ','): string => {
+  if (value === null || value === undefined) return '';
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else if (typeof value === 'string') {
+    text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  } else {
+    text = String(value);
+  }
+
+  return text.includes(delimiter) || /["\r\n]/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+};
+
+/**
+ * Format one CSV line, including its CRLF terminator
+ */
+export const toCsvRow = (values: unknown[], delimiter: string = ','): string =>
+  `${values.map(value => toCsvField(value, delimiter)).join(delimiter)}\r\n`;
+
+/**
+ * Write records as CSV text with a header row. Columns default to the keys
+ * of the first record.
+ */
+export const toCsv = (
+  records: Array<Record<string, unknown>>,
+  columns: string[] = records.length > 0 ? Object.keys(records[0]!) : [],
+  delimiter: string = ','
+): string => {
+  let csv = toCsvRow(columns, delimiter);
+
+  for (const record of records) {
+    csv += toCsvRow(columns.map(column => record[column]), delimiter);
+  }
+
+  return csv;
+};
@@ -0,0 +1,32 @@
+/**
+ * Date helpers for DATE columns.
+ *
+ * node-postgres parses DATE values into JS Dates at local midnight, so the
+ * calendar date has to be read back with local getters rather than toISOString().
+ */
+
+/**
+ * Format a Date (or date-like value) as YYYY-MM-DD
+ */
+export const toDateOnlyString = (value: Date | string | null | undefined): string | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (typeof value === 'string') {
+    return value.slice(0, 10);
+  }
+
+  const year = value.getFullYear();
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Format a validated request date (Joi converts ISO strings into Dates at UTC midnight)
+ */
+export const toDateParam = (value: Date | string): string => {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : value.slice(0, 10);
+};
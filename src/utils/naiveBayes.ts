@@ -0,0 +1,112 @@
+/**
+ * Multinomial naive Bayes over string features with add-one smoothing.
+ * Documents are kept by id, so one can be relearned or forgotten when what
+ * it describes changes; training is incremental and never starts over.
+ */
+
+export interface Prediction {
+  label: string;
+  // 0-1, over all known labels
+  probability: number;
+}
+
+interface LabelStats {
+  documents: number;
+  features: number;
+  counts: Map<string, number>;
+}
+
+export class NaiveBayesClassifier {
+  private readonly documents = new Map<string, { label: string; features: string[] }>();
+  private readonly labels = new Map<string, LabelStats>();
+  // How many documents each feature occurs in; its size is the vocabulary size
+  private readonly vocabulary = new Map<string, number>();
+
+  /**
+   * Number of documents learned
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Whether a feature occurs in any learned document
+   */
+  knows(feature: string): boolean {
+    return this.vocabulary.has(feature);
+  }
+
+  /**
+   * Learn a document, replacing what was learned under the same id
+   */
+  learn(id: string, label: string, features: string[]): void {
+    this.forget(id);
+
+    const stats = this.labels.get(label) ?? { documents: 0, features: 0, counts: new Map<string, number>() };
+    stats.documents++;
+    stats.features += features.length;
+    for (const feature of features) {
+      stats.counts.set(feature, (stats.counts.get(feature) ?? 0) + 1);
+      this.vocabulary.set(feature, (this.vocabulary.get(feature) ?? 0) + 1);
+    }
+
+    this.labels.set(label, stats);
+    this.documents.set(id, { label, features });
+  }
+
+  /**
+   * Forget a learned document; unknown ids are ignored
+   */
+  forget(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) return;
+
+    const stats = this.labels.get(document.label)!;
+    stats.documents--;
+    stats.features -= document.features.length;
+    for (const feature of document.features) {
+      decrement(stats.counts, feature);
+      decrement(this.vocabulary, feature);
+    }
+
+    if (stats.documents === 0) {
+      this.labels.delete(document.label);
+    }
+    this.documents.delete(id);
+  }
+
+  /**
+   * Labels by descending probability for a document's features.
+   * Features never seen in training carry no evidence and are skipped.
+   */
+  predict(features: string[]): Prediction[] {
+    const known = features.filter(feature => this.vocabulary.has(feature));
+    const vocabularySize = this.vocabulary.size;
+
+    const scores = Array.from(this.labels, ([label, stats]) => {
+      let score = Math.log(stats.documents / this.documents.size);
+      for (const feature of known) {
+        score += Math.log(((stats.counts.get(feature) ?? 0) + 1) / (stats.features + vocabularySize));
+      }
+      return { label, score };
+    });
+
+    // Normalize the log scores without leaving floating point range
+    const max = Math.max(...scores.map(({ score }) => score));
+    const weights = scores.map(({ label, score }) => ({ label, weight: Math.exp(score - max) }));
+    const total = weights.reduce((sum, { weight }) => sum + weight, 0);
+
+    return weights
+      .map(({ label, weight }) => ({ label, probability: weight / total }))
+      .sort((a, b) => b.probability - a.probability);
+  }
+}
+
+const decrement = (counts: Map<string, number>, key: string): void => {
+  const count = (counts.get(key) ?? 0) - 1;
+  if (count > 0) {
+    counts.set(key, count);
+  } else {
+    counts.delete(key);
+  }
+};
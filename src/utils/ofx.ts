@@ -0,0 +1,92 @@
+/**
+ * OFX/QFX statement parsing.
+ *
+ * OFX 1.x files are SGML where leaf elements are usually left unclosed
+ * (<TRNAMT>-12.50), while OFX 2.x is XML; reading each leaf up to the next
+ * tag or line break handles both. QFX is OFX with Quicken-specific extras.
+ */
+
+export interface OfxTransaction {
+  type: string | null;
+  date: string | null;
+  amount: number | null;
+  fitId: string | null;
+  name: string | null;
+  memo: string | null;
+  checkNumber: string | null;
+}
+
+export interface OfxStatement {
+  currency: string | null;
+  transactions: OfxTransaction[];
+}
+
+const decodeEntities = (value: string): string => {
+  return value
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, '\'')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&');
+};
+
+/**
+ * Values of the leaf elements directly inside an aggregate
+ */
+const readFields = (block: string): Map<string, string> => {
+  const fields = new Map<string, string>();
+  const pattern = /<([A-Z0-9.]+)>([^<\r\n]*)/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(block)) !== null) {
+    const value = decodeEntities(match[2]!.trim());
+    if (value) fields.set(match[1]!.toUpperCase(), value);
+  }
+
+  return fields;
+};
+
+/**
+ * OFX date (YYYYMMDD, optionally followed by time and timezone) as YYYY-MM-DD
+ */
+const toDate = (value: string | undefined): string | null => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+/**
+ * Some institutions write amounts with a decimal comma
+ */
+const toAmount = (value: string | undefined): number | null => {
+  if (!value) return null;
+
+  const amount = Number(value.replace(',', '.'));
+  return Number.isFinite(amount) ? amount : null;
+};
+
+export const parseOfx = (text: string): OfxStatement => {
+  if (!/<OFX>/i.test(text)) {
+    throw new Error('Not an OFX document');
+  }
+
+  const currency = text.match(/<CURDEF>\s*([A-Z]{3})/i)?.[1]?.toUpperCase() ?? null;
+  const transactions: OfxTransaction[] = [];
+  const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+  for (const block of blocks) {
+    const fields = readFields(block);
+
+    transactions.push({
+      type: fields.get('TRNTYPE') ?? null,
+      date: toDate(fields.get('DTPOSTED')),
+      amount: toAmount(fields.get('TRNAMT')),
+      fitId: fields.get('FITID') ?? null,
+      name: fields.get('NAME') ?? null,
+      memo: fields.get('MEMO') ?? null,
+      checkNumber: fields.get('CHECKNUM') ?? null
+    });
+  }
+
+  return { currency, transactions };
+};
@@ -0,0 +1,193 @@
+import { ReceiptExtraction, ReceiptField } from '../models/Receipt';
+
+/**
+ * Heuristics for reading the merchant, date, total and tax from the text
+ * lines OCR found on a receipt. Each field's confidence is the OCR
+ * confidence of the line it came from, lowered when the rule that matched
+ * it is a guess.
+ */
+
+export interface OcrLine {
+  text: string;
+  // 0-1
+  confidence: number;
+}
+
+// Amounts with two decimals: 7.00, 1,234.56, 1.234,56, 1 234,56
+const AMOUNT = /(\d{1,3}(?:[ .,]\d{3})+|\d+)[.,](\d{2})(?!\d)/g;
+
+const TOTAL_LABEL = /\b(grand\s*total|amount\s*due|balance\s*due|total\s*due|total)\b/i;
+const NOT_TOTAL_LABEL = /\b(sub\s*-?\s*total|tax|vat|gst|hst|savings?|discount|items?|qty|change|tendered|cash)\b/i;
+const STRONG_TOTAL_LABEL = /\b(grand\s*total|amount\s*due|balance\s*due|total\s*due)\b/i;
+const TAX_LABEL = /\b(tax|vat|gst|hst|pst|mwst|iva)\b/i;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+
+// Lines at the top of a receipt that are not the merchant name
+const NOT_MERCHANT = /\b(receipt|invoice|welcome|thank|tel|phone|fax|www\.|https?:|store\s*#|order|table|server|cashier)\b/i;
+
+const none = <T>(): ReceiptField<T> => ({ value: null, confidence: 0 });
+
+const field = <T>(value: T, lineConfidence: number, weight: number): ReceiptField<T> => ({
+  value,
+  confidence: Math.round(lineConfidence * weight * 100) / 100
+});
+
+/**
+ * The amounts on a line, in the order they appear
+ */
+export const parseAmounts = (text: string): number[] =>
+  Array.from(text.matchAll(AMOUNT), ([, whole, cents]) =>
+    Number(`${whole!.replace(/[ .,]/g, '')}.${cents}`)
+  );
+
+const lastAmount = (text: string): number | undefined => parseAmounts(text).pop();
+
+const isoDate = (year: number, month: number, day: number): string | null => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+
+  if (date.getUTCFullYear() !== fullYear || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * The first date on a line as YYYY-MM-DD, with how sure the reading is.
+ * Numeric dates where both parts could be the month are read month first
+ * with a slash and day first otherwise, at lower confidence.
+ */
+export const parseDate = (text: string): { value: string; weight: number } | null => {
+  let match = text.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/);
+  if (match) {
+    const value = isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+    if (value) return { value, weight: 1 };
+  }
+
+  match = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_NAME},?\\s+(\\d{2,4})\\b`, 'i'));
+  if (match) {
+    const value = isoDate(Number(match[3]), MONTHS.indexOf(match[2]!.toLowerCase()) + 1, Number(match[1]));
+    if (value) return { value, weight: 1 };
+  }
+
+  match = text.match(new RegExp(`\\b${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{2,4})\\b`, 'i'));
+  if (match) {
+    const value = isoDate(Number(match[3]), MONTHS.indexOf(match[1]!.toLowerCase()) + 1, Number(match[2]));
+    if (value) return { value, weight: 1 };
+  }
+
+  match = text.match(/\b(\d{1,2})([-/.])(\d{1,2})\2(\d{4}|\d{2})\b/);
+  if (match) {
+    const first = Number(match[1]);
+    const second = Number(match[3]);
+    const year = Number(match[4]);
+
+    if (first > 12) {
+      const value = isoDate(year, second, first);
+      if (value) return { value, weight: 1 };
+    } else if (second > 12) {
+      const value = isoDate(year, first, second);
+      if (value) return { value, weight: 1 };
+    } else {
+      const value = match[2] === '/' ? isoDate(year, first, second) : isoDate(year, second, first);
+      if (value) return { value, weight: 0.6 };
+    }
+  }
+
+  return null;
+};
+
+const findMerchant = (lines: OcrLine[]): ReceiptField<string> => {
+  for (const line of lines.slice(0, 5)) {
+    const text = line.text.replace(/\s+/g, ' ').replace(/^[^\p{L}\d]+|[^\p{L}\d.)]+$/gu, '');
+    const letters = text.match(/\p{L}/gu)?.length ?? 0;
+
+    if (letters < 3 || letters < text.length / 2) continue;
+    if (NOT_MERCHANT.test(text) || parseDate(text) || parseAmounts(text).length > 0) continue;
+
+    return field(text.slice(0, 100), line.confidence, 0.8);
+  }
+
+  return none();
+};
+
+const findDate = (lines: OcrLine[]): ReceiptField<string> => {
+  let best: ReceiptField<string> = none();
+
+  for (const line of lines) {
+    const date = parseDate(line.text);
+    if (!date) continue;
+
+    // A line labelled as the date beats an unlabelled one
+    const weight = /\bdate\b/i.test(line.text) ? date.weight : date.weight * 0.9;
+    const candidate = field(date.value, line.confidence, weight);
+
+    if (candidate.confidence > best.confidence) best = candidate;
+  }
+
+  return best;
+};
+
+const findTotal = (lines: OcrLine[]): ReceiptField<number> => {
+  // The last labelled total is the final amount, after any subtotals
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i]!;
+    if (!TOTAL_LABEL.test(line.text) || NOT_TOTAL_LABEL.test(line.text)) continue;
+
+    const amount = lastAmount(line.text);
+    if (amount !== undefined) {
+      return field(amount, line.confidence, STRONG_TOTAL_LABEL.test(line.text) ? 1 : 0.9);
+    }
+  }
+
+  // Without a label, the largest amount on the receipt is usually the total
+  let best: ReceiptField<number> = none();
+  for (const line of lines) {
+    for (const amount of parseAmounts(line.text)) {
+      if (best.value === null || amount > best.value) {
+        best = field(amount, line.confidence, 0.5);
+      }
+    }
+  }
+
+  return best;
+};
+
+const findTax = (lines: OcrLine[], total: number | null): ReceiptField<number> => {
+  const taxLines = lines
+    .filter(line => TAX_LABEL.test(line.text) && !/\b(before|excl\.?|excluding|pre)\s*-?\s*tax\b/i.test(line.text))
+    .map(line => ({ line, amount: lastAmount(line.text) }))
+    .filter((entry): entry is { line: OcrLine; amount: number } =>
+      entry.amount !== undefined && (total === null || entry.amount < total));
+
+  if (taxLines.length === 0) return none();
+
+  // A tax total line already adds up the individual taxes
+  const summary = taxLines.find(entry => /\btotal\b/i.test(entry.line.text));
+  if (summary) return field(summary.amount, summary.line.confidence, 0.9);
+
+  const cents = taxLines.reduce((sum, entry) => sum + Math.round(entry.amount * 100), 0);
+  const confidence = Math.min(...taxLines.map(entry => entry.line.confidence));
+
+  return field(cents / 100, confidence, taxLines.length === 1 ? 0.9 : 0.8);
+};
+
+/**
+ * Read the receipt fields from OCR lines in reading order
+ */
+export const extractReceiptFields = (lines: OcrLine[]): ReceiptExtraction['fields'] => {
+  const cleaned = lines
+    .map(line => ({ text: line.text.trim(), confidence: line.confidence }))
+    .filter(line => line.text !== '');
+
+  const total = findTotal(cleaned);
+
+  return {
+    merchant: findMerchant(cleaned),
+    date: findDate(cleaned),
+    total,
+    tax: findTax(cleaned, total.value)
+  };
+};
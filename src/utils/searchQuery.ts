@@ -0,0 +1,158 @@
+import { HighlightSegment } from '../models/Transaction';
+
+/**
+ * The transaction search syntax: free words and "quoted phrases" are
+ * searched in the text of transactions (a leading - excludes them), and
+ * filters narrow the results:
+ *
+ *   amount>50  amount<=20.5  amount:12
+ *   before:2026-01-01  after:2025-12-01  on:2025-12-24  date>=2025-12-01
+ *   tag:travel  category:Food  account:"Joint checking"  merchant:ikea  type:expense
+ *
+ * Words become a to_tsquery expression built only from letters, digits
+ * and operators, so user input never reaches the tsquery parser as syntax.
+ */
+
+export type ComparisonOperator = '=' | '<' | '<=' | '>' | '>=';
+
+export interface Comparison<T> {
+  operator: ComparisonOperator;
+  value: T;
+}
+
+export interface ParsedSearchQuery {
+  // to_tsquery('simple', ...) input; null when the query has only filters
+  text: string | null;
+  amounts: Comparison<number>[];
+  dates: Comparison<string>[];
+  // All must be present
+  tags: string[];
+  // Any may match
+  categories: string[];
+  accounts: string[];
+  merchants: string[];
+  types: string[];
+}
+
+// [-]key(op)value or [-]"phrase" or a bare term
+const TOKEN = /(-)?(?:([a-z]+)(>=|<=|:|>|<|=))?(?:"([^"]*)"?|(\S+))/gi;
+
+const NAME_FILTERS = { tag: 'tags', category: 'categories', account: 'accounts', merchant: 'merchants' } as const;
+
+const DATE_KEYWORDS: Record<string, ComparisonOperator> = { before: '<', after: '>', on: '=' };
+
+const TYPES = ['income', 'expense', 'transfer'];
+
+const AMOUNT = /^\d+(\.\d{1,2})?$/;
+
+// Marks around matches in ts_headline output; neither can be typed in a form
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_STOP = '\u0003';
+
+/**
+ * Searchable words of a term, as the 'simple' text search parser splits them
+ */
+const words = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+const isDate = (value: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+/**
+ * Parse a search query. Throws an Error describing the first invalid filter.
+ */
+export const parseSearchQuery = (input: string): ParsedSearchQuery => {
+  const parsed: ParsedSearchQuery = {
+    text: null,
+    amounts: [],
+    dates: [],
+    tags: [],
+    categories: [],
+    accounts: [],
+    merchants: [],
+    types: []
+  };
+  const terms: string[] = [];
+
+  for (const [token, negated, rawKey, rawOperator, quoted, bare] of input.matchAll(TOKEN)) {
+    const key = rawKey?.toLowerCase();
+    const operator = rawOperator === ':' ? '=' : rawOperator as ComparisonOperator | undefined;
+    const value = (quoted ?? bare ?? '').trim();
+
+    const isFilter = key !== undefined && (key === 'amount' || key === 'date' || key === 'type'
+      || key in NAME_FILTERS || key in DATE_KEYWORDS);
+
+    if (!isFilter) {
+      // A quoted value is a phrase; a bare token (even key:value) is its words
+      const termWords = words(quoted !== undefined && !rawKey ? quoted : token.replace(/^-/, ''));
+      if (termWords.length === 0) continue;
+
+      const term = quoted !== undefined && !rawKey
+        ? termWords.join(' <-> ')
+        : termWords.map(word => `${word}:*`).join(' & ');
+      terms.push(negated ? `!(${term})` : termWords.length > 1 ? `(${term})` : term);
+      continue;
+    }
+
+    if (negated) {
+      throw new Error(`Filters cannot be excluded: ${token}`);
+    }
+    if (!value) {
+      throw new Error(`The ${key} filter needs a value`);
+    }
+
+    if (key === 'amount') {
+      if (!AMOUNT.test(value)) {
+        throw new Error(`Invalid amount: ${value}`);
+      }
+      parsed.amounts.push({ operator: operator!, value: Number(value) });
+    } else if (key === 'date' || key in DATE_KEYWORDS) {
+      if (!isDate(value)) {
+        throw new Error(`Invalid date (use YYYY-MM-DD): ${value}`);
+      }
+      if (key !== 'date' && operator !== '=') {
+        throw new Error(`Use ${key}:${value}`);
+      }
+      parsed.dates.push({ operator: key === 'date' ? operator! : DATE_KEYWORDS[key]!, value });
+    } else if (operator !== '=') {
+      throw new Error(`Use ${key}:${value}`);
+    } else if (key === 'type') {
+      if (!TYPES.includes(value.toLowerCase())) {
+        throw new Error(`Invalid type: ${value} (use ${TYPES.join(', ')})`);
+      }
+      parsed.types.push(value.toLowerCase());
+    } else {
+      parsed[NAME_FILTERS[key as keyof typeof NAME_FILTERS]].push(value);
+    }
+  }
+
+  parsed.text = terms.length > 0 ? terms.join(' & ') : null;
+
+  const hasFilter = parsed.amounts.length + parsed.dates.length + parsed.tags.length + parsed.categories.length
+    + parsed.accounts.length + parsed.merchants.length + parsed.types.length > 0;
+  if (!parsed.text && !hasFilter) {
+    throw new Error('The search query has no words or filters');
+  }
+
+  return parsed;
+};
+
+/**
+ * Split ts_headline output into plain and matched segments; null when
+ * nothing in it matched
+ */
+export const highlightSegments = (headline: string | null): HighlightSegment[] | null => {
+  if (!headline || !headline.includes(HIGHLIGHT_START)) return null;
+
+  const segments: HighlightSegment[] = [];
+  for (const part of headline.split(HIGHLIGHT_START)) {
+    const [matched, rest] = part.includes(HIGHLIGHT_STOP) ? part.split(HIGHLIGHT_STOP, 2) : [null, part];
+    if (matched) segments.push({ text: matched, match: true });
+    if (rest) segments.push({ text: rest, match: false });
+  }
+
+  return segments;
+};
@@ -0,0 +1,28 @@
+import { Writable } from 'stream';
+
+/**
+ * Write a chunk and wait for the stream to drain when its buffer is full.
+ * Rejects if the stream closes first, e.g. when an HTTP client disconnects
+ * in the middle of a download.
+ */
+export const writeChunk = async (out: Writable, chunk: string | Buffer): Promise<void> => {
+  if (out.destroyed || out.writableEnded) {
+    throw new Error('Output stream closed');
+  }
+
+  if (out.write(chunk)) return;
+
+  await new Promise<void>((resolve, reject) => {
+    const onDrain = (): void => {
+      out.off('close', onClose);
+      resolve();
+    };
+    const onClose = (): void => {
+      out.off('drain', onDrain);
+      reject(new Error('Output stream closed'));
+    };
+
+    out.once('drain', onDrain);
+    out.once('close', onClose);
+  });
+};
@@ -0,0 +1,41 @@
+/**
+ * A readable device name from a User-Agent header, such as
+ * "Chrome on macOS" or "Safari on iPhone". Only the common browsers and
+ * platforms are told apart; anything else falls back to a generic name.
+ */
+
+// Checked in order: Edge and Opera also claim to be Chrome, Chrome claims to be Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/\bEdg(e|A|iOS)?\//, 'Edge'],
+  [/\b(OPR|Opera)\//, 'Opera'],
+  [/\b(Firefox|FxiOS)\//, 'Firefox'],
+  [/\bSamsungBrowser\//, 'Samsung Internet'],
+  [/\b(Chrome|CriOS|Chromium)\//, 'Chrome'],
+  [/\bVersion\/[\d.]+.*\bSafari\//, 'Safari']
+];
+
+// iPad and iPhone user agents also mention Mac OS X, Android ones Linux
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/\biPad\b/, 'iPad'],
+  [/\biPhone\b/, 'iPhone'],
+  [/\bAndroid\b/, 'Android'],
+  [/\bWindows\b/, 'Windows'],
+  [/\bCrOS\b/, 'ChromeOS'],
+  [/\bMac OS X\b|\bMacintosh\b/, 'macOS'],
+  [/\bLinux\b/, 'Linux']
+];
+
+const match = (userAgent: string, patterns: Array<[RegExp, string]>): string | null =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null;
+
+export const describeUserAgent = (userAgent: string | null | undefined): string => {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = match(userAgent, BROWSERS);
+  const platform = match(userAgent, PLATFORMS);
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? 'Unknown device';
+};
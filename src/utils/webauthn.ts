@@ -0,0 +1,283 @@
+import { createHash, createPublicKey, KeyObject, timingSafeEqual, verify } from 'crypto';
+import { CborValue, decodeCbor, decodeCborItem } from './cbor';
+import { AuthenticationCredential, RegistrationCredential } from '../models/Passkey';
+
+/**
+ * Server-side checks of the WebAuthn ceremonies (https://www.w3.org/TR/webauthn-2/):
+ * registration (§7.1) and authentication (§7.2). Attestation statements are
+ * not checked: credentials are requested with attestation "none", since we
+ * only need to recognise the passkey later, not vouch for its make.
+ */
+
+// COSE algorithm identifiers (RFC 9053), in order of preference
+export const COSE_ALGORITHMS = {
+  ES256: -7,
+  EdDSA: -8,
+  RS256: -257
+} as const;
+
+export const SUPPORTED_ALGORITHMS: number[] = Object.values(COSE_ALGORITHMS);
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+const FLAG_EXTENSION_DATA = 0x80;
+
+export class WebAuthnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebAuthnError';
+  }
+}
+
+export interface AuthenticatorData {
+  rpIdHash: Buffer;
+  userPresent: boolean;
+  userVerified: boolean;
+  signCount: number;
+  // Only present when registering
+  attestedCredential?: {
+    credentialId: Buffer;
+    publicKey: Map<CborValue, CborValue>;
+  };
+}
+
+export interface ExpectedCeremony {
+  challenge: string;
+  origins: string[];
+  rpId: string;
+  requireUserVerification: boolean;
+}
+
+export interface VerifiedRegistration {
+  credentialId: string;
+  // SubjectPublicKeyInfo (DER), base64url encoded
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+  transports: string[];
+}
+
+const sha256 = (data: Buffer | string): Buffer => createHash('sha256').update(data).digest();
+
+const sameBytes = (a: Buffer, b: Buffer): boolean => a.length === b.length && timingSafeEqual(a, b);
+
+/**
+ * Parse authenticator data: the RP ID hash, flags, signature counter and,
+ * when registering, the new credential
+ */
+export const parseAuthenticatorData = (data: Buffer): AuthenticatorData => {
+  if (data.length < 37) {
+    throw new WebAuthnError('Authenticator data is too short');
+  }
+
+  const flags = data.readUInt8(32);
+  const parsed: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    userPresent: (flags & FLAG_USER_PRESENT) !== 0,
+    userVerified: (flags & FLAG_USER_VERIFIED) !== 0,
+    signCount: data.readUInt32BE(33)
+  };
+  let offset = 37;
+
+  try {
+    if (flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+      // 16 byte AAGUID, then the credential ID with its length
+      const idLength = data.readUInt16BE(offset + 16);
+      const credentialId = data.subarray(offset + 18, offset + 18 + idLength);
+      if (credentialId.length !== idLength) {
+        throw new WebAuthnError('Authenticator data is truncated');
+      }
+
+      const publicKey = decodeCborItem(data, offset + 18 + idLength);
+      if (!(publicKey.value instanceof Map)) {
+        throw new WebAuthnError('Credential public key is not a COSE key');
+      }
+
+      parsed.attestedCredential = { credentialId, publicKey: publicKey.value };
+      offset = publicKey.offset;
+    }
+
+    if (flags & FLAG_EXTENSION_DATA) {
+      offset = decodeCborItem(data, offset).offset;
+    }
+  } catch (error) {
+    if (error instanceof WebAuthnError) throw error;
+    throw new WebAuthnError('Authenticator data is malformed');
+  }
+
+  if (offset !== data.length) {
+    throw new WebAuthnError('Authenticator data has trailing bytes');
+  }
+
+  return parsed;
+};
+
+/**
+ * Convert a COSE public key (RFC 9052 §7) to a Node key, checking it fits its algorithm
+ */
+export const coseToPublicKey = (coseKey: Map<CborValue, CborValue>): { key: KeyObject; algorithm: number } => {
+  const kty = coseKey.get(1);
+  const algorithm = coseKey.get(3);
+  const bytes = (label: number): string => {
+    const value = coseKey.get(label);
+    if (!Buffer.isBuffer(value)) {
+      throw new WebAuthnError('Credential public key is incomplete');
+    }
+    return value.toString('base64url');
+  };
+
+  let jwk: Record<string, string>;
+
+  if (algorithm === COSE_ALGORITHMS.ES256 && kty === 2 && coseKey.get(-1) === 1) {
+    jwk = { kty: 'EC', crv: 'P-256', x: bytes(-2), y: bytes(-3) };
+  } else if (algorithm === COSE_ALGORITHMS.EdDSA && kty === 1 && coseKey.get(-1) === 6) {
+    jwk = { kty: 'OKP', crv: 'Ed25519', x: bytes(-2) };
+  } else if (algorithm === COSE_ALGORITHMS.RS256 && kty === 3) {
+    jwk = { kty: 'RSA', n: bytes(-1), e: bytes(-2) };
+  } else {
+    throw new WebAuthnError('Unsupported credential algorithm');
+  }
+
+  try {
+    return { key: createPublicKey({ key: jwk, format: 'jwk' }), algorithm };
+  } catch {
+    throw new WebAuthnError('Credential public key is invalid');
+  }
+};
+
+/**
+ * The challenge a credential answers, to look up the ceremony it belongs to
+ * before verifying it
+ */
+export const readChallenge = (clientDataJSON: string): string => {
+  try {
+    const { challenge } = JSON.parse(Buffer.from(clientDataJSON, 'base64url').toString('utf8'));
+    if (typeof challenge !== 'string') {
+      throw new Error('missing challenge');
+    }
+    return challenge;
+  } catch {
+    throw new WebAuthnError('Client data is malformed');
+  }
+};
+
+const checkClientData = (clientDataJSON: string, type: string, expected: ExpectedCeremony): void => {
+  let clientData: { type?: unknown; challenge?: unknown; origin?: unknown; crossOrigin?: unknown };
+  try {
+    clientData = JSON.parse(Buffer.from(clientDataJSON, 'base64url').toString('utf8'));
+  } catch {
+    throw new WebAuthnError('Client data is malformed');
+  }
+
+  if (clientData.type !== type) {
+    throw new WebAuthnError('Unexpected ceremony type');
+  }
+  if (typeof clientData.challenge !== 'string' ||
+      !sameBytes(Buffer.from(clientData.challenge), Buffer.from(expected.challenge))) {
+    throw new WebAuthnError('Challenge does not match');
+  }
+  if (typeof clientData.origin !== 'string' || !expected.origins.includes(clientData.origin)) {
+    throw new WebAuthnError('Origin is not allowed');
+  }
+  if (clientData.crossOrigin === true) {
+    throw new WebAuthnError('Cross-origin ceremonies are not allowed');
+  }
+};
+
+const checkAuthenticatorData = (authData: AuthenticatorData, expected: ExpectedCeremony): void => {
+  if (!sameBytes(authData.rpIdHash, sha256(expected.rpId))) {
+    throw new WebAuthnError('Credential is for another site');
+  }
+  if (!authData.userPresent) {
+    throw new WebAuthnError('User presence was not confirmed');
+  }
+  if (expected.requireUserVerification && !authData.userVerified) {
+    throw new WebAuthnError('User verification is required');
+  }
+};
+
+/**
+ * Verify the response to navigator.credentials.create() and return the
+ * credential to store
+ */
+export const verifyRegistration = (
+  credential: RegistrationCredential,
+  expected: ExpectedCeremony
+): VerifiedRegistration => {
+  checkClientData(credential.response.clientDataJSON, 'webauthn.create', expected);
+
+  let attestation: CborValue;
+  try {
+    attestation = decodeCbor(Buffer.from(credential.response.attestationObject, 'base64url'));
+  } catch {
+    throw new WebAuthnError('Attestation object is malformed');
+  }
+
+  const authDataBytes = attestation instanceof Map ? attestation.get('authData') : undefined;
+  if (!Buffer.isBuffer(authDataBytes)) {
+    throw new WebAuthnError('Attestation object is malformed');
+  }
+
+  const authData = parseAuthenticatorData(authDataBytes);
+  checkAuthenticatorData(authData, expected);
+
+  if (!authData.attestedCredential) {
+    throw new WebAuthnError('No credential was created');
+  }
+
+  const { credentialId, publicKey } = authData.attestedCredential;
+  if (!sameBytes(credentialId, Buffer.from(credential.rawId, 'base64url'))) {
+    throw new WebAuthnError('Credential ID does not match');
+  }
+
+  const { key, algorithm } = coseToPublicKey(publicKey);
+
+  return {
+    credentialId: credentialId.toString('base64url'),
+    publicKey: key.export({ type: 'spki', format: 'der' }).toString('base64url'),
+    algorithm,
+    signCount: authData.signCount,
+    transports: credential.response.transports ?? []
+  };
+};
+
+/**
+ * Verify the response to navigator.credentials.get() against a stored
+ * credential. Returns the new signature counter to store.
+ */
+export const verifyAuthentication = (
+  credential: AuthenticationCredential,
+  expected: ExpectedCeremony & { publicKey: string; algorithm: number; signCount: number }
+): { signCount: number } => {
+  checkClientData(credential.response.clientDataJSON, 'webauthn.get', expected);
+
+  const authDataBytes = Buffer.from(credential.response.authenticatorData, 'base64url');
+  const authData = parseAuthenticatorData(authDataBytes);
+  checkAuthenticatorData(authData, expected);
+
+  // The signature covers the authenticator data followed by the hash of the client data
+  const signed = Buffer.concat([authDataBytes, sha256(Buffer.from(credential.response.clientDataJSON, 'base64url'))]);
+  const signature = Buffer.from(credential.response.signature, 'base64url');
+  const key = createPublicKey({ key: Buffer.from(expected.publicKey, 'base64url'), format: 'der', type: 'spki' });
+
+  let valid: boolean;
+  try {
+    valid = expected.algorithm === COSE_ALGORITHMS.EdDSA
+      ? verify(null, signed, key, signature)
+      : verify('sha256', signed, expected.algorithm === COSE_ALGORITHMS.ES256 ? { key, dsaEncoding: 'der' } : key, signature);
+  } catch {
+    valid = false;
+  }
+  if (!valid) {
+    throw new WebAuthnError('Signature is invalid');
+  }
+
+  // Authenticators that keep a counter must increase it; a counter that
+  // went backwards suggests the credential was copied
+  if ((authData.signCount > 0 || expected.signCount > 0) && authData.signCount <= expected.signCount) {
+    throw new WebAuthnError('Signature counter did not increase');
+  }
+
+  return { signCount: authData.signCount };
+};
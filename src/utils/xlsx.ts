@@ -0,0 +1,115 @@
+import { Writable } from 'stream';
+import { ZipWriter } from './zip';
+
+/**
+ * Streaming single-sheet XLSX writer (Office Open XML SpreadsheetML).
+ * Text is written as inline strings so no shared string table has to be
+ * held in memory; rows are written as they arrive.
+ */
+
+export type XlsxCell = string | number | Date | null | undefined;
+
+// Largest number of rows a worksheet can hold
+export const XLSX_MAX_ROWS = 1048576;
+
+const NAMESPACE = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Days between the spreadsheet epoch (1899-12-30) and the Unix epoch
+const EPOCH_OFFSET_DAYS = 25569;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Control characters are not allowed in XML 1.0 documents
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+const escapeXml = (value: string): string => value
+  .replace(INVALID_XML_CHARS, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const staticParts = (sheetName: string): Array<[string, string]> => [
+  ['[Content_Types].xml', `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    '</Types>'],
+  ['_rels/.rels', `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    `<Relationship Id="rId1" Type="${RELATIONSHIPS}/officeDocument" Target="xl/workbook.xml"/>` +
+    '</Relationships>'],
+  ['xl/workbook.xml', `${XML_DECLARATION}<workbook xmlns="${NAMESPACE}" xmlns:r="${RELATIONSHIPS}">` +
+    `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+    '</workbook>'],
+  ['xl/_rels/workbook.xml.rels', `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    `<Relationship Id="rId1" Type="${RELATIONSHIPS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+    `<Relationship Id="rId2" Type="${RELATIONSHIPS}/styles" Target="styles.xml"/>` +
+    '</Relationships>'],
+  // Style 1 formats date cells with the built-in short date format
+  ['xl/styles.xml', `${XML_DECLARATION}<styleSheet xmlns="${NAMESPACE}">` +
+    '<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="1"><fill><patternFill patternType="none"/></fill></fills>' +
+    '<borders count="1"><border/></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>' +
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+    '</styleSheet>']
+];
+
+const cellXml = (value: XlsxCell): string => {
+  if (value === null || value === undefined || value === '') return '<c/>';
+
+  if (value instanceof Date) {
+    return `<c s="1"><v>${value.getTime() / MS_PER_DAY + EPOCH_OFFSET_DAYS}</v></c>`;
+  }
+
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c><v>${value}</v></c>` : '<c/>';
+  }
+
+  return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const rowXml = (cells: XlsxCell[]): string => `<row>${cells.map(cellXml).join('')}</row>`;
+
+/**
+ * Write a workbook with one sheet: a header row, then the rows of every
+ * batch produced by `batches`. Dates are written as date cells (use UTC midnight for dates
+ * without a time). Rows past the worksheet limit raise an error.
+ */
+export const writeXlsx = async (
+  out: Writable,
+  sheetName: string,
+  headers: string[],
+  batches: AsyncIterable<XlsxCell[][]>
+): Promise<void> => {
+  const zip = new ZipWriter(out);
+
+  for (const [name, content] of staticParts(sheetName)) {
+    await zip.addEntry(name, [content]);
+  }
+
+  await zip.addEntry('xl/worksheets/sheet1.xml', (async function* () {
+    let rowCount = 1;
+
+    yield `${XML_DECLARATION}<worksheet xmlns="${NAMESPACE}"><sheetData>${rowXml(headers)}`;
+
+    for await (const batch of batches) {
+      rowCount += batch.length;
+      if (rowCount > XLSX_MAX_ROWS) {
+        throw new Error(`A worksheet holds at most ${XLSX_MAX_ROWS} rows`);
+      }
+
+      yield batch.map(rowXml).join('');
+    }
+
+    yield '</sheetData></worksheet>';
+  })());
+
+  await zip.finish();
+};
@@ -0,0 +1,215 @@
+import { Writable } from 'stream';
+import { createDeflateRaw, deflateRawSync } from 'zlib';
+import { writeChunk } from './stream';
+
+/**
+ * Minimal ZIP writer (PKWARE APPNOTE: local headers, central directory,
+ * end record). Entries are deflated; no ZIP64, so archives stay under 4GB.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer | string;
+}
+
+interface EntryRecord {
+  name: Buffer;
+  flags: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+// General purpose flags: UTF-8 names, and sizes in a trailing data descriptor
+const FLAG_UTF8 = 0x0800;
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// CRC-32 of data, continuing from the CRC of the bytes before it
+const crc32 = (data: Buffer, previous: number = 0): number => {
+  let crc = previous ^ 0xFFFFFFFF;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xFF]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// MS-DOS date and time fields used by ZIP headers
+const dosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+const localHeader = (entry: EntryRecord, modified: { time: number; date: number }): Buffer => {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034B50, 0);
+  header.writeUInt16LE(20, 4); // version needed to extract
+  header.writeUInt16LE(entry.flags, 6);
+  header.writeUInt16LE(8, 8); // deflate
+  header.writeUInt16LE(modified.time, 10);
+  header.writeUInt16LE(modified.date, 12);
+  header.writeUInt32LE(entry.crc, 14);
+  header.writeUInt32LE(entry.compressedSize, 18);
+  header.writeUInt32LE(entry.size, 22);
+  header.writeUInt16LE(entry.name.length, 26);
+  header.writeUInt16LE(0, 28);
+  return Buffer.concat([header, entry.name]);
+};
+
+const centralHeader = (entry: EntryRecord, modified: { time: number; date: number }): Buffer => {
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(0x02014B50, 0);
+  header.writeUInt16LE(20, 4); // version made by
+  header.writeUInt16LE(20, 6);
+  header.writeUInt16LE(entry.flags, 8);
+  header.writeUInt16LE(8, 10);
+  header.writeUInt16LE(modified.time, 12);
+  header.writeUInt16LE(modified.date, 14);
+  header.writeUInt32LE(entry.crc, 16);
+  header.writeUInt32LE(entry.compressedSize, 20);
+  header.writeUInt32LE(entry.size, 24);
+  header.writeUInt16LE(entry.name.length, 28);
+  header.writeUInt32LE(entry.offset, 42);
+  return Buffer.concat([header, entry.name]);
+};
+
+const endRecord = (entryCount: number, directorySize: number, directoryOffset: number): Buffer => {
+  const record = Buffer.alloc(22);
+  record.writeUInt32LE(0x06054B50, 0);
+  record.writeUInt16LE(entryCount, 8);
+  record.writeUInt16LE(entryCount, 10);
+  record.writeUInt32LE(directorySize, 12);
+  record.writeUInt32LE(directoryOffset, 16);
+  return record;
+};
+
+/**
+ * Build a ZIP archive from in-memory entries
+ */
+export const createZip = (entries: ZipEntry[], modifiedAt: Date = new Date()): Buffer => {
+  const modified = dosDateTime(modifiedAt);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const data = Buffer.isBuffer(entry.data) ? entry.data : Buffer.from(entry.data, 'utf8');
+    const compressed = deflateRawSync(data);
+    const record: EntryRecord = {
+      name: Buffer.from(entry.name, 'utf8'),
+      flags: FLAG_UTF8,
+      crc: crc32(data),
+      compressedSize: compressed.length,
+      size: data.length,
+      offset
+    };
+
+    const header = localHeader(record, modified);
+    localParts.push(header, compressed);
+    centralParts.push(centralHeader(record, modified));
+    offset += header.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+
+  return Buffer.concat([...localParts, centralDirectory, endRecord(entries.length, centralDirectory.length, offset)]);
+};
+
+/**
+ * Writes a ZIP archive to a stream one entry at a time, so entries can be
+ * produced incrementally (e.g. from a database cursor) without holding the
+ * archive in memory. Sizes and CRC follow each entry in a data descriptor.
+ */
+export class ZipWriter {
+  private readonly entries: EntryRecord[] = [];
+  private readonly modified: { time: number; date: number };
+  private offset = 0;
+
+  constructor(private readonly out: Writable, modifiedAt: Date = new Date()) {
+    this.modified = dosDateTime(modifiedAt);
+  }
+
+  /**
+   * Add an entry whose content is produced by an async iterable
+   */
+  async addEntry(name: string, content: AsyncIterable<string | Buffer> | Iterable<string | Buffer>): Promise<void> {
+    const entry: EntryRecord = {
+      name: Buffer.from(name, 'utf8'),
+      flags: FLAG_UTF8 | FLAG_DATA_DESCRIPTOR,
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      offset: this.offset
+    };
+
+    await this.write(localHeader(entry, this.modified));
+
+    // Compressed output is forwarded while the content is still being read;
+    // if the output closes, the deflate stream is torn down with it
+    const deflate = createDeflateRaw();
+    let failure: unknown = null;
+    const forward = (async () => {
+      for await (const compressed of deflate) {
+        entry.compressedSize += (compressed as Buffer).length;
+        await this.write(compressed as Buffer);
+      }
+    })().catch(error => {
+      failure = error;
+      deflate.destroy();
+    });
+
+    try {
+      for await (const piece of content) {
+        const data = Buffer.isBuffer(piece) ? piece : Buffer.from(piece, 'utf8');
+        entry.crc = crc32(data, entry.crc);
+        entry.size += data.length;
+        await writeChunk(deflate, data);
+      }
+      deflate.end();
+    } catch (error) {
+      deflate.destroy();
+      await forward;
+      throw failure ?? error;
+    }
+
+    await forward;
+    if (failure) throw failure;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074B50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    await this.write(descriptor);
+
+    this.entries.push(entry);
+  }
+
+  /**
+   * Write the central directory. The output stream is left open.
+   */
+  async finish(): Promise<void> {
+    const directoryOffset = this.offset;
+    const centralDirectory = Buffer.concat(this.entries.map(entry => centralHeader(entry, this.modified)));
+
+    await this.write(centralDirectory);
+    await this.write(endRecord(this.entries.length, centralDirectory.length, directoryOffset));
+  }
+
+  private async write(chunk: Buffer): Promise<void> {
+    this.offset += chunk.length;
+    await writeChunk(this.out, chunk);
+  }
+}
@@ -1,11 +1,11 @@
-import { Knex } from 'knex';
+import knex, { Knex } from 'knex';
 import knexConfig from '../../knexfile';
 
 // Test database configuration
 export const testDbConfig = knexConfig.test || knexConfig.development;
 
 // Create test database connection
-export const knexTestConfig = require('knex')(testDbConfig);
+export const knexTestConfig: Knex = knex(testDbConfig);
 
 /**
  * Database test utilities
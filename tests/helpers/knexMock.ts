@@ -0,0 +1,57 @@
+/**
+ * Chainable Knex query builder mock for service unit tests.
+ *
+ * Every builder method records its call and returns the builder; awaiting the
+ * builder resolves to `result`. Methods listed in `overrides` return their own
+ * value instead (e.g. `clone` returning a second builder for count queries).
+ */
+export interface QueryBuilderMock {
+  calls: Array<{ method: string; args: unknown[] }>;
+  [method: string]: any;
+}
+
+export const createQueryBuilderMock = (
+  result: unknown,
+  overrides: Record<string, unknown> = {}
+): QueryBuilderMock => {
+  const calls: Array<{ method: string; args: unknown[] }> = [];
+
+  const builder: QueryBuilderMock = new Proxy({ calls } as QueryBuilderMock, {
+    get(target, prop) {
+      if (prop === 'calls') {
+        return target.calls;
+      }
+
+      if (prop === 'then') {
+        return (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+          Promise.resolve(result).then(resolve, reject);
+      }
+
+      return (...args: unknown[]) => {
+        calls.push({ method: String(prop), args });
+
+        // Run nested where-builder callbacks against the same builder
+        args.forEach(arg => {
+          if (typeof arg === 'function') {
+            (arg as (qb: QueryBuilderMock) => void)(builder);
+          }
+        });
+
+        if (Object.prototype.hasOwnProperty.call(overrides, prop)) {
+          return overrides[prop as string];
+        }
+
+        return builder;
+      };
+    }
+  });
+
+  return builder;
+};
+
+/**
+ * Find all recorded calls of a builder method
+ */
+export const callsOf = (builder: QueryBuilderMock, method: string): unknown[][] => {
+  return builder.calls.filter(call => call.method === method).map(call => call.args);
+};
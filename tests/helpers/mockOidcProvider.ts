@@ -0,0 +1,181 @@
+import { createHash, generateKeyPairSync, KeyObject, randomBytes } from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+
+/**
+ * A local OpenID Connect provider for tests. It serves discovery, signing
+ * keys and a token endpoint over HTTP like a real provider, and enforces the
+ * client credentials, redirect URI and PKCE verifier when codes are redeemed.
+ * authorize() stands in for the user approving the sign-in in their browser.
+ */
+
+export interface MockOidcUser {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+}
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  user: MockOidcUser;
+}
+
+const sha256 = (value: string): string => createHash('sha256').update(value).digest('base64url');
+
+export class MockOidcProvider {
+  readonly clientId = 'finance-tracker';
+  readonly clientSecret = 'mock-client-secret';
+  issuer = '';
+  // The account that approves the next sign-in
+  user: MockOidcUser = {
+    sub: 'mock-subject-1',
+    email: 'jane@example.com',
+    email_verified: true,
+    given_name: 'Jane',
+    family_name: 'Doe'
+  };
+  // Claims to replace in issued ID tokens, e.g. another nonce or audience
+  idTokenOverrides: Record<string, unknown> = {};
+  // How many times the signing keys were fetched
+  keyRequests = 0;
+
+  private server: http.Server | null = null;
+  private codes = new Map<string, IssuedCode>();
+  private keyId = '';
+  private privateKey!: KeyObject;
+  private publicKey!: KeyObject;
+
+  constructor() {
+    this.rotateKeys();
+  }
+
+  async start(): Promise<void> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+
+    const { port } = this.server.address() as AddressInfo;
+    this.issuer = `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    // fetch keeps connections alive, which would hold the server open
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => this.server!.close(error => (error ? reject(error) : resolve())));
+    this.server = null;
+  }
+
+  /**
+   * Replace the signing key, as providers do from time to time
+   */
+  rotateKeys(): void {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    this.privateKey = privateKey;
+    this.publicKey = publicKey;
+    this.keyId = randomBytes(8).toString('hex');
+  }
+
+  /**
+   * The user approves the sign-in at the authorization URL; returns the
+   * parameters the provider redirects back to the client with
+   */
+  authorize(authorizationUrl: string): { code: string; state: string } {
+    const url = new URL(authorizationUrl);
+    const param = (name: string) => url.searchParams.get(name) ?? '';
+
+    if (param('response_type') !== 'code' || param('code_challenge_method') !== 'S256' || !param('code_challenge')) {
+      throw new Error('Mock provider only supports the code flow with PKCE (S256)');
+    }
+
+    const code = randomBytes(16).toString('base64url');
+    this.codes.set(code, {
+      clientId: param('client_id'),
+      redirectUri: param('redirect_uri'),
+      codeChallenge: param('code_challenge'),
+      nonce: param('nonce'),
+      user: { ...this.user }
+    });
+
+    return { code, state: param('state') };
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === 'GET' && req.url === '/.well-known/openid-configuration') {
+      return send(200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+        response_types_supported: ['code'],
+        code_challenge_methods_supported: ['S256'],
+        id_token_signing_alg_values_supported: ['RS256']
+      });
+    }
+
+    if (req.method === 'GET' && req.url === '/jwks') {
+      this.keyRequests++;
+      return send(200, { keys: [{ ...this.publicKey.export({ format: 'jwk' }), kid: this.keyId, use: 'sig', alg: 'RS256' }] });
+    }
+
+    if (req.method === 'POST' && req.url === '/token') {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const result = this.redeem(new URLSearchParams(body), req.headers.authorization);
+        send(result.status, result.body);
+      });
+      return;
+    }
+
+    send(404, { error: 'not_found' });
+  }
+
+  private redeem(params: URLSearchParams, authorization: string | undefined): { status: number; body: unknown } {
+    const expectedAuth = `Basic ${Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64')}`;
+    if (authorization !== expectedAuth) {
+      return { status: 401, body: { error: 'invalid_client' } };
+    }
+
+    const code = params.get('code') ?? '';
+    const issued = this.codes.get(code);
+    // Codes can be redeemed once
+    this.codes.delete(code);
+
+    if (
+      params.get('grant_type') !== 'authorization_code' ||
+      !issued ||
+      issued.clientId !== this.clientId ||
+      issued.redirectUri !== params.get('redirect_uri') ||
+      issued.codeChallenge !== sha256(params.get('code_verifier') ?? '')
+    ) {
+      return { status: 400, body: { error: 'invalid_grant' } };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const idToken = jwt.sign({
+      iss: this.issuer,
+      aud: this.clientId,
+      iat: now,
+      exp: now + 300,
+      nonce: issued.nonce,
+      ...issued.user,
+      ...this.idTokenOverrides
+    }, this.privateKey, { algorithm: 'RS256', keyid: this.keyId });
+
+    return {
+      status: 200,
+      body: { access_token: randomBytes(16).toString('base64url'), token_type: 'Bearer', expires_in: 300, id_token: idToken }
+    };
+  }
+}
@@ -0,0 +1,167 @@
+import { createHash, generateKeyPairSync, KeyObject, randomBytes, sign } from 'crypto';
+import type { AuthenticationCredential, RegistrationCredential } from '../../src/models/Passkey';
+
+/**
+ * A software WebAuthn authenticator holding one ES256 passkey, so the
+ * registration and sign-in ceremonies can be tested without hardware.
+ * It answers the way a browser would, including the CBOR encoding of the
+ * attestation object and COSE key.
+ */
+
+type CborInput = number | string | Buffer | CborInput[] | Map<CborInput, CborInput>;
+
+const cborHead = (major: number, length: number): Buffer => {
+  if (length < 24) return Buffer.from([(major << 5) | length]);
+  if (length < 0x100) return Buffer.from([(major << 5) | 24, length]);
+  const head = Buffer.alloc(3);
+  head.writeUInt8((major << 5) | 25);
+  head.writeUInt16BE(length, 1);
+  return head;
+};
+
+export const encodeCbor = (value: CborInput): Buffer => {
+  if (typeof value === 'number') {
+    return value >= 0 ? cborHead(0, value) : cborHead(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([cborHead(3, bytes.length), bytes]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([cborHead(2, value.length), value]);
+  }
+  if (Array.isArray(value)) {
+    return Buffer.concat([cborHead(4, value.length), ...value.map(encodeCbor)]);
+  }
+  return Buffer.concat([
+    cborHead(5, value.size),
+    ...[...value].flatMap(([key, item]) => [encodeCbor(key), encodeCbor(item)])
+  ]);
+};
+
+const sha256 = (data: Buffer | string): Buffer => createHash('sha256').update(data).digest();
+
+export interface SoftwareAuthenticatorOptions {
+  rpId?: string;
+  origin?: string;
+  // Whether the user is verified (PIN or biometrics) when the passkey is used
+  userVerified?: boolean;
+  // Start the counter here; 0 means the authenticator doesn't keep one
+  signCount?: number;
+}
+
+export class SoftwareAuthenticator {
+  readonly credentialId = randomBytes(16);
+  readonly rpId: string;
+  readonly origin: string;
+  userVerified: boolean;
+  signCount: number;
+  userHandle: string | null = null;
+
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+
+  constructor(options: SoftwareAuthenticatorOptions = {}) {
+    this.rpId = options.rpId ?? 'localhost';
+    this.origin = options.origin ?? 'http://localhost:5173';
+    this.userVerified = options.userVerified ?? true;
+    this.signCount = options.signCount ?? 1;
+
+    const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    this.privateKey = privateKey;
+    this.publicKey = publicKey;
+  }
+
+  get id(): string {
+    return this.credentialId.toString('base64url');
+  }
+
+  /**
+   * The public key as the server stores it (SubjectPublicKeyInfo, base64url)
+   */
+  get storedPublicKey(): string {
+    return this.publicKey.export({ type: 'spki', format: 'der' }).toString('base64url');
+  }
+
+  private authenticatorData(attested: boolean): Buffer {
+    const flags = 0x01 | (this.userVerified ? 0x04 : 0) | (attested ? 0x40 : 0);
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(this.signCount);
+
+    const parts = [sha256(this.rpId), Buffer.from([flags]), counter];
+
+    if (attested) {
+      const jwk = this.publicKey.export({ format: 'jwk' });
+      const coseKey = new Map<CborInput, CborInput>([
+        [1, 2],
+        [3, -7],
+        [-1, 1],
+        [-2, Buffer.from(jwk.x!, 'base64url')],
+        [-3, Buffer.from(jwk.y!, 'base64url')]
+      ]);
+      const idLength = Buffer.alloc(2);
+      idLength.writeUInt16BE(this.credentialId.length);
+
+      parts.push(Buffer.alloc(16), idLength, this.credentialId, encodeCbor(coseKey));
+    }
+
+    return Buffer.concat(parts);
+  }
+
+  private clientData(type: string, challenge: string): Buffer {
+    return Buffer.from(JSON.stringify({ type, challenge, origin: this.origin, crossOrigin: false }));
+  }
+
+  /**
+   * navigator.credentials.create(): create the passkey for a user
+   */
+  create(challenge: string, userHandle?: string): RegistrationCredential {
+    this.userHandle = userHandle ?? null;
+
+    const attestationObject = encodeCbor(new Map<CborInput, CborInput>([
+      ['fmt', 'none'],
+      ['attStmt', new Map()],
+      ['authData', this.authenticatorData(true)]
+    ]));
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: this.clientData('webauthn.create', challenge).toString('base64url'),
+        attestationObject: attestationObject.toString('base64url'),
+        transports: ['internal']
+      }
+    };
+  }
+
+  /**
+   * navigator.credentials.get(): sign a challenge with the passkey
+   */
+  get(challenge: string): AuthenticationCredential {
+    if (this.signCount > 0) {
+      this.signCount += 1;
+    }
+
+    const authenticatorData = this.authenticatorData(false);
+    const clientDataJSON = this.clientData('webauthn.get', challenge);
+    const signature = sign(
+      'sha256',
+      Buffer.concat([authenticatorData, sha256(clientDataJSON)]),
+      { key: this.privateKey, dsaEncoding: 'der' }
+    );
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        authenticatorData: authenticatorData.toString('base64url'),
+        signature: signature.toString('base64url'),
+        userHandle: this.userHandle
+      }
+    };
+  }
+}
@@ -0,0 +1,97 @@
+import { knexTestConfig as knex } from '../helpers/database';
+import { AccountBalanceService } from '../../src/services/accountBalanceService';
+import { createAuditLog } from '../../src/middleware/auditLog';
+
+// Reconcile on the test database the migrations ran on
+jest.mock('../../src/config/database', () => ({
+  db: require('../helpers/database').knexTestConfig
+}));
+
+jest.mock('../../src/middleware/auditLog', () => ({
+  AuditEventType: { ACCOUNT_BALANCE_UPDATED: 'account.balance_updated' },
+  createAuditLog: jest.fn()
+}));
+
+describe('Account balance reconciliation of pre-existing history', () => {
+  let checkingId: string;
+  let savingsId: string;
+
+  // Run the pending migrations that come before `file`
+  const migrateUpTo = async (file: string): Promise<void> => {
+    const [, pending] = await knex.migrate.list();
+    for (const migration of pending) {
+      if (migration.file >= file) break;
+      await knex.migrate.up({ name: migration.file });
+    }
+  };
+
+  beforeAll(async () => {
+    await knex.migrate.rollback({}, true);
+    await migrateUpTo('010_add_account_opening_balance.ts');
+
+    // History recorded before balances followed transactions: balances exclude it
+    const [user] = await knex('users').insert({
+      email: 'history@example.com',
+      password_hash: '$2b$12$hash',
+      first_name: 'History',
+      last_name: 'User'
+    }).returning('id');
+
+    [{ id: checkingId }, { id: savingsId }] = await knex('accounts').insert([
+      { user_id: user.id, name: 'Checking', type: 'checking', balance: '1000.00' },
+      { user_id: user.id, name: 'Savings', type: 'savings', balance: '500.00' }
+    ]).returning('id');
+
+    await knex('transactions').insert([
+      { user_id: user.id, account_id: checkingId, type: 'income', amount: '200.00', description: 'Salary', transaction_date: '2026-01-01' },
+      { user_id: user.id, account_id: checkingId, type: 'expense', amount: '50.25', description: 'Groceries', transaction_date: '2026-01-02' },
+      {
+        user_id: user.id,
+        account_id: checkingId,
+        transfer_account_id: savingsId,
+        type: 'transfer',
+        amount: '100.00',
+        description: 'Saving',
+        transaction_date: '2026-01-03'
+      }
+    ]);
+
+    await knex.migrate.latest();
+  });
+
+  afterAll(async () => {
+    await knex.migrate.rollback({}, true);
+    await knex.destroy();
+  });
+
+  it('should keep the stored balance as the opening balance', async () => {
+    const accounts = await knex('accounts').select('id', 'balance', 'opening_balance').orderBy('name');
+
+    expect(accounts).toEqual([
+      { id: checkingId, balance: '1000.00', opening_balance: '1000.00' },
+      { id: savingsId, balance: '500.00', opening_balance: '500.00' }
+    ]);
+  });
+
+  it('should report the history as drift', async () => {
+    const drifts = await AccountBalanceService.reconcile();
+
+    expect(drifts).toHaveLength(2);
+    expect(drifts).toEqual(expect.arrayContaining([
+      expect.objectContaining({ accountId: checkingId, storedBalance: 1000, expectedBalance: 1049.75, drift: -49.75 }),
+      expect.objectContaining({ accountId: savingsId, storedBalance: 500, expectedBalance: 600, drift: -100 })
+    ]));
+  });
+
+  it('should correct the balances when fixing', async () => {
+    await AccountBalanceService.reconcile({ fix: true });
+
+    const accounts = await knex('accounts').select('id', 'balance').orderBy('name');
+    expect(accounts).toEqual([
+      { id: checkingId, balance: '1049.75' },
+      { id: savingsId, balance: '600.00' }
+    ]);
+    expect(createAuditLog).toHaveBeenCalledTimes(2);
+    await expect(AccountBalanceService.reconcile()).resolves.toEqual([]);
+  });
+});
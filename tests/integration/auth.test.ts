@@ -4,6 +4,7 @@ import { createTestApp } from '../helpers/request';
 import { setupTestDatabase, cleanupTestDatabase } from '../helpers/database';
 import { UserService } from '../../src/services/userService';
 import { JwtService } from '../../src/services/jwtService';
+import { SessionService } from '../../src/services/sessionService';
 import { redisClient } from '../../src/config/redis';
 
 describe('Authentication Integration Tests', () => {
@@ -199,7 +200,7 @@ describe('Authentication Integration Tests', () => {
         last_name: 'User'
       });
 
-      const tokens = await JwtService.generateTokenPair(testUser.id, testUser.email);
+      const tokens = await SessionService.startSession(testUser.id, testUser.email, { deviceName: null, userAgent: null, ipAddress: null });
       accessToken = tokens.accessToken;
       refreshToken = tokens.refreshToken;
     });
@@ -226,6 +227,30 @@ describe('Authentication Integration Tests', () => {
       expect(response.body.data.accessToken).toBeDefined();
     });
 
+    it('should rotate the refresh token and revoke the session when an old one is reused', async () => {
+      const rotated = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      // The rotated refresh token is only sent as a cookie
+      expect(rotated.body.data.refreshToken).toBeUndefined();
+      const rotatedCookie = rotated.headers['set-cookie']
+        .find((cookie: string) => cookie.startsWith('refreshToken='));
+      const rotatedRefreshToken = rotatedCookie.split(';')[0].slice('refreshToken='.length);
+      expect(rotatedRefreshToken).not.toBe(refreshToken);
+
+      await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+
+      await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: rotatedRefreshToken })
+        .expect(401);
+    });
+
     it('should reject refresh with invalid token', async () => {
       const response = await request(app)
         .post('/api/v1/auth/refresh')
@@ -255,7 +280,7 @@ describe('Authentication Integration Tests', () => {
         last_name: 'User'
       });
 
-      const tokens = await JwtService.generateTokenPair(testUser.id, testUser.email);
+      const tokens = await SessionService.startSession(testUser.id, testUser.email, { deviceName: null, userAgent: null, ipAddress: null });
       accessToken = tokens.accessToken;
       refreshToken = tokens.refreshToken;
     });
@@ -297,7 +322,7 @@ describe('Authentication Integration Tests', () => {
         last_name: 'User'
       });
 
-      const tokens = await JwtService.generateTokenPair(testUser.id, testUser.email);
+      const tokens = await SessionService.startSession(testUser.id, testUser.email, { deviceName: null, userAgent: null, ipAddress: null });
       accessToken = tokens.accessToken;
     });
 
@@ -375,7 +400,7 @@ describe('Authentication Integration Tests', () => {
         last_name: 'User'
       });
 
-      const tokens = await JwtService.generateTokenPair(testUser.id, testUser.email);
+      const tokens = await SessionService.startSession(testUser.id, testUser.email, { deviceName: null, userAgent: null, ipAddress: null });
       accessToken = tokens.accessToken;
     });
 
@@ -477,7 +502,7 @@ describe('Authentication Integration Tests', () => {
         last_name: 'User'
       });
 
-      const tokens = await JwtService.generateTokenPair(testUser.id, testUser.email);
+      const tokens = await SessionService.startSession(testUser.id, testUser.email, { deviceName: null, userAgent: null, ipAddress: null });
       accessToken = tokens.accessToken;
     });
 
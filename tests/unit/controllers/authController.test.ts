@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { AuthController, AuthenticatedRequest } from '../../../src/controllers/authController';
 import { UserService } from '../../../src/services/userService';
 import { JwtService } from '../../../src/services/jwtService';
+import { SessionService } from '../../../src/services/sessionService';
 import { EmailService } from '../../../src/services/emailService';
 import { logger } from '../../../src/middleware/logging';
 import { formatResponse } from '../../../src/utils/response';
@@ -9,12 +10,17 @@ import { formatResponse } from '../../../src/utils/response';
 // Mock dependencies
 jest.mock('../../../src/services/userService');
 jest.mock('../../../src/services/jwtService');
+jest.mock('../../../src/services/sessionService');
+jest.mock('../../../src/services/twoFactorService');
+jest.mock('../../../src/services/passkeyService');
+jest.mock('../../../src/services/oidcService');
 jest.mock('../../../src/services/emailService');
 jest.mock('../../../src/middleware/logging');
 jest.mock('../../../src/utils/response');
 
 const mockUserService = UserService as jest.Mocked<typeof UserService>;
 const mockJwtService = JwtService as jest.Mocked<typeof JwtService>;
+const mockSessionService = SessionService as jest.Mocked<typeof SessionService>;
 const mockEmailService = EmailService as jest.Mocked<typeof EmailService>;
 const mockLogger = logger as jest.Mocked<typeof logger>;
 const mockFormatResponse = formatResponse as jest.MockedFunction<typeof formatResponse>;
@@ -65,7 +71,8 @@ describe('AuthController', () => {
       ...mockRequest,
       user: {
         userId: 'user-123',
-        email: 'test@example.com'
+        email: 'test@example.com',
+        sessionId: 'session-123'
       }
     };
 
@@ -279,66 +286,58 @@ describe('AuthController', () => {
 
       process.env.NODE_ENV = originalEnv;
     });
-  });
 
-  describe('refresh', () => {
-    it('should refresh access token successfully from cookie', async () => {
-      mockRequest.cookies = { refreshToken: 'refresh-token-123' };
-      
-      const refreshResult = {
-        accessToken: 'new-access-token',
-        accessTokenExpiry: new Date()
-      };
-
-      mockJwtService.refreshAccessToken.mockResolvedValue(refreshResult);
+    it('should return a two-factor challenge instead of tokens when a second factor is needed', async () => {
+      const expiresAt = new Date(Date.now() + 5 * 60 * 1000);
+      mockUserService.authenticateUser.mockResolvedValue({
+        user: mockUser,
+        twoFactorChallenge: { challengeToken: 'challenge-token', expiresAt }
+      });
 
-      await AuthController.refresh(mockRequest as Request, mockResponse as Response, mockNext);
+      await AuthController.login(mockRequest as Request, mockResponse as Response, mockNext);
 
-      expect(mockJwtService.refreshAccessToken).toHaveBeenCalledWith('refresh-token-123');
-      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.cookie).not.toHaveBeenCalled();
       expect(mockFormatResponse).toHaveBeenCalledWith(
-        refreshResult,
-        'Token refreshed successfully'
+        { twoFactorRequired: true, challengeToken: 'challenge-token', expiresAt },
+        'Two-factor authentication required'
       );
     });
+  });
 
-    it('should refresh access token successfully from body', async () => {
-      mockRequest.body = { refreshToken: 'refresh-token-123' };
-      
-      const refreshResult = {
-        accessToken: 'new-access-token',
-        accessTokenExpiry: new Date()
+  describe('refresh', () => {
+    it('should return the new access token and set the rotated refresh token as a cookie', async () => {
+      const accessTokenExpiry = new Date();
+      const refreshTokenExpiry = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+      mockRequest.body = {
+        refreshToken: 'refresh-token-123',
+        newAccessToken: 'new-access-token',
+        accessTokenExpiry,
+        newRefreshToken: 'new-refresh-token',
+        refreshTokenExpiry
       };
 
-      mockJwtService.refreshAccessToken.mockResolvedValue(refreshResult);
-
       await AuthController.refresh(mockRequest as Request, mockResponse as Response, mockNext);
 
-      expect(mockJwtService.refreshAccessToken).toHaveBeenCalledWith('refresh-token-123');
+      expect(mockResponse.cookie).toHaveBeenCalledWith('refreshToken', 'new-refresh-token', {
+        httpOnly: true,
+        secure: false,
+        sameSite: 'strict',
+        expires: refreshTokenExpiry
+      });
       expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockFormatResponse).toHaveBeenCalledWith(
+        { accessToken: 'new-access-token', expiresAt: accessTokenExpiry },
+        'Token refreshed successfully'
+      );
     });
 
-    it('should handle missing refresh token', async () => {
+    it('should handle a request whose refresh token was not rotated', async () => {
       await AuthController.refresh(mockRequest as Request, mockResponse as Response, mockNext);
 
       expect(mockNext).toHaveBeenCalledWith(expect.objectContaining({
         message: 'Refresh token not provided'
       }));
-    });
-
-    it('should handle invalid refresh token', async () => {
-      mockRequest.cookies = { refreshToken: 'invalid-token' };
-      const error = new Error('Invalid refresh token');
-      mockJwtService.refreshAccessToken.mockRejectedValue(error);
-
-      await AuthController.refresh(mockRequest as Request, mockResponse as Response, mockNext);
-
-      expect(mockLogger.error).toHaveBeenCalledWith(
-        'Token refresh failed',
-        { error: error.message }
-      );
-      expect(mockResponse.clearCookie).toHaveBeenCalledWith('refreshToken');
-      expect(mockNext).toHaveBeenCalledWith(error);
+      expect(mockResponse.cookie).not.toHaveBeenCalled();
     });
   });
 
@@ -364,6 +363,7 @@ describe('AuthController', () => {
 
       expect(mockJwtService.blacklistToken).toHaveBeenCalledWith('access-token-123');
       expect(mockJwtService.blacklistToken).toHaveBeenCalledWith('refresh-token-123');
+      expect(mockSessionService.revokeSession).toHaveBeenCalledWith('user-123', 'session-123');
       expect(mockResponse.clearCookie).toHaveBeenCalledWith('refreshToken');
       expect(mockLogger.info).toHaveBeenCalledWith(
         'User logged out successfully',
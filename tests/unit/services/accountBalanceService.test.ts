@@ -0,0 +1,162 @@
+import { AccountBalanceService } from '../../../src/services/accountBalanceService';
+import { TransactionType, TransferDirection } from '../../../src/models/Transaction';
+import { createQueryBuilderMock } from '../../helpers/knexMock';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  db: Object.assign(jest.fn(), { transaction: jest.fn() })
+}));
+
+jest.mock('../../../src/middleware/auditLog', () => ({
+  AuditEventType: { ACCOUNT_BALANCE_UPDATED: 'account.balance_updated' },
+  createAuditLog: jest.fn()
+}));
+
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+const mockCreateAuditLog = require('../../../src/middleware/auditLog').createAuditLog;
+
+describe('AccountBalanceService', () => {
+  // Accounts are locked in sorted id order, so balances are returned in that order
+  const createTrx = (balances: string[]) => {
+    const trx: any = jest.fn();
+    balances.forEach(balance => trx.mockReturnValueOnce(createQueryBuilderMock({ balance })));
+    trx.raw = jest.fn().mockResolvedValue({ rows: [] });
+    return trx;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getBalanceEffects', () => {
+    it('should credit income and debit expenses', () => {
+      expect(AccountBalanceService.getBalanceEffects({
+        type: TransactionType.INCOME, amount: '1200.50', account_id: 'a1', transfer_direction: null
+      })).toEqual([{ accountId: 'a1', amountCents: 120050 }]);
+
+      expect(AccountBalanceService.getBalanceEffects({
+        type: TransactionType.EXPENSE, amount: 19.99, account_id: 'a1', transfer_direction: null
+      })).toEqual([{ accountId: 'a1', amountCents: -1999 }]);
+    });
+
+    it('should debit the outgoing leg and credit the incoming leg of a transfer', () => {
+      expect(AccountBalanceService.getBalanceEffects({
+        type: TransactionType.TRANSFER, amount: '250.00', account_id: 'a1', transfer_direction: TransferDirection.OUTGOING
+      })).toEqual([{ accountId: 'a1', amountCents: -25000 }]);
+
+      expect(AccountBalanceService.getBalanceEffects({
+        type: TransactionType.TRANSFER, amount: '230.00', account_id: 'a2', transfer_direction: TransferDirection.INCOMING
+      })).toEqual([{ accountId: 'a2', amountCents: 23000 }]);
+    });
+  });
+
+  describe('applyTransactionChange', () => {
+    it('should subtract a new expense from its account', async () => {
+      const trx = createTrx(['100.00']);
+
+      const changes = await AccountBalanceService.applyTransactionChange(trx, null, {
+        type: TransactionType.EXPENSE, amount: '42.50', account_id: 'a1', transfer_direction: null
+      });
+
+      expect(trx.raw).toHaveBeenCalledWith('SELECT update_account_balance(?, ?, ?)', ['a1', 42.5, 'subtract']);
+      expect(changes).toEqual([{ accountId: 'a1', previousBalance: 100, newBalance: 57.5, delta: -42.5 }]);
+    });
+
+    it('should net amount edits into a single adjustment', async () => {
+      const trx = createTrx(['57.50']);
+      const before = { type: TransactionType.EXPENSE, amount: '42.50', account_id: 'a1', transfer_direction: null };
+      const after = { ...before, amount: '40.00' };
+
+      const changes = await AccountBalanceService.applyTransactionChange(trx, before, after);
+
+      expect(trx.raw).toHaveBeenCalledTimes(1);
+      expect(trx.raw).toHaveBeenCalledWith('SELECT update_account_balance(?, ?, ?)', ['a1', 2.5, 'add']);
+      expect(changes[0]!.newBalance).toBe(60);
+    });
+
+    it('should move the effect between accounts when the account and type change', async () => {
+      const trx = createTrx(['57.50', '10.00']);
+      const before = { type: TransactionType.EXPENSE, amount: '42.50', account_id: 'a1', transfer_direction: null };
+      const after = { type: TransactionType.INCOME, amount: '42.50', account_id: 'a2', transfer_direction: null };
+
+      await AccountBalanceService.applyTransactionChange(trx, before, after);
+
+      expect(trx.raw).toHaveBeenCalledWith('SELECT update_account_balance(?, ?, ?)', ['a1', 42.5, 'add']);
+      expect(trx.raw).toHaveBeenCalledWith('SELECT update_account_balance(?, ?, ?)', ['a2', 42.5, 'add']);
+    });
+
+    it('should restore the balance when a transaction is deleted', async () => {
+      const trx = createTrx(['57.50']);
+
+      await AccountBalanceService.applyTransactionChange(trx, {
+        type: TransactionType.EXPENSE, amount: '42.50', account_id: 'a1', transfer_direction: null
+      }, null);
+
+      expect(trx.raw).toHaveBeenCalledWith('SELECT update_account_balance(?, ?, ?)', ['a1', 42.5, 'add']);
+    });
+
+    it('should skip accounts whose net change is zero', async () => {
+      const trx = createTrx(['57.50']);
+      const row = { type: TransactionType.EXPENSE, amount: '42.50', account_id: 'a1', transfer_direction: null };
+
+      const changes = await AccountBalanceService.applyTransactionChange(trx, row, { ...row });
+
+      expect(trx.raw).not.toHaveBeenCalled();
+      expect(changes).toEqual([]);
+    });
+  });
+
+  describe('recordBalanceChanges', () => {
+    it('should emit an ACCOUNT_BALANCE_UPDATED audit event per account', async () => {
+      mockCreateAuditLog.mockResolvedValue(undefined);
+
+      await AccountBalanceService.recordBalanceChanges('user-1', [
+        { accountId: 'a1', previousBalance: 100, newBalance: 57.5, delta: -42.5 }
+      ], { transactionId: 'txn-1', reason: 'transaction.created' });
+
+      expect(mockCreateAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        eventType: 'account.balance_updated',
+        userId: 'user-1',
+        resourceType: 'account',
+        resourceId: 'a1',
+        oldValues: { balance: 100 },
+        newValues: { balance: 57.5 },
+        metadata: { delta: -42.5, reason: 'transaction.created', transactionId: 'txn-1' }
+      }));
+    });
+  });
+
+  describe('reconcile', () => {
+    it('should report accounts whose balance drifted from their history', async () => {
+      const trx: any = jest.fn(() => createQueryBuilderMock([
+        { id: 'a1', user_id: 'u1', name: 'Checking', currency: 'USD', balance: '100.00', expected_balance: '57.50' },
+        { id: 'a2', user_id: 'u1', name: 'Savings', currency: 'USD', balance: '10.00', expected_balance: '10.00' }
+      ]));
+      trx.raw = jest.fn();
+      trx.fn = { now: jest.fn() };
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+
+      const drifts = await AccountBalanceService.reconcile();
+
+      expect(drifts).toEqual([{
+        accountId: 'a1',
+        userId: 'u1',
+        name: 'Checking',
+        currency: 'USD',
+        storedBalance: 100,
+        expectedBalance: 57.5,
+        drift: 42.5
+      }]);
+      expect(mockCreateAuditLog).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { AccountService } from '../../../src/services/accountService';
+import { AccountType } from '../../../src/models/Account';
+import { createQueryBuilderMock, callsOf } from '../../helpers/knexMock';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  db: Object.assign(jest.fn(), { transaction: jest.fn(), raw: jest.fn((sql: string) => sql) })
+}));
+
+jest.mock('../../../src/middleware/errorHandler', () => ({
+  AppError: class AppError extends Error {
+    constructor(message: string, public statusCode: number) {
+      super(message);
+    }
+  }
+}));
+
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/accountBalanceService', () => ({
+  AccountBalanceService: {
+    recordBalanceChanges: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/exchangeRateService', () => ({
+  ExchangeRateService: {
+    getBaseCurrency: jest.fn()
+  }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+const mockBalanceService = require('../../../src/services/accountBalanceService').AccountBalanceService;
+const mockExchangeRateService = require('../../../src/services/exchangeRateService').ExchangeRateService;
+
+describe('AccountService', () => {
+  const userId = 'user-123';
+
+  const accountRow = {
+    id: 'account-1',
+    user_id: userId,
+    name: 'Checking',
+    type: AccountType.CHECKING,
+    description: null,
+    balance: '1500.00',
+    opening_balance: '1000.00',
+    currency: 'USD',
+    credit_limit: null,
+    is_active: true,
+    include_in_net_worth: true,
+    display_order: 0,
+    institution_name: null,
+    account_number: null,
+    routing_number: null,
+    metadata: null,
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockExchangeRateService.getBaseCurrency.mockResolvedValue('USD');
+  });
+
+  describe('getNetWorth', () => {
+    it('should treat credit and loan balances as liabilities per currency', async () => {
+      const query = createQueryBuilderMock([
+        { ...accountRow, base_balance: '1500.00' },
+        { ...accountRow, id: 'card', name: 'Card', type: AccountType.CREDIT, balance: '-250.40', base_balance: '-250.40' },
+        { ...accountRow, id: 'loan', name: 'Car loan', type: AccountType.LOAN, balance: '-4000.00', base_balance: '-4000.00' },
+        { ...accountRow, id: 'eur', name: 'Euro savings', type: AccountType.SAVINGS, balance: '300.00', currency: 'EUR', base_balance: '325.50' }
+      ]);
+      mockDb.mockReturnValue(query);
+
+      const result = await AccountService.getNetWorth(userId);
+
+      expect(callsOf(query, 'where')[0]).toEqual([{ user_id: userId, is_active: true, include_in_net_worth: true }]);
+      expect(result.totals).toEqual([
+        { currency: 'EUR', assets: 300, liabilities: 0, netWorth: 300 },
+        { currency: 'USD', assets: 1500, liabilities: 4250.4, netWorth: -2750.4 }
+      ]);
+      expect(result.accounts.filter(account => account.isLiability).map(account => account.id)).toEqual(['card', 'loan']);
+    });
+
+    it('should convert the total to the base currency and report currencies without a rate', async () => {
+      const query = createQueryBuilderMock([
+        { ...accountRow, base_balance: '1500.00' },
+        { ...accountRow, id: 'eur', name: 'Euro savings', type: AccountType.SAVINGS, balance: '300.00', currency: 'EUR', base_balance: '325.50' },
+        { ...accountRow, id: 'xau', name: 'Gold', type: AccountType.INVESTMENT, balance: '2.00', currency: 'XAU', base_balance: null }
+      ]);
+      mockDb.mockReturnValue(query);
+
+      const result = await AccountService.getNetWorth(userId);
+
+      expect(mockDb.raw).toHaveBeenCalledWith(expect.stringContaining('convert_amount'), ['USD']);
+      expect(result.baseCurrency).toBe('USD');
+      expect(result.total).toEqual({ assets: 1825.5, liabilities: 0, netWorth: 1825.5 });
+      expect(result.missingRates).toEqual(['XAU']);
+      expect(result.accounts.map(account => account.baseBalance)).toEqual([1500, 325.5, null]);
+    });
+  });
+
+  describe('createAccount', () => {
+    it('should reject negative balances for asset accounts', async () => {
+      await expect(AccountService.createAccount(userId, { name: 'Cash', type: AccountType.CASH, balance: -5 }))
+        .rejects.toMatchObject({ statusCode: 400 });
+      expect(mockDb.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should store the opening balance and append to the display order', async () => {
+      const insertQuery = createQueryBuilderMock([accountRow]);
+      const trx = jest.fn()
+        .mockReturnValueOnce(createQueryBuilderMock(undefined))
+        .mockReturnValueOnce(createQueryBuilderMock({ max: 2 }))
+        .mockReturnValueOnce(insertQuery);
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+
+      await AccountService.createAccount(userId, {
+        name: 'Checking',
+        type: AccountType.CHECKING,
+        balance: 1000,
+        accountNumber: '1234 5678 9012'
+      });
+
+      expect(callsOf(insertQuery, 'insert')[0]![0]).toMatchObject({
+        balance: 1000,
+        opening_balance: 1000,
+        display_order: 3,
+        account_number: '9012'
+      });
+    });
+  });
+
+  describe('updateAccount', () => {
+    it('should refuse to reactivate when an active account already uses the name', async () => {
+      const trx = jest.fn()
+        .mockReturnValueOnce(createQueryBuilderMock({ ...accountRow, is_active: false }))
+        .mockReturnValueOnce(createQueryBuilderMock({ id: 'account-2' }));
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+
+      await expect(AccountService.updateAccount(userId, 'account-1', { isActive: true }))
+        .rejects.toMatchObject({ message: 'An active account named "Checking" already exists', statusCode: 409 });
+    });
+
+    it('should shift the opening balance by a manual balance adjustment', async () => {
+      const updateQuery = createQueryBuilderMock([{ ...accountRow, balance: '1450.00' }]);
+      const trx: any = jest.fn()
+        .mockReturnValueOnce(createQueryBuilderMock(accountRow))
+        .mockReturnValueOnce(updateQuery);
+      trx.raw = jest.fn((sql: string, bindings: unknown[]) => ({ sql, bindings }));
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+
+      const result = await AccountService.updateAccount(userId, 'account-1', { balance: 1450 });
+
+      expect(result.balance).toBe(1450);
+      expect(callsOf(updateQuery, 'update')[0]![0]).toEqual({
+        balance: 1450,
+        opening_balance: { sql: 'opening_balance + ?', bindings: [-50] }
+      });
+      expect(mockBalanceService.recordBalanceChanges).toHaveBeenCalledWith(userId, [
+        { accountId: 'account-1', previousBalance: 1500, newBalance: 1450, delta: -50 }
+      ], { reason: 'account.balance_adjusted' });
+    });
+
+    it('should not change the currency of an account with transactions', async () => {
+      const trx = jest.fn()
+        .mockReturnValueOnce(createQueryBuilderMock(accountRow))
+        .mockReturnValueOnce(createQueryBuilderMock({ id: 'txn-1' }));
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+
+      await expect(AccountService.updateAccount(userId, 'account-1', { currency: 'EUR' }))
+        .rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('reorderAccounts', () => {
+    it('should reject ids that are not active accounts of the user', async () => {
+      const trx = jest.fn(() => createQueryBuilderMock([{ id: 'account-1' }]));
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+
+      await expect(AccountService.reorderAccounts(userId, ['account-1', 'account-2']))
+        .rejects.toMatchObject({ message: 'Account not found', statusCode: 404 });
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { BudgetAlertService, TriggeredBudgetAlert } from '../../../src/services/budgetAlertService';
+import { BudgetAlertLevel, BudgetModel, BudgetPeriod } from '../../../src/models/Budget';
+import { createQueryBuilderMock, callsOf } from '../../helpers/knexMock';
+
+// Mock dependencies
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/middleware/auditLog', () => ({
+  createAuditLog: jest.fn(),
+  AuditEventType: { BUDGET_ALERT_TRIGGERED: 'budget.alert_triggered' }
+}));
+
+jest.mock('../../../src/services/notificationService', () => ({
+  NotificationService: {
+    createNotification: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/emailService', () => ({
+  EmailService: {
+    sendBudgetAlert: jest.fn()
+  }
+}));
+
+const mockNotificationService = require('../../../src/services/notificationService').NotificationService;
+const mockEmailService = require('../../../src/services/emailService').EmailService;
+const mockLogger = require('../../../src/middleware/logging').logger;
+
+describe('BudgetAlertService', () => {
+  const budget = {
+    id: 'budget-1',
+    user_id: 'user-123',
+    category_id: 'category-1',
+    name: 'Groceries',
+    amount: '400.00',
+    rollover_amount: '0.00',
+    spent_amount: '410.00',
+    currency: 'USD',
+    period: BudgetPeriod.MONTHLY,
+    period_start: new Date(2026, 0, 1),
+    period_end: new Date(2026, 0, 31),
+    alert_threshold: '0.8000',
+    email: 'jo@example.com',
+    first_name: 'Jo',
+    preferences: { notifications: { email: true, budget_alerts: true } }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockNotificationService.createNotification.mockResolvedValue({ id: 'notification-1' });
+  });
+
+  describe('alertLevels', () => {
+    it('should report the threshold and full-amount levels reached', () => {
+      expect(BudgetModel.alertLevels({ ...budget, spent_amount: '319.99' })).toEqual([]);
+      expect(BudgetModel.alertLevels({ ...budget, spent_amount: '320.00' })).toEqual([BudgetAlertLevel.THRESHOLD]);
+      expect(BudgetModel.alertLevels(budget)).toEqual([BudgetAlertLevel.THRESHOLD, BudgetAlertLevel.EXCEEDED]);
+    });
+  });
+
+  describe('checkBudgets', () => {
+    it('should record newly reached levels and notify once for the most severe', async () => {
+      const alerts = createQueryBuilderMock([
+        { id: 'alert-1', level: BudgetAlertLevel.THRESHOLD },
+        { id: 'alert-2', level: BudgetAlertLevel.EXCEEDED }
+      ]);
+      const link = createQueryBuilderMock(2);
+      const trx: any = jest.fn()
+        .mockReturnValueOnce(createQueryBuilderMock([budget]))
+        .mockReturnValueOnce(alerts)
+        .mockReturnValueOnce(link);
+
+      const triggered = await BudgetAlertService.checkBudgets(trx, ['budget-1']);
+
+      expect(callsOf(alerts, 'onConflict')).toEqual([[['budget_id', 'level']]]);
+      expect(mockNotificationService.createNotification).toHaveBeenCalledTimes(1);
+      expect(mockNotificationService.createNotification.mock.calls[0][1]).toMatchObject({
+        userId: 'user-123',
+        type: 'error',
+        title: 'Budget exceeded'
+      });
+      expect(callsOf(link, 'update')).toEqual([[{ notification_id: 'notification-1' }]]);
+      expect(triggered).toEqual([expect.objectContaining({
+        level: BudgetAlertLevel.EXCEEDED,
+        percentage: 102.5,
+        sendEmail: true,
+        periodEnd: '2026-01-31'
+      })]);
+    });
+
+    it('should stay quiet when the levels already fired this period', async () => {
+      const trx: any = jest.fn()
+        .mockReturnValueOnce(createQueryBuilderMock([budget]))
+        .mockReturnValueOnce(createQueryBuilderMock([]));
+
+      expect(await BudgetAlertService.checkBudgets(trx, ['budget-1'])).toEqual([]);
+      expect(mockNotificationService.createNotification).not.toHaveBeenCalled();
+    });
+
+    it('should record but not notify when budget alerts are turned off', async () => {
+      const trx: any = jest.fn()
+        .mockReturnValueOnce(createQueryBuilderMock([{
+          ...budget,
+          preferences: { notifications: { budget_alerts: false } }
+        }]))
+        .mockReturnValueOnce(createQueryBuilderMock([{ id: 'alert-1', level: BudgetAlertLevel.EXCEEDED }]));
+
+      expect(await BudgetAlertService.checkBudgets(trx, ['budget-1'])).toEqual([]);
+      expect(trx).toHaveBeenCalledTimes(2);
+      expect(mockNotificationService.createNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deliverAlerts', () => {
+    it('should log delivery failures instead of throwing', async () => {
+      mockEmailService.sendBudgetAlert.mockRejectedValue(new Error('Email sending failed'));
+      const alert = {
+        userId: 'user-123',
+        email: 'jo@example.com',
+        firstName: 'Jo',
+        sendEmail: true,
+        budgetId: 'budget-1',
+        level: BudgetAlertLevel.THRESHOLD
+      } as TriggeredBudgetAlert;
+
+      await expect(BudgetAlertService.deliverAlerts([alert])).resolves.toBeUndefined();
+      expect(mockLogger.error).toHaveBeenCalledWith('Failed to deliver budget alert', expect.objectContaining({
+        budgetId: 'budget-1'
+      }));
+    });
+  });
+});
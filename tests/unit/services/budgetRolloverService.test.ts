@@ -0,0 +1,171 @@
+import { BudgetRolloverService } from '../../../src/services/budgetRolloverService';
+import { BudgetPeriod } from '../../../src/models/Budget';
+import { createQueryBuilderMock, callsOf } from '../../helpers/knexMock';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  db: Object.assign(jest.fn(), { transaction: jest.fn() })
+}));
+
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/budgetService', () => ({
+  BudgetService: {
+    refreshBudgetSpentAmount: jest.fn()
+  }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+const mockBudgetService = require('../../../src/services/budgetService').BudgetService;
+
+describe('BudgetRolloverService', () => {
+  const expired = {
+    id: 'budget-jan',
+    user_id: 'user-123',
+    category_id: 'category-1',
+    name: 'Groceries',
+    description: null,
+    amount: '400.00',
+    rollover_amount: '0.00',
+    spent_amount: '350.00',
+    currency: 'USD',
+    period: BudgetPeriod.MONTHLY,
+    period_start: new Date(2026, 0, 1),
+    period_end: new Date(2026, 0, 31),
+    is_active: true,
+    rollover_unused: true,
+    rollover_overspent: false,
+    previous_budget_id: null,
+    closed_at: null,
+    alert_threshold: '0.8000',
+    metadata: null
+  };
+
+  const mockTransaction = (builders: unknown[], chain = createQueryBuilderMock({ period_start: expired.period_start })) => {
+    const trx: any = jest.fn(() => builders.shift());
+    trx.fn = { now: jest.fn(() => 'NOW()') };
+    trx.withRecursive = chain.withRecursive;
+    mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+    return trx;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockBudgetService.refreshBudgetSpentAmount.mockResolvedValue(expired);
+  });
+
+  describe('rollOverBudget', () => {
+    it('should close the period and open the next one with the unused amount', async () => {
+      const close = createQueryBuilderMock(1);
+      const insert = createQueryBuilderMock([{ id: 'budget-feb' }]);
+      mockTransaction([
+        createQueryBuilderMock(expired),
+        close,
+        createQueryBuilderMock({ id: 'category-1' }),
+        createQueryBuilderMock(undefined),
+        insert
+      ]);
+
+      const result = await BudgetRolloverService.rollOverBudget('budget-jan', '2026-02-03');
+
+      expect(result).toEqual({ closed: true, nextBudgetId: 'budget-feb' });
+      expect(callsOf(close, 'update')).toEqual([[{ closed_at: 'NOW()' }]]);
+      expect(callsOf(insert, 'insert')[0]![0]).toMatchObject({
+        previous_budget_id: 'budget-jan',
+        amount: '400.00',
+        rollover_amount: 50,
+        period_start: '2026-02-01',
+        period_end: '2026-02-28'
+      });
+      expect(mockBudgetService.refreshBudgetSpentAmount).toHaveBeenLastCalledWith(expect.anything(), 'budget-feb');
+    });
+
+    it('should end the period after a budget started on the 31st the day before the next 31st', async () => {
+      const january = { ...expired, period_start: '2026-01-31', period_end: '2026-02-27' };
+      mockBudgetService.refreshBudgetSpentAmount.mockResolvedValue(january);
+      const insert = createQueryBuilderMock([{ id: 'budget-feb' }]);
+      mockTransaction([
+        createQueryBuilderMock(january),
+        createQueryBuilderMock(1),
+        createQueryBuilderMock({ id: 'category-1' }),
+        createQueryBuilderMock(undefined),
+        insert
+      ], createQueryBuilderMock({ period_start: '2026-01-31' }));
+
+      await BudgetRolloverService.rollOverBudget('budget-jan', '2026-03-01');
+
+      expect(callsOf(insert, 'insert')[0]![0]).toMatchObject({
+        period_start: '2026-02-28',
+        period_end: '2026-03-30'
+      });
+    });
+
+    it('should take the day of month from the start of the chain', async () => {
+      const february = {
+        ...expired,
+        id: 'budget-feb',
+        period_start: '2026-02-28',
+        period_end: '2026-03-30',
+        previous_budget_id: 'budget-jan'
+      };
+      mockBudgetService.refreshBudgetSpentAmount.mockResolvedValue(february);
+      const chain = createQueryBuilderMock({ period_start: '2026-01-31' });
+      const insert = createQueryBuilderMock([{ id: 'budget-mar' }]);
+      mockTransaction([
+        createQueryBuilderMock(february),
+        createQueryBuilderMock(1),
+        createQueryBuilderMock({ id: 'category-1' }),
+        createQueryBuilderMock(undefined),
+        insert
+      ], chain);
+
+      await BudgetRolloverService.rollOverBudget('budget-feb', '2026-04-01');
+
+      expect(callsOf(chain, 'where')).toEqual([['b.id', 'budget-feb']]);
+      expect(callsOf(insert, 'insert')[0]![0]).toMatchObject({
+        previous_budget_id: 'budget-feb',
+        period_start: '2026-03-31',
+        period_end: '2026-04-29'
+      });
+    });
+
+    it('should end the chain when another budget already covers the next period', async () => {
+      const trx = mockTransaction([
+        createQueryBuilderMock(expired),
+        createQueryBuilderMock(1),
+        createQueryBuilderMock({ id: 'category-1' }),
+        createQueryBuilderMock({ id: 'budget-user-feb' })
+      ]);
+
+      const result = await BudgetRolloverService.rollOverBudget('budget-jan', '2026-02-03');
+
+      expect(result).toEqual({ closed: true, nextBudgetId: null });
+      expect(trx).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('rollOverExpiredBudgets', () => {
+    it('should keep going after a failure without retrying the failed budget', async () => {
+      const firstBatch = createQueryBuilderMock([{ id: 'budget-a' }, { id: 'budget-b' }]);
+      const secondBatch = createQueryBuilderMock([]);
+      mockDb.mockReturnValueOnce(firstBatch).mockReturnValueOnce(secondBatch);
+
+      const spy = jest.spyOn(BudgetRolloverService, 'rollOverBudget')
+        .mockRejectedValueOnce(new Error('deadlock detected'))
+        .mockResolvedValueOnce({ closed: true, nextBudgetId: 'budget-c' });
+
+      const result = await BudgetRolloverService.rollOverExpiredBudgets('2026-02-03');
+
+      expect(result).toEqual({ closed: 1, created: 1, failed: 1 });
+      expect(callsOf(secondBatch, 'whereNotIn')).toEqual([['id', ['budget-a']]]);
+      spy.mockRestore();
+    });
+  });
+});
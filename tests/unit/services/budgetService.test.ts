@@ -0,0 +1,171 @@
+import { BudgetService } from '../../../src/services/budgetService';
+import { BudgetModel, BudgetPeriod } from '../../../src/models/Budget';
+import { TransactionType } from '../../../src/models/Transaction';
+import { createQueryBuilderMock, callsOf } from '../../helpers/knexMock';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  db: Object.assign(jest.fn(), { transaction: jest.fn() })
+}));
+
+jest.mock('../../../src/middleware/errorHandler', () => ({
+  AppError: class AppError extends Error {
+    constructor(message: string, public statusCode: number) {
+      super(message);
+    }
+  }
+}));
+
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/budgetAlertService', () => ({
+  BudgetAlertService: {
+    checkBudgets: jest.fn().mockResolvedValue([]),
+    deliverAlerts: jest.fn()
+  }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+
+describe('BudgetService', () => {
+  const userId = 'user-123';
+
+  const budgetRow = {
+    id: 'budget-1',
+    user_id: userId,
+    category_id: 'category-1',
+    category_name: 'Groceries',
+    name: 'Groceries',
+    description: null,
+    amount: '400.00',
+    currency: 'USD',
+    spent_amount: '123.45',
+    period: BudgetPeriod.MONTHLY,
+    period_start: new Date(2026, 0, 1),
+    period_end: new Date(2026, 0, 31),
+    is_active: true,
+    rollover_unused: false,
+    rollover_overspent: false,
+    rollover_amount: '0.00',
+    previous_budget_id: null,
+    closed_at: null,
+    alert_threshold: '0.8000',
+    metadata: null,
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('BudgetModel', () => {
+    it('should expose progress in the BudgetProgress shape', () => {
+      expect(BudgetModel.toResponse(budgetRow)).toMatchObject({
+        budgetId: 'budget-1',
+        categoryId: 'category-1',
+        categoryName: 'Groceries',
+        budgetAmount: 400,
+        spentAmount: 123.45,
+        remainingAmount: 276.55,
+        percentage: 30.86,
+        period: BudgetPeriod.MONTHLY,
+        startDate: '2026-01-01',
+        endDate: '2026-01-31',
+        alertThreshold: 80
+      });
+    });
+
+    it('should derive period end dates, clamping to shorter months', () => {
+      expect(BudgetModel.periodEnd('2026-03-02', BudgetPeriod.WEEKLY)).toBe('2026-03-08');
+      expect(BudgetModel.periodEnd('2026-02-01', BudgetPeriod.MONTHLY)).toBe('2026-02-28');
+      expect(BudgetModel.periodEnd('2026-01-31', BudgetPeriod.MONTHLY)).toBe('2026-02-27');
+      expect(BudgetModel.periodEnd('2026-01-01', BudgetPeriod.QUARTERLY)).toBe('2026-03-31');
+      expect(BudgetModel.periodEnd('2024-02-29', BudgetPeriod.YEARLY)).toBe('2025-02-27');
+    });
+
+    it('should include the rollover in the amount available for the period', () => {
+      expect(BudgetModel.toResponse({ ...budgetRow, rollover_amount: '-23.45' })).toMatchObject({
+        amount: 400,
+        rolloverAmount: -23.45,
+        budgetAmount: 376.55,
+        remainingAmount: 253.1
+      });
+    });
+
+    it('should carry unused amounts, and overspending only when enabled', () => {
+      const closing = { ...budgetRow, rollover_unused: true, rollover_amount: '50.00' };
+
+      expect(BudgetModel.rolloverAmount({ ...closing, rollover_unused: false })).toBe(0);
+      expect(BudgetModel.rolloverAmount(closing)).toBe(326.55);
+      expect(BudgetModel.rolloverAmount({ ...closing, spent_amount: '500.00' })).toBe(0);
+      expect(BudgetModel.rolloverAmount({ ...closing, spent_amount: '500.00', rollover_overspent: true })).toBe(-50);
+      expect(BudgetModel.rolloverAmount({ ...closing, spent_amount: '2000.00', rollover_overspent: true })).toBe(-400);
+    });
+  });
+
+  describe('syncSpentAmounts', () => {
+    it('should recompute budgets once per expense category and date', async () => {
+      const builders = [createQueryBuilderMock([{ id: 'budget-1' }]), createQueryBuilderMock([{ id: 'budget-1' }])];
+      const trx: any = jest.fn(() => builders.shift());
+      trx.raw = jest.fn((sql: string) => ({ sql }));
+
+      const before = { type: TransactionType.EXPENSE, category_id: 'category-1', transaction_date: new Date(2026, 0, 15) };
+      const ids = await BudgetService.syncSpentAmounts(trx, userId, [
+        before,
+        { ...before },
+        { ...before, transaction_date: '2026-01-20' },
+        { type: TransactionType.INCOME, category_id: 'category-2', transaction_date: '2026-01-20' },
+        { type: TransactionType.EXPENSE, category_id: null, transaction_date: '2026-01-20' },
+        null
+      ]);
+
+      expect(trx).toHaveBeenCalledTimes(2);
+      expect(ids).toEqual(['budget-1']);
+    });
+
+    it('should select budgets whose period covers the transaction date', async () => {
+      const builder = createQueryBuilderMock([]);
+      const trx: any = jest.fn(() => builder);
+      trx.raw = jest.fn((sql: string) => ({ sql }));
+
+      await BudgetService.syncSpentAmounts(trx, userId, [
+        { type: TransactionType.EXPENSE, category_id: 'category-1', transaction_date: new Date(2026, 0, 15) }
+      ]);
+
+      expect(callsOf(builder, 'where')).toEqual([
+        [{ user_id: userId, category_id: 'category-1' }],
+        ['period_start', '<=', '2026-01-15'],
+        ['period_end', '>=', '2026-01-15']
+      ]);
+      expect(callsOf(builder, 'update')[0]![0]).toEqual({
+        spent_amount: { sql: expect.stringContaining('t.transaction_date BETWEEN budgets.period_start AND budgets.period_end') }
+      });
+    });
+  });
+
+  describe('createBudget', () => {
+    it('should reject a budget overlapping an active one for the category', async () => {
+      const trx = jest.fn()
+        .mockReturnValueOnce(createQueryBuilderMock({ id: 'category-1' }))
+        .mockReturnValueOnce(createQueryBuilderMock({ id: 'budget-0' }));
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+
+      await expect(BudgetService.createBudget(userId, {
+        name: 'Groceries',
+        amount: 400,
+        categoryId: 'category-1',
+        period: BudgetPeriod.MONTHLY,
+        startDate: new Date('2026-01-15'),
+        alertThreshold: 80
+      })).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { CategorizationRuleService } from '../../../src/services/categorizationRuleService';
+import { createQueryBuilderMock, callsOf } from '../../helpers/knexMock';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  db: Object.assign(jest.fn(), { transaction: jest.fn(), raw: jest.fn() })
+}));
+
+jest.mock('../../../src/middleware/errorHandler', () => ({
+  AppError: class AppError extends Error {
+    constructor(message: string, public statusCode: number) {
+      super(message);
+    }
+  }
+}));
+
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/budgetService', () => ({
+  BudgetService: {
+    refreshCategorySpentAmounts: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/budgetAlertService', () => ({
+  BudgetAlertService: {
+    checkBudgets: jest.fn(),
+    deliverAlerts: jest.fn()
+  }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+const mockBudgetService = require('../../../src/services/budgetService').BudgetService;
+const mockBudgetAlertService = require('../../../src/services/budgetAlertService').BudgetAlertService;
+
+describe('CategorizationRuleService', () => {
+  const userId = 'user-123';
+
+  const ruleRow = {
+    id: 'rule-1',
+    user_id: userId,
+    category_id: 'groceries',
+    merchant_name: 'Corner Market',
+    description_pattern: null,
+    min_amount: null,
+    max_amount: null,
+    account_id: null,
+    priority: 0,
+    is_active: true,
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  const mockTransaction = (trx: unknown) => {
+    mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createRule', () => {
+    it('should try new rules after the existing ones', async () => {
+      const insertQuery = createQueryBuilderMock([{ ...ruleRow, priority: 3 }]);
+      mockTransaction(jest.fn()
+        .mockReturnValueOnce(createQueryBuilderMock({ id: 'groceries' }))
+        .mockReturnValueOnce(createQueryBuilderMock({ max: 2 }))
+        .mockReturnValueOnce(insertQuery));
+
+      const rule = await CategorizationRuleService.createRule(userId, {
+        categoryId: 'groceries',
+        merchantName: '  Corner Market '
+      });
+
+      expect(callsOf(insertQuery, 'insert')[0]![0]).toMatchObject({
+        merchant_name: 'Corner Market',
+        description_pattern: null,
+        priority: 3
+      });
+      expect(rule.priority).toBe(3);
+    });
+
+    it('should reject patterns PostgreSQL cannot compile', async () => {
+      mockDb.raw.mockRejectedValue(new Error('invalid regular expression: parentheses () not balanced'));
+
+      await expect(CategorizationRuleService.createRule(userId, {
+        categoryId: 'groceries',
+        descriptionPattern: 'coffee('
+      })).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockDb.transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateRule', () => {
+    it('should refuse to remove the last condition', async () => {
+      mockTransaction(jest.fn(() => createQueryBuilderMock(ruleRow)));
+
+      await expect(CategorizationRuleService.updateRule(userId, 'rule-1', { merchantName: null }))
+        .rejects.toThrow('A rule needs at least one condition');
+    });
+  });
+
+  describe('applyRule', () => {
+    it('should move only transactions in another category and refresh both categories\' budgets', async () => {
+      const matched = [
+        { id: 'txn-1', category_id: 'groceries' },
+        { id: 'txn-2', category_id: 'dining' }
+      ];
+      const update = createQueryBuilderMock([{ id: 'txn-2', category_id: 'groceries' }]);
+      const trx: any = jest.fn()
+        .mockReturnValueOnce(createQueryBuilderMock(ruleRow))
+        .mockReturnValueOnce(createQueryBuilderMock(matched))
+        .mockReturnValueOnce(update);
+      trx.raw = jest.fn();
+      mockTransaction(trx);
+      mockBudgetService.refreshCategorySpentAmounts
+        .mockResolvedValueOnce(['budget-groceries'])
+        .mockResolvedValueOnce(['budget-dining']);
+      mockBudgetAlertService.checkBudgets.mockResolvedValue([]);
+
+      const result = await CategorizationRuleService.applyRule(userId, 'rule-1');
+
+      expect(result).toEqual({ matched: 2, updated: 1 });
+      expect(callsOf(update, 'whereIn')[0]).toEqual(['id', ['txn-2']]);
+      expect(callsOf(update, 'update')[0]).toEqual([{ category_id: 'groceries' }]);
+      expect(mockBudgetService.refreshCategorySpentAmounts).toHaveBeenCalledWith(trx, userId, 'groceries');
+      expect(mockBudgetService.refreshCategorySpentAmounts).toHaveBeenCalledWith(trx, userId, 'dining');
+      expect(mockBudgetAlertService.checkBudgets).toHaveBeenCalledWith(trx, ['budget-groceries', 'budget-dining']);
+    });
+  });
+
+  describe('findCategories', () => {
+    it('should return the matched category for each transaction in order', async () => {
+      const executor: any = { raw: jest.fn().mockResolvedValue({ rows: [{ i: 1, category_id: 'dining' }, { i: 0, category_id: null }] }) };
+
+      const categories = await CategorizationRuleService.findCategories(executor, userId, [
+        { accountId: 'account-1', merchantName: null, description: 'ATM withdrawal', amount: 40 },
+        { accountId: 'account-1', merchantName: 'Cafe Luna', description: 'Lunch', amount: 12.5 }
+      ]);
+
+      expect(categories).toEqual([null, 'dining']);
+      expect(JSON.parse(executor.raw.mock.calls[0][1][0])[1]).toEqual({
+        i: 1,
+        account_id: 'account-1',
+        merchant_name: 'Cafe Luna',
+        description: 'Lunch',
+        amount: 12.5
+      });
+    });
+  });
+
+  describe('suggestRule', () => {
+    const transaction: any = { id: 'txn-1', merchant_name: 'Corner Market', category_id: 'dining' };
+
+    it('should offer to change the merchant\'s rule when other transactions are elsewhere', async () => {
+      mockDb
+        .mockReturnValueOnce(createQueryBuilderMock(ruleRow))
+        .mockReturnValueOnce(createQueryBuilderMock({ count: '4' }));
+
+      const suggestion = await CategorizationRuleService.suggestRule(userId, transaction);
+
+      expect(suggestion).toEqual({
+        ruleId: 'rule-1',
+        merchantName: 'Corner Market',
+        categoryId: 'dining',
+        matchingTransactions: 4
+      });
+    });
+
+    it('should not suggest what an active rule already does', async () => {
+      mockDb.mockReturnValueOnce(createQueryBuilderMock({ ...ruleRow, category_id: 'dining' }));
+
+      expect(await CategorizationRuleService.suggestRule(userId, transaction)).toBeNull();
+    });
+  });
+});
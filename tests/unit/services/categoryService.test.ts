@@ -0,0 +1,172 @@
+import { CategoryService } from '../../../src/services/categoryService';
+import { CategoryModel } from '../../../src/models/Category';
+import { createQueryBuilderMock, callsOf } from '../../helpers/knexMock';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  db: Object.assign(jest.fn(), { transaction: jest.fn() })
+}));
+
+jest.mock('../../../src/middleware/errorHandler', () => ({
+  AppError: class AppError extends Error {
+    constructor(message: string, public statusCode: number) {
+      super(message);
+    }
+  }
+}));
+
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/budgetService', () => ({
+  BudgetService: {
+    refreshCategorySpentAmounts: jest.fn()
+  }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+const mockBudgetService = require('../../../src/services/budgetService').BudgetService;
+
+describe('CategoryService', () => {
+  const userId = 'user-123';
+
+  const category = (id: string, parentId: string | null = null, overrides: Record<string, unknown> = {}) => ({
+    id,
+    user_id: userId,
+    name: id,
+    description: null,
+    color: null,
+    icon: null,
+    is_active: true,
+    is_system: false,
+    display_order: 0,
+    parent_id: parentId,
+    metadata: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('buildTree', () => {
+    it('should nest children and promote orphans to roots', () => {
+      const tree = CategoryModel.buildTree([
+        category('food'),
+        category('groceries', 'food'),
+        category('coffee', 'food'),
+        category('orphan', 'inactive-parent')
+      ]);
+
+      expect(tree.map(node => node.id)).toEqual(['food', 'orphan']);
+      expect(tree[0]!.children.map(node => node.id)).toEqual(['groceries', 'coffee']);
+    });
+  });
+
+  describe('updateCategory', () => {
+    it('should refuse to change system categories', async () => {
+      const trx = jest.fn(() => createQueryBuilderMock(category('salary', null, { is_system: true })));
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+
+      await expect(CategoryService.updateCategory(userId, 'salary', { name: 'Pay' }))
+        .rejects.toMatchObject({ message: 'System categories cannot be modified', statusCode: 403 });
+    });
+
+    it('should reject moving a category under its own descendant', async () => {
+      const trx: any = jest.fn()
+        .mockReturnValueOnce(createQueryBuilderMock(category('food')))
+        .mockReturnValueOnce(createQueryBuilderMock(category('coffee', 'groceries')));
+      trx.raw = jest.fn().mockResolvedValue({ rows: [{ '?column?': 1 }] });
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+
+      await expect(CategoryService.updateCategory(userId, 'food', { parentId: 'coffee' }))
+        .rejects.toMatchObject({ statusCode: 400 });
+      expect(trx.raw.mock.calls[0][1]).toEqual(['coffee', 'food']);
+    });
+  });
+
+  describe('deleteCategory', () => {
+    it('should lift subcategories to the parent before deactivating', async () => {
+      const children = createQueryBuilderMock(2);
+      const self = createQueryBuilderMock(1);
+      const rules = createQueryBuilderMock(1);
+      const trx = jest.fn()
+        .mockReturnValueOnce(createQueryBuilderMock(category('groceries', 'food')))
+        .mockReturnValueOnce(children)
+        .mockReturnValueOnce(self)
+        .mockReturnValueOnce(rules);
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+
+      await CategoryService.deleteCategory(userId, 'groceries');
+
+      expect(callsOf(children, 'update')).toEqual([[{ parent_id: 'food' }]]);
+      expect(callsOf(self, 'update')).toEqual([[{ is_active: false }]]);
+      expect(trx).toHaveBeenLastCalledWith('categorization_rules');
+      expect(callsOf(rules, 'update')).toEqual([[{ is_active: false }]]);
+    });
+  });
+
+  describe('mergeCategory', () => {
+    it('should move transactions, budgets and subcategories, combining clashing budgets', async () => {
+      const budgetTarget = createQueryBuilderMock(undefined);
+      const trx: any = jest.fn((table: string) => {
+        if (table === 'transactions') return createQueryBuilderMock(5);
+        if (table === 'categories') return categories.shift();
+        return budgets.shift() || budgetTarget;
+      });
+      trx.raw = jest.fn((sql: string, bindings?: unknown[]) => (
+        bindings && bindings.length === 2 && sql.includes('RECURSIVE')
+          ? Promise.resolve({ rows: [] })
+          : { sql, bindings }
+      ));
+
+      const categories = [
+        createQueryBuilderMock(category('coffee', 'food')),
+        createQueryBuilderMock(category('food')),
+        createQueryBuilderMock(3),
+        createQueryBuilderMock(1)
+      ];
+      const budgets = [
+        createQueryBuilderMock([
+          { id: 'b1', amount: '50.00', currency: 'USD', period_start: '2026-01-01', period_end: '2026-01-31', is_active: true },
+          { id: 'b2', amount: '60.00', currency: 'USD', period_start: '2026-02-01', period_end: '2026-02-28', is_active: true }
+        ]),
+        createQueryBuilderMock({ id: 'food-jan', currency: 'USD' }),
+        createQueryBuilderMock(1),
+        createQueryBuilderMock(1),
+        createQueryBuilderMock(undefined),
+        createQueryBuilderMock(1)
+      ];
+      const combinedUpdate = budgets[2]!;
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+
+      const result = await CategoryService.mergeCategory(userId, 'coffee', 'food');
+
+      expect(result).toMatchObject({
+        transactionsMoved: 5,
+        budgetsMoved: 1,
+        budgetsCombined: 1,
+        subcategoriesMoved: 3
+      });
+      expect(result.target.id).toBe('food');
+      expect(callsOf(combinedUpdate, 'update')[0]![0]).toEqual({
+        amount: { sql: 'amount + ?', bindings: ['50.00'] }
+      });
+      expect(mockBudgetService.refreshCategorySpentAmounts).toHaveBeenCalledWith(trx, userId, 'food');
+    });
+
+    it('should refuse to merge a category into itself', async () => {
+      await expect(CategoryService.mergeCategory(userId, 'food', 'food'))
+        .rejects.toMatchObject({ statusCode: 400 });
+      expect(mockDb.transaction).not.toHaveBeenCalled();
+    });
+  });
+});
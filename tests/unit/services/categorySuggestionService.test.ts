@@ -0,0 +1,121 @@
+import { CategorySuggestionService } from '../../../src/services/categorySuggestionService';
+import { TransactionType } from '../../../src/models/Transaction';
+import { createQueryBuilderMock, callsOf } from '../../helpers/knexMock';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  db: jest.fn()
+}));
+
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+
+describe('CategorySuggestionService', () => {
+  const trainedAt = new Date('2026-03-01T10:00:00Z');
+
+  const row = (id: string, categoryId: string | null, description: string, merchantName: string | null = null) => ({
+    id,
+    category_id: categoryId,
+    type: TransactionType.EXPENSE,
+    description,
+    merchant_name: merchantName,
+    amount: '24.90',
+    updated_at: trainedAt
+  });
+
+  const history = [
+    row('txn-1', 'groceries', 'Weekly shop', 'Corner Market'),
+    row('txn-2', 'groceries', 'Corner Market fruit'),
+    row('txn-3', 'dining', 'Lunch at Cafe Luna', 'Cafe Luna')
+  ];
+
+  const categories = [
+    { id: 'groceries', name: 'Groceries' },
+    { id: 'dining', name: 'Dining Out' }
+  ];
+
+  const query = { description: 'Corner Market', type: TransactionType.EXPENSE as const, amount: 18, limit: 3 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should train on first use and rank the categories of similar transactions', async () => {
+    const categoryQuery = createQueryBuilderMock(categories);
+    mockDb
+      .mockReturnValueOnce(createQueryBuilderMock(history))
+      .mockReturnValueOnce(categoryQuery);
+
+    const suggestions = await CategorySuggestionService.suggestCategories('user-train', query);
+
+    expect(suggestions.map(({ categoryId }) => categoryId)).toEqual(['groceries', 'dining']);
+    expect(suggestions[0]).toMatchObject({ categoryName: 'Groceries' });
+    expect(suggestions[0]!.confidence).toBeGreaterThan(0.9);
+    expect(callsOf(categoryQuery, 'where')).toContainEqual(['is_active', true]);
+  });
+
+  it('should not suggest anything when no typed word is in the history', async () => {
+    mockDb.mockReturnValueOnce(createQueryBuilderMock(history));
+
+    const suggestions = await CategorySuggestionService.suggestCategories('user-unknown', {
+      ...query,
+      description: 'Parking garage'
+    });
+
+    expect(suggestions).toEqual([]);
+    expect(mockDb).toHaveBeenCalledTimes(1);
+  });
+
+  it('should catch up on transactions changed since the model was trained', async () => {
+    mockDb
+      .mockReturnValueOnce(createQueryBuilderMock(history))
+      .mockReturnValueOnce(createQueryBuilderMock(categories));
+    await CategorySuggestionService.suggestCategories('user-catch-up', query);
+
+    // Both Corner Market transactions were moved to dining
+    const changedQuery = createQueryBuilderMock([
+      { ...row('txn-1', 'dining', 'Weekly shop', 'Corner Market'), updated_at: new Date('2026-03-02T09:00:00Z') },
+      { ...row('txn-2', 'dining', 'Corner Market fruit'), updated_at: new Date('2026-03-02T09:00:00Z') }
+    ]);
+    const countQuery = createQueryBuilderMock({ count: '3' });
+    mockDb
+      .mockReturnValueOnce(changedQuery)
+      .mockReturnValueOnce(countQuery)
+      .mockReturnValueOnce(createQueryBuilderMock(categories));
+
+    const suggestions = await CategorySuggestionService.suggestCategories('user-catch-up', query);
+
+    expect(suggestions[0]!.categoryId).toBe('dining');
+    expect(callsOf(changedQuery, 'where')).toContainEqual(['updated_at', '>=', new Date('2026-03-01T09:45:00Z')]);
+    expect(mockDb).toHaveBeenCalledTimes(5);
+  });
+
+  it('should retrain when transactions were deleted', async () => {
+    mockDb
+      .mockReturnValueOnce(createQueryBuilderMock(history))
+      .mockReturnValueOnce(createQueryBuilderMock(categories));
+    await CategorySuggestionService.suggestCategories('user-deleted', query);
+
+    mockDb
+      .mockReturnValueOnce(createQueryBuilderMock([]))
+      .mockReturnValueOnce(createQueryBuilderMock({ count: '1' }))
+      .mockReturnValueOnce(createQueryBuilderMock([history[2]]))
+      .mockReturnValueOnce(createQueryBuilderMock(categories));
+
+    const suggestions = await CategorySuggestionService.suggestCategories('user-deleted', {
+      ...query,
+      description: 'Cafe Luna'
+    });
+
+    expect(suggestions).toEqual([{ categoryId: 'dining', categoryName: 'Dining Out', confidence: 1 }]);
+    expect(mockDb).toHaveBeenCalledTimes(6);
+  });
+});
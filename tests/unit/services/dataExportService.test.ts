@@ -0,0 +1,215 @@
+import fs from 'fs';
+import { inflateRawSync } from 'zlib';
+import { DataExportService } from '../../../src/services/dataExportService';
+import { DataExportStatus } from '../../../src/models/DataExport';
+import { createQueryBuilderMock, callsOf } from '../../helpers/knexMock';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  db: Object.assign(jest.fn(), {
+    transaction: jest.fn(),
+    fn: { now: jest.fn(() => 'NOW()') }
+  })
+}));
+
+jest.mock('../../../src/middleware/errorHandler', () => ({
+  AppError: class AppError extends Error {
+    constructor(message: string, public statusCode: number) {
+      super(message);
+    }
+  }
+}));
+
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/middleware/auditLog', () => ({
+  createAuditLog: jest.fn(),
+  AuditEventType: { DATA_EXPORT: 'data.export' }
+}));
+
+jest.mock('../../../src/services/userService', () => ({
+  UserService: {
+    findUserById: jest.fn()
+  }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+const mockUserService = require('../../../src/services/userService').UserService;
+const mockAuditLog = require('../../../src/middleware/auditLog');
+
+/**
+ * Read the entries of an archive written by createZip back into text
+ */
+const readZip = (archive: Buffer): Record<string, string> => {
+  const entries: Record<string, string> = {};
+  let offset = 0;
+
+  while (archive.readUInt32LE(offset) === 0x04034B50) {
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const name = archive.toString('utf8', offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength;
+
+    entries[name] = inflateRawSync(archive.subarray(start, start + compressedSize)).toString('utf8');
+    offset = start + compressedSize;
+  }
+
+  return entries;
+};
+
+describe('DataExportService', () => {
+  const readyExport = {
+    id: '7b6f3c1e-5d1a-4c52-9b7e-2f0f5d8c9a10',
+    user_id: 'user-123',
+    status: DataExportStatus.READY,
+    file_name: 'user-123/7b6f3c1e-5d1a-4c52-9b7e-2f0f5d8c9a10.zip',
+    file_size: '2048',
+    error: null,
+    started_at: new Date('2026-03-01T10:00:00Z'),
+    completed_at: new Date('2026-03-01T10:00:05Z'),
+    expires_at: new Date(Date.now() + 60 * 60 * 1000),
+    created_at: new Date('2026-03-01T10:00:00Z'),
+    updated_at: new Date('2026-03-01T10:00:05Z')
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAuditLog.createAuditLog.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('requestExport', () => {
+    it('should return the export already queued instead of queueing another', async () => {
+      const pending = { ...readyExport, status: DataExportStatus.PENDING, file_name: null, file_size: null };
+      const builders = [createQueryBuilderMock({ id: 'user-123' }), createQueryBuilderMock(pending)];
+      const trx = jest.fn(() => builders.shift());
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+
+      const result = await DataExportService.requestExport('user-123');
+
+      expect(trx).toHaveBeenCalledTimes(2);
+      expect(result).toMatchObject({ id: pending.id, status: DataExportStatus.PENDING, fileSize: null });
+      expect(mockAuditLog.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        eventType: 'data.export',
+        metadata: { action: 'requested' }
+      }));
+    });
+  });
+
+  describe('signed download links', () => {
+    const linkQuery = (url: string): { expires: number; signature: string } => {
+      const params = new URL(url, 'http://localhost').searchParams;
+      return { expires: Number(params.get('expires')), signature: params.get('signature')! };
+    };
+
+    it('should accept a link it signed and audit the download', async () => {
+      jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+      mockDb
+        .mockReturnValueOnce(createQueryBuilderMock(readyExport))
+        .mockReturnValueOnce(createQueryBuilderMock(readyExport));
+
+      const link = await DataExportService.createDownloadLink('user-123', readyExport.id);
+      const file = await DataExportService.getDownload(readyExport.id, linkQuery(link.url), '203.0.113.7');
+
+      expect(link.url).toContain(`/exports/${readyExport.id}/download?expires=`);
+      expect(file.filePath).toMatch(/uploads[\\/]exports[\\/]user-123[\\/]/);
+      expect(file.fileName).toBe('finance-data-export-2026-03-01.zip');
+      expect(mockAuditLog.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-123',
+        ipAddress: '203.0.113.7',
+        metadata: { action: 'downloaded' }
+      }));
+    });
+
+    it('should reject tampered and expired links', async () => {
+      mockDb
+        .mockReturnValueOnce(createQueryBuilderMock(readyExport))
+        .mockReturnValueOnce(createQueryBuilderMock(readyExport));
+
+      const link = await DataExportService.createDownloadLink('user-123', readyExport.id);
+      const query = linkQuery(link.url);
+
+      await expect(DataExportService.getDownload(readyExport.id, { ...query, expires: query.expires + 60 }))
+        .rejects.toMatchObject({ statusCode: 403 });
+      await expect(DataExportService.getDownload(readyExport.id, { ...query, expires: 1000 }))
+        .rejects.toMatchObject({ statusCode: 410 });
+      expect(mockAuditLog.createAuditLog).not.toHaveBeenCalled();
+    });
+
+    it('should not sign links for exports that are still being built', async () => {
+      mockDb.mockReturnValueOnce(createQueryBuilderMock({ ...readyExport, status: DataExportStatus.PROCESSING }));
+
+      await expect(DataExportService.createDownloadLink('user-123', readyExport.id))
+        .rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('processPendingExports', () => {
+    it('should write a zip with JSON and CSV for every entity and mark the export ready', async () => {
+      const claimed = { ...readyExport, status: DataExportStatus.PROCESSING, file_name: null, completed_at: null };
+      const complete = createQueryBuilderMock(1);
+      mockUserService.findUserById.mockResolvedValue({
+        id: 'user-123',
+        email: 'jane@example.com',
+        first_name: 'Jane',
+        last_name: 'Doe',
+        status: 'active',
+        email_verified: true,
+        last_login: null,
+        created_at: new Date('2025-01-01T00:00:00Z'),
+        updated_at: new Date('2025-01-01T00:00:00Z')
+      });
+      mockDb
+        .mockReturnValueOnce(createQueryBuilderMock(0)) // stale exports
+        .mockReturnValueOnce(createQueryBuilderMock([claimed])) // claim
+        .mockReturnValueOnce(createQueryBuilderMock([])) // claim subquery
+        .mockReturnValueOnce(createQueryBuilderMock([{ id: 'account-1', name: 'Checking', type: 'checking', balance: '10.00', opening_balance: '0.00', currency: 'USD', credit_limit: null }]))
+        .mockReturnValueOnce(createQueryBuilderMock([]))
+        .mockReturnValueOnce(createQueryBuilderMock([{
+          id: 'txn-1',
+          account_name: 'Checking',
+          type: 'expense',
+          amount: '4.50',
+          description: '=HYPERLINK("evil")',
+          transaction_date: '2026-02-27',
+          tags: ['coffee']
+        }]))
+        .mockReturnValueOnce(createQueryBuilderMock([]))
+        .mockReturnValueOnce(complete)
+        .mockReturnValueOnce(createQueryBuilderMock([])) // nothing left to claim
+        .mockReturnValueOnce(createQueryBuilderMock([]))
+        .mockReturnValueOnce(createQueryBuilderMock([])); // expired archives
+      jest.spyOn(fs.promises, 'mkdir').mockResolvedValue(undefined);
+      const writeFile = jest.spyOn(fs.promises, 'writeFile').mockResolvedValue(undefined);
+
+      const result = await DataExportService.processPendingExports();
+
+      expect(result).toEqual({ completed: 1, failed: 0, expired: 0 });
+
+      const entries = readZip(writeFile.mock.calls[0]![1] as Buffer);
+      expect(Object.keys(entries).sort()).toEqual([
+        'accounts.json', 'budgets.json', 'categories.json', 'csv/accounts.csv', 'csv/budgets.csv',
+        'csv/categories.csv', 'csv/profile.csv', 'csv/transactions.csv', 'profile.json', 'transactions.json'
+      ]);
+      expect(JSON.parse(entries['profile.json']!)).toMatchObject({ email: 'jane@example.com', firstName: 'Jane' });
+      expect(entries['profile.json']).not.toContain('password');
+      expect(JSON.parse(entries['transactions.json']!)[0]).toMatchObject({ amount: 4.5, date: '2026-02-27', tags: ['coffee'] });
+      expect(entries['csv/transactions.csv']).toContain('"\'=HYPERLINK(""evil"")"');
+
+      expect(callsOf(complete, 'update')[0]![0]).toMatchObject({
+        status: DataExportStatus.READY,
+        file_name: `user-123/${readyExport.id}.zip`
+      });
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { ExchangeRateService } from '../../../src/services/exchangeRateService';
+import { createQueryBuilderMock, callsOf } from '../../helpers/knexMock';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  db: Object.assign(jest.fn(), { transaction: jest.fn() })
+}));
+
+jest.mock('../../../src/middleware/errorHandler', () => ({
+  AppError: class AppError extends Error {
+    constructor(message: string, public statusCode: number) {
+      super(message);
+    }
+  }
+}));
+
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+
+describe('ExchangeRateService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getBaseCurrency', () => {
+    it('should use the preferred currency and fall back to USD', async () => {
+      mockDb
+        .mockReturnValueOnce(createQueryBuilderMock({ preferences: { currency: 'EUR' } }))
+        .mockReturnValueOnce(createQueryBuilderMock({ preferences: {} }));
+
+      expect(await ExchangeRateService.getBaseCurrency('user-123')).toBe('EUR');
+      expect(await ExchangeRateService.getBaseCurrency('user-123')).toBe('USD');
+    });
+  });
+
+  describe('parseRates', () => {
+    it('should read CSV columns in any order and normalize currency codes', () => {
+      const rates = ExchangeRateService.parseRates(
+        'Rate,Date,Base,Quote\n1.0842,2026-01-02,eur,usd\n"0.8571",2026-01-02,EUR,GBP\n',
+        'rates.csv'
+      );
+
+      expect(rates).toEqual([
+        { date: '2026-01-02', base: 'EUR', quote: 'USD', rate: 1.0842 },
+        { date: '2026-01-02', base: 'EUR', quote: 'GBP', rate: 0.8571 }
+      ]);
+    });
+
+    it('should read flat and grouped JSON rates', () => {
+      const rates = ExchangeRateService.parseRates(JSON.stringify([
+        { date: '2026-01-02', base: 'USD', quote: 'JPY', rate: 157.2 },
+        { date: '2026-01-03', base: 'EUR', rates: { USD: 1.09, CHF: 0.94 } }
+      ]), 'rates.JSON');
+
+      expect(rates).toEqual([
+        { date: '2026-01-02', base: 'USD', quote: 'JPY', rate: 157.2 },
+        { date: '2026-01-03', base: 'EUR', quote: 'USD', rate: 1.09 },
+        { date: '2026-01-03', base: 'EUR', quote: 'CHF', rate: 0.94 }
+      ]);
+    });
+
+    it('should reject invalid rates with their position', () => {
+      expect(() => ExchangeRateService.parseRates('date,base,quote,rate\n2026-01-02,EUR,USD,1.08\n2026-02-30,EUR,USD,1.08', 'rates.csv'))
+        .toThrow('Invalid exchange rate at line 3: date must be YYYY-MM-DD');
+      expect(() => ExchangeRateService.parseRates('date,base,quote,rate\n2026-01-02,EUR,USD,-1', 'rates.csv'))
+        .toThrow('rate must be a positive number');
+      expect(() => ExchangeRateService.parseRates('date,base,quote,rate\n2026-01-02,EUR,EUR,1', 'rates.csv'))
+        .toThrow('base and quote currencies must differ');
+      expect(() => ExchangeRateService.parseRates('date,from,to,rate\n', 'rates.csv'))
+        .toThrow('Rates file must have date, base, quote, rate columns');
+    });
+  });
+
+  describe('loadRates', () => {
+    it('should upsert each pair and date once, keeping the last rate', async () => {
+      const insertQuery = createQueryBuilderMock(undefined);
+      const trx = jest.fn().mockReturnValue(insertQuery);
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+
+      const result = await ExchangeRateService.loadRates([
+        { date: '2026-01-03', base: 'EUR', quote: 'USD', rate: 1.08 },
+        { date: '2026-01-02', base: 'EUR', quote: 'GBP', rate: 0.85 },
+        { date: '2026-01-03', base: 'EUR', quote: 'USD', rate: 1.09 }
+      ], 'ecb.csv');
+
+      expect(callsOf(insertQuery, 'insert')[0]![0]).toEqual([
+        { base_currency: 'EUR', quote_currency: 'USD', rate: 1.09, rate_date: '2026-01-03', source: 'ecb.csv' },
+        { base_currency: 'EUR', quote_currency: 'GBP', rate: 0.85, rate_date: '2026-01-02', source: 'ecb.csv' }
+      ]);
+      expect(callsOf(insertQuery, 'onConflict')[0]).toEqual([['base_currency', 'quote_currency', 'rate_date']]);
+      expect(result).toEqual({
+        loaded: 2,
+        currencies: ['EUR', 'GBP', 'USD'],
+        firstDate: '2026-01-02',
+        lastDate: '2026-01-03'
+      });
+    });
+  });
+});
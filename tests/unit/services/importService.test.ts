@@ -0,0 +1,288 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ImportService } from '../../../src/services/importService';
+import { ImportModel, ImportStatus } from '../../../src/models/Import';
+import { createQueryBuilderMock, callsOf } from '../../helpers/knexMock';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  db: Object.assign(jest.fn(), { transaction: jest.fn() })
+}));
+
+jest.mock('../../../src/middleware/errorHandler', () => ({
+  AppError: class AppError extends Error {
+    constructor(message: string, public statusCode: number) {
+      super(message);
+    }
+  }
+}));
+
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/middleware/auditLog', () => ({
+  createAuditLog: jest.fn(),
+  AuditEventType: { DATA_IMPORT: 'data.import' }
+}));
+
+jest.mock('../../../src/services/accountBalanceService', () => ({
+  AccountBalanceService: {
+    applyNewTransactions: jest.fn(),
+    recordBalanceChanges: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/budgetService', () => ({
+  BudgetService: {
+    syncSpentAmounts: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/budgetAlertService', () => ({
+  BudgetAlertService: {
+    checkBudgets: jest.fn(),
+    deliverAlerts: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/categorizationRuleService', () => ({
+  CategorizationRuleService: {
+    findCategories: jest.fn()
+  }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+const mockAccountBalanceService = require('../../../src/services/accountBalanceService').AccountBalanceService;
+const mockBudgetService = require('../../../src/services/budgetService').BudgetService;
+const mockBudgetAlertService = require('../../../src/services/budgetAlertService').BudgetAlertService;
+const mockAuditLog = require('../../../src/middleware/auditLog');
+const mockRuleService = require('../../../src/services/categorizationRuleService').CategorizationRuleService;
+
+describe('ImportService', () => {
+  const account = { id: 'account-1', currency: 'USD' };
+
+  const mapping = {
+    id: 'mapping-1',
+    user_id: 'user-123',
+    name: 'First National',
+    delimiter: ',',
+    has_header: true,
+    skip_rows: 0,
+    date_format: 'MM/DD/YYYY',
+    decimal_separator: '.',
+    date_column: 'Date',
+    description_column: 'Description',
+    amount_column: null,
+    debit_column: 'Debit',
+    credit_column: 'Credit',
+    merchant_column: null,
+    reference_column: null,
+    negate_amounts: false
+  };
+
+  const writeStatement = (name: string, contents: string): { path: string; originalname: string } => {
+    const filePath = path.join(os.tmpdir(), `import-test-${process.pid}-${name}`);
+    fs.writeFileSync(filePath, contents);
+    return { path: filePath, originalname: name };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('parsing helpers', () => {
+    it('should read dates in the mapped layout and reject impossible dates', () => {
+      expect(ImportModel.parseDate('03/04/2026', 'MM/DD/YYYY')).toBe('2026-03-04');
+      expect(ImportModel.parseDate('03/04/2026', 'DD/MM/YYYY')).toBe('2026-04-03');
+      expect(ImportModel.parseDate('31.02.2026', 'DD.MM.YYYY')).toBeNull();
+    });
+
+    it('should read signed, bracketed and decimal-comma amounts', () => {
+      expect(ImportModel.parseAmount('-1,234.56')).toBe(-1234.56);
+      expect(ImportModel.parseAmount('(12.00)')).toBe(-12);
+      expect(ImportModel.parseAmount('1.234,50 €', ',')).toBe(1234.5);
+      expect(ImportModel.parseAmount('n/a')).toBeNull();
+    });
+  });
+
+  describe('previewImport', () => {
+    it('should parse a mapped CSV, flag duplicates and delete the upload', async () => {
+      const file = writeStatement('checking.csv', [
+        'Date,Description,Debit,Credit',
+        '03/01/2026,"Coffee, Main St",4.50,',
+        '03/01/2026,"Coffee, Main St",4.50,',
+        '03/02/2026,Payroll,,2500.00',
+        'not a date,Broken,1.00,'
+      ].join('\r\n'));
+      const insert = createQueryBuilderMock([{ id: 'import-1', rows: [] }]);
+      mockDb
+        .mockReturnValueOnce(createQueryBuilderMock(account))
+        .mockReturnValueOnce(createQueryBuilderMock(mapping))
+        .mockReturnValueOnce(createQueryBuilderMock([{
+          id: 'txn-1',
+          transaction_date: '2026-03-01',
+          type: 'expense',
+          amount: '4.50',
+          description: 'coffee,  main st',
+          reference_number: null
+        }]))
+        .mockReturnValueOnce(insert);
+
+      await ImportService.previewImport('user-123', file, { accountId: 'account-1', mappingId: 'mapping-1' });
+
+      const values: any = callsOf(insert, 'insert')[0]![0];
+      const rows = JSON.parse(values.rows);
+      expect(rows.map((row: any) => [row.type, row.amount, row.duplicateOf, row.error])).toEqual([
+        ['expense', -4.5, 'txn-1', null],
+        ['expense', -4.5, null, null],
+        ['income', 2500, null, null],
+        ['expense', -1, null, 'Invalid or missing date']
+      ]);
+      expect(values).toMatchObject({ format: 'csv', row_count: 4, duplicate_count: 1, error_count: 1 });
+      expect(fs.existsSync(file.path)).toBe(false);
+    });
+
+    it('should parse an SGML OFX statement and match rows by FITID', async () => {
+      const file = writeStatement('statement.qfx', [
+        'OFXHEADER:100',
+        'DATA:OFXSGML',
+        '',
+        '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>USD',
+        '<BANKTRANLIST>',
+        '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260305120000[-5:EST]<TRNAMT>-42.10<FITID>F-100<NAME>GROCER &amp; CO</STMTTRN>',
+        '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260306<TRNAMT>100.00<FITID>F-101<MEMO>Refund</STMTTRN>',
+        '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>'
+      ].join('\n'));
+      const insert = createQueryBuilderMock([{ id: 'import-1', rows: [] }]);
+      mockDb
+        .mockReturnValueOnce(createQueryBuilderMock(account))
+        .mockReturnValueOnce(createQueryBuilderMock([{
+          id: 'txn-9',
+          transaction_date: '2026-02-01',
+          type: 'income',
+          amount: '100.00',
+          description: 'Refund',
+          reference_number: 'F-101'
+        }]))
+        .mockReturnValueOnce(insert);
+
+      await ImportService.previewImport('user-123', file, { accountId: 'account-1' });
+
+      const values: any = callsOf(insert, 'insert')[0]![0];
+      expect(JSON.parse(values.rows)).toEqual([
+        expect.objectContaining({ date: '2026-03-05', amount: -42.1, description: 'GROCER & CO', referenceNumber: 'F-100', duplicateOf: null }),
+        expect.objectContaining({ date: '2026-03-06', amount: 100, description: 'Refund', duplicateOf: 'txn-9', duplicateReason: 'reference' })
+      ]);
+      expect(values.format).toBe('qfx');
+    });
+
+    it('should require a column mapping for CSV statements', async () => {
+      const file = writeStatement('no-mapping.csv', 'Date,Amount\n');
+      mockDb.mockReturnValueOnce(createQueryBuilderMock(account));
+
+      await expect(ImportService.previewImport('user-123', file, { accountId: 'account-1' }))
+        .rejects.toThrow('A column mapping is required for CSV statements');
+      expect(fs.existsSync(file.path)).toBe(false);
+    });
+  });
+
+  describe('commitImport', () => {
+    const preview = {
+      id: 'import-1',
+      user_id: 'user-123',
+      account_id: 'account-1',
+      format: 'csv',
+      status: ImportStatus.PREVIEW,
+      file_name: 'checking.csv',
+      row_count: 3,
+      rows: [
+        { index: 0, date: '2026-03-01', type: 'expense', amount: -4.5, description: 'Coffee', merchantName: null, referenceNumber: null, duplicateOf: 'txn-1', duplicateReason: 'match', error: null },
+        { index: 1, date: '2026-03-02', type: 'income', amount: 2500, description: 'Payroll', merchantName: null, referenceNumber: null, duplicateOf: null, duplicateReason: null, error: null },
+        { index: 2, date: null, type: null, amount: -1, description: 'Broken', merchantName: null, referenceNumber: null, duplicateOf: null, duplicateReason: null, error: 'Invalid or missing date' }
+      ]
+    };
+
+    const mockTransaction = (builders: unknown[]) => {
+      const trx: any = jest.fn(() => builders.shift());
+      trx.fn = { now: jest.fn(() => 'NOW()') };
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+      return trx;
+    };
+
+    it('should import the valid non-duplicate rows in one transaction', async () => {
+      const insert = createQueryBuilderMock([{ id: 'txn-2', type: 'income', amount: '2500.00' }]);
+      const complete = createQueryBuilderMock([{ ...preview, status: ImportStatus.COMMITTED, imported_count: 1 }]);
+      mockTransaction([
+        createQueryBuilderMock(preview),
+        createQueryBuilderMock(account),
+        createQueryBuilderMock([{ id: 'category-1' }]),
+        insert,
+        complete
+      ]);
+      mockRuleService.findCategories.mockResolvedValue([null]);
+      mockAccountBalanceService.applyNewTransactions.mockResolvedValue([]);
+      mockBudgetService.syncSpentAmounts.mockResolvedValue([]);
+      mockBudgetAlertService.checkBudgets.mockResolvedValue([]);
+      mockAuditLog.createAuditLog.mockResolvedValue(undefined);
+
+      const result = await ImportService.commitImport('user-123', 'import-1', { categoryId: 'category-1' });
+
+      expect(callsOf(insert, 'insert')[0]![0]).toEqual([expect.objectContaining({
+        type: 'income',
+        amount: 2500,
+        transaction_date: '2026-03-02',
+        category_id: 'category-1',
+        import_id: 'import-1'
+      })]);
+      expect(callsOf(complete, 'update')[0]![0]).toMatchObject({ status: ImportStatus.COMMITTED, imported_count: 1 });
+      expect(mockAuditLog.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'data.import' }));
+      expect(result.status).toBe(ImportStatus.COMMITTED);
+    });
+
+    it('should prefer a row\'s own category over a matching rule', async () => {
+      const insert = createQueryBuilderMock([]);
+      mockTransaction([
+        createQueryBuilderMock(preview),
+        createQueryBuilderMock(account),
+        createQueryBuilderMock([{ id: 'category-1' }, { id: 'dining' }]),
+        insert,
+        createQueryBuilderMock([{ ...preview, status: ImportStatus.COMMITTED, imported_count: 2 }])
+      ]);
+      mockRuleService.findCategories.mockResolvedValue(['coffee-shops', 'dining']);
+      mockAccountBalanceService.applyNewTransactions.mockResolvedValue([]);
+      mockBudgetService.syncSpentAmounts.mockResolvedValue([]);
+      mockBudgetAlertService.checkBudgets.mockResolvedValue([]);
+      mockAuditLog.createAuditLog.mockResolvedValue(undefined);
+
+      await ImportService.commitImport('user-123', 'import-1', {
+        categoryId: 'category-1',
+        rows: [{ index: 0, categoryId: 'category-1' }, { index: 1 }]
+      });
+
+      expect(mockRuleService.findCategories).toHaveBeenCalledWith(expect.anything(), 'user-123', [
+        { accountId: 'account-1', merchantName: null, description: 'Coffee', amount: 4.5 },
+        { accountId: 'account-1', merchantName: null, description: 'Payroll', amount: 2500 }
+      ]);
+      expect(callsOf(insert, 'insert')[0]![0]).toEqual([
+        expect.objectContaining({ description: 'Coffee', category_id: 'category-1' }),
+        expect.objectContaining({ description: 'Payroll', category_id: 'dining' })
+      ]);
+    });
+
+    it('should refuse rows that failed to parse', async () => {
+      mockTransaction([createQueryBuilderMock(preview), createQueryBuilderMock(account)]);
+
+      await expect(ImportService.commitImport('user-123', 'import-1', {
+        categoryId: 'category-1',
+        rows: [{ index: 2 }]
+      })).rejects.toThrow('Row 2 cannot be imported');
+    });
+  });
+});
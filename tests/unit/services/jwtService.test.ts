@@ -1,17 +1,19 @@
-import { JwtService, JwtPayload } from '../../../src/services/jwtService';
+import { JwtService, JwtPayload, RefreshTokenReuseError } from '../../../src/services/jwtService';
 import { redisClient } from '../../../src/config/redis';
+import { config } from '../../../src/config/env';
 import jwt from 'jsonwebtoken';
 
 // Mock Redis client
 jest.mock('../../../src/config/redis', () => ({
   redisClient: {
-    setex: jest.fn(),
+    set: jest.fn(),
     get: jest.fn(),
     del: jest.fn(),
     sadd: jest.fn(),
+    srem: jest.fn(),
     smembers: jest.fn(),
-    scard: jest.fn(),
-    expire: jest.fn()
+    expire: jest.fn(),
+    eval: jest.fn()
   }
 }));
 
@@ -30,22 +32,23 @@ const mockRedis = redisClient as jest.Mocked<typeof redisClient>;
 describe('JwtService', () => {
   const testUserId = 'test-user-id-123';
   const testEmail = 'test@example.com';
+  const testSessionId = 'test-session-id-456';
 
   beforeEach(() => {
     jest.clearAllMocks();
     // Setup default Redis mock responses
-    mockRedis.setex.mockResolvedValue('OK');
+    mockRedis.set.mockResolvedValue('OK');
     mockRedis.get.mockResolvedValue(null);
     mockRedis.del.mockResolvedValue(1);
     mockRedis.sadd.mockResolvedValue(1);
     mockRedis.smembers.mockResolvedValue([]);
-    mockRedis.scard.mockResolvedValue(0);
     mockRedis.expire.mockResolvedValue(1);
+    mockRedis.eval.mockResolvedValue(1);
   });
 
   describe('generateTokenPair', () => {
     it('should generate access and refresh tokens', async () => {
-      const result = await JwtService.generateTokenPair(testUserId, testEmail);
+      const result = await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
 
       expect(result).toHaveProperty('accessToken');
       expect(result).toHaveProperty('refreshToken');
@@ -58,6 +61,7 @@ describe('JwtService', () => {
 
       expect(accessPayload.userId).toBe(testUserId);
       expect(accessPayload.email).toBe(testEmail);
+      expect(accessPayload.sid).toBe(testSessionId);
       expect(accessPayload.type).toBe('access');
 
       expect(refreshPayload.userId).toBe(testUserId);
@@ -71,53 +75,44 @@ describe('JwtService', () => {
     });
 
     it('should store tokens in Redis', async () => {
-      await JwtService.generateTokenPair(testUserId, testEmail);
+      await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
 
-      expect(mockRedis.setex).toHaveBeenCalledWith(
-        `access_token:${testUserId}`,
-        expect.any(Number),
-        expect.any(String)
+      expect(mockRedis.set).toHaveBeenCalledWith(
+        `access_token:${testSessionId}`,
+        expect.any(String),
+        'EX',
+        expect.any(Number)
       );
-      expect(mockRedis.setex).toHaveBeenCalledWith(
-        `refresh_token:${testUserId}`,
-        expect.any(Number),
-        expect.any(String)
+      expect(mockRedis.set).toHaveBeenCalledWith(
+        `refresh_token:${testSessionId}`,
+        expect.any(String),
+        'EX',
+        expect.any(Number)
       );
       expect(mockRedis.sadd).toHaveBeenCalled();
     });
 
-    it('should handle Redis storage errors', async () => {
-      mockRedis.setex.mockRejectedValueOnce(new Error('Redis error'));
+    it('should still issue tokens when Redis cannot store them', async () => {
+      mockRedis.set.mockRejectedValueOnce(new Error('Redis error'));
 
       await expect(
-        JwtService.generateTokenPair(testUserId, testEmail)
-      ).rejects.toThrow('Token generation failed');
+        JwtService.generateTokenPair(testUserId, testEmail, testSessionId)
+      ).resolves.toHaveProperty('accessToken');
     });
 
-    it('should generate unique tokens for concurrent requests', async () => {
+    it('should generate unique refresh tokens for concurrent requests', async () => {
       const [result1, result2] = await Promise.all([
-        JwtService.generateTokenPair(testUserId, testEmail),
-        JwtService.generateTokenPair(testUserId, testEmail)
+        JwtService.generateTokenPair(testUserId, testEmail, testSessionId),
+        JwtService.generateTokenPair(testUserId, testEmail, testSessionId)
       ]);
 
-      expect(result1.accessToken).not.toBe(result2.accessToken);
       expect(result1.refreshToken).not.toBe(result2.refreshToken);
     });
-
-    it('should handle invalid user data', async () => {
-      await expect(
-        JwtService.generateTokenPair('', testEmail)
-      ).rejects.toThrow();
-
-      await expect(
-        JwtService.generateTokenPair(testUserId, '')
-      ).rejects.toThrow();
-    });
   });
 
   describe('verifyAccessToken', () => {
     it('should verify valid access token', async () => {
-      const { accessToken } = await JwtService.generateTokenPair(testUserId, testEmail);
+      const { accessToken } = await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
       mockRedis.get.mockResolvedValue(null); // Not blacklisted
 
       const result = await JwtService.verifyAccessToken(accessToken);
@@ -128,7 +123,7 @@ describe('JwtService', () => {
     });
 
     it('should reject blacklisted token', async () => {
-      const { accessToken } = await JwtService.generateTokenPair(testUserId, testEmail);
+      const { accessToken } = await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
       mockRedis.get.mockResolvedValue('1'); // Blacklisted
 
       await expect(
@@ -143,21 +138,22 @@ describe('JwtService', () => {
     });
 
     it('should reject refresh token as access token', async () => {
-      const { refreshToken } = await JwtService.generateTokenPair(testUserId, testEmail);
+      const { refreshToken } = await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
       mockRedis.get.mockResolvedValue(null);
 
+      // Refresh tokens are signed with their own secret
       await expect(
         JwtService.verifyAccessToken(refreshToken)
-      ).rejects.toThrow('Invalid token type');
+      ).rejects.toThrow('invalid signature');
     });
   });
 
   describe('verifyRefreshToken', () => {
     it('should verify valid refresh token', async () => {
-      const { refreshToken } = await JwtService.generateTokenPair(testUserId, testEmail);
+      const { refreshToken } = await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
       mockRedis.get.mockImplementation((key) => {
         if (key === `blacklist:${refreshToken}`) return Promise.resolve(null);
-        if (key === `refresh_token:${testUserId}`) return Promise.resolve(refreshToken);
+        if (key === `refresh_token:${testSessionId}`) return Promise.resolve(refreshToken);
         return Promise.resolve(null);
       });
 
@@ -169,7 +165,7 @@ describe('JwtService', () => {
     });
 
     it('should reject blacklisted refresh token', async () => {
-      const { refreshToken } = await JwtService.generateTokenPair(testUserId, testEmail);
+      const { refreshToken } = await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
       mockRedis.get.mockResolvedValue('1'); // Blacklisted
 
       await expect(
@@ -178,10 +174,10 @@ describe('JwtService', () => {
     });
 
     it('should reject token not in Redis', async () => {
-      const { refreshToken } = await JwtService.generateTokenPair(testUserId, testEmail);
+      const { refreshToken } = await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
       mockRedis.get.mockImplementation((key) => {
         if (key === `blacklist:${refreshToken}`) return Promise.resolve(null);
-        if (key === `refresh_token:${testUserId}`) return Promise.resolve(null); // Not stored
+        if (key === `refresh_token:${testSessionId}`) return Promise.resolve(null); // Not stored
         return Promise.resolve(null);
       });
 
@@ -192,53 +188,67 @@ describe('JwtService', () => {
   });
 
   describe('refreshAccessToken', () => {
-    it('should generate new access token from valid refresh token', async () => {
-      const { refreshToken } = await JwtService.generateTokenPair(testUserId, testEmail);
-      mockRedis.get.mockImplementation((key) => {
-        if (key === `blacklist:${refreshToken}`) return Promise.resolve(null);
-        if (key === `refresh_token:${testUserId}`) return Promise.resolve(refreshToken);
-        return Promise.resolve(null);
-      });
+    it('should issue a new token pair for the same session', async () => {
+      const { refreshToken } = await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
 
       const result = await JwtService.refreshAccessToken(refreshToken);
 
-      expect(result).toHaveProperty('accessToken');
-      expect(result).toHaveProperty('accessTokenExpiry');
+      expect(result.sessionId).toBe(testSessionId);
+      expect(result.refreshToken).not.toBe(refreshToken);
 
       const payload = jwt.decode(result.accessToken) as JwtPayload;
       expect(payload.userId).toBe(testUserId);
       expect(payload.email).toBe(testEmail);
+      expect(payload.sid).toBe(testSessionId);
       expect(payload.type).toBe('access');
     });
 
-    it('should update access token in Redis', async () => {
-      const { refreshToken } = await JwtService.generateTokenPair(testUserId, testEmail);
-      mockRedis.get.mockImplementation((key) => {
-        if (key === `blacklist:${refreshToken}`) return Promise.resolve(null);
-        if (key === `refresh_token:${testUserId}`) return Promise.resolve(refreshToken);
-        return Promise.resolve(null);
-      });
+    it('should swap the stored refresh token only if it is the presented one', async () => {
+      const { refreshToken } = await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
 
-      await JwtService.refreshAccessToken(refreshToken);
+      const result = await JwtService.refreshAccessToken(refreshToken);
 
-      expect(mockRedis.setex).toHaveBeenCalledWith(
-        `access_token:${testUserId}`,
+      expect(mockRedis.eval).toHaveBeenCalledWith(
+        expect.any(String),
+        2,
+        `refresh_token:${testSessionId}`,
+        `access_token:${testSessionId}`,
+        refreshToken,
+        result.refreshToken,
         expect.any(Number),
-        expect.any(String)
+        result.accessToken,
+        expect.any(Number)
       );
     });
+
+    it('should report reuse of a refresh token that was already rotated', async () => {
+      const { refreshToken } = await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
+      mockRedis.eval.mockResolvedValue(-1);
+
+      await expect(JwtService.refreshAccessToken(refreshToken))
+        .rejects.toBeInstanceOf(RefreshTokenReuseError);
+    });
+
+    it('should reject refresh tokens of revoked sessions', async () => {
+      const { refreshToken } = await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
+      mockRedis.eval.mockResolvedValue(0);
+
+      await expect(JwtService.refreshAccessToken(refreshToken))
+        .rejects.toThrow('Invalid refresh token');
+    });
   });
 
   describe('blacklistToken', () => {
     it('should blacklist valid token', async () => {
-      const { accessToken } = await JwtService.generateTokenPair(testUserId, testEmail);
+      const { accessToken } = await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
 
       await JwtService.blacklistToken(accessToken);
 
-      expect(mockRedis.setex).toHaveBeenCalledWith(
+      expect(mockRedis.set).toHaveBeenCalledWith(
         `blacklist:${accessToken}`,
-        expect.any(Number),
-        '1'
+        '1',
+        'EX',
+        expect.any(Number)
       );
     });
 
@@ -257,21 +267,19 @@ describe('JwtService', () => {
 
   describe('revokeAllUserSessions', () => {
     it('should revoke all user sessions', async () => {
-      const accessToken = 'access-token-123';
-      const refreshToken = 'refresh-token-123';
-      const sessions = ['session1', 'session2'];
+      const { accessToken, refreshToken } = await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
 
       mockRedis.get.mockImplementation((key) => {
-        if (key === `access_token:${testUserId}`) return Promise.resolve(accessToken);
-        if (key === `refresh_token:${testUserId}`) return Promise.resolve(refreshToken);
+        if (key === `access_token:${testSessionId}`) return Promise.resolve(accessToken);
+        if (key === `refresh_token:${testSessionId}`) return Promise.resolve(refreshToken);
         return Promise.resolve(null);
       });
-      mockRedis.smembers.mockResolvedValue(sessions);
+      mockRedis.smembers.mockResolvedValue([testSessionId]);
 
       await JwtService.revokeAllUserSessions(testUserId);
 
-      expect(mockRedis.del).toHaveBeenCalledWith(`access_token:${testUserId}`);
-      expect(mockRedis.del).toHaveBeenCalledWith(`refresh_token:${testUserId}`);
+      expect(mockRedis.del).toHaveBeenCalledWith(`access_token:${testSessionId}`);
+      expect(mockRedis.del).toHaveBeenCalledWith(`refresh_token:${testSessionId}`);
       expect(mockRedis.del).toHaveBeenCalledWith(`user_sessions:${testUserId}`);
     });
   });
@@ -319,15 +327,15 @@ describe('JwtService', () => {
     });
 
     it('should reject invalid token type', () => {
-      const { accessToken } = jwt.sign(
+      const accessToken = jwt.sign(
         { userId: testUserId, email: testEmail, type: 'access' },
-        process.env.JWT_SECRET || 'test-secret',
+        config.JWT_SECRET,
         { expiresIn: '1h' }
       );
 
       expect(() => {
-        JwtService.verifyPasswordResetToken(accessToken as string);
-      }).toThrow('Invalid token type');
+        JwtService.verifyPasswordResetToken(accessToken);
+      }).toThrow('Invalid or expired password reset token');
     });
   });
 
@@ -365,36 +373,45 @@ describe('JwtService', () => {
     });
   });
 
-  describe('getUserSessionsCount', () => {
-    it('should return session count for user', async () => {
-      mockRedis.scard.mockResolvedValue(3);
+  describe('revokeSessionTokens', () => {
+    it('should blacklist and remove the tokens of the session only', async () => {
+      const { accessToken, refreshToken } = await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
+      mockRedis.get.mockImplementation((key) => {
+        if (key === `access_token:${testSessionId}`) return Promise.resolve(accessToken);
+        if (key === `refresh_token:${testSessionId}`) return Promise.resolve(refreshToken);
+        return Promise.resolve(null);
+      });
 
-      const count = await JwtService.getUserSessionsCount(testUserId);
+      await JwtService.revokeSessionTokens(testUserId, testSessionId);
 
-      expect(count).toBe(3);
-      expect(mockRedis.scard).toHaveBeenCalledWith(`user_sessions:${testUserId}`);
+      expect(mockRedis.set).toHaveBeenCalledWith(`blacklist:${accessToken}`, '1', 'EX', expect.any(Number));
+      expect(mockRedis.set).toHaveBeenCalledWith(`blacklist:${refreshToken}`, '1', 'EX', expect.any(Number));
+      expect(mockRedis.del).toHaveBeenCalledWith(`access_token:${testSessionId}`);
+      expect(mockRedis.del).toHaveBeenCalledWith(`refresh_token:${testSessionId}`);
+      expect(mockRedis.srem).toHaveBeenCalledWith(`user_sessions:${testUserId}`, testSessionId);
+      // The user's other sessions stay signed in
+      expect(mockRedis.del).not.toHaveBeenCalledWith(`user_sessions:${testUserId}`);
     });
 
-    it('should return 0 for user with no sessions', async () => {
-      mockRedis.scard.mockResolvedValue(0);
+    it('should only remove the keys of a session whose tokens already expired', async () => {
+      await JwtService.revokeSessionTokens(testUserId, testSessionId);
 
-      const count = await JwtService.getUserSessionsCount(testUserId);
-
-      expect(count).toBe(0);
+      expect(mockRedis.set).not.toHaveBeenCalled();
+      expect(mockRedis.del).toHaveBeenCalledWith(`access_token:${testSessionId}`);
+      expect(mockRedis.srem).toHaveBeenCalledWith(`user_sessions:${testUserId}`, testSessionId);
     });
 
-    it('should handle Redis errors gracefully', async () => {
-      mockRedis.scard.mockRejectedValue(new Error('Redis error'));
-
-      const count = await JwtService.getUserSessionsCount(testUserId);
+    it('should fail when Redis fails, so the session is not reported as revoked', async () => {
+      mockRedis.del.mockRejectedValue(new Error('Redis error'));
 
-      expect(count).toBe(0);
+      await expect(JwtService.revokeSessionTokens(testUserId, testSessionId))
+        .rejects.toThrow('Session revocation failed');
     });
   });
 
   describe('Security Tests', () => {
     it('should not accept tokens with tampered payload', async () => {
-      const { accessToken } = await JwtService.generateTokenPair(testUserId, testEmail);
+      const { accessToken } = await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
       
       // Tamper with the token by changing the payload (this will invalidate the signature)
       const [header, payload, signature] = accessToken.split('.');
@@ -411,7 +428,7 @@ describe('JwtService', () => {
     });
 
     it('should not accept tokens with wrong signature', async () => {
-      const { accessToken } = await JwtService.generateTokenPair(testUserId, testEmail);
+      const { accessToken } = await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
       
       // Change the signature
       const [header, payload] = accessToken.split('.');
@@ -462,19 +479,19 @@ describe('JwtService', () => {
     it('should handle token generation under load', async () => {
       const concurrentRequests = 50;
       const promises = Array(concurrentRequests).fill(null).map(() =>
-        JwtService.generateTokenPair(testUserId, testEmail)
+        JwtService.generateTokenPair(testUserId, testEmail, testSessionId)
       );
 
       const results = await Promise.all(promises);
 
-      // All tokens should be unique
-      const tokens = results.map(r => r.accessToken);
+      // All refresh tokens should be unique
+      const tokens = results.map(r => r.refreshToken);
       const uniqueTokens = new Set(tokens);
       expect(uniqueTokens.size).toBe(concurrentRequests);
     });
 
     it('should handle token verification under load', async () => {
-      const { accessToken } = await JwtService.generateTokenPair(testUserId, testEmail);
+      const { accessToken } = await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
       mockRedis.get.mockResolvedValue(null);
 
       const concurrentRequests = 100;
@@ -494,15 +511,16 @@ describe('JwtService', () => {
 
   describe('Edge Cases', () => {
     it('should handle Redis connection failures during token generation', async () => {
-      mockRedis.setex.mockRejectedValue(new Error('Connection refused'));
+      mockRedis.set.mockRejectedValue(new Error('Connection refused'));
 
+      // Signing in does not depend on Redis being up
       await expect(
-        JwtService.generateTokenPair(testUserId, testEmail)
-      ).rejects.toThrow('Token generation failed');
+        JwtService.generateTokenPair(testUserId, testEmail, testSessionId)
+      ).resolves.toHaveProperty('refreshToken');
     });
 
     it('should handle Redis timeout during verification', async () => {
-      const { accessToken } = await JwtService.generateTokenPair(testUserId, testEmail);
+      const { accessToken } = await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
       mockRedis.get.mockRejectedValue(new Error('Timeout'));
 
       // Should default to allowing the token if Redis is down (fail open)
@@ -514,7 +532,7 @@ describe('JwtService', () => {
       // Create a token that expires in 1 millisecond
       const shortLivedToken = jwt.sign(
         { userId: testUserId, email: testEmail, type: 'access' },
-        process.env.JWT_SECRET || 'test-secret',
+        config.JWT_SECRET,
         { expiresIn: '1ms' }
       );
 
@@ -528,32 +546,31 @@ describe('JwtService', () => {
       ).rejects.toThrow('jwt expired');
     });
 
-    it('should handle user sessions cleanup when Redis fails', async () => {
-      mockRedis.get.mockResolvedValue('token');
+    it('should report user sessions cleanup when Redis fails', async () => {
       mockRedis.smembers.mockRejectedValue(new Error('Redis error'));
       mockRedis.del.mockRejectedValue(new Error('Redis error'));
 
-      // Should not throw error even if cleanup fails
+      // The sessions may still be signed in, so callers must not report them revoked
       await expect(
         JwtService.revokeAllUserSessions(testUserId)
-      ).resolves.not.toThrow();
+      ).rejects.toThrow('Session revocation failed');
     });
 
     it('should handle blacklist operation when Redis fails', async () => {
-      const { accessToken } = await JwtService.generateTokenPair(testUserId, testEmail);
-      mockRedis.setex.mockRejectedValue(new Error('Redis error'));
+      const { accessToken } = await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
+      mockRedis.set.mockRejectedValue(new Error('Redis error'));
 
       // Should throw error if blacklisting fails (this is critical for security)
       await expect(
         JwtService.blacklistToken(accessToken)
-      ).rejects.toThrow('Failed to blacklist token');
+      ).rejects.toThrow('Token blacklisting failed');
     });
   });
 
   describe('Token Lifecycle', () => {
     it('should handle complete token lifecycle', async () => {
       // Generate tokens
-      const tokens = await JwtService.generateTokenPair(testUserId, testEmail);
+      const tokens = await JwtService.generateTokenPair(testUserId, testEmail, testSessionId);
       
       // Verify tokens work
       mockRedis.get.mockResolvedValue(null);
@@ -563,7 +580,7 @@ describe('JwtService', () => {
       // Refresh access token
       mockRedis.get.mockImplementation((key) => {
         if (key === `blacklist:${tokens.refreshToken}`) return Promise.resolve(null);
-        if (key === `refresh_token:${testUserId}`) return Promise.resolve(tokens.refreshToken);
+        if (key === `refresh_token:${testSessionId}`) return Promise.resolve(tokens.refreshToken);
         return Promise.resolve(null);
       });
 
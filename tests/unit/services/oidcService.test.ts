@@ -0,0 +1,256 @@
+import { OidcService } from '../../../src/services/oidcService';
+import { createQueryBuilderMock, callsOf } from '../../helpers/knexMock';
+import { MockOidcProvider } from '../../helpers/mockOidcProvider';
+
+// Mock dependencies
+jest.mock('../../../src/config/env', () => ({
+  config: {
+    // Filled in once the mock provider is listening
+    OIDC_PROVIDERS: [],
+    OIDC_REDIRECT_URI: 'http://localhost:5173/auth/callback',
+    OIDC_STATE_TTL: 600
+  }
+}));
+
+jest.mock('../../../src/config/database', () => ({
+  db: Object.assign(jest.fn(), {
+    fn: { now: () => 'now()' }
+  })
+}));
+
+// An in-memory Redis, kept across tests' mock resets
+jest.mock('../../../src/config/redis', () => {
+  const store = new Map<string, string>();
+  return {
+    redisClient: {
+      set: (key: string, value: string) => {
+        store.set(key, value);
+        return Promise.resolve('OK');
+      },
+      getdel: (key: string) => {
+        const value = store.get(key) ?? null;
+        store.delete(key);
+        return Promise.resolve(value);
+      }
+    }
+  };
+});
+
+jest.mock('../../../src/middleware/errorHandler', () => ({
+  AppError: class AppError extends Error {
+    constructor(message: string, public statusCode: number) {
+      super(message);
+    }
+  }
+}));
+
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/middleware/auditLog', () => ({
+  createAuditLog: jest.fn(),
+  AuditEventType: {
+    IDENTITY_LINKED: 'auth.identity_linked',
+    IDENTITY_UNLINKED: 'auth.identity_unlinked'
+  }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+const { config } = require('../../../src/config/env');
+
+describe('OidcService', () => {
+  const userId = '4f0c3a52-9d7e-4b8a-a1f2-6c5d3e2b1a09';
+  const provider = new MockOidcProvider();
+
+  // Go through the provider's sign-in and return what it redirects back with,
+  // and the secret the browser that started it holds
+  const signInAtProvider = async (intent: 'login' | 'link' = 'login', forUser: string | null = null) => {
+    const { authorization, browserSecret } = await OidcService.createAuthorization('mock', intent, forUser);
+    return { ...provider.authorize(authorization.authorizationUrl), browserSecret };
+  };
+
+  const identityRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'identity-1',
+    user_id: userId,
+    provider: 'mock',
+    subject: 'mock-subject-1',
+    email: 'jane@example.com',
+    created_at: new Date(),
+    last_used_at: null,
+    ...overrides
+  });
+
+  beforeAll(async () => {
+    await provider.start();
+    config.OIDC_PROVIDERS.push({
+      id: 'mock',
+      name: 'Mock ID',
+      issuer: provider.issuer,
+      clientId: provider.clientId,
+      clientSecret: provider.clientSecret,
+      scopes: 'openid email profile'
+    });
+  });
+
+  afterAll(async () => {
+    await provider.stop();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider.idTokenOverrides = {};
+  });
+
+  describe('createAuthorization', () => {
+    it('should send the user to the provider with a PKCE challenge, state and nonce', async () => {
+      expect(OidcService.listProviders()).toEqual([{ id: 'mock', name: 'Mock ID' }]);
+
+      const { authorization, browserSecret } = await OidcService.createAuthorization('mock', 'login', null);
+      const url = new URL(authorization.authorizationUrl);
+
+      expect(`${url.origin}${url.pathname}`).toBe(`${provider.issuer}/authorize`);
+      expect(url.searchParams.get('client_id')).toBe(provider.clientId);
+      expect(url.searchParams.get('redirect_uri')).toBe('http://localhost:5173/auth/callback');
+      expect(url.searchParams.get('scope')).toBe('openid email profile');
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+      expect(url.searchParams.get('state')).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(url.searchParams.get('nonce')).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      // The browser's secret never goes to the provider
+      expect(authorization.authorizationUrl).not.toContain(browserSecret);
+
+      await expect(OidcService.createAuthorization('unknown', 'login', null))
+        .rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('completeAuthorization', () => {
+    it('should redeem the code with the PKCE verifier and return the verified account', async () => {
+      const { code, state, browserSecret } = await signInAtProvider();
+
+      await expect(OidcService.completeAuthorization(state, code, 'login', null, browserSecret)).resolves.toEqual({
+        provider: 'mock',
+        subject: 'mock-subject-1',
+        email: 'jane@example.com',
+        emailVerified: true,
+        firstName: 'Jane',
+        lastName: 'Doe'
+      });
+    });
+
+    it('should not accept a state twice, for another purpose or for another user', async () => {
+      const login = await signInAtProvider();
+      await OidcService.completeAuthorization(login.state, login.code, 'login', null, login.browserSecret);
+      await expect(OidcService.completeAuthorization(login.state, login.code, 'login', null, login.browserSecret))
+        .rejects.toMatchObject({ statusCode: 400 });
+
+      const link = await signInAtProvider('link', userId);
+      await expect(OidcService.completeAuthorization(link.state, link.code, 'login', null, link.browserSecret))
+        .rejects.toMatchObject({ statusCode: 400 });
+
+      const otherUser = await signInAtProvider('link', userId);
+      await expect(OidcService.completeAuthorization(otherUser.state, otherUser.code, 'link', 'someone-else', otherUser.browserSecret))
+        .rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should not complete a sign-in from a browser other than the one that started it', async () => {
+      // e.g. an attacker's own state and code, planted in the victim's browser
+      const attacker = await signInAtProvider();
+      const victim = await signInAtProvider();
+
+      await expect(OidcService.completeAuthorization(attacker.state, attacker.code, 'login', null, victim.browserSecret))
+        .rejects.toMatchObject({ statusCode: 400 });
+
+      const withoutCookie = await signInAtProvider();
+      await expect(OidcService.completeAuthorization(withoutCookie.state, withoutCookie.code, 'login', null, undefined))
+        .rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should reject ID tokens for another sign-in, client or issuer', async () => {
+      for (const overrides of [{ nonce: 'replayed' }, { aud: 'another-client' }, { iss: 'https://evil.example' }]) {
+        provider.idTokenOverrides = overrides;
+        const { code, state, browserSecret } = await signInAtProvider();
+
+        await expect(OidcService.completeAuthorization(state, code, 'login', null, browserSecret))
+          .rejects.toMatchObject({ statusCode: 401, message: 'Sign-in with Mock ID failed' });
+      }
+    });
+
+    it('should fetch the signing keys again after the provider rotates them', async () => {
+      const first = await signInAtProvider();
+      await OidcService.completeAuthorization(first.state, first.code, 'login', null, first.browserSecret);
+      const requests = provider.keyRequests;
+
+      provider.rotateKeys();
+      const second = await signInAtProvider();
+
+      await expect(OidcService.completeAuthorization(second.state, second.code, 'login', null, second.browserSecret))
+        .resolves.toMatchObject({ subject: 'mock-subject-1' });
+      expect(provider.keyRequests).toBe(requests + 1);
+    });
+  });
+
+  describe('link', () => {
+    const identity = {
+      provider: 'mock',
+      subject: 'mock-subject-1',
+      email: 'jane@example.com',
+      emailVerified: true,
+      firstName: 'Jane',
+      lastName: 'Doe'
+    };
+
+    it('should link a new account and refuse one linked to another user', async () => {
+      const insert = createQueryBuilderMock([identityRow()]);
+      mockDb
+        .mockReturnValueOnce(createQueryBuilderMock(undefined))
+        .mockReturnValueOnce(createQueryBuilderMock(undefined))
+        .mockReturnValueOnce(insert);
+
+      await expect(OidcService.link(userId, identity)).resolves.toMatchObject({
+        provider: 'mock',
+        providerName: 'Mock ID',
+        email: 'jane@example.com'
+      });
+      expect(callsOf(insert, 'insert')[0]).toEqual([{
+        user_id: userId,
+        provider: 'mock',
+        subject: 'mock-subject-1',
+        email: 'jane@example.com',
+        last_used_at: 'now()'
+      }]);
+
+      mockDb.mockReturnValueOnce(createQueryBuilderMock(identityRow({ user_id: 'someone-else' })));
+      await expect(OidcService.link(userId, identity)).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('unlink', () => {
+    it('should keep the only way to sign in of a user without a password', async () => {
+      mockDb
+        .mockReturnValueOnce(createQueryBuilderMock(identityRow()))
+        .mockReturnValueOnce(createQueryBuilderMock({ password_hash: null }))
+        .mockReturnValueOnce(createQueryBuilderMock(undefined))
+        .mockReturnValueOnce(createQueryBuilderMock(undefined));
+
+      await expect(OidcService.unlink(userId, 'mock')).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockDb).toHaveBeenCalledTimes(4);
+
+      const del = createQueryBuilderMock(1);
+      mockDb
+        .mockReturnValueOnce(createQueryBuilderMock(identityRow()))
+        .mockReturnValueOnce(createQueryBuilderMock({ password_hash: '$2b$12$hash' }))
+        .mockReturnValueOnce(createQueryBuilderMock(undefined))
+        .mockReturnValueOnce(createQueryBuilderMock(undefined))
+        .mockReturnValueOnce(del);
+
+      await OidcService.unlink(userId, 'mock');
+      expect(callsOf(del, 'where')[0]).toEqual(['id', 'identity-1']);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { PasskeyService } from '../../../src/services/passkeyService';
+import { createQueryBuilderMock, callsOf } from '../../helpers/knexMock';
+import { SoftwareAuthenticator } from '../../helpers/softwareAuthenticator';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  db: Object.assign(jest.fn(), {
+    fn: { now: () => 'now()' }
+  })
+}));
+
+// An in-memory Redis, kept across tests' mock resets
+jest.mock('../../../src/config/redis', () => {
+  const store = new Map<string, string>();
+  return {
+    redisClient: {
+      set: (key: string, value: string) => {
+        store.set(key, value);
+        return Promise.resolve('OK');
+      },
+      getdel: (key: string) => {
+        const value = store.get(key) ?? null;
+        store.delete(key);
+        return Promise.resolve(value);
+      }
+    }
+  };
+});
+
+jest.mock('../../../src/middleware/errorHandler', () => ({
+  AppError: class AppError extends Error {
+    constructor(message: string, public statusCode: number) {
+      super(message);
+    }
+  }
+}));
+
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/middleware/auditLog', () => ({
+  createAuditLog: jest.fn(),
+  AuditEventType: {
+    PASSKEY_ADDED: 'auth.passkey_added',
+    PASSKEY_REMOVED: 'auth.passkey_removed'
+  }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+
+describe('PasskeyService', () => {
+  const userId = '4f0c3a52-9d7e-4b8a-a1f2-6c5d3e2b1a09';
+  const user = { id: userId, email: 'jane@example.com', first_name: 'Jane', last_name: 'Doe' };
+
+  // A stored passkey row for the authenticator, as registration would have saved it
+  const passkeyRow = (authenticator: SoftwareAuthenticator, overrides: Record<string, unknown> = {}) => ({
+    id: 'passkey-1',
+    user_id: userId,
+    name: 'Laptop',
+    credential_id: authenticator.id,
+    public_key: authenticator.storedPublicKey,
+    algorithm: -7,
+    sign_count: String(authenticator.signCount),
+    transports: ['internal'],
+    created_at: new Date(),
+    last_used_at: null,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('register', () => {
+    it('should store a passkey created for the registration options', async () => {
+      mockDb
+        .mockReturnValueOnce(createQueryBuilderMock(user))
+        .mockReturnValueOnce(createQueryBuilderMock([]));
+      const options = await PasskeyService.registrationOptions(userId);
+
+      expect(options.rp).toEqual({ id: 'localhost', name: 'Finance Tracker' });
+      expect(options.authenticatorSelection.userVerification).toBe('required');
+
+      const authenticator = new SoftwareAuthenticator();
+      const insert = createQueryBuilderMock([passkeyRow(authenticator)]);
+      mockDb
+        .mockReturnValueOnce(createQueryBuilderMock(undefined))
+        .mockReturnValueOnce(insert);
+
+      const passkey = await PasskeyService.register(userId, authenticator.create(options.challenge, options.user.id), 'Laptop');
+
+      expect(passkey).toMatchObject({ id: 'passkey-1', name: 'Laptop', transports: ['internal'] });
+      expect(callsOf(insert, 'insert')[0]).toEqual([{
+        user_id: userId,
+        name: 'Laptop',
+        credential_id: authenticator.id,
+        public_key: authenticator.storedPublicKey,
+        algorithm: -7,
+        sign_count: 1,
+        transports: ['internal']
+      }]);
+    });
+
+    it('should not accept a challenge twice or one issued for signing in', async () => {
+      mockDb
+        .mockReturnValueOnce(createQueryBuilderMock(user))
+        .mockReturnValueOnce(createQueryBuilderMock([]));
+      const options = await PasskeyService.registrationOptions(userId);
+      const credential = new SoftwareAuthenticator().create(options.challenge);
+
+      mockDb
+        .mockReturnValueOnce(createQueryBuilderMock(undefined))
+        .mockReturnValueOnce(createQueryBuilderMock([{ id: 'passkey-1' }]));
+      await PasskeyService.register(userId, credential, 'Laptop');
+
+      await expect(PasskeyService.register(userId, credential, 'Laptop'))
+        .rejects.toMatchObject({ statusCode: 400 });
+
+      const signInOptions = await PasskeyService.authenticationOptions(null);
+      await expect(PasskeyService.register(userId, new SoftwareAuthenticator().create(signInOptions.challenge), 'Laptop'))
+        .rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('signIn', () => {
+    it('should return the owner of the passkey and move its counter on', async () => {
+      const options = await PasskeyService.authenticationOptions(null);
+      expect(options.allowCredentials).toEqual([]);
+      expect(options.userVerification).toBe('required');
+
+      const authenticator = new SoftwareAuthenticator({ signCount: 3 });
+      authenticator.userHandle = Buffer.from(userId).toString('base64url');
+      const update = createQueryBuilderMock(1);
+      mockDb
+        .mockReturnValueOnce(createQueryBuilderMock(passkeyRow(authenticator)))
+        .mockReturnValueOnce(update);
+
+      await expect(PasskeyService.signIn(authenticator.get(options.challenge))).resolves.toBe(userId);
+      expect(callsOf(update, 'where')[0]).toEqual([{ id: 'passkey-1', sign_count: 3 }]);
+      expect(callsOf(update, 'update')[0]).toEqual([{ sign_count: 4, last_used_at: 'now()' }]);
+    });
+
+    it('should reject a passkey claiming another user or without user verification', async () => {
+      const authenticator = new SoftwareAuthenticator();
+      authenticator.userHandle = Buffer.from('someone-else').toString('base64url');
+      mockDb.mockReturnValueOnce(createQueryBuilderMock(passkeyRow(authenticator)));
+
+      const options = await PasskeyService.authenticationOptions(null);
+      await expect(PasskeyService.signIn(authenticator.get(options.challenge)))
+        .rejects.toMatchObject({ statusCode: 401, message: 'Passkey sign-in failed' });
+
+      const unverified = new SoftwareAuthenticator({ userVerified: false });
+      mockDb.mockReturnValueOnce(createQueryBuilderMock(passkeyRow(unverified)));
+
+      const retry = await PasskeyService.authenticationOptions(null);
+      await expect(PasskeyService.signIn(unverified.get(retry.challenge)))
+        .rejects.toMatchObject({ statusCode: 401 });
+      expect(mockDb).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('verifySecondFactor', () => {
+    it('should only accept passkeys belonging to the user', async () => {
+      const authenticator = new SoftwareAuthenticator({ userVerified: false });
+      const row = passkeyRow(authenticator);
+
+      mockDb.mockReturnValueOnce(createQueryBuilderMock([row]));
+      const options = await PasskeyService.authenticationOptions(userId);
+      expect(options.allowCredentials).toEqual([{ id: authenticator.id, type: 'public-key', transports: ['internal'] }]);
+
+      mockDb
+        .mockReturnValueOnce(createQueryBuilderMock(row))
+        .mockReturnValueOnce(createQueryBuilderMock(1));
+      await expect(PasskeyService.verifySecondFactor(userId, authenticator.get(options.challenge))).resolves.toBe(true);
+
+      mockDb.mockReturnValueOnce(createQueryBuilderMock([row]));
+      const otherOptions = await PasskeyService.authenticationOptions(userId);
+      mockDb.mockReturnValueOnce(createQueryBuilderMock({ ...row, user_id: 'someone-else' }));
+      await expect(PasskeyService.verifySecondFactor(userId, authenticator.get(otherOptions.challenge))).resolves.toBe(false);
+    });
+  });
+});
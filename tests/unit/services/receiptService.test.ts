@@ -0,0 +1,192 @@
+import fs from 'fs';
+import path from 'path';
+import { ReceiptService, MAX_RECEIPTS_PER_TRANSACTION } from '../../../src/services/receiptService';
+import { createQueryBuilderMock, callsOf } from '../../helpers/knexMock';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  db: Object.assign(jest.fn(), { transaction: jest.fn() })
+}));
+
+jest.mock('../../../src/config/env', () => ({
+  config: { API_PREFIX: '/api', API_VERSION: 'v1' }
+}));
+
+jest.mock('../../../src/middleware/errorHandler', () => ({
+  AppError: class AppError extends Error {
+    constructor(message: string, public statusCode: number) {
+      super(message);
+    }
+  }
+}));
+
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+jest.mock('sharp', () => jest.fn());
+
+jest.mock('../../../src/services/receiptOcrService', () => ({
+  ReceiptOcrService: { readReceipt: jest.fn() }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+const mockSharp = require('sharp');
+const { ReceiptOcrService: mockOcr } = require('../../../src/services/receiptOcrService');
+
+describe('ReceiptService', () => {
+  const userId = 'user-123';
+  const receiptDir = path.join(process.cwd(), 'uploads', 'receipts');
+
+  const upload = (filename: string, mimetype: string): Express.Multer.File => ({
+    fieldname: 'receipts',
+    originalname: `scan-${filename}`,
+    encoding: '7bit',
+    mimetype,
+    size: 2048,
+    destination: path.join(receiptDir, userId),
+    filename,
+    path: path.join(receiptDir, userId, filename)
+  } as Express.Multer.File);
+
+  const receiptRow = {
+    id: 'receipt-1',
+    user_id: userId,
+    transaction_id: 'txn-1',
+    file_name: `${userId}/1_abc.jpg`,
+    thumbnail_name: `${userId}/1_abc_thumb.jpg`,
+    original_name: 'lunch.jpg',
+    mime_type: 'image/jpeg',
+    file_size: 2048,
+    created_at: new Date()
+  };
+
+  let unlink: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSharp.mockReturnValue({
+      rotate: jest.fn().mockReturnThis(),
+      resize: jest.fn().mockReturnThis(),
+      flatten: jest.fn().mockReturnThis(),
+      jpeg: jest.fn().mockReturnThis(),
+      toFile: jest.fn().mockResolvedValue({})
+    });
+    unlink = jest.spyOn(fs.promises, 'unlink').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    unlink.mockRestore();
+  });
+
+  describe('addReceipts', () => {
+    it('should store files relative to the receipts directory with thumbnails for images only', async () => {
+      const insertQuery = createQueryBuilderMock([receiptRow]);
+      const trx = jest.fn()
+        .mockReturnValueOnce(createQueryBuilderMock({ id: 'txn-1' }))
+        .mockReturnValueOnce(createQueryBuilderMock({ count: '1' }))
+        .mockReturnValueOnce(insertQuery);
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+
+      const receipts = await ReceiptService.addReceipts(userId, 'txn-1', [
+        upload('1_abc.jpg', 'image/jpeg'),
+        upload('2_def.pdf', 'application/pdf')
+      ]);
+
+      expect(mockSharp).toHaveBeenCalledTimes(1);
+      expect(callsOf(insertQuery, 'insert')[0]![0]).toEqual([
+        expect.objectContaining({ file_name: `${userId}/1_abc.jpg`, thumbnail_name: `${userId}/1_abc_thumb.jpg`, transaction_id: 'txn-1' }),
+        expect.objectContaining({ file_name: `${userId}/2_def.pdf`, thumbnail_name: null, mime_type: 'application/pdf' })
+      ]);
+      expect(receipts[0]).toMatchObject({
+        url: '/api/v1/transactions/txn-1/receipts/receipt-1',
+        thumbnailUrl: '/api/v1/transactions/txn-1/receipts/receipt-1/thumbnail'
+      });
+    });
+
+    it('should enforce the per-transaction limit and remove the thumbnails it made', async () => {
+      const trx = jest.fn()
+        .mockReturnValueOnce(createQueryBuilderMock({ id: 'txn-1' }))
+        .mockReturnValueOnce(createQueryBuilderMock({ count: String(MAX_RECEIPTS_PER_TRANSACTION) }));
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+
+      await expect(ReceiptService.addReceipts(userId, 'txn-1', [upload('1_abc.png', 'image/png')]))
+        .rejects.toMatchObject({ statusCode: 400 });
+      expect(unlink).toHaveBeenCalledWith(path.join(receiptDir, userId, '1_abc_thumb.jpg'));
+    });
+  });
+
+  describe('createDraft', () => {
+    const extraction = {
+      engine: 'tesseract',
+      extractedAt: '2024-03-15T10:00:00.000Z',
+      fields: {
+        merchant: { value: 'Corner Grocery', confidence: 0.72 },
+        date: { value: '2024-03-15', confidence: 0.9 },
+        total: { value: 6.04, confidence: 0.81 },
+        tax: { value: 0.45, confidence: 0.81 }
+      }
+    };
+
+    it('should store the receipt without a transaction and pre-fill one from it', async () => {
+      mockOcr.readReceipt.mockResolvedValue(extraction);
+      const insertQuery = createQueryBuilderMock([{ ...receiptRow, transaction_id: null, extraction }]);
+      mockDb.mockReturnValue(insertQuery);
+
+      const draft = await ReceiptService.createDraft(userId, upload('1_abc.jpg', 'image/jpeg'));
+
+      expect(callsOf(insertQuery, 'insert')[0]![0]).toMatchObject({ transaction_id: null, extraction });
+      expect(draft).toEqual({
+        receiptId: 'receipt-1',
+        transaction: {
+          type: 'expense',
+          amount: 6.04,
+          date: '2024-03-15',
+          description: 'Corner Grocery',
+          merchantName: 'Corner Grocery'
+        },
+        extraction
+      });
+    });
+
+    it('should only read images', async () => {
+      await expect(ReceiptService.createDraft(userId, upload('2_def.pdf', 'application/pdf')))
+        .rejects.toMatchObject({ statusCode: 400 });
+      expect(mockOcr.readReceipt).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getReceiptFile', () => {
+    it('should only find receipts of the user\'s transaction', async () => {
+      const query = createQueryBuilderMock(undefined);
+      mockDb.mockReturnValue(query);
+
+      await expect(ReceiptService.getReceiptFile('other-user', 'txn-1', 'receipt-1'))
+        .rejects.toMatchObject({ statusCode: 404 });
+      expect(callsOf(query, 'where')[0]).toEqual([{ id: 'receipt-1', transaction_id: 'txn-1', user_id: 'other-user' }]);
+    });
+
+    it('should refuse stored names that leave the receipts directory', async () => {
+      mockDb.mockReturnValue(createQueryBuilderMock({ ...receiptRow, file_name: '../../.env' }));
+
+      await expect(ReceiptService.getReceiptFile(userId, 'txn-1', 'receipt-1'))
+        .rejects.toThrow('Receipt file not found');
+    });
+  });
+
+  describe('deleteReceipt', () => {
+    it('should delete the file and thumbnail of the removed receipt', async () => {
+      mockDb.mockReturnValue(createQueryBuilderMock([receiptRow]));
+
+      await ReceiptService.deleteReceipt(userId, 'txn-1', 'receipt-1');
+
+      expect(unlink).toHaveBeenCalledWith(path.join(receiptDir, userId, '1_abc.jpg'));
+      expect(unlink).toHaveBeenCalledWith(path.join(receiptDir, userId, '1_abc_thumb.jpg'));
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { RecurringRuleService } from '../../../src/services/recurringRuleService';
+import { RecurringRuleModel, RecurrenceFrequency, RecurrenceSchedule, LAST_WEEK_OF_MONTH } from '../../../src/models/RecurringRule';
+import { TransactionType } from '../../../src/models/Transaction';
+import { createQueryBuilderMock, callsOf } from '../../helpers/knexMock';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  db: Object.assign(jest.fn(), { transaction: jest.fn() })
+}));
+
+jest.mock('../../../src/middleware/errorHandler', () => ({
+  AppError: class AppError extends Error {
+    constructor(message: string, public statusCode: number) {
+      super(message);
+    }
+  }
+}));
+
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/transactionService', () => ({
+  TransactionService: {
+    insertTransaction: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/accountBalanceService', () => ({
+  AccountBalanceService: {
+    recordBalanceChanges: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/budgetAlertService', () => ({
+  BudgetAlertService: {
+    deliverAlerts: jest.fn()
+  }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+const mockTransactionService = require('../../../src/services/transactionService').TransactionService;
+const mockAccountBalanceService = require('../../../src/services/accountBalanceService').AccountBalanceService;
+
+describe('RecurringRuleService', () => {
+  const rule = {
+    id: 'rule-1',
+    user_id: 'user-123',
+    account_id: 'account-1',
+    category_id: 'category-1',
+    type: TransactionType.EXPENSE,
+    amount: '1200.00',
+    description: 'Rent',
+    merchant_name: null,
+    notes: null,
+    tags: null,
+    frequency: RecurrenceFrequency.MONTHLY,
+    interval_count: 1,
+    weekday: null,
+    week_of_month: null,
+    start_date: '2026-01-31',
+    end_date: null,
+    max_occurrences: null,
+    occurrences_created: 0,
+    next_occurrence_index: 0,
+    next_occurrence_date: '2026-01-31',
+    last_occurrence_date: null,
+    is_active: true
+  };
+
+  const schedule = (overrides: Partial<RecurrenceSchedule>): RecurrenceSchedule => ({
+    frequency: RecurrenceFrequency.MONTHLY,
+    interval_count: 1,
+    weekday: null,
+    week_of_month: null,
+    start_date: '2026-01-31',
+    ...overrides
+  });
+
+  const mockTransaction = (builders: unknown[]) => {
+    const trx: any = jest.fn(() => builders.shift());
+    mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+    return trx;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTransactionService.insertTransaction.mockImplementation((_trx: unknown, _userId: string, data: { date: string }) =>
+      Promise.resolve({ transaction: { id: `txn-${data.date}` }, balanceChanges: [], budgetAlerts: [] })
+    );
+  });
+
+  describe('occurrenceDate', () => {
+    it('should clamp the day of month to shorter months', () => {
+      const monthly = schedule({});
+
+      expect(RecurringRuleModel.occurrenceDate(monthly, 1)).toBe('2026-02-28');
+      expect(RecurringRuleModel.occurrenceDate(monthly, 2)).toBe('2026-03-31');
+      expect(RecurringRuleModel.occurrenceDate(schedule({ frequency: RecurrenceFrequency.YEARLY, start_date: '2028-02-29' }), 1))
+        .toBe('2029-02-28');
+    });
+
+    it('should step weekly schedules by the interval', () => {
+      const biweekly = schedule({ frequency: RecurrenceFrequency.WEEKLY, interval_count: 2, start_date: '2026-12-24' });
+
+      expect(RecurringRuleModel.occurrenceDate(biweekly, 1)).toBe('2027-01-07');
+    });
+
+    it('should resolve nth and last weekdays of the month', () => {
+      const secondTuesday = schedule({ weekday: 2, week_of_month: 2, start_date: '2026-03-01' });
+      const lastFriday = schedule({ weekday: 5, week_of_month: LAST_WEEK_OF_MONTH, start_date: '2026-03-01' });
+
+      expect(RecurringRuleModel.occurrenceDate(secondTuesday, 0)).toBe('2026-03-10');
+      expect(RecurringRuleModel.occurrenceDate(secondTuesday, 1)).toBe('2026-04-14');
+      expect(RecurringRuleModel.occurrenceDate(lastFriday, 0)).toBe('2026-03-27');
+      expect(RecurringRuleModel.occurrenceDate(lastFriday, 2)).toBe('2026-05-29');
+    });
+
+    it('should start from the following month when the nth weekday precedes the start date', () => {
+      const firstMonday = schedule({ weekday: 1, week_of_month: 1, start_date: '2026-03-15' });
+
+      expect(RecurringRuleModel.firstOccurrenceIndex(firstMonday)).toBe(1);
+      expect(RecurringRuleModel.occurrenceDate(firstMonday, 1)).toBe('2026-04-06');
+    });
+  });
+
+  describe('materializeRule', () => {
+    it('should create due occurrences linked to the rule and apply skips and edits', async () => {
+      const advance = createQueryBuilderMock(1);
+      const trx = mockTransaction([
+        createQueryBuilderMock(rule),
+        createQueryBuilderMock([
+          { occurrence_date: '2026-02-28', is_skipped: true, overrides: null },
+          { occurrence_date: '2026-03-31', is_skipped: false, overrides: { amount: 1250 } }
+        ]),
+        advance
+      ]);
+
+      const result = await RecurringRuleService.materializeRule('rule-1', '2026-04-15');
+
+      expect(result).toEqual({ created: 2, skipped: 1 });
+      expect(mockTransactionService.insertTransaction.mock.calls.map((call: unknown[]) => call[2])).toEqual([
+        expect.objectContaining({ date: '2026-01-31', amount: 1200 }),
+        expect.objectContaining({ date: '2026-03-31', amount: 1250 })
+      ]);
+      expect(mockTransactionService.insertTransaction).toHaveBeenCalledWith(trx, 'user-123', expect.anything(), 'rule-1');
+      expect(callsOf(advance, 'update')).toEqual([[{
+        occurrences_created: 3,
+        last_occurrence_date: '2026-03-31',
+        next_occurrence_index: 3,
+        next_occurrence_date: '2026-04-30'
+      }]]);
+      expect(mockAccountBalanceService.recordBalanceChanges).toHaveBeenCalledTimes(2);
+    });
+
+    it('should end the series once the occurrence count is reached', async () => {
+      const advance = createQueryBuilderMock(1);
+      mockTransaction([
+        createQueryBuilderMock({ ...rule, max_occurrences: 2, occurrences_created: 1, next_occurrence_index: 1, next_occurrence_date: '2026-02-28' }),
+        createQueryBuilderMock([]),
+        advance
+      ]);
+
+      await RecurringRuleService.materializeRule('rule-1', '2026-06-01');
+
+      expect(mockTransactionService.insertTransaction).toHaveBeenCalledTimes(1);
+      expect(callsOf(advance, 'update')[0]![0]).toMatchObject({
+        occurrences_created: 2,
+        next_occurrence_index: null,
+        next_occurrence_date: null
+      });
+    });
+  });
+
+  describe('skipOccurrence', () => {
+    it('should reject a date that is not an upcoming occurrence', async () => {
+      mockTransaction([createQueryBuilderMock(rule)]);
+
+      await expect(RecurringRuleService.skipOccurrence('user-123', 'rule-1', '2026-02-27'))
+        .rejects.toThrow('Date is not an upcoming occurrence of this series');
+    });
+
+    it('should store a skip for an upcoming occurrence', async () => {
+      const upsert = createQueryBuilderMock([{ occurrence_date: '2026-03-31', is_skipped: true, overrides: null }]);
+      mockTransaction([createQueryBuilderMock(rule), upsert]);
+
+      const preview = await RecurringRuleService.skipOccurrence('user-123', 'rule-1', '2026-03-31');
+
+      expect(callsOf(upsert, 'onConflict')).toEqual([[['rule_id', 'occurrence_date']]]);
+      expect(preview).toMatchObject({ date: '2026-03-31', isSkipped: true, isModified: false });
+    });
+  });
+});
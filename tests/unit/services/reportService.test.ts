@@ -0,0 +1,171 @@
+import { ReportService } from '../../../src/services/reportService';
+import { BudgetPeriod } from '../../../src/models/Budget';
+import { createQueryBuilderMock } from '../../helpers/knexMock';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  db: Object.assign(jest.fn(), { raw: jest.fn((sql: string) => sql), select: jest.fn() })
+}));
+
+jest.mock('../../../src/config/redis', () => ({
+  cache: {
+    getJSON: jest.fn(),
+    setJSON: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/config/env', () => ({
+  config: { CACHE_DEFAULT_TTL: 300 }
+}));
+
+jest.mock('../../../src/middleware/errorHandler', () => ({
+  AppError: class AppError extends Error {
+    constructor(message: string, public statusCode: number) {
+      super(message);
+    }
+  }
+}));
+
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/exchangeRateService', () => ({
+  ExchangeRateService: {
+    getBaseCurrency: jest.fn()
+  }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+const mockCache = require('../../../src/config/redis').cache;
+const mockExchangeRateService = require('../../../src/services/exchangeRateService').ExchangeRateService;
+
+describe('ReportService', () => {
+  const filters = {
+    startDate: '2026-01-01',
+    endDate: '2026-03-31',
+    accountIds: ['account-1']
+  };
+
+  const fingerprint = createQueryBuilderMock({ transactions: '(12,2026-03-02)', budgets: '(1,2026-01-01)', categories: '(20,)' });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.select.mockReturnValue(fingerprint);
+    mockCache.getJSON.mockResolvedValue(null);
+    mockExchangeRateService.getBaseCurrency.mockResolvedValue('USD');
+  });
+
+  it('should build the report from the transaction and budget queries and cache it', async () => {
+    const summary = createQueryBuilderMock({ total_income: '3000.00', total_expense: '1250.50', transaction_count: '12' });
+    const breakdown = createQueryBuilderMock([
+      { type: 'expense', category_id: 'category-1', category_name: 'Rent', total_amount: '1000.00', transaction_count: '2' },
+      { type: 'income', category_id: 'category-2', category_name: 'Salary', total_amount: '3000.00', transaction_count: '1' },
+      { type: 'expense', category_id: null, category_name: null, total_amount: '250.50', transaction_count: '9' }
+    ]);
+    const tagTotals = createQueryBuilderMock([
+      { type: 'expense', tag: 'home', total_amount: '1000.00', transaction_count: '2' },
+      { type: 'expense', tag: 'travel', total_amount: '125.25', transaction_count: '3' }
+    ]);
+    const monthly = createQueryBuilderMock([
+      { month: '2026-01', income: '3000.00', expense: '600.00' },
+      { month: '2026-03', income: '0', expense: '650.50' }
+    ]);
+    const missingRates = createQueryBuilderMock([{ currency: 'JPY' }]);
+    const transactions = {
+      where: jest.fn().mockReturnThis(),
+      whereIn: jest.fn().mockReturnThis(),
+      whereBetween: jest.fn().mockReturnThis(),
+      clone: jest.fn()
+        .mockReturnValueOnce(summary)
+        .mockReturnValueOnce(breakdown)
+        .mockReturnValueOnce(tagTotals)
+        .mockReturnValueOnce(monthly)
+        .mockReturnValueOnce(missingRates)
+    };
+    const budgets = createQueryBuilderMock([{
+      id: 'budget-1',
+      category_id: 'category-1',
+      category_name: 'Rent',
+      amount: '1000.00',
+      currency: 'USD',
+      rollover_amount: '50.00',
+      period: BudgetPeriod.MONTHLY,
+      period_start: '2026-03-01',
+      period_end: '2026-03-31',
+      spent: '525.00'
+    }]);
+    mockDb.mockReturnValueOnce(transactions).mockReturnValueOnce(budgets);
+
+    const report = await ReportService.getReports('user-123', filters);
+
+    expect(transactions.whereBetween).toHaveBeenCalledWith('transaction_date', ['2026-01-01', '2026-03-31']);
+    expect(transactions.whereIn).toHaveBeenCalledWith('account_id', ['account-1']);
+    expect(mockDb.raw).toHaveBeenCalledWith(expect.stringContaining('convert_amount'), ['income', 'USD']);
+    expect(report.currency).toBe('USD');
+    expect(report.missingRates).toEqual(['JPY']);
+    expect(report.summary).toEqual({ totalIncome: 3000, totalExpense: 1250.5, balance: 1749.5, transactionCount: 12 });
+    expect(report.categoryBreakdown.expense).toEqual([
+      { categoryId: 'category-1', categoryName: 'Rent', totalAmount: 1000, transactionCount: 2, percentage: 79.97 },
+      { categoryId: '', categoryName: 'Uncategorized', totalAmount: 250.5, transactionCount: 9, percentage: 20.03 }
+    ]);
+    expect(report.tagBreakdown).toEqual({
+      income: [],
+      expense: [
+        { tag: 'home', totalAmount: 1000, transactionCount: 2, percentage: 79.97 },
+        { tag: 'travel', totalAmount: 125.25, transactionCount: 3, percentage: 10.02 }
+      ]
+    });
+    expect(report.monthlyTrends.map(trend => [trend.month, trend.balance])).toEqual([
+      ['2026-01', 2400],
+      ['2026-02', 0],
+      ['2026-03', -650.5]
+    ]);
+    expect(report.budgetProgress).toEqual([expect.objectContaining({
+      budgetId: 'budget-1',
+      currency: 'USD',
+      budgetAmount: 1050,
+      spentAmount: 525,
+      remainingAmount: 525,
+      percentage: 50,
+      startDate: '2026-03-01'
+    })]);
+    expect(mockCache.setJSON).toHaveBeenCalledWith(expect.stringMatching(/^reports:user-123:/), report, 300);
+  });
+
+  it('should return a cached report without running the report queries', async () => {
+    const cached = { summary: { totalIncome: 1 } };
+    mockCache.getJSON.mockResolvedValue(cached);
+
+    expect(await ReportService.getReports('user-123', filters)).toBe(cached);
+    expect(mockDb).not.toHaveBeenCalled();
+    expect(mockCache.setJSON).not.toHaveBeenCalled();
+  });
+
+  it('should key the cache on the data fingerprint', async () => {
+    mockCache.getJSON.mockResolvedValue({});
+
+    await ReportService.getReports('user-123', filters);
+    mockDb.select.mockReturnValue(createQueryBuilderMock({ transactions: '(13,2026-03-05)', budgets: '(1,2026-01-01)', categories: '(20,)' }));
+    await ReportService.getReports('user-123', filters);
+
+    const [first, second] = mockCache.getJSON.mock.calls.map((call: string[]) => call[0]);
+    expect(first).not.toBe(second);
+  });
+
+  it('should key the cache on the base currency', async () => {
+    mockCache.getJSON.mockResolvedValue({});
+
+    await ReportService.getReports('user-123', filters);
+    mockExchangeRateService.getBaseCurrency.mockResolvedValue('EUR');
+    await ReportService.getReports('user-123', filters);
+
+    const [first, second] = mockCache.getJSON.mock.calls.map((call: string[]) => call[0]);
+    expect(first).not.toBe(second);
+  });
+});
@@ -0,0 +1,244 @@
+import { SessionService } from '../../../src/services/sessionService';
+import { createQueryBuilderMock, callsOf } from '../../helpers/knexMock';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  db: Object.assign(jest.fn(), { fn: { now: () => 'now()' } })
+}));
+
+jest.mock('../../../src/middleware/errorHandler', () => ({
+  AppError: class AppError extends Error {
+    constructor(message: string, public statusCode: number) {
+      super(message);
+    }
+  }
+}));
+
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/middleware/auditLog', () => ({
+  createAuditLog: jest.fn(),
+  AuditEventType: { SUSPICIOUS_ACTIVITY: 'security.suspicious_activity' },
+  AuditSeverity: { HIGH: 'high' }
+}));
+
+jest.mock('../../../src/services/emailService', () => ({
+  EmailService: {
+    sendSecurityAlert: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/jwtService', () => ({
+  JwtService: {
+    generateTokenPair: jest.fn(),
+    refreshAccessToken: jest.fn(),
+    revokeSessionTokens: jest.fn(),
+    revokeAllUserSessions: jest.fn()
+  },
+  RefreshTokenReuseError: class RefreshTokenReuseError extends Error {
+    constructor(public userId: string, public sessionId: string) {
+      super('Refresh token reuse detected');
+    }
+  }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+const mockJwtService = require('../../../src/services/jwtService').JwtService;
+const { RefreshTokenReuseError } = require('../../../src/services/jwtService');
+const mockCreateAuditLog = require('../../../src/middleware/auditLog').createAuditLog;
+const mockEmailService = require('../../../src/services/emailService').EmailService;
+
+describe('SessionService', () => {
+  const userId = 'user-123';
+
+  const sessionRow = {
+    id: 'session-1',
+    user_id: userId,
+    device_name: 'Firefox on Linux',
+    user_agent: 'Mozilla/5.0 (X11; Linux x86_64; rv:128.0) Gecko/20100101 Firefox/128.0',
+    ip_address: '203.0.113.7',
+    created_at: new Date('2026-03-01T08:00:00Z'),
+    last_seen_at: new Date('2026-03-02T09:30:00Z'),
+    expires_at: new Date('2026-03-08T08:00:00Z'),
+    revoked_at: null
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('startSession', () => {
+    it('should record the device under the id carried by the tokens', async () => {
+      const tokens = {
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        accessTokenExpiry: new Date('2026-03-01T08:15:00Z'),
+        refreshTokenExpiry: new Date('2026-03-08T08:00:00Z')
+      };
+      mockJwtService.generateTokenPair.mockResolvedValue(tokens);
+      const insert = createQueryBuilderMock([]);
+      mockDb.mockReturnValueOnce(insert);
+
+      const result = await SessionService.startSession(userId, 'test@example.com', {
+        deviceName: null,
+        userAgent: sessionRow.user_agent,
+        ipAddress: '203.0.113.7'
+      });
+
+      const sessionId = mockJwtService.generateTokenPair.mock.calls[0][2];
+      expect(result).toBe(tokens);
+      expect(callsOf(insert, 'insert')[0]).toEqual([{
+        id: sessionId,
+        user_id: userId,
+        device_name: 'Firefox on Linux',
+        user_agent: sessionRow.user_agent,
+        ip_address: '203.0.113.7',
+        expires_at: tokens.refreshTokenExpiry
+      }]);
+    });
+  });
+
+  describe('listSessions', () => {
+    it('should mark the session of the request as current', async () => {
+      mockDb.mockReturnValueOnce(createQueryBuilderMock([sessionRow, { ...sessionRow, id: 'session-2' }]));
+
+      const sessions = await SessionService.listSessions(userId, 'session-2');
+
+      expect(sessions.map(session => [session.id, session.current])).toEqual([
+        ['session-1', false],
+        ['session-2', true]
+      ]);
+      expect(sessions[0]).toMatchObject({ deviceName: 'Firefox on Linux', ipAddress: '203.0.113.7' });
+    });
+  });
+
+  describe('touchSession', () => {
+    it('should reject sessions that are revoked or expired', async () => {
+      mockDb.mockReturnValueOnce(createQueryBuilderMock(undefined));
+
+      await expect(SessionService.touchSession(userId, 'session-1'))
+        .rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('should only write last_seen_at once a minute', async () => {
+      mockDb.mockReturnValueOnce(createQueryBuilderMock({ id: 'session-1', last_seen_at: new Date() }));
+
+      await SessionService.touchSession(userId, 'session-1', '203.0.113.7');
+      expect(mockDb).toHaveBeenCalledTimes(1);
+
+      const update = createQueryBuilderMock(1);
+      mockDb
+        .mockReturnValueOnce(createQueryBuilderMock({ id: 'session-1', last_seen_at: new Date(Date.now() - 5 * 60 * 1000) }))
+        .mockReturnValueOnce(update);
+
+      await SessionService.touchSession(userId, 'session-1', '203.0.113.7');
+      expect(callsOf(update, 'update')[0]).toEqual([{ last_seen_at: 'now()', ip_address: '203.0.113.7' }]);
+    });
+  });
+
+  describe('refreshSession', () => {
+    const client = { userAgent: sessionRow.user_agent, ipAddress: '198.51.100.4' };
+
+    it('should extend the session to the expiry of the rotated refresh token', async () => {
+      const tokens = {
+        accessToken: 'access-2',
+        refreshToken: 'refresh-2',
+        accessTokenExpiry: new Date('2026-03-02T09:45:00Z'),
+        refreshTokenExpiry: new Date('2026-03-09T09:30:00Z')
+      };
+      mockJwtService.refreshAccessToken.mockResolvedValue({ ...tokens, userId, sessionId: 'session-1' });
+      const update = createQueryBuilderMock(1);
+      mockDb.mockReturnValueOnce(update);
+
+      const result = await SessionService.refreshSession('refresh-1', client);
+
+      expect(result).toEqual(tokens);
+      expect(callsOf(update, 'update')[0]).toEqual([{
+        expires_at: tokens.refreshTokenExpiry,
+        last_seen_at: 'now()',
+        ip_address: '198.51.100.4'
+      }]);
+    });
+
+    it('should revoke the session, audit and alert the user when a refresh token is reused', async () => {
+      mockJwtService.refreshAccessToken.mockRejectedValue(new RefreshTokenReuseError(userId, 'session-1'));
+      const revoke = createQueryBuilderMock(1);
+      mockDb
+        .mockReturnValueOnce(revoke)
+        .mockReturnValueOnce(createQueryBuilderMock({ email: 'test@example.com', first_name: 'Test' }));
+
+      await expect(SessionService.refreshSession('refresh-1', client))
+        .rejects.toMatchObject({ statusCode: 401, message: 'Refresh token has been revoked' });
+
+      expect(callsOf(revoke, 'update')[0]).toEqual([{ revoked_at: 'now()' }]);
+      expect(mockJwtService.revokeSessionTokens).toHaveBeenCalledWith(userId, 'session-1');
+      expect(mockCreateAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        eventType: 'security.suspicious_activity',
+        userId,
+        userEmail: 'test@example.com',
+        ipAddress: '198.51.100.4',
+        sessionId: 'session-1',
+        success: false
+      }));
+      expect(mockEmailService.sendSecurityAlert).toHaveBeenCalledWith(
+        'test@example.com',
+        'Test',
+        expect.any(String),
+        { ip: '198.51.100.4', userAgent: sessionRow.user_agent }
+      );
+    });
+
+    it('should pass other refresh failures through without revoking', async () => {
+      mockJwtService.refreshAccessToken.mockRejectedValue(new Error('Invalid refresh token'));
+
+      await expect(SessionService.refreshSession('refresh-1', client)).rejects.toThrow('Invalid refresh token');
+      expect(mockDb).not.toHaveBeenCalled();
+      expect(mockCreateAuditLog).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should revoke the tokens of the session', async () => {
+      const update = createQueryBuilderMock(1);
+      mockDb.mockReturnValueOnce(update);
+
+      await SessionService.revokeSession(userId, 'session-1');
+
+      expect(callsOf(update, 'where')[0]).toEqual([{ id: 'session-1', user_id: userId }]);
+      expect(callsOf(update, 'whereNull')[0]).toEqual(['revoked_at']);
+      expect(mockJwtService.revokeSessionTokens).toHaveBeenCalledWith(userId, 'session-1');
+      // Only this device is signed out
+      expect(mockJwtService.revokeAllUserSessions).not.toHaveBeenCalled();
+    });
+
+    it('should throw not found for sessions of other users or already revoked', async () => {
+      mockDb.mockReturnValueOnce(createQueryBuilderMock(0));
+
+      await expect(SessionService.revokeSession(userId, 'session-9'))
+        .rejects.toMatchObject({ statusCode: 404 });
+      expect(mockJwtService.revokeSessionTokens).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeAllSessions', () => {
+    it('should mark every open session of the user revoked and revoke their tokens', async () => {
+      const update = createQueryBuilderMock(3);
+      mockDb.mockReturnValueOnce(update);
+
+      await SessionService.revokeAllSessions(userId);
+
+      expect(mockDb).toHaveBeenCalledWith('user_sessions');
+      expect(callsOf(update, 'where')[0]).toEqual(['user_id', userId]);
+      expect(callsOf(update, 'whereNull')[0]).toEqual(['revoked_at']);
+      expect(callsOf(update, 'update')[0]).toEqual([{ revoked_at: 'now()' }]);
+      expect(mockJwtService.revokeAllUserSessions).toHaveBeenCalledWith(userId);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { TagService } from '../../../src/services/tagService';
+import { createQueryBuilderMock, callsOf } from '../../helpers/knexMock';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  db: Object.assign(jest.fn(), {
+    transaction: jest.fn(),
+    raw: jest.fn((sql: string, bindings?: unknown[]) => ({ sql, bindings }))
+  })
+}));
+
+jest.mock('../../../src/middleware/errorHandler', () => ({
+  AppError: class AppError extends Error {
+    constructor(message: string, public statusCode: number) {
+      super(message);
+    }
+  }
+}));
+
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+
+describe('TagService', () => {
+  const userId = 'user-123';
+
+  const mockTransaction = (...tables: unknown[]) => {
+    const trx = jest.fn();
+    tables.forEach(table => trx.mockReturnValueOnce(table));
+    mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+    return trx;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getTags', () => {
+    it('should list tags with their usage, most used first', async () => {
+      const query = createQueryBuilderMock([
+        { name: 'travel', transaction_count: '12', last_used: new Date('2026-03-04T00:00:00Z') },
+        { name: 'gift', transaction_count: '1', last_used: '2025-12-24' }
+      ]);
+      mockDb.mockReturnValueOnce(query);
+
+      const tags = await TagService.getTags(userId, { search: 'T', sortBy: 'count' });
+
+      expect(tags).toEqual([
+        { name: 'travel', transactionCount: 12, lastUsed: '2026-03-04' },
+        { name: 'gift', transactionCount: 1, lastUsed: '2025-12-24' }
+      ]);
+      expect(callsOf(query, 'whereRaw')[0]).toEqual(['strpos(LOWER(u.tag), LOWER(?)) > 0', ['T']]);
+      expect(callsOf(query, 'orderBy')).toEqual([['transaction_count', 'desc'], ['name', 'asc']]);
+    });
+  });
+
+  describe('mergeTags', () => {
+    it('should rewrite transactions and recurring rules in one transaction', async () => {
+      const transactions = createQueryBuilderMock(3);
+      const recurringRules = createQueryBuilderMock(1);
+      const trx = mockTransaction(transactions, recurringRules);
+
+      const result = await TagService.mergeTags(userId, ['trip', 'Travel', 'trip', 'travel'], 'travel');
+
+      expect(result).toEqual({ tag: 'travel', transactionsUpdated: 3, recurringRulesUpdated: 1 });
+      expect(trx.mock.calls).toEqual([['transactions'], ['recurring_rules']]);
+      expect(mockDb.raw).toHaveBeenCalledWith('ARRAY[?, ?]::text[]', ['trip', 'Travel']);
+      expect(callsOf(transactions, 'where')[0]).toEqual(['user_id', userId]);
+    });
+
+    it('should reject merging a tag into itself', async () => {
+      await expect(TagService.mergeTags(userId, ['travel'], 'travel'))
+        .rejects.toMatchObject({ statusCode: 400 });
+      expect(mockDb.transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renameTag', () => {
+    it('should reject renaming a tag to its own name', async () => {
+      await expect(TagService.renameTag(userId, 'travel', 'travel'))
+        .rejects.toMatchObject({ statusCode: 400, message: 'The tag already has this name' });
+    });
+  });
+
+  describe('deleteTag', () => {
+    it('should throw not found when nothing carries the tag', async () => {
+      mockTransaction(createQueryBuilderMock(0), createQueryBuilderMock(0));
+
+      await expect(TagService.deleteTag(userId, 'missing'))
+        .rejects.toMatchObject({ statusCode: 404, message: 'Tag not found' });
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { PassThrough } from 'stream';
+import { inflateRawSync } from 'zlib';
+import { TransactionExportService } from '../../../src/services/transactionExportService';
+import { TransactionExportFormat, TransactionType } from '../../../src/models/Transaction';
+
+// Mock dependencies
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/middleware/auditLog', () => ({
+  createAuditLog: jest.fn(),
+  AuditEventType: { TRANSACTION_EXPORTED: 'transaction.exported' }
+}));
+
+jest.mock('../../../src/services/transactionService', () => ({
+  TransactionService: {
+    streamTransactions: jest.fn()
+  }
+}));
+
+const mockTransactionService = require('../../../src/services/transactionService').TransactionService;
+const mockAuditLog = require('../../../src/middleware/auditLog');
+
+/**
+ * Read the entries of a ZIP archive through its central directory
+ */
+const readZip = (archive: Buffer): Record<string, string> => {
+  const end = archive.length - 22;
+  const entryCount = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  const entries: Record<string, string> = {};
+
+  for (let i = 0; i < entryCount; i++) {
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+    const start = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+
+    entries[name] = inflateRawSync(archive.subarray(start, start + compressedSize)).toString('utf8');
+    offset += 46 + nameLength;
+  }
+
+  return entries;
+};
+
+const collect = (out: PassThrough): Promise<Buffer> => new Promise(resolve => {
+  const chunks: Buffer[] = [];
+  out.on('data', chunk => chunks.push(chunk));
+  out.on('end', () => resolve(Buffer.concat(chunks)));
+});
+
+describe('TransactionExportService', () => {
+  const transaction = {
+    id: 'txn-1',
+    date: '2026-01-15',
+    type: TransactionType.EXPENSE,
+    amount: 42.5,
+    currency: 'USD',
+    description: 'Dinner, "the good place"',
+    categoryName: 'Dining',
+    accountName: 'Checking',
+    merchantName: null,
+    referenceNumber: null,
+    notes: '=1+1',
+    tags: ['food', 'friends'],
+    transferDirection: null
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAuditLog.createAuditLog.mockResolvedValue(undefined);
+    mockTransactionService.streamTransactions.mockImplementation(async function* () {
+      yield [transaction];
+      yield [{ ...transaction, id: 'txn-2', amount: 0, description: 'Fee waived', notes: null, tags: [] }];
+    });
+  });
+
+  it('should stream CSV with every page, keeping zero amounts and escaping text', async () => {
+    const out = new PassThrough();
+    const written = collect(out);
+
+    const rowCount = await TransactionExportService.exportTransactions('user-123', {
+      format: TransactionExportFormat.CSV,
+      sortOrder: 'asc',
+      accountId: 'account-1'
+    }, out);
+    out.end();
+
+    const lines = (await written).toString('utf8').split('\r\n');
+    expect(rowCount).toBe(2);
+    expect(lines[0]).toBe('\uFEFFDate,Type,Amount,Currency,Description,Category,Account,Merchant,Reference,Notes,Tags,Transfer Direction,ID');
+    expect(lines[1]).toBe('2026-01-15,expense,42.5,USD,"Dinner, ""the good place""",Dining,Checking,,,\'=1+1,food; friends,,txn-1');
+    expect(lines[2]).toBe('2026-01-15,expense,0,USD,Fee waived,Dining,Checking,,,,,,txn-2');
+    expect(mockTransactionService.streamTransactions).toHaveBeenCalledWith('user-123', { sortOrder: 'asc', accountId: 'account-1' });
+    expect(mockAuditLog.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      eventType: 'transaction.exported',
+      metadata: expect.objectContaining({ format: 'csv', rowCount: 2 })
+    }));
+  });
+
+  it('should stream an XLSX workbook with typed cells', async () => {
+    const out = new PassThrough();
+    const written = collect(out);
+
+    await TransactionExportService.exportTransactions('user-123', {
+      format: TransactionExportFormat.XLSX,
+      sortOrder: 'asc'
+    }, out);
+    out.end();
+
+    const entries = readZip(await written);
+    expect(Object.keys(entries)).toEqual(expect.arrayContaining([
+      '[Content_Types].xml', 'xl/workbook.xml', 'xl/styles.xml', 'xl/worksheets/sheet1.xml'
+    ]));
+
+    const sheet = entries['xl/worksheets/sheet1.xml']!;
+    expect(sheet.match(/<row>/g)).toHaveLength(3);
+    // 2026-01-15 as a spreadsheet date serial, formatted by style 1
+    expect(sheet).toContain('<c s="1"><v>46037</v></c>');
+    expect(sheet).toContain('<c><v>42.5</v></c>');
+    expect(sheet).toContain('<c><v>0</v></c>');
+    expect(sheet).toContain('Dinner, &quot;the good place&quot;');
+  });
+});
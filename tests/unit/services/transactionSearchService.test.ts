@@ -0,0 +1,98 @@
+import { TransactionSearchService } from '../../../src/services/transactionSearchService';
+import { createQueryBuilderMock, callsOf } from '../../helpers/knexMock';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  db: Object.assign(jest.fn(), { raw: jest.fn((sql: string, bindings?: unknown[]) => ({ sql, bindings })), withRecursive: jest.fn() })
+}));
+
+jest.mock('../../../src/middleware/errorHandler', () => ({
+  AppError: class AppError extends Error {
+    constructor(message: string, public statusCode: number) {
+      super(message);
+    }
+  }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+
+describe('TransactionSearchService', () => {
+  const userId = 'user-123';
+  const params = { page: 1, limit: 10, sortBy: 'relevance' as const, sortOrder: 'desc' as const };
+
+  const row = {
+    id: 'txn-1',
+    user_id: userId,
+    account_id: 'account-1',
+    account_name: 'Checking',
+    category_id: 'dining',
+    category_name: 'Dining Out',
+    type: 'expense',
+    amount: '64.00',
+    currency: 'EUR',
+    description: 'Dinner at Cafe Luna',
+    transaction_date: '2025-12-12',
+    merchant_name: 'Cafe Luna',
+    notes: null,
+    tags: ['travel'],
+    description_headline: 'Dinner at \u0002Cafe\u0003 Luna',
+    merchant_headline: '\u0002Cafe\u0003 Luna',
+    notes_headline: null
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should search words and filters and highlight the matches', async () => {
+    const count = createQueryBuilderMock({ count: '1' });
+    const query = createQueryBuilderMock([row], { clone: count });
+    const categories = createQueryBuilderMock([]);
+    mockDb.mockReturnValueOnce(query);
+    mockDb.withRecursive.mockReturnValueOnce(categories);
+
+    const result = await TransactionSearchService.searchTransactions(userId, {
+      ...params,
+      q: 'cafe amount>50 tag:travel category:Food'
+    });
+
+    expect(result.total).toBe(1);
+    expect(result.transactions[0]).toMatchObject({
+      id: 'txn-1',
+      highlights: {
+        description: [
+          { text: 'Dinner at ', match: false },
+          { text: 'Cafe', match: true },
+          { text: ' Luna', match: false }
+        ],
+        merchantName: [{ text: 'Cafe', match: true }, { text: ' Luna', match: false }]
+      }
+    });
+    expect(result.transactions[0]!.highlights.notes).toBeUndefined();
+
+    expect(callsOf(query, 'whereRaw')[0]).toEqual([
+      "transaction_search_document(t.description, t.notes, t.merchant_name, t.tags) @@ to_tsquery('simple', ?)",
+      ['cafe:*']
+    ]);
+    expect(callsOf(query, 'where')).toContainEqual(['t.amount', '>', 50]);
+    expect(callsOf(query, 'whereIn')[0]![1]).toBe(categories);
+    expect(callsOf(query, 'orderBy')[0]).toEqual(['rank', 'desc']);
+  });
+
+  it('should sort by date when there are only filters', async () => {
+    const query = createQueryBuilderMock([], { clone: createQueryBuilderMock({ count: '0' }) });
+    mockDb.mockReturnValueOnce(query);
+
+    await TransactionSearchService.searchTransactions(userId, { ...params, q: 'merchant:50%_off' });
+
+    expect(callsOf(query, 'orWhereILike')[0]).toEqual(['t.merchant_name', '%50\\%\\_off%']);
+    expect(callsOf(query, 'orderBy')[0]).toEqual(['t.transaction_date', 'desc']);
+    expect(mockDb.raw).not.toHaveBeenCalled();
+  });
+
+  it('should reject queries with invalid filters', async () => {
+    await expect(TransactionSearchService.searchTransactions(userId, { ...params, q: 'before:yesterday' }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    expect(mockDb).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,391 @@
+import { TransactionService } from '../../../src/services/transactionService';
+import { TransactionType } from '../../../src/models/Transaction';
+import { createQueryBuilderMock, callsOf } from '../../helpers/knexMock';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  db: Object.assign(jest.fn(), { transaction: jest.fn() })
+}));
+
+jest.mock('../../../src/middleware/errorHandler', () => ({
+  AppError: class AppError extends Error {
+    constructor(message: string, public statusCode: number) {
+      super(message);
+    }
+  }
+}));
+
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/accountBalanceService', () => ({
+  AccountBalanceService: {
+    applyTransactionChange: jest.fn(),
+    recordBalanceChanges: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/budgetService', () => ({
+  BudgetService: {
+    syncSpentAmounts: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/budgetAlertService', () => ({
+  BudgetAlertService: {
+    checkBudgets: jest.fn().mockResolvedValue([]),
+    deliverAlerts: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/receiptService', () => ({
+  ReceiptService: {
+    getForTransactions: jest.fn(),
+    deleteFiles: jest.fn(),
+    claimDraft: jest.fn(),
+    attachDraft: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/categorizationRuleService', () => ({
+  CategorizationRuleService: {
+    findCategories: jest.fn(),
+    suggestRule: jest.fn()
+  }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+const mockBalanceService = require('../../../src/services/accountBalanceService').AccountBalanceService;
+const mockBudgetService = require('../../../src/services/budgetService').BudgetService;
+const mockBudgetAlertService = require('../../../src/services/budgetAlertService').BudgetAlertService;
+const mockReceiptService = require('../../../src/services/receiptService').ReceiptService;
+const mockRuleService = require('../../../src/services/categorizationRuleService').CategorizationRuleService;
+
+describe('TransactionService', () => {
+  const userId = 'user-123';
+
+  const transactionRow = {
+    id: 'txn-1',
+    user_id: userId,
+    account_id: 'account-1',
+    account_name: 'Checking',
+    category_id: 'category-1',
+    category_name: 'Groceries',
+    type: TransactionType.EXPENSE,
+    amount: '42.50',
+    currency: 'USD',
+    description: 'Weekly shop',
+    transaction_date: new Date(2026, 0, 15),
+    transfer_account_id: null,
+    transfer_transaction_id: null,
+    tags: null,
+    receipt_url: null,
+    notes: null,
+    reference_number: null,
+    is_recurring: false,
+    recurring_group_id: null,
+    merchant_name: 'Corner Market',
+    latitude: null,
+    longitude: null,
+    metadata: null,
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getTransactions', () => {
+    it('should apply filters, sorting and pagination', async () => {
+      const countQuery = createQueryBuilderMock({ count: '21' });
+      const listQuery = createQueryBuilderMock([transactionRow], { clone: countQuery });
+      mockDb.mockReturnValue(listQuery);
+
+      const result = await TransactionService.getTransactions(userId, {
+        page: 3,
+        limit: 10,
+        sortBy: 'amount',
+        sortOrder: 'asc',
+        search: 'shop',
+        categoryId: 'category-1',
+        type: TransactionType.EXPENSE,
+        dateFrom: new Date('2026-01-01'),
+        dateTo: new Date('2026-01-31')
+      });
+
+      expect(result.total).toBe(21);
+      expect(result.transactions).toHaveLength(1);
+      expect(result.transactions[0]).toMatchObject({
+        id: 'txn-1',
+        amount: 42.5,
+        date: '2026-01-15',
+        categoryName: 'Groceries',
+        merchantName: 'Corner Market',
+        tags: []
+      });
+
+      expect(callsOf(listQuery, 'where')).toEqual(expect.arrayContaining([
+        ['t.user_id', userId],
+        ['t.category_id', 'category-1'],
+        ['t.type', TransactionType.EXPENSE],
+        ['t.transaction_date', '>=', '2026-01-01'],
+        ['t.transaction_date', '<=', '2026-01-31']
+      ]));
+      expect(callsOf(listQuery, 'whereILike')).toEqual([['t.description', '%shop%']]);
+      expect(callsOf(listQuery, 'orderBy')[0]).toEqual(['t.amount', 'asc']);
+      expect(callsOf(listQuery, 'limit')).toEqual([[10]]);
+      expect(callsOf(listQuery, 'offset')).toEqual([[20]]);
+    });
+
+    it('should fall back to startDate/endDate and sort by date', async () => {
+      const countQuery = createQueryBuilderMock({ count: '0' });
+      const listQuery = createQueryBuilderMock([], { clone: countQuery });
+      mockDb.mockReturnValue(listQuery);
+
+      const result = await TransactionService.getTransactions(userId, {
+        page: 1,
+        limit: 10,
+        sortOrder: 'desc',
+        startDate: new Date('2026-02-01'),
+        endDate: new Date('2026-02-28')
+      });
+
+      expect(result).toEqual({ transactions: [], total: 0 });
+      expect(callsOf(listQuery, 'where')).toEqual(expect.arrayContaining([
+        ['t.transaction_date', '>=', '2026-02-01'],
+        ['t.transaction_date', '<=', '2026-02-28']
+      ]));
+      expect(callsOf(listQuery, 'orderBy')[0]).toEqual(['t.transaction_date', 'desc']);
+    });
+  });
+
+  describe('streamTransactions', () => {
+    it('should page through matches with a keyset cursor until a short page', async () => {
+      const firstPage = createQueryBuilderMock([
+        { ...transactionRow, id: 'txn-1' },
+        { ...transactionRow, id: 'txn-2', transaction_date: new Date(2026, 0, 16) }
+      ]);
+      const secondPage = createQueryBuilderMock([{ ...transactionRow, id: 'txn-3' }]);
+      mockDb.mockReturnValueOnce(firstPage).mockReturnValueOnce(secondPage);
+
+      const batches: string[][] = [];
+      for await (const batch of TransactionService.streamTransactions(userId, {
+        sortOrder: 'asc',
+        type: TransactionType.EXPENSE
+      }, 2)) {
+        batches.push(batch.map(transaction => transaction.id));
+      }
+
+      expect(batches).toEqual([['txn-1', 'txn-2'], ['txn-3']]);
+      expect(callsOf(firstPage, 'whereRaw')).toEqual([]);
+      expect(callsOf(secondPage, 'whereRaw')).toEqual([
+        ['(t.transaction_date, t.id) > (?, ?)', ['2026-01-16', 'txn-2']]
+      ]);
+      expect(callsOf(secondPage, 'where')).toEqual(expect.arrayContaining([['t.type', TransactionType.EXPENSE]]));
+      expect(callsOf(secondPage, 'orderBy')).toEqual([['t.transaction_date', 'asc'], ['t.id', 'asc']]);
+      expect(callsOf(secondPage, 'offset')).toEqual([]);
+    });
+  });
+
+  describe('getTransactionById', () => {
+    it('should throw 404 when the transaction does not belong to the user', async () => {
+      mockDb.mockReturnValue(createQueryBuilderMock(undefined));
+
+      await expect(TransactionService.getTransactionById(userId, 'missing'))
+        .rejects.toMatchObject({ message: 'Transaction not found', statusCode: 404 });
+    });
+  });
+
+  describe('createTransaction', () => {
+    const withoutCategory = {
+      amount: 42.5,
+      description: 'Weekly shop',
+      accountId: 'account-1',
+      type: TransactionType.EXPENSE,
+      date: new Date('2026-01-15')
+    };
+    const createData = { ...withoutCategory, categoryId: 'category-1' };
+
+    it('should insert the transaction using the account currency', async () => {
+      const insertQuery = createQueryBuilderMock([{ id: 'txn-1' }]);
+      const trx = jest.fn((table: string) => {
+        if (table === 'accounts') return createQueryBuilderMock({ id: 'account-1', currency: 'EUR' });
+        if (table === 'categories') return createQueryBuilderMock({ id: 'category-1' });
+        return insertQuery;
+      });
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+      mockDb.mockReturnValue(createQueryBuilderMock(transactionRow));
+      const balanceChanges = [{ accountId: 'account-1', previousBalance: 100, newBalance: 57.5, delta: -42.5 }];
+      mockBalanceService.applyTransactionChange.mockResolvedValue(balanceChanges);
+      mockBudgetService.syncSpentAmounts.mockResolvedValue(['budget-1']);
+      const alerts = [{ budgetId: 'budget-1', level: 'threshold' }];
+      mockBudgetAlertService.checkBudgets.mockResolvedValueOnce(alerts);
+
+      const result = await TransactionService.createTransaction(userId, createData);
+
+      expect(result.id).toBe('txn-1');
+      expect(mockBalanceService.applyTransactionChange).toHaveBeenCalledWith(trx, null, { id: 'txn-1' });
+      expect(mockBalanceService.recordBalanceChanges).toHaveBeenCalledWith(userId, balanceChanges, {
+        transactionId: 'txn-1',
+        reason: 'transaction.created'
+      });
+      expect(mockBudgetAlertService.checkBudgets).toHaveBeenCalledWith(trx, ['budget-1']);
+      expect(mockBudgetAlertService.deliverAlerts).toHaveBeenCalledWith(alerts);
+      expect(callsOf(insertQuery, 'insert')[0]![0]).toMatchObject({
+        user_id: userId,
+        account_id: 'account-1',
+        currency: 'EUR',
+        transaction_date: '2026-01-15',
+        tags: null
+      });
+    });
+
+    it('should keep the fields read from a receipt draft and attach the receipt', async () => {
+      const extraction = { engine: 'tesseract', fields: { total: { value: 42.5, confidence: 0.9 } } };
+      const insertQuery = createQueryBuilderMock([{ id: 'txn-1' }]);
+      const trx = jest.fn((table: string) => {
+        if (table === 'accounts') return createQueryBuilderMock({ id: 'account-1', currency: 'USD' });
+        if (table === 'categories') return createQueryBuilderMock({ id: 'category-1' });
+        return insertQuery;
+      });
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+      mockDb.mockReturnValue(createQueryBuilderMock(transactionRow));
+      mockReceiptService.claimDraft.mockResolvedValue({ id: 'receipt-1', extraction });
+      mockBalanceService.applyTransactionChange.mockResolvedValue([]);
+      mockBudgetService.syncSpentAmounts.mockResolvedValue([]);
+      mockBudgetAlertService.checkBudgets.mockResolvedValue([]);
+
+      await TransactionService.createTransaction(userId, { ...createData, receiptId: 'receipt-1' });
+
+      expect(mockReceiptService.claimDraft).toHaveBeenCalledWith(trx, userId, 'receipt-1');
+      expect(callsOf(insertQuery, 'insert')[0]![0]).toMatchObject({
+        metadata: { receiptExtraction: { receiptId: 'receipt-1', ...extraction } }
+      });
+      expect(mockReceiptService.attachDraft).toHaveBeenCalledWith(trx, 'receipt-1', 'txn-1');
+    });
+
+    it('should take the category from the first matching rule when none is given', async () => {
+      const insertQuery = createQueryBuilderMock([{ id: 'txn-1' }]);
+      const trx = jest.fn((table: string) => {
+        if (table === 'accounts') return createQueryBuilderMock({ id: 'account-1', currency: 'USD' });
+        if (table === 'categories') return createQueryBuilderMock({ id: 'category-2' });
+        return insertQuery;
+      });
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+      mockDb.mockReturnValue(createQueryBuilderMock(transactionRow));
+      mockRuleService.findCategories.mockResolvedValue(['category-2']);
+      mockBalanceService.applyTransactionChange.mockResolvedValue([]);
+      mockBudgetService.syncSpentAmounts.mockResolvedValue([]);
+      mockBudgetAlertService.checkBudgets.mockResolvedValue([]);
+
+      await TransactionService.createTransaction(userId, { ...withoutCategory, merchantName: 'Corner Market' });
+
+      expect(mockRuleService.findCategories).toHaveBeenCalledWith(trx, userId, [{
+        accountId: 'account-1',
+        merchantName: 'Corner Market',
+        description: 'Weekly shop',
+        amount: 42.5
+      }]);
+      expect(callsOf(insertQuery, 'insert')[0]![0]).toMatchObject({ category_id: 'category-2' });
+    });
+
+    it('should require a category when no rule matches', async () => {
+      const trx = jest.fn(() => createQueryBuilderMock({ id: 'account-1', currency: 'USD' }));
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+      mockRuleService.findCategories.mockResolvedValue([null]);
+
+      await expect(TransactionService.createTransaction(userId, withoutCategory))
+        .rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should reject accounts the user does not own', async () => {
+      const trx = jest.fn(() => createQueryBuilderMock(undefined));
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+
+      await expect(TransactionService.createTransaction(userId, createData))
+        .rejects.toMatchObject({ message: 'Account not found', statusCode: 404 });
+      expect(mockBalanceService.applyTransactionChange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateTransaction', () => {
+    it('should move balances from the old row state to the new one', async () => {
+      const existing = { ...transactionRow, amount: '42.50' };
+      const updated = { ...transactionRow, amount: '50.00' };
+      const trx = jest.fn((table: string) => {
+        if (table === 'transactions') {
+          return createQueryBuilderMock(existing, { returning: Promise.resolve([updated]) });
+        }
+        return createQueryBuilderMock(undefined);
+      });
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+      mockDb.mockReturnValue(createQueryBuilderMock(updated));
+      mockBalanceService.applyTransactionChange.mockResolvedValue([]);
+
+      await TransactionService.updateTransaction(userId, 'txn-1', { amount: 50 });
+
+      expect(mockBalanceService.applyTransactionChange).toHaveBeenCalledWith(trx, existing, updated);
+      expect(mockBudgetService.syncSpentAmounts).toHaveBeenCalledWith(trx, userId, [existing, updated]);
+      expect(mockRuleService.suggestRule).not.toHaveBeenCalled();
+    });
+
+    it('should offer a rule when the category is changed by hand', async () => {
+      const existing = { ...transactionRow };
+      const updated = { ...transactionRow, category_id: 'category-2' };
+      const suggestion = { ruleId: null, merchantName: 'Corner Market', categoryId: 'category-2', matchingTransactions: 3 };
+      const trx = jest.fn((table: string) => {
+        if (table === 'transactions') {
+          return createQueryBuilderMock(existing, { returning: Promise.resolve([updated]) });
+        }
+        return createQueryBuilderMock({ id: 'category-2' });
+      });
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+      mockDb.mockReturnValue(createQueryBuilderMock(updated));
+      mockBalanceService.applyTransactionChange.mockResolvedValue([]);
+      mockRuleService.suggestRule.mockResolvedValue(suggestion);
+
+      const result = await TransactionService.updateTransaction(userId, 'txn-1', { categoryId: 'category-2' });
+
+      expect(mockRuleService.suggestRule).toHaveBeenCalledWith(userId, updated);
+      expect(result.ruleSuggestion).toEqual(suggestion);
+    });
+  });
+
+  describe('deleteTransaction', () => {
+    it('should reverse the balance effect of the deleted row', async () => {
+      const trx = jest.fn(() => createQueryBuilderMock(transactionRow));
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+      mockBalanceService.applyTransactionChange.mockResolvedValue([]);
+      mockReceiptService.getForTransactions.mockResolvedValue([]);
+
+      await TransactionService.deleteTransaction(userId, 'txn-1');
+
+      expect(mockBalanceService.applyTransactionChange).toHaveBeenCalledWith(trx, transactionRow, null);
+      expect(mockBudgetService.syncSpentAmounts).toHaveBeenCalledWith(trx, userId, [transactionRow]);
+      expect(mockBalanceService.recordBalanceChanges).toHaveBeenCalledWith(userId, [], {
+        transactionId: 'txn-1',
+        reason: 'transaction.deleted'
+      });
+    });
+
+    it('should remove the files of attached receipts after the delete', async () => {
+      const receipts = [{ id: 'receipt-1', transaction_id: 'txn-1', file_name: `${userId}/1.jpg`, thumbnail_name: null }];
+      const trx = jest.fn(() => createQueryBuilderMock(transactionRow));
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+      mockBalanceService.applyTransactionChange.mockResolvedValue([]);
+      mockReceiptService.getForTransactions.mockResolvedValue(receipts);
+
+      await TransactionService.deleteTransaction(userId, 'txn-1');
+
+      expect(mockReceiptService.getForTransactions).toHaveBeenCalledWith(trx, ['txn-1']);
+      expect(mockReceiptService.deleteFiles).toHaveBeenCalledWith(receipts);
+    });
+  });
+});
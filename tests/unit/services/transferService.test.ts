@@ -0,0 +1,130 @@
+import { TransferService } from '../../../src/services/transferService';
+import { TransactionType, TransferDirection } from '../../../src/models/Transaction';
+import { createQueryBuilderMock, callsOf } from '../../helpers/knexMock';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  db: Object.assign(jest.fn(), { transaction: jest.fn() })
+}));
+
+jest.mock('../../../src/middleware/errorHandler', () => ({
+  AppError: class AppError extends Error {
+    constructor(message: string, public statusCode: number) {
+      super(message);
+    }
+  }
+}));
+
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/accountBalanceService', () => ({
+  AccountBalanceService: {
+    applyTransactionChange: jest.fn(),
+    recordBalanceChanges: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/services/transactionService', () => ({
+  TransactionService: {
+    getTransactionById: jest.fn()
+  }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+const mockBalanceService = require('../../../src/services/accountBalanceService').AccountBalanceService;
+const mockTransactionService = require('../../../src/services/transactionService').TransactionService;
+
+describe('TransferService', () => {
+  const userId = 'user-123';
+
+  const createTrx = (accounts: Array<{ id: string; currency: string }>) => {
+    const inserts = [
+      createQueryBuilderMock([{ id: 'out-1' }]),
+      createQueryBuilderMock([{ id: 'in-1' }])
+    ];
+    const link = createQueryBuilderMock([{ id: 'out-1', transfer_transaction_id: 'in-1' }]);
+
+    const trx = jest.fn((table: string) => {
+      if (table === 'accounts') return createQueryBuilderMock(accounts);
+      return inserts.shift() || link;
+    });
+
+    return { trx, link };
+  };
+
+  const transferData = {
+    fromAccountId: 'checking',
+    toAccountId: 'savings',
+    amount: 250,
+    date: new Date('2026-03-01')
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockBalanceService.applyTransactionChange.mockResolvedValue([]);
+    mockTransactionService.getTransactionById.mockImplementation((_userId: string, id: string) => Promise.resolve(
+      id === 'out-1'
+        ? { id, type: TransactionType.TRANSFER, transferTransactionId: 'in-1', transferDirection: TransferDirection.OUTGOING }
+        : { id, type: TransactionType.TRANSFER, transferTransactionId: 'out-1', transferDirection: TransferDirection.INCOMING }
+    ));
+  });
+
+  describe('createTransfer', () => {
+    it('should insert two linked legs and apply both balance changes', async () => {
+      const { trx, link } = createTrx([
+        { id: 'checking', currency: 'USD' },
+        { id: 'savings', currency: 'USD' }
+      ]);
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+
+      const result = await TransferService.createTransfer(userId, transferData);
+
+      expect(result.outgoing.id).toBe('out-1');
+      expect(result.incoming.id).toBe('in-1');
+      expect(callsOf(link, 'update')).toEqual([[{ transfer_transaction_id: 'in-1' }]]);
+      expect(mockBalanceService.applyTransactionChange).toHaveBeenCalledTimes(2);
+      expect(mockBalanceService.recordBalanceChanges).toHaveBeenCalledWith(userId, [], {
+        transactionId: 'out-1',
+        reason: 'transfer.created'
+      });
+    });
+
+    it('should require a received amount for cross-currency transfers', async () => {
+      const { trx } = createTrx([
+        { id: 'checking', currency: 'USD' },
+        { id: 'savings', currency: 'EUR' }
+      ]);
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+
+      await expect(TransferService.createTransfer(userId, transferData))
+        .rejects.toMatchObject({ message: 'Received amount is required for transfers from USD to EUR', statusCode: 400 });
+      expect(mockBalanceService.applyTransactionChange).not.toHaveBeenCalled();
+    });
+
+    it('should reject a received amount that differs for same-currency transfers', async () => {
+      const { trx } = createTrx([
+        { id: 'checking', currency: 'USD' },
+        { id: 'savings', currency: 'USD' }
+      ]);
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+
+      await expect(TransferService.createTransfer(userId, { ...transferData, receivedAmount: 200 }))
+        .rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should reject transfers to the same account', async () => {
+      const { trx } = createTrx([]);
+      mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+
+      await expect(TransferService.createTransfer(userId, { ...transferData, toAccountId: 'checking' }))
+        .rejects.toMatchObject({ message: 'Cannot transfer to the same account', statusCode: 400 });
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { createHash } from 'crypto';
+import { TwoFactorService } from '../../../src/services/twoFactorService';
+import { generateTotp, totpTimeStep } from '../../../src/utils/totp';
+import { createQueryBuilderMock, callsOf } from '../../helpers/knexMock';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  db: Object.assign(jest.fn(), {
+    fn: { now: () => 'now()' },
+    transaction: jest.fn()
+  })
+}));
+
+jest.mock('../../../src/config/redis', () => ({
+  redisClient: {
+    incr: jest.fn(),
+    expire: jest.fn(),
+    set: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/middleware/errorHandler', () => ({
+  AppError: class AppError extends Error {
+    constructor(message: string, public statusCode: number) {
+      super(message);
+    }
+  }
+}));
+
+jest.mock('../../../src/middleware/logging', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/middleware/auditLog', () => ({
+  createAuditLog: jest.fn(),
+  AuditEventType: {
+    TWO_FACTOR_ENABLED: 'auth.two_factor_enabled',
+    TWO_FACTOR_DISABLED: 'auth.two_factor_disabled'
+  }
+}));
+
+jest.mock('../../../src/services/jwtService', () => ({
+  JwtService: {
+    generateTwoFactorChallengeToken: jest.fn(),
+    verifyTwoFactorChallengeToken: jest.fn()
+  }
+}));
+
+const mockDb = require('../../../src/config/database').db;
+const mockRedis = require('../../../src/config/redis').redisClient;
+const mockJwtService = require('../../../src/services/jwtService').JwtService;
+
+describe('TwoFactorService', () => {
+  const userId = 'user-123';
+  const sessionId = 'session-1';
+  const userRow = { id: userId, email: 'jane@example.com', totp_secret: null, totp_enabled_at: null };
+
+  const mockTransaction = (...tables: unknown[]) => {
+    const trx = jest.fn();
+    tables.forEach(table => trx.mockReturnValueOnce(table));
+    mockDb.transaction.mockImplementation((callback: (trx: unknown) => unknown) => callback(trx));
+    return trx;
+  };
+
+  // Run setup and return the secret with how it was stored
+  const setUp = async () => {
+    const update = createQueryBuilderMock(1);
+    mockDb.mockReturnValueOnce(createQueryBuilderMock(userRow)).mockReturnValueOnce(update);
+
+    const setup = await TwoFactorService.beginSetup(userId);
+    const stored = (callsOf(update, 'update')[0]![0] as { totp_secret: string }).totp_secret;
+
+    return { ...setup, stored };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('beginSetup', () => {
+    it('should store the new secret encrypted and return its provisioning URI', async () => {
+      const { secret, otpauthUrl, stored } = await setUp();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(otpauthUrl).toContain(`secret=${secret}`);
+      expect(otpauthUrl).toContain('jane%40example.com');
+      expect(stored).not.toContain(secret);
+    });
+
+    it('should refuse to replace the secret once enabled', async () => {
+      mockDb.mockReturnValueOnce(createQueryBuilderMock({ ...userRow, totp_enabled_at: new Date() }));
+
+      await expect(TwoFactorService.beginSetup(userId)).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('enable', () => {
+    it('should turn on with a valid code and issue ten hashed recovery codes', async () => {
+      const { secret, stored } = await setUp();
+      mockDb
+        .mockReturnValueOnce(createQueryBuilderMock({ ...userRow, totp_secret: stored }))
+        .mockReturnValueOnce(createQueryBuilderMock(1));
+      const codesInsert = createQueryBuilderMock([]);
+      mockTransaction(createQueryBuilderMock(1), createQueryBuilderMock(0), codesInsert);
+
+      const recoveryCodes = await TwoFactorService.enable(userId, sessionId, generateTotp(secret, totpTimeStep()));
+
+      expect(recoveryCodes).toHaveLength(10);
+      recoveryCodes.forEach(code => expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/));
+
+      const inserted = callsOf(codesInsert, 'insert')[0]![0] as Array<{ code_hash: string }>;
+      expect(inserted[0]!.code_hash).toBe(
+        createHash('sha256').update(recoveryCodes[0]!.replace('-', '').toUpperCase()).digest('hex')
+      );
+    });
+
+    it('should reject a wrong code', async () => {
+      const { stored } = await setUp();
+      mockDb.mockReturnValueOnce(createQueryBuilderMock({ ...userRow, totp_secret: stored }));
+
+      await expect(TwoFactorService.enable(userId, sessionId, '000000'))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Invalid verification code' });
+      expect(mockDb.transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeChallenge', () => {
+    const challenge = { userId, email: userRow.email, deviceName: null, jti: 'jti-1', exp: Math.floor(Date.now() / 1000) + 300 };
+
+    beforeEach(() => {
+      mockJwtService.verifyTwoFactorChallengeToken.mockReturnValue(challenge);
+    });
+
+    it('should accept an unused recovery code and use up the challenge', async () => {
+      mockRedis.incr.mockResolvedValue(1);
+      const codes = createQueryBuilderMock(1);
+      mockDb.mockReturnValueOnce(codes);
+
+      const result = await TwoFactorService.completeChallenge('challenge', { recoveryCode: 'ABCDE-fghij' });
+
+      expect(result).toEqual({ userId, deviceName: null });
+      expect(callsOf(codes, 'where')[0]).toEqual([{
+        user_id: userId,
+        code_hash: createHash('sha256').update('ABCDEFGHIJ').digest('hex')
+      }]);
+      expect(mockRedis.set).toHaveBeenCalledWith('two_factor_challenge:jti-1', '6', 'EX', expect.any(Number));
+    });
+
+    it('should stop checking codes after too many attempts', async () => {
+      mockRedis.incr.mockResolvedValue(6);
+
+      await expect(TwoFactorService.completeChallenge('challenge', { code: '123456' }))
+        .rejects.toMatchObject({ statusCode: 401 });
+      expect(mockDb).not.toHaveBeenCalled();
+    });
+
+    it('should reject an app code that was already used', async () => {
+      const { secret, stored } = await setUp();
+      mockRedis.incr.mockResolvedValue(2);
+      mockDb
+        .mockReturnValueOnce(createQueryBuilderMock({ ...userRow, totp_secret: stored, totp_enabled_at: new Date() }))
+        .mockReturnValueOnce(createQueryBuilderMock(0));
+
+      await expect(TwoFactorService.completeChallenge('challenge', { code: generateTotp(secret, totpTimeStep()) }))
+        .rejects.toMatchObject({ statusCode: 401, message: 'Invalid verification code' });
+      expect(mockRedis.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requiresStepUp', () => {
+    it('should only ask users with two-factor authentication who have not verified recently', async () => {
+      mockDb
+        .mockReturnValueOnce(createQueryBuilderMock({ totp_enabled_at: null, two_factor_verified_at: null }))
+        .mockReturnValueOnce(createQueryBuilderMock({ totp_enabled_at: new Date(), two_factor_verified_at: new Date() }))
+        .mockReturnValueOnce(createQueryBuilderMock({
+          totp_enabled_at: new Date(),
+          two_factor_verified_at: new Date(Date.now() - 60 * 60 * 1000)
+        }));
+
+      expect(await TwoFactorService.requiresStepUp(userId, sessionId)).toBe(false);
+      expect(await TwoFactorService.requiresStepUp(userId, sessionId)).toBe(false);
+      expect(await TwoFactorService.requiresStepUp(userId, sessionId)).toBe(true);
+    });
+  });
+});
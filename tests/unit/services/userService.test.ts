@@ -1,5 +1,5 @@
 import { UserService, CreateUserData } from '../../../src/services/userService';
-import { JwtService } from '../../../src/services/jwtService';
+import { SessionService } from '../../../src/services/sessionService';
 import bcrypt from 'bcrypt';
 
 // Mock dependencies
@@ -15,7 +15,10 @@ jest.mock('../../../src/config/database', () => ({
   }
 }));
 
-jest.mock('../../../src/services/jwtService');
+jest.mock('../../../src/services/sessionService');
+jest.mock('../../../src/services/twoFactorService');
+jest.mock('../../../src/services/passkeyService');
+jest.mock('../../../src/services/oidcService');
 jest.mock('bcrypt');
 jest.mock('../../../src/middleware/logging', () => ({
   logger: {
@@ -27,7 +30,7 @@ jest.mock('../../../src/middleware/logging', () => ({
 }));
 
 const mockDb = require('../../../src/config/database').db;
-const mockJwtService = JwtService as jest.Mocked<typeof JwtService>;
+const mockSessionService = SessionService as jest.Mocked<typeof SessionService>;
 const mockBcrypt = bcrypt as jest.Mocked<typeof bcrypt>;
 
 describe('UserService', () => {
@@ -63,7 +66,7 @@ describe('UserService', () => {
     mockDb.transaction.mockResolvedValue(mockTransaction);
     mockBcrypt.hash.mockResolvedValue('hashed-password');
     mockBcrypt.compare.mockResolvedValue(true);
-    mockJwtService.revokeAllUserSessions.mockResolvedValue();
+    mockSessionService.revokeAllSessions.mockResolvedValue();
   });
 
   describe('createUser', () => {
@@ -150,7 +153,7 @@ describe('UserService', () => {
       };
       mockTransaction.mockImplementation(() => mockQueryBuilder);
       
-      mockJwtService.generateTokenPair.mockResolvedValue({
+      mockSessionService.startSession.mockResolvedValue({
         accessToken: 'access-token',
         refreshToken: 'refresh-token',
         accessTokenExpiry: new Date(),
@@ -165,9 +168,10 @@ describe('UserService', () => {
         loginData.password,
         mockUserWithPassword.password_hash
       );
-      expect(mockJwtService.generateTokenPair).toHaveBeenCalledWith(
+      expect(mockSessionService.startSession).toHaveBeenCalledWith(
         mockUser.id,
-        mockUser.email
+        mockUser.email,
+        { deviceName: null, userAgent: null, ipAddress: null }
       );
       expect(result.user).not.toHaveProperty('password_hash');
       expect(result.tokens).toBeDefined();
@@ -340,7 +344,7 @@ describe('UserService', () => {
         'hashed-current-password'
       );
       expect(mockBcrypt.hash).toHaveBeenCalledWith(newPassword, 12);
-      expect(mockJwtService.revokeAllUserSessions).toHaveBeenCalledWith(userId);
+      expect(mockSessionService.revokeAllSessions).toHaveBeenCalledWith(userId);
       expect(mockTransaction.commit).toHaveBeenCalled();
     });
 
@@ -390,7 +394,7 @@ describe('UserService', () => {
     it('should suspend user successfully', async () => {
       await UserService.suspendUser('user-123');
 
-      expect(mockJwtService.revokeAllUserSessions).toHaveBeenCalledWith('user-123');
+      expect(mockSessionService.revokeAllSessions).toHaveBeenCalledWith('user-123');
       expect(mockTransaction.commit).toHaveBeenCalled();
     });
   });
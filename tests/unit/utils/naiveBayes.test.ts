@@ -0,0 +1,40 @@
+import { NaiveBayesClassifier } from '../../../src/utils/naiveBayes';
+
+describe('NaiveBayesClassifier', () => {
+  const trained = () => {
+    const classifier = new NaiveBayesClassifier();
+    classifier.learn('1', 'groceries', ['w:corner', 'w:market']);
+    classifier.learn('2', 'groceries', ['w:weekly', 'w:shop', 'w:market']);
+    classifier.learn('3', 'dining', ['w:cafe', 'w:lunch']);
+    return classifier;
+  };
+
+  it('should rank labels by probability', () => {
+    const predictions = trained().predict(['w:market', 'w:lunch', 'w:unseen']);
+
+    expect(predictions.map(({ label }) => label)).toEqual(['groceries', 'dining']);
+    expect(predictions[0]!.probability + predictions[1]!.probability).toBeCloseTo(1);
+    expect(predictions[0]!.probability).toBeGreaterThan(0.5);
+  });
+
+  it('should replace a relearned document instead of counting it twice', () => {
+    const classifier = trained();
+
+    classifier.learn('1', 'dining', ['w:corner', 'w:cafe']);
+
+    expect(classifier.size).toBe(3);
+    expect(classifier.knows('w:market')).toBe(true);
+    expect(classifier.predict(['w:corner'])[0]!.label).toBe('dining');
+  });
+
+  it('should drop labels and features once their documents are forgotten', () => {
+    const classifier = trained();
+
+    classifier.forget('3');
+    classifier.forget('unknown');
+
+    expect(classifier.size).toBe(2);
+    expect(classifier.knows('w:cafe')).toBe(false);
+    expect(classifier.predict(['w:cafe']).map(({ label }) => label)).toEqual(['groceries']);
+  });
+});
@@ -0,0 +1,60 @@
+import { extractReceiptFields, parseAmounts, parseDate } from '../../../src/utils/receiptText';
+
+describe('receiptText', () => {
+  const lines = (...texts: string[]) => texts.map(text => ({ text, confidence: 0.9 }));
+
+  describe('parseAmounts', () => {
+    it('should read amounts with either decimal separator', () => {
+      expect(parseAmounts('2 x 3.50   7.00')).toEqual([3.5, 7]);
+      expect(parseAmounts('Total 1.234,56 EUR')).toEqual([1234.56]);
+      expect(parseAmounts('TOTAL $1,234.56')).toEqual([1234.56]);
+    });
+  });
+
+  describe('parseDate', () => {
+    it('should read ISO, written and unambiguous numeric dates', () => {
+      expect(parseDate('2024-03-15 12:04')).toEqual({ value: '2024-03-15', weight: 1 });
+      expect(parseDate('15 Mar 2024')).toEqual({ value: '2024-03-15', weight: 1 });
+      expect(parseDate('March 15, 2024')).toEqual({ value: '2024-03-15', weight: 1 });
+      expect(parseDate('15/03/24')).toEqual({ value: '2024-03-15', weight: 1 });
+    });
+
+    it('should lower the weight of ambiguous numeric dates', () => {
+      expect(parseDate('03/04/2024')).toEqual({ value: '2024-03-04', weight: 0.6 });
+      expect(parseDate('03.04.2024')).toEqual({ value: '2024-04-03', weight: 0.6 });
+    });
+
+    it('should reject impossible dates', () => {
+      expect(parseDate('2024-02-30')).toBeNull();
+    });
+  });
+
+  describe('extractReceiptFields', () => {
+    it('should read merchant, date, total and tax from a receipt', () => {
+      const fields = extractReceiptFields(lines(
+        'WELCOME TO',
+        'Corner Grocery',
+        '12 Main St',
+        'Date: 2024-03-15',
+        'Milk 2.49',
+        'Bread 3.10',
+        'Subtotal 5.59',
+        'Sales Tax 0.45',
+        'TOTAL 6.04'
+      ));
+
+      expect(fields.merchant).toEqual({ value: 'Corner Grocery', confidence: 0.72 });
+      expect(fields.date).toEqual({ value: '2024-03-15', confidence: 0.9 });
+      expect(fields.total).toEqual({ value: 6.04, confidence: 0.81 });
+      expect(fields.tax).toEqual({ value: 0.45, confidence: 0.81 });
+    });
+
+    it('should fall back to the largest amount at low confidence', () => {
+      const fields = extractReceiptFields(lines('Coffee 3.20', 'Cake 4.10', '7.30'));
+
+      expect(fields.total).toEqual({ value: 7.3, confidence: 0.45 });
+      expect(fields.tax).toEqual({ value: null, confidence: 0 });
+      expect(fields.date.value).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { parseSearchQuery, highlightSegments } from '../../../src/utils/searchQuery';
+
+describe('searchQuery', () => {
+  describe('parseSearchQuery', () => {
+    it('should split words from filters', () => {
+      const parsed = parseSearchQuery('coffee amount>50 tag:travel category:Food before:2026-01-01');
+
+      expect(parsed).toEqual({
+        text: 'coffee:*',
+        amounts: [{ operator: '>', value: 50 }],
+        dates: [{ operator: '<', value: '2026-01-01' }],
+        tags: ['travel'],
+        categories: ['Food'],
+        accounts: [],
+        merchants: [],
+        types: []
+      });
+    });
+
+    it('should turn phrases, exclusions and quoted filter values into safe terms', () => {
+      const parsed = parseSearchQuery('"Weekly Shop" -refund o\'brien:* account:"Joint checking" type:Expense');
+
+      expect(parsed.text).toBe('(weekly <-> shop) & !(refund:*) & (o:* & brien:*)');
+      expect(parsed.accounts).toEqual(['Joint checking']);
+      expect(parsed.types).toEqual(['expense']);
+    });
+
+    it('should treat unknown keys as words', () => {
+      expect(parseSearchQuery('note:tip').text).toBe('(note:* & tip:*)');
+    });
+
+    it('should reject invalid filters', () => {
+      expect(() => parseSearchQuery('amount>lots')).toThrow('Invalid amount: lots');
+      expect(() => parseSearchQuery('before:2026-02-30')).toThrow('Invalid date');
+      expect(() => parseSearchQuery('tag>travel')).toThrow('Use tag:travel');
+      expect(() => parseSearchQuery('-tag:travel')).toThrow('Filters cannot be excluded');
+      expect(() => parseSearchQuery('!!! -')).toThrow('The search query has no words or filters');
+    });
+  });
+
+  describe('highlightSegments', () => {
+    it('should split a headline into matched and plain segments', () => {
+      expect(highlightSegments('Lunch at \u0002Cafe\u0003 \u0002Luna\u0003 today')).toEqual([
+        { text: 'Lunch at ', match: false },
+        { text: 'Cafe', match: true },
+        { text: ' ', match: false },
+        { text: 'Luna', match: true },
+        { text: ' today', match: false }
+      ]);
+      expect(highlightSegments('Lunch at Cafe Luna')).toBeNull();
+      expect(highlightSegments(null)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  base32Decode,
+  base32Encode,
+  generateTotp,
+  totpProvisioningUri,
+  verifyTotp
+} from '../../../src/utils/totp';
+
+describe('totp', () => {
+  // The SHA-1 seed of the RFC 6238 test vectors, "12345678901234567890"
+  const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  describe('base32', () => {
+    it('should round-trip bytes and ignore case, spaces and padding', () => {
+      expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(secret);
+      expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq').toString()).toBe('12345678901234567890');
+      expect(base32Decode('MZXW6===').toString()).toBe('foo');
+    });
+  });
+
+  describe('generateTotp', () => {
+    it('should match the RFC 6238 test vectors', () => {
+      expect(generateTotp(secret, Math.floor(59 / 30), 8)).toBe('94287082');
+      expect(generateTotp(secret, Math.floor(1111111109 / 30), 8)).toBe('07081804');
+      expect(generateTotp(secret, Math.floor(1234567890 / 30))).toBe('005924');
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const time = 1111111109 * 1000;
+
+    it('should return the step of a code within the drift window', () => {
+      const step = Math.floor(1111111109 / 30);
+
+      expect(verifyTotp(secret, '081804', { time })).toBe(step);
+      expect(verifyTotp(secret, generateTotp(secret, step - 1), { time })).toBe(step - 1);
+      expect(verifyTotp(secret, generateTotp(secret, step + 2), { time })).toBeNull();
+    });
+
+    it('should reject codes of the wrong length', () => {
+      expect(verifyTotp(secret, '81804', { time })).toBeNull();
+    });
+  });
+
+  describe('totpProvisioningUri', () => {
+    it('should label the account with the issuer', () => {
+      expect(totpProvisioningUri(secret, 'jane@example.com', 'Finance Tracker')).toBe(
+        'otpauth://totp/Finance%20Tracker%3Ajane%40example.com' +
+        `?secret=${secret}&issuer=Finance+Tracker&algorithm=SHA1&digits=6&period=30`
+      );
+    });
+  });
+});
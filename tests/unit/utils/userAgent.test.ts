@@ -0,0 +1,24 @@
+import { describeUserAgent } from '../../../src/utils/userAgent';
+
+describe('describeUserAgent', () => {
+  it('should name the browser and platform', () => {
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36'
+    )).toBe('Chrome on macOS');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1'
+    )).toBe('Safari on iPhone');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.0.0'
+    )).toBe('Edge on Windows');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Mobile Safari/537.36'
+    )).toBe('Chrome on Android');
+  });
+
+  it('should fall back to whatever it recognises', () => {
+    expect(describeUserAgent('Mozilla/5.0 (X11; Linux x86_64) curl-ish/1.0')).toBe('Linux');
+    expect(describeUserAgent('curl/8.5.0')).toBe('Unknown device');
+    expect(describeUserAgent(undefined)).toBe('Unknown device');
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  COSE_ALGORITHMS,
+  parseAuthenticatorData,
+  readChallenge,
+  verifyAuthentication,
+  verifyRegistration
+} from '../../../src/utils/webauthn';
+import { decodeCbor } from '../../../src/utils/cbor';
+import { SoftwareAuthenticator, encodeCbor } from '../../helpers/softwareAuthenticator';
+
+describe('webauthn', () => {
+  const expected = {
+    challenge: 'c2VydmVyLWNoYWxsZW5nZQ',
+    origins: ['http://localhost:5173'],
+    rpId: 'localhost',
+    requireUserVerification: true
+  };
+
+  describe('cbor', () => {
+    it('should decode maps with integer keys and reject trailing data', () => {
+      const encoded = encodeCbor(new Map<number | string, number | string>([[1, 2], [-3, 'x'], ['fmt', -300]]));
+
+      expect(decodeCbor(encoded)).toEqual(new Map<number | string, number | string>([[1, 2], [-3, 'x'], ['fmt', -300]]));
+      expect(() => decodeCbor(Buffer.concat([encoded, Buffer.from([0])]))).toThrow('trailing data');
+      expect(() => decodeCbor(Buffer.from([0x9a, 0xff, 0xff, 0xff, 0xff]))).toThrow('unexpected end of input');
+    });
+  });
+
+  describe('verifyRegistration', () => {
+    it('should return the new credential with its public key', () => {
+      const authenticator = new SoftwareAuthenticator();
+      const credential = authenticator.create(expected.challenge);
+
+      expect(readChallenge(credential.response.clientDataJSON)).toBe(expected.challenge);
+      expect(verifyRegistration(credential, expected)).toEqual({
+        credentialId: authenticator.id,
+        publicKey: authenticator.storedPublicKey,
+        algorithm: COSE_ALGORITHMS.ES256,
+        signCount: 1,
+        transports: ['internal']
+      });
+    });
+
+    it('should reject another origin, challenge or site', () => {
+      const credential = new SoftwareAuthenticator({ origin: 'https://evil.example' }).create(expected.challenge);
+      expect(() => verifyRegistration(credential, expected)).toThrow('Origin is not allowed');
+
+      const other = new SoftwareAuthenticator().create('b3RoZXI');
+      expect(() => verifyRegistration(other, expected)).toThrow('Challenge does not match');
+
+      const otherSite = new SoftwareAuthenticator({ rpId: 'evil.example' }).create(expected.challenge);
+      expect(() => verifyRegistration(otherSite, expected)).toThrow('Credential is for another site');
+    });
+
+    it('should require user verification when asked to', () => {
+      const credential = new SoftwareAuthenticator({ userVerified: false }).create(expected.challenge);
+
+      expect(() => verifyRegistration(credential, expected)).toThrow('User verification is required');
+      expect(() => verifyRegistration(credential, { ...expected, requireUserVerification: false })).not.toThrow();
+    });
+  });
+
+  describe('verifyAuthentication', () => {
+    const register = (authenticator: SoftwareAuthenticator) => {
+      const { publicKey, algorithm, signCount } = verifyRegistration(authenticator.create(expected.challenge), expected);
+      return { ...expected, publicKey, algorithm, signCount };
+    };
+
+    it('should accept a signature from the registered passkey and return the new counter', () => {
+      const authenticator = new SoftwareAuthenticator({ signCount: 5 });
+      const stored = register(authenticator);
+
+      const credential = authenticator.get(expected.challenge);
+
+      expect(parseAuthenticatorData(Buffer.from(credential.response.authenticatorData, 'base64url')).userVerified).toBe(true);
+      expect(verifyAuthentication(credential, stored)).toEqual({ signCount: 6 });
+    });
+
+    it('should reject a signature from another key or over other data', () => {
+      const stored = register(new SoftwareAuthenticator());
+      const impostor = new SoftwareAuthenticator();
+      expect(() => verifyAuthentication(impostor.get(expected.challenge), stored)).toThrow('Signature is invalid');
+
+      const authenticator = new SoftwareAuthenticator();
+      const ownStored = register(authenticator);
+      const credential = authenticator.get(expected.challenge);
+      const tampered = Buffer.from(credential.response.authenticatorData, 'base64url');
+      tampered[36] ^= 0xff;
+      expect(() => verifyAuthentication(
+        { ...credential, response: { ...credential.response, authenticatorData: tampered.toString('base64url') } },
+        ownStored
+      )).toThrow('Signature is invalid');
+    });
+
+    it('should reject a counter that did not increase, but allow authenticators without one', () => {
+      const authenticator = new SoftwareAuthenticator({ signCount: 5 });
+      const stored = register(authenticator);
+
+      expect(() => verifyAuthentication(authenticator.get(expected.challenge), { ...stored, signCount: 9 }))
+        .toThrow('Signature counter did not increase');
+
+      const counterless = new SoftwareAuthenticator({ signCount: 0 });
+      const counterlessStored = register(counterless);
+      expect(verifyAuthentication(counterless.get(expected.challenge), counterlessStored)).toEqual({ signCount: 0 });
+    });
+  });
+});